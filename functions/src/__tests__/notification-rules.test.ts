@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildNotifications,
+  getDigestMinutes,
+  getLocalTime,
+  getPreferences,
+  isInQuietHours,
+  UserNotificationData,
+} from '../notification-rules';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function userData(overrides: Partial<UserNotificationData> = {}, settings: Record<string, unknown> = {}): UserNotificationData {
+  return {
+    userId: 'user-1',
+    preferences: getPreferences({ timeZone: 'Asia/Kolkata', ...settings }),
+    plannedWorkouts: [],
+    lastWorkoutDate: null,
+    muscleStatuses: [],
+    ...overrides,
+  };
+}
+
+// 02:00 UTC is 07:30 in Kolkata, so this hour covers the 8 AM digest
+const digestWindow = { start: new Date('2026-03-10T02:00:00Z'), minutes: 60 };
+
+describe('notification-rules', () => {
+  it('should read local time in the user time zone and fall back to UTC', () => {
+    expect(getLocalTime(new Date('2026-03-10T20:00:00Z'), 'Asia/Kolkata')).toEqual({ dateKey: '2026-03-11', minutes: 90 });
+    expect(getPreferences({ timeZone: 'Not/AZone' }).timeZone).toBe('UTC');
+  });
+
+  it('should handle quiet hours that span midnight and move the digest to their end', () => {
+    const preferences = getPreferences({ quietHours: { enabled: true, start: '22:00', end: '08:30' } });
+    expect(isInQuietHours(23 * 60, preferences)).toBe(true);
+    expect(isInQuietHours(8 * 60, preferences)).toBe(true);
+    expect(isInQuietHours(9 * 60, preferences)).toBe(false);
+    expect(getDigestMinutes(preferences)).toBe(8 * 60 + 30);
+    expect(getDigestMinutes(getPreferences({}))).toBe(8 * 60);
+  });
+
+  it('should send the digest only in the hour containing the user local digest time', () => {
+    const data = userData({ lastWorkoutDate: new Date(digestWindow.start.getTime() - 3 * DAY_MS) });
+    expect(buildNotifications(data, digestWindow).map(m => m.type)).toEqual(['inactivity_nudge']);
+    expect(buildNotifications(data, { start: new Date('2026-03-10T03:00:00Z'), minutes: 60 })).toEqual([]);
+    expect(buildNotifications(userData({ lastWorkoutDate: data.lastWorkoutDate }, { inactivityNudgesEnabled: false }), digestWindow)).toEqual([]);
+  });
+
+  it('should remind about timed workouts unless the reminder falls in quiet hours', () => {
+    const workout = {
+      id: 'planned-1',
+      workoutName: 'Leg Day',
+      scheduledDate: new Date('2026-03-09T18:30:00Z'),
+      scheduledTime: new Date('2026-03-10T16:50:00Z'), // 22:20 in Kolkata
+      isCompleted: false,
+    };
+    const window = { start: new Date('2026-03-10T16:00:00Z'), minutes: 60 };
+
+    expect(buildNotifications(userData({ plannedWorkouts: [workout] }), window)).toEqual([
+      expect.objectContaining({ type: 'workout_reminder', body: 'Leg Day starts in 30 minutes', tag: 'workout-reminder-planned-1' }),
+    ]);
+    expect(buildNotifications(
+      userData({ plannedWorkouts: [workout] }, { quietHours: { enabled: true, start: '21:00', end: '07:00' } }),
+      window
+    )).toEqual([]);
+  });
+
+  it('should list untimed workouts planned today and muscles recovered since yesterday in the digest', () => {
+    const digestAt = new Date('2026-03-10T02:30:00Z');
+    const data = userData({
+      plannedWorkouts: [
+        { id: 'a', workoutName: 'Push', scheduledDate: new Date('2026-03-09T18:30:00Z'), isCompleted: false },
+        { id: 'b', workoutName: 'Pull', scheduledDate: new Date('2026-03-10T18:30:00Z'), isCompleted: false },
+      ],
+      lastWorkoutDate: new Date(digestAt.getTime() - 6 * DAY_MS),
+      muscleStatuses: [
+        { muscle: 'front_delts', lastWorked: new Date(digestAt.getTime() - 2 * DAY_MS - HOUR_MS), recommendedRestDays: 2 },
+        { muscle: 'chest', lastWorked: new Date(digestAt.getTime() - 2 * DAY_MS - 2 * HOUR_MS), recommendedRestDays: 2 },
+        { muscle: 'quads', lastWorked: new Date(digestAt.getTime() - 5 * DAY_MS), recommendedRestDays: 2 },
+      ],
+    });
+
+    const messages = buildNotifications(data, digestWindow);
+
+    expect(messages.map(m => m.type)).toEqual(['workout_reminder', 'recovery_ready']);
+    expect(messages[0].body).toBe('Push is planned for today');
+    expect(messages[1].body).toBe('Front delts and chest have recovered and are ready for training');
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getPreferences, PushMessage } from '../notification-rules';
+import { NotificationDataSource, runNotifications } from '../notification-runner';
+
+const window = { start: new Date('2026-03-10T08:00:00Z'), minutes: 60 };
+const logger = { info: vi.fn(), error: vi.fn() };
+
+function createSource(): NotificationDataSource & { removed: Record<string, string[]> } {
+  const removed: Record<string, string[]> = {};
+  return {
+    removed,
+    listRecipients: async () => [
+      { userId: 'active', tokens: ['good-token', 'stale-token'] },
+      { userId: 'broken', tokens: ['other-token'] },
+    ],
+    getUserData: async (userId) => {
+      if (userId === 'broken') {
+        throw new Error('Firestore unavailable');
+      }
+      return {
+        userId,
+        preferences: getPreferences({ timeZone: 'UTC' }),
+        plannedWorkouts: [],
+        lastWorkoutDate: new Date(window.start.getTime() - 3 * 24 * 60 * 60 * 1000),
+        muscleStatuses: [],
+      };
+    },
+    removeTokens: async (userId, tokens) => {
+      removed[userId] = tokens;
+    },
+  };
+}
+
+describe('runNotifications', () => {
+  it('should send due messages, prune invalid tokens and keep going after a user fails', async () => {
+    const source = createSource();
+    const sent: Array<{ tokens: string[]; message: PushMessage }> = [];
+    const sender = {
+      send: async (tokens: string[], message: PushMessage) => {
+        sent.push({ tokens, message });
+        return tokens.filter(token => token === 'stale-token');
+      },
+    };
+
+    const summary = await runNotifications(source, sender, window, logger);
+
+    expect(sent).toEqual([
+      { tokens: ['good-token', 'stale-token'], message: expect.objectContaining({ type: 'inactivity_nudge' }) },
+    ]);
+    expect(source.removed).toEqual({ active: ['stale-token'] });
+    expect(summary).toEqual({ users: 2, sent: 1, failedUsers: 1, removedTokens: 1 });
+    expect(logger.error).toHaveBeenCalledWith('Failed to send notifications for user', expect.objectContaining({ userId: 'broken' }));
+  });
+});
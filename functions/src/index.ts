@@ -2,10 +2,11 @@
  * Firebase Cloud Functions for FitTrackAI
  *
  * This module exports all Cloud Functions for the application:
- * - dailyNotifications: Scheduled function that runs daily at 9 AM IST
+ * - dailyNotifications: Scheduled hourly; sends push reminders at each user's local time
  *
  * To deploy: npm run deploy
  * To test locally: npm run serve
+ * To run unit tests: npx vitest run functions (from the repo root)
  */
 
 import * as admin from 'firebase-admin';
@@ -0,0 +1,134 @@
+import { FieldValue, Firestore } from 'firebase-admin/firestore';
+import type { Messaging } from 'firebase-admin/messaging';
+import { getPreferences, MuscleRecoverySummary, PlannedWorkoutSummary, RunWindow } from './notification-rules';
+import { NotificationDataSource, PushSender } from './notification-runner';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RECENT_WORKOUTS_TO_CHECK = 5; // Enough to skip a few soft-deleted ones
+const INVALID_TOKEN_ERRORS = new Set([
+  'messaging/registration-token-not-registered',
+  'messaging/invalid-registration-token',
+]);
+
+/**
+ * Synced records store dates as Firestore Timestamps; older ones may hold
+ * ISO strings or epoch milliseconds
+ */
+function toDate(value: unknown): Date | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value;
+  }
+  if (typeof value === 'object' && typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+/**
+ * Reads the data the app syncs to users/{uid}: the profile doc (push tokens),
+ * settings/appSettings, plannedWorkouts, workouts and muscleStatus
+ */
+export function createFirestoreDataSource(db: Firestore): NotificationDataSource {
+  return {
+    async listRecipients() {
+      const snapshot = await db.collection('users').select('fcmTokens', 'deletedAt').get();
+      return snapshot.docs
+        .filter(doc => !doc.get('deletedAt'))
+        .map(doc => ({
+          userId: doc.id,
+          tokens: ((doc.get('fcmTokens') as unknown[] | undefined) ?? []).filter((token): token is string => typeof token === 'string'),
+        }))
+        .filter(recipient => recipient.tokens.length > 0);
+    },
+
+    async getUserData(userId: string, window: RunWindow) {
+      const userRef = db.collection('users').doc(userId);
+      // Planned workouts from a day either side, so every time zone's "today" is covered
+      const from = new Date(window.start.getTime() - DAY_MS);
+      const to = new Date(window.start.getTime() + 2 * DAY_MS);
+
+      const [settingsDoc, plannedSnapshot, workoutsSnapshot, muscleSnapshot] = await Promise.all([
+        userRef.collection('settings').doc('appSettings').get(),
+        userRef.collection('plannedWorkouts').where('scheduledDate', '>=', from).where('scheduledDate', '<', to).get(),
+        userRef.collection('workouts').orderBy('date', 'desc').limit(RECENT_WORKOUTS_TO_CHECK).get(),
+        userRef.collection('muscleStatus').get(),
+      ]);
+
+      const settings = settingsDoc.get('value') as Record<string, unknown> | undefined;
+
+      const plannedWorkouts = plannedSnapshot.docs
+        .filter(doc => !doc.get('deletedAt'))
+        .reduce<PlannedWorkoutSummary[]>((workouts, doc) => {
+          const scheduledDate = toDate(doc.get('scheduledDate'));
+          if (scheduledDate) {
+            workouts.push({
+              id: doc.id,
+              workoutName: String(doc.get('workoutName') ?? 'Workout'),
+              scheduledDate,
+              scheduledTime: toDate(doc.get('scheduledTime')) ?? undefined,
+              isCompleted: doc.get('isCompleted') === true,
+            });
+          }
+          return workouts;
+        }, []);
+
+      const lastWorkout = workoutsSnapshot.docs.find(doc => !doc.get('deletedAt'));
+
+      const muscleStatuses = muscleSnapshot.docs
+        .filter(doc => !doc.get('deletedAt') && doc.get('muscle'))
+        .map<MuscleRecoverySummary>(doc => ({
+          muscle: String(doc.get('muscle')),
+          lastWorked: toDate(doc.get('lastWorked')),
+          recommendedRestDays: Number(doc.get('recommendedRestDays')) || 0,
+        }));
+
+      return {
+        userId,
+        preferences: getPreferences(settings),
+        plannedWorkouts,
+        lastWorkoutDate: lastWorkout ? toDate(lastWorkout.get('date')) : null,
+        muscleStatuses,
+      };
+    },
+
+    async removeTokens(userId: string, tokens: string[]) {
+      await db.collection('users').doc(userId).update({ fcmTokens: FieldValue.arrayRemove(...tokens) });
+    },
+  };
+}
+
+/**
+ * Sends data-only web push messages; the app's service worker shows them
+ */
+export function createFcmSender(messaging: Messaging): PushSender {
+  return {
+    async send(tokens, message) {
+      const response = await messaging.sendEachForMulticast({
+        tokens,
+        data: {
+          type: message.type,
+          title: message.title,
+          body: message.body,
+          url: message.url,
+          tag: message.tag,
+        },
+        webpush: {
+          headers: { Urgency: 'normal' },
+        },
+      });
+      return response.responses.reduce<string[]>((invalid, result, index) => {
+        if (!result.success && result.error && INVALID_TOKEN_ERRORS.has(result.error.code)) {
+          invalid.push(tokens[index]);
+        }
+        return invalid;
+      }, []);
+    },
+  };
+}
@@ -0,0 +1,278 @@
+/**
+ * Rules for which push notifications a user gets in a run of the notification
+ * function. Pure functions over plain data so they can be unit tested without
+ * Firebase.
+ */
+
+export const DIGEST_HOUR = 8; // Local hour the daily digest goes out, unless it falls in quiet hours
+export const INACTIVITY_DAYS = 3; // Nudge after this many days without a workout, then every this many days
+export const MAX_INACTIVITY_NUDGE_DAYS = 30; // Stop nudging after this long
+const MINUTES_PER_DAY = 24 * 60;
+const DAY_MS = MINUTES_PER_DAY * 60 * 1000;
+
+export type PushMessageType = 'workout_reminder' | 'inactivity_nudge' | 'recovery_ready';
+
+export interface PushMessage {
+  type: PushMessageType;
+  title: string;
+  body: string;
+  url: string;
+  tag: string;
+}
+
+export interface NotificationPreferences {
+  notificationsEnabled: boolean;
+  workoutReminderEnabled: boolean;
+  workoutReminderMinutes: number;
+  muscleRecoveryAlertsEnabled: boolean;
+  inactivityNudgesEnabled: boolean;
+  quietHours: {
+    enabled: boolean;
+    start: string; // 'HH:mm'
+    end: string; // 'HH:mm'
+  };
+  timeZone: string;
+}
+
+export interface PlannedWorkoutSummary {
+  id: string;
+  workoutName: string;
+  scheduledDate: Date;
+  scheduledTime?: Date;
+  isCompleted: boolean;
+}
+
+export interface MuscleRecoverySummary {
+  muscle: string;
+  lastWorked: Date | null;
+  recommendedRestDays: number;
+}
+
+export interface UserNotificationData {
+  userId: string;
+  preferences: NotificationPreferences;
+  plannedWorkouts: PlannedWorkoutSummary[];
+  lastWorkoutDate: Date | null;
+  muscleStatuses: MuscleRecoverySummary[];
+}
+
+/**
+ * The run covers reminders due in [start, start + minutes)
+ */
+export interface RunWindow {
+  start: Date;
+  minutes: number;
+}
+
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  notificationsEnabled: true,
+  workoutReminderEnabled: true,
+  workoutReminderMinutes: 30,
+  muscleRecoveryAlertsEnabled: true,
+  inactivityNudgesEnabled: true,
+  quietHours: { enabled: false, start: '22:00', end: '07:00' },
+  timeZone: 'UTC',
+};
+
+/**
+ * Notification preferences from the synced app settings, with the app's defaults
+ * for anything missing
+ */
+export function getPreferences(settings: Record<string, unknown> | undefined): NotificationPreferences {
+  const merged = { ...DEFAULT_PREFERENCES, ...(settings ?? {}) } as NotificationPreferences;
+  return {
+    notificationsEnabled: merged.notificationsEnabled !== false,
+    workoutReminderEnabled: merged.workoutReminderEnabled !== false,
+    workoutReminderMinutes: Number(merged.workoutReminderMinutes) || DEFAULT_PREFERENCES.workoutReminderMinutes,
+    muscleRecoveryAlertsEnabled: merged.muscleRecoveryAlertsEnabled !== false,
+    inactivityNudgesEnabled: merged.inactivityNudgesEnabled !== false,
+    quietHours: { ...DEFAULT_PREFERENCES.quietHours, ...(merged.quietHours ?? {}) },
+    timeZone: isValidTimeZone(merged.timeZone) ? merged.timeZone : DEFAULT_PREFERENCES.timeZone,
+  };
+}
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || timeZone.length === 0) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar date ('YYYY-MM-DD') and minutes since midnight of an instant in a time zone
+ */
+export function getLocalTime(date: Date, timeZone: string): { dateKey: string; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '00';
+  return {
+    dateKey: `${part('year')}-${part('month')}-${part('day')}`,
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+/**
+ * Whether a local time of day falls in the user's quiet hours. Quiet hours
+ * whose end is earlier than their start span midnight.
+ */
+export function isInQuietHours(localMinutes: number, preferences: NotificationPreferences): boolean {
+  const { enabled, start, end } = preferences.quietHours;
+  const startMinutes = parseTimeOfDay(start);
+  const endMinutes = parseTimeOfDay(end);
+  if (!enabled || startMinutes === null || endMinutes === null || startMinutes === endMinutes) {
+    return false;
+  }
+  return startMinutes < endMinutes
+    ? localMinutes >= startMinutes && localMinutes < endMinutes
+    : localMinutes >= startMinutes || localMinutes < endMinutes;
+}
+
+/**
+ * Local time of day for the daily digest: DIGEST_HOUR, or the end of quiet
+ * hours when those cover it
+ */
+export function getDigestMinutes(preferences: NotificationPreferences): number {
+  const digest = DIGEST_HOUR * 60;
+  if (isInQuietHours(digest, preferences)) {
+    return parseTimeOfDay(preferences.quietHours.end) ?? digest;
+  }
+  return digest;
+}
+
+function isInWindow(date: Date, window: RunWindow): boolean {
+  const offset = date.getTime() - window.start.getTime();
+  return offset >= 0 && offset < window.minutes * 60 * 1000;
+}
+
+function formatMuscle(muscle: string): string {
+  return muscle.replace(/_/g, ' ');
+}
+
+function formatList(items: string[]): string {
+  if (items.length <= 1) {
+    return items.join('');
+  }
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+function buildWorkoutReminders(data: UserNotificationData, window: RunWindow): PushMessage[] {
+  const { preferences } = data;
+  return data.plannedWorkouts
+    .filter(workout => !workout.isCompleted && workout.scheduledTime)
+    .filter((workout) => {
+      const reminderAt = new Date((workout.scheduledTime as Date).getTime() - preferences.workoutReminderMinutes * 60 * 1000);
+      return isInWindow(reminderAt, window) &&
+        !isInQuietHours(getLocalTime(reminderAt, preferences.timeZone).minutes, preferences);
+    })
+    .map(workout => ({
+      type: 'workout_reminder',
+      title: 'Workout Reminder',
+      body: `${workout.workoutName} starts in ${preferences.workoutReminderMinutes} minutes`,
+      url: '/planner',
+      tag: `workout-reminder-${workout.id}`,
+    }));
+}
+
+function buildDigest(data: UserNotificationData, window: RunWindow): PushMessage[] {
+  const { preferences } = data;
+  const local = getLocalTime(window.start, preferences.timeZone);
+  const digestOffset = (getDigestMinutes(preferences) - local.minutes + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  if (digestOffset >= window.minutes) {
+    return [];
+  }
+  const digestAt = new Date(window.start.getTime() + digestOffset * 60 * 1000);
+  const today = getLocalTime(digestAt, preferences.timeZone).dateKey;
+  const messages: PushMessage[] = [];
+
+  // Workouts planned for today without a time get a morning reminder instead of a timed one
+  const plannedToday = data.plannedWorkouts.filter(workout =>
+    !workout.isCompleted && getLocalTime(workout.scheduledDate, preferences.timeZone).dateKey === today
+  );
+  const untimed = plannedToday.filter(workout => !workout.scheduledTime);
+  if (preferences.workoutReminderEnabled && untimed.length > 0) {
+    messages.push({
+      type: 'workout_reminder',
+      title: 'Workout Reminder',
+      body: untimed.length === 1
+        ? `${untimed[0].workoutName} is planned for today`
+        : `You have ${untimed.length} workouts planned for today`,
+      url: '/planner',
+      tag: `workout-reminder-${today}`,
+    });
+  }
+
+  if (preferences.inactivityNudgesEnabled && data.lastWorkoutDate && plannedToday.length === 0) {
+    const daysInactive = Math.floor((digestAt.getTime() - data.lastWorkoutDate.getTime()) / DAY_MS);
+    if (daysInactive >= INACTIVITY_DAYS && daysInactive <= MAX_INACTIVITY_NUDGE_DAYS && daysInactive % INACTIVITY_DAYS === 0) {
+      messages.push({
+        type: 'inactivity_nudge',
+        title: 'Time to Get Moving',
+        body: `You haven't logged a workout in ${daysInactive} days. Let's stay consistent!`,
+        url: '/log-workout',
+        tag: 'inactivity-nudge',
+      });
+    }
+  }
+
+  if (preferences.muscleRecoveryAlertsEnabled) {
+    // Muscles that became ready since the previous digest
+    const recovered = data.muscleStatuses
+      .filter((status) => {
+        if (!status.lastWorked) {
+          return false;
+        }
+        const readyAt = status.lastWorked.getTime() + status.recommendedRestDays * DAY_MS;
+        return readyAt <= digestAt.getTime() && readyAt > digestAt.getTime() - DAY_MS;
+      })
+      .map(status => formatMuscle(status.muscle));
+    if (recovered.length > 0) {
+      const list = formatList(recovered);
+      messages.push({
+        type: 'recovery_ready',
+        title: 'Ready to Train',
+        body: `${list.charAt(0).toUpperCase()}${list.slice(1)} ${recovered.length === 1 ? 'has' : 'have'} recovered and ${recovered.length === 1 ? 'is' : 'are'} ready for training`,
+        url: '/',
+        tag: `recovery-ready-${today}`,
+      });
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * Notifications due for a user in this run: timed reminders for planned
+ * workouts, plus the daily digest (untimed workouts planned today, inactivity
+ * nudge, recovered muscles) when the user's digest time falls in the window
+ */
+export function buildNotifications(data: UserNotificationData, window: RunWindow): PushMessage[] {
+  if (!data.preferences.notificationsEnabled) {
+    return [];
+  }
+  return [
+    ...(data.preferences.workoutReminderEnabled ? buildWorkoutReminders(data, window) : []),
+    ...buildDigest(data, window),
+  ];
+}
@@ -0,0 +1,83 @@
+import { buildNotifications, PushMessage, RunWindow, UserNotificationData } from './notification-rules';
+
+export interface NotificationRecipient {
+  userId: string;
+  tokens: string[];
+}
+
+/**
+ * Where a run reads user data from. The Firestore implementation lives in
+ * notification-data.ts; tests pass an in-memory one.
+ */
+export interface NotificationDataSource {
+  listRecipients(): Promise<NotificationRecipient[]>;
+  getUserData(userId: string, window: RunWindow): Promise<UserNotificationData>;
+  removeTokens(userId: string, tokens: string[]): Promise<void>;
+}
+
+export interface PushSender {
+  /**
+   * Send a message to the given device tokens and return the tokens that are
+   * no longer valid
+   */
+  send(tokens: string[], message: PushMessage): Promise<string[]>;
+}
+
+export interface NotificationRunSummary {
+  users: number;
+  sent: number;
+  failedUsers: number;
+  removedTokens: number;
+}
+
+export interface NotificationRunLogger {
+  info(message: string, details?: Record<string, unknown>): void;
+  error(message: string, details?: Record<string, unknown>): void;
+}
+
+/**
+ * Send every notification due in the window to each user with a registered
+ * device. One user's failure is logged and doesn't stop the run.
+ */
+export async function runNotifications(
+  source: NotificationDataSource,
+  sender: PushSender,
+  window: RunWindow,
+  logger: NotificationRunLogger
+): Promise<NotificationRunSummary> {
+  const recipients = await source.listRecipients();
+  const summary: NotificationRunSummary = { users: recipients.length, sent: 0, failedUsers: 0, removedTokens: 0 };
+
+  for (const recipient of recipients) {
+    try {
+      const data = await source.getUserData(recipient.userId, window);
+      const messages = buildNotifications(data, window);
+      let tokens = recipient.tokens;
+      const invalidTokens = new Set<string>();
+
+      for (const message of messages) {
+        if (tokens.length === 0) {
+          break;
+        }
+        const invalid = await sender.send(tokens, message);
+        invalid.forEach(token => invalidTokens.add(token));
+        tokens = tokens.filter(token => !invalidTokens.has(token));
+        summary.sent += 1;
+      }
+
+      if (invalidTokens.size > 0) {
+        await source.removeTokens(recipient.userId, [...invalidTokens]);
+        summary.removedTokens += invalidTokens.size;
+      }
+    } catch (error) {
+      summary.failedUsers += 1;
+      logger.error('Failed to send notifications for user', {
+        userId: recipient.userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  logger.info('Notification run completed', { ...summary, windowStart: window.start.toISOString() });
+  return summary;
+}
@@ -14,6 +14,7 @@ import { initializeDefaultTemplates } from '@/services/templateLibrary';
 import { workoutEventTracker } from '@/services/workoutEventTracker';
 import { muscleImageCache } from '@/services/muscleImageCache';
 import { notificationService } from '@/services/notificationService';
+import { pushNotificationService } from '@/services/pushNotificationService';
 import { dataService } from '@/services/dataService';
 import { getFirestoreDiagnostics, forceFirestoreOnline } from '@/services/firebaseConfig';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
@@ -42,6 +43,11 @@ const Profile = lazy(() => import('@/pages/Profile').then(m => ({ default: m.Pro
 const Trash = lazy(() => import('@/pages/Trash').then(m => ({ default: m.Trash })));
 const Planner = lazy(() => import('@/pages/Planner').then(m => ({ default: m.Planner })));
 const SleepRecovery = lazy(() => import('@/pages/SleepRecovery').then(m => ({ default: m.SleepRecovery })));
+const ProgressPhotos = lazy(() => import('@/pages/ProgressPhotos').then(m => ({ default: m.ProgressPhotos })));
+const SyncConflicts = lazy(() => import('@/pages/SyncConflicts').then(m => ({ default: m.SyncConflicts })));
+const Reports = lazy(() => import('@/pages/Reports').then(m => ({ default: m.Reports })));
+const Nutrition = lazy(() => import('@/pages/Nutrition').then(m => ({ default: m.Nutrition })));
+const AICoach = lazy(() => import('@/pages/AICoach').then(m => ({ default: m.AICoach })));
 const WorkoutSummary = lazy(() => import('@/pages/WorkoutSummary'));
 const WorkoutHistory = lazy(() => import('@/pages/WorkoutHistory'));
 const EditWorkout = lazy(() => import('@/pages/EditWorkout'));
@@ -468,6 +474,12 @@ function AppRoutes() {
           logger.error('Failed to initialize templates', error);
         }
 
+        // Close out programs whose last session has passed
+        const { trainingProgramService } = await import('@/services/trainingProgramService');
+        await trainingProgramService.completeFinishedPrograms(userId).catch((error) => {
+          logger.warn('Failed to complete finished programs:', error);
+        });
+
         // Wait for Firestore to be ready before attempting sync
         const firestoreReady = await waitForFirestoreReady(5000);
         if (!firestoreReady) {
@@ -506,6 +518,9 @@ function AppRoutes() {
                   'sleep_logs',
                   'recovery_logs',
                   'error_logs',
+                  'training_programs',
+                  'body_measurements',
+                  'nutrition_logs',
                 ],
               });
               logger.info('[App] Bootstrap sync completed successfully');
@@ -526,6 +541,15 @@ function AppRoutes() {
           .catch((error) => {
             logger.warn('Failed to pull notifications:', error);
           });
+
+        // Let the user know when last week's or month's report is ready
+        const { reportService } = await import('@/services/reportService');
+        await reportService.notifyCompletedReports(userId, useUserStore.getState().profile?.preferredUnit || 'kg');
+
+        // Register this device for reminders sent by the notification Cloud Function
+        await pushNotificationService.registerDevice().catch((error) => {
+          logger.warn('Failed to register for push notifications:', error);
+        });
       }).catch((err) => {
         logger.error('Failed to initialize user', err);
       });
@@ -757,6 +781,76 @@ function AppRoutes() {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/progress-photos"
+              element={
+                <ProtectedRoute>
+                  <AnimatedPage>
+                    <ErrorBoundary>
+                      <Suspense fallback={<RouteLoader />}>
+                        <ProgressPhotos />
+                      </Suspense>
+                    </ErrorBoundary>
+                  </AnimatedPage>
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/sync-conflicts"
+              element={
+                <ProtectedRoute>
+                  <AnimatedPage>
+                    <ErrorBoundary>
+                      <Suspense fallback={<RouteLoader />}>
+                        <SyncConflicts />
+                      </Suspense>
+                    </ErrorBoundary>
+                  </AnimatedPage>
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/reports"
+              element={
+                <ProtectedRoute>
+                  <AnimatedPage>
+                    <ErrorBoundary>
+                      <Suspense fallback={<RouteLoader />}>
+                        <Reports />
+                      </Suspense>
+                    </ErrorBoundary>
+                  </AnimatedPage>
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/nutrition"
+              element={
+                <ProtectedRoute>
+                  <AnimatedPage>
+                    <ErrorBoundary>
+                      <Suspense fallback={<RouteLoader />}>
+                        <Nutrition />
+                      </Suspense>
+                    </ErrorBoundary>
+                  </AnimatedPage>
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/coach"
+              element={
+                <ProtectedRoute>
+                  <AnimatedPage>
+                    <ErrorBoundary>
+                      <Suspense fallback={<RouteLoader />}>
+                        <AICoach />
+                      </Suspense>
+                    </ErrorBoundary>
+                  </AnimatedPage>
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/workout-summary/:workoutId"
               element={
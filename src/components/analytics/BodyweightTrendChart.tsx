@@ -0,0 +1,88 @@
+import { useMemo, memo } from 'react';
+import { format } from 'date-fns';
+import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ComposedChart, Line, Scatter } from 'recharts';
+import { BodyweightTrendPoint } from '@/types/measurement';
+import { convertWeight } from '@/utils/calculations';
+
+interface BodyweightTrendChartProps {
+  data: BodyweightTrendPoint[];
+  unit: 'kg' | 'lbs';
+}
+
+function BodyweightTrendChartComponent({ data, unit }: BodyweightTrendChartProps) {
+  const chartData = useMemo(
+    () =>
+      data.map((point) => ({
+        date: format(point.date, 'MMM d'),
+        weight: Math.round(convertWeight(point.weight, 'kg', unit) * 10) / 10,
+        trend: Math.round(convertWeight(point.trend, 'kg', unit) * 10) / 10,
+      })),
+    [data, unit]
+  );
+
+  const trendChange = chartData.length > 1
+    ? chartData[chartData.length - 1].trend - chartData[0].trend
+    : 0;
+
+  if (data.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-surface-light dark:bg-surface-dark rounded-xl p-5 border border-gray-100 dark:border-border-dark/50 shadow-sm">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h3 className="font-bold text-lg text-slate-900 dark:text-white">Bodyweight</h3>
+          <p className="text-xs text-slate-500 dark:text-gray-400 mt-0.5">
+            Daily weigh-ins and smoothed trend ({unit})
+          </p>
+        </div>
+        {chartData.length > 1 && (
+          <span className="text-sm font-semibold text-slate-700 dark:text-gray-300">
+            {trendChange > 0 ? '+' : ''}{trendChange.toFixed(1)} {unit}
+          </span>
+        )}
+      </div>
+      <div className="w-full aspect-[16/9] min-h-[200px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData}>
+            <CartesianGrid strokeDasharray="4 4" stroke="#333" opacity={0.3} />
+            <XAxis
+              dataKey="date"
+              stroke="#6b7280"
+              style={{ fontSize: '12px' }}
+              tick={{ fill: '#9ca3af' }}
+              interval="preserveStartEnd"
+            />
+            <YAxis
+              stroke="#6b7280"
+              style={{ fontSize: '12px' }}
+              tick={{ fill: '#9ca3af' }}
+              domain={['dataMin - 1', 'dataMax + 1']}
+              allowDecimals={false}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: '#1f2937',
+                border: '1px solid #374151',
+                borderRadius: '8px',
+                color: '#fff',
+              }}
+            />
+            <Scatter dataKey="weight" fill="#9ca3af" name={`Weigh-in (${unit})`} />
+            <Line
+              type="monotone"
+              dataKey="trend"
+              stroke="#FF9933"
+              strokeWidth={2}
+              dot={false}
+              name={`Trend (${unit})`}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+export const BodyweightTrendChart = memo(BodyweightTrendChartComponent);
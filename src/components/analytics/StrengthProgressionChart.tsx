@@ -2,9 +2,22 @@ import { useMemo, useState, useCallback, memo } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Brush, ReferenceLine, Dot } from 'recharts';
 import { StrengthProgression } from '@/types/analytics';
 import { format } from 'date-fns';
+import { OneRepMaxFormula } from '@/utils/calculations';
+import { cn } from '@/utils/cn';
+
+type ChartMode = 'e1rm' | 'weight';
+
+const FORMULA_OPTIONS: Array<{ value: OneRepMaxFormula; label: string }> = [
+  { value: 'brzycki', label: 'Brzycki' },
+  { value: 'epley', label: 'Epley' },
+  { value: 'lombardi', label: 'Lombardi' },
+  { value: 'rpe', label: 'RPE' },
+];
 
 interface StrengthProgressionChartProps {
   progressions: StrengthProgression[];
+  formula?: OneRepMaxFormula;
+  onFormulaChange?: (formula: OneRepMaxFormula) => void;
 }
 
 interface ChartDataPoint {
@@ -33,7 +46,8 @@ interface DotProps {
   [key: string]: unknown;
 }
 
-function StrengthProgressionChartComponent({ progressions }: StrengthProgressionChartProps) {
+function StrengthProgressionChartComponent({ progressions, formula, onFormulaChange }: StrengthProgressionChartProps) {
+  const [mode, setMode] = useState<ChartMode>('e1rm');
   const [hiddenSeries, setHiddenSeries] = useState<Set<string>>(new Set());
   const [selectedPoint, setSelectedPoint] = useState<{ date: string; exercise: string; value: number } | null>(null);
 
@@ -52,15 +66,16 @@ function StrengthProgressionChartComponent({ progressions }: StrengthProgression
       progressions.forEach((prog) => {
         const dp = prog.dataPoints.find((p) => p.date === date);
         if (dp) {
-          const estimated1RM = dp.maxWeight * (1 + dp.maxReps / 30);
-          point[prog.exerciseName] = Math.round(estimated1RM);
+          point[prog.exerciseName] = mode === 'e1rm' ? Math.round(dp.estimatedOneRepMax) : dp.maxWeight;
           // Store original data for tooltip
           point[`${prog.exerciseName}_data`] = dp;
         }
       });
       return point;
     });
-  }, [progressions]);
+  }, [progressions, mode]);
+
+  const valueLabel = mode === 'e1rm' ? 'e1RM' : 'Max Weight';
 
   const colors = {
     'Barbell Squat': '#0df269',
@@ -101,7 +116,7 @@ function StrengthProgressionChartComponent({ progressions }: StrengthProgression
                   <span className="text-white font-medium text-sm">{entry.dataKey.replace('Barbell ', '')}</span>
                 </div>
                 <div className="text-gray-300 text-xs ml-5">
-                  <div>1RM: {entry.value} lbs</div>
+                  <div>{valueLabel}: {entry.value} lbs</div>
                   {dataPoint && (
                     <>
                       <div>Weight: {dataPoint.maxWeight} lbs</div>
@@ -144,7 +159,7 @@ function StrengthProgressionChartComponent({ progressions }: StrengthProgression
     return (
       <div className="bg-surface-light dark:bg-surface-dark rounded-xl p-5 border border-gray-100 dark:border-border-dark/50 shadow-sm">
         <h3 className="font-bold text-lg mb-1 text-slate-900 dark:text-white">
-          Strength Progression (1RM)
+          Strength Progression
         </h3>
         <p className="text-xs text-slate-500 mb-4">Estimated One Rep Max over time</p>
         <p className="text-slate-500 dark:text-gray-400 text-center py-8">
@@ -156,10 +171,48 @@ function StrengthProgressionChartComponent({ progressions }: StrengthProgression
 
   return (
     <div className="bg-surface-light dark:bg-surface-dark rounded-xl p-5 border border-gray-100 dark:border-border-dark/50 shadow-sm">
-      <h3 className="font-bold text-lg mb-1 text-slate-900 dark:text-white">
-        Strength Progression (1RM)
-      </h3>
-      <p className="text-xs text-slate-500 mb-4">Estimated One Rep Max over time</p>
+      <div className="flex items-start justify-between gap-3 mb-4">
+        <div>
+          <h3 className="font-bold text-lg mb-1 text-slate-900 dark:text-white">
+            Strength Progression ({valueLabel})
+          </h3>
+          <p className="text-xs text-slate-500">
+            {mode === 'e1rm' ? 'Estimated One Rep Max over time' : 'Heaviest weight lifted per session'}
+          </p>
+        </div>
+        <div className="flex rounded-lg bg-white/5 dark:bg-surface-dark/50 p-1 shrink-0">
+          {(['e1rm', 'weight'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={cn(
+                'px-2 py-1 rounded text-xs font-bold transition-all',
+                mode === option ? 'bg-primary text-black' : 'text-slate-500 dark:text-slate-400'
+              )}
+            >
+              {option === 'e1rm' ? 'e1RM' : 'Weight'}
+            </button>
+          ))}
+        </div>
+      </div>
+      {mode === 'e1rm' && formula && onFormulaChange && (
+        <div className="flex gap-2 mb-4 flex-wrap">
+          {FORMULA_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => onFormulaChange(option.value)}
+              className={cn(
+                'px-2 py-0.5 rounded-full text-[11px] font-semibold border transition-colors',
+                formula === option.value
+                  ? 'border-primary text-primary'
+                  : 'border-gray-200 dark:border-border-dark text-slate-500'
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
       <div className="flex gap-4 mb-4 flex-wrap">
         {progressions.map((prog) => {
           const isHidden = hiddenSeries.has(prog.exerciseName);
@@ -207,7 +260,7 @@ function StrengthProgressionChartComponent({ progressions }: StrengthProgression
               stroke="#6b7280"
               style={{ fontSize: '12px' }}
               tick={{ fill: '#9ca3af' }}
-              label={{ value: '1RM (lbs)', angle: -90, position: 'insideLeft', style: { textAnchor: 'middle', fill: '#9ca3af' } }}
+              label={{ value: `${valueLabel} (lbs)`, angle: -90, position: 'insideLeft', style: { textAnchor: 'middle', fill: '#9ca3af' } }}
             />
             <Tooltip content={<CustomTooltip />} />
             <ReferenceLine y={0} stroke="#666" strokeDasharray="2 2" opacity={0.5} />
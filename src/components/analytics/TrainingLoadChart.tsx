@@ -0,0 +1,135 @@
+import { useMemo, memo } from 'react';
+import { format } from 'date-fns';
+import {
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ComposedChart,
+  Bar,
+  Line,
+  ReferenceArea,
+} from 'recharts';
+import { TrainingLoadPoint } from '@/types/cardio';
+import { ACWR_HIGH_RISK, ACWR_SWEET_SPOT } from '@/utils/trainingLoad';
+
+interface TrainingLoadChartProps {
+  data: TrainingLoadPoint[];
+}
+
+function getRatioLabel(ratio: number | null): { text: string; className: string } {
+  if (ratio === null) {
+    return { text: 'Building baseline', className: 'text-slate-500 dark:text-gray-400' };
+  }
+  if (ratio > ACWR_HIGH_RISK) {
+    return { text: 'Load spike', className: 'text-red-500' };
+  }
+  if (ratio > ACWR_SWEET_SPOT.max) {
+    return { text: 'Ramping up', className: 'text-yellow-600 dark:text-yellow-400' };
+  }
+  if (ratio < ACWR_SWEET_SPOT.min) {
+    return { text: 'Detraining', className: 'text-sky-500' };
+  }
+  return { text: 'Sweet spot', className: 'text-green-500' };
+}
+
+function TrainingLoadChartComponent({ data }: TrainingLoadChartProps) {
+  const chartData = useMemo(
+    () =>
+      data.map((point) => ({
+        date: format(point.date, 'MMM d'),
+        load: point.load,
+        acute: point.acute,
+        chronic: point.chronic,
+        ratio: point.ratio,
+      })),
+    [data]
+  );
+
+  const latestRatio = data.length > 0 ? data[data.length - 1].ratio : null;
+  const status = getRatioLabel(latestRatio);
+
+  if (!data.some((point) => point.load > 0)) {
+    return null;
+  }
+
+  return (
+    <div className="bg-surface-light dark:bg-surface-dark rounded-xl p-5 border border-gray-100 dark:border-border-dark/50 shadow-sm">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h3 className="font-bold text-lg text-slate-900 dark:text-white">Cardio Training Load</h3>
+          <p className="text-xs text-slate-500 dark:text-gray-400 mt-0.5">
+            Daily TRIMP with 7-day acute vs 28-day chronic load
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="text-sm font-semibold text-slate-700 dark:text-gray-300">
+            ACWR {latestRatio !== null ? latestRatio.toFixed(2) : '-'}
+          </p>
+          <p className={`text-xs font-medium ${status.className}`}>{status.text}</p>
+        </div>
+      </div>
+      <div className="w-full aspect-[16/9] min-h-[200px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData}>
+            <CartesianGrid strokeDasharray="4 4" stroke="#333" opacity={0.3} />
+            <XAxis
+              dataKey="date"
+              stroke="#6b7280"
+              style={{ fontSize: '12px' }}
+              tick={{ fill: '#9ca3af' }}
+              interval="preserveStartEnd"
+            />
+            <YAxis
+              yAxisId="load"
+              stroke="#6b7280"
+              style={{ fontSize: '12px' }}
+              tick={{ fill: '#9ca3af' }}
+              allowDecimals={false}
+            />
+            <YAxis
+              yAxisId="ratio"
+              orientation="right"
+              stroke="#6b7280"
+              style={{ fontSize: '12px' }}
+              tick={{ fill: '#9ca3af' }}
+              domain={[0, 2]}
+            />
+            <ReferenceArea
+              yAxisId="ratio"
+              y1={ACWR_SWEET_SPOT.min}
+              y2={ACWR_SWEET_SPOT.max}
+              fill="#22c55e"
+              fillOpacity={0.08}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: '#1f2937',
+                border: '1px solid #374151',
+                borderRadius: '8px',
+                color: '#fff',
+              }}
+            />
+            <Bar yAxisId="load" dataKey="load" fill="#4b5563" name="Daily TRIMP" radius={[2, 2, 0, 0]} />
+            <Line yAxisId="load" type="monotone" dataKey="acute" stroke="#FF9933" strokeWidth={2} dot={false} name="Acute (7d)" />
+            <Line yAxisId="load" type="monotone" dataKey="chronic" stroke="#9ca3af" strokeWidth={2} dot={false} name="Chronic (28d)" />
+            <Line
+              yAxisId="ratio"
+              type="monotone"
+              dataKey="ratio"
+              stroke="#22c55e"
+              strokeDasharray="4 2"
+              strokeWidth={2}
+              dot={false}
+              connectNulls
+              name="ACWR"
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+export const TrainingLoadChart = memo(TrainingLoadChartComponent);
@@ -0,0 +1,76 @@
+import { format } from 'date-fns';
+import { CalendarCheck } from 'lucide-react';
+import { PlannedWorkoutEditProposal } from '@/types/ai';
+import { cn } from '@/utils/cn';
+
+interface CoachProposalCardProps {
+  proposal: PlannedWorkoutEditProposal;
+  isBusy: boolean;
+  onApply: () => void;
+  onDismiss: () => void;
+}
+
+const STATUS_LABELS: Record<Exclude<PlannedWorkoutEditProposal['status'], 'pending'>, string> = {
+  applied: 'Applied to your plan',
+  dismissed: 'Dismissed',
+};
+
+/**
+ * Planned workout change suggested by the coach, saved only when applied
+ */
+export function CoachProposalCard({ proposal, isBusy, onApply, onDismiss }: CoachProposalCardProps) {
+  const { changes } = proposal;
+
+  return (
+    <div className="mt-2 rounded-xl border border-primary/30 bg-primary/5 p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <CalendarCheck className="w-4 h-4 text-primary shrink-0" />
+        <p className="text-xs font-bold uppercase tracking-wide text-primary">
+          {proposal.workoutName} · {format(new Date(proposal.scheduledDate), 'EEE, MMM d')}
+        </p>
+      </div>
+      <p className="text-sm text-slate-900 dark:text-white">{proposal.summary}</p>
+
+      {changes.workoutName && (
+        <p className="text-xs text-slate-600 dark:text-slate-300">Rename to <span className="font-semibold">{changes.workoutName}</span></p>
+      )}
+      {changes.exercises && (
+        <ul className="text-xs text-slate-600 dark:text-slate-300 space-y-0.5">
+          {changes.exercises.map((exercise, index) => (
+            <li key={`${exercise.exerciseId}-${index}`}>
+              {exercise.exerciseName} · {exercise.sets}×{exercise.reps}{exercise.weight ? ` @ ${exercise.weight}` : ''}
+            </li>
+          ))}
+        </ul>
+      )}
+      {changes.notes && (
+        <p className="text-xs text-slate-600 dark:text-slate-300 italic">{changes.notes}</p>
+      )}
+
+      {proposal.status === 'pending' ? (
+        <div className="grid grid-cols-2 gap-2 pt-1">
+          <button
+            type="button"
+            disabled={isBusy}
+            onClick={onDismiss}
+            className="rounded-xl py-2 text-sm font-semibold min-h-[44px] bg-gray-100 dark:bg-surface-dark-light text-slate-700 dark:text-slate-200 hover:bg-gray-200 dark:hover:bg-surface-border transition-colors disabled:opacity-60"
+          >
+            Dismiss
+          </button>
+          <button
+            type="button"
+            disabled={isBusy}
+            onClick={onApply}
+            className="rounded-xl py-2 text-sm font-semibold min-h-[44px] bg-primary hover:bg-[#E67E22] text-black transition-colors disabled:opacity-60"
+          >
+            Apply to plan
+          </button>
+        </div>
+      ) : (
+        <p className={cn('text-xs font-semibold', proposal.status === 'applied' ? 'text-primary' : 'text-slate-500 dark:text-slate-400')}>
+          {STATUS_LABELS[proposal.status]}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
     Bell,
@@ -107,6 +108,7 @@ function groupNotificationsByDate(notifications: Notification[]): {
 }
 
 export function NotificationPanel({ isOpen, onClose, userId }: NotificationPanelProps) {
+    const navigate = useNavigate();
     const [notifications, setNotifications] = useState<Notification[]>([]);
     const [unreadCount, setUnreadCount] = useState(0);
     const [isLoading, setIsLoading] = useState(true);
@@ -186,6 +188,10 @@ export function NotificationPanel({ isOpen, onClose, userId }: NotificationPanel
         if (!notification.isRead) {
             await handleMarkAsRead(notification.id);
         }
+        if (notification.data?.actionUrl) {
+            onClose();
+            navigate(notification.data.actionUrl);
+        }
     };
 
     const groupedNotifications = groupNotificationsByDate(notifications);
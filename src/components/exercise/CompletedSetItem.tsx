@@ -5,6 +5,8 @@ import { formatPace, calculatePace } from '@/utils/calculations';
 import { motion } from 'framer-motion';
 import { prefersReducedMotion, setCompleteCelebration } from '@/utils/animations';
 import { calculateEffectiveBodyweight } from '@/utils/bodyweightMultipliers';
+import { SET_TYPE_CONFIG, getSetType } from '@/utils/setTypes';
+import { cn } from '@/utils/cn';
 
 interface CompletedSetItemProps {
   set: WorkoutSet;
@@ -33,6 +35,7 @@ export function CompletedSetItem({
 }: CompletedSetItemProps) {
   const shouldReduceMotion = prefersReducedMotion();
   const intensityLabel = set.rpe ? getIntensityLabel(set.rpe) : null;
+  const setType = getSetType(set);
 
   // Determine display type based on set data
   // Distance-based cardio: has distance > 0 and time
@@ -60,14 +63,22 @@ export function CompletedSetItem({
 
   return (
     <motion.div 
-      className="flex items-center justify-between rounded-lg bg-slate-50 dark:bg-transparent p-3 hover:bg-slate-100 dark:hover:bg-white/5 transition-colors border border-transparent dark:border-white/5"
+      className={cn(
+        'flex items-center justify-between rounded-lg bg-slate-50 dark:bg-transparent p-3 hover:bg-slate-100 dark:hover:bg-white/5 transition-colors border border-transparent dark:border-white/5',
+        // Drop sets sit under the set they continue
+        setType === 'drop' && 'ml-6 border-l-2 border-l-primary/40',
+        setType === 'warmup' && 'opacity-70'
+      )}
       variants={shouldReduceMotion ? {} : setCompleteCelebration}
       initial="initial"
       animate={isJustCompleted ? "celebrate" : "initial"}
     >
       <div className="flex items-center gap-4">
         <motion.div 
-          className="flex size-8 items-center justify-center rounded-full bg-primary/20 text-primary font-bold text-sm"
+          className={cn(
+            'flex size-8 items-center justify-center rounded-full font-bold text-sm',
+            setType === 'warmup' ? 'bg-slate-200 dark:bg-white/10 text-slate-500' : 'bg-primary/20 text-primary'
+          )}
           animate={isJustCompleted && !shouldReduceMotion ? {
             scale: [1, 1.3, 1],
             rotate: [0, 360],
@@ -78,9 +89,15 @@ export function CompletedSetItem({
             ease: 'easeOut',
           } : {}}
         >
-          {set.setNumber}
+          {SET_TYPE_CONFIG[setType].shortLabel || set.setNumber}
         </motion.div>
         <div className="flex flex-col">
+          {setType !== 'working' && (
+            <span className="text-[10px] font-bold uppercase tracking-wide text-slate-400">
+              {SET_TYPE_CONFIG[setType].label}
+              {set.miniSetReps && set.miniSetReps.length > 1 && ` • ${set.miniSetReps.join(' + ')}`}
+            </span>
+          )}
           {/* Distance-based Cardio Display */}
           {isDistanceBasedCardio && (
             <>
@@ -1,12 +1,24 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { CheckCircle, ArrowRight, X } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { RPESlider } from './RPESlider';
 import { WeightChangeBadge } from './WeightChangeBadge';
-import { WorkoutSet } from '@/types/exercise';
+import { MiniSetRepsInput, SetTypeSelector } from './SetTypeSelector';
+import { SetType, WorkoutSet } from '@/types/exercise';
 import { cn } from '@/utils/cn';
 import { prefersReducedMotion } from '@/utils/animations';
 import { calculateWeightChangeBadge } from '@/utils/workoutHistoryHelpers';
+import { EquipmentInventory } from '@/types/equipment';
+import {
+  DEFAULT_EQUIPMENT_INVENTORY,
+  calculatePlateBreakdown,
+  formatPlateBreakdown,
+  getLoadEquipmentKind,
+} from '@/utils/plateCalculator';
+import { SET_TYPE_CONFIG, getSetType, getSetTypeUpdates } from '@/utils/setTypes';
+
+// Typical weight reductions for a drop set
+const DROP_SET_REDUCTIONS = [10, 20, 30];
 
 interface CurrentSetCardProps {
   setNumber: number;
@@ -25,6 +37,7 @@ interface CurrentSetCardProps {
   exerciseEquipment?: string[];
   validationError?: string;
   isUnilateral?: boolean;
+  equipmentInventory?: EquipmentInventory;
 }
 
 export function CurrentSetCard({
@@ -44,6 +57,7 @@ export function CurrentSetCard({
   exerciseEquipment = [],
   validationError,
   isUnilateral = false,
+  equipmentInventory,
 }: CurrentSetCardProps) {
   const [weight, setWeight] = useState(() => (set.weight !== undefined ? set.weight.toString() : ''));
   const [reps, setReps] = useState(() => (set.reps !== undefined ? set.reps.toString() : ''));
@@ -117,6 +131,15 @@ export function CurrentSetCard({
 
   const helperText = getHelperText();
 
+  // Plate-loading breakdown for barbell lifts
+  const plateBreakdown = useMemo(() => {
+    const targetWeight = weight ? parseFloat(weight) : 0;
+    if (isUnilateral || !(targetWeight > 0) || getLoadEquipmentKind(exerciseEquipment) !== 'barbell') {
+      return null;
+    }
+    return calculatePlateBreakdown(targetWeight, unit, equipmentInventory ?? DEFAULT_EQUIPMENT_INVENTORY);
+  }, [weight, unit, isUnilateral, exerciseEquipment, equipmentInventory]);
+
   // Unified handler for numeric inputs
   const handleNumericChange = (
     value: string, 
@@ -149,6 +172,29 @@ export function CurrentSetCard({
     onUpdate({ sides: mode });
   };
 
+  const setType = getSetType(set);
+  const hasMiniSets = SET_TYPE_CONFIG[setType].hasMiniSets && !isUnilateral;
+
+  const handleSetTypeChange = (type: SetType) => {
+    onUpdate(getSetTypeUpdates(set, type));
+  };
+
+  // Reps of a rest-pause, myo-rep or cluster set are the sum of its mini-sets
+  const handleMiniSetRepsChange = (miniSetReps: number[]) => {
+    const total = miniSetReps.reduce((sum, value) => sum + value, 0);
+    setReps(total > 0 ? total.toString() : '');
+    onUpdate({ miniSetReps, reps: total > 0 ? total : undefined });
+  };
+
+  const handleDropSetReduction = (percent: number) => {
+    if (!previousWeight) {
+      return;
+    }
+    const reduced = Math.round(previousWeight * (1 - percent / 100) * 2) / 2;
+    setWeight(reduced.toString());
+    onUpdate({ weight: reduced });
+  };
+
   // Validation
   const hasValidReps = isUnilateral
     ? (sideMode === 'both' ? (leftReps && parseInt(leftReps) > 0 && rightReps && parseInt(rightReps) > 0) 
@@ -251,6 +297,11 @@ export function CurrentSetCard({
         >
           SET {setNumber}
         </motion.h2>
+        {targetReps && (
+          <span className="ml-3 text-xs font-medium text-slate-500 dark:text-slate-400">
+            Target {targetReps}
+          </span>
+        )}
         
         {isUnilateral && (
           <div className="flex bg-slate-100 dark:bg-black/20 rounded-lg p-1 ml-auto mr-8">
@@ -272,6 +323,27 @@ export function CurrentSetCard({
         )}
       </div>
 
+      <SetTypeSelector value={setType} onChange={handleSetTypeChange} disabled={disabled} />
+
+      {setType === 'drop' && !isUnilateral && previousWeight !== undefined && previousWeight > 0 && (
+        <div className="flex items-center gap-2 px-4 pt-2">
+          <span className="text-[10px] font-medium uppercase tracking-wide text-slate-400">
+            From {previousWeight}{unit}
+          </span>
+          {DROP_SET_REDUCTIONS.map((percent) => (
+            <button
+              key={percent}
+              type="button"
+              onClick={() => handleDropSetReduction(percent)}
+              disabled={disabled}
+              className="px-2 py-1 rounded-md bg-slate-100 dark:bg-black/20 text-xs font-bold text-slate-600 dark:text-slate-300 hover:text-primary"
+            >
+              -{percent}%
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Inputs */}
       {isUnilateral ? (
         <div className="flex flex-col gap-1">
@@ -298,7 +370,16 @@ export function CurrentSetCard({
               onChange={(e) => handleNumericChange(e.target.value, setWeight, 'weight')}
               disabled={disabled}
             />
-            {helperText && (
+            {plateBreakdown ? (
+              <p className="text-[10px] text-slate-400 dark:text-slate-500 text-center pt-1.5 font-medium leading-tight">
+                {formatPlateBreakdown(plateBreakdown)}
+                {!plateBreakdown.exact && (
+                  <span className="block text-amber-500">
+                    Closest load: {plateBreakdown.achievedWeight}{unit}
+                  </span>
+                )}
+              </p>
+            ) : helperText && (
               <p className="text-[10px] text-slate-400 dark:text-slate-500 text-center pt-1.5 font-medium leading-tight">
                 {helperText}
               </p>
@@ -320,6 +401,7 @@ export function CurrentSetCard({
               value={reps}
               onChange={(e) => handleNumericChange(e.target.value, setReps, 'reps', true)}
               disabled={disabled}
+              readOnly={hasMiniSets}
             />
             {validationError && (
               <p className="text-xs text-error mt-1 text-center">{validationError}</p>
@@ -328,6 +410,10 @@ export function CurrentSetCard({
         </div>
       )}
 
+      {hasMiniSets && (
+        <MiniSetRepsInput value={set.miniSetReps ?? []} onChange={handleMiniSetRepsChange} disabled={disabled} />
+      )}
+
       {/* RPE Slider */}
       <div className="px-6 py-4">
         <RPESlider value={rpe} onChange={handleRpeChange} disabled={disabled} />
@@ -0,0 +1,40 @@
+import { PROGRESSION_RULES, PROGRESSION_RULE_OPTIONS, ProgressionRuleType } from '@/utils/progressionEngine';
+
+interface ProgressionRuleControlProps {
+  preference?: ProgressionRuleType; // Per-exercise override; undefined picks a rule automatically
+  autoRule: ProgressionRuleType | null; // Rule the engine picked from the last session, when known
+  onPreferenceChange: (rule: ProgressionRuleType | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Per-exercise progression rule picker for the prefilled target
+ */
+export function ProgressionRuleControl({
+  preference,
+  autoRule,
+  onPreferenceChange,
+  disabled = false,
+}: ProgressionRuleControlProps) {
+  return (
+    <div className="flex items-center gap-2 rounded-xl bg-slate-50 dark:bg-white/5 px-3 py-2">
+      <span className="material-symbols-outlined text-base text-primary">trending_up</span>
+      <label className="flex-1 min-w-0">
+        <span className="sr-only">Progression rule</span>
+        <select
+          value={preference ?? ''}
+          onChange={(e) => onPreferenceChange((e.target.value || null) as ProgressionRuleType | null)}
+          disabled={disabled}
+          className="w-full bg-transparent border-0 p-0 text-sm font-medium text-slate-700 dark:text-slate-300 focus:ring-0"
+        >
+          <option value="">
+            Progression: Auto{autoRule ? ` (${PROGRESSION_RULES[autoRule].label})` : ''}
+          </option>
+          {PROGRESSION_RULE_OPTIONS.map((option) => (
+            <option key={option} value={option}>Progression: {PROGRESSION_RULES[option].label}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
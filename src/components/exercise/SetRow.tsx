@@ -1,9 +1,10 @@
 import { useState, useEffect } from 'react';
 import { Check } from 'lucide-react';
 import { motion } from 'framer-motion';
-import { WorkoutSet, ExerciseTrackingType, DistanceUnit } from '@/types/exercise';
+import { WorkoutSet, ExerciseTrackingType, DistanceUnit, SetType } from '@/types/exercise';
 import { cn } from '@/utils/cn';
 import { checkmarkAnimation, prefersReducedMotion } from '@/utils/animations';
+import { SET_TYPES, SET_TYPE_CONFIG, getSetType, getSetTypeUpdates } from '@/utils/setTypes';
 
 interface SetRowProps {
   set: WorkoutSet;
@@ -169,6 +170,7 @@ export function SetRow({ set, onUpdate, unit, trackingType, distanceUnit = 'km',
   };
 
   const isDisabled = false; // Allow completing any set, regardless of active state
+  const setType = getSetType(set);
   const shouldReduceMotion = prefersReducedMotion();
   const [justCompleted, setJustCompleted] = useState(false);
 
@@ -220,14 +222,24 @@ export function SetRow({ set, onUpdate, unit, trackingType, distanceUnit = 'km',
       } : {}}
       transition={{ duration: 0.3 }}
     >
-      {/* Set number */}
+      {/* Set number, or the set type badge; tapping it changes the type */}
       <div
         className={cn(
-          'flex items-center justify-center font-bold',
-          isCompleted ? 'text-primary' : 'text-gray-400'
+          'relative flex items-center justify-center font-bold',
+          setType === 'warmup' ? 'text-gray-400 italic' : isCompleted ? 'text-primary' : 'text-gray-400'
         )}
       >
-        {set.setNumber}
+        {SET_TYPE_CONFIG[setType].shortLabel || set.setNumber}
+        <select
+          value={setType}
+          onChange={(e) => onUpdate(getSetTypeUpdates(set, e.target.value as SetType))}
+          className="absolute inset-0 opacity-0 cursor-pointer"
+          aria-label={`Set type for set ${set.setNumber}`}
+        >
+          {SET_TYPES.map((type) => (
+            <option key={type} value={type}>{SET_TYPE_CONFIG[type].label}</option>
+          ))}
+        </select>
       </div>
 
       {/* Conditional fields based on tracking type */}
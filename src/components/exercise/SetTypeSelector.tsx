@@ -0,0 +1,101 @@
+import { SetType } from '@/types/exercise';
+import { cn } from '@/utils/cn';
+import { SET_TYPES, SET_TYPE_CONFIG } from '@/utils/setTypes';
+
+interface SetTypeSelectorProps {
+  value: SetType;
+  onChange: (setType: SetType) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Horizontally scrolling chip row for choosing a set's type
+ */
+export function SetTypeSelector({ value, onChange, disabled = false }: SetTypeSelectorProps) {
+  return (
+    <div className="flex gap-1.5 overflow-x-auto no-scrollbar px-4 pb-1" role="radiogroup" aria-label="Set type">
+      {SET_TYPES.map((type) => (
+        <button
+          key={type}
+          type="button"
+          role="radio"
+          aria-checked={value === type}
+          title={SET_TYPE_CONFIG[type].description}
+          onClick={() => onChange(type)}
+          disabled={disabled}
+          className={cn(
+            'shrink-0 px-2.5 py-1 rounded-full text-[11px] font-bold border transition-colors',
+            value === type
+              ? 'bg-primary text-[#050505] border-primary'
+              : 'border-slate-200 dark:border-white/10 text-slate-500 dark:text-slate-400 hover:border-primary/50'
+          )}
+        >
+          {SET_TYPE_CONFIG[type].label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface MiniSetRepsInputProps {
+  value: number[];
+  onChange: (miniSetReps: number[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Reps for each mini-set of a rest-pause, myo-rep or cluster set
+ */
+export function MiniSetRepsInput({ value, onChange, disabled = false }: MiniSetRepsInputProps) {
+  const miniSets = value.length > 0 ? value : [0];
+
+  const handleChange = (index: number, input: string) => {
+    const reps = parseInt(input);
+    onChange(miniSets.map((current, i) => (i === index ? (isNaN(reps) || reps < 0 ? 0 : reps) : current)));
+  };
+
+  return (
+    <div className="px-4 py-2">
+      <span className="text-slate-500 dark:text-[#FF9933] text-xs font-medium uppercase tracking-wide">
+        Mini-sets
+      </span>
+      <div className="flex flex-wrap items-center gap-2 pt-2">
+        {miniSets.map((reps, index) => (
+          <div key={index} className="flex items-center gap-1">
+            {index > 0 && <span className="text-slate-400 text-sm">+</span>}
+            <input
+              type="number"
+              inputMode="numeric"
+              min="0"
+              value={reps || ''}
+              onChange={(e) => handleChange(index, e.target.value)}
+              disabled={disabled}
+              aria-label={`Reps for mini-set ${index + 1}`}
+              className="w-12 h-10 rounded-lg bg-slate-100 dark:bg-[#050505] border-2 border-transparent focus:border-primary text-center font-bold text-slate-900 dark:text-white focus:ring-0"
+            />
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => onChange([...miniSets, 0])}
+          disabled={disabled}
+          className="h-10 px-3 rounded-lg border border-dashed border-primary/40 text-primary text-xs font-bold"
+          aria-label="Add mini-set"
+        >
+          + Mini-set
+        </button>
+        {miniSets.length > 1 && (
+          <button
+            type="button"
+            onClick={() => onChange(miniSets.slice(0, -1))}
+            disabled={disabled}
+            className="h-10 px-2 text-slate-400 hover:text-red-500 text-xs font-bold"
+            aria-label="Remove last mini-set"
+          >
+            Remove
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
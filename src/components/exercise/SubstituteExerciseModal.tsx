@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Modal } from '@/components/common/Modal';
+import { exerciseSubstitutionService } from '@/services/exerciseSubstitutionService';
+import { Exercise, SubstitutionReason } from '@/types/exercise';
+import { cn } from '@/utils/cn';
+import { logger } from '@/utils/logger';
+import { SUBSTITUTION_REASONS, SubstituteSuggestion } from '@/utils/exerciseSubstitution';
+
+const REASONS = Object.keys(SUBSTITUTION_REASONS) as SubstitutionReason[];
+
+interface SubstituteExerciseModalProps {
+  isOpen: boolean;
+  exercise: Exercise;
+  userId: string;
+  equipment: string[];
+  excludeIds: string[]; // Exercises already in the workout
+  hasLoggedSets: boolean;
+  onClose: () => void;
+  onSwap: (substitute: Exercise, reason: SubstitutionReason) => void;
+}
+
+export function SubstituteExerciseModal({
+  isOpen,
+  exercise,
+  userId,
+  equipment,
+  excludeIds,
+  hasLoggedSets,
+  onClose,
+  onSwap,
+}: SubstituteExerciseModalProps) {
+  const [reason, setReason] = useState<SubstitutionReason>('equipment_busy');
+  const [suggestions, setSuggestions] = useState<SubstituteSuggestion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    exerciseSubstitutionService
+      .getSubstitutes(userId, exercise, { reason, equipment, excludeIds })
+      .then((results) => {
+        if (!cancelled) {
+          setSuggestions(results);
+        }
+      })
+      .catch((error) => {
+        logger.error('[SubstituteExerciseModal] Failed to load substitutes:', error);
+        if (!cancelled) {
+          setSuggestions([]);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+    // excludeIds and equipment are rebuilt on every render of the parent
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, userId, exercise.id, reason]);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Swap ${exercise.name}`} size="md">
+      <div className="space-y-4">
+        <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Why swap">
+          {REASONS.map((value) => (
+            <button
+              key={value}
+              type="button"
+              role="radio"
+              aria-checked={reason === value}
+              onClick={() => setReason(value)}
+              className={cn(
+                'flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-bold transition-colors',
+                reason === value
+                  ? 'bg-primary text-[#050505]'
+                  : 'bg-slate-100 dark:bg-white/5 text-slate-600 dark:text-slate-300'
+              )}
+            >
+              <span className="material-symbols-outlined text-sm">{SUBSTITUTION_REASONS[value].icon}</span>
+              {SUBSTITUTION_REASONS[value].label}
+            </button>
+          ))}
+        </div>
+
+        {hasLoggedSets && (
+          <p className="text-xs text-slate-500 dark:text-gray-400">
+            Sets already logged stay with {exercise.name}; the remaining sets move to the new exercise.
+          </p>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : suggestions.length === 0 ? (
+          <p className="text-sm text-center text-slate-500 dark:text-gray-400 py-8">
+            No substitutes found with your equipment
+          </p>
+        ) : (
+          <ul className="space-y-2 max-h-[50vh] overflow-y-auto">
+            {suggestions.map(({ exercise: substitute, score, reasons }) => (
+              <li key={substitute.id}>
+                <button
+                  type="button"
+                  onClick={() => onSwap(substitute, reason)}
+                  className="w-full flex items-center gap-3 p-3 rounded-xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-border-dark text-left hover:border-primary transition-colors"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="font-bold text-slate-900 dark:text-white truncate">{substitute.name}</p>
+                    <p className="text-xs text-slate-500 dark:text-gray-400 truncate">
+                      {reasons.slice(0, 2).join(' • ') || substitute.equipment.join(', ') || 'Bodyweight'}
+                    </p>
+                  </div>
+                  <span className="text-xs font-bold text-primary shrink-0">{score}%</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Modal>
+  );
+}
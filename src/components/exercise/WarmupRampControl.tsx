@@ -0,0 +1,66 @@
+import { cn } from '@/utils/cn';
+import { WARMUP_SCHEMES, WARMUP_SCHEME_OPTIONS, WarmupScheme } from '@/utils/warmupGenerator';
+
+interface WarmupRampControlProps {
+  preference?: WarmupScheme | 'off'; // Per-exercise override; undefined uses the default
+  defaultScheme: WarmupScheme | null;
+  hasPendingWarmups: boolean;
+  canGenerate: boolean; // The first working set has a weight to ramp up to
+  onPreferenceChange: (preference: WarmupScheme | 'off' | null) => void;
+  onGenerate: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Warm-up scheme picker and a button to (re)build the ramp from the first
+ * working set
+ */
+export function WarmupRampControl({
+  preference,
+  defaultScheme,
+  hasPendingWarmups,
+  canGenerate,
+  onPreferenceChange,
+  onGenerate,
+  disabled = false,
+}: WarmupRampControlProps) {
+  const scheme = preference === 'off' ? null : preference ?? defaultScheme;
+
+  return (
+    <div className="flex items-center gap-2 rounded-xl bg-slate-50 dark:bg-white/5 px-3 py-2">
+      <span className="material-symbols-outlined text-base text-primary">local_fire_department</span>
+      <label className="flex-1 min-w-0">
+        <span className="sr-only">Warm-up scheme</span>
+        <select
+          value={preference ?? ''}
+          onChange={(e) => onPreferenceChange((e.target.value || null) as WarmupScheme | 'off' | null)}
+          disabled={disabled}
+          className="w-full bg-transparent border-0 p-0 text-sm font-medium text-slate-700 dark:text-slate-300 focus:ring-0"
+        >
+          <option value="">
+            Warm-up: {defaultScheme ? WARMUP_SCHEMES[defaultScheme].label : 'None'} (default)
+          </option>
+          {WARMUP_SCHEME_OPTIONS.map((option) => (
+            <option key={option} value={option}>Warm-up: {WARMUP_SCHEMES[option].label}</option>
+          ))}
+          <option value="off">Warm-up: Off</option>
+        </select>
+      </label>
+      {scheme && (
+        <button
+          type="button"
+          onClick={onGenerate}
+          disabled={disabled || !canGenerate}
+          className={cn(
+            'shrink-0 px-3 py-1 rounded-lg text-xs font-bold transition-colors',
+            canGenerate && !disabled
+              ? 'bg-primary/10 text-primary hover:bg-primary/20'
+              : 'text-slate-400 cursor-not-allowed'
+          )}
+        >
+          {hasPendingWarmups ? 'Rebuild ramp' : 'Add warm-ups'}
+        </button>
+      )}
+    </div>
+  );
+}
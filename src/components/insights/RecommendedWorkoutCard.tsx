@@ -1,16 +1,23 @@
-import { Sparkles, Clock, Dumbbell, Play, TrendingUp, Battery, Zap } from 'lucide-react';
-import { WorkoutRecommendation } from '@/types/insights';
+import { useEffect, useState } from 'react';
+import { format, addDays } from 'date-fns';
+import { Sparkles, Clock, Dumbbell, Play, TrendingUp, Battery, Zap, BookmarkPlus, CalendarPlus } from 'lucide-react';
+import { WorkoutRecommendation, RecommendedExercise } from '@/types/insights';
 import { useNavigate } from 'react-router-dom';
 import { cleanPlainTextResponse } from '@/utils/aiResponseCleaner';
 import { useUserStore } from '@/store/userStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useWorkoutStore } from '@/store/workoutStore';
+import { useTemplateStore } from '@/store/templateStore';
+import { usePlannedWorkoutStore } from '@/store/plannedWorkoutStore';
 import { useMuscleRecovery } from '@/hooks/useMuscleRecovery';
-import { exerciseLibrary } from '@/services/exerciseLibrary';
-import { WorkoutExercise, WorkoutSet } from '@/types/exercise';
-import { calculateVolume } from '@/utils/calculations';
+import { recommendedWorkoutService } from '@/services/recommendedWorkoutService';
+import { estimateWorkoutMinutes, fitExercisesToTime } from '@/utils/recommendedWorkoutHelpers';
 import { useToast } from '@/hooks/useToast';
 import { ToastContainer } from '@/components/common/Toast';
 import { getRecommendationImageUrl } from '@/utils/recommendationImageMapper';
 import { categorizeMuscleGroup } from '@/utils/analyticsHelpers';
+import { cn } from '@/utils/cn';
+import { logger } from '@/utils/logger';
 
 interface RecommendedWorkoutMetrics {
   prProbability?: number;
@@ -23,11 +30,66 @@ interface RecommendedWorkoutCardProps {
   metrics?: RecommendedWorkoutMetrics;
 }
 
+const TIME_OPTIONS = [30, 45, 60, 90];
+
+function formatTarget(exercise: RecommendedExercise): string {
+  const load = exercise.weight ? ` @ ${exercise.weight} ${exercise.unit ?? 'kg'}` : '';
+  return `${exercise.sets}×${exercise.reps}${load}`;
+}
+
 export function RecommendedWorkoutCard({ workout, metrics }: RecommendedWorkoutCardProps) {
   const navigate = useNavigate();
   const { profile } = useUserStore();
+  const { settings, setAvailableWorkoutMinutes } = useSettingsStore();
+  const { currentWorkout, startWorkoutFromExercises } = useWorkoutStore();
   const { muscleStatuses } = useMuscleRecovery();
-  const { toasts, removeToast, error: showError } = useToast();
+  const { toasts, removeToast, success, error: showError } = useToast();
+  const [exercises, setExercises] = useState<RecommendedExercise[] | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [planDate, setPlanDate] = useState<string | null>(null);
+  const availableMinutes = settings.availableWorkoutMinutes;
+  const unit = profile?.preferredUnit || 'kg';
+
+  // Build the exercise list with load targets, fitted to the time the user has
+  useEffect(() => {
+    if (!workout || !profile?.id) {
+      return;
+    }
+    let cancelled = false;
+
+    const prepare = async () => {
+      try {
+        const generated = workout.exercises && workout.exercises.length > 0
+          ? workout.exercises
+          : recommendedWorkoutService.getExercises(
+            workout,
+            await recommendedWorkoutService.getConstraints(profile.equipment ?? [], muscleStatuses ?? [], availableMinutes)
+          );
+        const selected = fitExercisesToTime(generated, availableMinutes);
+        const withTargets = settings.progressionEnabled
+          ? await recommendedWorkoutService.withLoadTargets(selected, {
+            userId: profile.id,
+            unit,
+            rules: settings.progressionRules,
+            inventory: profile.equipmentInventory,
+          })
+          : selected;
+        if (!cancelled) {
+          setExercises(withTargets);
+        }
+      } catch (error) {
+        logger.error('Error preparing recommended workout:', error);
+        if (!cancelled) {
+          setExercises([]);
+        }
+      }
+    };
+
+    prepare();
+    return () => {
+      cancelled = true;
+    };
+  }, [workout, profile?.id, profile?.equipment, profile?.equipmentInventory, muscleStatuses, availableMinutes, unit, settings.progressionEnabled, settings.progressionRules]);
 
   if (!workout) {
     return null;
@@ -37,120 +99,76 @@ export function RecommendedWorkoutCard({ workout, metrics }: RecommendedWorkoutC
   const primaryMuscle = workout.muscleGroups?.[0];
   const category = primaryMuscle ? categorizeMuscleGroup(primaryMuscle) : 'mixed';
   const imageUrl = getRecommendationImageUrl(category, 'strength');
+  const hasExercises = (exercises ?? []).length > 0;
+  const duration = exercises && hasExercises ? estimateWorkoutMinutes(exercises) : workout.duration;
+  const workoutName = cleanPlainTextResponse(workout.name);
 
-  const handleStartWorkout = async () => {
+  const runAction = async (action: () => Promise<void>, failureMessage: string) => {
+    if (!profile?.id || !exercises || !hasExercises) {
+      showError('No suitable exercises found for this workout. Please try again later.');
+      return;
+    }
+    setIsBusy(true);
     try {
-      // Get exercises that match recommended muscle groups
-      const allExercises = await exerciseLibrary.getAllExercises();
-      const matchingExercises = (allExercises ?? []).filter(ex => {
-        // Check if exercise targets any of the recommended muscle groups
-        const primaryMatch = (ex.primaryMuscles ?? []).some(m => (workout.muscleGroups ?? []).includes(m));
-        const secondaryMatch = (ex.secondaryMuscles ?? []).some(m => (workout.muscleGroups ?? []).includes(m));
-        return primaryMatch || secondaryMatch;
-      });
-
-      // Filter exercises based on muscle recovery - only include if muscles are ready (>=75%)
-      const readyMuscles = (muscleStatuses ?? [])
-        .filter(s => s.recoveryPercentage >= 75)
-        .map(s => s.muscle);
-      
-      const readyExercises = matchingExercises.filter(ex => {
-        return (ex.primaryMuscles ?? []).some(m => readyMuscles.includes(m)) ||
-               (ex.secondaryMuscles ?? []).some(m => readyMuscles.includes(m));
-      });
-
-      // Use ready exercises if available, otherwise use all matching exercises
-      const exercisesToUse = readyExercises.length > 0 ? readyExercises : matchingExercises;
-
-      // Limit to 4-6 exercises for a good workout
-      const selectedExercises = exercisesToUse.slice(0, 6);
-
-      if (selectedExercises.length === 0) {
-        showError('No suitable exercises found for this workout. Please try again later.');
-        return;
-      }
-
-      // Convert to WorkoutExercise format
-      const recommendedWorkoutExercises: WorkoutExercise[] = await Promise.all(
-        selectedExercises.map(async (exercise) => {
-          // Create default sets based on exercise type
-          let initialSets: WorkoutSet[] = [];
-          
-          switch (exercise.trackingType) {
-            case 'weight_reps':
-              initialSets = [
-                {
-                  setNumber: 1,
-                  reps: 10,
-                  weight: 0,
-                  unit: profile?.preferredUnit || 'kg',
-                  completed: false,
-                },
-                {
-                  setNumber: 2,
-                  reps: 10,
-                  weight: 0,
-                  unit: profile?.preferredUnit || 'kg',
-                  completed: false,
-                },
-                {
-                  setNumber: 3,
-                  reps: 10,
-                  weight: 0,
-                  unit: profile?.preferredUnit || 'kg',
-                  completed: false,
-                },
-              ];
-              break;
-            case 'reps_only':
-              initialSets = [
-                { setNumber: 1, reps: 10, completed: false },
-                { setNumber: 2, reps: 10, completed: false },
-                { setNumber: 3, reps: 10, completed: false },
-              ];
-              break;
-            case 'cardio':
-              initialSets = [
-                {
-                  setNumber: 1,
-                  distance: 0,
-                  distanceUnit: 'km',
-                  time: 0,
-                  completed: false,
-                },
-              ];
-              break;
-            case 'duration':
-              initialSets = [
-                { setNumber: 1, duration: 0, completed: false },
-              ];
-              break;
-          }
-
-          const initialVolume = calculateVolume(initialSets, exercise.trackingType);
-
-          return {
-            id: `${Date.now()}-${Math.random()}-${exercise.id}`,
-            exerciseId: exercise.id,
-            exerciseName: exercise.name,
-            sets: initialSets,
-            totalVolume: initialVolume,
-            musclesWorked: [...exercise.primaryMuscles, ...exercise.secondaryMuscles],
-            timestamp: new Date(),
-          };
-        })
-      );
-
-      // Navigate with recommended workout exercises
-      navigate('/log-workout', {
-        state: { recommendedWorkoutExercises },
-      });
+      await action();
     } catch (error) {
-      console.error('Error preparing recommended workout:', error);
-      showError('Failed to prepare workout. Please try again.');
+      logger.error(failureMessage, error);
+      showError(failureMessage);
+    } finally {
+      setIsBusy(false);
     }
   };
 
+  const handleStartWorkout = () => runAction(async () => {
+    if (!profile?.id || !exercises) {
+      return;
+    }
+    if ((currentWorkout?.exercises ?? []).length > 0 && !window.confirm('Replace the workout you have in progress?')) {
+      return;
+    }
+    await startWorkoutFromExercises(
+      profile.id,
+      recommendedWorkoutService.toWorkoutExercises(exercises, unit),
+      recommendedWorkoutService.getCategory(workout)
+    );
+    navigate('/log-workout');
+  }, 'Failed to start workout. Please try again.');
+
+  const handleSaveTemplate = () => runAction(async () => {
+    if (!profile?.id || !exercises) {
+      return;
+    }
+    await useTemplateStore.getState().createTemplate({
+      userId: profile.id,
+      name: workoutName,
+      category: recommendedWorkoutService.getCategory(workout),
+      description: cleanPlainTextResponse(workout.description),
+      exercises: recommendedWorkoutService.toPlannedExercises(exercises),
+      estimatedDuration: duration,
+      musclesTargeted: workout.muscleGroups ?? [],
+    });
+    success('Saved as a template');
+  }, 'Failed to save template. Please try again.');
+
+  const handleSchedule = () => runAction(async () => {
+    if (!profile?.id || !exercises || !planDate) {
+      return;
+    }
+    await usePlannedWorkoutStore.getState().createPlannedWorkout(profile.id, {
+      userId: profile.id,
+      scheduledDate: new Date(`${planDate}T00:00:00`),
+      workoutName,
+      category: recommendedWorkoutService.getCategory(workout),
+      estimatedDuration: duration,
+      exercises: recommendedWorkoutService.toPlannedExercises(exercises),
+      musclesTargeted: Array.from(new Set(exercises.flatMap(exercise => exercise.muscles))),
+      notes: cleanPlainTextResponse(workout.reason),
+      isCompleted: false,
+    });
+    setPlanDate(null);
+    success(`Planned for ${format(new Date(`${planDate}T00:00:00`), 'EEE, MMM d')}`);
+  }, 'Failed to plan workout. Please try again.');
+
   return (
     <div className="p-4">
       <ToastContainer toasts={toasts} onRemove={removeToast} />
@@ -192,25 +210,104 @@ export function RecommendedWorkoutCard({ workout, metrics }: RecommendedWorkoutC
           </div>
         </div>
         <div className="p-5 -mt-6 relative z-10">
-          <h3 className="text-2xl font-bold text-slate-900 dark:text-white mb-1">{cleanPlainTextResponse(workout.name)}</h3>
+          <h3 className="text-2xl font-bold text-slate-900 dark:text-white mb-1">{workoutName}</h3>
           <p className="text-slate-500 dark:text-text-muted text-sm mb-4">{cleanPlainTextResponse(workout.description)}</p>
-          <div className="flex gap-2 mb-5">
+          <div className="flex gap-2 mb-4">
             <span className="inline-flex items-center px-2 py-1 rounded bg-white/5 border border-white/10 text-xs text-white/80">
               <Clock className="w-3.5 h-3.5 mr-1" />
-              {workout.duration}m
+              {duration}m
             </span>
             <span className="inline-flex items-center px-2 py-1 rounded bg-white/5 border border-white/10 text-xs text-white/80">
               <Dumbbell className="w-3.5 h-3.5 mr-1" />
               {workout.intensity === 'high' ? 'High Volume' : workout.intensity === 'medium' ? 'Moderate' : 'Low Volume'}
             </span>
           </div>
+
+          <div className="mb-4">
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-text-muted mb-2">Time available</p>
+            <div className="grid grid-cols-4 gap-2">
+              {TIME_OPTIONS.map((minutes) => (
+                <button
+                  key={minutes}
+                  type="button"
+                  onClick={() => setAvailableWorkoutMinutes(minutes)}
+                  className={cn(
+                    'rounded-lg py-1.5 text-xs font-semibold border transition-colors',
+                    availableMinutes === minutes
+                      ? 'border-primary bg-primary/10 text-primary'
+                      : 'border-gray-100 dark:border-white/10 text-slate-600 dark:text-white/70 hover:border-primary/50'
+                  )}
+                >
+                  {minutes} min
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {exercises === null ? (
+            <p className="text-sm text-slate-500 dark:text-text-muted mb-4">Picking exercises…</p>
+          ) : hasExercises ? (
+            <ul className="mb-5 divide-y divide-gray-100 dark:divide-white/5">
+              {exercises.map((exercise) => (
+                <li key={exercise.exerciseId} className="flex items-center justify-between py-2 text-sm">
+                  <span className="text-slate-900 dark:text-white truncate pr-2">{exercise.exerciseName}</span>
+                  <span className="text-slate-500 dark:text-text-muted shrink-0">{formatTarget(exercise)}</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-slate-500 dark:text-text-muted mb-4">
+              No exercises match your equipment and recovered muscles right now.
+            </p>
+          )}
+
           <button
             onClick={handleStartWorkout}
-            className="w-full flex items-center justify-center gap-2 rounded-lg bg-primary py-3 px-4 text-center text-sm font-bold text-background-dark hover:brightness-110 transition-all active:scale-[0.98]"
+            disabled={isBusy || !hasExercises}
+            className="w-full flex items-center justify-center gap-2 rounded-lg bg-primary py-3 px-4 text-center text-sm font-bold text-background-dark hover:brightness-110 transition-all active:scale-[0.98] disabled:opacity-60"
           >
             <Play className="w-4 h-4" />
             Start Recommended Workout
           </button>
+          <div className="grid grid-cols-2 gap-2 mt-2">
+            <button
+              type="button"
+              onClick={handleSaveTemplate}
+              disabled={isBusy || !hasExercises}
+              className="flex items-center justify-center gap-1.5 rounded-lg py-2.5 text-sm font-semibold bg-gray-100 dark:bg-white/5 text-slate-700 dark:text-white/80 hover:bg-gray-200 dark:hover:bg-white/10 transition-colors disabled:opacity-60"
+            >
+              <BookmarkPlus className="w-4 h-4" />
+              Save template
+            </button>
+            <button
+              type="button"
+              onClick={() => setPlanDate(planDate ? null : format(addDays(new Date(), 1), 'yyyy-MM-dd'))}
+              disabled={isBusy || !hasExercises}
+              className="flex items-center justify-center gap-1.5 rounded-lg py-2.5 text-sm font-semibold bg-gray-100 dark:bg-white/5 text-slate-700 dark:text-white/80 hover:bg-gray-200 dark:hover:bg-white/10 transition-colors disabled:opacity-60"
+            >
+              <CalendarPlus className="w-4 h-4" />
+              Plan for later
+            </button>
+          </div>
+          {planDate && (
+            <div className="flex items-center gap-2 mt-2">
+              <input
+                type="date"
+                value={planDate}
+                min={format(new Date(), 'yyyy-MM-dd')}
+                onChange={(e) => setPlanDate(e.target.value)}
+                className="flex-1 rounded-lg border border-gray-100 dark:border-white/10 bg-white dark:bg-surface-dark px-3 py-2 text-sm text-slate-900 dark:text-white focus:border-primary focus:ring-1 focus:ring-primary outline-none"
+              />
+              <button
+                type="button"
+                onClick={handleSchedule}
+                disabled={isBusy || !planDate}
+                className="rounded-lg px-4 py-2 text-sm font-bold bg-primary hover:bg-[#E67E22] text-black transition-colors disabled:opacity-60"
+              >
+                Plan
+              </button>
+            </div>
+          )}
         </div>
       </div>
     </div>
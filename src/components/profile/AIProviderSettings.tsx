@@ -0,0 +1,141 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Sparkles, Server, Cpu } from 'lucide-react';
+import { useSettingsStore } from '@/store/settingsStore';
+import { aiProviderRegistry } from '@/services/aiProviders';
+import { aiResponseMetrics } from '@/services/aiResponseMetrics';
+import { AIProviderType, AITask } from '@/types/ai';
+import { cn } from '@/utils/cn';
+
+const PROVIDER_OPTIONS: Array<{ type: AIProviderType; label: string; description: string; icon: typeof Sparkles }> = [
+  { type: 'gemini', label: 'Gemini', description: 'Google Gemini cloud model', icon: Sparkles },
+  { type: 'openai-compatible', label: 'Custom endpoint', description: 'Ollama, llama.cpp or any OpenAI-compatible server', icon: Server },
+  { type: 'rule-based', label: 'On-device', description: 'Rule-based insights that work offline', icon: Cpu },
+];
+
+const TASK_LABELS: Record<AITask, string> = {
+  'workout-insights': "Today's focus",
+  'progress-insight': 'Progress insight',
+  'muscle-balance': 'Muscle balance',
+  'progress-analysis': 'Progress analysis',
+  'smart-alerts': 'Smart alerts',
+  'workout-recommendations': 'Workout recommendations',
+  'empty-state': 'Welcome messages',
+  'coach-chat': 'Coach chat',
+};
+
+const INPUT_CLASS = 'w-full rounded-lg border border-gray-100 dark:border-surface-border bg-white dark:bg-surface-dark px-3 py-2 text-sm text-slate-900 dark:text-white focus:border-primary focus:ring-1 focus:ring-primary outline-none';
+
+/**
+ * Choose which backend generates AI insights
+ */
+export function AIProviderSettings() {
+  const { settings, setAIProvider } = useSettingsStore();
+  const aiProvider = settings.aiProvider;
+  const [baseUrl, setBaseUrl] = useState(aiProvider.baseUrl ?? '');
+  const [model, setModel] = useState(aiProvider.model ?? '');
+
+  useEffect(() => {
+    setBaseUrl(aiProvider.baseUrl ?? '');
+    setModel(aiProvider.model ?? '');
+  }, [aiProvider.baseUrl, aiProvider.model]);
+
+  const selectProvider = (type: AIProviderType) => {
+    if (type === aiProvider.type) {
+      return;
+    }
+    // Model names don't carry over between backends
+    setAIProvider({ type, baseUrl: aiProvider.baseUrl });
+  };
+
+  const saveEndpoint = () => {
+    const trimmedUrl = baseUrl.trim();
+    const trimmedModel = model.trim();
+    if (trimmedUrl === (aiProvider.baseUrl ?? '') && trimmedModel === (aiProvider.model ?? '')) {
+      return;
+    }
+    setAIProvider({ ...aiProvider, baseUrl: trimmedUrl || undefined, model: trimmedModel || undefined });
+  };
+
+  const isFallingBack = aiProviderRegistry.getActiveProviderType() !== aiProvider.type;
+  const unreliableTasks = useMemo(
+    () => aiResponseMetrics.getMetrics().filter(entry => entry.validationFailures > 0),
+    []
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        {PROVIDER_OPTIONS.map(({ type, label, description, icon: Icon }) => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => selectProvider(type)}
+            className={cn(
+              'w-full flex items-center gap-3 p-3 rounded-xl border text-left transition-colors',
+              aiProvider.type === type
+                ? 'border-primary bg-primary/10'
+                : 'bg-white dark:bg-surface-dark border-gray-100 dark:border-surface-border hover:border-primary/50'
+            )}
+          >
+            <Icon className={cn('w-5 h-5', aiProvider.type === type ? 'text-primary' : 'text-slate-400')} />
+            <div>
+              <span className="text-sm font-medium text-slate-700 dark:text-slate-300 block">{label}</span>
+              <span className="text-xs text-slate-500 dark:text-slate-400">{description}</span>
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {aiProvider.type !== 'rule-based' && (
+        <div className="p-3 rounded-xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-surface-border space-y-3">
+          {aiProvider.type === 'openai-compatible' && (
+            <label className="block">
+              <span className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-1.5 block">Endpoint URL</span>
+              <input
+                type="url"
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                onBlur={saveEndpoint}
+                placeholder="http://localhost:11434/v1"
+                className={INPUT_CLASS}
+              />
+            </label>
+          )}
+          <label className="block">
+            <span className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-1.5 block">Model</span>
+            <input
+              type="text"
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              onBlur={saveEndpoint}
+              placeholder={aiProvider.type === 'gemini' ? 'gemini-2.5-flash' : 'llama3.1'}
+              className={INPUT_CLASS}
+            />
+          </label>
+        </div>
+      )}
+
+      {isFallingBack && (
+        <p className="text-xs text-slate-500 dark:text-slate-400 px-1">
+          {aiProvider.type === 'gemini'
+            ? 'No Gemini API key is configured, so on-device insights are used instead.'
+            : 'Add an endpoint URL to use your server. Until then, on-device insights are used.'}
+        </p>
+      )}
+
+      {unreliableTasks.length > 0 && (
+        <div className="p-3 rounded-xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-surface-border space-y-1.5">
+          <p className="text-sm font-medium text-slate-700 dark:text-slate-300">Malformed responses</p>
+          {unreliableTasks.map(entry => (
+            <div key={entry.task} className="flex items-center justify-between text-xs text-slate-500 dark:text-slate-400">
+              <span>{TASK_LABELS[entry.task]}</span>
+              <span>
+                {entry.validationFailures}/{entry.responses} invalid · {entry.repairSuccesses} repaired · {entry.fallbacks} fell back
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Trash2 } from 'lucide-react';
+import { BodyMeasurement, BodyMeasurementSite, LengthUnit } from '@/types/measurement';
+import { bodyMeasurementService } from '@/services/bodyMeasurementService';
+import { dataService } from '@/services/dataService';
+import { UnitSystem } from '@/store/userStore';
+import { useToast } from '@/hooks/useToast';
+import { convertWeight } from '@/utils/calculations';
+import { BODY_MEASUREMENT_SITES, convertLength } from '@/utils/measurementHelpers';
+import { cn } from '@/utils/cn';
+import { logger } from '@/utils/logger';
+
+interface BodyMeasurementLogProps {
+  userId: string;
+  unitSystem: UnitSystem;
+}
+
+const SITE_LABELS: Record<BodyMeasurementSite, string> = {
+  neck: 'Neck',
+  shoulders: 'Shoulders',
+  chest: 'Chest',
+  waist: 'Waist',
+  hips: 'Hips',
+  arms: 'Arms',
+  forearms: 'Forearms',
+  thighs: 'Thighs',
+  calves: 'Calves',
+};
+
+const RECENT_ENTRY_LIMIT = 5;
+
+const inputClassName =
+  'w-full rounded-xl border border-gray-100 dark:border-surface-border bg-white dark:bg-surface-dark px-3 py-2.5 text-base text-slate-900 dark:text-white focus:border-primary focus:ring-1 focus:ring-primary transition-all outline-none';
+
+const parseOptional = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * Log bodyweight, body fat and circumferences, and show the latest entries
+ */
+export function BodyMeasurementLog({ userId, unitSystem }: BodyMeasurementLogProps) {
+  const weightUnit = unitSystem === 'metric' ? 'kg' : 'lbs';
+  const lengthUnit: LengthUnit = unitSystem === 'metric' ? 'cm' : 'in';
+  const { success, error: showError } = useToast();
+
+  const [date, setDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [weight, setWeight] = useState('');
+  const [bodyFat, setBodyFat] = useState('');
+  const [circumferences, setCircumferences] = useState<Partial<Record<BodyMeasurementSite, string>>>({});
+  const [showCircumferences, setShowCircumferences] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [entries, setEntries] = useState<BodyMeasurement[]>([]);
+
+  const loadEntries = useCallback(() => {
+    bodyMeasurementService.getMeasurements(userId)
+      .then(setEntries)
+      .catch((error) => logger.error('[BodyMeasurementLog] Failed to load measurements:', error));
+  }, [userId]);
+
+  useEffect(() => {
+    loadEntries();
+    return dataService.on('measurement', loadEntries);
+  }, [loadEntries]);
+
+  const handleSave = async () => {
+    const weightValue = parseOptional(weight);
+    const siteValues: Partial<Record<BodyMeasurementSite, number>> = {};
+    BODY_MEASUREMENT_SITES.forEach((site) => {
+      const value = parseOptional(circumferences[site] ?? '');
+      if (value !== undefined) {
+        siteValues[site] = Math.round(convertLength(value, lengthUnit, 'cm') * 10) / 10;
+      }
+    });
+
+    setIsSaving(true);
+    try {
+      // Stamp entries for today with the current time so same-day weigh-ins keep their order
+      const today = format(new Date(), 'yyyy-MM-dd');
+      await bodyMeasurementService.logMeasurement({
+        userId,
+        date: date === today ? new Date() : new Date(`${date}T12:00:00`),
+        weight: weightValue !== undefined
+          ? Math.round(convertWeight(weightValue, weightUnit, 'kg') * 100) / 100
+          : undefined,
+        bodyFatPercent: parseOptional(bodyFat),
+        circumferences: Object.keys(siteValues).length > 0 ? siteValues : undefined,
+      });
+      setWeight('');
+      setBodyFat('');
+      setCircumferences({});
+      success('Measurement logged');
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to log measurement');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await bodyMeasurementService.deleteMeasurement(id);
+    } catch (error) {
+      logger.error('[BodyMeasurementLog] Failed to delete measurement:', error);
+      showError('Failed to delete measurement');
+    }
+  };
+
+  const formatEntry = (entry: BodyMeasurement): string => {
+    const parts: string[] = [];
+    if (entry.weight !== undefined) {
+      parts.push(`${convertWeight(entry.weight, 'kg', weightUnit).toFixed(1)} ${weightUnit}`);
+    }
+    if (entry.bodyFatPercent !== undefined) {
+      parts.push(`${entry.bodyFatPercent}% BF`);
+    }
+    Object.entries(entry.circumferences ?? {}).forEach(([site, value]) => {
+      if (value !== undefined) {
+        parts.push(
+          `${SITE_LABELS[site as BodyMeasurementSite]} ${convertLength(value, 'cm', lengthUnit).toFixed(1)} ${lengthUnit}`
+        );
+      }
+    });
+    return parts.join(' · ');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-2">
+        <label className="block">
+          <span className="text-sm font-medium text-slate-600 dark:text-slate-300 mb-1.5 block ml-1">Date</span>
+          <input
+            className={inputClassName}
+            type="date"
+            value={date}
+            max={format(new Date(), 'yyyy-MM-dd')}
+            onChange={(e) => setDate(e.target.value)}
+          />
+        </label>
+        <label className="block">
+          <span className="text-sm font-medium text-slate-600 dark:text-slate-300 mb-1.5 block ml-1">
+            Weight ({weightUnit})
+          </span>
+          <input
+            className={inputClassName}
+            type="number"
+            min="0"
+            step="0.1"
+            value={weight}
+            onChange={(e) => setWeight(e.target.value)}
+          />
+        </label>
+        <label className="block">
+          <span className="text-sm font-medium text-slate-600 dark:text-slate-300 mb-1.5 block ml-1">Body fat (%)</span>
+          <input
+            className={inputClassName}
+            type="number"
+            min="0"
+            max="100"
+            step="0.1"
+            value={bodyFat}
+            onChange={(e) => setBodyFat(e.target.value)}
+          />
+        </label>
+      </div>
+
+      <button
+        type="button"
+        onClick={() => setShowCircumferences((prev) => !prev)}
+        className="text-sm font-medium text-primary hover:underline px-1"
+      >
+        {showCircumferences ? 'Hide circumferences' : 'Add circumferences'}
+      </button>
+
+      {showCircumferences && (
+        <div className="grid grid-cols-3 gap-2">
+          {BODY_MEASUREMENT_SITES.map((site) => (
+            <label key={site} className="block">
+              <span className="text-xs font-medium text-slate-600 dark:text-slate-300 mb-1 block ml-1">
+                {SITE_LABELS[site]} ({lengthUnit})
+              </span>
+              <input
+                className={inputClassName}
+                type="number"
+                min="0"
+                step="0.1"
+                value={circumferences[site] ?? ''}
+                onChange={(e) => setCircumferences((prev) => ({ ...prev, [site]: e.target.value }))}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={handleSave}
+        disabled={isSaving || !date}
+        className={cn(
+          'w-full rounded-xl py-3 font-bold transition-colors touch-manipulation active:scale-[0.98] min-h-[44px]',
+          isSaving ? 'bg-primary/60 text-black cursor-wait' : 'bg-primary hover:bg-[#E67E22] text-black'
+        )}
+      >
+        {isSaving ? 'Saving...' : 'Log Measurement'}
+      </button>
+
+      {entries.length > 0 && (
+        <ul className="space-y-2">
+          {entries.slice(0, RECENT_ENTRY_LIMIT).map((entry) => (
+            <li
+              key={entry.id}
+              className="flex items-center justify-between gap-3 rounded-xl bg-white dark:bg-surface-dark px-3 py-2.5"
+            >
+              <div className="min-w-0">
+                <p className="text-xs font-bold text-slate-500 dark:text-slate-400">
+                  {format(new Date(entry.date), 'MMM d, yyyy')}
+                </p>
+                <p className="text-sm text-slate-900 dark:text-white truncate">{formatEntry(entry)}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleDelete(entry.id)}
+                className="p-2 text-slate-400 hover:text-red-500 transition-colors"
+                aria-label="Delete measurement"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useEffect, useState } from 'react';
+import { CsvExportDataset, CsvExportOptions } from '@/types/export';
+import { dataService } from '@/services/dataService';
+import { cn } from '@/utils/cn';
+import { logger } from '@/utils/logger';
+import { Modal } from '@/components/common/Modal';
+
+interface CsvExportModalProps {
+  userId: string;
+  onExport: (options: CsvExportOptions) => void;
+  onCancel: () => void;
+}
+
+const DATASET_OPTIONS: Array<{ value: CsvExportDataset; label: string }> = [
+  { value: 'sets', label: 'Workout sets' },
+  { value: 'sleepLogs', label: 'Sleep logs' },
+  { value: 'recoveryLogs', label: 'Recovery logs' },
+  { value: 'plannedWorkouts', label: 'Planned workouts' },
+];
+
+const inputClassName =
+  'w-full rounded-xl border border-gray-100 dark:border-surface-border bg-white dark:bg-surface-dark px-3 py-2.5 text-sm text-slate-900 dark:text-white focus:border-primary focus:ring-1 focus:ring-primary transition-all outline-none';
+
+export function CsvExportModal({ userId, onExport, onCancel }: CsvExportModalProps) {
+  const [datasets, setDatasets] = useState<CsvExportDataset[]>(DATASET_OPTIONS.map((option) => option.value));
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [exerciseIds, setExerciseIds] = useState<string[]>([]);
+  const [bundle, setBundle] = useState(true);
+  const [loggedExercises, setLoggedExercises] = useState<Array<{ id: string; name: string }>>([]);
+
+  useEffect(() => {
+    dataService.getAllWorkouts(userId)
+      .then((workouts) => {
+        const exercises = new Map<string, string>();
+        workouts.forEach((workout) =>
+          workout.exercises.forEach((exercise) => exercises.set(exercise.exerciseId, exercise.exerciseName))
+        );
+        setLoggedExercises(
+          Array.from(exercises.entries())
+            .map(([id, name]) => ({ id, name }))
+            .sort((a, b) => a.name.localeCompare(b.name))
+        );
+      })
+      .catch((error) => logger.error('[CsvExportModal] Failed to load logged exercises:', error));
+  }, [userId]);
+
+  const toggleDataset = (dataset: CsvExportDataset) => {
+    setDatasets((prev) =>
+      prev.includes(dataset) ? prev.filter((value) => value !== dataset) : [...prev, dataset]
+    );
+  };
+
+  const handleExport = () => {
+    onExport({
+      datasets,
+      startDate: startDate ? new Date(`${startDate}T00:00:00`) : undefined,
+      endDate: endDate ? new Date(`${endDate}T00:00:00`) : undefined,
+      exerciseIds: exerciseIds.length > 0 ? exerciseIds : undefined,
+      bundle,
+    });
+  };
+
+  const canExport = datasets.length > 0 && (!startDate || !endDate || startDate <= endDate);
+
+  return (
+    <Modal
+      isOpen={true}
+      onClose={onCancel}
+      title="Export for Spreadsheets"
+      size="md"
+      footer={
+        <div className="flex gap-3">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-3 rounded-xl border border-gray-100 dark:border-gray-600 text-slate-700 dark:text-gray-300 font-medium hover:bg-gray-50 dark:hover:bg-surface-dark transition-colors touch-manipulation active:scale-[0.98] min-h-[44px] focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!canExport}
+            className={cn(
+              'flex-1 px-4 py-3 rounded-xl font-medium transition-colors touch-manipulation active:scale-[0.98] min-h-[44px] focus:outline-none focus:ring-2 focus:ring-offset-2',
+              canExport
+                ? 'bg-primary hover:bg-[#E67E22] text-black active:bg-[#E67E22] focus:ring-primary'
+                : 'bg-white dark:bg-surface-dark-light text-slate-500 dark:text-gray-400 cursor-not-allowed focus:ring-gray-400'
+            )}
+          >
+            Export CSV
+          </button>
+        </div>
+      }
+    >
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-slate-700 dark:text-gray-300">Include</h3>
+          {DATASET_OPTIONS.map((option) => (
+            <label
+              key={option.value}
+              className="flex items-center justify-between p-3 rounded-xl bg-gray-50 dark:bg-surface-dark/50 border border-gray-100 dark:border-border-dark"
+            >
+              <span className="text-sm font-medium text-slate-700 dark:text-slate-300">{option.label}</span>
+              <input
+                type="checkbox"
+                checked={datasets.includes(option.value)}
+                onChange={() => toggleDataset(option.value)}
+                className="w-5 h-5 rounded border-gray-300 text-primary focus:ring-primary"
+              />
+            </label>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block">
+            <span className="text-sm font-medium text-slate-600 dark:text-slate-300 mb-1.5 block ml-1">From</span>
+            <input
+              className={inputClassName}
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </label>
+          <label className="block">
+            <span className="text-sm font-medium text-slate-600 dark:text-slate-300 mb-1.5 block ml-1">To</span>
+            <input
+              className={inputClassName}
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          </label>
+        </div>
+
+        {loggedExercises.length > 0 && (
+          <label className="block">
+            <span className="text-sm font-medium text-slate-600 dark:text-slate-300 mb-1.5 block ml-1">
+              Exercises ({exerciseIds.length > 0 ? `${exerciseIds.length} selected` : 'all'})
+            </span>
+            <select
+              multiple
+              value={exerciseIds}
+              onChange={(e) => setExerciseIds(Array.from(e.target.selectedOptions, (option) => option.value))}
+              className={cn(inputClassName, 'h-36')}
+            >
+              {loggedExercises.map((exercise) => (
+                <option key={exercise.id} value={exercise.id}>
+                  {exercise.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        <label className="flex items-center justify-between p-3 rounded-xl bg-gray-50 dark:bg-surface-dark/50 border border-gray-100 dark:border-border-dark">
+          <span className="text-sm font-medium text-slate-700 dark:text-slate-300">Bundle files into a .zip</span>
+          <input
+            type="checkbox"
+            checked={bundle}
+            onChange={(e) => setBundle(e.target.checked)}
+            className="w-5 h-5 rounded border-gray-300 text-primary focus:ring-primary"
+          />
+        </label>
+      </div>
+    </Modal>
+  );
+}
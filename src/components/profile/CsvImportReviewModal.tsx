@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { ExerciseNameMapping, ExerciseNameMatch, ParsedCsvFile } from '@/types/csvImport';
+import { cn } from '@/utils/cn';
+import { Modal } from '@/components/common/Modal';
+
+interface CsvImportReviewModalProps {
+  parsed: ParsedCsvFile;
+  matches: ExerciseNameMatch[];
+  onConfirm: (mapping: ExerciseNameMapping) => void;
+  onCancel: () => void;
+}
+
+const SOURCE_LABELS: Record<ParsedCsvFile['source'], string> = {
+  strong: 'Strong',
+  hevy: 'Hevy',
+  fitnotes: 'FitNotes',
+  fittrackai: 'FitTrackAI',
+};
+
+export function CsvImportReviewModal({
+  parsed,
+  matches,
+  onConfirm,
+  onCancel,
+}: CsvImportReviewModalProps) {
+  const [mapping, setMapping] = useState<ExerciseNameMapping>(() =>
+    Object.fromEntries(matches.map((match) => [match.sourceName, match.exerciseId]))
+  );
+
+  const needsReview = matches.filter((match) => match.exerciseId === null);
+  const autoMatched = matches.filter((match) => match.exerciseId !== null);
+  const skippedCount = Object.values(mapping).filter((id) => id === null).length;
+
+  const renderMatchRow = (match: ExerciseNameMatch) => (
+    <div
+      key={match.sourceName}
+      className="flex flex-col gap-1.5 p-3 rounded-xl bg-gray-50 dark:bg-surface-dark/50 border border-gray-100 dark:border-border-dark"
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium text-slate-900 dark:text-white truncate">
+          {match.sourceName}
+        </span>
+        <span className="text-xs text-slate-500 dark:text-gray-400 shrink-0">
+          {match.occurrences} workout{match.occurrences === 1 ? '' : 's'}
+        </span>
+      </div>
+      <select
+        value={mapping[match.sourceName] ?? ''}
+        onChange={(e) =>
+          setMapping((prev) => ({ ...prev, [match.sourceName]: e.target.value || null }))
+        }
+        className="w-full rounded-lg border border-gray-100 dark:border-surface-border bg-white dark:bg-surface-dark px-2 py-2 text-sm text-slate-900 dark:text-white outline-none focus:border-primary"
+      >
+        <option value="">Skip this exercise</option>
+        {match.candidates.map((candidate) => (
+          <option key={candidate.exerciseId} value={candidate.exerciseId}>
+            {candidate.exerciseName} ({Math.round(candidate.confidence)}%)
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <Modal
+      isOpen={true}
+      onClose={onCancel}
+      title={`Import from ${SOURCE_LABELS[parsed.source]}`}
+      size="md"
+      footer={
+        <div className="flex gap-3">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-3 rounded-xl border border-gray-100 dark:border-gray-600 text-slate-700 dark:text-gray-300 font-medium hover:bg-gray-50 dark:hover:bg-surface-dark transition-colors touch-manipulation active:scale-[0.98] min-h-[44px] focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(mapping)}
+            disabled={parsed.workouts.length === 0}
+            className={cn(
+              'flex-1 px-4 py-3 rounded-xl font-medium transition-colors touch-manipulation active:scale-[0.98] min-h-[44px] focus:outline-none focus:ring-2 focus:ring-offset-2',
+              parsed.workouts.length > 0
+                ? 'bg-primary hover:bg-[#E67E22] text-black active:bg-[#E67E22] focus:ring-primary'
+                : 'bg-white dark:bg-surface-dark-light text-slate-500 dark:text-gray-400 cursor-not-allowed focus:ring-gray-400'
+            )}
+          >
+            Import {parsed.workouts.length} Workouts
+          </button>
+        </div>
+      }
+    >
+      <div className="space-y-6">
+        <div className="bg-gray-50 dark:bg-surface-dark/50 rounded-xl p-4 border border-gray-100 dark:border-border-dark">
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <div>
+              <span className="text-slate-500 dark:text-gray-400">Workouts:</span>
+              <span className="ml-2 font-medium text-slate-900 dark:text-white">{parsed.workouts.length}</span>
+            </div>
+            <div>
+              <span className="text-slate-500 dark:text-gray-400">Exercises:</span>
+              <span className="ml-2 font-medium text-slate-900 dark:text-white">{matches.length}</span>
+            </div>
+            <div>
+              <span className="text-slate-500 dark:text-gray-400">Rows:</span>
+              <span className="ml-2 font-medium text-slate-900 dark:text-white">{parsed.totalRows}</span>
+            </div>
+            <div>
+              <span className="text-slate-500 dark:text-gray-400">Unreadable:</span>
+              <span className="ml-2 font-medium text-slate-900 dark:text-white">{parsed.rowErrors.length}</span>
+            </div>
+          </div>
+          {skippedCount > 0 && (
+            <p className="mt-3 text-xs text-slate-500 dark:text-gray-400">
+              {skippedCount} exercise{skippedCount === 1 ? '' : 's'} will be skipped.
+            </p>
+          )}
+        </div>
+
+        {needsReview.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4 text-yellow-600 dark:text-yellow-400" />
+              <h3 className="text-sm font-semibold text-slate-700 dark:text-gray-300">
+                Needs review ({needsReview.length})
+              </h3>
+            </div>
+            {needsReview.map(renderMatchRow)}
+          </div>
+        )}
+
+        {autoMatched.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <CheckCircle2 className="w-4 h-4 text-green-600 dark:text-green-400" />
+              <h3 className="text-sm font-semibold text-slate-700 dark:text-gray-300">
+                Matched ({autoMatched.length})
+              </h3>
+            </div>
+            {autoMatched.map(renderMatchRow)}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
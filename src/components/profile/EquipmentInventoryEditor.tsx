@@ -0,0 +1,228 @@
+import { WeightUnit } from '@/types/exercise';
+import { BarbellSpec, EquipmentInventory } from '@/types/equipment';
+import { getDefaultBarbell } from '@/utils/plateCalculator';
+import { cn } from '@/utils/cn';
+
+interface EquipmentInventoryEditorProps {
+  inventory: EquipmentInventory;
+  unit: WeightUnit;
+  onChange: (inventory: EquipmentInventory) => void;
+}
+
+// Starting weight for a newly added bar, a typical women's or technique bar
+const NEW_BAR_WEIGHT: Record<WeightUnit, number> = { kg: 15, lbs: 35 };
+
+const inputClassName =
+  'w-full rounded-xl border border-gray-100 dark:border-surface-border bg-white dark:bg-surface-dark px-3 py-2.5 text-base text-slate-900 dark:text-white focus:border-primary focus:ring-1 focus:ring-primary transition-all outline-none';
+
+/**
+ * Edit the bars, plate pairs, dumbbells and machine stacks for one unit system.
+ * The selected bar is the one plate breakdowns and warm-ups load.
+ */
+export function EquipmentInventoryEditor({ inventory, unit, onChange }: EquipmentInventoryEditorProps) {
+  const defaultBarbell = getDefaultBarbell(inventory, unit);
+  const barbells = inventory.barbells.filter(bar => bar.unit === unit);
+  const plates = inventory.plates
+    .filter(plate => plate.unit === unit)
+    .sort((a, b) => b.weight - a.weight);
+  const dumbbells = inventory.dumbbells.find(set => set.unit === unit);
+  const machine = inventory.machines.find(stack => stack.unit === unit);
+
+  const updateBarbell = (id: string, changes: Partial<Omit<BarbellSpec, 'id'>>) => {
+    if (changes.weight !== undefined && !(changes.weight >= 0)) {
+      return;
+    }
+    onChange({
+      ...inventory,
+      barbells: inventory.barbells.map(bar => (bar.id === id ? { ...bar, ...changes } : bar)),
+    });
+  };
+
+  const addBarbell = () => {
+    onChange({
+      ...inventory,
+      barbells: [...inventory.barbells, { id: `bar-${Date.now()}`, name: 'Bar', weight: NEW_BAR_WEIGHT[unit], unit }],
+    });
+  };
+
+  const removeBarbell = (id: string) => {
+    onChange({
+      ...inventory,
+      barbells: inventory.barbells.filter(bar => bar.id !== id),
+      defaultBarbellId: inventory.defaultBarbellId === id ? undefined : inventory.defaultBarbellId,
+    });
+  };
+
+  const updatePlatePairs = (weight: number, pairs: number) => {
+    onChange({
+      ...inventory,
+      plates: inventory.plates.map(plate =>
+        plate.unit === unit && plate.weight === weight ? { ...plate, pairs: Math.max(0, pairs) } : plate
+      ),
+    });
+  };
+
+  const updateDumbbellRange = (min: number, max: number, step: number) => {
+    if (!(min > 0) || !(max >= min) || !(step > 0)) {
+      return;
+    }
+    const weights: number[] = [];
+    for (let weight = min; weight <= max + 1e-9; weight += step) {
+      weights.push(Math.round(weight * 100) / 100);
+    }
+    onChange({
+      ...inventory,
+      dumbbells: [...inventory.dumbbells.filter(set => set.unit !== unit), { unit, weights }],
+    });
+  };
+
+  const updateMachineIncrement = (increment: number) => {
+    if (!(increment > 0)) {
+      return;
+    }
+    onChange({
+      ...inventory,
+      machines: [...inventory.machines.filter(stack => stack.unit !== unit), { unit, increment }],
+    });
+  };
+
+  const dumbbellMin = dumbbells?.weights[0] ?? 0;
+  const dumbbellMax = dumbbells?.weights[dumbbells.weights.length - 1] ?? 0;
+  const dumbbellStep = dumbbells && dumbbells.weights.length > 1 ? dumbbells.weights[1] - dumbbells.weights[0] : 0;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <span className="text-sm font-medium text-slate-600 dark:text-slate-300 mb-1.5 block ml-1">
+          Bars ({unit})
+        </span>
+        <div className="space-y-2">
+          {barbells.map(bar => {
+            const isDefault = bar.id === defaultBarbell?.id;
+            return (
+              <div key={bar.id} className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => onChange({ ...inventory, defaultBarbellId: bar.id })}
+                  className={cn(
+                    'material-symbols-outlined text-xl shrink-0',
+                    isDefault ? 'text-primary' : 'text-slate-400 hover:text-slate-600 dark:hover:text-slate-300'
+                  )}
+                  aria-label={isDefault ? `${bar.name} is used for plate loading` : `Use ${bar.name} for plate loading`}
+                  aria-pressed={isDefault}
+                >
+                  {isDefault ? 'radio_button_checked' : 'radio_button_unchecked'}
+                </button>
+                <input
+                  className={inputClassName}
+                  type="text"
+                  aria-label="Bar name"
+                  value={bar.name}
+                  onChange={(e) => updateBarbell(bar.id, { name: e.target.value })}
+                />
+                <input
+                  className={cn(inputClassName, 'w-24 shrink-0')}
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  aria-label={`${bar.name} weight (${unit})`}
+                  value={bar.weight}
+                  onChange={(e) => updateBarbell(bar.id, { weight: parseFloat(e.target.value) })}
+                />
+                <button
+                  type="button"
+                  onClick={() => removeBarbell(bar.id)}
+                  disabled={inventory.barbells.length === 1}
+                  className="material-symbols-outlined text-xl shrink-0 text-slate-400 hover:text-red-500 disabled:opacity-40 disabled:hover:text-slate-400"
+                  aria-label={`Remove ${bar.name}`}
+                >
+                  delete
+                </button>
+              </div>
+            );
+          })}
+          <button
+            type="button"
+            onClick={addBarbell}
+            className="flex items-center gap-1 text-sm font-medium text-primary ml-1"
+          >
+            <span className="material-symbols-outlined text-lg">add</span>
+            Add bar
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <span className="text-sm font-medium text-slate-600 dark:text-slate-300 mb-1.5 block ml-1">
+          Plate Pairs
+        </span>
+        <div className="grid grid-cols-3 gap-2">
+          {plates.map(plate => (
+            <label
+              key={plate.weight}
+              className={cn(
+                'flex flex-col items-center rounded-xl bg-white dark:bg-surface-dark p-2',
+                plate.pairs === 0 && 'opacity-60'
+              )}
+            >
+              <span className="text-xs font-bold text-slate-500 dark:text-slate-400">
+                {plate.weight}{unit}
+              </span>
+              <input
+                className="w-full bg-transparent text-center text-lg font-bold text-slate-900 dark:text-white outline-none"
+                type="number"
+                min="0"
+                max="20"
+                value={plate.pairs}
+                onChange={(e) => updatePlatePairs(plate.weight, parseInt(e.target.value) || 0)}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <span className="text-sm font-medium text-slate-600 dark:text-slate-300 mb-1.5 block ml-1">
+          Dumbbells per hand ({unit}): min / max / step
+        </span>
+        <div className="grid grid-cols-3 gap-2">
+          <input
+            className={inputClassName}
+            type="number"
+            min="0"
+            value={dumbbellMin}
+            onChange={(e) => updateDumbbellRange(parseFloat(e.target.value), dumbbellMax, dumbbellStep)}
+          />
+          <input
+            className={inputClassName}
+            type="number"
+            min="0"
+            value={dumbbellMax}
+            onChange={(e) => updateDumbbellRange(dumbbellMin, parseFloat(e.target.value), dumbbellStep)}
+          />
+          <input
+            className={inputClassName}
+            type="number"
+            min="0"
+            value={dumbbellStep}
+            onChange={(e) => updateDumbbellRange(dumbbellMin, dumbbellMax, parseFloat(e.target.value))}
+          />
+        </div>
+      </div>
+
+      <label className="block">
+        <span className="text-sm font-medium text-slate-600 dark:text-slate-300 mb-1.5 block ml-1">
+          Machine Stack Increment ({unit})
+        </span>
+        <input
+          className={inputClassName}
+          type="number"
+          min="0"
+          step="0.5"
+          value={machine?.increment ?? ''}
+          onChange={(e) => updateMachineIncrement(parseFloat(e.target.value))}
+        />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { Gender, HeartRateZoneMethod, UserProfile } from '@/store/userStore';
+import { getHeartRateSettings } from '@/utils/heartRateZones';
+import { cn } from '@/utils/cn';
+
+export type HeartRateProfileSettings = Pick<
+  UserProfile,
+  'maxHeartRate' | 'restingHeartRate' | 'lactateThresholdHeartRate' | 'heartRateZoneMethod'
+>;
+
+interface HeartRateSettingsEditorProps {
+  value: HeartRateProfileSettings;
+  age?: number;
+  gender?: Gender;
+  onChange: (value: HeartRateProfileSettings) => void;
+}
+
+const inputClassName =
+  'w-full rounded-xl border border-gray-100 dark:border-surface-border bg-white dark:bg-surface-dark px-3 py-2.5 text-base text-slate-900 dark:text-white placeholder:text-slate-400 focus:border-primary focus:ring-1 focus:ring-primary transition-all outline-none';
+
+const METHODS: Array<{ value: HeartRateZoneMethod; label: string }> = [
+  { value: 'age', label: 'Age' },
+  { value: 'max_hr', label: 'Max HR' },
+  { value: 'lactate_threshold', label: 'Threshold' },
+];
+
+function parseBpm(value: string): number | undefined {
+  const bpm = parseInt(value);
+  return bpm > 0 ? bpm : undefined;
+}
+
+/**
+ * Pick how heart-rate zones are derived and preview the resulting ranges
+ */
+export function HeartRateSettingsEditor({ value, age, gender, onChange }: HeartRateSettingsEditorProps) {
+  const settings = getHeartRateSettings({ ...value, age, gender });
+  const fields: Array<{ key: keyof Omit<HeartRateProfileSettings, 'heartRateZoneMethod'>; label: string; placeholder: string }> = [
+    { key: 'maxHeartRate', label: 'Max HR', placeholder: `${getHeartRateSettings({ age }).maxHeartRate}` },
+    { key: 'restingHeartRate', label: 'Resting HR', placeholder: '60' },
+    { key: 'lactateThresholdHeartRate', label: 'Threshold HR', placeholder: '-' },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex rounded-xl bg-white dark:bg-surface-dark p-1 h-[50px]">
+        {METHODS.map((method) => (
+          <button
+            key={method.value}
+            type="button"
+            onClick={() => onChange({ ...value, heartRateZoneMethod: method.value })}
+            className={cn(
+              'flex-1 rounded-lg text-sm font-medium transition-all',
+              settings.method === method.value
+                ? 'bg-white dark:bg-primary text-slate-900 dark:text-black shadow-sm'
+                : 'text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'
+            )}
+          >
+            {method.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {fields.map((field) => (
+          <label key={field.key} className="block">
+            <span className="text-xs font-medium text-slate-600 dark:text-slate-300 mb-1 block ml-1">
+              {field.label}
+            </span>
+            <input
+              className={inputClassName}
+              type="number"
+              min="30"
+              max="240"
+              placeholder={field.placeholder}
+              value={value[field.key] ?? ''}
+              onChange={(e) => onChange({ ...value, [field.key]: parseBpm(e.target.value) })}
+            />
+          </label>
+        ))}
+      </div>
+
+      {value.heartRateZoneMethod && value.heartRateZoneMethod !== settings.method && (
+        <p className="text-xs text-yellow-600 dark:text-yellow-400 px-1">
+          Enter a {value.heartRateZoneMethod === 'max_hr' ? 'max' : 'threshold'} heart rate to use this method.
+          Zones are estimated from age until then.
+        </p>
+      )}
+
+      <div className="grid grid-cols-5 gap-2 text-center">
+        {settings.zones.map((zone) => (
+          <div
+            key={zone.zone}
+            className="rounded-lg bg-gray-50 dark:bg-surface-dark/50 border border-gray-100 dark:border-border-dark py-2"
+          >
+            <p className="text-xs font-bold text-slate-900 dark:text-white">Z{zone.zone}</p>
+            <p className="text-[10px] text-slate-500 dark:text-gray-400">{zone.minBpm}-{zone.maxBpm}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -14,6 +14,8 @@ interface ImportProgressModalProps {
   } | null;
   result: ImportResult | null;
   onClose: () => void;
+  onCancel?: () => void; // Shown while importing; stops after the batch in progress
+  isCancelling?: boolean;
 }
 
 export function ImportProgressModal({
@@ -21,11 +23,14 @@ export function ImportProgressModal({
   progress,
   result,
   onClose,
+  onCancel,
+  isCancelling = false,
 }: ImportProgressModalProps) {
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
   const isComplete = result !== null;
   const hasErrors = result ? result.errors.length > 0 : false;
   const hasSkipped = result ? result.skipped > 0 : false;
+  const isCancelled = result?.cancelled === true;
   
   // Group errors by category
   const errorsByCategory = result?.errors.reduce((acc, error) => {
@@ -89,7 +94,9 @@ export function ImportProgressModal({
       onClose={onClose}
       title={
         isComplete
-          ? hasErrors
+          ? isCancelled
+            ? 'Import Cancelled'
+            : hasErrors
             ? 'Import Completed with Errors'
             : 'Import Complete'
           : 'Importing Data'
@@ -133,6 +140,16 @@ export function ImportProgressModal({
               <LoadingSpinner size="md" />
             </div>
 
+            {onCancel && (
+              <button
+                onClick={onCancel}
+                disabled={isCancelling}
+                className="w-full px-4 py-3 rounded-xl border border-gray-100 dark:border-gray-600 text-slate-700 dark:text-gray-300 font-medium hover:bg-gray-50 dark:hover:bg-surface-dark transition-colors touch-manipulation active:scale-[0.98] min-h-[44px] disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isCancelling ? 'Cancelling after current batch...' : 'Cancel Import'}
+              </button>
+            )}
+
             {/* Validation Warnings (shown during import if present) */}
             {!isComplete && result && result.errors.length > 0 && (
               <div className="mt-4 p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800">
@@ -161,12 +178,19 @@ export function ImportProgressModal({
                   <CheckCircle2 className="w-5 h-5 text-blue-600 dark:text-blue-400" />
                 )}
                 <h3 className="font-semibold text-blue-900 dark:text-blue-300">
-                  {hasErrors ? 'Import Completed with Errors' : 'Successfully Imported'}
+                  {isCancelled
+                    ? 'Import Cancelled'
+                    : hasErrors ? 'Import Completed with Errors' : 'Successfully Imported'}
                 </h3>
               </div>
               <p className="text-sm text-blue-800 dark:text-blue-400">
                 {result.imported} items imported successfully
               </p>
+              {isCancelled && (
+                <p className="text-sm text-blue-700 dark:text-blue-500 mt-1">
+                  Everything imported so far has been kept. Select the same file again to resume.
+                </p>
+              )}
               {hasSkipped && (
                 <p className="text-sm text-blue-700 dark:text-blue-500 mt-1">
                   {result.skipped} items skipped (duplicates)
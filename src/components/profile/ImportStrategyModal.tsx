@@ -1,6 +1,6 @@
 import { useState } from 'react';
-import { AlertTriangle, Merge, RefreshCw } from 'lucide-react';
-import { ImportStrategy, ImportPreview } from '@/types/export';
+import { AlertTriangle, Merge, RefreshCw, RotateCcw } from 'lucide-react';
+import { ImportStrategy, ImportPreview, ImportCheckpoint } from '@/types/export';
 import { cn } from '@/utils/cn';
 import { Modal } from '@/components/common/Modal';
 
@@ -8,12 +8,16 @@ interface ImportStrategyModalProps {
   preview: ImportPreview;
   onSelect: (strategy: ImportStrategy) => void;
   onCancel: () => void;
+  resumeCheckpoint?: ImportCheckpoint | null; // Unfinished import of the same file
+  onResume?: () => void;
 }
 
 export function ImportStrategyModal({
   preview,
   onSelect,
   onCancel,
+  resumeCheckpoint,
+  onResume,
 }: ImportStrategyModalProps) {
   const [selectedStrategy, setSelectedStrategy] =
     useState<ImportStrategy | null>(null);
@@ -96,6 +100,30 @@ export function ImportStrategyModal({
                 {preview.dataCounts.recoveryLogs}
               </span>
             </div>
+            {!!preview.dataCounts.trainingPrograms && (
+              <div>
+                <span className="text-slate-500 dark:text-gray-400">Programs:</span>
+                <span className="ml-2 font-medium text-slate-900 dark:text-white">
+                  {preview.dataCounts.trainingPrograms}
+                </span>
+              </div>
+            )}
+            {!!preview.dataCounts.bodyMeasurements && (
+              <div>
+                <span className="text-slate-500 dark:text-gray-400">Measurements:</span>
+                <span className="ml-2 font-medium text-slate-900 dark:text-white">
+                  {preview.dataCounts.bodyMeasurements}
+                </span>
+              </div>
+            )}
+            {!!preview.dataCounts.nutritionLogs && (
+              <div>
+                <span className="text-slate-500 dark:text-gray-400">Nutrition:</span>
+                <span className="ml-2 font-medium text-slate-900 dark:text-white">
+                  {preview.dataCounts.nutritionLogs}
+                </span>
+              </div>
+            )}
           </div>
           {preview.userProfile && (
             <div className="mt-3 text-sm text-slate-500 dark:text-gray-400">
@@ -104,6 +132,26 @@ export function ImportStrategyModal({
           )}
         </div>
 
+        {/* Resume Option */}
+        {resumeCheckpoint && onResume && (
+          <button
+            onClick={onResume}
+            className="w-full p-4 rounded-xl border-2 border-primary bg-primary/10 dark:bg-primary/20 text-left transition-all touch-manipulation active:scale-[0.98] min-h-[44px] focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2"
+          >
+            <div className="flex items-center gap-2 mb-1">
+              <RotateCcw className="w-5 h-5 text-primary" />
+              <h3 className="font-semibold text-slate-900 dark:text-white">
+                Resume Previous Import
+              </h3>
+            </div>
+            <p className="text-sm text-slate-600 dark:text-slate-400">
+              {resumeCheckpoint.result.imported + resumeCheckpoint.result.skipped} records were already
+              processed ({resumeCheckpoint.strategy === 'replace' ? 'replace' : 'merge'}, started{' '}
+              {new Date(resumeCheckpoint.startedAt).toLocaleString()}). Continue where it stopped.
+            </p>
+          </button>
+        )}
+
         {/* Strategy Options */}
         <div className="space-y-3">
           {/* Merge Option */}
@@ -0,0 +1,202 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, Activity, Moon } from 'lucide-react';
+import { DistanceUnit } from '@/types/exercise';
+import { ParsedWearableData } from '@/types/wearable';
+import { WEARABLE_SOURCE_LABELS } from '@/utils/wearableHelpers';
+import { cn } from '@/utils/cn';
+import { Modal } from '@/components/common/Modal';
+
+interface WearableImportReviewModalProps {
+  parsed: ParsedWearableData;
+  distanceUnit: DistanceUnit;
+  onConfirm: (parsed: ParsedWearableData) => void;
+  onCancel: () => void;
+}
+
+const MAX_LISTED_ACTIVITIES = 20;
+const METERS_PER_MILE = 1609.344;
+
+function formatDistance(meters: number | undefined, unit: DistanceUnit): string | null {
+  if (!meters) {
+    return null;
+  }
+  return unit === 'miles'
+    ? `${(meters / METERS_PER_MILE).toFixed(2)} mi`
+    : `${(meters / 1000).toFixed(2)} km`;
+}
+
+export function WearableImportReviewModal({
+  parsed,
+  distanceUnit,
+  onConfirm,
+  onCancel,
+}: WearableImportReviewModalProps) {
+  const [includeSleep, setIncludeSleep] = useState(parsed.sleep.length > 0);
+  const [includeActivities, setIncludeActivities] = useState(parsed.activities.length > 0 || parsed.heartRate.length > 0);
+
+  const sourceLabel = parsed.sources.map(source => WEARABLE_SOURCE_LABELS[source]).join(', ');
+  const selectedCount = (includeSleep ? parsed.sleep.length : 0) + (includeActivities ? parsed.activities.length : 0);
+  const canImport = selectedCount > 0 || (includeActivities && parsed.heartRate.length > 0);
+
+  const handleConfirm = () => {
+    onConfirm({
+      ...parsed,
+      sleep: includeSleep ? parsed.sleep : [],
+      activities: includeActivities ? parsed.activities : [],
+      heartRate: includeActivities ? parsed.heartRate : [],
+      steps: includeActivities ? parsed.steps : [],
+    });
+  };
+
+  const renderToggle = (
+    label: string,
+    count: number,
+    checked: boolean,
+    onChange: (checked: boolean) => void,
+    Icon: typeof Moon
+  ) => (
+    <label
+      className={cn(
+        'flex items-center justify-between gap-3 p-3 rounded-xl border transition-colors',
+        count > 0 ? 'cursor-pointer' : 'opacity-50 cursor-not-allowed',
+        checked
+          ? 'border-primary bg-primary/10'
+          : 'border-gray-100 dark:border-border-dark bg-gray-50 dark:bg-surface-dark/50'
+      )}
+    >
+      <div className="flex items-center gap-3">
+        <Icon className="w-5 h-5 text-slate-500 dark:text-gray-400" />
+        <span className="text-sm font-medium text-slate-900 dark:text-white">{label}</span>
+        <span className="text-xs text-slate-500 dark:text-gray-400">{count}</span>
+      </div>
+      <input
+        type="checkbox"
+        checked={checked}
+        disabled={count === 0}
+        onChange={(e) => onChange(e.target.checked)}
+        className="w-4 h-4 accent-primary"
+      />
+    </label>
+  );
+
+  return (
+    <Modal
+      isOpen={true}
+      onClose={onCancel}
+      title={`Import from ${sourceLabel || 'wearable'}`}
+      size="md"
+      footer={
+        <div className="flex gap-3">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-3 rounded-xl border border-gray-100 dark:border-gray-600 text-slate-700 dark:text-gray-300 font-medium hover:bg-gray-50 dark:hover:bg-surface-dark transition-colors touch-manipulation active:scale-[0.98] min-h-[44px] focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={!canImport}
+            className={cn(
+              'flex-1 px-4 py-3 rounded-xl font-medium transition-colors touch-manipulation active:scale-[0.98] min-h-[44px] focus:outline-none focus:ring-2 focus:ring-offset-2',
+              canImport
+                ? 'bg-primary hover:bg-[#E67E22] text-black active:bg-[#E67E22] focus:ring-primary'
+                : 'bg-white dark:bg-surface-dark-light text-slate-500 dark:text-gray-400 cursor-not-allowed focus:ring-gray-400'
+            )}
+          >
+            Import {selectedCount} Records
+          </button>
+        </div>
+      }
+    >
+      <div className="space-y-6">
+        <div className="bg-gray-50 dark:bg-surface-dark/50 rounded-xl p-4 border border-gray-100 dark:border-border-dark">
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <div>
+              <span className="text-slate-500 dark:text-gray-400">Nights:</span>
+              <span className="ml-2 font-medium text-slate-900 dark:text-white">{parsed.sleep.length}</span>
+            </div>
+            <div>
+              <span className="text-slate-500 dark:text-gray-400">Activities:</span>
+              <span className="ml-2 font-medium text-slate-900 dark:text-white">{parsed.activities.length}</span>
+            </div>
+            <div>
+              <span className="text-slate-500 dark:text-gray-400">Heart rate:</span>
+              <span className="ml-2 font-medium text-slate-900 dark:text-white">{parsed.heartRate.length.toLocaleString()}</span>
+            </div>
+            <div>
+              <span className="text-slate-500 dark:text-gray-400">Step samples:</span>
+              <span className="ml-2 font-medium text-slate-900 dark:text-white">{parsed.steps.length.toLocaleString()}</span>
+            </div>
+          </div>
+          <p className="mt-3 text-xs text-slate-500 dark:text-gray-400">
+            Records that overlap a sleep log or workout you already have are not duplicated.
+            Overlapping cardio workouts get the heart rate, steps and calories instead.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          {renderToggle('Sleep', parsed.sleep.length, includeSleep, setIncludeSleep, Moon)}
+          {renderToggle(
+            'Cardio activities & heart rate',
+            parsed.activities.length,
+            includeActivities,
+            setIncludeActivities,
+            Activity
+          )}
+        </div>
+
+        {includeActivities && parsed.activities.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-slate-700 dark:text-gray-300">Activities</h3>
+            {parsed.activities.slice(-MAX_LISTED_ACTIVITIES).reverse().map((activity) => {
+              const minutes = Math.round((activity.end.getTime() - activity.start.getTime()) / 60000);
+              const details = [
+                `${minutes} min`,
+                formatDistance(activity.distanceMeters, distanceUnit),
+                activity.averageHeartRate ? `${activity.averageHeartRate} bpm avg` : null,
+              ].filter(Boolean).join(' · ');
+              return (
+                <div
+                  key={`${activity.source}-${activity.start.getTime()}`}
+                  className="flex items-center justify-between gap-2 p-3 rounded-xl bg-gray-50 dark:bg-surface-dark/50 border border-gray-100 dark:border-border-dark"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-slate-900 dark:text-white capitalize truncate">
+                      {activity.activityType}
+                    </p>
+                    <p className="text-xs text-slate-500 dark:text-gray-400">{details}</p>
+                  </div>
+                  <span className="text-xs text-slate-500 dark:text-gray-400 shrink-0">
+                    {format(activity.start, 'MMM d, HH:mm')}
+                  </span>
+                </div>
+              );
+            })}
+            {parsed.activities.length > MAX_LISTED_ACTIVITIES && (
+              <p className="text-xs text-slate-500 dark:text-gray-400">
+                and {parsed.activities.length - MAX_LISTED_ACTIVITIES} more
+              </p>
+            )}
+          </div>
+        )}
+
+        {parsed.warnings.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4 text-yellow-600 dark:text-yellow-400" />
+              <h3 className="text-sm font-semibold text-slate-700 dark:text-gray-300">
+                Warnings ({parsed.warnings.length})
+              </h3>
+            </div>
+            <ul className="space-y-1 text-xs text-slate-500 dark:text-gray-400">
+              {parsed.warnings.slice(0, 10).map((warning, index) => (
+                <li key={index}>{warning}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,121 @@
+import { useEffect, useMemo, useState } from 'react';
+import { differenceInCalendarDays, format } from 'date-fns';
+import { ProgressPhotoPose } from '@/types/progressPhoto';
+import { ProgressPhotoDay, PROGRESS_PHOTO_POSE_LABELS, findPhotoForDay } from '@/utils/progressPhotoHelpers';
+import { convertWeight } from '@/utils/calculations';
+import { cn } from '@/utils/cn';
+
+interface ProgressPhotoComparisonProps {
+  days: ProgressPhotoDay[];
+  photoUrls: Record<string, string>;
+  getBodyweight: (date: Date) => number | undefined; // kg
+  unit: 'kg' | 'lbs';
+}
+
+const POSES: ProgressPhotoPose[] = ['front', 'side', 'back'];
+
+const selectClassName =
+  'w-full rounded-xl border border-gray-100 dark:border-surface-border bg-white dark:bg-surface-dark px-3 py-2.5 text-sm text-slate-900 dark:text-white focus:border-primary focus:ring-1 focus:ring-primary transition-all outline-none';
+
+/**
+ * Two dates of the same pose side by side, with the bodyweight logged on each
+ */
+export function ProgressPhotoComparison({ days, photoUrls, getBodyweight, unit }: ProgressPhotoComparisonProps) {
+  const [pose, setPose] = useState<ProgressPhotoPose>('front');
+  const poseDays = useMemo(
+    () => days.filter((entry) => entry.photos.some((photo) => photo.pose === pose)),
+    [days, pose]
+  );
+  const [beforeDay, setBeforeDay] = useState('');
+  const [afterDay, setAfterDay] = useState('');
+
+  // Default to the first and latest photo of the pose
+  useEffect(() => {
+    setBeforeDay(poseDays[poseDays.length - 1]?.day ?? '');
+    setAfterDay(poseDays[0]?.day ?? '');
+  }, [poseDays]);
+
+  const sides = [beforeDay, afterDay].map((day) => {
+    const photo = findPhotoForDay(days, day, pose);
+    const bodyweight = photo ? getBodyweight(new Date(photo.date)) : undefined;
+    return { day, photo, bodyweight };
+  });
+  const [before, after] = sides;
+
+  const daysApart = before.photo && after.photo
+    ? Math.abs(differenceInCalendarDays(new Date(after.photo.date), new Date(before.photo.date)))
+    : 0;
+  const weightChange = before.bodyweight !== undefined && after.bodyweight !== undefined
+    ? convertWeight(after.bodyweight - before.bodyweight, 'kg', unit)
+    : undefined;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        {POSES.map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setPose(option)}
+            className={cn(
+              'flex-1 rounded-xl py-2 text-sm font-semibold transition-colors',
+              pose === option
+                ? 'bg-primary text-black'
+                : 'bg-white dark:bg-surface-dark text-slate-600 dark:text-slate-300'
+            )}
+          >
+            {PROGRESS_PHOTO_POSE_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      {poseDays.length < 2 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-8">
+          Add {PROGRESS_PHOTO_POSE_LABELS[pose].toLowerCase()} photos on at least two dates to compare them.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            {sides.map((side, index) => (
+              <div key={index} className="space-y-2">
+                <select
+                  className={selectClassName}
+                  value={side.day}
+                  onChange={(e) => (index === 0 ? setBeforeDay : setAfterDay)(e.target.value)}
+                  aria-label={index === 0 ? 'Before date' : 'After date'}
+                >
+                  {poseDays.map((entry) => (
+                    <option key={entry.day} value={entry.day}>
+                      {format(entry.date, 'MMM d, yyyy')}
+                    </option>
+                  ))}
+                </select>
+                <div className="aspect-[3/4] rounded-xl overflow-hidden bg-gray-100 dark:bg-surface-dark">
+                  {side.photo && photoUrls[side.photo.id] && (
+                    <img
+                      src={photoUrls[side.photo.id]}
+                      alt={`${PROGRESS_PHOTO_POSE_LABELS[pose]} pose on ${side.day}`}
+                      className="w-full h-full object-cover"
+                    />
+                  )}
+                </div>
+                <p className="text-xs text-center text-slate-500 dark:text-slate-400">
+                  {side.bodyweight !== undefined
+                    ? `${convertWeight(side.bodyweight, 'kg', unit).toFixed(1)} ${unit}`
+                    : 'No weigh-in logged'}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {before.photo && after.photo && (
+            <p className="text-sm font-medium text-center text-slate-700 dark:text-slate-300">
+              {daysApart} day{daysApart === 1 ? '' : 's'} apart
+              {weightChange !== undefined && ` · ${weightChange > 0 ? '+' : ''}${weightChange.toFixed(1)} ${unit}`}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
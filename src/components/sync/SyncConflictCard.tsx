@@ -0,0 +1,115 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { ConflictResolutionChoice, ConflictTable, SyncConflict } from '@/types/sync';
+import { diffRecords, formatConflictValue } from '@/utils/syncConflictHelpers';
+import { cn } from '@/utils/cn';
+
+interface SyncConflictCardProps {
+  conflict: SyncConflict;
+  isResolving: boolean;
+  onResolve: (conflict: SyncConflict, choice: ConflictResolutionChoice) => void;
+}
+
+const TABLE_LABELS: Record<ConflictTable, string> = {
+  workouts: 'Workout',
+  workout_templates: 'Template',
+  planned_workouts: 'Planned workout',
+};
+
+const COLLAPSED_DIFF_ROWS = 6;
+
+function formatDate(value: unknown): string | null {
+  if (!value) {
+    return null;
+  }
+  const date = new Date(value as string | number | Date);
+  return isNaN(date.getTime()) ? null : format(date, 'MMM d, yyyy');
+}
+
+function getRecordTitle(conflict: SyncConflict): string {
+  const record = { ...conflict.remoteRecord, ...conflict.localRecord };
+  const name = (record.name ?? record.workoutName ?? record.workoutType) as string | undefined;
+  const date = formatDate(record.scheduledDate ?? record.date);
+  return [name, date].filter(Boolean).join(' · ') || conflict.recordId;
+}
+
+/**
+ * Field-level diff of one conflicting record with keep/merge actions
+ */
+export function SyncConflictCard({ conflict, isResolving, onResolve }: SyncConflictCardProps) {
+  const [expanded, setExpanded] = useState(false);
+  const diffs = useMemo(() => diffRecords(conflict.localRecord, conflict.remoteRecord), [conflict]);
+  const visibleDiffs = expanded ? diffs : diffs.slice(0, COLLAPSED_DIFF_ROWS);
+
+  const formatUpdated = (value: Date | null) =>
+    value ? format(new Date(value), 'MMM d, HH:mm') : 'unknown';
+
+  return (
+    <div className="rounded-xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-surface-border p-4 space-y-4">
+      <div>
+        <p className="text-xs font-bold uppercase tracking-wide text-primary">{TABLE_LABELS[conflict.tableName]}</p>
+        <h3 className="font-bold text-slate-900 dark:text-white">{getRecordTitle(conflict)}</h3>
+        <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">
+          Edited on this device {formatUpdated(conflict.localUpdatedAt)} · on another device {formatUpdated(conflict.remoteUpdatedAt)}
+        </p>
+      </div>
+
+      {diffs.length === 0 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">Both versions now match. Keep either one to clear this conflict.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-500 dark:text-slate-400">
+                <th className="py-1.5 pr-2 font-medium">Field</th>
+                <th className="py-1.5 pr-2 font-medium">This device</th>
+                <th className="py-1.5 font-medium">Other device</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleDiffs.map((diff) => (
+                <tr key={diff.path} className="border-t border-gray-100 dark:border-surface-border align-top">
+                  <td className="py-1.5 pr-2 text-slate-600 dark:text-slate-300">{diff.label}</td>
+                  <td className="py-1.5 pr-2 text-slate-900 dark:text-white break-words">{formatConflictValue(diff.local)}</td>
+                  <td className="py-1.5 text-slate-900 dark:text-white break-words">{formatConflictValue(diff.remote)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {diffs.length > COLLAPSED_DIFF_ROWS && (
+            <button
+              type="button"
+              onClick={() => setExpanded((prev) => !prev)}
+              className="mt-2 text-sm font-medium text-primary hover:underline"
+            >
+              {expanded ? 'Show fewer changes' : `Show all ${diffs.length} changes`}
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-2">
+        {([
+          ['local', 'Keep this device'],
+          ['remote', 'Keep other device'],
+          ['merge', conflict.tableName === 'workouts' ? 'Merge sets' : 'Merge'],
+        ] as [ConflictResolutionChoice, string][]).map(([choice, label]) => (
+          <button
+            key={choice}
+            type="button"
+            disabled={isResolving}
+            onClick={() => onResolve(conflict, choice)}
+            className={cn(
+              'rounded-xl py-2.5 px-2 text-sm font-semibold transition-colors min-h-[44px] disabled:opacity-60',
+              choice === 'merge'
+                ? 'bg-primary hover:bg-[#E67E22] text-black'
+                : 'bg-gray-100 dark:bg-surface-dark-light text-slate-700 dark:text-slate-200 hover:bg-gray-200 dark:hover:bg-surface-border'
+            )}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
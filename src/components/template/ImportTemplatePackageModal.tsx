@@ -0,0 +1,204 @@
+import { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, CheckCircle2, FileUp, Link2, PlusCircle } from 'lucide-react';
+import { Modal } from '@/components/common/Modal';
+import { Button } from '@/components/common/Button';
+import { templatePackageService } from '@/services/templatePackageService';
+import { ExerciseResolution, ExerciseResolutionStatus, TemplatePackage } from '@/types/templatePackage';
+import { useToast } from '@/hooks/useToast';
+import { cn } from '@/utils/cn';
+
+const STATUS_LABELS: Record<ExerciseResolutionStatus, string> = {
+  library: 'In library',
+  matched: 'Matched by name',
+  custom: 'Will be created',
+  unknown: 'Not found — left out',
+};
+
+interface ImportTemplatePackageModalProps {
+  isOpen: boolean;
+  userId: string;
+  shareCode?: string | null; // From a share link the app was opened with
+  onClose: () => void;
+  onImported: () => void;
+}
+
+export function ImportTemplatePackageModal({
+  isOpen,
+  userId,
+  shareCode,
+  onClose,
+  onImported,
+}: ImportTemplatePackageModalProps) {
+  const { success, error: showError } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [linkInput, setLinkInput] = useState('');
+  const [pkg, setPkg] = useState<TemplatePackage | null>(null);
+  const [resolutions, setResolutions] = useState<ExerciseResolution[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const loadPackage = async (read: () => Promise<TemplatePackage>) => {
+    setIsLoading(true);
+    try {
+      const loaded = await read();
+      setResolutions(await templatePackageService.resolveExercises(loaded));
+      setPkg(loaded);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to read template package');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen && shareCode) {
+      loadPackage(() => templatePackageService.readShareLink(shareCode));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, shareCode]);
+
+  const handleClose = () => {
+    setPkg(null);
+    setResolutions([]);
+    setLinkInput('');
+    onClose();
+  };
+
+  const handleImport = async () => {
+    if (!pkg) {
+      return;
+    }
+    setIsImporting(true);
+    try {
+      const result = await templatePackageService.importPackage(pkg, userId);
+      const count = result.templateIds.length;
+      success(
+        `Imported ${count} template${count === 1 ? '' : 's'}${result.programId ? ' and a program' : ''}` +
+        (result.unresolved.length > 0 ? ` (${result.unresolved.length} unknown exercise${result.unresolved.length === 1 ? '' : 's'} left out)` : '')
+      );
+      onImported();
+      handleClose();
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to import template package');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const unknownCount = resolutions.filter(resolution => resolution.status === 'unknown').length;
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Import Templates" size="md">
+      {!pkg ? (
+        <div className="space-y-4">
+          <div>
+            <label className="block text-xs font-bold text-slate-500 dark:text-gray-400 mb-1">Share link</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={linkInput}
+                onChange={(e) => setLinkInput(e.target.value)}
+                placeholder="Paste a template link"
+                className="flex-1 min-w-0 rounded-lg bg-background-light dark:bg-background-dark border border-gray-100 dark:border-border-dark text-slate-900 dark:text-white focus:border-primary focus:ring-primary h-10 px-3 text-sm"
+              />
+              <Button
+                size="sm"
+                onClick={() => loadPackage(() => templatePackageService.readShareLink(linkInput))}
+                disabled={!linkInput.trim() || isLoading}
+              >
+                <Link2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+          <div className="flex items-center gap-3 text-xs text-slate-400">
+            <div className="h-px flex-1 bg-gray-100 dark:bg-border-dark" />
+            or
+            <div className="h-px flex-1 bg-gray-100 dark:bg-border-dark" />
+          </div>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} isLoading={isLoading} className="w-full">
+            <span className="flex items-center justify-center gap-2">
+              <FileUp className="w-4 h-4" />
+              Choose package file
+            </span>
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (fileInputRef.current) {
+                fileInputRef.current.value = '';
+              }
+              if (file) {
+                loadPackage(() => templatePackageService.readFile(file));
+              }
+            }}
+          />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <h3 className="font-bold text-slate-900 dark:text-white">{pkg.name}</h3>
+            <p className="text-xs text-slate-500 dark:text-gray-400">
+              {pkg.program
+                ? `${pkg.program.durationWeeks}-week program • ${pkg.program.days.length} days/week`
+                : `${pkg.templates.length} template${pkg.templates.length === 1 ? '' : 's'}`}
+            </p>
+          </div>
+
+          <ul className="space-y-1">
+            {pkg.templates.map((template) => (
+              <li key={template.key} className="flex justify-between text-sm text-slate-700 dark:text-slate-300">
+                <span className="truncate">{template.name}</span>
+                <span className="text-xs text-slate-400 shrink-0">{template.exercises.length} exercises</span>
+              </li>
+            ))}
+          </ul>
+
+          <div>
+            <p className="text-xs font-bold text-slate-500 dark:text-gray-400 mb-2">Exercises</p>
+            <ul className="space-y-1.5 max-h-56 overflow-y-auto">
+              {resolutions.map((resolution) => (
+                <li key={resolution.exerciseId} className="flex items-center gap-2 text-sm">
+                  {resolution.status === 'unknown' ? (
+                    <AlertTriangle className="w-4 h-4 text-error shrink-0" />
+                  ) : resolution.status === 'custom' ? (
+                    <PlusCircle className="w-4 h-4 text-primary shrink-0" />
+                  ) : (
+                    <CheckCircle2 className="w-4 h-4 text-success shrink-0" />
+                  )}
+                  <span className="flex-1 truncate text-slate-900 dark:text-white">{resolution.exerciseName}</span>
+                  <span
+                    className={cn(
+                      'text-[10px] font-bold shrink-0',
+                      resolution.status === 'unknown' ? 'text-error' : 'text-slate-400'
+                    )}
+                  >
+                    {STATUS_LABELS[resolution.status]}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {unknownCount > 0 && (
+            <p className="text-xs text-error">
+              {unknownCount} exercise{unknownCount === 1 ? ' is' : 's are'} not in your library and will be left out of the imported templates.
+            </p>
+          )}
+
+          <div className="flex gap-3">
+            <Button variant="secondary" onClick={() => setPkg(null)} disabled={isImporting} className="flex-1">
+              Back
+            </Button>
+            <Button onClick={handleImport} isLoading={isImporting} className="flex-1">
+              Import
+            </Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
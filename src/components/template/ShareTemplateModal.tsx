@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { Download, Link2 } from 'lucide-react';
+import { Modal } from '@/components/common/Modal';
+import { Button } from '@/components/common/Button';
+import { templatePackageService } from '@/services/templatePackageService';
+import { WorkoutTemplate } from '@/types/workout';
+import { useToast } from '@/hooks/useToast';
+
+interface ShareTemplateModalProps {
+  template: WorkoutTemplate | null;
+  onClose: () => void;
+}
+
+/**
+ * Share a template as a link or a package file. Custom exercises it uses
+ * travel with it.
+ */
+export function ShareTemplateModal({ template, onClose }: ShareTemplateModalProps) {
+  const { success, error: showError } = useToast();
+  const [pending, setPending] = useState<'link' | 'file' | null>(null);
+
+  const handleShareLink = async () => {
+    if (!template) {
+      return;
+    }
+    setPending('link');
+    try {
+      const pkg = await templatePackageService.exportTemplates([template.id]);
+      if (await templatePackageService.sharePackage(pkg) === 'copied') {
+        success('Share link copied to clipboard');
+      }
+      onClose();
+    } catch (error) {
+      if (!(error instanceof Error && error.name === 'AbortError')) {
+        showError(error instanceof Error ? error.message : 'Failed to create share link');
+      }
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!template) {
+      return;
+    }
+    setPending('file');
+    try {
+      templatePackageService.downloadPackage(await templatePackageService.exportTemplates([template.id]));
+      onClose();
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to export template');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <Modal isOpen={template !== null} onClose={onClose} title="Share Template" size="sm">
+      <div className="space-y-4">
+        <p className="text-sm text-slate-500 dark:text-gray-400">
+          Anyone with the app can import <span className="font-bold text-slate-900 dark:text-white">{template?.name}</span>.
+          Custom exercises it uses are included.
+        </p>
+        <div className="flex flex-col gap-2">
+          <Button onClick={handleShareLink} isLoading={pending === 'link'} disabled={pending !== null} className="w-full">
+            <span className="flex items-center justify-center gap-2">
+              <Link2 className="w-4 h-4" />
+              Share link
+            </span>
+          </Button>
+          <Button variant="outline" onClick={handleDownload} isLoading={pending === 'file'} disabled={pending !== null} className="w-full">
+            <span className="flex items-center justify-center gap-2">
+              <Download className="w-4 h-4" />
+              Download file
+            </span>
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
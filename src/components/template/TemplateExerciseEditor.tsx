@@ -0,0 +1,312 @@
+import { Trash2, Link2 } from 'lucide-react';
+import { ExerciseGroupType, SetType } from '@/types/exercise';
+import { TemplateExercise, TemplateSetPrescription } from '@/types/workout';
+import { cn } from '@/utils/cn';
+import { SET_TYPES, SET_TYPE_CONFIG } from '@/utils/setTypes';
+import { getSetPrescriptions, summarizeTemplateExercise } from '@/utils/templatePrescriptions';
+
+type LoadMode = 'weight' | 'rpe' | 'percent';
+
+const LOAD_MODES: Array<{ value: LoadMode; label: string }> = [
+  { value: 'weight', label: 'Weight' },
+  { value: 'rpe', label: 'RPE' },
+  { value: 'percent', label: '% TM' },
+];
+
+function getLoadMode(target: Pick<TemplateSetPrescription, 'weight' | 'rpe' | 'percentOneRepMax'>): LoadMode {
+  if (target.percentOneRepMax !== undefined) {
+    return 'percent';
+  }
+  if (target.rpe !== undefined && !target.weight) {
+    return 'rpe';
+  }
+  return 'weight';
+}
+
+const LOAD_FIELDS: Record<LoadMode, 'weight' | 'rpe' | 'percentOneRepMax'> = {
+  weight: 'weight',
+  rpe: 'rpe',
+  percent: 'percentOneRepMax',
+};
+
+function getLoadValue(target: Pick<TemplateSetPrescription, 'weight' | 'rpe' | 'percentOneRepMax'>, mode: LoadMode): number | '' {
+  return target[LOAD_FIELDS[mode]] ?? '';
+}
+
+/**
+ * Load fields when switching mode, clearing the others so only one target applies
+ */
+function toLoadTarget(mode: LoadMode, value: number | undefined): Pick<TemplateSetPrescription, 'weight' | 'rpe' | 'percentOneRepMax'> {
+  return {
+    weight: mode === 'weight' ? value : undefined,
+    rpe: mode === 'rpe' ? value : undefined,
+    percentOneRepMax: mode === 'percent' ? value : undefined,
+  };
+}
+
+const parseOptional = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+const inputClassName = 'w-full rounded-lg bg-background-light dark:bg-background-dark border border-gray-100 dark:border-border-dark text-slate-900 dark:text-white focus:border-primary focus:ring-primary h-10 px-3 text-sm';
+const labelClassName = 'block text-xs font-bold text-slate-500 dark:text-gray-400 mb-1';
+
+interface TemplateExerciseEditorProps {
+  exercise: TemplateExercise;
+  unit: 'kg' | 'lbs';
+  canGroupWithPrevious: boolean;
+  onChange: (updates: Partial<TemplateExercise>) => void;
+  onGroupWithPrevious: (groupType: ExerciseGroupType | null) => void;
+  onRemove: () => void;
+}
+
+export function TemplateExerciseEditor({
+  exercise,
+  unit,
+  canGroupWithPrevious,
+  onChange,
+  onGroupWithPrevious,
+  onRemove,
+}: TemplateExerciseEditorProps) {
+  const loadMode = getLoadMode(exercise);
+  const isCustomized = Boolean(exercise.setData && exercise.setData.length === exercise.sets);
+  const linkedToPrevious = Boolean(exercise.groupId && exercise.groupOrder && exercise.groupOrder > 0);
+
+  const handleSetsChange = (sets: number) => {
+    if (!isCustomized || !exercise.setData) {
+      onChange({ sets, setData: undefined });
+      return;
+    }
+    // Keep per-set prescriptions in step with the set count, repeating the last one
+    const last = exercise.setData[exercise.setData.length - 1];
+    const setData = Array.from({ length: sets }, (_, i) => exercise.setData?.[i] ?? { ...last });
+    onChange({ sets, setData });
+  };
+
+  const handleLoadModeChange = (mode: LoadMode) => {
+    onChange(toLoadTarget(mode, mode === 'rpe' ? 8 : mode === 'percent' ? 75 : exercise.weight));
+  };
+
+  const handleCustomizeToggle = () => {
+    onChange({
+      setData: isCustomized
+        ? undefined
+        : getSetPrescriptions(exercise).map(({ restTime: _restTime, ...prescription }) => prescription),
+    });
+  };
+
+  const handleSetChange = (index: number, updates: Partial<TemplateSetPrescription>) => {
+    onChange({
+      setData: (exercise.setData ?? []).map((set, i) => (i === index ? { ...set, ...updates } : set)),
+    });
+  };
+
+  return (
+    <div
+      className={cn(
+        'p-4 rounded-xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-border-dark space-y-3',
+        linkedToPrevious && 'border-l-4 border-l-primary'
+      )}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <h4 className="font-bold text-slate-900 dark:text-white">{exercise.exerciseName}</h4>
+          <p className="text-xs text-slate-500 dark:text-gray-400 mt-0.5">{summarizeTemplateExercise(exercise, unit)}</p>
+        </div>
+        <button
+          onClick={onRemove}
+          className="p-1 rounded-lg hover:bg-error/10 text-error transition-colors"
+          aria-label={`Remove ${exercise.exerciseName}`}
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      {(canGroupWithPrevious || linkedToPrevious) && (
+        <label className="flex items-center gap-2">
+          <Link2 className="w-4 h-4 text-slate-400" />
+          <select
+            value={linkedToPrevious ? exercise.groupType ?? 'superset' : ''}
+            onChange={(e) => onGroupWithPrevious((e.target.value || null) as ExerciseGroupType | null)}
+            className="flex-1 bg-transparent border-0 p-0 text-xs font-medium text-slate-600 dark:text-slate-300 focus:ring-0"
+          >
+            <option value="">Not grouped with previous</option>
+            <option value="superset">Superset with previous</option>
+            <option value="circuit">Circuit with previous</option>
+          </select>
+        </label>
+      )}
+
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label className={labelClassName}>Sets</label>
+          <input
+            type="number"
+            min="1"
+            max="20"
+            value={exercise.sets}
+            onChange={(e) => handleSetsChange(Math.min(20, parseInt(e.target.value) || 1))}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Reps</label>
+          <input
+            type="number"
+            min="1"
+            max="100"
+            value={exercise.reps}
+            onChange={(e) => onChange({ reps: parseInt(e.target.value) || 1 })}
+            disabled={isCustomized}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Up to</label>
+          <input
+            type="number"
+            min="1"
+            max="100"
+            value={exercise.repsMax ?? ''}
+            placeholder="—"
+            onChange={(e) => onChange({ repsMax: parseOptional(e.target.value) })}
+            disabled={isCustomized}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <span className={cn(labelClassName, 'mb-0')}>Target</span>
+          <div className="flex bg-slate-100 dark:bg-black/20 rounded-lg p-0.5">
+            {LOAD_MODES.map((mode) => (
+              <button
+                key={mode.value}
+                type="button"
+                onClick={() => handleLoadModeChange(mode.value)}
+                disabled={isCustomized}
+                className={cn(
+                  'px-2 py-0.5 text-[11px] font-bold rounded-md transition-colors',
+                  loadMode === mode.value
+                    ? 'bg-primary text-[#050505]'
+                    : 'text-slate-500 dark:text-slate-400'
+                )}
+              >
+                {mode.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <input
+            type="number"
+            min="0"
+            step={loadMode === 'rpe' ? '0.5' : 'any'}
+            value={getLoadValue(exercise, loadMode)}
+            placeholder={loadMode === 'weight' ? unit : loadMode === 'rpe' ? 'RPE' : '%'}
+            onChange={(e) => onChange({ [LOAD_FIELDS[loadMode]]: parseOptional(e.target.value) })}
+            disabled={isCustomized}
+            aria-label={`${LOAD_MODES.find((mode) => mode.value === loadMode)?.label} target`}
+            className={inputClassName}
+          />
+          {(loadMode === 'percent' || exercise.setData?.some((set) => set.percentOneRepMax !== undefined)) && (
+            <input
+              type="number"
+              min="0"
+              value={exercise.trainingMax ?? ''}
+              placeholder={`Training max (${unit})`}
+              onChange={(e) => onChange({ trainingMax: parseOptional(e.target.value) })}
+              aria-label="Training max"
+              className={inputClassName}
+            />
+          )}
+        </div>
+        {(loadMode === 'percent' || exercise.setData?.some((set) => set.percentOneRepMax !== undefined)) && !exercise.trainingMax && (
+          <p className="text-[10px] text-slate-400 mt-1">Without a training max, percentages use your best estimated 1RM</p>
+        )}
+      </div>
+
+      <button
+        type="button"
+        onClick={handleCustomizeToggle}
+        className="text-xs font-bold text-primary"
+      >
+        {isCustomized ? 'Use the same target for every set' : 'Customize each set'}
+      </button>
+
+      {isCustomized && exercise.setData && (
+        <div className="space-y-2">
+          {exercise.setData.map((set, index) => {
+            const setLoadMode = getLoadMode(set);
+            return (
+              <div key={index} className="grid grid-cols-[24px_1fr_52px_52px_1fr] gap-1.5 items-center">
+                <span className="text-xs font-bold text-slate-400 text-center">{index + 1}</span>
+                <select
+                  value={set.setType ?? 'working'}
+                  onChange={(e) => {
+                    const setType = e.target.value as SetType;
+                    handleSetChange(index, { setType: setType === 'working' ? undefined : setType });
+                  }}
+                  aria-label={`Set type for set ${index + 1}`}
+                  className={cn(inputClassName, 'px-1 text-xs')}
+                >
+                  {SET_TYPES.map((type) => (
+                    <option key={type} value={type}>{SET_TYPE_CONFIG[type].label}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min="1"
+                  value={set.reps ?? ''}
+                  onChange={(e) => handleSetChange(index, { reps: parseOptional(e.target.value) })}
+                  aria-label={`Reps for set ${index + 1}`}
+                  className={cn(inputClassName, 'px-1 text-center')}
+                />
+                <input
+                  type="number"
+                  min="1"
+                  value={set.repsMax ?? ''}
+                  placeholder="—"
+                  onChange={(e) => handleSetChange(index, { repsMax: parseOptional(e.target.value) })}
+                  aria-label={`Rep range top for set ${index + 1}`}
+                  className={cn(inputClassName, 'px-1 text-center')}
+                />
+                <div className="flex gap-1">
+                  <input
+                    type="number"
+                    min="0"
+                    value={getLoadValue(set, setLoadMode)}
+                    onChange={(e) => handleSetChange(index, { [LOAD_FIELDS[setLoadMode]]: parseOptional(e.target.value) })}
+                    aria-label={`Target for set ${index + 1}`}
+                    className={cn(inputClassName, 'px-1 text-center min-w-0')}
+                  />
+                  <select
+                    value={setLoadMode}
+                    onChange={(e) => handleSetChange(index, toLoadTarget(e.target.value as LoadMode, undefined))}
+                    aria-label={`Target type for set ${index + 1}`}
+                    className={cn(inputClassName, 'w-14 px-1 text-xs')}
+                  >
+                    {LOAD_MODES.map((mode) => (
+                      <option key={mode.value} value={mode.value}>{mode.value === 'weight' ? unit : mode.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <input
+        type="text"
+        value={exercise.notes ?? ''}
+        onChange={(e) => onChange({ notes: e.target.value || undefined })}
+        placeholder="Notes (cues, tempo, setup)"
+        maxLength={500}
+        className={inputClassName}
+      />
+    </div>
+  );
+}
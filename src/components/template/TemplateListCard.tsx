@@ -1,11 +1,12 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { ChevronRight, CheckCircle2, Dumbbell, Zap, Home, Activity } from 'lucide-react';
+import { ChevronRight, CheckCircle2, Dumbbell, Zap, Home, Activity, Share2 } from 'lucide-react';
 import { WorkoutTemplate, TemplateCategory } from '@/types/workout';
 
 interface TemplateListCardProps {
     template: WorkoutTemplate;
     onClick: () => void;
+    onShare?: () => void;
 }
 
 const categoryIcons: Record<TemplateCategory, typeof Dumbbell> = {
@@ -16,7 +17,7 @@ const categoryIcons: Record<TemplateCategory, typeof Dumbbell> = {
     flexibility: Activity,
 };
 
-export function TemplateListCard({ template, onClick }: TemplateListCardProps) {
+export function TemplateListCard({ template, onClick, onShare }: TemplateListCardProps) {
     const [imageError, setImageError] = useState(false);
     const Icon = categoryIcons[template.category] || Dumbbell;
     const difficultyLabel = template.difficulty
@@ -75,6 +76,20 @@ export function TemplateListCard({ template, onClick }: TemplateListCardProps) {
                 </div>
             </div>
 
+            {onShare && (
+                <button
+                    type="button"
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onShare();
+                    }}
+                    className="flex items-center justify-center size-8 rounded-full text-slate-400 dark:text-white/40 hover:bg-slate-100 dark:hover:bg-white/5 transition-colors"
+                    aria-label={`Share ${template.name}`}
+                >
+                    <Share2 className="w-4 h-4" />
+                </button>
+            )}
+
             {/* Arrow */}
             <div className="flex items-center justify-center size-8 rounded-full bg-slate-100 dark:bg-white/5 group-hover:bg-primary group-hover:text-background-dark transition-colors">
                 <ChevronRight className="w-5 h-5 text-slate-400 dark:text-white/40 group-hover:text-background-dark" />
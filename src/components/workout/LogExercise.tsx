@@ -11,13 +11,16 @@ import { CardioRepsSetCard } from '@/components/exercise/CardioRepsSetCard';
 import { HIITSetCard } from '@/components/exercise/HIITSetCard';
 import { YogaSetCard } from '@/components/exercise/YogaSetCard';
 import { CompletedSetItem } from '@/components/exercise/CompletedSetItem';
+import { WarmupRampControl } from '@/components/exercise/WarmupRampControl';
+import { ProgressionRuleControl } from '@/components/exercise/ProgressionRuleControl';
+import { SubstituteExerciseModal } from '@/components/exercise/SubstituteExerciseModal';
 import { SetCompletionCelebration } from '@/components/exercise/SetCompletionCelebration';
 import { SupersetNavigationCards } from '@/components/exercise/SupersetNavigationCards';
 import { GroupRestTimer } from '@/components/exercise/GroupRestTimer';
 import { PreviousWorkoutTable } from '@/components/exercise/PreviousWorkoutTable';
 import { WorkoutTimerDisplay } from '@/components/exercise/WorkoutTimerDisplay';
 import { AIInsightPill } from '@/components/exercise/AIInsightPill';
-import { Exercise, WorkoutExercise, WorkoutSet, ExerciseCategory } from '@/types/exercise';
+import { Exercise, WorkoutExercise, WorkoutSet, ExerciseCategory, ExerciseSubstitution, SubstitutionReason } from '@/types/exercise';
 import { MuscleGroup } from '@/types/muscle';
 import { MuscleGroupCategory } from '@/utils/muscleGroupCategories';
 import { getMuscleMapping } from '@/services/muscleMapping';
@@ -40,7 +43,35 @@ import { Modal } from '@/components/common/Modal';
 import { detectHIIT } from '@/utils/exerciseHelpers';
 import { isDistanceBasedCardio } from '@/utils/cardioExerciseHelpers';
 import { isUnilateralExercise } from '@/utils/unilateralExerciseDetector';
-
+import { progressionService } from '@/services/progressionService';
+import { ProgressionRuleType, ProgressionTarget } from '@/utils/progressionEngine';
+import { snapToAvailableLoad } from '@/utils/plateCalculator';
+import { isWarmupSet } from '@/utils/setTypes';
+import { formatPrescription } from '@/utils/templatePrescriptions';
+import { carryOverSets } from '@/utils/exerciseSubstitution';
+import {
+  WarmupScheme,
+  generateWarmupSets,
+  getDefaultWarmupScheme,
+  insertWarmupSets,
+  resolveWarmupScheme,
+} from '@/utils/warmupGenerator';
+
+
+/**
+ * Prescription a set was started with from a template, e.g. "8–12 @ RPE 8"
+ */
+function getSetTargetLabel(set: WorkoutSet): string | undefined {
+  if (set.targetRepsMax === undefined && set.targetRpe === undefined && set.targetPercent === undefined) {
+    return undefined;
+  }
+  return formatPrescription({
+    reps: set.targetRepsMin ?? set.reps,
+    repsMax: set.targetRepsMax,
+    rpe: set.targetRpe,
+    percentOneRepMax: set.targetPercent,
+  });
+}
 
 interface LogExerciseProps {
   isOpen: boolean;
@@ -73,7 +104,7 @@ export function LogExercise({
   const { currentWorkout, addExercise, updateExercise, startWorkout } = useWorkoutStore();
   const { profile } = useUserStore();
   const { success, error: showError } = useToast();
-  const { settings } = useSettingsStore();
+  const { settings, setExerciseWarmupScheme, setExerciseProgressionRule } = useSettingsStore();
 
   const [selectedExercise, setSelectedExercise] = useState<Exercise | null>(null);
   const [sets, setSets] = useState<WorkoutSet[]>([]);
@@ -90,6 +121,9 @@ export function LogExercise({
   const [setToCancelNumber, setSetToCancelNumber] = useState<number | null>(null);
   const [showMinimumSetWarning, setShowMinimumSetWarning] = useState(false);
   const [showAddSetBlockedWarning, setShowAddSetBlockedWarning] = useState(false);
+  const [progressionTarget, setProgressionTarget] = useState<ProgressionTarget | null>(null);
+  const [showSubstituteModal, setShowSubstituteModal] = useState(false);
+  const [substitution, setSubstitution] = useState<ExerciseSubstitution | null>(null);
 
   // Timeout refs for cleanup
   const addSetWarningTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -162,6 +196,8 @@ export function LogExercise({
       initializedExerciseIdRef.current = null;
       autoSavedExerciseIdRef.current = null;
       lastSyncedSetsRef.current = '';
+      setSubstitution(null);
+      setShowSubstituteModal(false);
       // Clear any pending timeout for set completion animation
       if (justCompletedSetTimeoutRef.current) {
         clearTimeout(justCompletedSetTimeoutRef.current);
@@ -496,6 +532,70 @@ export function LogExercise({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedExercise?.id, exerciseId, isOpen, profile?.preferredUnit, profile?.weight]);
 
+  // Prefill the first set of a newly added exercise with the progression target
+  const progressionRule = selectedExercise ? settings.progressionRules?.[selectedExercise.id] : undefined;
+  useEffect(() => {
+    setProgressionTarget(null);
+
+    if (!isOpen || !selectedExercise || exerciseId || !profile?.id || !settings.progressionEnabled) {
+      return;
+    }
+    if (selectedExercise.trackingType !== 'weight_reps') {
+      return;
+    }
+
+    let cancelled = false;
+    const exerciseForTarget = selectedExercise;
+    progressionService
+      .getNextTarget(profile.id, exerciseForTarget, profile.preferredUnit || 'kg', progressionRule, profile.equipmentInventory)
+      .then((target) => {
+        if (cancelled || !target || initializedExerciseIdRef.current !== exerciseForTarget.id) {
+          return;
+        }
+        setProgressionTarget(target);
+
+        const initialSet = initialStateRef.current.sets[0];
+        setSets((prev) => {
+          const firstSet = prev[0];
+          // Only prefill while the first set is still the untouched default
+          const isUntouched = prev.length === 1 &&
+            !!firstSet &&
+            !!initialSet &&
+            !firstSet.completed &&
+            firstSet.weight === initialSet.weight &&
+            firstSet.reps === initialSet.reps;
+          if (!isUntouched) {
+            return prev;
+          }
+
+          const prefilled: WorkoutSet = {
+            ...firstSet,
+            weight: target.weight,
+            reps: target.reps,
+            unit: target.unit,
+            rpe: target.rpe ?? firstSet.rpe,
+          };
+
+          // Ramp up to the target with warm-ups unless turned off for this exercise
+          const scheme = settings.autoWarmupSets
+            ? resolveWarmupScheme(exerciseForTarget, settings.warmupSchemes)
+            : null;
+          const prefilledSets = scheme
+            ? insertWarmupSets([prefilled], generateWarmupSets(
+                target.weight, target.unit, exerciseForTarget.equipment, scheme, profile.equipmentInventory
+              ))
+            : [prefilled];
+          initialStateRef.current = { ...initialStateRef.current, sets: prefilledSets };
+          return prefilledSets;
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedExercise?.id, exerciseId, isOpen, profile?.id, profile?.preferredUnit, settings.progressionEnabled, progressionRule]);
+
   // Use refs to track state for saving - avoids infinite loops from array dependencies
   const stateSnapshotRef = useRef({
     selectedExerciseId: null as string | null,
@@ -695,6 +795,7 @@ export function LogExercise({
 
   const handleSelectExercise = (exercise: Exercise) => {
     setSelectedExercise(exercise);
+    setSubstitution(null);
     setValidationErrors({});
     onStartWorkoutTimer?.(); // Notify parent to start workout timer if not already running
   };
@@ -735,6 +836,116 @@ export function LogExercise({
     return null;
   }, [selectedExercise, sets, restTimerVisible, settings.autoStartRestTimer]);
 
+  // Warm-ups only make sense before the first working set is logged
+  const canRampUp = useMemo(
+    () => selectedExercise?.trackingType === 'weight_reps' &&
+      selectedExercise.category !== 'cardio' &&
+      !sets.some((set) => set.completed && !isWarmupSet(set)),
+    [selectedExercise, sets]
+  );
+
+  const firstWorkingWeight = sets.find((set) => !set.completed && !isWarmupSet(set))?.weight ?? 0;
+
+  const handleGenerateWarmups = () => {
+    if (!selectedExercise) {return;}
+    const scheme = resolveWarmupScheme(selectedExercise, settings.warmupSchemes);
+    const firstWorkingSet = sets.find((set) => !set.completed && !isWarmupSet(set));
+    if (!scheme || !firstWorkingSet?.weight) {return;}
+
+    const unit = (firstWorkingSet.unit ?? profile?.preferredUnit ?? 'kg') as 'kg' | 'lbs';
+    const warmups = generateWarmupSets(
+      firstWorkingSet.weight, unit, selectedExercise.equipment, scheme, profile?.equipmentInventory
+    );
+    setSets((prevSets) => insertWarmupSets(prevSets, warmups));
+  };
+
+  const handleProgressionRuleChange = (rule: ProgressionRuleType | null) => {
+    if (!selectedExercise) {return;}
+    setExerciseProgressionRule(selectedExercise.id, rule);
+  };
+
+  const handleWarmupPreferenceChange = (preference: WarmupScheme | 'off' | null) => {
+    if (!selectedExercise) {return;}
+    setExerciseWarmupScheme(selectedExercise.id, preference);
+    if (preference === 'off') {
+      // Drop the pending ramp along with the preference
+      setSets((prevSets) => insertWarmupSets(prevSets, []));
+    }
+  };
+
+  /**
+   * Replace the exercise with a substitute, moving the sets still to do. Sets
+   * already logged stay with the original, which keeps its place in the
+   * workout, and the substitute carries on as a new exercise.
+   */
+  const handleSwapExercise = (substitute: Exercise, reason: SubstitutionReason) => {
+    if (!selectedExercise) {return;}
+    setShowSubstituteModal(false);
+
+    const completedSets = sets.filter((set) => set.completed);
+    const carriedSets = carryOverSets(sets, selectedExercise, substitute);
+    const muscleMapping = getMuscleMapping(substitute.name);
+    const musclesWorked: MuscleGroup[] = muscleMapping
+      ? [...muscleMapping.primary, ...muscleMapping.secondary]
+      : [...(substitute.primaryMuscles || []), ...(substitute.secondaryMuscles || [])];
+    const workoutExerciseId = exerciseId ?? autoSavedExerciseIdRef.current;
+    const existing = workoutExerciseId
+      ? (useWorkoutStore.getState().currentWorkout?.exercises ?? []).find((ex) => ex.id === workoutExerciseId)
+      : undefined;
+
+    if (completedSets.length > 0 && existing) {
+      const newExerciseId = `exercise-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      updateExercise(existing.id, {
+        sets: completedSets,
+        totalVolume: calculateVolume(completedSets, selectedExercise.trackingType),
+      });
+      addExercise({
+        id: newExerciseId,
+        exerciseId: substitute.id,
+        exerciseName: substitute.name,
+        sets: carriedSets,
+        totalVolume: 0,
+        musclesWorked,
+        timestamp: new Date(),
+        substitutedFor: { exerciseId: selectedExercise.id, exerciseName: selectedExercise.name, reason },
+      });
+      success(`Swapped to ${substitute.name}`);
+
+      if (exerciseId) {
+        clearLogExerciseState();
+        setHasUnsavedChanges(false);
+        onNavigateToExercise?.(newExerciseId);
+        return;
+      }
+      autoSavedExerciseIdRef.current = newExerciseId;
+      setSubstitution({ exerciseId: selectedExercise.id, exerciseName: selectedExercise.name, reason });
+    } else {
+      // Nothing logged yet, so the substitute takes the original's place, recording what was planned
+      const substitutedFor = substitution ?? { exerciseId: selectedExercise.id, exerciseName: selectedExercise.name, reason };
+      if (existing) {
+        updateExercise(existing.id, {
+          exerciseId: substitute.id,
+          exerciseName: substitute.name,
+          sets: carriedSets,
+          totalVolume: 0,
+          musclesWorked,
+          trainingMax: undefined,
+          substitutedFor,
+        });
+      }
+      setSubstitution(substitutedFor);
+      success(`Swapped to ${substitute.name}`);
+    }
+
+    // Keep the set initialisation for new exercises from replacing the carried sets
+    initializedExerciseIdRef.current = substitute.id;
+    initialStateRef.current = { ...initialStateRef.current, selectedExerciseId: substitute.id, sets: carriedSets };
+    setSelectedExercise(substitute);
+    setSets(carriedSets);
+    setValidationErrors({});
+    setHasUnsavedChanges(true);
+  };
+
   const handleAddSet = () => {
     if (!selectedExercise) {return;}
 
@@ -776,13 +987,15 @@ export function LogExercise({
       let newSet: WorkoutSet;
       switch (trackingType) {
         case 'weight_reps': {
-          const previousSet = lastCompletedSet ?? lastSet;
+          // Progress from the last working set rather than a warm-up
+          const lastWorkingSet = [...prevSets].reverse().find((s) => s.completed && !isWarmupSet(s));
+          const previousSet = lastWorkingSet ?? lastCompletedSet ?? lastSet;
           const unit = (previousSet?.unit ?? (profile?.preferredUnit || 'kg')) as 'kg' | 'lbs';
           const { weight, reps } = calculateNextSetByVolume(previousSet, unit);
           newSet = {
             setNumber: newSetNumber,
             reps,
-            weight,
+            weight: snapToAvailableLoad(weight, unit, selectedExercise.equipment, profile?.equipmentInventory),
             unit,
             rpe: previousSet?.rpe ?? 7.5,
             completed: false,
@@ -1073,6 +1286,7 @@ export function LogExercise({
         musclesWorked,
         timestamp: workoutDate,
         notes: notes.trim() ? sanitizeNotes(notes.trim()) : undefined,
+        ...(substitution && { substitutedFor: substitution }),
       };
 
       // Use the workout that was already ensured to exist above
@@ -1255,6 +1469,7 @@ export function LogExercise({
         musclesWorked,
         timestamp: workoutDate,
         notes: notes.trim() ? sanitizeNotes(notes.trim()) : undefined,
+        ...(substitution && { substitutedFor: substitution }),
       };
 
       if (shouldUpdate) {
@@ -1267,7 +1482,7 @@ export function LogExercise({
     } catch (error) {
       logger.error('Error auto-saving exercise sets:', error);
     }
-  }, [selectedExercise, sets, exerciseId, workoutDate, notes, currentWorkout, profile, startWorkout, updateExercise, addExercise]);
+  }, [selectedExercise, sets, exerciseId, workoutDate, notes, substitution, currentWorkout, profile, startWorkout, updateExercise, addExercise]);
 
   // Create debounced version of auto-save to prevent race conditions during rapid user input
   // Use useRef to maintain stable reference across renders
@@ -1855,10 +2070,27 @@ export function LogExercise({
           </div>
         </div>
         {selectedExercise && (
-          <div className="px-4 pb-2 min-w-0">
-            <h1 className="text-slate-900 dark:text-white tracking-tight text-[24px] font-bold leading-tight truncate">
-              {selectedExercise.name}
-            </h1>
+          <div className="px-4 pb-2 min-w-0 flex items-center gap-2">
+            <div className="min-w-0 flex-1">
+              <h1 className="text-slate-900 dark:text-white tracking-tight text-[24px] font-bold leading-tight truncate">
+                {selectedExercise.name}
+              </h1>
+              {substitution && (
+                <p className="text-xs text-slate-500 dark:text-gray-400 truncate">In place of {substitution.exerciseName}</p>
+              )}
+            </div>
+            {profile && (
+              <button
+                type="button"
+                onClick={() => setShowSubstituteModal(true)}
+                disabled={isSaving}
+                className="shrink-0 flex items-center gap-1 px-3 py-1.5 rounded-full bg-primary/10 text-primary text-xs font-bold hover:bg-primary/20 transition-colors disabled:opacity-50"
+                aria-label={`Swap ${selectedExercise.name} for another exercise`}
+              >
+                <span className="material-symbols-outlined text-base">swap_horiz</span>
+                Swap
+              </button>
+            )}
           </div>
         )}
         {/* Superset Navigation Cards */}
@@ -1922,13 +2154,40 @@ export function LogExercise({
                   return null; // Don't show weight tip for cardio/HIIT/yoga
                 }
 
+                if (!progressionTarget) {
+                  return null;
+                }
+
                 return (
                   <div className="flex flex-wrap">
-                    <AIInsightPill insight="Try increasing weight by 2.5kg today" />
+                    <AIInsightPill insight={progressionTarget.reason} />
                   </div>
                 );
               })()}
 
+              {/* Progression rule behind the prefilled target */}
+              {selectedExercise && !exerciseId && settings.progressionEnabled && selectedExercise.trackingType === 'weight_reps' && (
+                <ProgressionRuleControl
+                  preference={progressionRule}
+                  autoRule={progressionRule ? null : progressionTarget?.rule ?? null}
+                  onPreferenceChange={handleProgressionRuleChange}
+                  disabled={isSaving || isLoadingExercise}
+                />
+              )}
+
+              {/* Warm-up ramp for the first working set */}
+              {selectedExercise && canRampUp && (
+                <WarmupRampControl
+                  preference={settings.warmupSchemes[selectedExercise.id]}
+                  defaultScheme={getDefaultWarmupScheme(selectedExercise)}
+                  hasPendingWarmups={sets.some((set) => !set.completed && isWarmupSet(set))}
+                  canGenerate={firstWorkingWeight > 0}
+                  onPreferenceChange={handleWarmupPreferenceChange}
+                  onGenerate={handleGenerateWarmups}
+                  disabled={isSaving || isLoadingExercise}
+                />
+              )}
+
               {/* Current Set Card - Conditionally render based on exercise category */}
               {selectedExercise && currentSet && (() => {
                 const isCardio = selectedExercise.category === 'cardio';
@@ -2016,7 +2275,7 @@ export function LogExercise({
                     setNumber={currentSetNumber}
                     set={currentSet}
                     unit={profile?.preferredUnit || 'kg'}
-                    targetReps={undefined}
+                    targetReps={getSetTargetLabel(currentSet)}
                     previousWeight={
                       completedSets.length > 0
                         ? completedSets[completedSets.length - 1]?.weight
@@ -2033,6 +2292,7 @@ export function LogExercise({
                     validationError={validationErrors[`set-${currentSet.setNumber}-reps`]}
                     disabled={isSaving || isLoadingExercise}
                     isUnilateral={isUnilateral}
+                    equipmentInventory={profile?.equipmentInventory}
                   />
                 );
               })()}
@@ -2129,11 +2389,11 @@ export function LogExercise({
                           exerciseTrackingType={selectedExercise?.trackingType}
                           exerciseName={selectedExercise?.name}
                           userBodyweight={
-                            profile?.weight
+                            currentWorkout?.bodyweight ?? (profile?.weight
                               ? profile.preferredUnit === 'lbs'
                                 ? convertWeight(profile.weight, 'lbs', 'kg')
                                 : profile.weight
-                              : undefined
+                              : undefined)
                           }
                           onEdit={() => {
                             // Uncomplete set to edit
@@ -2348,6 +2608,19 @@ export function LogExercise({
           </button>
         </div>
       </Modal>
+
+      {selectedExercise && profile && (
+        <SubstituteExerciseModal
+          isOpen={showSubstituteModal}
+          exercise={selectedExercise}
+          userId={profile.id}
+          equipment={profile.equipment ?? []}
+          excludeIds={(currentWorkout?.exercises ?? []).map((ex) => ex.exerciseId)}
+          hasLoggedSets={sets.some((set) => set.completed)}
+          onClose={() => setShowSubstituteModal(false)}
+          onSwap={handleSwapExercise}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,132 @@
+import { useMemo } from 'react';
+import { Workout } from '@/types/workout';
+import { useUserStore } from '@/store/userStore';
+import { analyzeCardioTrack, formatElapsedTime, toDistanceInUnit } from '@/utils/cardioTrack';
+import { getHeartRateSettings } from '@/utils/heartRateZones';
+import { calculatePace, formatPace } from '@/utils/calculations';
+import { RouteMap } from './RouteMap';
+
+interface CardioAnalysisCardProps {
+  workout: Workout;
+}
+
+export function CardioAnalysisCard({ workout }: CardioAnalysisCardProps) {
+  const { profile } = useUserStore();
+  const profileUnit = profile?.preferredUnit === 'lbs' ? 'miles' : 'km';
+  const { zones } = useMemo(() => getHeartRateSettings(profile), [profile]);
+
+  const sessions = useMemo(
+    () =>
+      workout.exercises.flatMap((exercise) =>
+        exercise.sets
+          .filter((set) => set.completed && (set.track?.length ?? 0) > 1)
+          .map((set) => {
+            const unit = set.distanceUnit ?? profileUnit;
+            return {
+              key: `${exercise.id}-${set.setNumber}`,
+              exerciseName: exercise.exerciseName,
+              unit,
+              track: set.track ?? [],
+              analysis: analyzeCardioTrack(set.track ?? [], unit, zones),
+            };
+          })
+      ),
+    [workout, profileUnit, zones]
+  );
+
+  if (sessions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="px-4 pb-6 space-y-4">
+      <div className="flex items-center gap-2">
+        <span className="material-symbols-outlined text-primary" style={{ fontSize: '24px' }}>
+          route
+        </span>
+        <h2 className="text-slate-900 dark:text-white text-xl font-bold">Route & Splits</h2>
+      </div>
+
+      {sessions.map(({ key, exerciseName, unit, track, analysis }) => {
+        const distance = toDistanceInUnit(analysis.distance, unit);
+        const unitLabel = unit === 'miles' ? 'mi' : 'km';
+
+        return (
+          <div
+            key={key}
+            className="bg-white dark:bg-surface-dark border border-gray-100 dark:border-border-dark rounded-xl p-4 space-y-4"
+          >
+            <p className="text-[#FF9933] text-xs uppercase font-bold tracking-wider">{exerciseName}</p>
+
+            {analysis.hasRoute && <RouteMap track={track} />}
+
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <p className="text-slate-500 dark:text-gray-400 text-xs uppercase tracking-wider">Distance</p>
+                <p className="font-bold text-slate-900 dark:text-white">{distance.toFixed(2)} {unitLabel}</p>
+              </div>
+              <div>
+                <p className="text-slate-500 dark:text-gray-400 text-xs uppercase tracking-wider">Time</p>
+                <p className="font-bold text-slate-900 dark:text-white">{formatElapsedTime(analysis.duration)}</p>
+              </div>
+              <div>
+                <p className="text-slate-500 dark:text-gray-400 text-xs uppercase tracking-wider">Avg Pace</p>
+                <p className="font-bold text-slate-900 dark:text-white">
+                  {formatPace(calculatePace(analysis.duration, distance, unit), unit)}
+                </p>
+              </div>
+              <div>
+                <p className="text-slate-500 dark:text-gray-400 text-xs uppercase tracking-wider">Elevation</p>
+                <p className="font-bold text-slate-900 dark:text-white">
+                  +{analysis.elevationGain} m / -{analysis.elevationLoss} m
+                </p>
+              </div>
+            </div>
+
+            {analysis.splits.length > 0 && (
+              <div>
+                <h3 className="text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">Splits</h3>
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-slate-500 dark:text-gray-400 text-left">
+                      <th className="font-medium pb-1">{unitLabel.toUpperCase()}</th>
+                      <th className="font-medium pb-1">Pace</th>
+                      <th className="font-medium pb-1 text-right">Elev</th>
+                      <th className="font-medium pb-1 text-right">HR</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {analysis.splits.map((split) => (
+                      <tr key={split.index} className="text-slate-900 dark:text-white">
+                        <td className="py-0.5">{split.distance < 1 ? split.distance.toFixed(2) : split.index}</td>
+                        <td className="py-0.5">{formatPace(split.pace, unit)}</td>
+                        <td className="py-0.5 text-right">+{split.elevationGain} m</td>
+                        <td className="py-0.5 text-right">{split.averageHeartRate ?? '-'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {analysis.bestEfforts.length > 0 && (
+              <div>
+                <h3 className="text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">Best Efforts</h3>
+                <div className="flex flex-wrap gap-2">
+                  {analysis.bestEfforts.map((effort) => (
+                    <span
+                      key={effort.label}
+                      className="px-2 py-1 rounded-lg text-xs bg-primary/10 text-slate-900 dark:text-white"
+                    >
+                      {effort.label} <span className="font-bold">{formatElapsedTime(effort.time)}</span>
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
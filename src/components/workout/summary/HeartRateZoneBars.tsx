@@ -0,0 +1,37 @@
+import { HeartRateZoneTime } from '@/types/cardio';
+import { formatElapsedTime } from '@/utils/cardioTrack';
+
+interface HeartRateZoneBarsProps {
+  zones: HeartRateZoneTime[];
+}
+
+// Zone 1 to 5, cool to hot
+const ZONE_COLORS = ['bg-slate-400', 'bg-sky-500', 'bg-green-500', 'bg-[#FF9933]', 'bg-red-500'];
+
+export function HeartRateZoneBars({ zones }: HeartRateZoneBarsProps) {
+  const total = zones.reduce((sum, zone) => sum + zone.seconds, 0);
+  if (total === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-1.5">
+      {zones.map((zone) => (
+        <div key={zone.zone} className="flex items-center gap-2 text-xs">
+          <span className="w-24 shrink-0 text-slate-500 dark:text-gray-400" title={`${zone.minBpm}-${zone.maxBpm} bpm`}>
+            Z{zone.zone} {zone.label}
+          </span>
+          <div className="flex-1 h-2 rounded-full bg-gray-100 dark:bg-white/10 overflow-hidden">
+            <div
+              className={`h-full rounded-full ${ZONE_COLORS[zone.zone - 1]}`}
+              style={{ width: `${(zone.seconds / total) * 100}%` }}
+            />
+          </div>
+          <span className="w-12 shrink-0 text-right text-slate-900 dark:text-white">
+            {formatElapsedTime(zone.seconds)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { PersonalRecord } from '@/types/workoutSummary';
 import { useUserStore } from '@/store/userStore';
+import { formatElapsedTime } from '@/utils/cardioTrack';
 
 interface PersonalRecordsCardProps {
   records: PersonalRecord[];
@@ -14,12 +15,15 @@ export function PersonalRecordsCard({ records }: PersonalRecordsCardProps) {
   }
 
   const formatValue = (record: PersonalRecord): string => {
-    if (record.type === '1rm' || record.type === 'volume' || record.type === 'weight') {
+    if (record.type === '1rm' || record.type === 'rep_max' || record.type === 'volume' || record.type === 'weight') {
       return `${record.value.toFixed(record.type === '1rm' ? 1 : 0)}${unit}`;
     }
     if (record.type === 'reps') {
       return `${Math.round(record.value)} reps`;
     }
+    if (record.type === 'best_effort') {
+      return formatElapsedTime(record.value);
+    }
     if (record.type === 'time') {
       const minutes = Math.floor(record.value / 60);
       const seconds = Math.round(record.value % 60);
@@ -34,6 +38,7 @@ export function PersonalRecordsCard({ records }: PersonalRecordsCardProps) {
   const getRecordIcon = (type: PersonalRecord['type']): string => {
     switch (type) {
       case '1rm':
+      case 'rep_max':
       case 'weight':
         return 'fitness_center';
       case 'volume':
@@ -42,6 +47,8 @@ export function PersonalRecordsCard({ records }: PersonalRecordsCardProps) {
         return 'repeat';
       case 'time':
         return 'timer';
+      case 'best_effort':
+        return 'directions_run';
       case 'rest':
         return 'timelapse';
       default:
@@ -49,10 +56,12 @@ export function PersonalRecordsCard({ records }: PersonalRecordsCardProps) {
     }
   };
 
-  const getRecordLabel = (type: PersonalRecord['type']): string => {
-    switch (type) {
+  const getRecordLabel = (record: PersonalRecord): string => {
+    switch (record.type) {
       case '1rm':
-        return 'New 1RM';
+        return 'New e1RM';
+      case 'rep_max':
+        return `${record.reps ?? 1}RM PR`;
       case 'volume':
         return 'Volume PR';
       case 'weight':
@@ -61,6 +70,8 @@ export function PersonalRecordsCard({ records }: PersonalRecordsCardProps) {
         return 'Reps PR';
       case 'time':
         return 'Best Time';
+      case 'best_effort':
+        return `Fastest ${record.label ?? 'effort'}`;
       case 'rest':
         return 'Best Rest';
       default:
@@ -105,7 +116,7 @@ export function PersonalRecordsCard({ records }: PersonalRecordsCardProps) {
                     : 'bg-white/10 text-white'
                 }`}
               >
-                {getRecordLabel(record.type)}
+                {getRecordLabel(record)}
               </span>
             </div>
             <div>
@@ -116,7 +127,7 @@ export function PersonalRecordsCard({ records }: PersonalRecordsCardProps) {
               )}
               {!record.exerciseName && (
                 <p className="text-[#FF9933] text-xs uppercase font-bold tracking-wider mb-1">
-                  {getRecordLabel(record.type)}
+                  {getRecordLabel(record)}
                 </p>
               )}
               <p className="text-white text-2xl font-bold">
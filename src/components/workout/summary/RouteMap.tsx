@@ -0,0 +1,42 @@
+import { CardioTrackPoint } from '@/types/exercise';
+import { projectRoute } from '@/utils/cardioTrack';
+
+interface RouteMapProps {
+  track: CardioTrackPoint[];
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Route outline drawn from the stored GPS points, without map tiles
+ */
+export function RouteMap({ track, width = 320, height = 180 }: RouteMapProps) {
+  const path = projectRoute(track, width, height);
+  if (!path) {
+    return null;
+  }
+
+  const [start, end] = [path.split(' L')[0], path.split(' L').pop() ?? ''].map((segment) =>
+    segment.replace(/^[ML]/, '').split(' ').map(Number)
+  );
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      className="w-full h-auto rounded-xl bg-gray-50 dark:bg-background-dark border border-gray-100 dark:border-border-dark"
+      role="img"
+      aria-label="Route map"
+    >
+      <path
+        d={path}
+        fill="none"
+        stroke="#FF9933"
+        strokeWidth={3}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+      <circle cx={start[0]} cy={start[1]} r={5} className="fill-green-500" />
+      <circle cx={end[0]} cy={end[1]} r={5} className="fill-red-500" />
+    </svg>
+  );
+}
@@ -0,0 +1,87 @@
+import { useMemo } from 'react';
+import { Workout } from '@/types/workout';
+import { HeartRateZoneTime } from '@/types/cardio';
+import { useUserStore } from '@/store/userStore';
+import { getHeartRateSettings } from '@/utils/heartRateZones';
+import { calculateSetTrimp, calculateSetZoneTime } from '@/utils/trainingLoad';
+import { HeartRateZoneBars } from './HeartRateZoneBars';
+
+interface TrainingLoadCardProps {
+  workout: Workout;
+}
+
+const METHOD_LABELS = {
+  age: 'age-estimated max HR',
+  max_hr: 'max HR',
+  lactate_threshold: 'lactate threshold',
+} as const;
+
+export function TrainingLoadCard({ workout }: TrainingLoadCardProps) {
+  const { profile } = useUserStore();
+  const settings = useMemo(() => getHeartRateSettings(profile), [profile]);
+
+  const sets = useMemo(
+    () =>
+      workout.exercises.flatMap((exercise) =>
+        exercise.sets
+          .map((set) => ({
+            key: `${exercise.id}-${set.setNumber}`,
+            label: exercise.sets.length > 1 ? `${exercise.exerciseName} · Set ${set.setNumber}` : exercise.exerciseName,
+            zones: calculateSetZoneTime(set, settings),
+            trimp: calculateSetTrimp(set, settings),
+          }))
+          .filter((set) => set.zones.length > 0)
+      ),
+    [workout, settings]
+  );
+
+  if (sets.length === 0) {
+    return null;
+  }
+
+  const sessionTrimp = Math.round(sets.reduce((sum, set) => sum + set.trimp, 0));
+  const sessionZones: HeartRateZoneTime[] = settings.zones.map((zone, index) => ({
+    ...zone,
+    seconds: sets.reduce((sum, set) => sum + set.zones[index].seconds, 0),
+  }));
+
+  return (
+    <div className="px-4 pb-6">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2">
+          <span className="material-symbols-outlined text-primary" style={{ fontSize: '24px' }}>
+            monitor_heart
+          </span>
+          <h2 className="text-slate-900 dark:text-white text-xl font-bold">Heart Rate Load</h2>
+        </div>
+        <div className="text-right">
+          <p className="text-2xl font-bold text-slate-900 dark:text-white leading-none">{sessionTrimp}</p>
+          <p className="text-[10px] uppercase tracking-wider text-slate-500 dark:text-gray-400">TRIMP</p>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-surface-dark border border-gray-100 dark:border-border-dark rounded-xl p-4 space-y-4">
+        <div>
+          <h3 className="text-sm font-semibold text-slate-700 dark:text-gray-300 mb-2">
+            Time in Zones
+            <span className="ml-2 text-xs font-normal text-slate-500 dark:text-gray-400">
+              from {METHOD_LABELS[settings.method]}
+            </span>
+          </h3>
+          <HeartRateZoneBars zones={sessionZones} />
+        </div>
+
+        {sets.length > 1 && (
+          <div className="space-y-1 border-t border-gray-100 dark:border-border-dark pt-3">
+            {sets.map((set) => (
+              <div key={set.key} className="flex items-center justify-between text-xs">
+                <span className="text-slate-500 dark:text-gray-400 truncate">{set.label}</span>
+                <span className="font-medium text-slate-900 dark:text-white shrink-0">{Math.round(set.trimp)} TRIMP</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
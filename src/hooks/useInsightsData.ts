@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useWorkoutStore } from '@/store/workoutStore';
 import { useUserStore } from '@/store/userStore';
 import { useSettingsStore } from '@/store/settingsStore';
@@ -10,6 +10,7 @@ import { aiRefreshService } from '@/services/aiRefreshService';
 import { aiCallManager } from '@/services/aiCallManager';
 import { swCommunication } from '@/services/swCommunication';
 import { backgroundAIFetcher } from '@/services/backgroundAIFetcher';
+import { recommendedWorkoutService } from '@/services/recommendedWorkoutService';
 import { logger } from '@/utils/logger';
 import {
   ProgressAnalysis,
@@ -20,6 +21,7 @@ import { Workout } from '@/types/workout';
 import { MuscleStatus } from '@/types/muscle';
 import { PersonalRecord, StrengthProgression } from '@/types/analytics';
 import { getDateRange, filterWorkoutsByDateRange, getComparisonPeriodWithFallback } from '@/utils/analyticsHelpers';
+import { getHeartRateSettings } from '@/utils/heartRateZones';
 
 export function useInsightsData() {
   const { workouts, loadWorkouts } = useWorkoutStore();
@@ -187,6 +189,8 @@ export function useInsightsData() {
     };
   }, []);
 
+  const heartRateSettings = useMemo(() => getHeartRateSettings(profile), [profile]);
+
   // Direct fetch fallback (when SW not available)
   const loadInsightsDirectly = useCallback(async (
     currentMonthWorkouts: Workout[],
@@ -254,14 +258,20 @@ export function useInsightsData() {
       const recommendationsPromise = aiRefreshService.refreshIfNeeded(
         'recommendations',
         fingerprint,
-        () => aiService.generateWorkoutRecommendations(
+        async () => aiService.generateWorkoutRecommendations(
           currentMonthWorkouts,
           muscleStatuses,
           readinessScore,
           metrics.symmetryScore,
           metrics.focusDistribution,
           profile?.experienceLevel || 'intermediate',
-          settings.baseRestInterval || 48
+          settings.baseRestInterval || 48,
+          await recommendedWorkoutService.getConstraints(
+            profile?.equipment ?? [],
+            muscleStatuses,
+            settings.availableWorkoutMinutes
+          ),
+          heartRateSettings
         ),
         profile?.id,
         1
@@ -294,7 +304,10 @@ export function useInsightsData() {
   }, [
     profile?.id, 
     profile?.experienceLevel, 
-    settings.baseRestInterval
+    profile?.equipment,
+    settings.baseRestInterval,
+    settings.availableWorkoutMinutes,
+    heartRateSettings
   ]);
 
   const loadInsights = useCallback(async () => {
@@ -7,7 +7,9 @@ import { useSettingsStore } from '@/store/settingsStore';
 import { calculateRecoveryStatus } from '@/services/recoveryCalculator';
 import { muscleRecoveryService } from '@/services/muscleRecoveryService';
 import { sleepRecoveryService } from '@/services/sleepRecoveryService';
+import { nutritionService } from '@/services/nutritionService';
 import { SleepLog } from '@/types/sleep';
+import { NutritionAdherence } from '@/types/nutrition';
 import { notificationService } from '@/services/notificationService';
 
 export function useMuscleRecovery() {
@@ -99,6 +101,16 @@ export function useMuscleRecovery() {
         console.error('Failed to fetch sleep logs:', error);
       }
 
+      // Fetch the last day of nutrition logs for recovery calculation
+      let recentNutrition: NutritionAdherence | undefined;
+      try {
+        if (profile?.id) {
+          recentNutrition = await nutritionService.getRecentAdherence(profile.id, nutritionService.getTargets(profile));
+        }
+      } catch (error) {
+        console.error('Failed to fetch nutrition logs:', error);
+      }
+
       // Deduplicate muscle groups - keep the most recent entry for each muscle
       const uniqueStatuses = savedStatuses.reduce((acc, status) => {
         const existing = acc.find(s => s.muscle === status.muscle);
@@ -155,6 +167,7 @@ export function useMuscleRecovery() {
           trainingFrequency: status.trainingFrequency,
           baseRestInterval,
           recentSleep: recentSleepLog,
+          recentNutrition,
         });
       });
 
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Object URLs for a set of blobs keyed by ID, revoked when the blobs change or on unmount
+ */
+export function useObjectUrls(items: Array<{ id: string; blob: Blob }>): Record<string, string> {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const created: Record<string, string> = {};
+    items.forEach((item) => {
+      created[item.id] = URL.createObjectURL(item.blob);
+    });
+    setUrls(created);
+
+    return () => {
+      Object.values(created).forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [items]);
+
+  return urls;
+}
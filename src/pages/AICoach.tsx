@@ -0,0 +1,216 @@
+import { FormEvent, useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Bot, Send, Trash2, Wrench } from 'lucide-react';
+import { useUserStore } from '@/store/userStore';
+import { aiCoachService } from '@/services/aiCoachService';
+import { CoachMessage } from '@/types/ai';
+import { CoachProposalCard } from '@/components/coach/CoachProposalCard';
+import { useToast } from '@/hooks/useToast';
+import { describeCoachToolCall } from '@/utils/coachHelpers';
+import { cn } from '@/utils/cn';
+import { logger } from '@/utils/logger';
+
+const SUGGESTED_QUESTIONS = [
+  'Why did my bench stall?',
+  'Am I recovered enough to train legs today?',
+  'Swap Thursday\'s session for something knee-friendly',
+];
+
+export function AICoach() {
+  const navigate = useNavigate();
+  const { profile } = useUserStore();
+  const { success, error: showError } = useToast();
+  const [messages, setMessages] = useState<CoachMessage[]>([]);
+  const [input, setInput] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [busyMessageId, setBusyMessageId] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const loadMessages = useCallback(async () => {
+    if (!profile?.id) {
+      return;
+    }
+    try {
+      setMessages(await aiCoachService.getConversation(profile.id));
+    } catch (error) {
+      logger.error('[AICoach] Failed to load conversation:', error);
+    }
+  }, [profile?.id]);
+
+  useEffect(() => {
+    loadMessages();
+  }, [loadMessages]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length, isSending]);
+
+  const sendMessage = async (text: string) => {
+    if (!profile?.id || !text.trim() || isSending) {
+      return;
+    }
+    setInput('');
+    setIsSending(true);
+    // Show the question right away; the saved copy replaces it on reload
+    setMessages(prev => [...prev, {
+      id: 'pending',
+      userId: profile.id,
+      role: 'user',
+      content: text.trim(),
+      createdAt: new Date(),
+    }]);
+    try {
+      await aiCoachService.sendMessage(profile.id, text);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'The coach couldn\'t answer right now');
+    } finally {
+      await loadMessages();
+      setIsSending(false);
+    }
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    sendMessage(input);
+  };
+
+  const handleProposal = async (messageId: string, apply: boolean) => {
+    setBusyMessageId(messageId);
+    try {
+      if (apply) {
+        await aiCoachService.applyProposal(messageId);
+        success('Planned workout updated');
+      } else {
+        await aiCoachService.dismissProposal(messageId);
+      }
+      await loadMessages();
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to update the plan');
+    } finally {
+      setBusyMessageId(null);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!profile?.id || !window.confirm('Clear the whole conversation?')) {
+      return;
+    }
+    await aiCoachService.clearConversation(profile.id);
+    setMessages([]);
+  };
+
+  return (
+    <div className="relative flex h-full min-h-screen w-full max-w-lg mx-auto flex-col overflow-hidden bg-background-light dark:bg-background-dark">
+      {/* Top App Bar */}
+      <div className="sticky top-0 z-50 flex items-center bg-background-light/95 dark:bg-background-dark/95 backdrop-blur-md p-4 pb-2 justify-between border-b border-gray-100 dark:border-surface-border/30">
+        <button
+          onClick={() => navigate(-1)}
+          className="text-slate-900 dark:text-white flex size-12 shrink-0 items-center justify-center rounded-full hover:bg-black/5 dark:hover:bg-white/10 transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <h2 className="text-slate-900 dark:text-white text-lg font-bold leading-tight tracking-[-0.015em] flex-1 text-center">
+          AI Coach
+        </h2>
+        <button
+          onClick={handleClear}
+          disabled={messages.length === 0 || isSending}
+          className="text-slate-500 dark:text-slate-400 flex size-12 shrink-0 items-center justify-center rounded-full hover:bg-black/5 dark:hover:bg-white/10 transition-colors disabled:opacity-40"
+          aria-label="Clear conversation"
+        >
+          <Trash2 className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 p-4 space-y-3 pb-40">
+        {messages.length === 0 && !isSending && (
+          <div className="flex flex-col items-center text-center gap-3 py-12">
+            <Bot className="w-10 h-10 text-primary" />
+            <p className="font-bold text-slate-900 dark:text-white">Ask about your training</p>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              The coach reads your workouts, recovery and plan. It can suggest changes to planned workouts, which you confirm before anything is saved.
+            </p>
+            <div className="flex flex-col gap-2 w-full pt-2">
+              {SUGGESTED_QUESTIONS.map((question) => (
+                <button
+                  key={question}
+                  type="button"
+                  onClick={() => sendMessage(question)}
+                  className="rounded-xl border border-gray-100 dark:border-surface-border bg-white dark:bg-surface-dark px-3 py-2.5 text-sm text-left text-slate-700 dark:text-slate-200 hover:border-primary/50 transition-colors"
+                >
+                  {question}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {messages.map((message) => {
+          if (message.role === 'tool') {
+            return (
+              <div key={message.id} className="flex items-center gap-1.5 px-1 text-xs text-slate-400 dark:text-slate-500">
+                <Wrench className="w-3 h-3" />
+                {message.toolCall ? describeCoachToolCall(message.toolCall) : 'Looked something up'}
+              </div>
+            );
+          }
+          const isUser = message.role === 'user';
+          return (
+            <div key={message.id} className={cn('flex', isUser ? 'justify-end' : 'justify-start')}>
+              <div
+                className={cn(
+                  'max-w-[85%] rounded-2xl px-4 py-2.5 text-sm whitespace-pre-wrap',
+                  isUser
+                    ? 'bg-primary text-black rounded-br-sm'
+                    : 'bg-white dark:bg-surface-dark border border-gray-100 dark:border-surface-border text-slate-900 dark:text-white rounded-bl-sm'
+                )}
+              >
+                {message.content}
+                {message.proposal && (
+                  <CoachProposalCard
+                    proposal={message.proposal}
+                    isBusy={busyMessageId === message.id}
+                    onApply={() => handleProposal(message.id, true)}
+                    onDismiss={() => handleProposal(message.id, false)}
+                  />
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        {isSending && (
+          <div className="flex items-center gap-2 px-1 text-sm text-slate-500 dark:text-slate-400">
+            <Bot className="w-4 h-4 text-primary animate-pulse" />
+            Thinking…
+          </div>
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <form
+        onSubmit={handleSubmit}
+        className="fixed bottom-20 left-0 right-0 max-w-lg mx-auto px-4 py-3 bg-background-light/95 dark:bg-background-dark/95 backdrop-blur-md border-t border-gray-100 dark:border-surface-border/30"
+      >
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Ask your coach…"
+            disabled={isSending}
+            className="flex-1 rounded-xl border border-gray-100 dark:border-surface-border bg-white dark:bg-surface-dark px-4 py-3 text-sm text-slate-900 dark:text-white focus:border-primary focus:ring-1 focus:ring-primary outline-none"
+          />
+          <button
+            type="submit"
+            disabled={isSending || !input.trim()}
+            className="flex size-12 shrink-0 items-center justify-center rounded-xl bg-primary hover:bg-[#E67E22] text-black transition-colors disabled:opacity-50"
+            aria-label="Send"
+          >
+            <Send className="w-5 h-5" />
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
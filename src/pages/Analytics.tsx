@@ -1,12 +1,18 @@
 import { useState, useMemo, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
+import { differenceInCalendarDays } from 'date-fns';
+import { ChevronRight, FileText } from 'lucide-react';
 import { useWorkoutStore } from '@/store/workoutStore';
 import { useUserStore } from '@/store/userStore';
+import { useSettingsStore } from '@/store/settingsStore';
 import { analyticsService } from '@/services/analyticsService';
 import { calculateStreak } from '@/utils/calculations';
-import { DateRange, hasEnoughWorkoutsForAverages, filterWorkoutsByDateRange, getComparisonPeriodWithFallback } from '@/utils/analyticsHelpers';
+import { DateRange, hasEnoughWorkoutsForAverages, filterWorkoutsByDateRange, getComparisonPeriodWithFallback, getDateRange } from '@/utils/analyticsHelpers';
 import { aiCallManager } from '@/services/aiCallManager';
 import { aiService } from '@/services/aiService';
+import { bodyMeasurementService } from '@/services/bodyMeasurementService';
+import { dataService } from '@/services/dataService';
 import { UnifiedDateSelector } from '@/components/analytics/UnifiedDateSelector';
 import { TotalVolumeCard } from '@/components/analytics/TotalVolumeCard';
 import { WorkoutStatsCards } from '@/components/analytics/WorkoutStatsCards';
@@ -14,6 +20,8 @@ import { AIInsightCard } from '@/components/analytics/AIInsightCard';
 import { VolumeTrendChart } from '@/components/analytics/VolumeTrendChart';
 import { CaloriesChart } from '@/components/analytics/CaloriesChart';
 import { SleepTrendChart } from '@/components/analytics/SleepTrendChart';
+import { BodyweightTrendChart } from '@/components/analytics/BodyweightTrendChart';
+import { TrainingLoadChart } from '@/components/analytics/TrainingLoadChart';
 import { RecoveryMetricsCard } from '@/components/analytics/RecoveryMetricsCard';
 import { ConsistencyHeatmap } from '@/components/analytics/ConsistencyHeatmap';
 import { MuscleFocusCard } from '@/components/analytics/MuscleFocusCard';
@@ -28,11 +36,16 @@ import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import { EmptyStateAIMessage } from '@/components/common/EmptyStateAIMessage';
 import { CustomDateRangePicker } from '@/components/analytics/CustomDateRangePicker';
 import { AnalyticsMetrics } from '@/types/analytics';
+import { BodyweightTrendPoint } from '@/types/measurement';
+import { logger } from '@/utils/logger';
+import { getHeartRateSettings } from '@/utils/heartRateZones';
+import { calculateWorkloadTrend } from '@/utils/trainingLoad';
 
 type View = 'progress' | 'muscle';
 type TimePeriod = 'Week' | 'Month' | 'Year';
 
 export function Analytics() {
+  const navigate = useNavigate();
   const [view, setView] = useState<View>('progress');
   const [dateRange, setDateRange] = useState<DateRange>('30d');
   const [timePeriod, setTimePeriod] = useState<TimePeriod>('Month');
@@ -42,6 +55,7 @@ export function Analytics() {
   const [muscleInsight, setMuscleInsight] = useState<string>('');
   const [isLoadingInsights, setIsLoadingInsights] = useState(false);
   const [metrics, setMetrics] = useState<AnalyticsMetrics | null>(null); // Use state for async metrics loading
+  const [bodyweightTrend, setBodyweightTrend] = useState<BodyweightTrendPoint[]>([]);
   const previousMetricsRef = useRef<{
     totalVolume: number;
     workoutCount: number;
@@ -54,6 +68,7 @@ export function Analytics() {
 
   const { workouts, loadWorkouts } = useWorkoutStore();
   const { profile } = useUserStore();
+  const { settings, setOneRepMaxFormula } = useSettingsStore();
 
   useEffect(() => {
     if (profile?.id) {
@@ -76,11 +91,33 @@ export function Analytics() {
   useEffect(() => {
     async function fetchMetrics() {
       if (!profile?.id) {return;}
-      const data = await analyticsService.getAllMetrics(filteredWorkouts, dateRange, profile.id);
+      const data = await analyticsService.getAllMetrics(filteredWorkouts, dateRange, profile.id, settings.oneRepMaxFormula);
       setMetrics(data);
     }
     fetchMetrics();
-  }, [filteredWorkouts, dateRange, profile?.id]);
+  }, [filteredWorkouts, dateRange, profile?.id, settings.oneRepMaxFormula]);
+
+  useEffect(() => {
+    if (!profile?.id) {return;}
+    const userId = profile.id;
+    const { start, end } = customDateRange ?? getDateRange(dateRange);
+
+    const loadTrend = () => {
+      bodyMeasurementService.getBodyweightTrend(userId, start, end)
+        .then(setBodyweightTrend)
+        .catch((error) => logger.error('[Analytics] Failed to load bodyweight trend:', error));
+    };
+
+    loadTrend();
+    return dataService.on('measurement', loadTrend);
+  }, [profile?.id, dateRange, customDateRange]);
+
+  // Chronic load needs the four weeks before the range, so this uses all workouts
+  const trainingLoad = useMemo(() => {
+    const { start, end } = customDateRange ?? getDateRange(dateRange);
+    const days = Math.min(365, Math.max(14, differenceInCalendarDays(end, start) + 1));
+    return calculateWorkloadTrend(workouts ?? [], getHeartRateSettings(profile), end, days);
+  }, [workouts, profile, dateRange, customDateRange]);
 
   const hasEnoughWorkouts = useMemo(() => {
     return hasEnoughWorkoutsForAverages(workouts ?? []);
@@ -323,6 +360,18 @@ export function Analytics() {
 
               <VolumeTrendChart data={metrics.volumeTrend} />
 
+              <button
+                onClick={() => navigate('/reports')}
+                className="w-full flex items-center gap-3 p-4 rounded-xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-surface-border text-left hover:border-primary transition-colors"
+              >
+                <FileText className="w-5 h-5 text-primary shrink-0" />
+                <div className="flex-1">
+                  <p className="text-sm font-bold text-slate-900 dark:text-white">Training Reports</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">Weekly and monthly summaries to share, print or save as PDF</p>
+                </div>
+                <ChevronRight className="w-5 h-5 text-slate-400" />
+              </button>
+
               {/* Sleep & Recovery Section */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                 {metrics.sleepMetrics && metrics.sleepMetrics.sleepTrend.length > 0 && (
@@ -333,6 +382,12 @@ export function Analytics() {
                 )}
               </div>
 
+              <TrainingLoadChart data={trainingLoad} />
+
+              {bodyweightTrend.length > 0 && (
+                <BodyweightTrendChart data={bodyweightTrend} unit={unit} />
+              )}
+
               {metrics.caloriesTrend && metrics.caloriesTrend.length > 0 && (
                 <CaloriesChart data={metrics.caloriesTrend} />
               )}
@@ -342,7 +397,11 @@ export function Analytics() {
                 <MuscleFocusCard workouts={filteredWorkouts} />
               </div>
 
-              <StrengthProgressionChart progressions={metrics.strengthProgression} />
+              <StrengthProgressionChart
+                progressions={metrics.strengthProgression}
+                formula={settings.oneRepMaxFormula}
+                onFormulaChange={setOneRepMaxFormula}
+              />
 
               <RecentRecordsList records={metrics.personalRecords} />
               </div>
@@ -1,25 +1,70 @@
 import { useState } from 'react';
-import { X, ChevronRight, Trash2, Plus, Save } from 'lucide-react';
+import { X, ChevronRight, Plus, Save } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useTemplateStore } from '@/store/templateStore';
 import { useUserStore } from '@/store/userStore';
-import { TemplateCategory, TemplateDifficulty } from '@/types/workout';
-import { Exercise } from '@/types/exercise';
+import { TemplateCategory, TemplateDifficulty, TemplateExercise } from '@/types/workout';
+import { Exercise, ExerciseGroupType } from '@/types/exercise';
 import { ExerciseSelectorDropdown } from '@/components/exercise/ExerciseSelectorDropdown';
+import { TemplateExerciseEditor } from '@/components/template/TemplateExerciseEditor';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import { useToast } from '@/hooks/useToast';
 import { cn } from '@/utils/cn';
 import { getMuscleMapping } from '@/services/muscleMapping';
 import { MuscleGroup } from '@/types/muscle';
+import { supersetService } from '@/services/supersetService';
+import { summarizeTemplateExercise } from '@/utils/templatePrescriptions';
+
+// Same limit as supersetService groups in a workout
+const MAX_GROUP_SIZE = 5;
+
+/**
+ * Renumber groups after a change: members of a group get consecutive
+ * groupOrder values, and a group left with one exercise is dissolved
+ */
+function normalizeGroups(exercises: TemplateExercise[]): TemplateExercise[] {
+  return exercises.map((exercise) => {
+    if (!exercise.groupId) {
+      return exercise;
+    }
+    const members = exercises.filter((ex) => ex.groupId === exercise.groupId);
+    if (members.length < 2) {
+      return { ...exercise, groupId: undefined, groupType: undefined, groupOrder: undefined };
+    }
+    return { ...exercise, groupType: members[0].groupType, groupOrder: members.indexOf(exercise) };
+  });
+}
+
+/**
+ * Join an exercise to the group of the one before it, or split it (and the
+ * exercises after it) off into their own group
+ */
+function groupWithPrevious(
+  exercises: TemplateExercise[],
+  index: number,
+  groupType: ExerciseGroupType | null
+): TemplateExercise[] {
+  const previous = exercises[index - 1];
+  const current = exercises[index];
+  if (!previous || !current) {
+    return exercises;
+  }
+
+  if (groupType) {
+    const groupId = previous.groupId ?? supersetService.generateGroupId();
+    const oldGroupId = current.groupId;
+    return normalizeGroups(exercises.map((exercise, i) => {
+      const inGroup = i === index - 1 || i === index || (oldGroupId !== undefined && exercise.groupId === oldGroupId && i > index);
+      const inPreviousGroup = previous.groupId !== undefined && exercise.groupId === previous.groupId;
+      return inGroup || inPreviousGroup ? { ...exercise, groupId, groupType } : exercise;
+    }));
+  }
 
-interface TemplateExercise {
-  exerciseId: string;
-  exerciseName: string;
-  sets: number;
-  reps: number;
-  weight?: number;
-  restTime?: number;
+  const splitId = supersetService.generateGroupId();
+  return normalizeGroups(exercises.map((exercise, i) =>
+    i >= index && current.groupId && exercise.groupId === current.groupId ? { ...exercise, groupId: splitId } : exercise
+  ));
 }
 
 const CATEGORIES: Array<{ value: TemplateCategory; label: string }> = [
@@ -72,7 +117,19 @@ export function CreateTemplate() {
   };
 
   const handleRemoveExercise = (index: number) => {
-    setExercises(exercises.filter((_, i) => i !== index));
+    setExercises(normalizeGroups(exercises.filter((_, i) => i !== index)));
+  };
+
+  const handleGroupWithPrevious = (index: number, groupType: ExerciseGroupType | null) => {
+    setExercises(groupWithPrevious(exercises, index, groupType));
+  };
+
+  const canGroupWithPrevious = (index: number): boolean => {
+    const previous = exercises[index - 1];
+    if (!previous) {
+      return false;
+    }
+    return !previous.groupId || exercises.filter((ex) => ex.groupId === previous.groupId).length < MAX_GROUP_SIZE;
   };
 
   const handleUpdateExercise = (index: number, updates: Partial<TemplateExercise>) => {
@@ -366,75 +423,15 @@ export function CreateTemplate() {
                 {exercises.length > 0 && (
                   <div className="space-y-3">
                     {exercises.map((exercise, index) => (
-                      <div
+                      <TemplateExerciseEditor
                         key={index}
-                        className="p-4 rounded-xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-border-dark"
-                      >
-                        <div className="flex items-start justify-between mb-3">
-                          <h4 className="font-bold text-slate-900 dark:text-white">
-                            {exercise.exerciseName}
-                          </h4>
-                          <button
-                            onClick={() => handleRemoveExercise(index)}
-                            className="p-1 rounded-lg hover:bg-error/10 text-error transition-colors"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </button>
-                        </div>
-
-                        <div className="grid grid-cols-3 gap-3">
-                          <div>
-                            <label className="block text-xs font-bold text-slate-500 dark:text-gray-400 mb-1">
-                              Sets
-                            </label>
-                            <input
-                              type="number"
-                              min="1"
-                              max="20"
-                              value={exercise.sets}
-                              onChange={(e) =>
-                                handleUpdateExercise(index, {
-                                  sets: parseInt(e.target.value) || 1,
-                                })
-                              }
-                              className="w-full rounded-lg bg-background-light dark:bg-background-dark border border-gray-100 dark:border-border-dark text-slate-900 dark:text-white focus:border-primary focus:ring-primary h-10 px-3 text-sm"
-                            />
-                          </div>
-                          <div>
-                            <label className="block text-xs font-bold text-slate-500 dark:text-gray-400 mb-1">
-                              Reps
-                            </label>
-                            <input
-                              type="number"
-                              min="1"
-                              max="100"
-                              value={exercise.reps}
-                              onChange={(e) =>
-                                handleUpdateExercise(index, {
-                                  reps: parseInt(e.target.value) || 1,
-                                })
-                              }
-                              className="w-full rounded-lg bg-background-light dark:bg-background-dark border border-gray-100 dark:border-border-dark text-slate-900 dark:text-white focus:border-primary focus:ring-primary h-10 px-3 text-sm"
-                            />
-                          </div>
-                          <div>
-                            <label className="block text-xs font-bold text-slate-500 dark:text-gray-400 mb-1">
-                              Weight (kg)
-                            </label>
-                            <input
-                              type="number"
-                              min="0"
-                              value={exercise.weight || 0}
-                              onChange={(e) =>
-                                handleUpdateExercise(index, {
-                                  weight: parseFloat(e.target.value) || 0,
-                                })
-                              }
-                              className="w-full rounded-lg bg-background-light dark:bg-background-dark border border-gray-100 dark:border-border-dark text-slate-900 dark:text-white focus:border-primary focus:ring-primary h-10 px-3 text-sm"
-                            />
-                          </div>
-                        </div>
-                      </div>
+                        exercise={exercise}
+                        unit="kg"
+                        canGroupWithPrevious={canGroupWithPrevious(index)}
+                        onChange={(updates) => handleUpdateExercise(index, updates)}
+                        onGroupWithPrevious={(groupType) => handleGroupWithPrevious(index, groupType)}
+                        onRemove={() => handleRemoveExercise(index)}
+                      />
                     ))}
                   </div>
                 )}
@@ -486,9 +483,14 @@ export function CreateTemplate() {
                             {exercise.exerciseName}
                           </p>
                           <p className="text-xs text-slate-500 dark:text-gray-400 mt-1">
-                            {exercise.sets} sets × {exercise.reps} reps
-                            {exercise.weight && exercise.weight > 0 && ` @ ${exercise.weight}kg`}
+                            {exercise.groupId && exercise.groupOrder && exercise.groupOrder > 0
+                              ? `${exercise.groupType === 'circuit' ? 'Circuit' : 'Superset'} with previous • `
+                              : ''}
+                            {summarizeTemplateExercise(exercise)}
                           </p>
+                          {exercise.notes && (
+                            <p className="text-xs text-slate-400 dark:text-gray-500 mt-1 italic">{exercise.notes}</p>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -1,10 +1,15 @@
 import { useState, useEffect } from 'react';
-import { Bot, RefreshCw, User, X } from 'lucide-react';
+import { Bot, MessageCircle, RefreshCw, User, X } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
 import { InsightsTabNavigation } from '@/components/insights/InsightsTabNavigation';
 import { useInsightsData } from '@/hooks/useInsightsData';
 import { useUserStore } from '@/store/userStore';
+import { useWorkoutStore } from '@/store/workoutStore';
+import { nutritionService } from '@/services/nutritionService';
+import { NutritionEvent } from '@/types/insights';
+import { buildNutritionEvents } from '@/utils/nutritionHelpers';
+import { logger } from '@/utils/logger';
 import { Skeleton } from '@/components/common/Skeleton';
 import { EmptyStateAIMessage } from '@/components/common/EmptyStateAIMessage';
 import { BreakthroughCard } from '@/components/insights/BreakthroughCard';
@@ -31,6 +36,8 @@ export function Insights() {
   const [view, setView] = useState<View>('progress');
   const [showProfilePrompt, setShowProfilePrompt] = useState(false);
   const { profile } = useUserStore();
+  const { workouts } = useWorkoutStore();
+  const [loggedNutritionEvents, setLoggedNutritionEvents] = useState<NutritionEvent[]>([]);
   const {
     progressAnalysis,
     smartAlerts,
@@ -50,6 +57,23 @@ export function Insights() {
     }
   }, [profile]);
 
+  // Today's logged meals and supplements take the place of the AI's suggested timing
+  useEffect(() => {
+    if (!profile?.id) {
+      return;
+    }
+    const now = new Date();
+    const latestWorkout = workouts.reduce<(typeof workouts)[number] | null>(
+      (latest, workout) => (!latest || new Date(workout.startTime) > new Date(latest.startTime) ? workout : latest),
+      null
+    );
+    nutritionService.getLogsForDay(profile.id, now)
+      .then(logs => setLoggedNutritionEvents(buildNutritionEvents(logs, latestWorkout, now)))
+      .catch((error) => {
+        logger.warn('[Insights] Failed to load nutrition logs:', error);
+      });
+  }, [profile?.id, workouts]);
+
   const handleDismissProfilePrompt = () => {
     setShowProfilePrompt(false);
     sessionStorage.setItem('profilePromptDismissed', 'true');
@@ -84,6 +108,14 @@ export function Insights() {
     <div className="min-h-screen bg-background-light dark:bg-background-dark pb-24">
       <div className="sticky top-0 z-50 flex items-center bg-background-light/95 dark:bg-background-dark/95 backdrop-blur-md p-4 pb-3 justify-between border-b border-gray-100 dark:border-border-dark">
         <h2 className="text-xl font-bold leading-tight tracking-[-0.015em] flex-1">AI Insights</h2>
+        <button
+          onClick={() => navigate('/coach')}
+          className="mr-2 flex items-center gap-1.5 rounded-full bg-primary px-3 py-1.5 text-xs font-bold text-black hover:bg-[#E67E22] transition-colors"
+          aria-label="Ask the AI coach"
+        >
+          <MessageCircle className="w-4 h-4" />
+          Ask coach
+        </button>
         <div className="flex items-center justify-end gap-1.5 bg-primary/10 px-3 py-1.5 rounded-full border border-primary/20">
           <Bot className="w-4 h-4 text-primary" />
           <p className="text-primary text-xs font-bold uppercase tracking-wider shrink-0">
@@ -209,7 +241,11 @@ export function Insights() {
                   <SuggestionsSection suggestions={smartAlerts.suggestions} />
                 </motion.div>
                 <motion.div variants={prefersReducedMotion() ? {} : {}}>
-                  <NutritionTimingTimeline events={smartAlerts.nutritionEvents} />
+                  <NutritionTimingTimeline
+                    events={loggedNutritionEvents.length > 0 ? loggedNutritionEvents : smartAlerts.nutritionEvents}
+                    isLogged={loggedNutritionEvents.length > 0}
+                    onLog={() => navigate('/nutrition')}
+                  />
                 </motion.div>
             </motion.div>
           )}
@@ -288,45 +288,8 @@ export function LogWorkout() {
 
   // Handle repeat workout from navigation state
   useEffect(() => {
-    const locationState = location.state as { repeatWorkout?: Workout; recommendedWorkoutExercises?: WorkoutExercise[] };
+    const locationState = location.state as { repeatWorkout?: Workout };
     const repeatWorkout = locationState?.repeatWorkout;
-    const recommendedWorkoutExercises = locationState?.recommendedWorkoutExercises;
-
-    // Handle recommended workout exercises
-    if (recommendedWorkoutExercises && currentWorkout && profile && currentWorkout.exercises.length === 0) {
-      const recommendedWorkoutId = `recommended-${Date.now()}`;
-
-      if (repeatWorkoutProcessedRef.current !== recommendedWorkoutId) {
-        repeatWorkoutProcessedRef.current = recommendedWorkoutId;
-
-        const processRecommendedWorkout = async () => {
-          try {
-            // Add all recommended exercises to current workout
-            for (const exercise of recommendedWorkoutExercises) {
-              addExercise(exercise);
-            }
-
-            // Show success message
-            success('Recommended workout loaded. Ready to log!');
-
-            // Clear the recommendedWorkoutExercises from location state to prevent re-processing
-            window.history.replaceState({}, document.title);
-          } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : 'Failed to load recommended workout';
-            showError(errorMessage);
-            logger.error('Error loading recommended workout:', err);
-            repeatWorkoutProcessedRef.current = null;
-          }
-        };
-
-        // Process after a short delay to ensure workout is ready
-        const timeoutId = setTimeout(processRecommendedWorkout, 100);
-
-        return () => {
-          clearTimeout(timeoutId);
-        };
-      }
-    }
 
     // Handle repeat workout
     if (repeatWorkout && currentWorkout && profile && currentWorkout.exercises.length === 0) {
@@ -401,9 +364,9 @@ export function LogWorkout() {
 
                 // Calculate initial volume (will be 0 since sets are not completed)
                 // FIX: Pass user bodyweight for accurate bodyweight exercise volume
-                const userBodyweight = profile?.weight
+                const userBodyweight = currentWorkout?.bodyweight ?? (profile?.weight
                   ? (profile.preferredUnit === 'lbs' ? convertWeight(profile.weight, 'lbs', 'kg') : profile.weight)
-                  : undefined;
+                  : undefined);
                 const initialVolume = calculateVolume(newSets, exerciseData.trackingType, {
                   userBodyweight,
                   exerciseName: prevExercise.exerciseName,
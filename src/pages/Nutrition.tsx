@@ -0,0 +1,446 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { addDays, endOfDay, format, isToday, startOfDay } from 'date-fns';
+import { ArrowLeft, ChevronLeft, ChevronRight, Droplets, Pill, Star, Trash2, UtensilsCrossed, X } from 'lucide-react';
+import { useUserStore } from '@/store/userStore';
+import { nutritionService } from '@/services/nutritionService';
+import { dataService } from '@/services/dataService';
+import { FoodFavorite, NutritionLog, SupplementKind } from '@/types/nutrition';
+import { SUPPLEMENT_LABELS, describeNutritionLog, sumNutrition } from '@/utils/nutritionHelpers';
+import { ToastContainer } from '@/components/common/Toast';
+import { useToast } from '@/hooks/useToast';
+import { cn } from '@/utils/cn';
+import { logger } from '@/utils/logger';
+
+const WATER_AMOUNTS = [250, 500];
+
+// One-tap doses for the common supplements, in mg
+const QUICK_SUPPLEMENTS: Array<{ supplement: SupplementKind; doseMg: number }> = [
+  { supplement: 'creatine', doseMg: 5000 },
+  { supplement: 'caffeine', doseMg: 200 },
+  { supplement: 'protein_powder', doseMg: 30000 },
+  { supplement: 'electrolytes', doseMg: 1000 },
+];
+
+const inputClassName =
+  'w-full rounded-xl border border-gray-100 dark:border-surface-border bg-white dark:bg-surface-dark px-3 py-2.5 text-base text-slate-900 dark:text-white focus:border-primary focus:ring-1 focus:ring-primary transition-all outline-none';
+
+const parseOptional = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+interface MealForm {
+  name: string;
+  time: string;
+  calories: string;
+  protein: string;
+  carbs: string;
+  fat: string;
+  saveAsFavorite: boolean;
+}
+
+const emptyMealForm = (): MealForm => ({
+  name: '',
+  time: format(new Date(), 'HH:mm'),
+  calories: '',
+  protein: '',
+  carbs: '',
+  fat: '',
+  saveAsFavorite: false,
+});
+
+function TargetBar({ label, value, target, unit }: { label: string; value: number; target: number; unit: string }) {
+  const percentage = target > 0 ? Math.min(100, (value / target) * 100) : 0;
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-sm">
+        <span className="text-slate-700 dark:text-slate-300">{label}</span>
+        <span className="text-slate-500 dark:text-slate-400">
+          {Math.round(value).toLocaleString()} / {target.toLocaleString()} {unit}
+        </span>
+      </div>
+      <div className="h-1.5 rounded-full bg-gray-100 dark:bg-surface-border">
+        <div className="h-1.5 rounded-full bg-primary" style={{ width: `${percentage}%` }} />
+      </div>
+    </div>
+  );
+}
+
+function getLogIcon(log: NutritionLog) {
+  switch (log.type) {
+    case 'water':
+      return <Droplets className="w-4 h-4 text-sky-500" />;
+    case 'supplement':
+      return <Pill className="w-4 h-4 text-primary" />;
+    default:
+      return <UtensilsCrossed className="w-4 h-4 text-primary" />;
+  }
+}
+
+export function Nutrition() {
+  const navigate = useNavigate();
+  const { profile } = useUserStore();
+  const { toasts, removeToast, success, error: showError } = useToast();
+  const [day, setDay] = useState(() => startOfDay(new Date()));
+  const [logs, setLogs] = useState<NutritionLog[]>([]);
+  const [favorites, setFavorites] = useState<FoodFavorite[]>([]);
+  const [mealForm, setMealForm] = useState<MealForm>(emptyMealForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const targets = useMemo(() => nutritionService.getTargets(profile), [profile]);
+  const totals = useMemo(() => sumNutrition(logs, day, endOfDay(day)), [logs, day]);
+  const isViewingToday = isToday(day);
+
+  const loadLogs = useCallback(() => {
+    if (!profile?.id) {
+      return;
+    }
+    nutritionService.getLogsForDay(profile.id, day)
+      .then(setLogs)
+      .catch((error) => logger.error('[Nutrition] Failed to load nutrition logs:', error));
+  }, [profile?.id, day]);
+
+  useEffect(() => {
+    loadLogs();
+    return dataService.on('nutrition', loadLogs);
+  }, [loadLogs]);
+
+  useEffect(() => {
+    if (!profile?.id) {
+      return;
+    }
+    nutritionService.getFavorites(profile.id)
+      .then(setFavorites)
+      .catch((error) => logger.error('[Nutrition] Failed to load favourites:', error));
+  }, [profile?.id]);
+
+  // Entries for past days are stamped at midday unless a time is given
+  const getEntryDate = (time?: string): Date => {
+    if (time) {
+      const [hours, minutes] = time.split(':').map(Number);
+      const date = new Date(day);
+      date.setHours(hours, minutes, 0, 0);
+      return date;
+    }
+    if (isViewingToday) {
+      return new Date();
+    }
+    const date = new Date(day);
+    date.setHours(12, 0, 0, 0);
+    return date;
+  };
+
+  const runAction = async (action: () => Promise<unknown>, message: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      success(message);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to save');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddWater = (waterMl: number) => {
+    if (!profile?.id) {
+      return;
+    }
+    const userId = profile.id;
+    runAction(
+      () => nutritionService.logEntry({ userId, date: getEntryDate(), type: 'water', waterMl }),
+      `Added ${waterMl} ml water`
+    );
+  };
+
+  const handleAddSupplement = (supplement: SupplementKind, doseMg: number) => {
+    if (!profile?.id) {
+      return;
+    }
+    const userId = profile.id;
+    runAction(
+      () => nutritionService.logEntry({
+        userId,
+        date: getEntryDate(),
+        type: 'supplement',
+        supplement,
+        doseMg,
+        // Protein powder counts towards the protein target
+        protein: supplement === 'protein_powder' ? Math.round(doseMg / 1000 * 0.8) : undefined,
+      }),
+      `Logged ${SUPPLEMENT_LABELS[supplement].toLowerCase()}`
+    );
+  };
+
+  const handleLogFavorite = (favorite: FoodFavorite) => {
+    if (!profile?.id) {
+      return;
+    }
+    const userId = profile.id;
+    runAction(() => nutritionService.logFavorite(userId, favorite, getEntryDate()), `Logged ${favorite.name}`);
+  };
+
+  const handleRemoveFavorite = async (favoriteId: string) => {
+    if (!profile?.id) {
+      return;
+    }
+    try {
+      setFavorites(await nutritionService.removeFavorite(profile.id, favoriteId));
+    } catch (error) {
+      logger.error('[Nutrition] Failed to remove favourite:', error);
+      showError('Failed to remove favourite');
+    }
+  };
+
+  const handleAddMeal = async () => {
+    if (!profile?.id) {
+      return;
+    }
+    const userId = profile.id;
+    const macros = {
+      calories: parseOptional(mealForm.calories),
+      protein: parseOptional(mealForm.protein),
+      carbs: parseOptional(mealForm.carbs),
+      fat: parseOptional(mealForm.fat),
+    };
+
+    await runAction(async () => {
+      await nutritionService.logEntry({
+        userId,
+        date: getEntryDate(mealForm.time),
+        type: 'meal',
+        name: mealForm.name || undefined,
+        ...macros,
+      });
+      if (mealForm.saveAsFavorite && mealForm.name.trim()) {
+        setFavorites(await nutritionService.saveFavorite(userId, mealForm.name, {
+          calories: macros.calories ?? 0,
+          protein: macros.protein ?? 0,
+          carbs: macros.carbs ?? 0,
+          fat: macros.fat ?? 0,
+        }));
+      }
+      setMealForm(emptyMealForm());
+    }, 'Meal logged');
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await nutritionService.deleteEntry(id);
+    } catch (error) {
+      logger.error('[Nutrition] Failed to delete nutrition log:', error);
+      showError('Failed to delete entry');
+    }
+  };
+
+  const updateMealForm = (updates: Partial<MealForm>) => setMealForm(current => ({ ...current, ...updates }));
+
+  return (
+    <div className="relative flex h-full min-h-screen w-full max-w-lg mx-auto flex-col overflow-hidden bg-background-light dark:bg-background-dark">
+      {/* Top App Bar */}
+      <div className="sticky top-0 z-50 flex items-center bg-background-light/95 dark:bg-background-dark/95 backdrop-blur-md p-4 pb-2 justify-between border-b border-gray-100 dark:border-surface-border/30">
+        <button
+          onClick={() => navigate(-1)}
+          className="text-slate-900 dark:text-white flex size-12 shrink-0 items-center justify-center rounded-full hover:bg-black/5 dark:hover:bg-white/10 transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <h2 className="text-slate-900 dark:text-white text-lg font-bold leading-tight tracking-[-0.015em] flex-1 text-center">
+          Nutrition & Hydration
+        </h2>
+        <div className="size-12 shrink-0" />
+      </div>
+
+      <div className="flex-1 p-4 space-y-4 pb-24">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setDay(current => addDays(current, -1))}
+            className="p-2 rounded-full hover:bg-black/5 dark:hover:bg-white/10 text-slate-700 dark:text-slate-300"
+            aria-label="Previous day"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <p className="font-bold text-slate-900 dark:text-white">
+            {isViewingToday ? 'Today' : format(day, 'EEEE, MMM d')}
+          </p>
+          <button
+            onClick={() => setDay(current => addDays(current, 1))}
+            disabled={isViewingToday}
+            className="p-2 rounded-full hover:bg-black/5 dark:hover:bg-white/10 text-slate-700 dark:text-slate-300 disabled:opacity-30"
+            aria-label="Next day"
+          >
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        </div>
+
+        <section className="rounded-xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-surface-border p-4 space-y-3">
+          <div className="flex items-baseline justify-between">
+            <h3 className="font-bold text-slate-900 dark:text-white">Daily targets</h3>
+            {!profile?.weight && (
+              <button onClick={() => navigate('/profile')} className="text-xs text-primary font-medium">
+                Add your weight
+              </button>
+            )}
+          </div>
+          <TargetBar label="Calories" value={totals.calories} target={targets.calories} unit="kcal" />
+          <TargetBar label="Protein" value={totals.protein} target={targets.protein} unit="g" />
+          <TargetBar label="Carbs" value={totals.carbs} target={targets.carbs} unit="g" />
+          <TargetBar label="Fat" value={totals.fat} target={targets.fat} unit="g" />
+          <TargetBar label="Water" value={totals.waterMl} target={targets.waterMl} unit="ml" />
+          {(totals.creatineMg > 0 || totals.caffeineMg > 0) && (
+            <p className="text-sm text-slate-700 dark:text-slate-300">
+              {[
+                totals.creatineMg > 0 ? `Creatine ${+(totals.creatineMg / 1000).toFixed(1)} g` : null,
+                totals.caffeineMg > 0 ? `Caffeine ${Math.round(totals.caffeineMg)} mg` : null,
+              ].filter(Boolean).join(' · ')}
+            </p>
+          )}
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            Based on {profile?.weight ? `${Math.round(profile.weight)} kg` : 'an estimated weight'} and your goals.
+            Protein and water feed into your recovery score.
+          </p>
+        </section>
+
+        <section className="rounded-xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-surface-border p-4 space-y-3">
+          <h3 className="font-bold text-slate-900 dark:text-white">Quick add</h3>
+          <div className="flex flex-wrap gap-2">
+            {WATER_AMOUNTS.map(amount => (
+              <button
+                key={amount}
+                onClick={() => handleAddWater(amount)}
+                disabled={isSaving}
+                className="flex items-center gap-1.5 rounded-lg bg-sky-500/10 hover:bg-sky-500/20 text-sky-600 dark:text-sky-400 px-3 py-2 text-sm font-medium transition-colors disabled:opacity-50"
+              >
+                <Droplets className="w-4 h-4" />
+                {amount} ml
+              </button>
+            ))}
+            {QUICK_SUPPLEMENTS.map(({ supplement, doseMg }) => (
+              <button
+                key={supplement}
+                onClick={() => handleAddSupplement(supplement, doseMg)}
+                disabled={isSaving}
+                className="flex items-center gap-1.5 rounded-lg bg-primary/10 hover:bg-primary/20 text-primary px-3 py-2 text-sm font-medium transition-colors disabled:opacity-50"
+              >
+                <Pill className="w-4 h-4" />
+                {SUPPLEMENT_LABELS[supplement]}
+              </button>
+            ))}
+          </div>
+          {favorites.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-xs font-medium uppercase tracking-wider text-slate-500 dark:text-slate-400">Favourites</p>
+              <div className="flex flex-wrap gap-2">
+                {favorites.map(favorite => (
+                  <div
+                    key={favorite.id}
+                    className="flex items-center rounded-lg border border-gray-100 dark:border-surface-border text-sm"
+                  >
+                    <button
+                      onClick={() => handleLogFavorite(favorite)}
+                      disabled={isSaving}
+                      className="flex items-center gap-1.5 pl-3 pr-2 py-2 text-slate-700 dark:text-slate-300 disabled:opacity-50"
+                    >
+                      <Star className="w-3.5 h-3.5 text-primary" />
+                      {favorite.name}
+                      <span className="text-xs text-slate-500 dark:text-slate-400">{Math.round(favorite.protein)} g P</span>
+                    </button>
+                    <button
+                      onClick={() => handleRemoveFavorite(favorite.id)}
+                      className="pr-2 py-2 text-slate-400 hover:text-red-500"
+                      aria-label={`Remove ${favorite.name} from favourites`}
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </section>
+
+        <section className="rounded-xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-surface-border p-4 space-y-3">
+          <h3 className="font-bold text-slate-900 dark:text-white">Log a meal</h3>
+          <div className="grid grid-cols-3 gap-2">
+            <input
+              className={cn(inputClassName, 'col-span-2')}
+              placeholder="Meal name"
+              value={mealForm.name}
+              onChange={(e) => updateMealForm({ name: e.target.value })}
+            />
+            <input
+              className={inputClassName}
+              type="time"
+              value={mealForm.time}
+              onChange={(e) => updateMealForm({ time: e.target.value })}
+              aria-label="Time"
+            />
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            {([
+              ['calories', 'kcal'],
+              ['protein', 'Protein g'],
+              ['carbs', 'Carbs g'],
+              ['fat', 'Fat g'],
+            ] as const).map(([field, label]) => (
+              <label key={field} className="flex flex-col gap-1">
+                <span className="text-xs text-slate-500 dark:text-slate-400">{label}</span>
+                <input
+                  className={inputClassName}
+                  type="number"
+                  min="0"
+                  inputMode="decimal"
+                  value={mealForm[field]}
+                  onChange={(e) => updateMealForm({ [field]: e.target.value })}
+                />
+              </label>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+            <input
+              type="checkbox"
+              checked={mealForm.saveAsFavorite}
+              onChange={(e) => updateMealForm({ saveAsFavorite: e.target.checked })}
+              className="rounded border-gray-300 text-primary focus:ring-primary"
+            />
+            Save as favourite
+          </label>
+          <button
+            onClick={handleAddMeal}
+            disabled={isSaving}
+            className="w-full rounded-xl bg-primary hover:bg-[#E67E22] text-black font-semibold py-3 text-sm transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Add meal'}
+          </button>
+        </section>
+
+        <section className="rounded-xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-surface-border p-4 space-y-2">
+          <h3 className="font-bold text-slate-900 dark:text-white">Entries</h3>
+          {logs.length === 0 ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400">Nothing logged {isViewingToday ? 'yet today' : 'on this day'}.</p>
+          ) : (
+            [...logs].reverse().map(log => (
+              <div key={log.id} className="flex items-center gap-3 text-sm py-1">
+                {getLogIcon(log)}
+                <span className="text-xs font-mono text-slate-500 dark:text-slate-400">{format(new Date(log.date), 'HH:mm')}</span>
+                <div className="flex-1 min-w-0">
+                  {log.name && <p className="font-medium text-slate-900 dark:text-white truncate">{log.name}</p>}
+                  <p className="text-slate-600 dark:text-slate-300 truncate">{describeNutritionLog(log)}</p>
+                </div>
+                <button
+                  onClick={() => handleDelete(log.id)}
+                  className="p-1.5 text-slate-400 hover:text-red-500 transition-colors"
+                  aria-label="Delete entry"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))
+          )}
+        </section>
+      </div>
+      <ToastContainer toasts={toasts} onRemove={removeToast} />
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import { ArrowRight, ArrowLeft, Bell, Check, User, Activity, Brain, BarChart2 }
 import { useUserStore, Gender, UnitSystem, unitHelpers, Goal } from '@/store/userStore';
 import { useSettingsStore } from '@/store/settingsStore';
 import { notificationService } from '@/services/notificationService';
+import { pushNotificationService } from '@/services/pushNotificationService';
+import { logger } from '@/utils/logger';
 import { ProfilePictureUpload } from '@/components/profile/ProfilePictureUpload';
 import { UnitSwitcher } from '@/components/profile/UnitSwitcher';
 import { GoalSelection } from '@/components/profile/GoalSelectionCard';
@@ -196,6 +198,9 @@ export default function Onboarding() {
     if (permission === 'granted') {
       await setWorkoutReminderEnabled(true);
       await setMuscleRecoveryAlertsEnabled(true);
+      pushNotificationService.registerDevice().catch((error) => {
+        logger.warn('[Onboarding] Failed to register for push notifications:', error);
+      });
       success('Notifications enabled!');
     } else {
       showError('Notifications denied. You can enable them later in settings.');
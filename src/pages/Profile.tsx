@@ -1,40 +1,59 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
-import { ArrowLeft, ArrowRight, Scale, Ruler, Moon, Sun, Monitor, Bell, Volume2, Vibrate, Download, Upload, Trash2, AlertCircle, Clock, Cloud, RefreshCw, CheckCircle2 } from 'lucide-react';
+import { ArrowLeft, ArrowRight, Scale, Ruler, Moon, Sun, Monitor, Bell, Volume2, Vibrate, Download, Upload, FileSpreadsheet, Trash2, AlertCircle, Clock, Cloud, RefreshCw, CheckCircle2, Camera, Watch, Flame, TrendingUp } from 'lucide-react';
 import { useUserStore, Gender, UnitSystem, unitHelpers, Goal } from '@/store/userStore';
 import { useSettingsStore } from '@/store/settingsStore';
 import { notificationService } from '@/services/notificationService';
+import { pushNotificationService } from '@/services/pushNotificationService';
 import { ProfilePictureUpload } from '@/components/profile/ProfilePictureUpload';
 import { UnitSwitcher } from '@/components/profile/UnitSwitcher';
 import { GoalSelection } from '@/components/profile/GoalSelectionCard';
+import { HeartRateSettingsEditor, HeartRateProfileSettings } from '@/components/profile/HeartRateSettingsEditor';
+import { EquipmentInventoryEditor } from '@/components/profile/EquipmentInventoryEditor';
+import { BodyMeasurementLog } from '@/components/profile/BodyMeasurementLog';
+import { AIProviderSettings } from '@/components/profile/AIProviderSettings';
+import { DEFAULT_EQUIPMENT_INVENTORY } from '@/utils/plateCalculator';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import { dataExport } from '@/services/dataExport';
 import { useToast } from '@/hooks/useToast';
 import { cn } from '@/utils/cn';
 import { firestoreSyncService } from '@/services/firestoreSyncService';
+import { syncConflictService } from '@/services/syncConflictService';
 import { ImportStrategyModal } from '@/components/profile/ImportStrategyModal';
+import { CsvImportReviewModal } from '@/components/profile/CsvImportReviewModal';
+import { CsvExportModal } from '@/components/profile/CsvExportModal';
+import { WearableImportReviewModal } from '@/components/profile/WearableImportReviewModal';
 import { ExportProgressModal } from '@/components/profile/ExportProgressModal';
 import { ImportProgressModal } from '@/components/profile/ImportProgressModal';
-import { ImportStrategy, ImportResult, ProgressCallback } from '@/types/export';
+import { ImportStrategy, ImportResult, ImportCheckpoint, ProgressCallback } from '@/types/export';
 import { logger } from '@/utils/logger';
 import { refreshAllAppData } from '@/utils/dataRefresh';
 import { ImportErrorBoundary } from '@/components/import/ImportErrorBoundary';
+import { csvWorkoutImport } from '@/services/csvWorkoutImport';
+import { wearableImport } from '@/services/wearableImport';
+import { chunkedImport } from '@/services/chunkedImport';
+import { ExerciseNameMapping, ExerciseNameMatch, ParsedCsvFile } from '@/types/csvImport';
+import { ParsedWearableData } from '@/types/wearable';
 
 export function Profile() {
   const navigate = useNavigate();
   useAuth();
-  const { profile, updateProfile, isLoading, setPreferredUnit, setDefaultRestTime, setProfilePicture: updateProfilePictureInStore } = useUserStore();
+  const { profile, updateProfile, isLoading, setPreferredUnit, setDefaultRestTime, setEquipmentInventory, setProfilePicture: updateProfilePictureInStore } = useUserStore();
   const { 
     settings, 
     setTheme, 
     toggleAutoStartRestTimer, 
+    setAutoWarmupSets,
+    setProgressionEnabled,
     toggleSound, 
     toggleVibration, 
     loadSettings,
     setWorkoutReminderEnabled,
     setWorkoutReminderMinutes,
     setMuscleRecoveryAlertsEnabled,
+    setInactivityNudgesEnabled,
+    setQuietHours,
     setNotificationPermission,
   } = useSettingsStore();
 
@@ -56,6 +75,7 @@ export function Profile() {
   const [selectedGoals, setSelectedGoals] = useState<Goal[]>([]);
   const [isSaving, setIsSaving] = useState(false);
   const [defaultRestTime, setDefaultRestTimeLocal] = useState<number>(90);
+  const [heartRateSettings, setHeartRateSettings] = useState<HeartRateProfileSettings>({});
   const [isExporting, setIsExporting] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -70,6 +90,7 @@ export function Profile() {
   } | null>(null);
   const [exportError, setExportError] = useState<string | null>(null);
   const [showExportModal, setShowExportModal] = useState(false);
+  const [showCsvExportModal, setShowCsvExportModal] = useState(false);
   const [importProgress, setImportProgress] = useState<{
     percentage: number;
     currentOperation: string;
@@ -81,11 +102,36 @@ export function Profile() {
   const [showImportStrategyModal, setShowImportStrategyModal] = useState(false);
   const [importPreview, setImportPreview] = useState<import('@/types/export').ImportPreview | null>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [resumeCheckpoint, setResumeCheckpoint] = useState<ImportCheckpoint | null>(null);
+  const importAbortRef = useRef<AbortController | null>(null);
+  const [isCancellingImport, setIsCancellingImport] = useState(false);
+  const csvFileInputRef = useRef<HTMLInputElement>(null);
+  const [csvImport, setCsvImport] = useState<{
+    parsed: ParsedCsvFile;
+    matches: ExerciseNameMatch[];
+  } | null>(null);
+  const wearableFileInputRef = useRef<HTMLInputElement>(null);
+  const [wearableData, setWearableData] = useState<ParsedWearableData | null>(null);
+  const distanceUnit = profile?.preferredUnit === 'lbs' ? 'miles' : 'km';
   
   // Sync state
   const [isSyncing, setIsSyncing] = useState(false);
   const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null);
   const [lastSyncMessage, setLastSyncMessage] = useState<string | null>(null);
+  const [pendingConflictCount, setPendingConflictCount] = useState(0);
+
+  const refreshPendingConflicts = useCallback(() => {
+    if (!profile?.id) {
+      return;
+    }
+    syncConflictService.getPendingCount(profile.id)
+      .then(setPendingConflictCount)
+      .catch((error) => logger.error('[Profile] Failed to count sync conflicts:', error));
+  }, [profile?.id]);
+
+  useEffect(() => {
+    refreshPendingConflicts();
+  }, [refreshPendingConflicts]);
 
   useEffect(() => {
     loadSettings();
@@ -122,6 +168,8 @@ export function Profile() {
 
       const hasErrors = results.some((r) => r.status === 'error');
       const totalConflicts = results.reduce((sum, r) => sum + r.conflicts, 0);
+      const pendingConflicts = await syncConflictService.getPendingCount(profile.id);
+      setPendingConflictCount(pendingConflicts);
       const totalRecordsProcessed = results.reduce((sum, r) => sum + r.recordsProcessed, 0);
       const totalRecordsCreated = results.reduce((sum, r) => sum + r.recordsCreated, 0);
       const totalRecordsUpdated = results.reduce((sum, r) => sum + r.recordsUpdated, 0);
@@ -135,6 +183,8 @@ export function Profile() {
 
       if (hasErrors) {
         showError('Sync completed with some errors. Check sync details for more information.');
+      } else if (pendingConflicts > 0) {
+        showError(`${pendingConflicts} record(s) were changed on another device. Review them before they sync.`);
       } else if (totalConflicts > 0) {
         success(`Sync completed with ${totalConflicts} conflict(s) resolved.`);
       } else if (noChanges) {
@@ -198,6 +248,12 @@ export function Profile() {
       }
       setSelectedGoals(profile.goals || []);
       setDefaultRestTimeLocal(profile.defaultRestTime || 90);
+      setHeartRateSettings({
+        maxHeartRate: profile.maxHeartRate,
+        restingHeartRate: profile.restingHeartRate,
+        lactateThresholdHeartRate: profile.lactateThresholdHeartRate,
+        heartRateZoneMethod: profile.heartRateZoneMethod,
+      });
       
       if (profile.weight !== undefined) {
         setWeightKg(profile.weight);
@@ -287,6 +343,7 @@ export function Profile() {
         goals: selectedGoals.length > 0 ? selectedGoals : profile.goals,
         preferredUnit: unitSystem === 'imperial' ? 'lbs' : 'kg',
         defaultRestTime: defaultRestTime,
+        ...heartRateSettings,
       };
 
       await updateProfile(updates);
@@ -302,6 +359,79 @@ export function Profile() {
     }
   };
 
+  const runJsonImport = async (strategy: ImportStrategy, resume: boolean) => {
+    setShowImportStrategyModal(false);
+    if (!profile?.id || !selectedFile) {return;}
+
+    const abortController = new AbortController();
+    importAbortRef.current = abortController;
+    setIsCancellingImport(false);
+    setIsImporting(true);
+    setShowImportModal(true);
+    setImportProgress({
+      percentage: 0,
+      currentOperation: resume ? 'Resuming import...' : 'Starting import...',
+      completedItems: 0,
+      totalItems: 0,
+    });
+
+    const progressCallback: ProgressCallback = (progress) => {
+      setImportProgress(progress);
+    };
+
+    try {
+      const result = await chunkedImport.importFile(profile.id, selectedFile, strategy, {
+        signal: abortController.signal,
+        onProgress: progressCallback,
+        resume,
+      });
+      setImportResult(result);
+
+      if (result.cancelled) {
+        showError(`Import cancelled after ${result.imported} items. Select the same file to resume.`);
+      } else if (result.errors.length > 0) {
+        showError(
+          `Imported ${result.imported} items with ${result.errors.length} error(s)`
+        );
+      } else {
+        success(`Successfully imported ${result.imported} items`);
+      }
+
+      // Refresh data WITHOUT full page reload
+      setImportProgress({
+        percentage: 100,
+        currentOperation: 'Syncing to cloud...',
+        completedItems: result.imported,
+        totalItems: result.imported,
+      });
+
+      try {
+        await refreshAllAppData(profile.id, {
+          includeSync: true,
+          syncTimeoutMs: 15000
+        });
+        success('Data synced successfully!');
+      } catch (refreshError) {
+        logger.error('Failed to refresh after import:', refreshError);
+        showError('Import completed but data refresh failed. Please refresh the page manually.');
+      }
+
+      // Keep modal open to show results
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to import data');
+      setShowImportModal(false);
+    } finally {
+      importAbortRef.current = null;
+      setIsImporting(false);
+      setIsCancellingImport(false);
+      setSelectedFile(null);
+      setResumeCheckpoint(null);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
   const isProfileIncomplete = !profile?.name || !profile?.age || !profile?.gender;
 
   return (
@@ -516,6 +646,28 @@ export function Profile() {
           </div>
         </section>
 
+        {/* Measurement History */}
+        {profile?.id && (
+          <section className="space-y-4">
+            <h3 className="text-xl font-bold tracking-tight px-1">Measurements</h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400 px-1">
+              Logged weigh-ins build your bodyweight trend and are used for bodyweight exercise volume.
+            </p>
+            <BodyMeasurementLog userId={profile.id} unitSystem={unitSystem} />
+            <button
+              type="button"
+              onClick={() => navigate('/progress-photos')}
+              className="w-full flex items-center justify-between p-3 rounded-xl bg-gray-50 dark:bg-surface-dark/50 border border-gray-100 dark:border-border-dark hover:bg-gray-100 dark:hover:bg-surface-dark transition-colors"
+            >
+              <span className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-300">
+                <Camera className="w-4 h-4" />
+                Progress Photos
+              </span>
+              <ArrowRight className="w-4 h-4 text-slate-400" />
+            </button>
+          </section>
+        )}
+
         {/* Primary Goal */}
         <section className="space-y-4">
           <h3 className="text-xl font-bold tracking-tight px-1">Primary Goal</h3>
@@ -545,6 +697,37 @@ export function Profile() {
           </div>
         </section>
 
+        {/* Heart Rate Zones */}
+        <section className="space-y-4">
+          <h3 className="text-xl font-bold tracking-tight px-1">Heart Rate Zones</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400 px-1">
+            Used for zone time and cardio training load (TRIMP). A measured max or lactate threshold heart rate is more accurate than age.
+          </p>
+          <HeartRateSettingsEditor
+            value={heartRateSettings}
+            age={age !== '' ? age : undefined}
+            gender={gender || undefined}
+            onChange={setHeartRateSettings}
+          />
+        </section>
+
+        {/* Equipment Inventory */}
+        <section className="space-y-4">
+          <h3 className="text-xl font-bold tracking-tight px-1">Equipment</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400 px-1">
+            Suggested weights are snapped to loads you can build with this equipment.
+          </p>
+          <EquipmentInventoryEditor
+            inventory={profile?.equipmentInventory ?? DEFAULT_EQUIPMENT_INVENTORY}
+            unit={unitSystem === 'imperial' ? 'lbs' : 'kg'}
+            onChange={(inventory) => {
+              setEquipmentInventory(inventory).catch((error) => {
+                logger.error('Failed to save equipment inventory', error);
+              });
+            }}
+          />
+        </section>
+
         {/* Display Settings */}
         <section className="space-y-4">
           <h3 className="text-xl font-bold tracking-tight px-1">Display</h3>
@@ -595,6 +778,12 @@ export function Profile() {
           </div>
         </section>
 
+        {/* AI Insights */}
+        <section className="space-y-4">
+          <h3 className="text-xl font-bold tracking-tight px-1">AI Insights</h3>
+          <AIProviderSettings />
+        </section>
+
         {/* Cloud Sync */}
         <section className="space-y-4">
           <h3 className="text-xl font-bold tracking-tight px-1">Cloud Sync</h3>
@@ -629,6 +818,22 @@ export function Profile() {
               )}
             </div>
 
+            {/* Conflicts waiting for review */}
+            {pendingConflictCount > 0 && (
+              <button
+                onClick={() => navigate('/sync-conflicts')}
+                className="w-full flex items-center justify-between p-3 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 hover:bg-amber-100 dark:hover:bg-amber-900/30 transition-colors"
+              >
+                <div className="flex items-center gap-3">
+                  <AlertCircle className="w-5 h-5 text-amber-600 dark:text-amber-400" />
+                  <span className="text-sm font-medium text-amber-800 dark:text-amber-300">
+                    {pendingConflictCount} sync conflict{pendingConflictCount === 1 ? '' : 's'} to review
+                  </span>
+                </div>
+                <ArrowRight className="w-4 h-4 text-amber-600 dark:text-amber-400" />
+              </button>
+            )}
+
             {/* Manual Sync Button */}
             <button
               onClick={handleManualSync}
@@ -744,6 +949,21 @@ export function Profile() {
                 <ArrowRight className="w-4 h-4 text-slate-400" />
               )}
             </button>
+            <button
+              onClick={() => setShowCsvExportModal(true)}
+              disabled={isExporting || !profile?.id}
+              className={cn(
+                'w-full flex items-center justify-between p-3 rounded-xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-surface-border',
+                'hover:bg-gray-50 dark:hover:bg-surface-dark-light transition-colors touch-manipulation active:scale-[0.98] min-h-[44px]',
+                'disabled:opacity-50 disabled:cursor-not-allowed'
+              )}
+            >
+              <div className="flex items-center gap-3">
+                <FileSpreadsheet className="w-5 h-5 text-slate-400" />
+                <span className="text-sm font-medium text-slate-700 dark:text-slate-300">Export as CSV</span>
+              </div>
+              <ArrowRight className="w-4 h-4 text-slate-400" />
+            </button>
             <button
               onClick={() => fileInputRef.current?.click()}
               disabled={isImporting || !profile?.id}
@@ -763,6 +983,36 @@ export function Profile() {
                 <ArrowRight className="w-4 h-4 text-slate-400" />
               )}
             </button>
+            <button
+              onClick={() => csvFileInputRef.current?.click()}
+              disabled={isImporting || !profile?.id}
+              className={cn(
+                'w-full flex items-center justify-between p-3 rounded-xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-surface-border',
+                'hover:bg-gray-50 dark:hover:bg-surface-dark-light transition-colors touch-manipulation active:scale-[0.98] min-h-[44px]',
+                'disabled:opacity-50 disabled:cursor-not-allowed'
+              )}
+            >
+              <div className="flex items-center gap-3">
+                <Upload className="w-5 h-5 text-slate-400" />
+                <span className="text-sm font-medium text-slate-700 dark:text-slate-300">Import from Strong / Hevy / FitNotes</span>
+              </div>
+              <ArrowRight className="w-4 h-4 text-slate-400" />
+            </button>
+            <button
+              onClick={() => wearableFileInputRef.current?.click()}
+              disabled={isImporting || !profile?.id}
+              className={cn(
+                'w-full flex items-center justify-between p-3 rounded-xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-surface-border',
+                'hover:bg-gray-50 dark:hover:bg-surface-dark-light transition-colors touch-manipulation active:scale-[0.98] min-h-[44px]',
+                'disabled:opacity-50 disabled:cursor-not-allowed'
+              )}
+            >
+              <div className="flex items-center gap-3">
+                <Watch className="w-5 h-5 text-slate-400" />
+                <span className="text-sm font-medium text-slate-700 dark:text-slate-300">Import from Apple Health / Google Fit / Fitbit / Garmin</span>
+              </div>
+              <ArrowRight className="w-4 h-4 text-slate-400" />
+            </button>
             <button
               onClick={() => navigate('/trash')}
               className={cn(
@@ -790,29 +1040,11 @@ export function Profile() {
                   return;
                 }
                 
-                // Validate file size (max 50MB for safety)
-                const maxSize = 50 * 1024 * 1024; // 50MB
-                if (file.size > maxSize) {
-                  showError('File is too large. Maximum size is 50MB.');
-                  if (fileInputRef.current) {
-                    fileInputRef.current.value = '';
-                  }
-                  return;
-                }
-                
                 try {
-                  // Parse and validate file once
-                  const parsedData = await dataExport.parseExportFile(file);
-
-                  // Validate structure
-                  const isValid = dataExport.validateExportFile(parsedData);
-                  if (!isValid) {
-                    throw new Error('Invalid export file structure');
-                  }
-
-                  // Get preview from parsed data (no re-parse)
-                  const preview = dataExport.previewImport(parsedData);
+                  // Stream through the file once to validate it and count records
+                  const preview = await chunkedImport.previewFile(file);
                   setImportPreview(preview);
+                  setResumeCheckpoint(await chunkedImport.getResumableCheckpoint(profile.id, file));
                   setSelectedFile(file);
                   setShowImportStrategyModal(true);
                 } catch (error) {
@@ -825,6 +1057,65 @@ export function Profile() {
                 }
               }}
             />
+            <input
+              ref={csvFileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={async (e) => {
+                const file = e.target.files?.[0];
+                if (csvFileInputRef.current) {
+                  csvFileInputRef.current.value = '';
+                }
+                if (!file || !profile?.id) {
+                  return;
+                }
+
+                try {
+                  const parsed = await csvWorkoutImport.parseFile(file, profile.preferredUnit);
+                  if (parsed.workouts.length === 0) {
+                    throw new Error('No workouts found in this CSV file');
+                  }
+                  const matches = await csvWorkoutImport.matchExerciseNames(parsed);
+                  setCsvImport({ parsed, matches });
+                } catch (error) {
+                  const errorMessage = error instanceof Error ? error.message : 'Failed to read CSV file';
+                  showError(errorMessage);
+                  logger.error('CSV import file validation failed', error);
+                }
+              }}
+            />
+            <input
+              ref={wearableFileInputRef}
+              type="file"
+              accept=".xml,.json,.csv,.tcx,.gpx,.fit"
+              multiple
+              className="hidden"
+              onChange={async (e) => {
+                const files = Array.from(e.target.files ?? []);
+                if (wearableFileInputRef.current) {
+                  wearableFileInputRef.current.value = '';
+                }
+                if (files.length === 0 || !profile?.id) {
+                  return;
+                }
+
+                setIsImporting(true);
+                try {
+                  const parsed = await wearableImport.parseFiles(files, distanceUnit);
+                  if (parsed.sleep.length === 0 && parsed.activities.length === 0 && parsed.heartRate.length === 0) {
+                    throw new Error(parsed.warnings[0] ?? 'No sleep, heart rate or activities found in these files');
+                  }
+                  setWearableData(parsed);
+                } catch (error) {
+                  const errorMessage = error instanceof Error ? error.message : 'Failed to read wearable export';
+                  showError(errorMessage);
+                  logger.error('Wearable import file validation failed', error);
+                } finally {
+                  setIsImporting(false);
+                }
+              }}
+            />
             <div className="flex items-start gap-2 p-3 rounded-xl bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800">
               <AlertCircle className="w-4 h-4 text-yellow-600 dark:text-yellow-400 mt-0.5 shrink-0" />
               <p className="text-xs text-yellow-800 dark:text-yellow-300">
@@ -835,6 +1126,39 @@ export function Profile() {
           </div>
         </section>
 
+        {/* CSV Export Options Modal */}
+        {showCsvExportModal && profile?.id && (
+          <CsvExportModal
+            userId={profile.id}
+            onCancel={() => setShowCsvExportModal(false)}
+            onExport={async (options) => {
+              setShowCsvExportModal(false);
+              setIsExporting(true);
+              setShowExportModal(true);
+              setExportError(null);
+              setExportProgress({
+                percentage: 0,
+                currentOperation: 'Preparing export...',
+                completedItems: 0,
+                totalItems: options.datasets?.length ?? 4,
+              });
+
+              try {
+                const files = await dataExport.downloadCsvExport(profile.id, options, setExportProgress);
+                const rowCount = files.reduce((sum, file) => sum + file.rowCount, 0);
+                success(`Exported ${rowCount} rows to ${files.length} CSV file${files.length === 1 ? '' : 's'}`);
+              } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Failed to export data';
+                setExportError(errorMessage);
+                showError(errorMessage);
+                logger.error('CSV export failed', error);
+              } finally {
+                setIsExporting(false);
+              }
+            }}
+          />
+        )}
+
         {/* Export Progress Modal */}
         <ExportProgressModal
           isOpen={showExportModal}
@@ -864,79 +1188,148 @@ export function Profile() {
           {showImportStrategyModal && importPreview && selectedFile && (
             <ImportStrategyModal
               preview={importPreview}
-              onSelect={async (strategy: ImportStrategy) => {
+              resumeCheckpoint={resumeCheckpoint}
+              onResume={() => runJsonImport(resumeCheckpoint?.strategy ?? 'merge', true)}
+              onSelect={(strategy: ImportStrategy) => runJsonImport(strategy, false)}
+            onCancel={() => {
               setShowImportStrategyModal(false);
-              if (!profile?.id || !selectedFile) {return;}
-              
-              setIsImporting(true);
-              setShowImportModal(true);
-              setImportProgress({
-                percentage: 0,
-                currentOperation: 'Starting import...',
-                completedItems: 0,
-                totalItems: 9,
-              });
-              
-              const progressCallback: ProgressCallback = (progress) => {
-                setImportProgress(progress);
-              };
-              
-              try {
-                const result = await dataExport.importFromFile(
-                  profile.id,
-                  selectedFile,
-                  strategy,
-                  progressCallback
-                );
-                setImportResult(result);
-
-                if (result.errors.length > 0) {
-                  showError(
-                    `Imported ${result.imported} items with ${result.errors.length} error(s)`
+              setImportPreview(null);
+              setSelectedFile(null);
+              setResumeCheckpoint(null);
+              if (fileInputRef.current) {
+                fileInputRef.current.value = '';
+              }
+            }}
+            />
+          )}
+        </ImportErrorBoundary>
+
+        {/* CSV Import Review Modal */}
+        <ImportErrorBoundary
+          fallbackTitle="Import Configuration Error"
+          onReset={() => setCsvImport(null)}
+          onError={(error) => {
+            logger.error('[Profile] CSV import review modal error:', error);
+            showError('Import configuration failed. Please try again.');
+          }}
+        >
+          {csvImport && (
+            <CsvImportReviewModal
+              parsed={csvImport.parsed}
+              matches={csvImport.matches}
+              onConfirm={async (mapping: ExerciseNameMapping) => {
+                const { parsed } = csvImport;
+                setCsvImport(null);
+                if (!profile?.id) {return;}
+
+                setIsImporting(true);
+                setShowImportModal(true);
+                setImportProgress({
+                  percentage: 0,
+                  currentOperation: 'Starting import...',
+                  completedItems: 0,
+                  totalItems: parsed.workouts.length,
+                });
+
+                try {
+                  const result = await csvWorkoutImport.importWorkouts(
+                    profile.id,
+                    parsed,
+                    mapping,
+                    (progress) => setImportProgress(progress)
                   );
-                } else {
-                  success(`Successfully imported ${result.imported} items`);
+                  setImportResult(result);
+
+                  if (result.errors.length > 0) {
+                    showError(
+                      `Imported ${result.imported} workouts with ${result.errors.length} warning(s)`
+                    );
+                  } else {
+                    success(`Successfully imported ${result.imported} workouts`);
+                  }
+
+                  try {
+                    await refreshAllAppData(profile.id, {
+                      includeSync: true,
+                      syncTimeoutMs: 15000
+                    });
+                  } catch (refreshError) {
+                    logger.error('Failed to refresh after CSV import:', refreshError);
+                    showError('Import completed but data refresh failed. Please refresh the page manually.');
+                  }
+                } catch (error) {
+                  showError(error instanceof Error ? error.message : 'Failed to import workouts');
+                  setShowImportModal(false);
+                } finally {
+                  setIsImporting(false);
                 }
+              }}
+              onCancel={() => setCsvImport(null)}
+            />
+          )}
+        </ImportErrorBoundary>
 
-                // Refresh data WITHOUT full page reload
+        {/* Wearable Import Review Modal */}
+        <ImportErrorBoundary
+          fallbackTitle="Import Configuration Error"
+          onReset={() => setWearableData(null)}
+          onError={(error) => {
+            logger.error('[Profile] Wearable import review modal error:', error);
+            showError('Import configuration failed. Please try again.');
+          }}
+        >
+          {wearableData && (
+            <WearableImportReviewModal
+              parsed={wearableData}
+              distanceUnit={distanceUnit}
+              onConfirm={async (selected: ParsedWearableData) => {
+                setWearableData(null);
+                if (!profile?.id) {return;}
+
+                setIsImporting(true);
+                setShowImportModal(true);
                 setImportProgress({
-                  percentage: 100,
-                  currentOperation: 'Syncing to cloud...',
-                  completedItems: 9,
-                  totalItems: 10,
+                  percentage: 0,
+                  currentOperation: 'Starting import...',
+                  completedItems: 0,
+                  totalItems: selected.sleep.length + selected.activities.length,
                 });
 
                 try {
-                  await refreshAllAppData(profile.id, {
-                    includeSync: true,
-                    syncTimeoutMs: 15000
-                  });
-                  success('Data synced successfully!');
-                } catch (refreshError) {
-                  logger.error('Failed to refresh after import:', refreshError);
-                  showError('Import completed but data refresh failed. Please refresh the page manually.');
-                }
+                  const result = await wearableImport.importData(
+                    profile.id,
+                    selected,
+                    distanceUnit,
+                    (progress) => setImportProgress(progress)
+                  );
+                  setImportResult(result);
 
-                // Keep modal open to show results
-              } catch (error) {
-                showError(error instanceof Error ? error.message : 'Failed to import data');
-                setShowImportModal(false);
-              } finally {
-                setIsImporting(false);
-                setSelectedFile(null);
-                if (fileInputRef.current) {
-                  fileInputRef.current.value = '';
+                  const enriched = result.enrichedWorkouts > 0
+                    ? `, added heart rate to ${result.enrichedWorkouts} workout${result.enrichedWorkouts === 1 ? '' : 's'}`
+                    : '';
+                  if (result.errors.some((importError) => importError.severity === 'error')) {
+                    showError(`Imported ${result.imported} records${enriched} with ${result.errors.length} warning(s)`);
+                  } else {
+                    success(`Imported ${result.imported} records${enriched}`);
+                  }
+
+                  try {
+                    await refreshAllAppData(profile.id, {
+                      includeSync: true,
+                      syncTimeoutMs: 15000
+                    });
+                  } catch (refreshError) {
+                    logger.error('Failed to refresh after wearable import:', refreshError);
+                    showError('Import completed but data refresh failed. Please refresh the page manually.');
+                  }
+                } catch (error) {
+                  showError(error instanceof Error ? error.message : 'Failed to import wearable data');
+                  setShowImportModal(false);
+                } finally {
+                  setIsImporting(false);
                 }
-              }
-            }}
-            onCancel={() => {
-              setShowImportStrategyModal(false);
-              setImportPreview(null);
-              setSelectedFile(null);
-              if (fileInputRef.current) {
-                fileInputRef.current.value = '';
-              }
-            }}
+              }}
+              onCancel={() => setWearableData(null)}
             />
           )}
         </ImportErrorBoundary>
@@ -959,6 +1352,11 @@ export function Profile() {
             isOpen={showImportModal}
             progress={importProgress}
             result={importResult}
+            onCancel={importAbortRef.current ? () => {
+              setIsCancellingImport(true);
+              importAbortRef.current?.abort();
+            } : undefined}
+            isCancelling={isCancellingImport}
             onClose={() => {
               setShowImportModal(false);
               setImportProgress(null);
@@ -983,6 +1381,30 @@ export function Profile() {
                 className="w-5 h-5 rounded accent-primary"
               />
             </label>
+            <label className="flex items-center justify-between p-3 rounded-xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-surface-border">
+              <div className="flex items-center gap-3">
+                <Flame className="w-5 h-5 text-slate-400" />
+                <span className="text-sm font-medium text-slate-700 dark:text-slate-300">Auto Warm-up Sets</span>
+              </div>
+              <input
+                type="checkbox"
+                checked={settings.autoWarmupSets}
+                onChange={() => setAutoWarmupSets(!settings.autoWarmupSets)}
+                className="w-5 h-5 rounded accent-primary"
+              />
+            </label>
+            <label className="flex items-center justify-between p-3 rounded-xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-surface-border">
+              <div className="flex items-center gap-3">
+                <TrendingUp className="w-5 h-5 text-slate-400" />
+                <span className="text-sm font-medium text-slate-700 dark:text-slate-300">Progression Targets</span>
+              </div>
+              <input
+                type="checkbox"
+                checked={settings.progressionEnabled}
+                onChange={() => setProgressionEnabled(!settings.progressionEnabled)}
+                className="w-5 h-5 rounded accent-primary"
+              />
+            </label>
             <label className="flex items-center justify-between p-3 rounded-xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-surface-border">
               <div className="flex items-center gap-3">
                 <Volume2 className="w-5 h-5 text-slate-400" />
@@ -1020,6 +1442,9 @@ export function Profile() {
                   const permission = await notificationService.requestPermission();
                   await setNotificationPermission(permission);
                   if (permission === 'granted') {
+                    pushNotificationService.registerDevice().catch((error) => {
+                      logger.warn('[Profile] Failed to register for push notifications:', error);
+                    });
                     success('Notification permission granted');
                   } else if (permission === 'denied') {
                     showError('Notification permission denied. Please enable it in your browser settings.');
@@ -1094,6 +1519,62 @@ export function Profile() {
                     className="w-5 h-5 rounded accent-primary"
                   />
                 </label>
+
+                <label className="flex items-center justify-between p-3 rounded-xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-surface-border">
+                  <div className="flex items-center gap-3">
+                    <Bell className="w-5 h-5 text-slate-400" />
+                    <div>
+                      <span className="text-sm font-medium text-slate-700 dark:text-slate-300 block">Inactivity Nudges</span>
+                      <span className="text-xs text-slate-500 dark:text-slate-400">Get a nudge after a few days without a workout</span>
+                    </div>
+                  </div>
+                  <input
+                    type="checkbox"
+                    checked={settings.inactivityNudgesEnabled ?? true}
+                    onChange={(e) => setInactivityNudgesEnabled(e.target.checked)}
+                    className="w-5 h-5 rounded accent-primary"
+                  />
+                </label>
+
+                <div className="p-3 rounded-xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-surface-border space-y-3">
+                  <label className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <Moon className="w-5 h-5 text-slate-400" />
+                      <div>
+                        <span className="text-sm font-medium text-slate-700 dark:text-slate-300 block">Quiet Hours</span>
+                        <span className="text-xs text-slate-500 dark:text-slate-400">No notifications between these times ({settings.timeZone})</span>
+                      </div>
+                    </div>
+                    <input
+                      type="checkbox"
+                      checked={settings.quietHours.enabled}
+                      onChange={(e) => setQuietHours({ enabled: e.target.checked })}
+                      className="w-5 h-5 rounded accent-primary"
+                    />
+                  </label>
+                  {settings.quietHours.enabled && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <label className="block">
+                        <span className="text-xs text-slate-500 dark:text-slate-400">From</span>
+                        <input
+                          type="time"
+                          value={settings.quietHours.start}
+                          onChange={(e) => e.target.value && setQuietHours({ start: e.target.value })}
+                          className="w-full rounded-lg border border-gray-100 dark:border-surface-border bg-white dark:bg-surface-dark px-3 py-2 text-sm text-slate-900 dark:text-white focus:border-primary focus:ring-1 focus:ring-primary outline-none"
+                        />
+                      </label>
+                      <label className="block">
+                        <span className="text-xs text-slate-500 dark:text-slate-400">Until</span>
+                        <input
+                          type="time"
+                          value={settings.quietHours.end}
+                          onChange={(e) => e.target.value && setQuietHours({ end: e.target.value })}
+                          className="w-full rounded-lg border border-gray-100 dark:border-surface-border bg-white dark:bg-surface-dark px-3 py-2 text-sm text-slate-900 dark:text-white focus:border-primary focus:ring-1 focus:ring-primary outline-none"
+                        />
+                      </label>
+                    </div>
+                  )}
+                </div>
               </>
             )}
           </div>
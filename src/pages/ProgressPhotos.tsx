@@ -0,0 +1,329 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeft, Camera, Cloud, Trash2 } from 'lucide-react';
+import { useUserStore } from '@/store/userStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { progressPhotoService } from '@/services/progressPhotoService';
+import { bodyMeasurementService } from '@/services/bodyMeasurementService';
+import { ProgressPhoto, ProgressPhotoPose } from '@/types/progressPhoto';
+import { BodyMeasurement } from '@/types/measurement';
+import { useToast } from '@/hooks/useToast';
+import { useObjectUrls } from '@/hooks/useObjectUrls';
+import { ProgressPhotoComparison } from '@/components/progress/ProgressPhotoComparison';
+import { groupPhotosByDay, PROGRESS_PHOTO_POSE_LABELS } from '@/utils/progressPhotoHelpers';
+import { getBodyweightAt } from '@/utils/measurementHelpers';
+import { convertWeight } from '@/utils/calculations';
+import { cn } from '@/utils/cn';
+import { logger } from '@/utils/logger';
+
+type View = 'timeline' | 'compare';
+
+const POSES: ProgressPhotoPose[] = ['front', 'side', 'back'];
+
+const inputClassName =
+  'w-full rounded-xl border border-gray-100 dark:border-surface-border bg-white dark:bg-surface-dark px-3 py-2.5 text-base text-slate-900 dark:text-white focus:border-primary focus:ring-1 focus:ring-primary transition-all outline-none';
+
+export function ProgressPhotos() {
+  const navigate = useNavigate();
+  const { profile } = useUserStore();
+  const { settings, setProgressPhotoPrivacy } = useSettingsStore();
+  const { success, error: showError } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [view, setView] = useState<View>('timeline');
+  const [photos, setPhotos] = useState<ProgressPhoto[]>([]);
+  const [measurements, setMeasurements] = useState<BodyMeasurement[]>([]);
+  const [date, setDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [pose, setPose] = useState<ProgressPhotoPose>('front');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUpdatingPrivacy, setIsUpdatingPrivacy] = useState(false);
+
+  const unit = profile?.preferredUnit || 'kg';
+  const isCloudBackup = settings.progressPhotoPrivacy === 'cloud';
+
+  const loadPhotos = useCallback(async () => {
+    if (!profile?.id) {
+      return;
+    }
+    try {
+      const [loadedPhotos, loadedMeasurements] = await Promise.all([
+        progressPhotoService.getPhotos(profile.id),
+        bodyMeasurementService.getMeasurements(profile.id),
+      ]);
+      setPhotos(loadedPhotos);
+      setMeasurements(loadedMeasurements);
+    } catch (error) {
+      logger.error('[ProgressPhotos] Failed to load photos:', error);
+    }
+  }, [profile?.id]);
+
+  useEffect(() => {
+    loadPhotos();
+  }, [loadPhotos]);
+
+  const days = useMemo(() => groupPhotosByDay(photos), [photos]);
+  const blobs = useMemo(() => photos.map((photo) => ({ id: photo.id, blob: photo.image })), [photos]);
+  const photoUrls = useObjectUrls(blobs);
+  const getBodyweight = useCallback((day: Date) => getBodyweightAt(measurements, day), [measurements]);
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !profile?.id) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      // Photos for today keep the capture time; past dates are pinned to midday
+      const today = format(new Date(), 'yyyy-MM-dd');
+      await progressPhotoService.addPhoto(
+        {
+          userId: profile.id,
+          file,
+          date: date === today ? new Date() : new Date(`${date}T12:00:00`),
+          pose,
+        },
+        settings.progressPhotoPrivacy
+      );
+      await loadPhotos();
+      success('Progress photo saved');
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to save photo');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (photo: ProgressPhoto) => {
+    if (!window.confirm('Delete this progress photo? This cannot be undone.')) {
+      return;
+    }
+    try {
+      await progressPhotoService.deletePhoto(photo.id);
+      await loadPhotos();
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to delete photo');
+    }
+  };
+
+  const handlePrivacyChange = async (cloudBackup: boolean) => {
+    if (!profile?.id) {
+      return;
+    }
+    if (!cloudBackup && !window.confirm('Keep photos on this device only? Any cloud copies will be deleted.')) {
+      return;
+    }
+
+    setIsUpdatingPrivacy(true);
+    try {
+      if (cloudBackup) {
+        await setProgressPhotoPrivacy('cloud');
+        const uploaded = await progressPhotoService.uploadPendingPhotos(profile.id);
+        success(uploaded > 0 ? `Backed up ${uploaded} photo${uploaded === 1 ? '' : 's'}` : 'Cloud backup enabled');
+      } else {
+        // Stop new uploads before removing existing copies
+        await setProgressPhotoPrivacy('device');
+        await progressPhotoService.removeCloudCopies(profile.id);
+        success('Photos are now kept on this device only');
+      }
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to update photo privacy');
+    } finally {
+      setIsUpdatingPrivacy(false);
+      await loadPhotos();
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!profile?.id) {
+      return;
+    }
+    setIsUpdatingPrivacy(true);
+    try {
+      const restored = await progressPhotoService.restoreFromCloud(profile.id);
+      success(restored > 0 ? `Restored ${restored} photo${restored === 1 ? '' : 's'}` : 'All cloud photos are already on this device');
+      await loadPhotos();
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to restore photos');
+    } finally {
+      setIsUpdatingPrivacy(false);
+    }
+  };
+
+  const formatBodyweight = (day: Date): string | null => {
+    const bodyweight = getBodyweight(day);
+    return bodyweight !== undefined ? `${convertWeight(bodyweight, 'kg', unit).toFixed(1)} ${unit}` : null;
+  };
+
+  return (
+    <div className="relative flex h-full min-h-screen w-full max-w-lg mx-auto flex-col overflow-hidden bg-background-light dark:bg-background-dark">
+      {/* Top App Bar */}
+      <div className="sticky top-0 z-50 flex items-center bg-background-light/95 dark:bg-background-dark/95 backdrop-blur-md p-4 pb-2 justify-between border-b border-gray-100 dark:border-surface-border/30">
+        <button
+          onClick={() => navigate(-1)}
+          className="text-slate-900 dark:text-white flex size-12 shrink-0 items-center justify-center rounded-full hover:bg-black/5 dark:hover:bg-white/10 transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <h2 className="text-slate-900 dark:text-white text-lg font-bold leading-tight tracking-[-0.015em] flex-1 text-center">
+          Progress Photos
+        </h2>
+        <div className="size-12 shrink-0" />
+      </div>
+
+      <div className="flex-1 p-4 space-y-6 pb-24">
+        {/* Add Photo */}
+        <section className="space-y-3 rounded-xl bg-gray-50 dark:bg-surface-dark/50 border border-gray-100 dark:border-border-dark p-4">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="text-sm font-medium text-slate-600 dark:text-slate-300 mb-1.5 block ml-1">Date</span>
+              <input
+                className={inputClassName}
+                type="date"
+                value={date}
+                max={format(new Date(), 'yyyy-MM-dd')}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </label>
+            <div>
+              <span className="text-sm font-medium text-slate-600 dark:text-slate-300 mb-1.5 block ml-1">Pose</span>
+              <div className="flex gap-1">
+                {POSES.map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setPose(option)}
+                    className={cn(
+                      'flex-1 rounded-xl py-2.5 text-sm font-semibold transition-colors',
+                      pose === option
+                        ? 'bg-primary text-black'
+                        : 'bg-white dark:bg-surface-dark text-slate-600 dark:text-slate-300'
+                    )}
+                  >
+                    {PROGRESS_PHOTO_POSE_LABELS[option]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*,.heic,.heif"
+            className="hidden"
+            onChange={handleFileSelected}
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isSaving || !date}
+            className="w-full flex items-center justify-center gap-2 rounded-xl py-3 font-bold bg-primary hover:bg-[#E67E22] text-black transition-colors touch-manipulation active:scale-[0.98] min-h-[44px] disabled:opacity-60"
+          >
+            <Camera className="w-5 h-5" />
+            {isSaving ? 'Saving...' : 'Add Photo'}
+          </button>
+        </section>
+
+        {/* Privacy */}
+        <section className="space-y-3">
+          <label className="flex items-center justify-between p-3 rounded-xl bg-gray-50 dark:bg-surface-dark/50 border border-gray-100 dark:border-border-dark">
+            <div>
+              <span className="text-sm font-medium text-slate-700 dark:text-slate-300 block">Back up to cloud</span>
+              <span className="text-xs text-slate-500 dark:text-slate-400">
+                {isCloudBackup ? 'Private copies are stored in your account' : 'Photos never leave this device'}
+              </span>
+            </div>
+            <input
+              type="checkbox"
+              checked={isCloudBackup}
+              disabled={isUpdatingPrivacy}
+              onChange={(e) => handlePrivacyChange(e.target.checked)}
+              className="w-5 h-5 rounded border-gray-300 text-primary focus:ring-primary"
+            />
+          </label>
+          {isCloudBackup && (
+            <button
+              type="button"
+              onClick={handleRestore}
+              disabled={isUpdatingPrivacy}
+              className="text-sm font-medium text-primary hover:underline px-1 disabled:opacity-60"
+            >
+              Restore photos from cloud
+            </button>
+          )}
+        </section>
+
+        {/* View Toggle */}
+        <div className="flex rounded-xl bg-gray-100 dark:bg-surface-dark p-1">
+          {(['timeline', 'compare'] as View[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setView(option)}
+              className={cn(
+                'flex-1 rounded-lg py-2 text-sm font-semibold transition-colors',
+                view === option
+                  ? 'bg-white dark:bg-surface-dark-light text-slate-900 dark:text-white shadow-sm'
+                  : 'text-slate-500 dark:text-slate-400'
+              )}
+            >
+              {option === 'timeline' ? 'Timeline' : 'Compare'}
+            </button>
+          ))}
+        </div>
+
+        {view === 'compare' ? (
+          <ProgressPhotoComparison days={days} photoUrls={photoUrls} getBodyweight={getBodyweight} unit={unit} />
+        ) : days.length === 0 ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-8">
+            No progress photos yet. Take front, side and back photos in the same spot and lighting for the clearest comparison.
+          </p>
+        ) : (
+          <div className="space-y-5">
+            {days.map((entry) => (
+              <div key={entry.day} className="space-y-2">
+                <div className="flex items-baseline justify-between px-1">
+                  <h3 className="font-bold text-slate-900 dark:text-white">{format(entry.date, 'MMM d, yyyy')}</h3>
+                  {formatBodyweight(entry.date) && (
+                    <span className="text-xs font-medium text-slate-500 dark:text-slate-400">
+                      {formatBodyweight(entry.date)}
+                    </span>
+                  )}
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  {entry.photos.map((photo) => (
+                    <div key={photo.id} className="relative aspect-[3/4] rounded-xl overflow-hidden bg-gray-100 dark:bg-surface-dark">
+                      {photoUrls[photo.id] && (
+                        <img
+                          src={photoUrls[photo.id]}
+                          alt={`${PROGRESS_PHOTO_POSE_LABELS[photo.pose]} pose`}
+                          className="w-full h-full object-cover"
+                        />
+                      )}
+                      <span className="absolute left-1.5 bottom-1.5 rounded-md bg-black/60 px-1.5 py-0.5 text-[10px] font-bold text-white">
+                        {PROGRESS_PHOTO_POSE_LABELS[photo.pose]}
+                      </span>
+                      {photo.storagePath && (
+                        <Cloud className="absolute left-1.5 top-1.5 w-4 h-4 text-white drop-shadow" aria-label="Backed up" />
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(photo)}
+                        className="absolute right-1 top-1 rounded-full bg-black/50 p-1.5 text-white hover:bg-red-500 transition-colors"
+                        aria-label="Delete photo"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { format, isValid, parseISO } from 'date-fns';
+import { ArrowLeft, ChevronLeft, ChevronRight, Download, Printer, Share2, Trophy } from 'lucide-react';
+import { useUserStore } from '@/store/userStore';
+import { reportService } from '@/services/reportService';
+import { ReportPeriod, TrainingReport } from '@/types/report';
+import { formatMuscleLabel, getLastCompletedRange, getReportRange, shiftReportRange } from '@/utils/reportHelpers';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { ToastContainer } from '@/components/common/Toast';
+import { useToast } from '@/hooks/useToast';
+import { cn } from '@/utils/cn';
+import { logger } from '@/utils/logger';
+
+const PERIODS: Array<{ value: ReportPeriod; label: string }> = [
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' },
+];
+
+function formatChange(current: number, previous: number): string | null {
+  if (previous === 0) {
+    return null;
+  }
+  const change = Math.round(((current - previous) / previous) * 100);
+  return `${change >= 0 ? '+' : ''}${change}%`;
+}
+
+function StatCard({ label, value, change }: { label: string; value: string; change?: string | null }) {
+  return (
+    <div className="rounded-xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-surface-border p-3">
+      <p className="text-xs text-slate-500 dark:text-slate-400">{label}</p>
+      <p className="text-xl font-bold text-slate-900 dark:text-white">{value}</p>
+      {change && (
+        <p className={cn('text-xs font-medium', change.startsWith('-') ? 'text-red-500' : 'text-green-600 dark:text-green-400')}>
+          {change} vs previous
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function Reports() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { profile } = useUserStore();
+  const { toasts, removeToast, success, error: showError } = useToast();
+  const [report, setReport] = useState<TrainingReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const unit = profile?.preferredUnit || 'kg';
+
+  const range = useMemo(() => {
+    const period: ReportPeriod = searchParams.get('period') === 'month' ? 'month' : 'week';
+    const date = parseISO(searchParams.get('date') ?? '');
+    return isValid(date) ? getReportRange(period, date) : getLastCompletedRange(period);
+  }, [searchParams]);
+
+  const isCurrentPeriod = range.end.getTime() >= Date.now();
+
+  useEffect(() => {
+    if (!profile?.id) {
+      return;
+    }
+    setIsLoading(true);
+    reportService.generateReport(profile.id, range)
+      .then(setReport)
+      .catch((error) => {
+        logger.error('[Reports] Failed to generate report:', error);
+        showError('Failed to generate report');
+      })
+      .finally(() => setIsLoading(false));
+  }, [profile?.id, range, showError]);
+
+  const showRange = (period: ReportPeriod, date: Date) => {
+    setSearchParams({ period, date: format(date, 'yyyy-MM-dd') }, { replace: true });
+  };
+
+  const handleShare = async () => {
+    if (!report) {
+      return;
+    }
+    try {
+      const result = await reportService.shareReport(report, unit);
+      if (result === 'copied') {
+        success('Report summary copied to clipboard');
+      }
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        return;
+      }
+      showError('Failed to share report');
+    }
+  };
+
+  const handlePrint = () => {
+    if (report && !reportService.printReport(report, unit)) {
+      showError('Allow pop-ups to print or save the report as PDF');
+    }
+  };
+
+  const handleDownload = () => {
+    if (!report) {
+      return;
+    }
+    try {
+      reportService.downloadHtml(report, unit);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to download report');
+    }
+  };
+
+  const maxMuscleVolume = Math.max(...(report?.volumeByMuscle.map(entry => entry.volume) ?? []), 1);
+
+  return (
+    <div className="relative flex h-full min-h-screen w-full max-w-lg mx-auto flex-col overflow-hidden bg-background-light dark:bg-background-dark">
+      {/* Top App Bar */}
+      <div className="sticky top-0 z-50 flex items-center bg-background-light/95 dark:bg-background-dark/95 backdrop-blur-md p-4 pb-2 justify-between border-b border-gray-100 dark:border-surface-border/30">
+        <button
+          onClick={() => navigate(-1)}
+          className="text-slate-900 dark:text-white flex size-12 shrink-0 items-center justify-center rounded-full hover:bg-black/5 dark:hover:bg-white/10 transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <h2 className="text-slate-900 dark:text-white text-lg font-bold leading-tight tracking-[-0.015em] flex-1 text-center">
+          Training Reports
+        </h2>
+        <div className="size-12 shrink-0" />
+      </div>
+
+      <div className="flex-1 p-4 space-y-4 pb-24">
+        <div className="flex gap-2">
+          {PERIODS.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => showRange(value, getLastCompletedRange(value).start)}
+              className={cn(
+                'flex-1 rounded-lg py-2 text-sm font-semibold transition-colors',
+                range.period === value
+                  ? 'bg-primary text-black'
+                  : 'bg-white dark:bg-surface-dark text-slate-600 dark:text-slate-300 border border-gray-100 dark:border-surface-border'
+              )}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => showRange(range.period, shiftReportRange(range, -1).start)}
+            className="p-2 rounded-full hover:bg-black/5 dark:hover:bg-white/10 text-slate-700 dark:text-slate-300"
+            aria-label="Previous period"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <div className="text-center">
+            <p className="font-bold text-slate-900 dark:text-white">
+              {range.period === 'month'
+                ? format(range.start, 'MMMM yyyy')
+                : `${format(range.start, 'MMM d')} - ${format(range.end, 'MMM d, yyyy')}`}
+            </p>
+            {isCurrentPeriod && <p className="text-xs text-slate-500 dark:text-slate-400">In progress</p>}
+          </div>
+          <button
+            onClick={() => showRange(range.period, shiftReportRange(range, 1).start)}
+            disabled={isCurrentPeriod}
+            className="p-2 rounded-full hover:bg-black/5 dark:hover:bg-white/10 text-slate-700 dark:text-slate-300 disabled:opacity-30"
+            aria-label="Next period"
+          >
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        </div>
+
+        {isLoading || !report ? (
+          <div className="flex justify-center py-16">
+            <LoadingSpinner />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <StatCard label="Sessions" value={String(report.sessions)} change={formatChange(report.sessions, report.previous.sessions)} />
+              <StatCard label="Training days" value={String(report.trainingDays)} />
+              <StatCard
+                label="Total volume"
+                value={`${Math.round(report.totalVolume).toLocaleString()} ${unit}`}
+                change={formatChange(report.totalVolume, report.previous.totalVolume)}
+              />
+              <StatCard label="Time trained" value={`${Math.round(report.totalDuration)} min`} />
+            </div>
+
+            <section className="rounded-xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-surface-border p-4 space-y-3">
+              <h3 className="font-bold text-slate-900 dark:text-white">Volume by muscle</h3>
+              {report.volumeByMuscle.length === 0 ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400">No volume logged.</p>
+              ) : (
+                report.volumeByMuscle.slice(0, 8).map(entry => (
+                  <div key={entry.muscle} className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-slate-700 dark:text-slate-300">{formatMuscleLabel(entry.muscle)}</span>
+                      <span className="text-slate-500 dark:text-slate-400">{Math.round(entry.percentage)}%</span>
+                    </div>
+                    <div className="h-1.5 rounded-full bg-gray-100 dark:bg-surface-border">
+                      <div className="h-1.5 rounded-full bg-primary" style={{ width: `${(entry.volume / maxMuscleVolume) * 100}%` }} />
+                    </div>
+                  </div>
+                ))
+              )}
+            </section>
+
+            <section className="rounded-xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-surface-border p-4 space-y-2">
+              <h3 className="font-bold text-slate-900 dark:text-white">Personal records</h3>
+              {report.personalRecords.length === 0 ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400">No new personal records.</p>
+              ) : (
+                report.personalRecords.map(record => (
+                  <div key={`${record.exerciseName}-${record.date.getTime()}`} className="flex items-center gap-3 text-sm">
+                    <Trophy className="w-4 h-4 text-primary shrink-0" />
+                    <span className="flex-1 text-slate-700 dark:text-slate-300">{record.exerciseName}</span>
+                    <span className="font-semibold text-slate-900 dark:text-white">
+                      {record.weight} {unit} x {record.reps}
+                    </span>
+                    <span className="text-xs text-slate-500 dark:text-slate-400">was {record.previousWeight}</span>
+                  </div>
+                ))
+              )}
+            </section>
+
+            <section className="rounded-xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-surface-border p-4 space-y-2 text-sm">
+              <h3 className="font-bold text-slate-900 dark:text-white">Plan adherence</h3>
+              <p className="text-slate-700 dark:text-slate-300">
+                {report.adherence
+                  ? `${report.adherence.completed} of ${report.adherence.planned} planned workouts completed (${report.adherence.percentage}%)`
+                  : 'No workouts were planned.'}
+              </p>
+            </section>
+
+            <section className="rounded-xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-surface-border p-4 space-y-2 text-sm">
+              <h3 className="font-bold text-slate-900 dark:text-white">Sleep & recovery</h3>
+              <p className="text-slate-700 dark:text-slate-300">
+                {report.sleep
+                  ? `${report.sleep.averageHours.toFixed(1)} h sleep on average, quality ${report.sleep.averageQuality.toFixed(1)}/10`
+                  : 'No sleep logged.'}
+              </p>
+              <p className="text-slate-700 dark:text-slate-300">
+                {report.recovery
+                  ? `${Math.round(report.recovery.averageRecovery)}% recovery on average, energy ${report.recovery.averageEnergy.toFixed(1)}/10`
+                  : 'No recovery check-ins logged.'}
+              </p>
+            </section>
+
+            <div className="grid grid-cols-3 gap-2">
+              <button
+                onClick={handleShare}
+                className="flex flex-col items-center gap-1 rounded-xl bg-primary hover:bg-[#E67E22] text-black font-semibold py-3 text-sm transition-colors"
+              >
+                <Share2 className="w-5 h-5" />
+                Share
+              </button>
+              <button
+                onClick={handlePrint}
+                className="flex flex-col items-center gap-1 rounded-xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-surface-border text-slate-700 dark:text-slate-300 font-semibold py-3 text-sm"
+              >
+                <Printer className="w-5 h-5" />
+                Print / PDF
+              </button>
+              <button
+                onClick={handleDownload}
+                className="flex flex-col items-center gap-1 rounded-xl bg-white dark:bg-surface-dark border border-gray-100 dark:border-surface-border text-slate-700 dark:text-slate-300 font-semibold py-3 text-sm"
+              >
+                <Download className="w-5 h-5" />
+                HTML
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+      <ToastContainer toasts={toasts} onRemove={removeToast} />
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, Check, Edit } from 'lucide-react';
+import { ArrowLeft, Check, ChevronRight, Edit, UtensilsCrossed } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { useUserStore } from '@/store/userStore';
 import { sleepRecoveryService } from '@/services/sleepRecoveryService';
@@ -345,6 +345,20 @@ export function SleepRecovery() {
 
       {/* Main Scrollable Content */}
       <div className="flex-1 overflow-y-auto pb-24 p-4 space-y-6">
+        <button
+          onClick={() => navigate('/nutrition')}
+          className="flex w-full items-center gap-3 rounded-xl bg-white dark:bg-surface-dark p-4 shadow-sm border border-gray-100 dark:border-surface-border text-left hover:border-primary/50 transition-colors"
+        >
+          <div className="p-2 rounded-lg bg-primary/10">
+            <UtensilsCrossed className="w-5 h-5 text-primary" />
+          </div>
+          <div className="flex-1">
+            <p className="font-bold text-slate-900 dark:text-white">Nutrition & Hydration</p>
+            <p className="text-xs text-slate-500 dark:text-text-secondary">Log meals, water and supplements</p>
+          </div>
+          <ChevronRight className="w-5 h-5 text-slate-400" />
+        </button>
+
         {/* Minimal Summary View - shown when data exists and not editing */}
         {showMinimalView && (
           <>
@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, CheckCircle2 } from 'lucide-react';
+import { useUserStore } from '@/store/userStore';
+import { syncConflictService } from '@/services/syncConflictService';
+import { ConflictResolutionChoice, SyncConflict } from '@/types/sync';
+import { SyncConflictCard } from '@/components/sync/SyncConflictCard';
+import { useToast } from '@/hooks/useToast';
+import { logger } from '@/utils/logger';
+
+const RESOLUTION_MESSAGES: Record<ConflictResolutionChoice, string> = {
+  local: 'Kept the version from this device',
+  remote: 'Kept the version from your other device',
+  merge: 'Merged both versions',
+};
+
+export function SyncConflicts() {
+  const navigate = useNavigate();
+  const { profile } = useUserStore();
+  const { success, error: showError } = useToast();
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const loadConflicts = useCallback(async () => {
+    if (!profile?.id) {
+      return;
+    }
+    try {
+      setConflicts(await syncConflictService.getPendingConflicts(profile.id));
+    } catch (error) {
+      logger.error('[SyncConflicts] Failed to load conflicts:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [profile?.id]);
+
+  useEffect(() => {
+    loadConflicts();
+  }, [loadConflicts]);
+
+  const handleResolve = async (conflict: SyncConflict, choice: ConflictResolutionChoice) => {
+    setResolvingId(conflict.id);
+    try {
+      await syncConflictService.resolveConflict(conflict.id, choice);
+      success(RESOLUTION_MESSAGES[choice]);
+      await loadConflicts();
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to resolve conflict');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <div className="relative flex h-full min-h-screen w-full max-w-lg mx-auto flex-col overflow-hidden bg-background-light dark:bg-background-dark">
+      {/* Top App Bar */}
+      <div className="sticky top-0 z-50 flex items-center bg-background-light/95 dark:bg-background-dark/95 backdrop-blur-md p-4 pb-2 justify-between border-b border-gray-100 dark:border-surface-border/30">
+        <button
+          onClick={() => navigate(-1)}
+          className="text-slate-900 dark:text-white flex size-12 shrink-0 items-center justify-center rounded-full hover:bg-black/5 dark:hover:bg-white/10 transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <h2 className="text-slate-900 dark:text-white text-lg font-bold leading-tight tracking-[-0.015em] flex-1 text-center">
+          Sync Conflicts
+        </h2>
+        <div className="size-12 shrink-0" />
+      </div>
+
+      <div className="flex-1 p-4 space-y-4 pb-24">
+        {!isLoading && conflicts.length === 0 ? (
+          <div className="flex flex-col items-center text-center gap-2 py-16">
+            <CheckCircle2 className="w-10 h-10 text-primary" />
+            <p className="font-bold text-slate-900 dark:text-white">No conflicts to review</p>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              Records edited on two devices between syncs will show up here.
+            </p>
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-slate-500 dark:text-slate-400 px-1">
+              These records were changed on this device and on another device before they could sync.
+              Choose which version to keep, or merge them. Nothing is uploaded until you decide.
+            </p>
+            {conflicts.map((conflict) => (
+              <SyncConflictCard
+                key={conflict.id}
+                conflict={conflict}
+                isResolving={resolvingId === conflict.id}
+                onResolve={handleResolve}
+              />
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
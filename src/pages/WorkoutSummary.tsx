@@ -1,12 +1,15 @@
 import { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useUserStore } from '@/store/userStore';
+import { useSettingsStore } from '@/store/settingsStore';
 import { workoutSummaryService } from '@/services/workoutSummaryService';
 import { dataService } from '@/services/dataService';
 import { WorkoutSummaryData, RecoveryLogData } from '@/types/workoutSummary';
 import { SessionAnalysisCard } from '@/components/workout/summary/SessionAnalysisCard';
 import { MuscleDistributionChart } from '@/components/workout/summary/MuscleDistributionChart';
 import { ExerciseBreakdown } from '@/components/workout/summary/ExerciseBreakdown';
+import { CardioAnalysisCard } from '@/components/workout/summary/CardioAnalysisCard';
+import { TrainingLoadCard } from '@/components/workout/summary/TrainingLoadCard';
 import { AIInsightCard } from '@/components/workout/summary/AIInsightCard';
 import { PersonalRecordsCard } from '@/components/workout/summary/PersonalRecordsCard';
 import { SessionTrends } from '@/components/workout/summary/SessionTrends';
@@ -41,7 +44,11 @@ export function WorkoutSummary() {
 
       try {
         // Workout IDs are now strings, no need to parse
-        const data = await workoutSummaryService.generateSummary(workoutId, profile.id);
+        const data = await workoutSummaryService.generateSummary(
+          workoutId,
+          profile.id,
+          useSettingsStore.getState().settings.oneRepMaxFormula
+        );
         setSummaryData(data);
       } catch (err) {
         console.error('Failed to load workout summary:', err);
@@ -293,6 +300,16 @@ export function WorkoutSummary() {
           <ExerciseBreakdown comparisons={summaryData.exerciseComparisons} />
         )}
 
+        {/* Cardio route and splits */}
+        {summaryData?.workout && (
+          <CardioAnalysisCard workout={summaryData.workout} />
+        )}
+
+        {/* Heart-rate zones and training load */}
+        {summaryData?.workout && (
+          <TrainingLoadCard workout={summaryData.workout} />
+        )}
+
         {/* Session Trends */}
         {(summaryData?.exerciseTrends?.length ?? 0) > 0 && (
           <SessionTrends trends={summaryData.exerciseTrends} />
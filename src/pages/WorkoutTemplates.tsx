@@ -1,18 +1,21 @@
 import { useState, useEffect, useMemo } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, Search, Filter, Plus } from 'lucide-react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Search, Filter, Plus, Download } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useTemplateStore } from '@/store/templateStore';
 import { useUserStore } from '@/store/userStore';
 import { useWorkoutStore } from '@/store/workoutStore';
-import { TemplateCategory } from '@/types/workout';
+import { TemplateCategory, WorkoutTemplate } from '@/types/workout';
 import { CategoryChip } from '@/components/template/CategoryChip';
 import { TemplateCarouselCard } from '@/components/template/TemplateCarouselCard';
 import { TemplateListCard } from '@/components/template/TemplateListCard';
+import { ShareTemplateModal } from '@/components/template/ShareTemplateModal';
+import { ImportTemplatePackageModal } from '@/components/template/ImportTemplatePackageModal';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import { EmptyState } from '@/components/common/EmptyState';
 import { useToast } from '@/hooks/useToast';
 import { prefersReducedMotion } from '@/utils/animations';
+import { getShareCode } from '@/utils/templatePackage';
 
 const CATEGORIES: Array<{ value: TemplateCategory | 'all'; label: string }> = [
     { value: 'all', label: 'All' },
@@ -25,6 +28,7 @@ const CATEGORIES: Array<{ value: TemplateCategory | 'all'; label: string }> = [
 
 export function WorkoutTemplates() {
     const navigate = useNavigate();
+    const location = useLocation();
     const { profile } = useUserStore();
     const { startWorkoutFromTemplate } = useWorkoutStore();
     const { success, error: showError } = useToast();
@@ -44,6 +48,9 @@ export function WorkoutTemplates() {
 
     const [searchQuery, setSearchQuery] = useState('');
     const [isSearching, setIsSearching] = useState(false);
+    const [sharingTemplate, setSharingTemplate] = useState<WorkoutTemplate | null>(null);
+    const [showImport, setShowImport] = useState(false);
+    const [shareCode, setShareCode] = useState<string | null>(null);
     const shouldReduceMotion = prefersReducedMotion();
 
     useEffect(() => {
@@ -54,6 +61,16 @@ export function WorkoutTemplates() {
         }
     }, [profile, loadTemplates, loadFeaturedTemplates, loadTrendingTemplates]);
 
+    // Opened from a share link: offer the package for import and drop it from the URL
+    useEffect(() => {
+        const code = location.hash ? getShareCode(location.hash) : null;
+        if (code) {
+            setShareCode(code);
+            setShowImport(true);
+            navigate(location.pathname, { replace: true });
+        }
+    }, [location.hash, location.pathname, navigate]);
+
     useEffect(() => {
         if (!profile) {
     return;
@@ -106,6 +123,17 @@ export function WorkoutTemplates() {
         navigate('/create-template');
     };
 
+    const handleImportClose = () => {
+        setShowImport(false);
+        setShareCode(null);
+    };
+
+    const handleImported = () => {
+        if (profile) {
+            loadTemplates(profile.id);
+        }
+    };
+
     const displayedTemplates = useMemo(() => {
         if (isSearching && searchQuery.trim()) {
             return templates;
@@ -180,6 +208,13 @@ export function WorkoutTemplates() {
                             Create Custom Template
                         </span>
                     </motion.button>
+                    <button
+                        onClick={() => setShowImport(true)}
+                        className="w-full mt-2 h-10 flex items-center justify-center gap-2 rounded-lg text-sm font-bold text-primary hover:bg-primary/10 transition-colors"
+                    >
+                        <Download className="w-4 h-4" />
+                        Import Shared Template
+                    </button>
                 </div>
 
                 {/* Categories Chips */}
@@ -243,6 +278,7 @@ export function WorkoutTemplates() {
                                         key={template.id}
                                         template={template}
                                         onClick={() => handleTemplateSelect(template.id)}
+                                        onShare={() => setSharingTemplate(template)}
                                     />
                                 ))}
                             </AnimatePresence>
@@ -252,6 +288,17 @@ export function WorkoutTemplates() {
 
                 <div className="h-8" />
             </div>
+
+            <ShareTemplateModal template={sharingTemplate} onClose={() => setSharingTemplate(null)} />
+            {profile && (
+                <ImportTemplatePackageModal
+                    isOpen={showImport}
+                    userId={profile.id}
+                    shareCode={shareCode}
+                    onClose={handleImportClose}
+                    onImported={handleImported}
+                />
+            )}
         </div>
     );
 }
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AIGenerateRequest, AIProvider } from '@/types/ai';
+import { generateStructuredResponse } from '@/services/aiStructuredResponse';
+import { aiResponseMetrics } from '@/services/aiResponseMetrics';
+import { ruleBasedAIProvider } from '@/services/ruleBasedAIProvider';
+import { smartAlertsResponseSchema, workoutRecommendationsResponseSchema } from '@/utils/validationSchemas';
+
+const smartAlertsRequest = {
+  task: 'smart-alerts' as const,
+  workouts: [],
+  muscleStatuses: [],
+  readinessScore: 90,
+  prompt: 'Generate smart alerts',
+  responseFormat: 'json' as const,
+};
+
+const validAlerts = {
+  readinessStatus: 'optimal',
+  readinessMessage: 'Fully recovered and ready to train.',
+  criticalAlerts: [],
+  suggestions: [],
+  nutritionEvents: [],
+};
+
+function createRemoteProvider(responses: string[]): AIProvider & { requests: AIGenerateRequest[] } {
+  const requests: AIGenerateRequest[] = [];
+  return {
+    type: 'openai-compatible',
+    isRemote: true,
+    requests,
+    isConfigured: () => true,
+    generate: vi.fn(async (request: AIGenerateRequest) => {
+      requests.push(request);
+      return responses[requests.length - 1] ?? '';
+    }),
+  };
+}
+
+describe('generateStructuredResponse', () => {
+  beforeEach(() => {
+    aiResponseMetrics.reset();
+  });
+
+  it('should accept the rule-based provider output', async () => {
+    await expect(generateStructuredResponse(ruleBasedAIProvider, smartAlertsRequest, smartAlertsResponseSchema))
+      .resolves.toHaveProperty('readinessStatus');
+    await expect(generateStructuredResponse(
+      ruleBasedAIProvider,
+      {
+        task: 'workout-recommendations',
+        workouts: [],
+        muscleStatuses: [],
+        readinessScore: 90,
+        symmetryScore: 80,
+        focusDistribution: { legs: 33, push: 33, pull: 34 },
+        userLevel: 'intermediate',
+        baseRestInterval: 48,
+        prompt: '',
+        responseFormat: 'json',
+      },
+      workoutRecommendationsResponseSchema
+    )).resolves.toBeDefined();
+    expect(aiResponseMetrics.getMetrics().every(entry => entry.validationFailures === 0)).toBe(true);
+  });
+
+  it('should retry an invalid response with a repair prompt listing the problems', async () => {
+    const provider = createRemoteProvider([
+      JSON.stringify({ ...validAlerts, readinessStatus: 'great' }),
+      JSON.stringify(validAlerts),
+    ]);
+
+    const result = await generateStructuredResponse(provider, smartAlertsRequest, smartAlertsResponseSchema);
+
+    expect(result.readinessStatus).toBe('optimal');
+    expect(provider.requests).toHaveLength(2);
+    expect(provider.requests[0].responseSchema).toMatchObject({ type: 'object' });
+    expect(provider.requests[1].prompt).toContain('readinessStatus:');
+    expect(aiResponseMetrics.getMetrics()).toEqual([
+      expect.objectContaining({ task: 'smart-alerts', responses: 2, validationFailures: 1, repairSuccesses: 1, fallbacks: 0 }),
+    ]);
+  });
+
+  it('should throw and count a fallback when the repair is also invalid', async () => {
+    const provider = createRemoteProvider(['Sorry, I cannot help with that.', '{"readinessStatus": "optimal"}']);
+
+    await expect(generateStructuredResponse(provider, smartAlertsRequest, smartAlertsResponseSchema))
+      .rejects.toMatchObject({ code: 'AI_RESPONSE_INVALID' });
+    expect(aiResponseMetrics.getMetrics()[0]).toMatchObject({ validationFailures: 2, repairSuccesses: 0, fallbacks: 1 });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { File as NodeFile } from 'node:buffer';
+
+const mocks = vi.hoisted(() => ({
+  createWorkout: vi.fn(async () => 1),
+  createTemplate: vi.fn(async () => 'template-1'),
+  saveSleepLog: vi.fn(async () => 1),
+}));
+
+vi.mock('../dataService', () => ({
+  dataService: {
+    getAllWorkouts: vi.fn(async () => []),
+    createWorkout: mocks.createWorkout,
+  },
+}));
+
+vi.mock('../templateService', () => ({
+  templateService: {
+    getAllTemplates: vi.fn(async () => []),
+    createTemplate: mocks.createTemplate,
+  },
+}));
+
+vi.mock('../sleepRecoveryService', () => ({
+  sleepRecoveryService: {
+    getSleepLog: vi.fn(async () => null),
+    saveSleepLog: mocks.saveSleepLog,
+  },
+}));
+
+vi.mock('../plannedWorkoutService', () => ({ plannedWorkoutService: {} }));
+vi.mock('../trainingProgramService', () => ({ trainingProgramService: {} }));
+vi.mock('../progressPhotoService', () => ({ progressPhotoService: {} }));
+
+vi.mock('../transactionManager', () => ({
+  transactionManager: { execute: (_stores: string[], operation: () => Promise<unknown>) => operation() },
+}));
+
+vi.mock('../database', () => ({
+  dbHelpers: {
+    getSetting: vi.fn(async () => undefined),
+    setSetting: vi.fn(async () => undefined),
+    deleteSetting: vi.fn(async () => undefined),
+  },
+}));
+
+import { chunkedImport } from '../chunkedImport';
+
+// jsdom's File has no arrayBuffer(); Node's implementation matches the browser API
+const toFile = (data: unknown) => new NodeFile([JSON.stringify(data)], 'backup.json') as unknown as File;
+
+const workout = (overrides: Record<string, unknown> = {}) => ({
+  userId: 'old-user',
+  date: '2026-01-05T18:00:00.000Z',
+  startTime: '2026-01-05T18:00:00.000Z',
+  exercises: [],
+  totalDuration: 60,
+  totalVolume: 0,
+  musclesTargeted: [],
+  workoutType: 'strength',
+  ...overrides,
+});
+
+describe('chunkedImport.importFile', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should report malformed records without writing them and import the rest of the batch', async () => {
+    const result = await chunkedImport.importFile('user-1', toFile({
+      version: '2.0.0',
+      exportDate: '2026-01-06T00:00:00.000Z',
+      workouts: [
+        workout(),
+        workout({ date: undefined }),
+        workout({ date: 'last tuesday' }),
+        workout({ date: '2026-01-07T18:00:00.000Z', exercises: null }),
+      ],
+      templates: [{ id: 'template-1', exercises: [] }],
+      sleepLogs: [{ date: '2026-01-05', duration: 480 }, 42],
+    }), 'merge');
+
+    expect(mocks.createWorkout).toHaveBeenCalledTimes(1);
+    expect(mocks.createTemplate).not.toHaveBeenCalled();
+    expect(mocks.saveSleepLog).toHaveBeenCalledTimes(1);
+    expect(result.details.workouts).toEqual({ imported: 1, skipped: 0, errors: 3 });
+    expect(result.details.templates).toEqual({ imported: 0, skipped: 0, errors: 1 });
+    expect(result.details.sleepLogs).toEqual({ imported: 1, skipped: 0, errors: 1 });
+    expect(result.errors.map((error) => [error.category, error.technicalMessage])).toEqual([
+      ['workout', 'Missing workout date'],
+      ['workout', 'Invalid workout date: last tuesday'],
+      ['workout', 'Missing or invalid exercises array'],
+      ['template', 'Missing template name'],
+      ['sleepLog', 'Record is not an object'],
+    ]);
+    expect(result.errors.every((error) => error.type === 'validation')).toBe(true);
+  });
+});
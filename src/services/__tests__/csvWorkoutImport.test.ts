@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Exercise } from '@/types/exercise';
+import { MuscleGroup } from '@/types/muscle';
+import { ParsedCsvFile } from '@/types/csvImport';
+
+const mocks = vi.hoisted(() => ({
+  exercises: [] as Exercise[],
+}));
+
+vi.mock('../exerciseLibrary', () => ({
+  exerciseLibrary: { getAllExercises: vi.fn(async () => mocks.exercises) },
+}));
+
+vi.mock('../dataService', () => ({ dataService: {} }));
+
+vi.mock('../dataExport', () => ({
+  createEmptyImportResult: vi.fn(),
+  createImportError: vi.fn(),
+}));
+
+import { csvWorkoutImport } from '../csvWorkoutImport';
+
+const exercise = (id: string, name: string, equipment: string[] = ['Barbell']): Exercise => ({
+  id,
+  name,
+  category: 'strength',
+  primaryMuscles: [MuscleGroup.CHEST],
+  secondaryMuscles: [],
+  equipment,
+  difficulty: 'intermediate',
+  instructions: [],
+  isCustom: false,
+  trackingType: 'weight_reps',
+});
+
+const fileWith = (names: string[]): ParsedCsvFile => ({
+  source: 'strong',
+  workouts: [{ date: new Date(2026, 0, 5, 18), exercises: names.map(name => ({ name, sets: [] })) }],
+  rowErrors: [],
+  totalRows: names.length,
+});
+
+describe('csvWorkoutImport', () => {
+  it('should only auto-map exact names and send partial matches to review', async () => {
+    mocks.exercises = [
+      exercise('bench', 'Barbell Bench Press'),
+      exercise('incline', 'Incline Bench Press'),
+      exercise('machine', 'Bench Press Machine', ['Machine']),
+      exercise('curl', 'Dumbbell Curl', ['Dumbbells']),
+    ];
+
+    const matches = await csvWorkoutImport.matchExerciseNames(fileWith(['Bench Press (Barbell)', 'Bench', 'Dumbbell Curls']));
+    const bySource = Object.fromEntries(matches.map(match => [match.sourceName, match]));
+
+    // Strong's trailing equipment qualifier and plurals still count as exact
+    expect(bySource['Bench Press (Barbell)']).toMatchObject({ exerciseId: 'bench', confidence: 100 });
+    expect(bySource['Dumbbell Curls']).toMatchObject({ exerciseId: 'curl', confidence: 100 });
+
+    const partial = bySource['Bench'];
+    expect(partial.exerciseId).toBeNull();
+    expect(partial.confidence).toBeLessThan(80);
+    expect(partial.candidates.map(candidate => candidate.exerciseId)).toEqual(expect.arrayContaining(['machine', 'bench', 'incline']));
+  });
+});
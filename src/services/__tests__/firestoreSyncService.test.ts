@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  localRecords: [] as Record<string, unknown>[],
+  remoteRecord: null as Record<string, unknown> | null,
+  metadata: null as { lastPushAt?: number; lastPullAt?: number } | null,
+  batchSet: vi.fn(),
+  saveSyncConflict: vi.fn(),
+}));
+
+vi.mock('firebase/firestore', () => ({
+  collection: vi.fn(),
+  doc: vi.fn((_db: unknown, ...path: string[]) => ({ path: path.join('/') })),
+  getDoc: vi.fn(async () => ({
+    exists: () => mocks.remoteRecord !== null,
+    data: () => mocks.remoteRecord,
+  })),
+  getDocs: vi.fn(),
+  query: vi.fn(),
+  where: vi.fn(),
+  orderBy: vi.fn(),
+  writeBatch: vi.fn(() => ({ set: mocks.batchSet, commit: vi.fn(async () => undefined) })),
+  Timestamp: class {
+    static fromDate(date: Date) {
+      return date;
+    }
+  },
+}));
+
+vi.mock('../firebaseConfig', () => ({
+  getFirestoreDb: vi.fn(() => ({})),
+  getFirebaseAuth: vi.fn(() => ({ currentUser: { uid: 'user-1' } })),
+  forceFirestoreOnline: vi.fn(),
+}));
+
+vi.mock('../database', () => ({
+  dbHelpers: {
+    getRecordsByUserId: vi.fn(async () => mocks.localRecords),
+    getSyncConflict: vi.fn(async () => undefined),
+    saveSyncConflict: mocks.saveSyncConflict,
+  },
+}));
+
+vi.mock('../syncMetadataService', () => ({
+  syncMetadataService: {
+    getLocalMetadata: vi.fn(async () => mocks.metadata),
+    incrementConflictCount: vi.fn(),
+    updateLastSyncTime: vi.fn(),
+    updateSyncStatus: vi.fn(),
+  },
+}));
+
+vi.mock('../errorRecovery', () => ({
+  errorRecovery: { withRetry: (operation: () => Promise<unknown>) => operation() },
+}));
+
+vi.mock('../errorLogService', () => ({
+  errorLogService: { logSyncError: vi.fn(async () => undefined) },
+}));
+
+vi.mock('../firestoreDiagnostics', () => ({ firestoreDiagnostics: { recordSyncAttempt: vi.fn() } }));
+
+import { firestoreSyncService } from '../firestoreSyncService';
+
+const LAST_SYNC = new Date('2024-05-01T10:00:00Z').getTime();
+
+const template = (overrides: Record<string, unknown> = {}) => ({
+  id: 'template-1',
+  userId: 'user-1',
+  name: 'Push Day',
+  category: 'strength',
+  exercises: [{ exerciseId: 'bench', exerciseName: 'Bench Press', sets: 3, reps: 8 }],
+  version: 2,
+  createdAt: new Date('2024-04-01T10:00:00Z'),
+  updatedAt: new Date(LAST_SYNC - 60_000),
+  ...overrides,
+});
+
+const pushTemplates = async () => {
+  const [result] = await firestoreSyncService.sync('user-1', { direction: 'push', tables: ['workout_templates'] });
+  return result;
+};
+
+describe('firestoreSyncService push', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.metadata = { lastPushAt: LAST_SYNC, lastPullAt: LAST_SYNC };
+  });
+
+  it('should push a local edit that kept its version over an unchanged remote copy', async () => {
+    mocks.localRecords = [template({ name: 'Push Day A', updatedAt: new Date(LAST_SYNC + 60_000) })];
+    mocks.remoteRecord = template();
+
+    const result = await pushTemplates();
+
+    expect(result.conflicts).toBe(0);
+    expect(mocks.saveSyncConflict).not.toHaveBeenCalled();
+    expect(mocks.batchSet).toHaveBeenCalledWith(
+      { path: 'users/user-1/templates/template-1' },
+      expect.objectContaining({ name: 'Push Day A' }),
+      { merge: true }
+    );
+  });
+
+  it('should queue a conflict when another device wrote the record since the last sync', async () => {
+    mocks.localRecords = [template({ name: 'Push Day A', updatedAt: new Date(LAST_SYNC + 60_000) })];
+    mocks.remoteRecord = template({ name: 'Push Day B', updatedAt: new Date(LAST_SYNC + 30_000) });
+
+    const result = await pushTemplates();
+
+    expect(result.conflicts).toBe(1);
+    expect(mocks.batchSet).not.toHaveBeenCalled();
+    expect(mocks.saveSyncConflict).toHaveBeenCalledWith(expect.objectContaining({
+      id: 'workout_templates:template-1',
+      remoteRecord: expect.objectContaining({ name: 'Push Day B' }),
+    }));
+  });
+
+  it('should queue a conflict when the remote carries a newer version', async () => {
+    mocks.localRecords = [template({ name: 'Push Day A', updatedAt: new Date(LAST_SYNC + 60_000) })];
+    mocks.remoteRecord = template({ name: 'Push Day B', version: 3 });
+
+    expect((await pushTemplates()).conflicts).toBe(1);
+    expect(mocks.batchSet).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { ruleBasedAIProvider, buildMuscleBalanceText, buildProgressInsightText } from '@/services/ruleBasedAIProvider';
+
+describe('ruleBasedAIProvider', () => {
+  it('should answer JSON tasks with parseable JSON', async () => {
+    const text = await ruleBasedAIProvider.generate({
+      task: 'smart-alerts',
+      workouts: [],
+      muscleStatuses: [],
+      readinessScore: 70,
+      prompt: '',
+      responseFormat: 'json',
+    });
+    expect(JSON.parse(text)).toMatchObject({ readinessStatus: 'low', criticalAlerts: [] });
+  });
+
+  it('should give the same answer for the same input', async () => {
+    const request = {
+      task: 'workout-insights' as const,
+      context: { recentWorkouts: [], muscleStatuses: [], userGoals: [], userLevel: 'beginner', weakPoints: [], progressTrends: {} },
+      prompt: '',
+      responseFormat: 'json' as const,
+    };
+    expect(await ruleBasedAIProvider.generate(request)).toBe(await ruleBasedAIProvider.generate(request));
+  });
+
+  it('should describe volume in the requested unit', () => {
+    expect(buildProgressInsightText(1000, 4, 12, 'chest', 'lbs', 'last month'))
+      .toBe('You moved 2,205 lbs across 4 workouts, up 12% vs last month. Chest led the way.');
+  });
+
+  it('should point at the least trained movement pattern', () => {
+    expect(buildMuscleBalanceText({ legs: 15, push: 45, pull: 40 }, 80, [])).toMatch(/^Legs is only 15%/);
+  });
+
+  it('should greet the user on empty screens without a remote provider', async () => {
+    const text = await ruleBasedAIProvider.generate({
+      task: 'empty-state',
+      userName: 'Sam',
+      screenName: 'Home',
+      timeOfDay: 'evening',
+      prompt: '',
+      responseFormat: 'text',
+    });
+    expect(text).toMatch(/^Good evening, Sam!/);
+  });
+});
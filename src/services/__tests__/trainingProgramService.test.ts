@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PlannedWorkout } from '@/types/workout';
+import { TrainingProgram } from '@/types/program';
+
+const mocks = vi.hoisted(() => ({
+  programs: new Map<string, TrainingProgram>(),
+  sessions: new Map<string, PlannedWorkout>(),
+  nextSessionId: 0,
+}));
+
+vi.mock('../database', () => ({
+  dbHelpers: {
+    saveTrainingProgram: vi.fn(async (program: TrainingProgram) => {
+      mocks.programs.set(program.id, program);
+      return program.id;
+    }),
+    getTrainingProgram: vi.fn(async (id: string) => mocks.programs.get(id)),
+    getAllTrainingPrograms: vi.fn(async (userId: string) =>
+      [...mocks.programs.values()].filter(p => p.userId === userId)
+    ),
+    updateTrainingProgram: vi.fn(async (id: string, updates: Partial<TrainingProgram>) => {
+      const program = mocks.programs.get(id);
+      if (program) {
+        mocks.programs.set(id, { ...program, ...updates });
+      }
+    }),
+    getPlannedWorkoutsByProgram: vi.fn(async (programId: string) =>
+      [...mocks.sessions.values()].filter(s => s.programId === programId)
+    ),
+  },
+}));
+
+vi.mock('../plannedWorkoutService', () => ({
+  plannedWorkoutService: {
+    createPlannedWorkout: vi.fn(async (_userId: string, session: Omit<PlannedWorkout, 'id' | 'createdAt' | 'updatedAt'>) => {
+      const id = `planned-${++mocks.nextSessionId}`;
+      mocks.sessions.set(id, { ...session, id, createdAt: new Date(), updatedAt: new Date() });
+      return id;
+    }),
+    updatePlannedWorkout: vi.fn(async (id: string, updates: Partial<PlannedWorkout>) => {
+      const session = mocks.sessions.get(id);
+      if (session) {
+        mocks.sessions.set(id, { ...session, ...updates });
+      }
+    }),
+    deletePlannedWorkout: vi.fn(async (id: string) => {
+      mocks.sessions.delete(id);
+    }),
+  },
+}));
+
+vi.mock('../templateService', () => ({
+  templateService: {
+    getTemplate: vi.fn(async (id: string) => ({
+      id,
+      name: 'Full Body',
+      category: 'strength',
+      estimatedDuration: 60,
+      musclesTargeted: [],
+      exercises: [{ exerciseId: 'squat', exerciseName: 'Squat', sets: 3, reps: 5, weight: 100, restTime: 180 }],
+    })),
+  },
+}));
+
+vi.mock('../dataService', () => ({ dataService: { notifyProgramUpdate: vi.fn() } }));
+
+import { trainingProgramService } from '../trainingProgramService';
+
+// Monday and Thursday sessions from Monday 5 January 2026
+const createProgram = () =>
+  trainingProgramService.createProgram({
+    userId: 'user-1',
+    name: 'Base Block',
+    durationWeeks: 2,
+    startDate: new Date(2026, 0, 5),
+    days: [{ dayOfWeek: 1, templateId: 'full-body' }, { dayOfWeek: 4, templateId: 'full-body' }],
+  });
+
+const sessionOn = (date: Date) =>
+  [...mocks.sessions.values()].find(s => new Date(s.scheduledDate).getTime() === date.getTime());
+
+const completeSessionOn = (date: Date) => {
+  const session = sessionOn(date);
+  if (session) {
+    mocks.sessions.set(session.id, { ...session, isCompleted: true, completedWorkoutId: `workout-${session.id}` });
+  }
+};
+
+describe('trainingProgramService', () => {
+  beforeEach(() => {
+    mocks.programs.clear();
+    mocks.sessions.clear();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should keep sessions from before a pause in the adherence of the current run', async () => {
+    vi.setSystemTime(new Date(2026, 0, 5, 8));
+    const id = await createProgram();
+    completeSessionOn(new Date(2026, 0, 5));
+
+    // The Thursday session is missed, then the program is paused for a week
+    vi.setSystemTime(new Date(2026, 0, 9, 8));
+    await trainingProgramService.pauseProgram(id);
+    vi.setSystemTime(new Date(2026, 0, 16, 8));
+    await trainingProgramService.resumeProgram(id);
+
+    expect(sessionOn(new Date(2026, 0, 19))?.programWeek).toBe(2);
+    expect(sessionOn(new Date(2026, 0, 22))?.programWeek).toBe(2);
+
+    const adherence = await trainingProgramService.getAdherence(id, new Date(2026, 0, 16, 8));
+    expect(adherence).toMatchObject({
+      totalSessions: 4,
+      completedSessions: 1,
+      missedSessions: 1,
+      upcomingSessions: 2,
+      adherencePercentage: 50,
+    });
+    expect(adherence.byWeek).toEqual([
+      { weekNumber: 1, planned: 2, completed: 1, missed: 1 },
+      { weekNumber: 2, planned: 2, completed: 0, missed: 0 },
+    ]);
+  });
+
+  it('should only count the new run after a restart', async () => {
+    vi.setSystemTime(new Date(2026, 0, 5, 8));
+    const id = await createProgram();
+    completeSessionOn(new Date(2026, 0, 5));
+
+    await trainingProgramService.restartProgram(id, new Date(2026, 0, 12));
+
+    const adherence = await trainingProgramService.getAdherence(id, new Date(2026, 0, 12, 8));
+    expect(adherence).toMatchObject({ totalSessions: 4, completedSessions: 0, missedSessions: 0, upcomingSessions: 4 });
+    // The completed session from the first run stays in history
+    expect(sessionOn(new Date(2026, 0, 5))?.isCompleted).toBe(true);
+  });
+
+  it('should complete a program the day after its last shifted session', async () => {
+    vi.setSystemTime(new Date(2026, 0, 5, 8));
+    const id = await createProgram();
+    await trainingProgramService.shiftProgram(id, 3);
+
+    expect(await trainingProgramService.completeFinishedPrograms('user-1', new Date(2026, 0, 18, 20))).toBe(0);
+    expect(await trainingProgramService.completeFinishedPrograms('user-1', new Date(2026, 0, 19, 8))).toBe(1);
+    expect((await trainingProgramService.getProgram(id))?.status).toBe('completed');
+  });
+});
@@ -1,7 +1,12 @@
 import { Workout } from '@/types/workout';
-import { MuscleGroup, MuscleStatus } from '@/types/muscle';
-import { differenceInHours } from 'date-fns';
+import { MuscleGroup, MuscleStatus, DEFAULT_RECOVERY_SETTINGS } from '@/types/muscle';
+import { RecoveryPrediction } from '@/types/insights';
+import { addDays, differenceInHours, format } from 'date-fns';
 import { calculateVolume } from '@/utils/calculations';
+import { categorizeMuscleGroup } from '@/utils/analyticsHelpers';
+import { HeartRateSettings } from '@/types/cardio';
+import { getHeartRateSettings } from '@/utils/heartRateZones';
+import { calculateWorkoutTrimp } from '@/utils/trainingLoad';
 
 /**
  * Advanced Recovery Modeling Service
@@ -12,6 +17,8 @@ import { calculateVolume } from '@/utils/calculations';
 // Constants for fatigue modeling
 const FATIGUE_DECAY_RATE = 0.05; // Hourly decay rate
 const WORKLOAD_FATIGUE_FACTOR = 0.5; // Conversion of workload score to fatigue units
+const TRIMP_FATIGUE_FACTOR = 0.2; // Conversion of cardio TRIMP to fatigue units
+const CARDIO_FATIGUE_WARNING = 20; // Systemic fatigue that warrants an easier day
 
 /**
  * Calculate fatigue accumulation for a specific muscle group
@@ -30,6 +37,28 @@ export function calculateFatigueAccumulation(
   return Math.max(0, Math.round(currentFatigue));
 }
 
+/**
+ * Systemic fatigue from cardio load at a point in time. Each session's TRIMP
+ * decays with the same exponential model as muscle fatigue, and is added on
+ * top of it since heart-rate load taxes every muscle group.
+ */
+export function calculateCardioFatigue(
+  recentWorkouts: Workout[],
+  at: Date,
+  heartRateSettings: HeartRateSettings
+): number {
+  const fatigue = recentWorkouts.reduce((sum, workout) => {
+    const hours = differenceInHours(at, new Date(workout.endTime ?? workout.date));
+    if (hours < 0) {
+      return sum;
+    }
+    const trimp = calculateWorkoutTrimp(workout, heartRateSettings);
+    return sum + trimp * TRIMP_FATIGUE_FACTOR * Math.exp(-FATIGUE_DECAY_RATE * hours);
+  }, 0);
+
+  return Math.round(fatigue);
+}
+
 /**
  * Calculate supercompensation score
  * Supercompensation occurs when recovery > 100% (overshoot)
@@ -194,3 +223,149 @@ export function calculatePRProbability(
   
   return Math.min(100, Math.round(probability));
 }
+
+/**
+ * Calculate recovery predictions for the next 7 days
+ */
+export function calculateRecoveryPredictions(
+  muscleStatuses: MuscleStatus[],
+  userLevel: 'beginner' | 'intermediate' | 'advanced',
+  baseRestInterval: number,
+  recentWorkouts?: Workout[],
+  heartRateSettings: HeartRateSettings = getHeartRateSettings()
+): RecoveryPrediction[] {
+  const predictions: RecoveryPrediction[] = [];
+  const today = new Date();
+
+  for (let i = 0; i < 7; i++) {
+    const targetDate = addDays(today, i);
+    const dayLabel = format(targetDate, 'EEE'); // Mon, Tue, etc.
+
+    // Calculate average recovery for all muscles on this day
+    let totalRecovery = 0;
+    let count = 0;
+    let maxFatigue = 0;
+    let maxSupercompensation = 0;
+    
+    const readyMusclesByCategory: { legs: MuscleGroup[]; push: MuscleGroup[]; pull: MuscleGroup[] } = {
+      legs: [],
+      push: [],
+      pull: [],
+    };
+
+    muscleStatuses.forEach((status) => {
+      let projectedRecovery = 100;
+      let fatigue = 0;
+      let supercomp = 0;
+      
+      const lastWorked = status.lastWorked instanceof Date 
+        ? status.lastWorked 
+        : status.lastWorked ? new Date(status.lastWorked) : null;
+
+      if (!lastWorked) {
+        // Never worked (or fully recovered)
+        totalRecovery += 100;
+        count++;
+        const category = categorizeMuscleGroup(status.muscle);
+        readyMusclesByCategory[category].push(status.muscle);
+      } else {
+        // Calculate hours between target date and last workout
+        const hoursSinceWorkout = differenceInHours(targetDate, lastWorked);
+
+        // Advanced metrics calculation
+        fatigue = calculateFatigueAccumulation(status, hoursSinceWorkout);
+        supercomp = calculateSupercompensation(status, hoursSinceWorkout);
+        maxFatigue = Math.max(maxFatigue, fatigue);
+        maxSupercompensation = Math.max(maxSupercompensation, supercomp);
+
+        if (hoursSinceWorkout < 0) {
+          // Target date is before last workout (shouldn't happen for future predictions)
+          projectedRecovery = status.recoveryPercentage;
+        } else {
+          // Calculate projected recovery
+          const recoverySettings = DEFAULT_RECOVERY_SETTINGS;
+          let baseRecoveryHours = 48;
+
+          if (userLevel === 'beginner') {
+            baseRecoveryHours = (recoverySettings.beginnerRestDays[status.muscle] || 2) * 24;
+          } else if (userLevel === 'intermediate') {
+            baseRecoveryHours = (recoverySettings.intermediateRestDays[status.muscle] || 2) * 24;
+          } else {
+            baseRecoveryHours = (recoverySettings.advancedRestDays[status.muscle] || 1) * 24;
+          }
+
+          if (baseRestInterval !== undefined) {
+            const defaultBase = 48;
+            const ratio = baseRestInterval / defaultBase;
+            baseRecoveryHours = baseRecoveryHours * ratio;
+          }
+
+          const workloadMultiplier = 1 + (status.workloadScore / 100);
+          const adjustedRecoveryHours = baseRecoveryHours * workloadMultiplier;
+
+          projectedRecovery = Math.min(
+            100,
+            Math.max(0, (hoursSinceWorkout / adjustedRecoveryHours) * 100)
+          );
+        }
+
+        totalRecovery += projectedRecovery;
+        count++;
+
+        if (projectedRecovery >= 75) {
+          const category = categorizeMuscleGroup(status.muscle);
+          readyMusclesByCategory[category].push(status.muscle);
+        }
+      }
+    });
+
+    const avgRecovery = count > 0 ? Math.round(totalRecovery / count) : 85;
+    const cardioFatigue = recentWorkouts ? calculateCardioFatigue(recentWorkouts, targetDate, heartRateSettings) : 0;
+    const fatigueWarnings = avgRecovery < 50 ? ['High fatigue - consider rest'] : [];
+    if (cardioFatigue >= CARDIO_FATIGUE_WARNING) {
+      fatigueWarnings.push('High cardio load - keep intensity low');
+    }
+
+    // Determine workout type based on ready muscles
+    let workoutType: 'push' | 'pull' | 'legs' | 'rest' = 'rest';
+    if (readyMusclesByCategory.legs.length >= 2) {
+      workoutType = 'legs';
+    } else if (readyMusclesByCategory.push.length >= 2) {
+      workoutType = 'push';
+    } else if (readyMusclesByCategory.pull.length >= 2) {
+      workoutType = 'pull';
+    } else if (avgRecovery >= 75) {
+      workoutType = 'rest';
+    }
+    
+    // Calculate PR Probability if recent workouts are available
+    let prProb = 0;
+    if (recentWorkouts && recentWorkouts.length > 0 && muscleStatuses.length > 0) {
+      // Use the muscle with highest readiness to estimate PR chance for the day
+      const bestMuscle = muscleStatuses.reduce((prev, curr) => 
+        (curr.recoveryPercentage > prev.recoveryPercentage) ? curr : prev
+      );
+      // Rough estimation of hours since workout for best muscle
+      const lastWorked = bestMuscle.lastWorked ? new Date(bestMuscle.lastWorked) : null;
+      const hours = lastWorked ? differenceInHours(targetDate, lastWorked) : 100;
+      
+      prProb = calculatePRProbability(bestMuscle, recentWorkouts, hours);
+    }
+
+    const prediction: RecoveryPrediction = {
+      date: targetDate.toISOString().split('T')[0],
+      dayLabel,
+      workoutType,
+      recoveryPercentage: Math.max(1, avgRecovery),
+      prPotential: avgRecovery >= 90 ? ['Optimal recovery for PR attempts'] : [],
+      fatigueWarnings,
+      fatigueAccumulation: maxFatigue + cardioFatigue,
+      supercompensationScore: maxSupercompensation,
+      prProbability: prProb,
+      volumePrediction: 0, // Placeholder
+    };
+    predictions.push(prediction);
+  }
+
+  return predictions;
+}
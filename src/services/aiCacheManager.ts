@@ -1,4 +1,5 @@
 import { db, InsightType, AICacheMetadata as DBAICacheMetadata } from './database';
+import { CoachContext, CoachMessage } from '@/types/ai';
 import { logger } from '@/utils/logger';
 
 export type { InsightType };
@@ -6,6 +7,9 @@ export type { InsightType };
 const TWENTY_FOUR_HOURS_MS = 24 * 60 * 60 * 1000;
 
 class AICacheManager {
+    // Coach context per user, rebuilt whenever the training data fingerprint changes
+    private coachContexts: Map<string, CoachContext> = new Map();
+
     /**
      * Get cache metadata for a specific insight type
      */
@@ -209,6 +213,42 @@ class AICacheManager {
 
         return Math.max(0, timeRemaining);
     }
+
+    /**
+     * Coach conversation for a user, oldest message first
+     */
+    async getCoachMessages(userId: string): Promise<CoachMessage[]> {
+        try {
+            return await db.coachMessages
+                .where('[userId+createdAt]')
+                .between([userId, new Date(0)], [userId, new Date(8640000000000000)])
+                .toArray();
+        } catch (error) {
+            logger.error('Failed to load coach messages:', error);
+            return [];
+        }
+    }
+
+    async saveCoachMessage(message: CoachMessage): Promise<void> {
+        await db.coachMessages.put(message);
+    }
+
+    async clearCoachMessages(userId: string): Promise<void> {
+        await db.coachMessages.where('userId').equals(userId).delete();
+        this.coachContexts.delete(userId);
+    }
+
+    /**
+     * Coach context built from the same data, or null when the data changed
+     */
+    getCachedCoachContext(userId: string, fingerprint: string): CoachContext | null {
+        const cached = this.coachContexts.get(userId);
+        return cached && cached.fingerprint === fingerprint ? cached : null;
+    }
+
+    setCachedCoachContext(userId: string, context: CoachContext): void {
+        this.coachContexts.set(userId, context);
+    }
 }
 
 export const aiCacheManager = new AICacheManager();
@@ -1,4 +1,6 @@
 import { logger } from '@/utils/logger';
+import { AIProviderType } from '@/types/ai';
+import { aiProviderRegistry } from './aiProviders';
 
 interface CachedResponse<T> {
   data: T;
@@ -12,6 +14,7 @@ interface QueuedRequest<T = unknown> {
   resolve: (value: T) => void;
   reject: (error: Error) => void;
   priority: number;
+  isRemote: boolean; // Local providers skip rate limiting and retries
 }
 
 // TTL removed - now controlled by aiRefreshService (24hr rule + event-based)
@@ -19,6 +22,7 @@ interface QueuedRequest<T = unknown> {
 const RATE_LIMIT_MS = 30000; // 30 seconds between calls
 const MAX_RETRIES = 3;
 const RETRY_DELAY_BASE = 1000; // 1 second
+const PROVIDER_TYPES: AIProviderType[] = ['gemini', 'openai-compatible', 'rule-based'];
 
 class AICallManager {
   private cache: Map<string, CachedResponse<unknown>> = new Map();
@@ -28,8 +32,26 @@ class AICallManager {
   private pendingRequest: NodeJS.Timeout | null = null;
   private idbInitialized = false;
 
+  /**
+   * Responses are cached per provider so switching providers never serves
+   * another backend's answer
+   */
   private getCacheKey(fingerprint: string, type: 'insights' | 'recommendations' | 'progress' | 'smart-coach'): string {
-    return `${type}:${fingerprint}`;
+    return `${aiProviderRegistry.getActiveProviderType()}:${type}:${fingerprint}`;
+  }
+
+  /**
+   * Gemini keeps the unprefixed path because the service worker's background
+   * fetch (which only talks to Gemini) writes there too
+   */
+  private getPersistentCachePath(
+    fingerprint: string,
+    type: 'insights' | 'recommendations' | 'progress' | 'smart-coach',
+    provider: AIProviderType = aiProviderRegistry.getActiveProviderType()
+  ): string {
+    return provider === 'gemini'
+      ? `/ai-cache/${type}/${fingerprint}`
+      : `/ai-cache/${provider}/${type}/${fingerprint}`;
   }
 
   /**
@@ -77,7 +99,7 @@ class AICallManager {
       // Try Cache API first (what SW uses)
       if ('caches' in window) {
         const cache = await caches.open('ai-responses');
-        const cached = await cache.match(`/ai-cache/${type}/${fingerprint}`);
+        const cached = await cache.match(this.getPersistentCachePath(fingerprint, type));
         if (cached) {
           const data = await cached.json();
           // Also store in memory for faster access next time
@@ -123,7 +145,7 @@ class AICallManager {
         const response = new Response(JSON.stringify(data), {
           headers: { 'Content-Type': 'application/json' },
         });
-        await cache.put(`/ai-cache/${type}/${fingerprint}`, response);
+        await cache.put(this.getPersistentCachePath(fingerprint, type), response);
       }
     } catch (error) {
       logger.warn('[AICallManager] Failed to persist to cache:', error);
@@ -146,8 +168,10 @@ class AICallManager {
           const cache = await caches.open('ai-responses');
           const types: Array<'insights' | 'recommendations' | 'progress' | 'smart-coach'> = 
             ['insights', 'recommendations', 'progress', 'smart-coach'];
-          for (const type of types) {
-            await cache.delete(`/ai-cache/${type}/${fingerprint}`);
+          for (const provider of PROVIDER_TYPES) {
+            for (const type of types) {
+              await cache.delete(this.getPersistentCachePath(fingerprint, type, provider));
+            }
           }
         }
       } catch (error) {
@@ -180,20 +204,26 @@ class AICallManager {
     this.requestQueue.sort((a, b) => b.priority - a.priority);
 
     while (this.requestQueue.length > 0) {
-      const now = Date.now();
-      const timeSinceLastCall = now - this.lastCallTime;
+      const request = this.requestQueue[0];
 
-      // Rate limiting: Wait if called too recently
-      if (timeSinceLastCall < RATE_LIMIT_MS) {
-        const waitTime = RATE_LIMIT_MS - timeSinceLastCall;
-        await new Promise(resolve => setTimeout(resolve, waitTime));
+      if (request.isRemote) {
+        const now = Date.now();
+        const timeSinceLastCall = now - this.lastCallTime;
+
+        // Rate limiting: Wait if called too recently
+        if (timeSinceLastCall < RATE_LIMIT_MS) {
+          const waitTime = RATE_LIMIT_MS - timeSinceLastCall;
+          await new Promise(resolve => setTimeout(resolve, waitTime));
+        }
+        this.lastCallTime = Date.now();
       }
 
-      const request = this.requestQueue.shift()!;
-      this.lastCallTime = Date.now();
+      this.requestQueue.shift();
 
       try {
-        const result = await this.executeWithRetry(request.fn, MAX_RETRIES);
+        const result = request.isRemote
+          ? await this.executeWithRetry(request.fn, MAX_RETRIES)
+          : await request.fn();
         (request.resolve as (value: unknown) => void)(result);
       } catch (error) {
         request.reject(error instanceof Error ? error : new Error(String(error)));
@@ -237,6 +267,7 @@ class AICallManager {
         resolve: resolve as (value: unknown) => void,
         reject: reject as (error: Error) => void,
         priority,
+        isRemote: aiProviderRegistry.getActiveProvider().isRemote,
       };
 
       this.requestQueue.push(request);
@@ -0,0 +1,396 @@
+import { addDays, format, startOfDay } from 'date-fns';
+import { CoachContext, CoachMessage, CoachToolCall, PlannedWorkoutEditProposal } from '@/types/ai';
+import { PlannedExercise } from '@/types/workout';
+import { aiCacheManager } from './aiCacheManager';
+import { aiChangeDetector } from './aiChangeDetector';
+import { aiDataProcessor } from './aiDataProcessor';
+import { aiProviderRegistry } from './aiProviders';
+import { ruleBasedAIProvider } from './ruleBasedAIProvider';
+import { analyticsService } from './analyticsService';
+import { dataService } from './dataService';
+import { exerciseLibrary } from './exerciseLibrary';
+import { plannedWorkoutService } from './plannedWorkoutService';
+import { useUserStore } from '@/store/userStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { usePlannedWorkoutStore } from '@/store/plannedWorkoutStore';
+import { describeWorkoutSession, parseCoachAction, summarizeExerciseHistory } from '@/utils/coachHelpers';
+import { logger } from '@/utils/logger';
+
+const MAX_TOOL_CALLS = 4; // Per user question
+const HISTORY_MESSAGES = 20; // Messages sent with each request
+const CONTEXT_WORKOUTS = 60; // Most recent workouts available to the tools
+
+function createMessageId(): string {
+  return `coach-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function toPositiveInt(value: unknown, fallback: number, max: number): number {
+  const number = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(number) && number > 0 ? Math.min(Math.round(number), max) : fallback;
+}
+
+const TOOL_INSTRUCTIONS = `TOOLS (call one at a time; you will get the result back):
+- get_recent_workouts {"limit": number} - the user's latest workouts with each exercise's top set (limit 1-10, default 5)
+- get_exercise_history {"exercise": string} - every logged session of one exercise with best set, e1RM and whether it has stalled
+- get_recovery_status {} - per-muscle recovery percentages and overworked muscles
+- get_planned_workouts {"days": number} - upcoming planned workouts with their ids and exercises (days 1-28, default 14)
+- search_exercises {"query": string, "muscle": string} - exercises from the library with their ids; both fields optional
+- propose_planned_workout_edit {"plannedWorkoutId": string, "summary": string, "workoutName": string, "notes": string, "exercises": [{"exerciseId": string, "exerciseName": string, "sets": number, "reps": number, "weight": number}]} - suggest a change to an upcoming planned workout. Only plannedWorkoutId and summary are required; "exercises" replaces the whole exercise list. Take ids from get_planned_workouts and search_exercises. The user has to confirm the change before anything is saved.`;
+
+class AICoachService {
+  /**
+   * Conversation for a user, oldest message first
+   */
+  async getConversation(userId: string): Promise<CoachMessage[]> {
+    return await aiCacheManager.getCoachMessages(userId);
+  }
+
+  async clearConversation(userId: string): Promise<void> {
+    await aiCacheManager.clearCoachMessages(userId);
+  }
+
+  /**
+   * Ask the coach a question. Tool calls and the reply are saved to the
+   * conversation as they happen; the reply is returned.
+   */
+  async sendMessage(userId: string, text: string): Promise<CoachMessage> {
+    const question = text.trim();
+    if (!question) {
+      throw new Error('Message is empty');
+    }
+
+    await aiCacheManager.saveCoachMessage({
+      id: createMessageId(),
+      userId,
+      role: 'user',
+      content: question,
+      createdAt: new Date(),
+    });
+
+    const context = await this.getContext(userId);
+    let proposal: PlannedWorkoutEditProposal | undefined;
+    let reply: string | null = null;
+
+    for (let step = 0; step <= MAX_TOOL_CALLS && reply === null; step++) {
+      const history = (await this.getConversation(userId)).slice(-HISTORY_MESSAGES);
+      const action = parseCoachAction(await this.generate(history, context, step === MAX_TOOL_CALLS));
+
+      if (action.type === 'reply') {
+        reply = action.text;
+        break;
+      }
+      if (step === MAX_TOOL_CALLS) {
+        break;
+      }
+
+      const result = await this.runTool(userId, action.call, context);
+      if (result.proposal) {
+        proposal = result.proposal;
+      }
+      await aiCacheManager.saveCoachMessage({
+        id: createMessageId(),
+        userId,
+        role: 'tool',
+        content: result.output,
+        toolCall: action.call,
+        createdAt: new Date(),
+      });
+    }
+
+    const message: CoachMessage = {
+      id: createMessageId(),
+      userId,
+      role: 'assistant',
+      content: reply || (proposal ? proposal.summary : 'Sorry, I couldn\'t work that out. Try asking in a different way.'),
+      proposal,
+      createdAt: new Date(),
+    };
+    await aiCacheManager.saveCoachMessage(message);
+    return message;
+  }
+
+  /**
+   * Save a proposed planned workout change the user accepted
+   */
+  async applyProposal(messageId: string): Promise<void> {
+    const message = await this.getProposalMessage(messageId);
+    const { proposal } = message;
+    if (!proposal) {
+      return;
+    }
+
+    const plannedWorkout = await plannedWorkoutService.getPlannedWorkout(proposal.plannedWorkoutId);
+    if (!plannedWorkout || plannedWorkout.deletedAt) {
+      throw new Error('This planned workout no longer exists');
+    }
+    if (plannedWorkout.isCompleted) {
+      throw new Error('This workout has already been completed');
+    }
+
+    const updates: Parameters<typeof plannedWorkoutService.updatePlannedWorkout>[1] = { ...proposal.changes };
+    if (proposal.changes.exercises) {
+      const exercises = await Promise.all(proposal.changes.exercises.map(ex => exerciseLibrary.getExerciseById(ex.exerciseId)));
+      updates.musclesTargeted = [...new Set(exercises.flatMap(ex => ex?.primaryMuscles ?? []))];
+    }
+
+    // Through the store so an open planner picks up the change and reminders are rescheduled
+    await usePlannedWorkoutStore.getState().updatePlannedWorkout(proposal.plannedWorkoutId, updates);
+    await aiCacheManager.saveCoachMessage({ ...message, proposal: { ...proposal, status: 'applied' } });
+  }
+
+  async dismissProposal(messageId: string): Promise<void> {
+    const message = await this.getProposalMessage(messageId);
+    if (message.proposal) {
+      await aiCacheManager.saveCoachMessage({ ...message, proposal: { ...message.proposal, status: 'dismissed' } });
+    }
+  }
+
+  private async getProposalMessage(messageId: string): Promise<CoachMessage> {
+    const userId = useUserStore.getState().profile?.id;
+    const message = userId
+      ? (await this.getConversation(userId)).find(m => m.id === messageId)
+      : undefined;
+    if (!message?.proposal) {
+      throw new Error('Suggestion not found');
+    }
+    if (message.proposal.status !== 'pending') {
+      throw new Error('This suggestion was already handled');
+    }
+    return message;
+  }
+
+  /**
+   * Training snapshot for the conversation, reused until the data changes
+   */
+  private async getContext(userId: string): Promise<CoachContext> {
+    const workouts = (await dataService.getAllWorkouts(userId))
+      .filter(workout => !workout.deletedAt)
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+      .slice(0, CONTEXT_WORKOUTS);
+    const muscleStatuses = await dataService.getAllMuscleStatuses();
+    const personalRecords = analyticsService.getPersonalRecords(workouts);
+    const fingerprint = aiChangeDetector.getFingerprint(workouts, muscleStatuses, 0, personalRecords);
+
+    const cached = aiCacheManager.getCachedCoachContext(userId, fingerprint);
+    if (cached) {
+      return cached;
+    }
+
+    const profile = useUserStore.getState().profile;
+    const context: CoachContext = {
+      fingerprint,
+      workoutSummary: aiDataProcessor.processWorkouts(workouts, personalRecords).summary,
+      muscleSummary: aiDataProcessor.processMuscleStatuses(muscleStatuses).summary,
+      readinessScore: muscleStatuses.length > 0
+        ? Math.round(muscleStatuses.reduce((sum, m) => sum + m.recoveryPercentage, 0) / muscleStatuses.length)
+        : 85,
+      userLevel: profile?.experienceLevel ?? 'intermediate',
+      goals: profile?.goals ?? [],
+      unit: profile?.preferredUnit ?? 'kg',
+      recentWorkouts: workouts,
+      muscleStatuses,
+    };
+    aiCacheManager.setCachedCoachContext(userId, context);
+    return context;
+  }
+
+  private buildPrompt(history: CoachMessage[], context: CoachContext, mustReply: boolean): string {
+    const transcript = history.map((message) => {
+      if (message.role === 'tool') {
+        return `Tool ${message.toolCall?.name ?? 'result'}: ${message.content}`;
+      }
+      return `${message.role === 'user' ? 'User' : 'Coach'}: ${message.content}`;
+    }).join('\n\n');
+
+    return `You are the user's personal strength and conditioning coach inside a workout tracking app. Answer questions about their own training using the data below and the tools. Be concise and specific, quote numbers from the data, and never invent workouts or results. If a question needs data you don't have, call a tool.
+
+TODAY: ${format(new Date(), 'EEEE, MMM d, yyyy')}
+ATHLETE: ${context.userLevel}, goals: ${context.goals.join(', ') || 'not set'}, weights in ${context.unit}, readiness ${context.readinessScore}%
+
+TRAINING SUMMARY:
+${context.workoutSummary}
+
+RECOVERY:
+${context.muscleSummary}
+
+${TOOL_INSTRUCTIONS}
+
+RESPONSE FORMAT: respond with ONLY one JSON object, either
+{"tool": "<tool name>", "arguments": {...}}
+or
+{"reply": "<your answer as plain text, no markdown>"}
+${mustReply ? '\nYou have used all your tool calls for this question. Reply now with what you know.\n' : ''}
+CONVERSATION:
+${transcript}`;
+  }
+
+  /**
+   * One model turn with the active provider, falling back to the rule-based
+   * coach when the provider fails
+   */
+  private async generate(history: CoachMessage[], context: CoachContext, mustReply: boolean): Promise<string> {
+    const request = {
+      task: 'coach-chat' as const,
+      messages: history,
+      context,
+      prompt: this.buildPrompt(history, context, mustReply),
+      responseFormat: 'json' as const,
+    };
+    try {
+      return await aiProviderRegistry.getActiveProvider().generate(request);
+    } catch (error) {
+      logger.error('[AICoachService] Provider failed, using rule-based coach:', error);
+      return await ruleBasedAIProvider.generate(request);
+    }
+  }
+
+  private async runTool(
+    userId: string,
+    call: CoachToolCall,
+    context: CoachContext
+  ): Promise<{ output: string; proposal?: PlannedWorkoutEditProposal }> {
+    const args = call.arguments;
+    try {
+      switch (call.name) {
+        case 'get_recent_workouts': {
+          const limit = toPositiveInt(args.limit, 5, 10);
+          const workouts = context.recentWorkouts.slice(0, limit);
+          return {
+            output: workouts.length > 0
+              ? workouts.map(workout => describeWorkoutSession(workout, context.unit)).join('\n')
+              : 'No workouts logged yet.',
+          };
+        }
+        case 'get_exercise_history': {
+          const formula = useSettingsStore.getState().settings.oneRepMaxFormula;
+          return {
+            output: summarizeExerciseHistory(context.recentWorkouts, String(args.exercise ?? ''), context.unit, formula),
+          };
+        }
+        case 'get_recovery_status':
+          return { output: `Readiness ${context.readinessScore}%.\n${context.muscleSummary}` };
+        case 'get_planned_workouts':
+          return { output: await this.describePlannedWorkouts(userId, toPositiveInt(args.days, 14, 28)) };
+        case 'search_exercises':
+          return { output: await this.searchExercises(args) };
+        case 'propose_planned_workout_edit':
+          return await this.proposeEdit(userId, args);
+      }
+    } catch (error) {
+      logger.error(`[AICoachService] Tool ${call.name} failed:`, error);
+      return { output: `Error: ${error instanceof Error ? error.message : 'tool failed'}` };
+    }
+  }
+
+  private async describePlannedWorkouts(userId: string, days: number): Promise<string> {
+    const start = startOfDay(new Date());
+    const planned = (await plannedWorkoutService.getPlannedWorkoutsByDateRange(userId, start, addDays(start, days)))
+      .filter(pw => !pw.isCompleted && !pw.deletedAt)
+      .sort((a, b) => new Date(a.scheduledDate).getTime() - new Date(b.scheduledDate).getTime());
+
+    if (planned.length === 0) {
+      return `No planned workouts in the next ${days} days.`;
+    }
+    return planned.map((pw) => {
+      const exercises = pw.exercises
+        .map(ex => `${ex.exerciseName} [${ex.exerciseId}] ${ex.sets}x${ex.reps}${ex.weight ? ` @ ${ex.weight}` : ''}`)
+        .join('; ');
+      return `id ${pw.id} | ${format(new Date(pw.scheduledDate), 'EEE MMM d')} | ${pw.workoutName}: ${exercises || 'no exercises'}`;
+    }).join('\n');
+  }
+
+  private async searchExercises(args: Record<string, unknown>): Promise<string> {
+    const query = typeof args.query === 'string' ? args.query.trim() : '';
+    const muscle = typeof args.muscle === 'string' ? args.muscle.trim().toLowerCase() : '';
+
+    let exercises = query ? await exerciseLibrary.searchExercises(query) : await exerciseLibrary.getAllExercises();
+    if (muscle) {
+      exercises = exercises.filter(ex =>
+        [...ex.primaryMuscles, ...ex.secondaryMuscles].some(m => m.toLowerCase().includes(muscle)) ||
+        ex.muscleCategory?.toLowerCase().includes(muscle)
+      );
+    }
+    if (exercises.length === 0) {
+      return 'No matching exercises.';
+    }
+    return exercises.slice(0, 15)
+      .map(ex => `${ex.id} | ${ex.name} | ${ex.primaryMuscles.join(', ')} | ${ex.equipment.join(', ') || 'no equipment'}`)
+      .join('\n');
+  }
+
+  private async proposeEdit(
+    userId: string,
+    args: Record<string, unknown>
+  ): Promise<{ output: string; proposal?: PlannedWorkoutEditProposal }> {
+    const plannedWorkout = typeof args.plannedWorkoutId === 'string'
+      ? await plannedWorkoutService.getPlannedWorkout(args.plannedWorkoutId)
+      : undefined;
+    if (!plannedWorkout || plannedWorkout.userId !== userId || plannedWorkout.deletedAt) {
+      return { output: 'Error: unknown plannedWorkoutId. Call get_planned_workouts for valid ids.' };
+    }
+    if (plannedWorkout.isCompleted) {
+      return { output: 'Error: that workout is already completed and can\'t be changed.' };
+    }
+
+    const changes: PlannedWorkoutEditProposal['changes'] = {};
+    if (typeof args.workoutName === 'string' && args.workoutName.trim()) {
+      changes.workoutName = args.workoutName.trim();
+    }
+    if (typeof args.notes === 'string') {
+      changes.notes = args.notes.trim();
+    }
+
+    if (Array.isArray(args.exercises)) {
+      const exercises: PlannedExercise[] = [];
+      const unknown: string[] = [];
+      for (const item of args.exercises) {
+        const entry = (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>;
+        const name = typeof entry.exerciseName === 'string' ? entry.exerciseName : '';
+        let exercise = typeof entry.exerciseId === 'string' ? await exerciseLibrary.getExerciseById(entry.exerciseId) : undefined;
+        if (!exercise && name) {
+          exercise = (await exerciseLibrary.searchExercises(name)).find(ex => ex.name.toLowerCase() === name.toLowerCase());
+        }
+        if (!exercise) {
+          unknown.push(name || String(entry.exerciseId ?? 'unnamed'));
+          continue;
+        }
+        const weight = Number(entry.weight);
+        exercises.push({
+          exerciseId: exercise.id,
+          exerciseName: exercise.name,
+          sets: toPositiveInt(entry.sets, 3, 10),
+          reps: toPositiveInt(entry.reps, 10, 50),
+          weight: Number.isFinite(weight) && weight > 0 ? weight : undefined,
+        });
+      }
+      if (unknown.length > 0) {
+        return { output: `Error: not in the exercise library: ${unknown.join(', ')}. Use search_exercises to find ids.` };
+      }
+      if (exercises.length === 0) {
+        return { output: 'Error: a planned workout needs at least one exercise.' };
+      }
+      changes.exercises = exercises;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return { output: 'Error: the proposal doesn\'t change anything.' };
+    }
+
+    const summary = typeof args.summary === 'string' && args.summary.trim()
+      ? args.summary.trim()
+      : `Update ${plannedWorkout.workoutName}`;
+    return {
+      output: `Proposal ready for ${plannedWorkout.workoutName} on ${format(new Date(plannedWorkout.scheduledDate), 'EEE MMM d')}. It will be shown to the user to confirm; mention it in your reply.`,
+      proposal: {
+        plannedWorkoutId: plannedWorkout.id,
+        workoutName: plannedWorkout.workoutName,
+        scheduledDate: plannedWorkout.scheduledDate,
+        summary,
+        changes,
+        status: 'pending',
+      },
+    };
+  }
+}
+
+export const aiCoachService = new AICoachService();
@@ -1,10 +1,12 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { logger } from '@/utils/logger';
 import { cleanPlainTextResponse } from '@/utils/aiResponseCleaner';
+import { EmptyStateScreen } from '@/types/ai';
+import { aiProviderRegistry } from './aiProviders';
+import { ruleBasedAIProvider } from './ruleBasedAIProvider';
 
 interface EmptyStateContext {
     userName: string;
-    screenName: 'Home' | 'Analytics' | 'Insights' | 'History' | 'Templates';
+    screenName: EmptyStateScreen;
     timeOfDay: 'morning' | 'afternoon' | 'evening';
 }
 
@@ -12,15 +14,6 @@ const CACHE_KEY_PREFIX = 'ai_empty_state_';
 const CACHE_DURATION_MS = 1000 * 60 * 60 * 12; // 12 hours
 
 class AIEmptyStateService {
-    private genAI: GoogleGenerativeAI | null = null;
-
-    constructor() {
-        const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-        if (apiKey) {
-            this.genAI = new GoogleGenerativeAI(apiKey);
-        }
-    }
-
     private getCachedMessage(key: string): string | null {
         try {
             const cached = localStorage.getItem(key);
@@ -50,31 +43,11 @@ class AIEmptyStateService {
         }
     }
 
-    private getFallbackMessage(context: EmptyStateContext): string {
-        const { userName, screenName } = context;
-        const greetings = {
-            morning: 'Good morning',
-            afternoon: 'Good afternoon',
-            evening: 'Good evening',
-        };
-        const greeting = greetings[context.timeOfDay];
-
-        switch (screenName) {
-            case 'Home':
-                return `${greeting}, ${userName}! Ready to start your fitness journey? Log your first workout to get started.`;
-            case 'Analytics':
-                return `Hey ${userName}, your analytics will appear here once you complete your first workout. Consistency is key!`;
-            case 'Insights':
-                return `Welcome, ${userName}! AI insights need a little data to work with. Log a workout and check back here.`;
-            case 'History':
-                return `Your workout history is a blank canvas, ${userName}. Let's paint it with some PRs!`;
-            case 'Templates':
-                return `Time to plan for success, ${userName}. Create your first workout template here.`;
-            default:
-                return `${greeting}, ${userName}! Let's get moving.`;
-        }
-    }
-
+    /**
+     * A message from the active provider, falling back to the rule-based
+     * text when the provider fails. Only remote answers are cached, so a
+     * rule-based message never hides a newly configured provider.
+     */
     async generateMessage(context: EmptyStateContext): Promise<string> {
         const cacheKey = `${CACHE_KEY_PREFIX}${context.screenName}_${context.userName}`;
         const cached = this.getCachedMessage(cacheKey);
@@ -82,14 +55,10 @@ class AIEmptyStateService {
     return cached;
   }
 
-        if (!this.genAI) {
-            return this.getFallbackMessage(context);
-        }
-
-        try {
-            const model = this.genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
-
-            const prompt = `
+        const request = {
+            task: 'empty-state' as const,
+            ...context,
+            prompt: `
         Generate a short, motivational, and personalized message for a new user named "${context.userName}" who is looking at the empty "${context.screenName}" screen of a fitness app.
         It is currently ${context.timeOfDay}.
         The user has 0 workouts logged.
@@ -100,62 +69,27 @@ class AIEmptyStateService {
         - Mention the specific screen purpose subtly (e.g. for Analytics mention tracking progress).
         - No emojis.
         - Output ONLY the raw text message.
-      `;
-
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-
-            try {
-                const result = await model.generateContent(prompt);
-                clearTimeout(timeoutId);
-                const response = await result.response;
-                const text = cleanPlainTextResponse(response.text());
+      `,
+            responseFormat: 'text' as const,
+        };
 
-                if (!text) {
-                    throw new Error('Empty response from AI');
-                }
+        const provider = aiProviderRegistry.getActiveProvider();
+        try {
+            const text = cleanPlainTextResponse(await provider.generate(request));
+            if (!text) {
+                throw new Error('Empty response from AI');
+            }
 
+            if (provider.isRemote) {
                 this.setCachedMessage(cacheKey, text);
-                return text;
-            } catch (apiError) {
-                clearTimeout(timeoutId);
-                throw apiError;
             }
+            return text;
         } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            const errorString = String(error);
-            
-            // Detect specific error types
-            const isTimeout = error instanceof Error && error.name === 'AbortError';
-            const isApiKeyError = 
-                errorMessage.includes('API_KEY_INVALID') ||
-                errorMessage.includes('API key expired') ||
-                errorMessage.includes('API key invalid') ||
-                errorString.includes('API_KEY_INVALID') ||
-                errorString.includes('API key expired') ||
-                errorString.includes('API key invalid') ||
-                (errorMessage.includes('400') && errorMessage.includes('API'));
-            const isNetworkError = 
-                !isApiKeyError && (
-                    errorMessage.includes('network') || 
-                    errorMessage.includes('fetch') || 
-                    errorMessage.includes('Failed to fetch') ||
-                    errorMessage.includes('ECONNREFUSED') ||
-                    errorMessage.includes('ETIMEDOUT')
-                );
-            
-            // Don't log API key errors - they're configuration issues, not runtime errors
-            // The fallback message will be used silently
-            if (!isApiKeyError) {
-                logger.warn('Failed to generate AI empty state message', error, {
-                    screenName: context.screenName,
-                    userName: context.userName,
-                    timeOfDay: context.timeOfDay,
-                    errorType: isTimeout ? 'timeout' : isNetworkError ? 'network' : 'api',
-                });
-            }
-            
-            return this.getFallbackMessage(context);
+            logger.warn('[AIEmptyStateService] Provider failed, using rule-based message:', error, {
+                screenName: context.screenName,
+                provider: provider.type,
+            });
+            return await ruleBasedAIProvider.generate(request);
         }
     }
 }
@@ -0,0 +1,156 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { AIGenerateRequest, AIProvider, AIProviderSettings, AIProviderType } from '@/types/ai';
+import { useSettingsStore } from '@/store/settingsStore';
+import { ruleBasedAIProvider } from './ruleBasedAIProvider';
+import { logger } from '@/utils/logger';
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+const DEFAULT_OPENAI_COMPATIBLE_MODEL = 'llama3.1';
+const OPENAI_COMPATIBLE_TIMEOUT_MS = 60000; // Local models can be slow on first load
+
+class GeminiAIProvider implements AIProvider {
+  readonly type = 'gemini' as const;
+  readonly isRemote = true;
+
+  constructor(private readonly model: string = DEFAULT_GEMINI_MODEL) {}
+
+  isConfigured(): boolean {
+    return Boolean(import.meta.env.VITE_GEMINI_API_KEY);
+  }
+
+  async generate(request: AIGenerateRequest): Promise<string> {
+    const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error('Gemini API key is not configured');
+    }
+
+    const genAI = new GoogleGenerativeAI(apiKey);
+    const model = genAI.getGenerativeModel({
+      model: this.model,
+      ...(request.responseFormat === 'json' ? { generationConfig: { responseMimeType: 'application/json' } } : {}),
+    });
+    const result = await model.generateContent(request.prompt);
+    const response = await result.response;
+    return response.text();
+  }
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string } }>;
+}
+
+/**
+ * Structured output when the request declares a schema, plain JSON mode otherwise
+ */
+function buildResponseFormat(request: AIGenerateRequest): Record<string, unknown> {
+  if (!request.responseSchema) {
+    return { type: 'json_object' };
+  }
+  return {
+    type: 'json_schema',
+    json_schema: { name: request.task.replace(/-/g, '_'), schema: request.responseSchema, strict: false },
+  };
+}
+
+/**
+ * Any server implementing the OpenAI chat completions API, such as a local
+ * Ollama (http://localhost:11434/v1) or llama.cpp server. The API key is
+ * optional since local servers usually don't need one.
+ */
+class OpenAICompatibleAIProvider implements AIProvider {
+  readonly type = 'openai-compatible' as const;
+  readonly isRemote = true;
+
+  constructor(
+    private readonly baseUrl: string | undefined,
+    private readonly model: string = DEFAULT_OPENAI_COMPATIBLE_MODEL
+  ) {}
+
+  isConfigured(): boolean {
+    return Boolean(this.baseUrl?.trim());
+  }
+
+  async generate(request: AIGenerateRequest): Promise<string> {
+    const baseUrl = this.baseUrl?.trim().replace(/\/+$/, '');
+    if (!baseUrl) {
+      throw new Error('AI endpoint URL is not configured');
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const apiKey = import.meta.env.VITE_AI_API_KEY;
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), OPENAI_COMPATIBLE_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        signal: controller.signal,
+        body: JSON.stringify({
+          model: this.model,
+          messages: [{ role: 'user', content: request.prompt }],
+          temperature: 0.4,
+          ...(request.responseFormat === 'json' ? { response_format: buildResponseFormat(request) } : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`AI endpoint returned ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json() as ChatCompletionResponse;
+      const content = data.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new Error('AI endpoint returned no message content');
+      }
+      return content;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+class AIProviderRegistry {
+  /**
+   * Provider settings of the signed-in user
+   */
+  getSettings(): AIProviderSettings {
+    return useSettingsStore.getState().settings.aiProvider;
+  }
+
+  getProvider(settings: AIProviderSettings = this.getSettings()): AIProvider {
+    switch (settings.type) {
+      case 'gemini':
+        return new GeminiAIProvider(settings.model || undefined);
+      case 'openai-compatible':
+        return new OpenAICompatibleAIProvider(settings.baseUrl, settings.model || undefined);
+      case 'rule-based':
+        return ruleBasedAIProvider;
+    }
+  }
+
+  /**
+   * The selected provider, or the rule-based provider when the selected one
+   * is missing its API key or endpoint
+   */
+  getActiveProvider(): AIProvider {
+    const provider = this.getProvider();
+    if (provider.isConfigured()) {
+      return provider;
+    }
+    if (provider.type !== 'rule-based') {
+      logger.debug(`[AIProviderRegistry] ${provider.type} provider is not configured, using rule-based insights`);
+    }
+    return ruleBasedAIProvider;
+  }
+
+  getActiveProviderType(): AIProviderType {
+    return this.getActiveProvider().type;
+  }
+}
+
+export const aiProviderRegistry = new AIProviderRegistry();
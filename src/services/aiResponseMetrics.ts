@@ -0,0 +1,93 @@
+import { AIResponseMetrics, AITask } from '@/types/ai';
+import { logger } from '@/utils/logger';
+
+const STORAGE_KEY = 'ai_response_metrics';
+
+type MetricsByTask = Partial<Record<AITask, AIResponseMetrics>>;
+
+/**
+ * Per-task counters of AI responses that failed schema validation. Kept in
+ * localStorage since they describe this device's provider, not the user's data.
+ */
+class AIResponseMetricsService {
+  private metrics: MetricsByTask | null = null;
+
+  private load(): MetricsByTask {
+    if (this.metrics) {
+      return this.metrics;
+    }
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      this.metrics = stored ? JSON.parse(stored) as MetricsByTask : {};
+    } catch {
+      this.metrics = {};
+    }
+    return this.metrics;
+  }
+
+  private update(task: AITask, change: (entry: AIResponseMetrics) => void): void {
+    const metrics = this.load();
+    const entry = metrics[task] ?? { task, responses: 0, validationFailures: 0, repairSuccesses: 0, fallbacks: 0 };
+    change(entry);
+    metrics[task] = entry;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(metrics));
+    } catch {
+      // Ignore storage errors, the in-memory counters are still updated
+    }
+  }
+
+  recordResponse(task: AITask): void {
+    this.update(task, (entry) => {
+      entry.responses += 1;
+    });
+  }
+
+  recordValidationFailure(task: AITask, issue: string): void {
+    logger.warn(`[AIResponseMetrics] ${task} response failed validation: ${issue}`);
+    this.update(task, (entry) => {
+      entry.validationFailures += 1;
+      entry.lastIssue = issue;
+      entry.lastFailureAt = new Date().toISOString();
+    });
+  }
+
+  recordRepairSuccess(task: AITask): void {
+    this.update(task, (entry) => {
+      entry.repairSuccesses += 1;
+    });
+  }
+
+  recordFallback(task: AITask): void {
+    this.update(task, (entry) => {
+      entry.fallbacks += 1;
+    });
+  }
+
+  /**
+   * Metrics for every task that has received a response, least reliable first
+   */
+  getMetrics(): AIResponseMetrics[] {
+    return Object.values(this.load())
+      .filter((entry): entry is AIResponseMetrics => Boolean(entry))
+      .sort((a, b) => this.getFailureRate(b) - this.getFailureRate(a));
+  }
+
+  /**
+   * Share of responses that failed validation, 0-1
+   */
+  getFailureRate(entry: AIResponseMetrics): number {
+    return entry.responses > 0 ? entry.validationFailures / entry.responses : 0;
+  }
+
+  reset(): void {
+    this.metrics = {};
+    try {
+      localStorage.removeItem(STORAGE_KEY);
+    } catch {
+      // Ignore storage errors
+    }
+  }
+}
+
+export const aiResponseMetrics = new AIResponseMetricsService();
@@ -1,73 +1,46 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { Workout } from '@/types/workout';
-import { MuscleStatus, MuscleGroup, DEFAULT_RECOVERY_SETTINGS } from '@/types/muscle';
+import { MuscleStatus, MuscleGroup } from '@/types/muscle';
 import { AIInsights } from '@/hooks/useAIInsights';
 import {
   ProgressAnalysis,
   SmartAlerts,
   WorkoutRecommendations,
-  BreakthroughInsight,
-  Alert,
-  RecoveryPrediction,
-  WorkoutRecommendation,
+  RecommendedExercise,
+  WorkoutRecommendationConstraints,
 } from '@/types/insights';
 import { PersonalRecord, StrengthProgression } from '@/types/analytics';
 import { aiDataProcessor } from './aiDataProcessor';
-import { parseAIJSON, sanitizeAIResponse, cleanPlainTextResponse } from '@/utils/aiResponseCleaner';
+import { cleanPlainTextResponse } from '@/utils/aiResponseCleaner';
 import { logError } from '@/utils/errorHandler';
-import { addDays, format, differenceInHours } from 'date-fns';
-import { categorizeMuscleGroup, calculateMuscleImbalances } from '@/utils/analyticsHelpers';
-import { WorkoutPatternAnalysis, WorkoutRecommendation as PatternRecommendation } from './workoutAnalysisService';
+import { calculateMuscleImbalances } from '@/utils/analyticsHelpers';
 import { logger } from '@/utils/logger';
-import { 
-  calculateFatigueAccumulation, 
-  calculateSupercompensation, 
-  calculatePRProbability 
-} from './advancedRecoveryModeling';
-
-interface AIAnalysisContext {
-  recentWorkouts: Workout[];
-  muscleStatuses: MuscleStatus[];
-  userGoals: string[];
-  userLevel: string;
-  weakPoints: string[];
-  progressTrends: Record<string, unknown>;
-  personalRecords?: PersonalRecord[];
-  consistencyScore?: number;
-  volumeTrend?: Array<{ date: string; totalVolume: number }>;
-  readinessScore?: number;
-  symmetryScore?: number;
-  focusDistribution?: { legs: number; push: number; pull: number };
-  workoutCount?: number;
-  currentStreak?: number;
-  equipment?: string[];
-  workoutFrequency?: number;
-  patternAnalysis?: WorkoutPatternAnalysis;
-  recommendationContext?: PatternRecommendation;
-}
+import { AIAnalysisContext } from '@/types/ai';
+import { HeartRateSettings } from '@/types/cardio';
+import { aiProviderRegistry } from './aiProviders';
+import { buildProgressAnalysis, buildSmartAlerts, buildWorkoutRecommendations } from './ruleBasedAIProvider';
+import { calculateRecoveryPredictions } from './advancedRecoveryModeling';
+import { generateStructuredResponse } from './aiStructuredResponse';
+import {
+  aiInsightTextSchema,
+  workoutInsightsResponseSchema,
+  progressAnalysisResponseSchema,
+  smartAlertsResponseSchema,
+  workoutRecommendationsResponseSchema,
+  WorkoutRecommendationsResponse,
+} from '@/utils/validationSchemas';
+import {
+  estimateWorkoutMinutes,
+  fitExercisesToTime,
+  resolveExercisePicks,
+  selectExercisesForWorkout,
+} from '@/utils/recommendedWorkoutHelpers';
+
+const MAX_PROMPT_EXERCISES = 80; // Keeps the exercise list from dominating the prompt
 
 export const aiService = {
   async generateWorkoutInsights(context: AIAnalysisContext): Promise<AIInsights> {
-    // Check if API key is available
-    const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-
-    if (!apiKey) {
-      // Return mock insights if API key is not configured
-      return {
-        analysis: 'AI insights require a Gemini API key. Add VITE_GEMINI_API_KEY to your .env file.',
-        recommendations: [
-          'Continue with your current workout routine',
-          'Focus on progressive overload',
-          'Ensure adequate rest between sessions',
-        ],
-        motivation: 'Keep up the great work! Consistency is key to achieving your fitness goals.',
-        tip: 'Track your workouts consistently to get better insights over time.',
-      };
-    }
-
     try {
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
+      const provider = aiProviderRegistry.getActiveProvider();
 
       const workoutSummary = formatWorkoutSummary(context.recentWorkouts, context.personalRecords || []);
       const muscleSummary = formatMuscleStatus(context.muscleStatuses);
@@ -195,37 +168,17 @@ CRITICAL OUTPUT REQUIREMENTS:
         logger.warn(`Prompt token estimate (${tokenEstimate}) exceeds safe limit. Consider reducing data.`);
       }
 
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
-
-      // Try to parse JSON from response with cleaning
-      const parsed = parseAIJSON<Record<string, unknown>>(text);
-      if (parsed) {
-        const cleaned = sanitizeAIResponse(parsed) as Record<string, unknown>;
-        return {
-          analysis: (typeof cleaned.analysis === 'string' ? cleaned.analysis : 'Analysis generated successfully.'),
-          recommendations: (Array.isArray(cleaned.recommendations) ? cleaned.recommendations : []).map((r: unknown) =>
-            typeof r === 'string' ? cleanPlainTextResponse(r) : String(r)
-          ),
-          warnings: cleaned.warnings ? (Array.isArray(cleaned.warnings) ? cleaned.warnings : []).map((w: unknown) =>
-            typeof w === 'string' ? cleanPlainTextResponse(w) : String(w)
-          ) : undefined,
-          motivation: (typeof cleaned.motivation === 'string') ? cleanPlainTextResponse(cleaned.motivation) : undefined,
-          tip: (typeof cleaned.tip === 'string') ? cleanPlainTextResponse(cleaned.tip) : undefined,
-        };
-      }
-
-      // Fallback: return text as analysis (cleaned)
+      const insights = await generateStructuredResponse(
+        provider,
+        { task: 'workout-insights', context, prompt, responseFormat: 'json' },
+        workoutInsightsResponseSchema
+      );
       return {
-        analysis: cleanPlainTextResponse(text.substring(0, 500)),
-        recommendations: [
-          'Continue with progressive overload',
-          'Ensure adequate recovery time',
-          'Maintain consistency in your training',
-        ],
-        motivation: 'Keep up the great work!',
-        tip: 'Track your workouts consistently for better insights.',
+        analysis: insights.analysis,
+        recommendations: insights.recommendations.map(r => cleanPlainTextResponse(r)),
+        warnings: insights.warnings?.map(w => cleanPlainTextResponse(w)),
+        motivation: insights.motivation ? cleanPlainTextResponse(insights.motivation) : undefined,
+        tip: insights.tip ? cleanPlainTextResponse(insights.tip) : undefined,
       };
     } catch (error) {
       logError(error instanceof Error ? error : new Error(String(error)), {
@@ -255,19 +208,12 @@ CRITICAL OUTPUT REQUIREMENTS:
     unit: 'kg' | 'lbs' = 'kg',
     comparisonPeriodLabel: string = 'last month'
   ): Promise<string> {
-    const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-
     // Convert volume from kg to user's preferred unit if needed
     const displayVolume = unit === 'lbs' ? totalVolume * 2.20462 : totalVolume;
     const formattedVolume = Math.round(displayVolume).toLocaleString();
 
-    if (!apiKey) {
-      return `Your ${topMuscle || 'chest'} volume is up ${trendPercentage}% this month. You're hitting new PRs consistently. Great consistency!`;
-    }
-
     try {
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
+      const provider = aiProviderRegistry.getActiveProvider();
 
       const prompt = `Generate a brief, encouraging progress insight (1-2 sentences) for a fitness tracker user:
 - Total volume: ${formattedVolume} ${unit}
@@ -282,9 +228,21 @@ CRITICAL OUTPUT REQUIREMENTS:
 - Use the same unit (${unit}) when mentioning volume in your response
 - Return only the insight text, nothing else.`;
 
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      return cleanPlainTextResponse(response.text());
+      return await generateStructuredResponse(
+        provider,
+        {
+          task: 'progress-insight',
+          totalVolume,
+          workoutCount,
+          trendPercentage,
+          topMuscle,
+          unit,
+          comparisonPeriodLabel,
+          prompt,
+          responseFormat: 'text',
+        },
+        aiInsightTextSchema
+      );
     } catch (error) {
       logError(error instanceof Error ? error : new Error(String(error)), {
         context: 'generateProgressInsight',
@@ -300,16 +258,8 @@ CRITICAL OUTPUT REQUIREMENTS:
     symmetryScore: number,
     topMuscles: string[]
   ): Promise<string> {
-    const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-
-    if (!apiKey) {
-      const imbalance = focusDistribution.legs < 25 ? 'leg volume is high, but hamstring isolation' : 'training balance';
-      return `Your ${imbalance} is notably lower than your quad work. Consider adding Romanian Deadlifts to balance knee stability.`;
-    }
-
     try {
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
+      const provider = aiProviderRegistry.getActiveProvider();
 
       const prompt = `Generate a brief muscle balance insight (1-2 sentences) for a fitness tracker:
 - Focus distribution: Legs ${focusDistribution.legs}%, Push ${focusDistribution.push}%, Pull ${focusDistribution.pull}%
@@ -322,9 +272,11 @@ CRITICAL OUTPUT REQUIREMENTS:
 - Provide a specific, actionable recommendation about muscle balance or symmetry
 - Return only the insight text, nothing else.`;
 
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      return cleanPlainTextResponse(response.text());
+      return await generateStructuredResponse(
+        provider,
+        { task: 'muscle-balance', focusDistribution, symmetryScore, topMuscles, prompt, responseFormat: 'text' },
+        aiInsightTextSchema
+      );
     } catch (error) {
       logger.error('AI service error:', error);
       const imbalance = focusDistribution.legs < 25 ? 'leg volume is high, but hamstring isolation' : 'training balance';
@@ -343,23 +295,8 @@ CRITICAL OUTPUT REQUIREMENTS:
     previousWorkoutCount: number,
     comparisonPeriodLabel: string = 'last month'
   ): Promise<ProgressAnalysis> {
-    const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-
-    if (!apiKey) {
-      return generateMockProgressAnalysis(
-        workouts,
-        personalRecords,
-        volumeTrend,
-        consistencyScore,
-        previousConsistencyScore,
-        workoutCount,
-        previousWorkoutCount
-      );
-    }
-
     try {
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
+      const provider = aiProviderRegistry.getActiveProvider();
 
       const workoutSummary = formatWorkoutSummary(workouts ?? [], personalRecords ?? []);
       const prSummary = (personalRecords ?? []).length > 0
@@ -421,69 +358,67 @@ CRITICAL OUTPUT REQUIREMENTS:
         logger.warn(`Prompt token estimate (${tokenEstimate}) exceeds safe limit. Consider reducing data.`);
       }
 
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
-
-      const parsed = parseAIJSON<Record<string, unknown>>(text);
-      if (parsed) {
-        const cleaned = sanitizeAIResponse(parsed) as Record<string, unknown>;
-        const breakthrough = cleaned.breakthrough as Record<string, unknown> | undefined;
-        const projectedWeight = typeof breakthrough?.projectedWeight === 'number' ? breakthrough.projectedWeight : undefined;
-        const improvementPercent = typeof breakthrough?.improvementPercent === 'number' ? breakthrough.improvementPercent : undefined;
-        return {
-          breakthrough: breakthrough?.exercise && projectedWeight !== undefined && improvementPercent !== undefined ? {
-            exercise: cleanPlainTextResponse(String(breakthrough.exercise)),
-            projectedWeight,
-            improvementPercent,
-            reason: cleanPlainTextResponse(String(breakthrough.reason || '')),
-          } : undefined,
+      const analysis = await generateStructuredResponse(
+        provider,
+        {
+          task: 'progress-analysis',
+          workouts,
+          personalRecords,
+          volumeTrend,
           consistencyScore,
-          consistencyChange: consistencyScore - previousConsistencyScore,
+          previousConsistencyScore,
           workoutCount,
-          workoutCountChange: workoutCount - previousWorkoutCount,
-          volumeTrend: {
-            current: (volumeTrend ?? [])[(volumeTrend ?? []).length - 1]?.totalVolume || 0,
-            previous: (volumeTrend ?? [])[0]?.totalVolume || 0,
-            changePercent: (volumeTrend ?? []).length > 1
-              ? (((volumeTrend ?? [])[(volumeTrend ?? []).length - 1].totalVolume - (volumeTrend ?? [])[0].totalVolume) / (volumeTrend ?? [])[0].totalVolume) * 100
-              : 0,
-            weeklyData: (volumeTrend ?? []).map((v, i) => ({ week: `WEEK ${i + 1}`, volume: v.totalVolume })),
-          },
-          plateaus: (Array.isArray(cleaned.plateaus) ? cleaned.plateaus : []).map((p: unknown) => {
-            const plateau = p as Record<string, unknown>;
-            return {
-              exercise: cleanPlainTextResponse(String(plateau.exercise || '')),
-              weight: typeof plateau.weight === 'number' ? plateau.weight : 0,
-              weeksStuck: typeof plateau.weeksStuck === 'number' ? plateau.weeksStuck : 0,
-              suggestion: cleanPlainTextResponse(String(plateau.suggestion || '')),
-            };
-          }),
-          formChecks: (Array.isArray(cleaned.formChecks) ? cleaned.formChecks : []).map((f: unknown) => {
-            const formCheck = f as Record<string, unknown>;
-            return {
-              exercise: cleanPlainTextResponse(String(formCheck.exercise || '')),
-              issue: cleanPlainTextResponse(String(formCheck.issue || '')),
-              muscleGroup: cleanPlainTextResponse(String(formCheck.muscleGroup || '')) as MuscleGroup,
-            };
-          }),
-          trainingPatterns: (Array.isArray(cleaned.trainingPatterns) ? cleaned.trainingPatterns : []).map((t: unknown, i: number) => {
-            const pattern = t as Record<string, unknown>;
-            return {
-              id: `pattern-${i}`,
-              type: String(pattern.type || '') as 'sleep' | 'caffeine' | 'timing' | 'other',
-              title: cleanPlainTextResponse(String(pattern.title || '')),
-              description: cleanPlainTextResponse(String(pattern.description || '')),
-              impact: cleanPlainTextResponse(String(pattern.impact || '')),
-            };
-          }),
-        };
-      }
+          previousWorkoutCount,
+          prompt,
+          responseFormat: 'json',
+        },
+        progressAnalysisResponseSchema
+      );
+
+      const breakthrough = analysis.breakthrough;
+      return {
+        breakthrough: breakthrough?.exercise && breakthrough.projectedWeight != null && breakthrough.improvementPercent != null ? {
+          exercise: cleanPlainTextResponse(breakthrough.exercise),
+          projectedWeight: breakthrough.projectedWeight,
+          improvementPercent: breakthrough.improvementPercent,
+          reason: cleanPlainTextResponse(breakthrough.reason ?? ''),
+        } : undefined,
+        consistencyScore,
+        consistencyChange: consistencyScore - previousConsistencyScore,
+        workoutCount,
+        workoutCountChange: workoutCount - previousWorkoutCount,
+        volumeTrend: {
+          current: (volumeTrend ?? [])[(volumeTrend ?? []).length - 1]?.totalVolume || 0,
+          previous: (volumeTrend ?? [])[0]?.totalVolume || 0,
+          changePercent: (volumeTrend ?? []).length > 1
+            ? (((volumeTrend ?? [])[(volumeTrend ?? []).length - 1].totalVolume - (volumeTrend ?? [])[0].totalVolume) / (volumeTrend ?? [])[0].totalVolume) * 100
+            : 0,
+          weeklyData: (volumeTrend ?? []).map((v, i) => ({ week: `WEEK ${i + 1}`, volume: v.totalVolume })),
+        },
+        plateaus: analysis.plateaus.map(plateau => ({
+          exercise: cleanPlainTextResponse(plateau.exercise),
+          weight: plateau.weight,
+          weeksStuck: plateau.weeksStuck,
+          suggestion: cleanPlainTextResponse(plateau.suggestion),
+        })),
+        formChecks: analysis.formChecks.map(formCheck => ({
+          exercise: cleanPlainTextResponse(formCheck.exercise),
+          issue: cleanPlainTextResponse(formCheck.issue),
+          muscleGroup: cleanPlainTextResponse(formCheck.muscleGroup) as MuscleGroup,
+        })),
+        trainingPatterns: analysis.trainingPatterns.map((pattern, i) => ({
+          id: `pattern-${i}`,
+          type: pattern.type,
+          title: cleanPlainTextResponse(pattern.title),
+          description: cleanPlainTextResponse(pattern.description),
+          impact: cleanPlainTextResponse(pattern.impact),
+        })),
+      };
     } catch (error) {
       logger.error('AI service error:', error);
     }
 
-    return generateMockProgressAnalysis(
+    return buildProgressAnalysis(
       workouts,
       personalRecords,
       volumeTrend,
@@ -499,15 +434,8 @@ CRITICAL OUTPUT REQUIREMENTS:
     muscleStatuses: MuscleStatus[],
     readinessScore: number
   ): Promise<SmartAlerts> {
-    const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-
-    if (!apiKey) {
-      return generateMockSmartAlerts(workouts, muscleStatuses, readinessScore);
-    }
-
     try {
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
+      const provider = aiProviderRegistry.getActiveProvider();
 
       const muscleSummary = formatMuscleStatus(muscleStatuses);
       const workoutSummary = formatWorkoutSummary(workouts);
@@ -564,54 +492,42 @@ CRITICAL OUTPUT REQUIREMENTS:
         logger.warn(`Prompt token estimate (${tokenEstimate}) exceeds safe limit. Consider reducing data.`);
       }
 
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
-
-      const parsed = parseAIJSON<Record<string, unknown>>(text);
-      if (parsed) {
-        const cleaned = sanitizeAIResponse(parsed) as Record<string, unknown>;
-        return {
-          readinessScore,
-          readinessStatus: (cleaned.readinessStatus as 'optimal' | 'good' | 'moderate' | 'low') ?? 'good',
-          readinessMessage: cleanPlainTextResponse(String(cleaned.readinessMessage ?? 'System is operating normally.')),
-          criticalAlerts: (Array.isArray(cleaned.criticalAlerts) ? cleaned.criticalAlerts : []).map((a: unknown, i: number) => {
-            const alert = a as Record<string, unknown>;
-            return {
-              id: `alert-${i}`,
-              type: String(alert.type ?? '') as 'critical' | 'warning' | 'info',
-              title: cleanPlainTextResponse(String(alert.title ?? '')),
-              message: cleanPlainTextResponse(String(alert.message ?? '')),
-              muscleGroup: cleanPlainTextResponse(String(alert.muscleGroup ?? '')) as MuscleGroup,
-            };
-          }),
-          suggestions: (Array.isArray(cleaned.suggestions) ? cleaned.suggestions : []).map((s: unknown, i: number) => {
-            const suggestion = s as Record<string, unknown>;
-            return {
-              id: `suggestion-${i}`,
-              type: String(suggestion.type ?? '') as 'deload' | 'sleep' | 'nutrition' | 'workout',
-              title: cleanPlainTextResponse(String(suggestion.title ?? '')),
-              description: cleanPlainTextResponse(String(suggestion.description ?? '')),
-            };
-          }),
-          nutritionEvents: (Array.isArray(cleaned.nutritionEvents) ? cleaned.nutritionEvents : []).map((e: unknown, i: number) => {
-            const event = e as Record<string, unknown>;
-            return {
-              id: `nutrition-${i}`,
-              time: String(event.time ?? ''),
-              relativeTime: cleanPlainTextResponse(String(event.relativeTime ?? '')),
-              title: cleanPlainTextResponse(String(event.title ?? '')),
-              description: cleanPlainTextResponse(String(event.description ?? '')),
-              type: String(event.type ?? '') as 'protein' | 'carb' | 'meal' | 'supplement',
-            };
-          }),
-        };
-      }
+      const alerts = await generateStructuredResponse(
+        provider,
+        { task: 'smart-alerts', workouts, muscleStatuses, readinessScore, prompt, responseFormat: 'json' },
+        smartAlertsResponseSchema
+      );
+      return {
+        readinessScore,
+        readinessStatus: alerts.readinessStatus,
+        readinessMessage: cleanPlainTextResponse(alerts.readinessMessage),
+        criticalAlerts: alerts.criticalAlerts.map((alert, i) => ({
+          id: `alert-${i}`,
+          type: alert.type,
+          title: cleanPlainTextResponse(alert.title),
+          message: cleanPlainTextResponse(alert.message),
+          muscleGroup: alert.muscleGroup ? cleanPlainTextResponse(alert.muscleGroup) as MuscleGroup : undefined,
+        })),
+        suggestions: alerts.suggestions.map((suggestion, i) => ({
+          id: `suggestion-${i}`,
+          type: suggestion.type,
+          title: cleanPlainTextResponse(suggestion.title),
+          description: cleanPlainTextResponse(suggestion.description),
+        })),
+        nutritionEvents: alerts.nutritionEvents.map((event, i) => ({
+          id: `nutrition-${i}`,
+          time: event.time,
+          relativeTime: cleanPlainTextResponse(event.relativeTime),
+          title: cleanPlainTextResponse(event.title),
+          description: cleanPlainTextResponse(event.description),
+          type: event.type,
+        })),
+      };
     } catch (error) {
       logger.error('AI service error:', error);
     }
 
-    return generateMockSmartAlerts(workouts, muscleStatuses, readinessScore);
+    return buildSmartAlerts(workouts, muscleStatuses, readinessScore);
   },
 
   async generateWorkoutRecommendations(
@@ -621,23 +537,18 @@ CRITICAL OUTPUT REQUIREMENTS:
     symmetryScore: number,
     focusDistribution: { legs: number; push: number; pull: number },
     userLevel: 'beginner' | 'intermediate' | 'advanced' = 'intermediate',
-    baseRestInterval: number = 48
+    baseRestInterval: number = 48,
+    constraints?: WorkoutRecommendationConstraints,
+    heartRateSettings?: HeartRateSettings
   ): Promise<WorkoutRecommendations> {
-    const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-
     // Calculate recovery predictions (always use calculated ones for accuracy)
-    const calculatedPredictions = calculateRecoveryPredictions(muscleStatuses, userLevel, baseRestInterval, workouts);
+    const calculatedPredictions = calculateRecoveryPredictions(muscleStatuses, userLevel, baseRestInterval, workouts, heartRateSettings);
     
     // Calculate muscle imbalances from actual workout data (data-driven)
     const calculatedImbalances = calculateMuscleImbalances(workouts);
 
-    if (!apiKey) {
-      return generateMockWorkoutRecommendations(workouts, muscleStatuses, readinessScore, symmetryScore, focusDistribution, userLevel, baseRestInterval);
-    }
-
     try {
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
+      const provider = aiProviderRegistry.getActiveProvider();
 
       const muscleSummary = formatMuscleStatus(muscleStatuses);
       
@@ -656,6 +567,17 @@ CRITICAL OUTPUT REQUIREMENTS:
         return `${new Date(w.date).toLocaleDateString()}: ${exercises.substring(0, 50)}...`;
       }).join('\n');
 
+      const availableExercises = (constraints?.availableExercises ?? [])
+        .filter(ex => ex.trackingType === 'weight_reps' || ex.trackingType === 'reps_only')
+        .slice(0, MAX_PROMPT_EXERCISES);
+      const exerciseListInfo = constraints && availableExercises.length > 0
+        ? `
+
+Available Exercises (user has the equipment and the main muscles are recovered; use ONLY these IDs):
+${availableExercises.map(ex => `${ex.id} | ${ex.name} | ${(ex.primaryMuscles ?? []).join(', ')}`).join('\n')}
+Available Time: ${constraints.availableMinutes} minutes including rest`
+        : '';
+
       const predictionContext = calculatedPredictions.map(p => 
         `${p.dayLabel}: Recovery ${p.recoveryPercentage}%, Fatigue ${p.fatigueAccumulation || 0}, PR Prob ${p.prProbability || 0}%`
       ).join('\n');
@@ -669,7 +591,8 @@ CRITICAL OUTPUT REQUIREMENTS:
     "duration": number in minutes,
     "intensity": "low|medium|high",
     "muscleGroups": ["muscle1", "muscle2"],
-    "reason": "explanation with specific recovery percentages and readiness score"
+    "reason": "explanation with specific recovery percentages and readiness score",
+    "exercises": [{"exerciseId": "ID from the available exercises list", "exerciseName": "name", "sets": number, "reps": number, "restSeconds": number}]
   },
   "progressionPlan": {
     "id": "plan-1",
@@ -708,13 +631,14 @@ Muscle Status Details:
 ${muscleSummary}
 
 Recent Workouts (to avoid repetition):
-${recentWorkoutTypes || 'No recent workouts'}
+${recentWorkoutTypes || 'No recent workouts'}${exerciseListInfo}
 
 CRITICAL OUTPUT REQUIREMENTS:
 - Output ONLY valid JSON, no markdown formatting, no code blocks, no explanatory text before or after
 - Include specific recovery percentages and readiness data in recommendations
 - Provide a detailed 7-day progression plan based on the calculated recovery modeling
 - Reference ready muscle groups with their recovery percentages
+- ${exerciseListInfo ? 'Build recommendedWorkout.exercises from the available exercises only, sized to fit the available time' : 'Omit recommendedWorkout.exercises'}
 - All text fields must be clean, professional, and polished - no gibberish, typos, or unpolished content
 - Ensure all strings are properly formatted and grammatically correct
 - Return only the JSON object, nothing else.`;
@@ -724,89 +648,114 @@ CRITICAL OUTPUT REQUIREMENTS:
         logger.warn(`Prompt token estimate (${tokenEstimate}) exceeds safe limit. Consider reducing data.`);
       }
 
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
-
-      const parsed = parseAIJSON<Record<string, unknown>>(text);
-      if (parsed) {
-        const cleaned = sanitizeAIResponse(parsed) as Record<string, unknown>;
-        const recommendedWorkout = cleaned.recommendedWorkout as Record<string, unknown> | undefined;
-        const progressionPlan = cleaned.progressionPlan as Record<string, unknown> | undefined;
-        
-        // Always use calculated predictions for accurate day labels and recovery percentages
-        // But merge AI-generated workoutType if available
-        const finalRecoveryPredictions = calculatedPredictions.map((calcPred, i) => {
-          if (Array.isArray(cleaned.recoveryPredictions) && cleaned.recoveryPredictions.length > i) {
-            const aiPred = cleaned.recoveryPredictions[i] as Record<string, unknown>;
-            // Use AI workoutType if available, but always use calculated dayLabel and recoveryPercentage
-            return {
-              ...calcPred,
-              workoutType: (String(aiPred.workoutType || calcPred.workoutType || 'rest') as 'push' | 'pull' | 'legs' | 'rest'),
-              prPotential: (Array.isArray(aiPred.prPotential) ? aiPred.prPotential : calcPred.prPotential || []).map((p: unknown) => cleanPlainTextResponse(String(p))),
-              fatigueWarnings: (Array.isArray(aiPred.fatigueWarnings) ? aiPred.fatigueWarnings : calcPred.fatigueWarnings || []).map((w: unknown) => cleanPlainTextResponse(String(w))),
-            };
-          }
-          return calcPred;
-        });
-        
-        return {
+      const recommendations = await generateStructuredResponse(
+        provider,
+        {
+          task: 'workout-recommendations',
+          workouts,
+          muscleStatuses,
           readinessScore,
-          readinessStatus: String(cleaned.readinessStatus || 'Moderate'),
-          recommendedWorkout: recommendedWorkout ? {
-            id: 'rec-1',
-            name: cleanPlainTextResponse(String(recommendedWorkout.name || '')),
-            description: cleanPlainTextResponse(String(recommendedWorkout.description || '')),
-            duration: typeof recommendedWorkout.duration === 'number' ? recommendedWorkout.duration : 45,
-            intensity: String(recommendedWorkout.intensity || 'medium') as 'low' | 'medium' | 'high',
-            muscleGroups: (Array.isArray(recommendedWorkout.muscleGroups) ? recommendedWorkout.muscleGroups : []).map((m: unknown) => cleanPlainTextResponse(String(m)) as MuscleGroup),
-            reason: cleanPlainTextResponse(String(recommendedWorkout.reason || '')),
-          } : undefined,
-          progressionPlan: progressionPlan ? {
-            id: 'plan-1',
-            duration: typeof progressionPlan.duration === 'number' ? progressionPlan.duration : 7,
-            periodization: String(progressionPlan.periodization || 'linear') as 'linear' | 'undulating' | 'block',
-            phases: (Array.isArray(progressionPlan.phases) ? progressionPlan.phases : []).map((p: unknown) => {
-              const phase = p as Record<string, unknown>;
-              return {
-                day: typeof phase.day === 'number' ? phase.day : 1,
-                workoutType: String(phase.workoutType || 'rest') as 'push' | 'pull' | 'legs' | 'cardio' | 'rest',
-                intensity: String(phase.intensity || 'medium') as 'low' | 'medium' | 'high',
-                volumeTarget: typeof phase.volumeTarget === 'number' ? phase.volumeTarget : 0,
-                exercises: (Array.isArray(phase.exercises) ? phase.exercises : []).map((e: unknown) => cleanPlainTextResponse(String(e))),
-                recoveryTarget: typeof phase.recoveryTarget === 'number' ? phase.recoveryTarget : 0,
-              };
-            }),
-          } : undefined,
-          muscleBalance: {
-            // Use calculated imbalances (data-driven) instead of AI-generated ones
-            // We trust our calculation (which requires 7+ workouts) over AI hallucination
-            imbalances: calculatedImbalances,
-            overallScore: symmetryScore,
-          },
-          correctiveExercises: workouts.length >= 7 
-            ? (Array.isArray(cleaned.correctiveExercises) ? cleaned.correctiveExercises : []).map((ex: unknown, i: number) => {
-            const exercise = ex as Record<string, unknown>;
-            return {
-              id: `exercise-${i}`,
-              name: cleanPlainTextResponse(String(exercise.name || '')),
-              description: cleanPlainTextResponse(String(exercise.description || '')),
-              targetMuscle: cleanPlainTextResponse(String(exercise.targetMuscle || '')) as MuscleGroup,
-              category: String(exercise.category || '') as 'imbalance' | 'posture' | 'weakness' | 'mobility',
-              reason: cleanPlainTextResponse(String(exercise.reason || exercise.description || '')),
-            };
-          }) : [],
-          recoveryPredictions: finalRecoveryPredictions,
-        };
-      }
+          symmetryScore,
+          focusDistribution,
+          userLevel,
+          baseRestInterval,
+          constraints,
+          heartRateSettings,
+          prompt,
+          responseFormat: 'json',
+        },
+        workoutRecommendationsResponseSchema
+      );
+      const { recommendedWorkout, progressionPlan } = recommendations;
+      const recommendedExercises = recommendedWorkout && constraints
+        ? resolveRecommendedExercises(recommendedWorkout, constraints)
+        : undefined;
+
+      // Always use calculated predictions for accurate day labels and recovery percentages
+      // But merge AI-generated workoutType if available
+      const finalRecoveryPredictions = calculatedPredictions.map((calcPred, i) => {
+        const aiPred = recommendations.recoveryPredictions?.[i];
+        if (aiPred) {
+          // Use AI workoutType, but always use calculated dayLabel and recoveryPercentage
+          return {
+            ...calcPred,
+            workoutType: aiPred.workoutType,
+            prPotential: (aiPred.prPotential ?? calcPred.prPotential ?? []).map(p => cleanPlainTextResponse(p)),
+            fatigueWarnings: (aiPred.fatigueWarnings ?? calcPred.fatigueWarnings ?? []).map(w => cleanPlainTextResponse(w)),
+          };
+        }
+        return calcPred;
+      });
+
+      return {
+        readinessScore,
+        readinessStatus: recommendations.readinessStatus,
+        recommendedWorkout: recommendedWorkout ? {
+          id: 'rec-1',
+          name: cleanPlainTextResponse(recommendedWorkout.name),
+          description: cleanPlainTextResponse(recommendedWorkout.description),
+          duration: recommendedExercises && recommendedExercises.length > 0
+            ? estimateWorkoutMinutes(recommendedExercises)
+            : recommendedWorkout.duration,
+          intensity: recommendedWorkout.intensity,
+          muscleGroups: recommendedWorkout.muscleGroups.map(m => cleanPlainTextResponse(m) as MuscleGroup),
+          reason: cleanPlainTextResponse(recommendedWorkout.reason),
+          exercises: recommendedExercises,
+        } : undefined,
+        progressionPlan: progressionPlan ? {
+          id: 'plan-1',
+          duration: progressionPlan.duration,
+          periodization: progressionPlan.periodization,
+          phases: progressionPlan.phases.map(phase => ({
+            ...phase,
+            exercises: phase.exercises.map(e => cleanPlainTextResponse(e)),
+          })),
+        } : undefined,
+        muscleBalance: {
+          // Use calculated imbalances (data-driven) instead of AI-generated ones
+          // We trust our calculation (which requires 7+ workouts) over AI hallucination
+          imbalances: calculatedImbalances,
+          overallScore: symmetryScore,
+        },
+        correctiveExercises: workouts.length >= 7
+          ? (recommendations.correctiveExercises ?? []).map((exercise, i) => ({
+            id: `exercise-${i}`,
+            name: cleanPlainTextResponse(exercise.name),
+            description: cleanPlainTextResponse(exercise.description),
+            targetMuscle: cleanPlainTextResponse(exercise.targetMuscle) as MuscleGroup,
+            category: exercise.category,
+            reason: cleanPlainTextResponse(exercise.reason || exercise.description),
+          })) : [],
+        recoveryPredictions: finalRecoveryPredictions,
+      };
     } catch (error) {
       console.error('AI service error:', error);
     }
 
-    return generateMockWorkoutRecommendations(workouts, muscleStatuses, readinessScore, symmetryScore, focusDistribution, userLevel, baseRestInterval);
+    return buildWorkoutRecommendations(workouts, muscleStatuses, readinessScore, symmetryScore, focusDistribution, userLevel, baseRestInterval, constraints, heartRateSettings);
   },
 };
 
+/**
+ * Map the AI's exercise picks to library exercises, falling back to a
+ * deterministic selection when none of them can be matched
+ */
+function resolveRecommendedExercises(
+  workout: NonNullable<WorkoutRecommendationsResponse['recommendedWorkout']>,
+  constraints: WorkoutRecommendationConstraints
+): RecommendedExercise[] {
+  const resolved = resolveExercisePicks(workout.exercises ?? [], constraints.availableExercises, workout.intensity);
+  if (resolved.length > 0) {
+    return fitExercisesToTime(resolved, constraints.availableMinutes);
+  }
+  return selectExercisesForWorkout(
+    constraints.availableExercises,
+    workout.muscleGroups as MuscleGroup[],
+    workout.intensity,
+    constraints.availableMinutes
+  );
+}
+
 function formatWorkoutSummary(workouts: Workout[], personalRecords: PersonalRecord[] = []): string {
   const processed = aiDataProcessor.processWorkouts(workouts, personalRecords);
   return processed.summary;
@@ -821,296 +770,3 @@ function estimatePromptTokens(prompt: string): number {
   // Rough estimation: ~1.3 tokens per character
   return Math.ceil(prompt.length * 1.3);
 }
-
-function generateMockProgressAnalysis(
-  workouts: Workout[],
-  personalRecords: PersonalRecord[],
-  volumeTrend: Array<{ date: string; totalVolume: number }>,
-  consistencyScore: number,
-  previousConsistencyScore: number,
-  workoutCount: number,
-  previousWorkoutCount: number
-): ProgressAnalysis {
-  if (workouts.length === 0) {
-    return {
-      breakthrough: undefined,
-      consistencyScore: 0,
-      consistencyChange: 0,
-      workoutCount: 0,
-      workoutCountChange: 0,
-      volumeTrend: {
-        current: 0,
-        previous: 0,
-        changePercent: 0,
-        weeklyData: [],
-      },
-      plateaus: [],
-      formChecks: [],
-      trainingPatterns: [],
-    };
-  }
-
-  const latestPR = personalRecords.length > 0
-    ? personalRecords.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())[0]
-    : undefined;
-  const breakthrough: BreakthroughInsight | undefined = latestPR ? {
-    exercise: latestPR.exerciseName,
-    projectedWeight: latestPR.maxWeight + (latestPR.maxWeight * 0.05),
-    improvementPercent: 5,
-    reason: 'Based on your recent progress, you may be ready for a slight increase.',
-  } : undefined;
-
-  return {
-    breakthrough,
-    consistencyScore,
-    consistencyChange: consistencyScore - previousConsistencyScore,
-    workoutCount,
-    workoutCountChange: workoutCount - previousWorkoutCount,
-    volumeTrend: {
-      current: volumeTrend[volumeTrend.length - 1]?.totalVolume || 0,
-      previous: volumeTrend[0]?.totalVolume || 0,
-      changePercent: volumeTrend.length > 1 && volumeTrend[0].totalVolume > 0
-        ? ((volumeTrend[volumeTrend.length - 1].totalVolume - volumeTrend[0].totalVolume) / volumeTrend[0].totalVolume) * 100
-        : 0,
-      weeklyData: volumeTrend.map((v, i) => ({ week: `WEEK ${i + 1}`, volume: v.totalVolume })),
-    },
-    plateaus: [],
-    formChecks: [],
-    trainingPatterns: [],
-  };
-}
-
-function generateMockSmartAlerts(
-  workouts: Workout[],
-  muscleStatuses: MuscleStatus[],
-  readinessScore: number
-): SmartAlerts {
-  if (workouts.length === 0) {
-    return {
-      readinessScore: 0,
-      readinessStatus: 'low',
-      readinessMessage: 'Log workouts to get readiness insights.',
-      criticalAlerts: [],
-      suggestions: [],
-      nutritionEvents: [],
-    };
-  }
-
-  const overworkedMuscles = muscleStatuses.filter(m => m.recoveryStatus === 'overworked');
-  const criticalAlerts: Alert[] = overworkedMuscles.length > 0 ? [{
-    id: 'alert-1',
-    type: 'critical',
-    title: 'High Fatigue Detected',
-    message: `${overworkedMuscles[0].muscle} are showing signs of overtraining. Consider additional rest.`,
-    muscleGroup: overworkedMuscles[0].muscle,
-  }] : [];
-
-  return {
-    readinessScore,
-    readinessStatus: readinessScore >= 80 ? 'optimal' : readinessScore >= 60 ? 'good' : readinessScore >= 40 ? 'moderate' : 'low',
-    readinessMessage: readinessScore >= 80
-      ? 'Readiness is high. Push for PRs today.'
-      : readinessScore >= 60
-        ? 'Readiness is good. You can train with moderate intensity.'
-        : readinessScore >= 40
-          ? 'Readiness is moderate. Consider lighter training or rest.'
-          : 'Readiness is low. Rest is recommended.',
-    criticalAlerts,
-    suggestions: [],
-    nutritionEvents: [],
-  };
-}
-
-/**
- * Calculate recovery predictions for the next 7 days
- */
-function calculateRecoveryPredictions(
-  muscleStatuses: MuscleStatus[],
-  userLevel: 'beginner' | 'intermediate' | 'advanced',
-  baseRestInterval: number,
-  recentWorkouts?: Workout[]
-): RecoveryPrediction[] {
-  const predictions: RecoveryPrediction[] = [];
-  const today = new Date();
-
-  for (let i = 0; i < 7; i++) {
-    const targetDate = addDays(today, i);
-    const dayLabel = format(targetDate, 'EEE'); // Mon, Tue, etc.
-
-    // Calculate average recovery for all muscles on this day
-    let totalRecovery = 0;
-    let count = 0;
-    let maxFatigue = 0;
-    let maxSupercompensation = 0;
-    
-    const readyMusclesByCategory: { legs: MuscleGroup[]; push: MuscleGroup[]; pull: MuscleGroup[] } = {
-      legs: [],
-      push: [],
-      pull: [],
-    };
-
-    muscleStatuses.forEach((status) => {
-      let projectedRecovery = 100;
-      let fatigue = 0;
-      let supercomp = 0;
-      
-      const lastWorked = status.lastWorked instanceof Date 
-        ? status.lastWorked 
-        : status.lastWorked ? new Date(status.lastWorked) : null;
-
-      if (!lastWorked) {
-        // Never worked (or fully recovered)
-        totalRecovery += 100;
-        count++;
-        const category = categorizeMuscleGroup(status.muscle);
-        readyMusclesByCategory[category].push(status.muscle);
-      } else {
-        // Calculate hours between target date and last workout
-        const hoursSinceWorkout = differenceInHours(targetDate, lastWorked);
-
-        // Advanced metrics calculation
-        fatigue = calculateFatigueAccumulation(status, hoursSinceWorkout);
-        supercomp = calculateSupercompensation(status, hoursSinceWorkout);
-        maxFatigue = Math.max(maxFatigue, fatigue);
-        maxSupercompensation = Math.max(maxSupercompensation, supercomp);
-
-        if (hoursSinceWorkout < 0) {
-          // Target date is before last workout (shouldn't happen for future predictions)
-          projectedRecovery = status.recoveryPercentage;
-        } else {
-          // Calculate projected recovery
-          const recoverySettings = DEFAULT_RECOVERY_SETTINGS;
-          let baseRecoveryHours = 48;
-
-          if (userLevel === 'beginner') {
-            baseRecoveryHours = (recoverySettings.beginnerRestDays[status.muscle] || 2) * 24;
-          } else if (userLevel === 'intermediate') {
-            baseRecoveryHours = (recoverySettings.intermediateRestDays[status.muscle] || 2) * 24;
-          } else {
-            baseRecoveryHours = (recoverySettings.advancedRestDays[status.muscle] || 1) * 24;
-          }
-
-          if (baseRestInterval !== undefined) {
-            const defaultBase = 48;
-            const ratio = baseRestInterval / defaultBase;
-            baseRecoveryHours = baseRecoveryHours * ratio;
-          }
-
-          const workloadMultiplier = 1 + (status.workloadScore / 100);
-          const adjustedRecoveryHours = baseRecoveryHours * workloadMultiplier;
-
-          projectedRecovery = Math.min(
-            100,
-            Math.max(0, (hoursSinceWorkout / adjustedRecoveryHours) * 100)
-          );
-        }
-
-        totalRecovery += projectedRecovery;
-        count++;
-
-        if (projectedRecovery >= 75) {
-          const category = categorizeMuscleGroup(status.muscle);
-          readyMusclesByCategory[category].push(status.muscle);
-        }
-      }
-    });
-
-    const avgRecovery = count > 0 ? Math.round(totalRecovery / count) : 85;
-
-    // Determine workout type based on ready muscles
-    let workoutType: 'push' | 'pull' | 'legs' | 'rest' = 'rest';
-    if (readyMusclesByCategory.legs.length >= 2) {
-      workoutType = 'legs';
-    } else if (readyMusclesByCategory.push.length >= 2) {
-      workoutType = 'push';
-    } else if (readyMusclesByCategory.pull.length >= 2) {
-      workoutType = 'pull';
-    } else if (avgRecovery >= 75) {
-      workoutType = 'rest';
-    }
-    
-    // Calculate PR Probability if recent workouts are available
-    let prProb = 0;
-    if (recentWorkouts && recentWorkouts.length > 0 && muscleStatuses.length > 0) {
-      // Use the muscle with highest readiness to estimate PR chance for the day
-      const bestMuscle = muscleStatuses.reduce((prev, curr) => 
-        (curr.recoveryPercentage > prev.recoveryPercentage) ? curr : prev
-      );
-      // Rough estimation of hours since workout for best muscle
-      const lastWorked = bestMuscle.lastWorked ? new Date(bestMuscle.lastWorked) : null;
-      const hours = lastWorked ? differenceInHours(targetDate, lastWorked) : 100;
-      
-      prProb = calculatePRProbability(bestMuscle, recentWorkouts, hours);
-    }
-
-    const prediction: RecoveryPrediction = {
-      date: targetDate.toISOString().split('T')[0],
-      dayLabel,
-      workoutType,
-      recoveryPercentage: Math.max(1, avgRecovery),
-      prPotential: avgRecovery >= 90 ? ['Optimal recovery for PR attempts'] : [],
-      fatigueWarnings: avgRecovery < 50 ? ['High fatigue - consider rest'] : [],
-      fatigueAccumulation: maxFatigue,
-      supercompensationScore: maxSupercompensation,
-      prProbability: prProb,
-      volumePrediction: 0, // Placeholder
-    };
-    predictions.push(prediction);
-  }
-
-  return predictions;
-}
-
-function generateMockWorkoutRecommendations(
-  workouts: Workout[],
-  muscleStatuses: MuscleStatus[],
-  readinessScore: number,
-  symmetryScore: number,
-  _focusDistribution: { legs: number; push: number; pull: number },
-  userLevel: 'beginner' | 'intermediate' | 'advanced' = 'intermediate',
-  baseRestInterval: number = 48
-): WorkoutRecommendations {
-  // Calculate imbalances from actual workout data (data-driven)
-  const calculatedImbalances = calculateMuscleImbalances(workouts);
-  
-  if (workouts.length === 0) {
-    return {
-      readinessScore: 0,
-      readinessStatus: 'Rest',
-      recommendedWorkout: undefined,
-      progressionPlan: undefined,
-      muscleBalance: {
-        imbalances: [],
-        overallScore: 0,
-      },
-      correctiveExercises: [],
-      recoveryPredictions: calculateRecoveryPredictions(muscleStatuses, userLevel, baseRestInterval),
-    };
-  }
-
-  const recoveredMuscles = muscleStatuses.filter(m => m.recoveryPercentage >= 90);
-  const recommendedMuscle = recoveredMuscles.length > 0 ? recoveredMuscles[0].muscle : undefined;
-
-  const recommendedWorkout: WorkoutRecommendation | undefined = recommendedMuscle ? {
-    id: 'rec-1',
-    name: `${recommendedMuscle} Focus`,
-    description: `${recommendedMuscle} is fully recovered and ready for training.`,
-    duration: 45,
-    intensity: readinessScore >= 80 ? 'high' : readinessScore >= 60 ? 'medium' : 'low',
-    muscleGroups: [recommendedMuscle],
-    reason: 'Optimal recovery window',
-  } : undefined;
-
-  return {
-    readinessScore,
-    readinessStatus: readinessScore >= 80 ? 'Go Heavy' : readinessScore >= 60 ? 'Moderate' : 'Rest',
-    recommendedWorkout,
-    progressionPlan: undefined,
-    muscleBalance: {
-      imbalances: calculatedImbalances,
-      overallScore: symmetryScore,
-    },
-    correctiveExercises: [],
-    recoveryPredictions: calculateRecoveryPredictions(muscleStatuses, userLevel, baseRestInterval, workouts),
-  };
-}
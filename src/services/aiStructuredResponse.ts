@@ -0,0 +1,109 @@
+import { z } from 'zod';
+import { AIProvider, AITaskInput } from '@/types/ai';
+import { parseAIJSON, sanitizeAIResponse, cleanPlainTextResponse } from '@/utils/aiResponseCleaner';
+import { AppError } from '@/utils/errorHandler';
+import { aiResponseMetrics } from './aiResponseMetrics';
+
+const MAX_REPORTED_ISSUES = 8;
+const MAX_ECHOED_RESPONSE_LENGTH = 2000;
+
+export type AIStructuredRequest = AITaskInput & {
+  prompt: string;
+  responseFormat: 'json' | 'text';
+};
+
+function parseResponse(text: string, responseFormat: 'json' | 'text'): unknown {
+  if (responseFormat === 'text') {
+    return cleanPlainTextResponse(text);
+  }
+  const parsed = parseAIJSON(text);
+  return parsed === null ? null : sanitizeAIResponse(parsed);
+}
+
+/**
+ * One line per schema issue, e.g. "plateaus.0.weight: Expected number, received string"
+ */
+export function formatValidationIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, MAX_REPORTED_ISSUES)
+    .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('\n');
+}
+
+function buildRepairPrompt(
+  request: AIStructuredRequest,
+  previousResponse: string,
+  issues: string,
+  jsonSchema: Record<string, unknown> | undefined
+): string {
+  const format = jsonSchema
+    ? `Output ONLY a JSON object matching this JSON Schema, with no markdown, code blocks or explanatory text:\n${JSON.stringify(jsonSchema)}`
+    : 'Output ONLY the corrected insight text, nothing else.';
+
+  return `${request.prompt}
+
+YOUR PREVIOUS RESPONSE WAS REJECTED because it did not match the required format.
+
+Problems found:
+${issues}
+
+Previous response:
+${previousResponse.slice(0, MAX_ECHOED_RESPONSE_LENGTH)}
+
+Fix every problem listed above. ${format}`;
+}
+
+/**
+ * Generate a response and validate it against its schema. An invalid response
+ * from a remote provider is retried once with a repair prompt listing the
+ * problems; if that also fails an AI_RESPONSE_INVALID error is thrown so the
+ * caller can use its fallback. Every outcome is counted per task in
+ * aiResponseMetrics.
+ */
+export async function generateStructuredResponse<T>(
+  provider: AIProvider,
+  request: AIStructuredRequest,
+  schema: z.ZodType<T>
+): Promise<T> {
+  const { task } = request;
+  const jsonSchema = request.responseFormat === 'json'
+    ? z.toJSONSchema(schema) as Record<string, unknown>
+    : undefined;
+
+  const text = await provider.generate({ ...request, responseSchema: jsonSchema });
+  aiResponseMetrics.recordResponse(task);
+
+  const result = schema.safeParse(parseResponse(text, request.responseFormat));
+  if (result.success) {
+    return result.data;
+  }
+
+  const issues = formatValidationIssues(result.error);
+  aiResponseMetrics.recordValidationFailure(task, issues);
+
+  // The rule-based provider ignores the prompt, so asking it again changes nothing
+  if (provider.isRemote) {
+    const repairedText = await provider.generate({
+      ...request,
+      prompt: buildRepairPrompt(request, text, issues, jsonSchema),
+      responseSchema: jsonSchema,
+    });
+    aiResponseMetrics.recordResponse(task);
+
+    const repaired = schema.safeParse(parseResponse(repairedText, request.responseFormat));
+    if (repaired.success) {
+      aiResponseMetrics.recordRepairSuccess(task);
+      return repaired.data;
+    }
+    aiResponseMetrics.recordValidationFailure(task, formatValidationIssues(repaired.error));
+  }
+
+  aiResponseMetrics.recordFallback(task);
+  throw new AppError(
+    `AI response for ${task} did not match its schema`,
+    'AI_RESPONSE_INVALID',
+    undefined,
+    undefined,
+    { task, issues }
+  );
+}
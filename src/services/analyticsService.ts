@@ -13,7 +13,13 @@ import {
   getWeeklyWorkoutDays,
   DateRange,
 } from '@/utils/analyticsHelpers';
-import { calculateEstimatedOneRepMax, calculateStreak } from '@/utils/calculations';
+import {
+  calculateStreak,
+  estimateOneRepMax,
+  DEFAULT_ONE_REP_MAX_FORMULA,
+  OneRepMaxFormula,
+} from '@/utils/calculations';
+import { countsForRecords } from '@/utils/setTypes';
 
 export const analyticsService = {
   calculateTotalVolume(workouts: Workout[]): number {
@@ -87,7 +93,8 @@ export const analyticsService = {
 
   calculateStrengthProgression(
     workouts: Workout[],
-    exerciseNames: string[] = ['Barbell Squat', 'Barbell Bench Press', 'Barbell Deadlift']
+    exerciseNames: string[] = ['Barbell Squat', 'Barbell Bench Press', 'Barbell Deadlift'],
+    formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA
   ): StrengthProgression[] {
     const progressions: StrengthProgression[] = [];
 
@@ -103,12 +110,12 @@ export const analyticsService = {
 
       exerciseWorkouts.forEach(({ workout, exercise }) => {
         const maxSet = (exercise.sets ?? [])
-          .filter((s) => s.completed && s.weight !== undefined && s.reps !== undefined)
+          .filter((s) => s.completed && s.weight !== undefined && s.reps !== undefined && countsForRecords(s))
           .reduce(
             (max, set) => {
               const weight = set.weight || 0;
               const reps = set.reps || 0;
-              const estimated1RM = calculateEstimatedOneRepMax(weight, reps);
+              const estimated1RM = estimateOneRepMax(weight, reps, formula, set.rpe);
               return estimated1RM > max.estimated1RM ? { estimated1RM, weight, reps } : max;
             },
             { estimated1RM: 0, weight: 0, reps: 0 }
@@ -120,6 +127,7 @@ export const analyticsService = {
             maxWeight: maxSet.weight,
             maxReps: maxSet.reps,
             totalVolume: exercise.totalVolume,
+            estimatedOneRepMax: Math.round(maxSet.estimated1RM * 10) / 10,
           });
         }
       });
@@ -320,7 +328,8 @@ export const analyticsService = {
   async getAllMetrics(
     workouts: Workout[], 
     range: DateRange = '30d',
-    userId?: string
+    userId?: string,
+    oneRepMaxFormula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA
   ): Promise<AnalyticsMetrics> {
     const filtered = filterWorkoutsByDateRange(workouts, range);
 
@@ -347,7 +356,7 @@ export const analyticsService = {
       consistencyScore: calculateConsistencyScore(filtered),
       volumeTrend: this.calculateVolumeTrend(filtered, range),
       personalRecords: this.getPersonalRecords(filtered),
-      strengthProgression: this.calculateStrengthProgression(filtered),
+      strengthProgression: this.calculateStrengthProgression(filtered, undefined, oneRepMaxFormula),
       muscleVolume: this.calculateMuscleVolume(filtered),
       focusDistribution: this.calculateFocusDistribution(filtered),
       symmetryScore: this.calculateSymmetryScore(filtered),
@@ -5,6 +5,7 @@
 
 import { swCommunication } from './swCommunication';
 import { aiChangeDetector } from './aiChangeDetector';
+import { aiProviderRegistry } from './aiProviders';
 import { Workout } from '@/types/workout';
 import { MuscleStatus } from '@/types/muscle';
 import { PersonalRecord, StrengthProgression } from '@/types/analytics';
@@ -47,6 +48,12 @@ export class BackgroundAIFetcher {
     userId?: string,
     insightTypes: InsightType[] = ['progress', 'insights', 'recommendations']
   ): Promise<void> {
+    // The service worker only knows how to call Gemini
+    if (aiProviderRegistry.getActiveProviderType() !== 'gemini') {
+      logger.debug('[Background AI Fetcher] Active AI provider is not Gemini, skipping background fetch');
+      return;
+    }
+
     // Check if service worker is available
     const isAvailable = await swCommunication.waitForServiceWorker(2000);
     if (!isAvailable) {
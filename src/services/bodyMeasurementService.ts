@@ -0,0 +1,132 @@
+import { BodyMeasurement, BodyMeasurementSite, BodyweightTrendPoint } from '@/types/measurement';
+import { dbHelpers } from './database';
+import { dataService } from './dataService';
+import { sanitizeString } from '@/utils/sanitize';
+import {
+  BODY_MEASUREMENT_SITES,
+  calculateBodyweightTrend,
+  getBodyweightAt,
+  DEFAULT_TREND_SMOOTHING,
+} from '@/utils/measurementHelpers';
+
+export type BodyMeasurementInput = Omit<BodyMeasurement, 'id' | 'createdAt' | 'updatedAt' | 'version' | 'deletedAt'>;
+
+const MIN_WEIGHT_KG = 20;
+const MAX_WEIGHT_KG = 400;
+const MAX_CIRCUMFERENCE_CM = 300;
+
+class BodyMeasurementService {
+  private validateMeasurement(measurement: Partial<BodyMeasurementInput>): void {
+    if (measurement.weight !== undefined &&
+        (!Number.isFinite(measurement.weight) || measurement.weight < MIN_WEIGHT_KG || measurement.weight > MAX_WEIGHT_KG)) {
+      throw new Error(`Bodyweight must be between ${MIN_WEIGHT_KG} and ${MAX_WEIGHT_KG} kg`);
+    }
+    if (measurement.bodyFatPercent !== undefined &&
+        (!Number.isFinite(measurement.bodyFatPercent) || measurement.bodyFatPercent <= 0 || measurement.bodyFatPercent >= 100)) {
+      throw new Error('Body fat must be between 0 and 100%');
+    }
+    for (const [site, value] of Object.entries(measurement.circumferences ?? {})) {
+      if (!BODY_MEASUREMENT_SITES.includes(site as BodyMeasurementSite)) {
+        throw new Error(`Unknown measurement site: ${site}`);
+      }
+      if (value !== undefined && (!Number.isFinite(value) || value <= 0 || value > MAX_CIRCUMFERENCE_CM)) {
+        throw new Error(`${site} must be between 0 and ${MAX_CIRCUMFERENCE_CM} cm`);
+      }
+    }
+  }
+
+  private hasAnyValue(measurement: Partial<BodyMeasurementInput>): boolean {
+    return measurement.weight !== undefined ||
+      measurement.bodyFatPercent !== undefined ||
+      Object.values(measurement.circumferences ?? {}).some(value => value !== undefined);
+  }
+
+  async logMeasurement(measurement: BodyMeasurementInput): Promise<string> {
+    if (!measurement.userId) {
+      throw new Error('Measurement must have a userId');
+    }
+    if (!this.hasAnyValue(measurement)) {
+      throw new Error('Enter at least one measurement');
+    }
+    this.validateMeasurement(measurement);
+
+    const now = new Date();
+    const fullMeasurement: BodyMeasurement = {
+      ...measurement,
+      id: `measurement-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      date: new Date(measurement.date),
+      notes: measurement.notes ? sanitizeString(measurement.notes) : undefined,
+      createdAt: now,
+      updatedAt: now,
+      version: 1,
+    };
+
+    await dbHelpers.saveBodyMeasurement(fullMeasurement);
+    dataService.notifyMeasurementUpdate();
+
+    return fullMeasurement.id;
+  }
+
+  async updateMeasurement(
+    id: string,
+    updates: Partial<Omit<BodyMeasurement, 'id' | 'userId' | 'createdAt'>>
+  ): Promise<void> {
+    const existing = await dbHelpers.getBodyMeasurement(id);
+    if (!existing) {
+      throw new Error('Measurement not found');
+    }
+    if (!this.hasAnyValue({ ...existing, ...updates })) {
+      throw new Error('Enter at least one measurement');
+    }
+    this.validateMeasurement(updates);
+
+    await dbHelpers.updateBodyMeasurement(id, {
+      ...updates,
+      notes: updates.notes ? sanitizeString(updates.notes) : updates.notes,
+      updatedAt: new Date(),
+      version: (existing.version || 0) + 1,
+    });
+    dataService.notifyMeasurementUpdate();
+  }
+
+  async deleteMeasurement(id: string): Promise<void> {
+    await dbHelpers.deleteBodyMeasurement(id);
+    dataService.notifyMeasurementUpdate();
+  }
+
+  /**
+   * All measurements for a user, newest first
+   */
+  async getMeasurements(userId: string): Promise<BodyMeasurement[]> {
+    return await dbHelpers.getAllBodyMeasurements(userId);
+  }
+
+  async getLatestMeasurement(userId: string): Promise<BodyMeasurement | undefined> {
+    const measurements = await this.getMeasurements(userId);
+    return measurements[0];
+  }
+
+  /**
+   * Logged bodyweight (kg) in effect on a given day, used for bodyweight
+   * exercise volume. Undefined when nothing was logged on or before that day.
+   */
+  async getBodyweightAt(userId: string, date: Date): Promise<number | undefined> {
+    const measurements = await this.getMeasurements(userId);
+    return getBodyweightAt(measurements, date);
+  }
+
+  async getBodyweightTrend(
+    userId: string,
+    startDate?: Date,
+    endDate?: Date,
+    smoothing: number = DEFAULT_TREND_SMOOTHING
+  ): Promise<BodyweightTrendPoint[]> {
+    // Smooth over the full history so the first point in range isn't a cold start
+    const trend = calculateBodyweightTrend(await this.getMeasurements(userId), smoothing);
+    return trend.filter(point =>
+      (!startDate || point.date >= startDate) && (!endDate || point.date <= endDate)
+    );
+  }
+}
+
+export const bodyMeasurementService = new BodyMeasurementService();
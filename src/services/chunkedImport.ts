@@ -0,0 +1,732 @@
+/**
+ * Chunked, resumable import of JSON export files.
+ *
+ * Streams the export file instead of parsing it in one go, writes records in
+ * batches inside a single transaction each and stores a checkpoint alongside
+ * every batch, so a cancelled or interrupted import can pick up where the last
+ * committed batch left off.
+ */
+
+import { dataService } from './dataService';
+import { templateService } from './templateService';
+import { plannedWorkoutService } from './plannedWorkoutService';
+import { sleepRecoveryService } from './sleepRecoveryService';
+import { trainingProgramService } from './trainingProgramService';
+import { transactionManager } from './transactionManager';
+import { dbHelpers } from './database';
+import {
+  dataExport,
+  createEmptyImportResult,
+  createImportError,
+  normalizeImportedBodyMeasurement,
+  normalizeImportedNutritionLog,
+  normalizeImportedPlannedWorkout,
+  normalizeImportedRecoveryLog,
+  normalizeImportedSleepLog,
+  normalizeImportedTrainingProgram,
+  normalizeImportedWorkout,
+} from './dataExport';
+import { Workout, WorkoutTemplate, PlannedWorkout } from '@/types/workout';
+import { Exercise } from '@/types/exercise';
+import { MuscleStatus } from '@/types/muscle';
+import { SleepLog, RecoveryLog } from '@/types/sleep';
+import { TrainingProgram } from '@/types/program';
+import { BodyMeasurement } from '@/types/measurement';
+import { NutritionLog } from '@/types/nutrition';
+import {
+  ImportCheckpoint,
+  ImportError,
+  ImportPreview,
+  ImportResult,
+  ImportStrategy,
+  ProgressCallback,
+} from '@/types/export';
+import { UserProfile } from '@/store/userStore';
+import { streamJsonObject } from '@/utils/jsonStreamReader';
+import { AppError } from '@/utils/errorHandler';
+import { logger } from '@/utils/logger';
+
+const CHECKPOINT_SETTING_KEY = 'importCheckpoint';
+const IMPORT_BATCH_SIZE = 50;
+const MAX_IMPORT_FILE_SIZE = 1024 * 1024 * 1024; // 1GB
+
+// Every store a record importer may write to, so nested service transactions join the batch transaction
+const IMPORT_STORES = [
+  'workouts',
+  'exercises',
+  'muscleStatuses',
+  'settings',
+  'workoutTemplates',
+  'plannedWorkouts',
+  'sleepLogs',
+  'recoveryLogs',
+  'trainingPrograms',
+  'bodyMeasurements',
+  'nutritionLogs',
+  'syncMetadata',
+];
+
+type ArraySection =
+  | 'workouts'
+  | 'templates'
+  | 'plannedWorkouts'
+  | 'customExercises'
+  | 'muscleStatuses'
+  | 'sleepLogs'
+  | 'recoveryLogs'
+  | 'trainingPrograms'
+  | 'bodyMeasurements'
+  | 'nutritionLogs';
+
+type RecordOutcome = 'imported' | 'skipped';
+
+interface ImportContext {
+  userId: string;
+  strategy: ImportStrategy;
+  // Merge-mode duplicate keys for sections that are cheaper to preload than to query per record
+  existingKeys: Partial<Record<ArraySection, Set<string>>>;
+  // Keys written by the batch in flight; merged into existingKeys once the batch commits
+  pendingKeys: Set<string>;
+}
+
+interface RecordProblem {
+  field: string;
+  message: string;
+}
+
+interface SectionHandler {
+  errorCategory: string;
+  getRecordName: (record: never) => string;
+  // Why a record must not be written, checked before importRecord
+  validateRecord: (record: never) => RecordProblem | null;
+  loadExistingKeys?: (userId: string) => Promise<Set<string>>;
+  importRecord: (record: never, ctx: ImportContext) => Promise<RecordOutcome>;
+}
+
+function formatRecordDate(value: Date | string | undefined): string {
+  return value ? new Date(value).toLocaleDateString() : 'Unknown date';
+}
+
+function checkRequired(value: unknown, field: string, label: string): RecordProblem | null {
+  return value ? null : { field, message: `Missing ${label}` };
+}
+
+function checkDate(value: unknown, field: string, label: string): RecordProblem | null {
+  if (!value) {
+    return { field, message: `Missing ${label}` };
+  }
+  return isNaN(new Date(value as string).getTime())
+    ? { field, message: `Invalid ${label}: ${String(value)}` }
+    : null;
+}
+
+function checkArray(value: unknown, field: string): RecordProblem | null {
+  return Array.isArray(value) ? null : { field, message: `Missing or invalid ${field} array` };
+}
+
+function getWorkoutDedupeKey(date: Date | string, exercises: Workout['exercises']): string {
+  return `${new Date(date).toISOString().split('T')[0]}|${JSON.stringify(exercises)}`;
+}
+
+function getPlannedWorkoutDedupeKey(scheduledDate: Date | string, workoutName: string): string {
+  return `${new Date(scheduledDate).getTime()}|${workoutName}`;
+}
+
+/**
+ * Check a merge-mode duplicate key against existing and in-flight records
+ */
+function isDuplicate(ctx: ImportContext, section: ArraySection, key: string): boolean {
+  const pendingKey = `${section}:${key}`;
+  if (ctx.existingKeys[section]?.has(key) || ctx.pendingKeys.has(pendingKey)) {
+    return true;
+  }
+  ctx.pendingKeys.add(pendingKey);
+  return false;
+}
+
+const SECTION_HANDLERS: Record<ArraySection, SectionHandler> = {
+  customExercises: {
+    errorCategory: 'exercise',
+    getRecordName: (exercise: Exercise) => exercise.name || 'Unknown exercise',
+    validateRecord: (exercise: Exercise) =>
+      checkRequired(exercise.id, 'id', 'exercise id') ?? checkRequired(exercise.name, 'name', 'exercise name'),
+    importRecord: async (exercise: Exercise, ctx) => {
+      if (ctx.strategy === 'merge') {
+        const existing = await dbHelpers.getExercise(exercise.id);
+        if (existing && existing.userId === ctx.userId) {
+          return 'skipped';
+        }
+      }
+      await dataService.createExercise({ ...exercise, userId: ctx.userId });
+      return 'imported';
+    },
+  },
+  templates: {
+    errorCategory: 'template',
+    getRecordName: (template: WorkoutTemplate) => template.name || 'Unknown template',
+    validateRecord: (template: WorkoutTemplate) =>
+      checkRequired(template.name, 'name', 'template name') ?? checkArray(template.exercises, 'exercises'),
+    loadExistingKeys: async (userId) =>
+      new Set((await templateService.getAllTemplates(userId)).map((t) => t.name)),
+    importRecord: async (template: WorkoutTemplate, ctx) => {
+      if (ctx.strategy === 'merge' && isDuplicate(ctx, 'templates', template.name)) {
+        return 'skipped';
+      }
+      await templateService.createTemplate({ ...template, userId: ctx.userId });
+      return 'imported';
+    },
+  },
+  trainingPrograms: {
+    errorCategory: 'trainingProgram',
+    getRecordName: (program: TrainingProgram) => program.name || 'Unknown program',
+    validateRecord: (program: TrainingProgram) =>
+      checkDate(program.startDate, 'startDate', 'program start date') ??
+      checkArray(program.days, 'days') ??
+      checkArray(program.weeks, 'weeks'),
+    importRecord: async (program: TrainingProgram, ctx) => {
+      if (ctx.strategy === 'merge' && (await trainingProgramService.getProgram(program.id))) {
+        return 'skipped';
+      }
+      await dbHelpers.saveTrainingProgram(normalizeImportedTrainingProgram(program, ctx.userId));
+      return 'imported';
+    },
+  },
+  plannedWorkouts: {
+    errorCategory: 'plannedWorkout',
+    getRecordName: (planned: PlannedWorkout) => formatRecordDate(planned.scheduledDate),
+    validateRecord: (planned: PlannedWorkout) => checkDate(planned.scheduledDate, 'scheduledDate', 'scheduled date'),
+    loadExistingKeys: async (userId) =>
+      new Set(
+        (await plannedWorkoutService.getAllPlannedWorkouts(userId)).map((pw) =>
+          getPlannedWorkoutDedupeKey(pw.scheduledDate, pw.workoutName)
+        )
+      ),
+    importRecord: async (planned: PlannedWorkout, ctx) => {
+      const plannedToImport = normalizeImportedPlannedWorkout(planned);
+      if (
+        ctx.strategy === 'merge' &&
+        isDuplicate(ctx, 'plannedWorkouts', getPlannedWorkoutDedupeKey(plannedToImport.scheduledDate, planned.workoutName))
+      ) {
+        return 'skipped';
+      }
+      await plannedWorkoutService.createPlannedWorkout(ctx.userId, plannedToImport);
+      return 'imported';
+    },
+  },
+  workouts: {
+    errorCategory: 'workout',
+    getRecordName: (workout: Workout) => formatRecordDate(workout.date),
+    validateRecord: (workout: Workout) =>
+      checkDate(workout.date, 'date', 'workout date') ?? checkArray(workout.exercises, 'exercises'),
+    loadExistingKeys: async (userId) =>
+      new Set(
+        (await dataService.getAllWorkouts(userId)).map((w) => getWorkoutDedupeKey(w.date, w.exercises))
+      ),
+    importRecord: async (workout: Workout, ctx) => {
+      if (ctx.strategy === 'merge' && isDuplicate(ctx, 'workouts', getWorkoutDedupeKey(workout.date, workout.exercises))) {
+        return 'skipped';
+      }
+      await dataService.createWorkout(normalizeImportedWorkout(workout, ctx.userId));
+      return 'imported';
+    },
+  },
+  muscleStatuses: {
+    errorCategory: 'muscleStatus',
+    getRecordName: (status: MuscleStatus) =>
+      status.muscle.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase()),
+    validateRecord: (status: MuscleStatus) => checkRequired(status.muscle, 'muscle', 'muscle'),
+    loadExistingKeys: async (userId) =>
+      new Set(
+        (await dataService.getAllMuscleStatuses())
+          .filter((s) => s.userId === userId)
+          .map((s) => s.muscle)
+      ),
+    importRecord: async (status: MuscleStatus, ctx) => {
+      if (ctx.strategy === 'merge' && isDuplicate(ctx, 'muscleStatuses', status.muscle)) {
+        return 'skipped';
+      }
+      await dbHelpers.upsertMuscleStatus({ ...status, userId: ctx.userId });
+      return 'imported';
+    },
+  },
+  sleepLogs: {
+    errorCategory: 'sleepLog',
+    getRecordName: (log: SleepLog) => formatRecordDate(log.date),
+    validateRecord: (log: SleepLog) => checkDate(log.date, 'date', 'sleep log date'),
+    importRecord: async (log: SleepLog, ctx) => {
+      const logToImport = normalizeImportedSleepLog(log, ctx.userId);
+      if (ctx.strategy === 'merge' && (await sleepRecoveryService.getSleepLog(ctx.userId, logToImport.date))) {
+        return 'skipped';
+      }
+      await sleepRecoveryService.saveSleepLog(logToImport);
+      return 'imported';
+    },
+  },
+  recoveryLogs: {
+    errorCategory: 'recoveryLog',
+    getRecordName: (log: RecoveryLog) => formatRecordDate(log.date),
+    validateRecord: (log: RecoveryLog) => checkDate(log.date, 'date', 'recovery log date'),
+    importRecord: async (log: RecoveryLog, ctx) => {
+      const logToImport = normalizeImportedRecoveryLog(log, ctx.userId);
+      if (ctx.strategy === 'merge' && (await sleepRecoveryService.getRecoveryLog(ctx.userId, logToImport.date))) {
+        return 'skipped';
+      }
+      await sleepRecoveryService.saveRecoveryLog(logToImport);
+      return 'imported';
+    },
+  },
+  bodyMeasurements: {
+    errorCategory: 'bodyMeasurement',
+    getRecordName: (measurement: BodyMeasurement) => formatRecordDate(measurement.date),
+    validateRecord: (measurement: BodyMeasurement) =>
+      checkRequired(measurement.id, 'id', 'measurement id') ?? checkDate(measurement.date, 'date', 'measurement date'),
+    importRecord: async (measurement: BodyMeasurement, ctx) => {
+      if (ctx.strategy === 'merge' && (await dbHelpers.getBodyMeasurement(measurement.id))) {
+        return 'skipped';
+      }
+      await dbHelpers.saveBodyMeasurement(normalizeImportedBodyMeasurement(measurement, ctx.userId));
+      return 'imported';
+    },
+  },
+  nutritionLogs: {
+    errorCategory: 'nutritionLog',
+    getRecordName: (log: NutritionLog) => formatRecordDate(log.date),
+    validateRecord: (log: NutritionLog) =>
+      checkRequired(log.id, 'id', 'nutrition entry id') ?? checkDate(log.date, 'date', 'nutrition entry date'),
+    importRecord: async (log: NutritionLog, ctx) => {
+      if (ctx.strategy === 'merge' && (await dbHelpers.getNutritionLog(log.id))) {
+        return 'skipped';
+      }
+      await dbHelpers.saveNutritionLog(normalizeImportedNutritionLog(log, ctx.userId));
+      return 'imported';
+    },
+  },
+};
+
+function isArraySection(key: string): key is ArraySection {
+  return key in SECTION_HANDLERS;
+}
+
+function getRecordName(handler: SectionHandler, record: unknown, index: number): string {
+  try {
+    return handler.getRecordName(record as never);
+  } catch {
+    // Keep the positional name for records too malformed to name
+    return `Record ${index + 1}`;
+  }
+}
+
+/**
+ * Validation error for a record that must not be written, or null if it can be imported
+ */
+function validateRecord(section: ArraySection, record: unknown, index: number): ImportError | null {
+  const handler = SECTION_HANDLERS[section];
+  if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+    return createImportError('validation', handler.errorCategory, new Error('Record is not an object'), {
+      recordName: `Record ${index + 1}`,
+    });
+  }
+  const problem = handler.validateRecord(record as never);
+  if (!problem) {
+    return null;
+  }
+  const { id } = record as { id?: unknown };
+  return createImportError('validation', handler.errorCategory, new Error(problem.message), {
+    recordId: id == null ? undefined : String(id),
+    recordName: getRecordName(handler, record, index),
+    field: problem.field,
+  });
+}
+
+function getFileKey(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function assertSupportedVersion(version: unknown): void {
+  if (typeof version !== 'string' || !version) {
+    throw new Error('Invalid export file: missing version');
+  }
+  if (!version.startsWith('1.') && !version.startsWith('2.')) {
+    throw new Error(`Unsupported export version: ${version}`);
+  }
+}
+
+function validateFile(file: File): void {
+  if (!file.name.endsWith('.json')) {
+    throw new AppError('File must be a JSON file', 'INVALID_FILE_TYPE', undefined, undefined, {
+      fileName: file.name,
+    });
+  }
+  if (file.size > MAX_IMPORT_FILE_SIZE) {
+    throw new AppError(
+      `The file is too large (${(file.size / (1024 * 1024)).toFixed(1)}MB). Maximum size is 1GB.`,
+      'FILE_TOO_LARGE',
+      undefined,
+      undefined,
+      { fileName: file.name, fileSize: file.size, maxSize: MAX_IMPORT_FILE_SIZE }
+    );
+  }
+}
+
+export const chunkedImport = {
+  /**
+   * Summarize an export file without loading all of its records
+   */
+  async previewFile(file: File): Promise<ImportPreview> {
+    validateFile(file);
+
+    const preview: ImportPreview = {
+      version: '',
+      exportDate: '',
+      dataCounts: {
+        workouts: 0,
+        templates: 0,
+        plannedWorkouts: 0,
+        customExercises: 0,
+        muscleStatuses: 0,
+        sleepLogs: 0,
+        recoveryLogs: 0,
+        trainingPrograms: 0,
+        bodyMeasurements: 0,
+        nutritionLogs: 0,
+        settings: 0,
+      },
+      userProfile: null,
+    };
+
+    for await (const event of streamJsonObject(file)) {
+      if (event.type === 'arrayEnd' && isArraySection(event.key)) {
+        preview.dataCounts[event.key] = event.count;
+      } else if (event.type === 'value') {
+        if (event.key === 'version') {
+          preview.version = String(event.value);
+        } else if (event.key === 'exportDate') {
+          preview.exportDate = String(event.value);
+        } else if (event.key === 'settings' && event.value && typeof event.value === 'object') {
+          preview.dataCounts.settings = Object.keys(event.value).length;
+        } else if (event.key === 'userProfile' && event.value) {
+          const profile = event.value as UserProfile;
+          preview.userProfile = { name: profile.name, id: profile.id };
+        }
+      }
+    }
+
+    assertSupportedVersion(preview.version);
+    if (!preview.exportDate) {
+      throw new Error('Invalid export file: missing export date');
+    }
+    return preview;
+  },
+
+  /**
+   * Get the checkpoint of an unfinished import of this file, if there is one
+   */
+  async getResumableCheckpoint(userId: string, file: File): Promise<ImportCheckpoint | null> {
+    const checkpoint = (await dbHelpers.getSetting(CHECKPOINT_SETTING_KEY)) as ImportCheckpoint | undefined;
+    if (!checkpoint || checkpoint.userId !== userId || checkpoint.fileKey !== getFileKey(file)) {
+      return null;
+    }
+    return checkpoint;
+  },
+
+  async discardCheckpoint(): Promise<void> {
+    await dbHelpers.deleteSetting(CHECKPOINT_SETTING_KEY);
+  },
+
+  /**
+   * Import an export file in batches.
+   * Each batch and its checkpoint are committed together, so cancelling via `signal`
+   * leaves only whole batches in the database and the import can be resumed later.
+   */
+  async importFile(
+    userId: string,
+    file: File,
+    strategy: ImportStrategy,
+    options: { signal?: AbortSignal; onProgress?: ProgressCallback; resume?: boolean } = {}
+  ): Promise<ImportResult> {
+    const { signal, onProgress } = options;
+    validateFile(file);
+
+    const existingCheckpoint = options.resume ? await this.getResumableCheckpoint(userId, file) : null;
+    let checkpoint: ImportCheckpoint = existingCheckpoint ?? {
+      fileKey: getFileKey(file),
+      userId,
+      strategy,
+      dataCleared: false,
+      completedSections: [],
+      sectionProgress: {},
+      result: createEmptyImportResult(),
+      startedAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    const ctx: ImportContext = {
+      userId,
+      strategy: checkpoint.strategy,
+      existingKeys: {},
+      pendingKeys: new Set(),
+    };
+
+    let totalRecords = 0;
+    let version: string | null = null;
+    let percentage = 0;
+    let batchSection: ArraySection | null = null;
+    let batch: Array<{ index: number; raw: string }> = [];
+
+    const saveCheckpoint = async (next: ImportCheckpoint) => {
+      await dbHelpers.setSetting(CHECKPOINT_SETTING_KEY, { ...next, updatedAt: new Date().toISOString() });
+    };
+
+    // Record the outcome of a committed (or definitively failed) record in a checkpoint copy
+    const applyOutcome = (next: ImportCheckpoint, section: ArraySection, outcome: RecordOutcome | 'error') => {
+      const details = next.result.details[section];
+      if (outcome === 'imported') {
+        details.imported++;
+        next.result.imported++;
+      } else if (outcome === 'skipped') {
+        details.skipped++;
+        next.result.skipped++;
+      } else {
+        details.errors++;
+      }
+    };
+
+    const cloneCheckpoint = (): ImportCheckpoint => JSON.parse(JSON.stringify(checkpoint)) as ImportCheckpoint;
+
+    /**
+     * Write a batch of records and advance the checkpoint in one transaction.
+     * Records that fail validation are reported and never written. If the batch
+     * fails it is rolled back and retried one record at a time, so a single bad
+     * record is reported without losing the rest of the batch.
+     */
+    const commitBatch = async (section: ArraySection, items: Array<{ index: number; raw: string }>) => {
+      const handler = SECTION_HANDLERS[section];
+
+      try {
+        // Batches are not retried as a whole; a failing batch falls back to per-record commits
+        checkpoint = await transactionManager.execute(IMPORT_STORES, async () => {
+          const next = cloneCheckpoint();
+          next.sectionProgress[section] = items[items.length - 1].index + 1;
+          ctx.pendingKeys = new Set();
+          for (const item of items) {
+            const record: unknown = JSON.parse(item.raw);
+            const validationError = validateRecord(section, record, item.index);
+            if (validationError) {
+              applyOutcome(next, section, 'error');
+              next.result.errors.push(validationError);
+              continue;
+            }
+            applyOutcome(next, section, await handler.importRecord(record as never, ctx));
+          }
+          await saveCheckpoint(next);
+          return next;
+        }, items.length > 1 ? { retries: 0 } : {});
+        ctx.pendingKeys.forEach((key) => {
+          const [keySection, ...rest] = key.split(':');
+          ctx.existingKeys[keySection as ArraySection]?.add(rest.join(':'));
+        });
+        return;
+      } catch (error) {
+        if (items.length > 1) {
+          logger.warn(`[chunkedImport] Batch of ${section} failed, retrying records individually`, error);
+          for (const item of items) {
+            await commitBatch(section, [item]);
+          }
+          return;
+        }
+
+        let recordName = `Record ${items[0].index + 1}`;
+        try {
+          recordName = getRecordName(handler, JSON.parse(items[0].raw), items[0].index);
+        } catch {
+          // Keep the positional name for records that are not valid JSON
+        }
+        const failed = cloneCheckpoint();
+        failed.sectionProgress[section] = items[0].index + 1;
+        applyOutcome(failed, section, 'error');
+        failed.result.errors.push(createImportError('data', handler.errorCategory, error, { recordName }));
+        await saveCheckpoint(failed);
+        checkpoint = failed;
+        logger.error(`[chunkedImport] Failed to import ${section} record ${items[0].index}`, error);
+      }
+    };
+
+    const importProfile = async (profile: UserProfile) => {
+      const next = cloneCheckpoint();
+      try {
+        await dataService.updateUserProfile({ ...profile, id: userId });
+        next.result.details.userProfile.imported = true;
+        next.result.imported++;
+      } catch (error) {
+        const importError = createImportError('data', 'userProfile', error, {
+          recordName: profile.name || 'User profile',
+        });
+        next.result.errors.push(importError);
+        next.result.details.userProfile.error = importError.technicalMessage || importError.message;
+      }
+      next.completedSections.push('userProfile');
+      await saveCheckpoint(next);
+      checkpoint = next;
+    };
+
+    const importSettings = async (settings: Record<string, unknown>) => {
+      const next = cloneCheckpoint();
+      try {
+        for (const [key, value] of Object.entries(settings)) {
+          await dataService.updateSetting(key, value);
+        }
+        next.result.details.settings.imported = Object.keys(settings).length;
+        next.result.imported += next.result.details.settings.imported;
+      } catch (error) {
+        next.result.errors.push(createImportError('data', 'settings', error, { recordName: 'App settings' }));
+        next.result.details.settings.errors++;
+      }
+      next.completedSections.push('settings');
+      await saveCheckpoint(next);
+      checkpoint = next;
+    };
+
+    const reportProgress = (percentage: number, currentOperation: string) => {
+      const processed = checkpoint.result.imported + checkpoint.result.skipped;
+      onProgress?.({
+        percentage: Math.min(99, Math.round(percentage)),
+        currentOperation,
+        completedItems: processed,
+        totalItems: Math.max(processed, totalRecords),
+      });
+    };
+
+    const flushBatch = async () => {
+      if (batchSection && batch.length > 0) {
+        const section = batchSection;
+        const items = batch;
+        batch = [];
+        await commitBatch(section, items);
+        reportProgress(percentage, `Importing ${section.replace(/([A-Z])/g, ' $1').toLowerCase()}...`);
+      }
+    };
+
+    try {
+      reportProgress(0, existingCheckpoint ? 'Resuming import...' : 'Starting import...');
+
+      if (checkpoint.strategy === 'replace' && !checkpoint.dataCleared) {
+        reportProgress(1, 'Clearing existing data...');
+        const clearResult = await dataExport.clearUserData(userId);
+        if (!clearResult.success) {
+          logger.warn(`Data clearing had ${clearResult.totalFailed} failures`, clearResult);
+          checkpoint.result.errors.push({
+            type: 'data',
+            category: 'delete_data',
+            message: `Failed to delete ${clearResult.totalFailed} existing record(s)`,
+            severity: 'warning', // Don't block import
+            suggestion: 'Some old data may remain. Consider manually cleaning up or trying again.',
+          });
+        }
+        checkpoint.dataCleared = true;
+      }
+      await saveCheckpoint(checkpoint);
+
+      for await (const event of streamJsonObject(file)) {
+        if (signal?.aborted) {
+          break;
+        }
+
+        switch (event.type) {
+          case 'progress':
+            percentage = (event.bytesRead / event.totalBytes) * 100;
+            break;
+
+          case 'value':
+            if (event.key === 'version') {
+              assertSupportedVersion(event.value);
+              version = event.value as string;
+            } else if (event.key === 'dataCounts' && event.value && typeof event.value === 'object') {
+              totalRecords = Object.values(event.value as Record<string, number>)
+                .reduce((sum, count) => sum + (typeof count === 'number' ? count : 0), 0);
+            } else if (event.key === 'userProfile' && event.value && !checkpoint.completedSections.includes('userProfile')) {
+              reportProgress(percentage, 'Importing user profile...');
+              await importProfile(event.value as UserProfile);
+            } else if (
+              event.key === 'settings' &&
+              event.value &&
+              Object.keys(event.value).length > 0 &&
+              !checkpoint.completedSections.includes('settings')
+            ) {
+              reportProgress(percentage, 'Importing settings...');
+              await importSettings(event.value as Record<string, unknown>);
+            }
+            break;
+
+          case 'arrayStart':
+            if (!version) {
+              throw new Error('Invalid export file: missing version');
+            }
+            if (isArraySection(event.key) && !checkpoint.completedSections.includes(event.key)) {
+              const handler = SECTION_HANDLERS[event.key];
+              if (ctx.strategy === 'merge' && handler.loadExistingKeys) {
+                ctx.existingKeys[event.key] = await handler.loadExistingKeys(userId);
+              }
+              batchSection = event.key;
+            }
+            break;
+
+          case 'item':
+            if (
+              batchSection === event.key &&
+              event.index >= (checkpoint.sectionProgress[event.key] ?? 0)
+            ) {
+              batch.push({ index: event.index, raw: event.raw });
+              if (batch.length >= IMPORT_BATCH_SIZE) {
+                if (signal?.aborted) {
+                  break;
+                }
+                await flushBatch();
+              }
+            }
+            break;
+
+          case 'arrayEnd':
+            if (batchSection === event.key) {
+              if (signal?.aborted) {
+                break;
+              }
+              await flushBatch();
+              const next = cloneCheckpoint();
+              next.completedSections.push(event.key);
+              await saveCheckpoint(next);
+              checkpoint = next;
+              batchSection = null;
+            }
+            break;
+        }
+      }
+
+      if (signal?.aborted) {
+        // Records in an unflushed batch were never written; the checkpoint still points before them
+        logger.info('[chunkedImport] Import cancelled by user', { section: batchSection });
+        return { ...checkpoint.result, cancelled: true };
+      }
+
+      await this.discardCheckpoint();
+      onProgress?.({
+        percentage: 100,
+        currentOperation: 'Import complete',
+        completedItems: checkpoint.result.imported + checkpoint.result.skipped,
+        totalItems: Math.max(totalRecords, checkpoint.result.imported + checkpoint.result.skipped),
+      });
+      return checkpoint.result;
+    } catch (error) {
+      logger.error('[chunkedImport] Import failed:', error);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError(
+        error instanceof Error ? error.message : 'Failed to import data. Please check the file format and try again.',
+        'IMPORT_FAILED',
+        undefined,
+        error instanceof Error ? error : new Error(String(error)),
+        { fileName: file.name }
+      );
+    }
+  },
+};
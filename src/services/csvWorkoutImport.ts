@@ -0,0 +1,256 @@
+import { Workout } from '@/types/workout';
+import { Exercise, WorkoutExercise, WorkoutSet, WeightUnit } from '@/types/exercise';
+import { MuscleGroup } from '@/types/muscle';
+import {
+  ExerciseNameMapping,
+  ExerciseNameMatch,
+  ParsedCsvFile,
+  ParsedCsvSet,
+  ParsedCsvWorkout,
+} from '@/types/csvImport';
+import { ImportResult, ProgressCallback } from '@/types/export';
+import { exerciseLibrary } from './exerciseLibrary';
+import { dataService } from './dataService';
+import { createEmptyImportResult, createImportError } from './dataExport';
+import { parseWorkoutCsv } from '@/utils/workoutCsvParser';
+import {
+  calculateNameSimilarity,
+  calculateRelevanceScore,
+  normalizeExerciseName,
+} from '@/utils/exerciseSearch';
+import { calculateVolume } from '@/utils/calculations';
+import { logger } from '@/utils/logger';
+
+const MAX_CSV_SIZE = 50 * 1024 * 1024; // 50MB
+const AUTO_MATCH_CONFIDENCE = 80;
+// Partial name matches stay below the auto-match threshold and go to review
+const MAX_PARTIAL_MATCH_CONFIDENCE = AUTO_MATCH_CONFIDENCE - 1;
+const MAX_CANDIDATES = 5;
+
+/**
+ * Confidence (0-100) that a library exercise is the one a source app meant
+ */
+function scoreExerciseMatch(sourceName: string, exercise: Exercise): number {
+  if (normalizeExerciseName(sourceName) === normalizeExerciseName(exercise.name)) {
+    return 100;
+  }
+  // Only the name-based part of the relevance score is meaningful for full names
+  const relevance = calculateRelevanceScore(exercise, normalizeExerciseName(sourceName));
+  return Math.min(Math.max(relevance, calculateNameSimilarity(sourceName, exercise.name)), MAX_PARTIAL_MATCH_CONFIDENCE);
+}
+
+function toWorkoutSet(set: ParsedCsvSet): WorkoutSet {
+  return {
+    setNumber: set.setNumber,
+    reps: set.reps,
+    weight: set.weight,
+    unit: set.unit,
+    distance: set.distance,
+    distanceUnit: set.distanceUnit,
+    duration: set.duration,
+    rpe: set.rpe,
+    setType: set.setType,
+    completed: true,
+    notes: set.notes,
+  };
+}
+
+function getWorkoutKey(date: Date, exerciseIds: string[]): string {
+  const minute = Math.floor(new Date(date).getTime() / 60000);
+  return `${minute}|${[...exerciseIds].sort().join(',')}`;
+}
+
+export const csvWorkoutImport = {
+  /**
+   * Read and parse a Strong, Hevy, FitNotes or FitTrackAI CSV export
+   */
+  async parseFile(file: File, defaultUnit: WeightUnit = 'kg'): Promise<ParsedCsvFile> {
+    if (file.size > MAX_CSV_SIZE) {
+      throw new Error('File is too large. Maximum size is 50MB.');
+    }
+    const text = await file.text();
+    return parseWorkoutCsv(text, defaultUnit);
+  },
+
+  /**
+   * Match every exercise name in the file to the exercise library.
+   * Names without a confident match are returned with `exerciseId: null`
+   * and a list of candidates for the review screen.
+   */
+  async matchExerciseNames(parsed: ParsedCsvFile): Promise<ExerciseNameMatch[]> {
+    const exercises = await exerciseLibrary.getAllExercises();
+    const occurrences = new Map<string, number>();
+    parsed.workouts.forEach((workout) => {
+      new Set(workout.exercises.map((ex) => ex.name)).forEach((name) => {
+        occurrences.set(name, (occurrences.get(name) ?? 0) + 1);
+      });
+    });
+
+    return Array.from(occurrences.entries())
+      .map(([sourceName, count]) => {
+        const candidates = exercises
+          .map((exercise) => ({
+            exerciseId: exercise.id,
+            exerciseName: exercise.name,
+            confidence: scoreExerciseMatch(sourceName, exercise),
+          }))
+          .filter((candidate) => candidate.confidence > 0)
+          .sort((a, b) => b.confidence - a.confidence)
+          .slice(0, MAX_CANDIDATES);
+
+        const best = candidates[0];
+        const isConfident = !!best && best.confidence >= AUTO_MATCH_CONFIDENCE;
+        return {
+          sourceName,
+          exerciseId: isConfident ? best.exerciseId : null,
+          exerciseName: isConfident ? best.exerciseName : undefined,
+          confidence: best?.confidence ?? 0,
+          candidates,
+          occurrences: count,
+        };
+      })
+      .sort((a, b) => b.occurrences - a.occurrences);
+  },
+
+  /**
+   * Create workouts from a parsed CSV file using the reviewed name mapping.
+   * Workouts already in the user's history (same start minute and exercises) are skipped.
+   */
+  async importWorkouts(
+    userId: string,
+    parsed: ParsedCsvFile,
+    mapping: ExerciseNameMapping,
+    onProgress?: ProgressCallback
+  ): Promise<ImportResult> {
+    const result = createEmptyImportResult();
+
+    parsed.rowErrors.forEach((rowError) => {
+      result.errors.push(createImportError('validation', 'csvRow', rowError.message, {
+        recordName: String(rowError.row),
+      }));
+    });
+
+    Object.entries(mapping)
+      .filter(([, exerciseId]) => exerciseId === null)
+      .forEach(([sourceName]) => {
+        result.errors.push(createImportError('validation', 'exerciseMatch', 'No matching exercise', {
+          recordName: sourceName,
+        }));
+      });
+
+    const exercises = new Map((await exerciseLibrary.getAllExercises()).map((ex) => [ex.id, ex]));
+    const existingKeys = new Set(
+      (await dataService.getAllWorkouts(userId)).map((w) =>
+        getWorkoutKey(w.date, w.exercises.map((ex) => ex.exerciseId))
+      )
+    );
+
+    const total = parsed.workouts.length;
+    for (let index = 0; index < total; index++) {
+      const parsedWorkout = parsed.workouts[index];
+      const recordName = parsedWorkout.date.toLocaleDateString();
+
+      if (index % 10 === 0) {
+        onProgress?.({
+          percentage: (index / Math.max(total, 1)) * 100,
+          currentOperation: `Importing workout ${index + 1} of ${total}...`,
+          completedItems: index,
+          totalItems: total,
+        });
+      }
+
+      try {
+        const workout = this.buildWorkout(userId, parsedWorkout, mapping, exercises);
+        if (!workout) {
+          result.details.workouts.skipped++;
+          result.skipped++;
+          continue;
+        }
+
+        const key = getWorkoutKey(workout.date, workout.exercises.map((ex) => ex.exerciseId));
+        if (existingKeys.has(key)) {
+          result.details.workouts.skipped++;
+          result.skipped++;
+          continue;
+        }
+
+        await dataService.createWorkout(workout);
+        existingKeys.add(key);
+        result.details.workouts.imported++;
+        result.imported++;
+      } catch (error) {
+        result.errors.push(createImportError('data', 'workout', error, { recordName }));
+        result.details.workouts.errors++;
+        logger.error('[csvWorkoutImport] Failed to import workout', { error, date: parsedWorkout.date });
+      }
+    }
+
+    onProgress?.({
+      percentage: 100,
+      currentOperation: 'Import complete',
+      completedItems: total,
+      totalItems: total,
+    });
+
+    return result;
+  },
+
+  /**
+   * Convert one parsed workout into a Workout. Returns null when none of its
+   * exercises are mapped to the library.
+   */
+  buildWorkout(
+    userId: string,
+    parsedWorkout: ParsedCsvWorkout,
+    mapping: ExerciseNameMapping,
+    exercises: Map<string, Exercise>
+  ): Omit<Workout, 'id'> | null {
+    const date = new Date(parsedWorkout.date);
+    const workoutExercises: WorkoutExercise[] = [];
+
+    parsedWorkout.exercises.forEach((parsedExercise, index) => {
+      const exerciseId = mapping[parsedExercise.name];
+      const exercise = exerciseId ? exercises.get(exerciseId) : undefined;
+      if (!exercise) {
+        return;
+      }
+
+      const sets = parsedExercise.sets.map(toWorkoutSet);
+      workoutExercises.push({
+        id: `exercise-${date.getTime()}-${index}`,
+        exerciseId: exercise.id,
+        exerciseName: exercise.name,
+        sets,
+        totalVolume: calculateVolume(sets, exercise.trackingType, { exerciseName: exercise.name }),
+        musclesWorked: [...exercise.primaryMuscles, ...exercise.secondaryMuscles],
+        timestamp: date,
+        notes: parsedExercise.notes,
+        trackingType: exercise.trackingType,
+      });
+    });
+
+    if (workoutExercises.length === 0) {
+      return null;
+    }
+
+    const musclesTargeted = Array.from(
+      new Set(
+        workoutExercises.flatMap((ex) => exercises.get(ex.exerciseId)?.primaryMuscles ?? [])
+      )
+    ) as MuscleGroup[];
+    const durationMinutes = parsedWorkout.durationMinutes ?? 0;
+
+    return {
+      userId,
+      date,
+      startTime: date,
+      endTime: parsedWorkout.endTime ?? (durationMinutes > 0 ? new Date(date.getTime() + durationMinutes * 60000) : undefined),
+      exercises: workoutExercises,
+      totalDuration: durationMinutes,
+      totalVolume: workoutExercises.reduce((sum, ex) => sum + ex.totalVolume, 0),
+      musclesTargeted,
+      workoutType: 'custom',
+      notes: [parsedWorkout.name, parsedWorkout.notes].filter(Boolean).join(' - ') || undefined,
+    };
+  },
+};
@@ -6,42 +6,47 @@ import { dataService } from './dataService';
 import { templateService } from './templateService';
 import { plannedWorkoutService } from './plannedWorkoutService';
 import { sleepRecoveryService } from './sleepRecoveryService';
+import { trainingProgramService } from './trainingProgramService';
+import { bodyMeasurementService } from './bodyMeasurementService';
+import { nutritionService } from './nutritionService';
+import { progressPhotoService } from './progressPhotoService';
+import { aiCacheManager } from './aiCacheManager';
 import { dbHelpers, db } from './database';
-import { Workout, WorkoutTemplate, PlannedWorkout } from '@/types/workout';
+import { Workout, PlannedWorkout } from '@/types/workout';
 import { Exercise } from '@/types/exercise';
 import { MuscleStatus } from '@/types/muscle';
+import { SleepLog, RecoveryLog } from '@/types/sleep';
+import { TrainingProgram } from '@/types/program';
+import { BodyMeasurement } from '@/types/measurement';
+import { NutritionLog } from '@/types/nutrition';
 import {
   ExportData,
-  ImportStrategy,
-  ImportPreview,
   ExportStats,
   ImportResult,
   ImportError,
-  ValidationResult,
   ProgressCallback,
   DeletionResult,
   ClearDataResult,
+  CsvExportDataset,
+  CsvExportFile,
+  CsvExportOptions,
 } from '@/types/export';
 import { logger } from '@/utils/logger';
 import { AppError } from '@/utils/errorHandler';
+import {
+  buildPlannedWorkoutRows,
+  buildRecoveryLogRows,
+  buildSetRows,
+  buildSleepLogRows,
+  toCsv,
+} from '@/utils/csvExport';
+import { createZipArchive } from '@/utils/zipArchive';
 
 const EXPORT_VERSION = '2.0.0';
 const APP_VERSION = '1.0.0';
-
-// Critical errors that should block import
-const BLOCKING_VALIDATION_ERRORS = [
-  'Missing version field',
-  'Unsupported version',
-  'Invalid export file'
-];
-
-/**
- * Check if an error should block the import
- */
-function isBlockingError(error: ImportError): boolean {
-  return error.severity === 'error' &&
-         BLOCKING_VALIDATION_ERRORS.some(msg => error.message.includes(msg));
-}
+const CSV_EXPORT_DATASETS: CsvExportDataset[] = ['sets', 'sleepLogs', 'recoveryLogs', 'plannedWorkouts'];
+// Excel only detects UTF-8 in CSV files that start with a byte order mark
+const UTF8_BOM = '\uFEFF';
 
 /**
  * Get user-friendly error message for import errors
@@ -83,10 +88,73 @@ function getUserFriendlyImportErrorMessage(error: unknown): string {
   return 'An unexpected error occurred. Please try again or contact support if the problem persists.';
 }
 
+const CSV_DATASET_LABELS: Record<CsvExportDataset, string> = {
+  sets: 'workout sets',
+  sleepLogs: 'sleep logs',
+  recoveryLogs: 'recovery logs',
+  plannedWorkouts: 'planned workouts',
+};
+
+const CSV_DATASET_FILENAMES: Record<CsvExportDataset, string> = {
+  sets: 'sets',
+  sleepLogs: 'sleep-logs',
+  recoveryLogs: 'recovery-logs',
+  plannedWorkouts: 'planned-workouts',
+};
+
+/**
+ * Download a blob as a file
+ * Handles mobile devices with fallback for iOS Safari
+ */
+export function triggerDownload(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+
+  // Check if we're on iOS Safari
+  const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent);
+  const isSafari = /^((?!chrome|android).)*safari/i.test(navigator.userAgent);
+
+  if (isIOS && isSafari) {
+    // iOS Safari doesn't support programmatic downloads well
+    // Open in new tab as fallback
+    const newWindow = window.open(url, '_blank');
+    if (!newWindow) {
+      // Popup blocked, show user instructions
+      throw new Error(
+        'Please allow popups to download the file, or use the share button in your browser.'
+      );
+    }
+    // Clean up after a delay
+    setTimeout(() => {
+      URL.revokeObjectURL(url);
+    }, 1000);
+  } else {
+    // Standard download for other browsers
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.style.display = 'none';
+    document.body.appendChild(link);
+
+    try {
+      link.click();
+    } catch (error) {
+      logger.error('Failed to trigger download', error);
+      // Fallback: open in new window
+      window.open(url, '_blank');
+    } finally {
+      // Clean up after a delay to ensure download starts
+      setTimeout(() => {
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+      }, 100);
+    }
+  }
+}
+
 /**
  * Create a structured import error with user-friendly message and context
  */
-function createImportError(
+export function createImportError(
   type: ImportError['type'],
   category: string,
   error: unknown,
@@ -157,6 +225,41 @@ function createImportError(
       suggestion = 'Please check the recovery log date and values.';
       break;
       
+    case 'trainingProgram':
+      userMessage = `Training program "${context?.recordName || 'Unknown'}" could not be imported`;
+      suggestion = 'Please check the program start date and training days.';
+      break;
+      
+    case 'bodyMeasurement':
+      userMessage = `Body measurement from ${context?.recordName || 'unknown date'} could not be imported`;
+      suggestion = 'Please check the measurement date and values.';
+      break;
+
+    case 'nutritionLog':
+      userMessage = `Nutrition entry from ${context?.recordName || 'unknown date'} could not be imported`;
+      suggestion = 'Please check the entry date and values.';
+      break;
+
+    case 'csvRow':
+      userMessage = `Row ${context?.recordName || 'unknown'} of the CSV file could not be read`;
+      suggestion = context?.actual
+        ? `Found "${context.actual}". Check the row matches the app's export format.`
+        : 'Check the row matches the app\'s export format.';
+      severity = 'warning';
+      break;
+
+    case 'exerciseMatch':
+      userMessage = `Exercise "${context?.recordName || 'Unknown'}" was not matched to the exercise library and was skipped`;
+      suggestion = 'Choose a matching exercise on the review screen to import these sets.';
+      severity = 'warning';
+      break;
+
+    case 'wearableFile':
+      userMessage = technicalMessage;
+      suggestion = 'Check the file is an unmodified export from the device\'s app.';
+      severity = 'warning';
+      break;
+
     case 'userProfile':
       userMessage = 'User profile could not be imported';
       suggestion = 'Your profile settings may be incomplete. You can update them manually in settings.';
@@ -200,6 +303,116 @@ function createImportError(
   };
 }
 
+/**
+ * Empty import result with every category zeroed
+ */
+export function createEmptyImportResult(): ImportResult {
+  return {
+    imported: 0,
+    skipped: 0,
+    errors: [],
+    details: {
+      workouts: { imported: 0, skipped: 0, errors: 0 },
+      templates: { imported: 0, skipped: 0, errors: 0 },
+      plannedWorkouts: { imported: 0, skipped: 0, errors: 0 },
+      customExercises: { imported: 0, skipped: 0, errors: 0 },
+      muscleStatuses: { imported: 0, skipped: 0, errors: 0 },
+      sleepLogs: { imported: 0, skipped: 0, errors: 0 },
+      recoveryLogs: { imported: 0, skipped: 0, errors: 0 },
+      trainingPrograms: { imported: 0, skipped: 0, errors: 0 },
+      bodyMeasurements: { imported: 0, skipped: 0, errors: 0 },
+      nutritionLogs: { imported: 0, skipped: 0, errors: 0 },
+      settings: { imported: 0, skipped: 0, errors: 0 },
+      userProfile: { imported: false },
+    },
+  };
+}
+
+function toImportDate(value: Date | string | undefined | null, fallback: Date): Date {
+  if (!value) {
+    return fallback;
+  }
+  return typeof value === 'string' ? new Date(value) : value;
+}
+
+/**
+ * Prepare an exported workout for saving under the importing user
+ */
+export function normalizeImportedWorkout(workout: Workout, userId: string): Omit<Workout, 'id'> {
+  // Remove id for import (will be auto-generated)
+  const { id: _id, ...workoutToImport } = workout;
+  const date = toImportDate(workoutToImport.date, new Date());
+  return {
+    ...workoutToImport,
+    userId, // Ensure userId matches
+    date,
+    startTime: toImportDate(workoutToImport.startTime, date), // Default to workout date if not provided
+    endTime: workoutToImport.endTime ? toImportDate(workoutToImport.endTime, date) : undefined,
+  };
+}
+
+export function normalizeImportedPlannedWorkout(
+  plannedWorkout: PlannedWorkout
+): Omit<PlannedWorkout, 'id' | 'createdAt' | 'updatedAt'> {
+  // Remove id, createdAt, updatedAt for import
+  const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...plannedToImportBase } = plannedWorkout;
+  return {
+    ...plannedToImportBase,
+    scheduledDate: toImportDate(plannedToImportBase.scheduledDate, new Date()),
+  };
+}
+
+export function normalizeImportedTrainingProgram(program: TrainingProgram, userId: string): TrainingProgram {
+  return {
+    ...program,
+    userId, // Ensure userId matches
+    startDate: new Date(program.startDate),
+    pausedAt: program.pausedAt ? new Date(program.pausedAt) : null,
+    createdAt: program.createdAt ? new Date(program.createdAt) : new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+export function normalizeImportedBodyMeasurement(measurement: BodyMeasurement, userId: string): BodyMeasurement {
+  return {
+    ...measurement,
+    userId, // Ensure userId matches
+    date: toImportDate(measurement.date, new Date()),
+    createdAt: toImportDate(measurement.createdAt, new Date()),
+    updatedAt: new Date(),
+  };
+}
+
+export function normalizeImportedNutritionLog(log: NutritionLog, userId: string): NutritionLog {
+  return {
+    ...log,
+    userId, // Ensure userId matches
+    date: toImportDate(log.date, new Date()),
+    createdAt: toImportDate(log.createdAt, new Date()),
+    updatedAt: new Date(),
+  };
+}
+
+export function normalizeImportedSleepLog(log: SleepLog, userId: string): SleepLog {
+  const date = toImportDate(log.date, new Date());
+  return {
+    ...log,
+    userId, // Ensure userId matches
+    date,
+    bedtime: toImportDate(log.bedtime, date), // Default to sleep date if not provided
+    // Default to 8 hours later if not provided
+    wakeTime: toImportDate(log.wakeTime, new Date(date.getTime() + 8 * 60 * 60 * 1000)),
+  };
+}
+
+export function normalizeImportedRecoveryLog(log: RecoveryLog, userId: string): RecoveryLog {
+  return {
+    ...log,
+    userId, // Ensure userId matches
+    date: toImportDate(log.date, new Date()),
+  };
+}
+
 export const dataExport = {
   /**
    * Get export statistics for UI display
@@ -214,6 +427,9 @@ export const dataExport = {
         allMuscleStatuses,
         sleepLogs,
         recoveryLogs,
+        trainingPrograms,
+        bodyMeasurements,
+        nutritionLogs,
       ] = await Promise.all([
         dataService.getAllWorkouts(userId),
         templateService.getAllTemplates(userId),
@@ -222,6 +438,9 @@ export const dataExport = {
         dataService.getAllMuscleStatuses(),
         sleepRecoveryService.getAllSleepLogs(userId),
         sleepRecoveryService.getAllRecoveryLogs(userId),
+        trainingProgramService.getAllPrograms(userId),
+        bodyMeasurementService.getMeasurements(userId),
+        nutritionService.getLogs(userId),
       ]);
 
       const customExercises = allExercises.filter(
@@ -240,6 +459,9 @@ export const dataExport = {
         muscleStatuses.length * 200 +
         sleepLogs.length * 300 +
         recoveryLogs.length * 300 +
+        trainingPrograms.length * 1500 +
+        bodyMeasurements.length * 300 +
+        nutritionLogs.length * 250 +
         1000; // metadata overhead
 
       const estimatedSize =
@@ -257,6 +479,9 @@ export const dataExport = {
         muscleStatuses: muscleStatuses.length,
         sleepLogs: sleepLogs.length,
         recoveryLogs: recoveryLogs.length,
+        trainingPrograms: trainingPrograms.length,
+        bodyMeasurements: bodyMeasurements.length,
+        nutritionLogs: nutritionLogs.length,
         settings: 1, // appSettings is a single object
         estimatedSize,
       };
@@ -346,6 +571,9 @@ export const dataExport = {
         totalItems: 8,
       });
       const recoveryLogs = await sleepRecoveryService.getAllRecoveryLogs(userId);
+      const trainingPrograms = await trainingProgramService.getAllPrograms(userId);
+      const bodyMeasurements = await bodyMeasurementService.getMeasurements(userId);
+      const nutritionLogs = await nutritionService.getLogs(userId);
 
       onProgress?.({
         percentage: 85,
@@ -372,6 +600,9 @@ export const dataExport = {
           muscleStatuses: muscleStatuses.length,
           sleepLogs: sleepLogs.length,
           recoveryLogs: recoveryLogs.length,
+          trainingPrograms: trainingPrograms.length,
+          bodyMeasurements: bodyMeasurements.length,
+          nutritionLogs: nutritionLogs.length,
           settings: Object.keys(settingsObj).length,
         },
         workouts,
@@ -381,6 +612,9 @@ export const dataExport = {
         muscleStatuses,
         sleepLogs,
         recoveryLogs,
+        trainingPrograms,
+        bodyMeasurements,
+        nutritionLogs,
         settings: settingsObj,
         userProfile,
       };
@@ -420,140 +654,101 @@ export const dataExport = {
     onProgress?: ProgressCallback
   ): Promise<void> {
     const data = await this.exportAllData(userId, onProgress);
-    const blob = new Blob([data], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    
-    // Check if we're on iOS Safari
-    const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent);
-    const isSafari = /^((?!chrome|android).)*safari/i.test(navigator.userAgent);
-    
-    if (isIOS && isSafari) {
-      // iOS Safari doesn't support programmatic downloads well
-      // Open in new tab as fallback
-      const newWindow = window.open(url, '_blank');
-      if (!newWindow) {
-        // Popup blocked, show user instructions
-        throw new Error(
-          'Please allow popups to download the file, or use the share button in your browser.'
-        );
-      }
-      // Clean up after a delay
-      setTimeout(() => {
-        URL.revokeObjectURL(url);
-      }, 1000);
-    } else {
-      // Standard download for other browsers
-      const link = document.createElement('a');
-      link.href = url;
-      link.download =
-        filename ||
-        `fittrackai-export-${new Date().toISOString().split('T')[0]}.json`;
-      link.style.display = 'none';
-      document.body.appendChild(link);
-      
-      try {
-        link.click();
-      } catch (error) {
-        logger.error('Failed to trigger download', error);
-        // Fallback: open in new window
-        window.open(url, '_blank');
-      } finally {
-        // Clean up after a delay to ensure download starts
-        setTimeout(() => {
-          document.body.removeChild(link);
-          URL.revokeObjectURL(url);
-        }, 100);
-      }
-    }
+    triggerDownload(
+      new Blob([data], { type: 'application/json' }),
+      filename || `fittrackai-export-${new Date().toISOString().split('T')[0]}.json`
+    );
   },
 
   /**
-   * Parse and validate JSON export file in one step
-   * Returns parsed data if valid, throws if invalid
+   * Export workouts as one row per set plus sleep, recovery and planned workout CSVs
    */
-  async parseExportFile(file: File): Promise<ExportData> {
-    try {
-      if (!file.name.endsWith('.json')) {
-        throw new Error('File must be a JSON file');
-      }
-
-      const text = await file.text();
+  async exportCsv(
+    userId: string,
+    options: CsvExportOptions = {},
+    onProgress?: ProgressCallback
+  ): Promise<CsvExportFile[]> {
+    const datasets = options.datasets?.length ? options.datasets : CSV_EXPORT_DATASETS;
+    const dateSuffix = new Date().toISOString().split('T')[0];
+    const files: CsvExportFile[] = [];
 
-      // Single JSON parse
-      let data: ExportData;
-      try {
-        data = JSON.parse(text);
-      } catch (parseError) {
-        throw new Error(
-          'Invalid JSON format. Please ensure you selected a valid FitTrackAI export file.'
-        );
-      }
+    try {
+      for (let index = 0; index < datasets.length; index++) {
+        const dataset = datasets[index];
+        onProgress?.({
+          percentage: Math.round((index / datasets.length) * 90),
+          currentOperation: `Exporting ${CSV_DATASET_LABELS[dataset]}...`,
+          completedItems: index,
+          totalItems: datasets.length,
+        });
 
-      // Basic structure validation (inline, no re-parse)
-      if (!data.version) {
-        throw new Error('Invalid export file: missing version');
-      }
+        let table;
+        switch (dataset) {
+          case 'sets':
+            table = buildSetRows(await dataService.getAllWorkouts(userId), options);
+            break;
+          case 'sleepLogs':
+            table = buildSleepLogRows(await sleepRecoveryService.getAllSleepLogs(userId), options);
+            break;
+          case 'recoveryLogs':
+            table = buildRecoveryLogRows(await sleepRecoveryService.getAllRecoveryLogs(userId), options);
+            break;
+          case 'plannedWorkouts':
+            table = buildPlannedWorkoutRows(await plannedWorkoutService.getAllPlannedWorkouts(userId), options);
+            break;
+        }
 
-      if (!data.exportDate) {
-        throw new Error('Invalid export file: missing export date');
+        files.push({
+          dataset,
+          filename: `fittrackai-${CSV_DATASET_FILENAMES[dataset]}-${dateSuffix}.csv`,
+          content: toCsv(table),
+          rowCount: table.rows.length,
+        });
       }
 
-      // Version check
-      if (data.version.startsWith('2.')) {
-        if (!Array.isArray(data.workouts)) {
-          throw new Error('Invalid export file: workouts must be an array');
-        }
-      } else if (data.version.startsWith('1.')) {
-        if (!Array.isArray(data.workouts)) {
-          throw new Error('Invalid export file: workouts must be an array');
-        }
-      } else {
-        throw new Error(`Unsupported export version: ${data.version}`);
-      }
+      onProgress?.({
+        percentage: 100,
+        currentOperation: 'Export complete',
+        completedItems: datasets.length,
+        totalItems: datasets.length,
+      });
 
-      logger.info(`[parseExportFile] Successfully parsed file with version ${data.version}`);
-      return data;
+      return files;
     } catch (error) {
-      logger.error('[parseExportFile] Failed to parse export file:', error);
-      throw error;
+      logger.error('Failed to export CSV data', error);
+      throw new Error(
+        `Failed to export CSV data: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
     }
   },
 
   /**
-   * Validate already-parsed export data
-   * Used after parseExportFile for additional validation if needed
+   * Export CSV files and download them, either individually or as a single .zip bundle
    */
-  validateExportFile(data: ExportData): boolean {
-    // Structure already validated in parseExportFile
-    // This can be extended for deeper semantic validation if needed
-    return true;
-  },
+  async downloadCsvExport(
+    userId: string,
+    options: CsvExportOptions = {},
+    onProgress?: ProgressCallback
+  ): Promise<CsvExportFile[]> {
+    const files = await this.exportCsv(userId, options, onProgress);
+    if (files.length === 0) {
+      return files;
+    }
 
-  /**
-   * Preview import data before confirming
-   * Accepts already-parsed data (no file reading or parsing)
-   */
-  previewImport(data: ExportData): ImportPreview {
-    return {
-      version: data.version,
-      exportDate: data.exportDate,
-      dataCounts: data.dataCounts || {
-        workouts: data.workouts?.length || 0,
-        templates: data.templates?.length || 0,
-        plannedWorkouts: data.plannedWorkouts?.length || 0,
-        customExercises: data.customExercises?.length || 0,
-        muscleStatuses: data.muscleStatuses?.length || 0,
-        sleepLogs: data.sleepLogs?.length || 0,
-        recoveryLogs: data.recoveryLogs?.length || 0,
-        settings: data.settings ? Object.keys(data.settings).length : 0,
-      },
-      userProfile: data.userProfile
-        ? {
-            name: data.userProfile.name,
-            id: data.userProfile.id,
-          }
-        : null,
-    };
+    if (options.bundle) {
+      const archive = createZipArchive(
+        files.map((file) => ({ name: file.filename, content: UTF8_BOM + file.content }))
+      );
+      triggerDownload(
+        new Blob([archive], { type: 'application/zip' }),
+        `fittrackai-csv-export-${new Date().toISOString().split('T')[0]}.zip`
+      );
+    } else {
+      files.forEach((file) => {
+        triggerDownload(new Blob([UTF8_BOM + file.content], { type: 'text/csv;charset=utf-8' }), file.filename);
+      });
+    }
+    return files;
   },
 
   /**
@@ -689,6 +884,46 @@ export const dataExport = {
       totalFailed++;
     }
 
+    // 3b. Delete training programs (per-record error handling)
+    try {
+      const trainingPrograms = await trainingProgramService.getAllPrograms(userId);
+      const result: DeletionResult = {
+        category: 'trainingPrograms',
+        attempted: trainingPrograms.length,
+        deleted: 0,
+        failed: 0,
+        errors: []
+      };
+
+      for (const program of trainingPrograms) {
+        try {
+          await dbHelpers.deleteTrainingProgram(program.id);
+          result.deleted++;
+        } catch (error) {
+          result.failed++;
+          result.errors.push({
+            recordId: program.id,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+          logger.error(`Failed to delete training program ${program.id}:`, error);
+        }
+      }
+
+      deletions.push(result);
+      totalDeleted += result.deleted;
+      totalFailed += result.failed;
+    } catch (error) {
+      logger.error('Failed to fetch training programs for deletion:', error);
+      deletions.push({
+        category: 'trainingPrograms',
+        attempted: 0,
+        deleted: 0,
+        failed: 1,
+        errors: [{ recordId: 'all', error: 'Failed to fetch training programs' }]
+      });
+      totalFailed++;
+    }
+
     // 4. Delete custom exercises (per-record error handling)
     try {
       const allExercises = await dataService.getAllExercises();
@@ -861,965 +1096,181 @@ export const dataExport = {
       totalFailed++;
     }
 
-    // 8. Clear settings (special handling - don't fail if this errors)
+    // 7b. Delete body measurements (per-record error handling)
     try {
-      await dataService.updateSetting('appSettings', {});
-      deletions.push({
-        category: 'settings',
-        attempted: 1,
-        deleted: 1,
+      const bodyMeasurements = await bodyMeasurementService.getMeasurements(userId);
+      const result: DeletionResult = {
+        category: 'bodyMeasurements',
+        attempted: bodyMeasurements.length,
+        deleted: 0,
         failed: 0,
         errors: []
-      });
-      totalDeleted++;
+      };
+
+      for (const measurement of bodyMeasurements) {
+        try {
+          await dbHelpers.deleteBodyMeasurement(measurement.id);
+          result.deleted++;
+        } catch (error) {
+          result.failed++;
+          result.errors.push({
+            recordId: measurement.id,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+          logger.error(`Failed to delete body measurement ${measurement.id}:`, error);
+        }
+      }
+
+      deletions.push(result);
+      totalDeleted += result.deleted;
+      totalFailed += result.failed;
     } catch (error) {
-      logger.error('Failed to clear settings:', error);
+      logger.error('Failed to fetch body measurements for deletion:', error);
       deletions.push({
-        category: 'settings',
-        attempted: 1,
+        category: 'bodyMeasurements',
+        attempted: 0,
         deleted: 0,
         failed: 1,
-        errors: [{ recordId: 'appSettings', error: error instanceof Error ? error.message : 'Unknown' }]
+        errors: [{ recordId: 'all', error: 'Failed to fetch body measurements' }]
       });
       totalFailed++;
     }
 
-    logger.info(`[clearUserData] Completed: ${totalDeleted} deleted, ${totalFailed} failed`);
-
-    return {
-      success: totalFailed === 0,
-      deletions,
-      totalDeleted,
-      totalFailed
-    };
-  },
+    // 7c. Delete progress photos, including any cloud copies (per-record error handling)
+    try {
+      const progressPhotos = await progressPhotoService.getPhotos(userId);
+      const result: DeletionResult = {
+        category: 'progressPhotos',
+        attempted: progressPhotos.length,
+        deleted: 0,
+        failed: 0,
+        errors: []
+      };
 
-  /**
-   * Validate import data before starting import process
-   */
-  async validateImportData(data: ExportData): Promise<ValidationResult> {
-    const errors: ImportError[] = [];
-    const warnings: ImportError[] = [];
-    
-    // Version check
-    if (!data.version) {
-      errors.push(createImportError(
-        'validation',
-        'file',
-        new Error('Missing version field'),
-        { recordName: 'Export file' }
-      ));
-    } else if (!data.version.startsWith('2.') && !data.version.startsWith('1.')) {
-      errors.push(createImportError(
-        'validation',
-        'file',
-        new Error(`Unsupported version: ${data.version}`),
-        { 
-          recordName: 'Export file',
-          expected: 'Version 2.0.0 or 1.x',
-          actual: data.version
-        }
-      ));
-    }
-    
-    // Validate export date
-    if (!data.exportDate) {
-      warnings.push(createImportError(
-        'validation',
-        'file',
-        new Error('Missing export date'),
-        { recordName: 'Export file' }
-      ));
-    }
-    
-    // Validate workouts
-    if (Array.isArray(data.workouts)) {
-      data.workouts.forEach((workout, index) => {
-        if (!workout.date) {
-          errors.push(createImportError(
-            'validation',
-            'workout',
-            new Error('Missing workout date'),
-            {
-              recordId: workout.id?.toString(),
-              recordName: `Workout #${index + 1}`,
-              field: 'date'
-            }
-          ));
-        } else {
-          // Validate date format
-          const date = new Date(workout.date);
-          if (isNaN(date.getTime())) {
-            errors.push(createImportError(
-              'validation',
-              'workout',
-              new Error(`Invalid date format: ${workout.date}`),
-              {
-                recordId: workout.id?.toString(),
-                recordName: `Workout #${index + 1}`,
-                field: 'date',
-                actual: typeof workout.date === 'string' ? workout.date : String(workout.date)
-              }
-            ));
-          }
-        }
-        
-        if (!Array.isArray(workout.exercises)) {
-          errors.push(createImportError(
-            'validation',
-            'workout',
-            new Error('Missing or invalid exercises array'),
-            {
-              recordId: workout.id?.toString(),
-              recordName: `Workout #${index + 1}`,
-              field: 'exercises'
-            }
-          ));
-        }
-      });
-    }
-    
-    // Validate templates
-    if (Array.isArray(data.templates)) {
-      data.templates.forEach((template, index) => {
-        if (!template.name) {
-          errors.push(createImportError(
-            'validation',
-            'template',
-            new Error('Missing template name'),
-            {
-              recordId: template.id,
-              recordName: `Template #${index + 1}`,
-              field: 'name'
-            }
-          ));
-        }
-        
-        if (!Array.isArray(template.exercises)) {
-          warnings.push(createImportError(
-            'validation',
-            'template',
-            new Error('Missing or invalid exercises array'),
-            {
-              recordId: template.id,
-              recordName: template.name || `Template #${index + 1}`,
-              field: 'exercises'
-            }
-          ));
-        }
-      });
-    }
-    
-    // Validate planned workouts
-    if (Array.isArray(data.plannedWorkouts)) {
-      data.plannedWorkouts.forEach((plannedWorkout, index) => {
-        if (!plannedWorkout.scheduledDate) {
-          errors.push(createImportError(
-            'validation',
-            'plannedWorkout',
-            new Error('Missing scheduled date'),
-            {
-              recordId: plannedWorkout.id,
-              recordName: `Planned workout #${index + 1}`,
-              field: 'scheduledDate'
-            }
-          ));
-        } else {
-          const date = new Date(plannedWorkout.scheduledDate);
-          if (isNaN(date.getTime())) {
-            errors.push(createImportError(
-              'validation',
-              'plannedWorkout',
-              new Error(`Invalid scheduled date format: ${plannedWorkout.scheduledDate}`),
-              {
-                recordId: plannedWorkout.id,
-                recordName: `Planned workout #${index + 1}`,
-                field: 'scheduledDate',
-                actual: String(plannedWorkout.scheduledDate)
-              }
-            ));
-          }
+      for (const photo of progressPhotos) {
+        try {
+          await progressPhotoService.deletePhoto(photo.id);
+          result.deleted++;
+        } catch (error) {
+          result.failed++;
+          result.errors.push({
+            recordId: photo.id,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+          logger.error(`Failed to delete progress photo ${photo.id}:`, error);
         }
+      }
+
+      deletions.push(result);
+      totalDeleted += result.deleted;
+      totalFailed += result.failed;
+    } catch (error) {
+      logger.error('Failed to fetch progress photos for deletion:', error);
+      deletions.push({
+        category: 'progressPhotos',
+        attempted: 0,
+        deleted: 0,
+        failed: 1,
+        errors: [{ recordId: 'all', error: 'Failed to fetch progress photos' }]
       });
+      totalFailed++;
     }
-    
-    // Validate sleep logs
-    if (Array.isArray(data.sleepLogs)) {
-      data.sleepLogs.forEach((log, index) => {
-        if (!log.date) {
-          errors.push(createImportError(
-            'validation',
-            'sleepLog',
-            new Error('Missing sleep log date'),
-            {
-              recordId: log.id?.toString(),
-              recordName: `Sleep log #${index + 1}`,
-              field: 'date'
-            }
-          ));
-        }
+
+    // 7d. Delete AI coach conversation
+    try {
+      const coachMessages = await aiCacheManager.getCoachMessages(userId);
+      await aiCacheManager.clearCoachMessages(userId);
+      deletions.push({
+        category: 'coachMessages',
+        attempted: coachMessages.length,
+        deleted: coachMessages.length,
+        failed: 0,
+        errors: []
       });
-    }
-    
-    // Validate recovery logs
-    if (Array.isArray(data.recoveryLogs)) {
-      data.recoveryLogs.forEach((log, index) => {
-        if (!log.date) {
-          errors.push(createImportError(
-            'validation',
-            'recoveryLog',
-            new Error('Missing recovery log date'),
-            {
-              recordId: log.id?.toString(),
-              recordName: `Recovery log #${index + 1}`,
-              field: 'date'
-            }
-          ));
-        }
+      totalDeleted += coachMessages.length;
+    } catch (error) {
+      logger.error('Failed to clear coach conversation:', error);
+      deletions.push({
+        category: 'coachMessages',
+        attempted: 0,
+        deleted: 0,
+        failed: 1,
+        errors: [{ recordId: 'all', error: error instanceof Error ? error.message : 'Unknown' }]
       });
+      totalFailed++;
     }
-    
-    return { errors, warnings, isValid: errors.length === 0 };
-  },
 
-  /**
-   * Import all data from parsed ExportData with merge or replace strategy
-   */
-  async importAllData(
-    userId: string,
-    data: ExportData,
-    strategy: ImportStrategy,
-    onProgress?: ProgressCallback
-  ): Promise<ImportResult> {
+    // 7e. Delete nutrition logs (per-record error handling)
     try {
-      // Data is already parsed - no JSON.parse needed!
-      const result: ImportResult = {
-        imported: 0,
-        skipped: 0,
-        errors: [],
-        details: {
-          workouts: { imported: 0, skipped: 0, errors: 0 },
-          templates: { imported: 0, skipped: 0, errors: 0 },
-          plannedWorkouts: { imported: 0, skipped: 0, errors: 0 },
-          customExercises: { imported: 0, skipped: 0, errors: 0 },
-          muscleStatuses: { imported: 0, skipped: 0, errors: 0 },
-          sleepLogs: { imported: 0, skipped: 0, errors: 0 },
-          recoveryLogs: { imported: 0, skipped: 0, errors: 0 },
-          settings: { imported: 0, skipped: 0, errors: 0 },
-          userProfile: { imported: false },
-        },
+      const nutritionLogs = await nutritionService.getLogs(userId);
+      const result: DeletionResult = {
+        category: 'nutritionLogs',
+        attempted: nutritionLogs.length,
+        deleted: 0,
+        failed: 0,
+        errors: []
       };
 
-      // Pre-import validation
-      const totalSteps = 9; // 9 import steps (sync happens automatically later)
-      onProgress?.({
-        percentage: 2,
-        currentOperation: 'Validating import data...',
-        completedItems: 0,
-        totalItems: totalSteps,
-      });
-      
-      const validation = await this.validateImportData(data);
-
-      // Check for blocking errors
-      if (!validation.isValid) {
-        const blockingErrors = validation.errors.filter(isBlockingError);
-        if (blockingErrors.length > 0) {
-          logger.error('[importAllData] Import blocked by validation errors:', blockingErrors);
-
-          // Create result with only validation errors
-          result.errors.push(...validation.errors);
-          result.errors.push(...validation.warnings);
-
-          throw new Error(
-            `Import blocked: ${blockingErrors.length} critical validation error(s) found. ` +
-            `Please check the export file format and try again.`
-          );
-        }
-      }
-
-      // Add warnings to result but continue
-      if (validation.warnings.length > 0) {
-        logger.warn('[importAllData] Import has warnings:', validation.warnings);
-        result.errors.push(...validation.warnings);
-      }
-
-      // Add non-blocking errors as warnings
-      const nonBlockingErrors = validation.errors.filter(e => !isBlockingError(e));
-      if (nonBlockingErrors.length > 0) {
-        logger.warn('[importAllData] Import has non-blocking errors:', nonBlockingErrors);
-        result.errors.push(...nonBlockingErrors);
-      }
-
-      // If replace strategy, clear existing data first
-      if (strategy === 'replace') {
-        onProgress?.({
-          percentage: 5,
-          currentOperation: 'Clearing existing data...',
-          completedItems: 0,
-          totalItems: totalSteps,
-        });
-
-        const clearResult = await this.clearUserData(userId);
-
-        // Add deletion issues to import result
-        if (!clearResult.success) {
-          logger.warn(`Data clearing had ${clearResult.totalFailed} failures`, clearResult);
-
-          for (const deletion of clearResult.deletions) {
-            if (deletion.failed > 0) {
-              for (const error of deletion.errors) {
-                result.errors.push({
-                  type: 'data',
-                  category: `delete_${deletion.category}`,
-                  message: `Failed to delete ${deletion.category}: ${error.error}`,
-                  technicalMessage: error.error,
-                  recordId: error.recordId,
-                  severity: 'warning', // Don't block import
-                  suggestion: 'Some old data may remain. Consider manually cleaning up or trying again.'
-                });
-              }
-            }
-          }
-        }
-
-        logger.info(`Cleared ${clearResult.totalDeleted} records before import`);
-      }
-
-      let currentStep = strategy === 'replace' ? 1 : 0;
-
-      // 1. Import User Profile
-      if (data.userProfile) {
-        try {
-          onProgress?.({
-            percentage: (currentStep / totalSteps) * 100,
-            currentOperation: 'Importing user profile...',
-            completedItems: currentStep,
-            totalItems: totalSteps,
-          });
-          const existingProfile = await dataService.getUserProfile(userId);
-          const profileToImport = {
-            ...data.userProfile,
-            id: userId, // Ensure userId matches
-          };
-
-          if (strategy === 'replace' || !existingProfile) {
-            await dataService.updateUserProfile(profileToImport);
-            result.details.userProfile.imported = true;
-            result.imported++;
-          } else {
-            // Merge: only update if import has newer data or different values
-            await dataService.updateUserProfile(profileToImport);
-            result.details.userProfile.imported = true;
-            result.imported++;
-          }
-        } catch (error) {
-          const importError = createImportError(
-            'data',
-            'userProfile',
-            error,
-            {
-              recordName: data.userProfile?.name || 'User profile'
-            }
-          );
-          result.errors.push(importError);
-          result.details.userProfile.error = importError.technicalMessage || importError.message;
-          
-          logger.error('Failed to import user profile', {
-            error,
-            userId,
-            profileName: data.userProfile?.name
-          });
-        }
-      }
-      currentStep++;
-
-      // 2. Import Settings
-      if (data.settings && Object.keys(data.settings).length > 0) {
+      for (const log of nutritionLogs) {
         try {
-          onProgress?.({
-            percentage: (currentStep / totalSteps) * 100,
-            currentOperation: 'Importing settings...',
-            completedItems: currentStep,
-            totalItems: totalSteps,
-          });
-          for (const [key, value] of Object.entries(data.settings)) {
-            await dataService.updateSetting(key, value);
-          }
-          result.details.settings.imported = Object.keys(data.settings).length;
-          result.imported += result.details.settings.imported;
+          await dbHelpers.deleteNutritionLog(log.id);
+          result.deleted++;
         } catch (error) {
-          const importError = createImportError(
-            'data',
-            'settings',
-            error,
-            { recordName: 'App settings' }
-          );
-          result.errors.push(importError);
-          result.details.settings.errors++;
-          
-          logger.error('Failed to import settings', {
-            error,
-            userId,
-            settingKeys: Object.keys(data.settings)
+          result.failed++;
+          result.errors.push({
+            recordId: log.id,
+            error: error instanceof Error ? error.message : 'Unknown error'
           });
+          logger.error(`Failed to delete nutrition log ${log.id}:`, error);
         }
       }
-      currentStep++;
-
-      // 3. Import Custom Exercises
-      if (Array.isArray(data.customExercises)) {
-        onProgress?.({
-          percentage: (currentStep / totalSteps) * 100,
-          currentOperation: `Importing ${data.customExercises.length} custom exercises...`,
-          completedItems: currentStep,
-          totalItems: totalSteps,
-        });
-        for (const exercise of data.customExercises) {
-          try {
-            const exerciseToImport = {
-              ...exercise,
-              userId, // Ensure userId matches
-            };
-
-            if (strategy === 'replace') {
-              await dataService.createExercise(exerciseToImport);
-              result.details.customExercises.imported++;
-              result.imported++;
-            } else {
-              // Merge: check if exercise exists
-              const existing = await dbHelpers.getExercise(exercise.id);
-              if (!existing || existing.userId !== userId) {
-                await dataService.createExercise(exerciseToImport);
-                result.details.customExercises.imported++;
-                result.imported++;
-              } else {
-                result.details.customExercises.skipped++;
-                result.skipped++;
-              }
-            }
-          } catch (error) {
-            const importError = createImportError(
-              'data',
-              'exercise',
-              error,
-              {
-                recordId: exercise.id,
-                recordName: exercise.name || 'Unknown exercise'
-              }
-            );
-            result.errors.push(importError);
-            result.details.customExercises.errors++;
-            
-            logger.error(`Failed to import custom exercise ${exercise.id}`, {
-              error,
-              exerciseId: exercise.id,
-              exerciseName: exercise.name,
-              userId
-            });
-          }
-        }
-      }
-      currentStep++;
 
-      // 4. Import Templates
-      if (Array.isArray(data.templates)) {
-        onProgress?.({
-          percentage: (currentStep / totalSteps) * 100,
-          currentOperation: `Importing ${data.templates.length} templates...`,
-          completedItems: currentStep,
-          totalItems: totalSteps,
-        });
-        for (const template of data.templates) {
-          try {
-            const templateToImport = {
-              ...template,
-              userId, // Ensure userId matches
-            };
-
-            if (strategy === 'replace') {
-              await templateService.createTemplate(templateToImport);
-              result.details.templates.imported++;
-              result.imported++;
-            } else {
-              // Merge: check if template exists (by name + userId)
-              const existingTemplates =
-                await templateService.getAllTemplates(userId);
-              const exists = existingTemplates.some(
-                (t: WorkoutTemplate) => t.name === template.name && t.userId === userId
-              );
-              if (!exists) {
-                await templateService.createTemplate(templateToImport);
-                result.details.templates.imported++;
-                result.imported++;
-              } else {
-                result.details.templates.skipped++;
-                result.skipped++;
-              }
-            }
-          } catch (error) {
-            const importError = createImportError(
-              'data',
-              'template',
-              error,
-              {
-                recordId: template.id,
-                recordName: template.name || 'Unknown template'
-              }
-            );
-            result.errors.push(importError);
-            result.details.templates.errors++;
-            
-            logger.error(`Failed to import template ${template.id}`, {
-              error,
-              templateId: template.id,
-              templateName: template.name,
-              userId
-            });
-          }
-        }
-      }
-      currentStep++;
-
-      // 5. Import Planned Workouts
-      if (Array.isArray(data.plannedWorkouts)) {
-        onProgress?.({
-          percentage: (currentStep / totalSteps) * 100,
-          currentOperation: `Importing ${data.plannedWorkouts.length} planned workouts...`,
-          completedItems: currentStep,
-          totalItems: totalSteps,
-        });
-        for (const plannedWorkout of data.plannedWorkouts) {
-          try {
-            // Remove id, createdAt, updatedAt for import
-             
-            const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...plannedToImportBase } = plannedWorkout;
-            
-            // Ensure dates are Date objects
-            const plannedToImport = {
-              ...plannedToImportBase,
-              scheduledDate: plannedToImportBase.scheduledDate
-                ? (typeof plannedToImportBase.scheduledDate === 'string'
-                    ? new Date(plannedToImportBase.scheduledDate)
-                    : plannedToImportBase.scheduledDate)
-                : new Date(),
-            };
-            
-            if (strategy === 'replace') {
-              await plannedWorkoutService.createPlannedWorkout(userId, plannedToImport);
-              result.details.plannedWorkouts.imported++;
-              result.imported++;
-            } else {
-              // Merge: check if planned workout exists (by scheduledDate + name)
-              const existingPlanned =
-                await plannedWorkoutService.getAllPlannedWorkouts(userId);
-              const scheduledDate = plannedToImport.scheduledDate;
-              const exists = existingPlanned.some(
-                (pw: PlannedWorkout) =>
-                  pw.scheduledDate.getTime() === scheduledDate.getTime() &&
-                  pw.workoutName === plannedWorkout.workoutName
-              );
-              if (!exists) {
-                await plannedWorkoutService.createPlannedWorkout(userId, plannedToImport);
-                result.details.plannedWorkouts.imported++;
-                result.imported++;
-              } else {
-                result.details.plannedWorkouts.skipped++;
-                result.skipped++;
-              }
-            }
-          } catch (error) {
-            const scheduledDate = plannedWorkout.scheduledDate 
-              ? new Date(plannedWorkout.scheduledDate).toLocaleDateString()
-              : 'Unknown date';
-            const importError = createImportError(
-              'data',
-              'plannedWorkout',
-              error,
-              {
-                recordId: plannedWorkout.id,
-                recordName: scheduledDate
-              }
-            );
-            result.errors.push(importError);
-            result.details.plannedWorkouts.errors++;
-            
-            logger.error(`Failed to import planned workout ${plannedWorkout.id}`, {
-              error,
-              plannedWorkoutId: plannedWorkout.id,
-              scheduledDate: plannedWorkout.scheduledDate,
-              userId
-            });
-          }
-        }
-      }
-      currentStep++;
-
-      // 6. Import Workouts
-      if (Array.isArray(data.workouts)) {
-        onProgress?.({
-          percentage: (currentStep / totalSteps) * 100,
-          currentOperation: `Importing ${data.workouts.length} workouts...`,
-          completedItems: currentStep,
-          totalItems: totalSteps,
-        });
-        for (const workout of data.workouts) {
-          try {
-            // Remove id for import (will be auto-generated)
-             
-            const { id: _id, ...workoutToImport } = workout;
-            
-            // Ensure dates are Date objects
-            const workoutDate = workoutToImport.date 
-              ? (typeof workoutToImport.date === 'string' 
-                  ? new Date(workoutToImport.date) 
-                  : workoutToImport.date)
-              : new Date();
-            const workoutStartTime = workoutToImport.startTime
-              ? (typeof workoutToImport.startTime === 'string'
-                  ? new Date(workoutToImport.startTime)
-                  : workoutToImport.startTime)
-              : workoutDate; // Default to workout date if not provided
-            const workoutEndTime = workoutToImport.endTime
-              ? (typeof workoutToImport.endTime === 'string'
-                  ? new Date(workoutToImport.endTime)
-                  : workoutToImport.endTime)
-              : undefined;
-            
-            const workoutWithUserId = {
-              ...workoutToImport,
-              userId, // Ensure userId matches
-              date: workoutDate,
-              startTime: workoutStartTime,
-              endTime: workoutEndTime,
-            };
-
-            if (strategy === 'replace') {
-              await dataService.createWorkout(workoutWithUserId);
-              result.details.workouts.imported++;
-              result.imported++;
-            } else {
-              // Merge: check if workout exists (by date + exercises)
-              const existingWorkouts = await dataService.getAllWorkouts(userId);
-              const workoutDate = new Date(workout.date).toISOString().split('T')[0];
-              const exists = existingWorkouts.some((w: Workout) => {
-                const wDate = new Date(w.date).toISOString().split('T')[0];
-                return (
-                  wDate === workoutDate &&
-                  JSON.stringify(w.exercises) ===
-                    JSON.stringify(workout.exercises)
-                );
-              });
-              if (!exists) {
-                await dataService.createWorkout(workoutWithUserId);
-                result.details.workouts.imported++;
-                result.imported++;
-              } else {
-                result.details.workouts.skipped++;
-                result.skipped++;
-              }
-            }
-          } catch (error) {
-            // Convert date to Date object if it's a string
-            let workoutDate = 'Unknown date';
-            try {
-              if (workout.date) {
-                const date = typeof workout.date === 'string' ? new Date(workout.date) : workout.date;
-                workoutDate = date.toLocaleDateString();
-              }
-            } catch (dateError) {
-              logger.warn('Failed to parse workout date', { dateError, workoutDate: workout.date });
-            }
-            
-            const importError = createImportError(
-              'data',
-              'workout',
-              error,
-              {
-                recordId: workout.id?.toString(),
-                recordName: workoutDate
-              }
-            );
-            result.errors.push(importError);
-            result.details.workouts.errors++;
-            
-            logger.error(`Failed to import workout ${workout.id}`, {
-              error,
-              workoutId: workout.id,
-              workoutDate: workout.date,
-              exerciseCount: workout.exercises?.length,
-              userId
-            });
-          }
-        }
-      }
-      currentStep++;
-
-      // 7. Import Muscle Statuses
-      if (Array.isArray(data.muscleStatuses)) {
-        onProgress?.({
-          percentage: (currentStep / totalSteps) * 100,
-          currentOperation: `Importing ${data.muscleStatuses.length} muscle statuses...`,
-          completedItems: currentStep,
-          totalItems: totalSteps,
-        });
-        for (const status of data.muscleStatuses) {
-          try {
-            const statusToImport = {
-              ...status,
-              userId, // Ensure userId matches
-            };
-
-            if (strategy === 'replace') {
-              await dbHelpers.upsertMuscleStatus(statusToImport);
-              result.details.muscleStatuses.imported++;
-              result.imported++;
-            } else {
-              // Merge: check if status exists (by muscle + userId)
-              const existingStatuses =
-                await dataService.getAllMuscleStatuses();
-              const exists = existingStatuses.some(
-                (s) => s.muscle === status.muscle && s.userId === userId
-              );
-              if (!exists) {
-                await dbHelpers.upsertMuscleStatus(statusToImport);
-                result.details.muscleStatuses.imported++;
-                result.imported++;
-              } else {
-                result.details.muscleStatuses.skipped++;
-                result.skipped++;
-              }
-            }
-          } catch (error) {
-            const importError = createImportError(
-              'data',
-              'muscleStatus',
-              error,
-              {
-                recordId: status.muscle,
-                recordName: status.muscle.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())
-              }
-            );
-            result.errors.push(importError);
-            result.details.muscleStatuses.errors++;
-            
-            logger.error(`Failed to import muscle status for ${status.muscle}`, {
-              error,
-              muscle: status.muscle,
-              userId
-            });
-          }
-        }
-      }
-      currentStep++;
-
-      // 8. Import Sleep Logs
-      if (Array.isArray(data.sleepLogs)) {
-        onProgress?.({
-          percentage: (currentStep / totalSteps) * 100,
-          currentOperation: `Importing ${data.sleepLogs.length} sleep logs...`,
-          completedItems: currentStep,
-          totalItems: totalSteps,
-        });
-        for (const log of data.sleepLogs) {
-          try {
-            // Ensure dates are Date objects
-            const sleepDate = log.date
-              ? (typeof log.date === 'string' ? new Date(log.date) : log.date)
-              : new Date();
-            const sleepBedtime = log.bedtime
-              ? (typeof log.bedtime === 'string' ? new Date(log.bedtime) : log.bedtime)
-              : sleepDate; // Default to sleep date if not provided
-            const sleepWakeTime = log.wakeTime
-              ? (typeof log.wakeTime === 'string' ? new Date(log.wakeTime) : log.wakeTime)
-              : new Date(sleepDate.getTime() + 8 * 60 * 60 * 1000); // Default to 8 hours later if not provided
-            
-            const logToImport = {
-              ...log,
-              userId, // Ensure userId matches
-              date: sleepDate,
-              bedtime: sleepBedtime,
-              wakeTime: sleepWakeTime,
-            };
-
-            if (strategy === 'replace') {
-              await sleepRecoveryService.saveSleepLog(logToImport);
-              result.details.sleepLogs.imported++;
-              result.imported++;
-            } else {
-              // Merge: check if log exists (by date + userId)
-              const existing = await sleepRecoveryService.getSleepLog(
-                userId,
-                logToImport.date
-              );
-              if (!existing) {
-                await sleepRecoveryService.saveSleepLog(logToImport);
-                result.details.sleepLogs.imported++;
-                result.imported++;
-              } else {
-                result.details.sleepLogs.skipped++;
-                result.skipped++;
-              }
-            }
-          } catch (error) {
-            const logDate = log.date 
-              ? (typeof log.date === 'string' ? new Date(log.date) : log.date).toLocaleDateString()
-              : 'Unknown date';
-            const importError = createImportError(
-              'data',
-              'sleepLog',
-              error,
-              {
-                recordId: log.id?.toString(),
-                recordName: logDate
-              }
-            );
-            result.errors.push(importError);
-            result.details.sleepLogs.errors++;
-            
-            logger.error(`Failed to import sleep log ${log.id}`, {
-              error,
-              logId: log.id,
-              logDate: log.date,
-              userId
-            });
-          }
-        }
-      }
-      currentStep++;
-
-      // 9. Import Recovery Logs
-      if (Array.isArray(data.recoveryLogs)) {
-        onProgress?.({
-          percentage: (currentStep / totalSteps) * 100,
-          currentOperation: `Importing ${data.recoveryLogs.length} recovery logs...`,
-          completedItems: currentStep,
-          totalItems: totalSteps,
-        });
-        for (const log of data.recoveryLogs) {
-          try {
-            // Ensure dates are Date objects
-            const logToImport = {
-              ...log,
-              userId, // Ensure userId matches
-              date: log.date
-                ? (typeof log.date === 'string' ? new Date(log.date) : log.date)
-                : new Date(),
-            };
-
-            if (strategy === 'replace') {
-              await sleepRecoveryService.saveRecoveryLog(logToImport);
-              result.details.recoveryLogs.imported++;
-              result.imported++;
-            } else {
-              // Merge: check if log exists (by date + userId)
-              const existing = await sleepRecoveryService.getRecoveryLog(
-                userId,
-                logToImport.date
-              );
-              if (!existing) {
-                await sleepRecoveryService.saveRecoveryLog(logToImport);
-                result.details.recoveryLogs.imported++;
-                result.imported++;
-              } else {
-                result.details.recoveryLogs.skipped++;
-                result.skipped++;
-              }
-            }
-          } catch (error) {
-            const logDate = log.date 
-              ? (typeof log.date === 'string' ? new Date(log.date) : log.date).toLocaleDateString()
-              : 'Unknown date';
-            const importError = createImportError(
-              'data',
-              'recoveryLog',
-              error,
-              {
-                recordId: log.id?.toString(),
-                recordName: logDate
-              }
-            );
-            result.errors.push(importError);
-            result.details.recoveryLogs.errors++;
-            
-            logger.error(`Failed to import recovery log ${log.id}`, {
-              error,
-              logId: log.id,
-              logDate: log.date,
-              userId
-            });
-          }
-        }
-      }
-
-      onProgress?.({
-        percentage: 100,
-        currentOperation: 'Import complete',
-        completedItems: totalSteps - 1,
-        totalItems: totalSteps - 1,
-      });
-
-      // Note: Imported data is saved to IndexedDB only by default
-      // Sync to Supabase/MongoDB will happen automatically via the normal sync mechanism
-      // (debounced sync triggered by dataService events)
-
-      return result;
+      deletions.push(result);
+      totalDeleted += result.deleted;
+      totalFailed += result.failed;
     } catch (error) {
-      logger.error('Failed to import data', error);
-      throw new Error(
-        `Failed to import data: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
-    }
-  },
-
-  /**
-   * Import data from file
-   * Parses file once and passes data through to importAllData
-   */
-  async importFromFile(
-    userId: string,
-    file: File,
-    strategy: ImportStrategy,
-    onProgress?: ProgressCallback
-  ): Promise<ImportResult> {
-    // Validate file size before reading
-    const maxSize = 50 * 1024 * 1024; // 50MB
-    if (file.size > maxSize) {
-      throw new AppError(
-        `The file is too large (${(file.size / (1024 * 1024)).toFixed(1)}MB). Maximum size is 50MB.`,
-        'FILE_TOO_LARGE',
-        undefined,
-        undefined,
-        { fileName: file.name, fileSize: file.size, maxSize }
-      );
+      logger.error('Failed to fetch nutrition logs for deletion:', error);
+      deletions.push({
+        category: 'nutritionLogs',
+        attempted: 0,
+        deleted: 0,
+        failed: 1,
+        errors: [{ recordId: 'all', error: 'Failed to fetch nutrition logs' }]
+      });
+      totalFailed++;
     }
 
+    // 8. Clear settings (special handling - don't fail if this errors)
     try {
-      // SINGLE PARSE - parseExportFile does all JSON parsing and validation
-      const data = await this.parseExportFile(file);
-
-      // Pass parsed data directly - no more JSON.parse calls
-      const result = await this.importAllData(
-        userId,
-        data,
-        strategy,
-        onProgress
-      );
-
-      return result;
+      await dataService.updateSetting('appSettings', {});
+      deletions.push({
+        category: 'settings',
+        attempted: 1,
+        deleted: 1,
+        failed: 0,
+        errors: []
+      });
+      totalDeleted++;
     } catch (error) {
-      logger.error('[importFromFile] Import failed:', error);
-      if (error instanceof AppError) {
-        throw error;
-      }
-      throw new AppError(
-        'Failed to import data. Please check the file format and try again.',
-        'IMPORT_FAILED',
-        undefined,
-        error instanceof Error ? error : new Error(String(error)),
-        { fileName: file.name }
-      );
+      logger.error('Failed to clear settings:', error);
+      deletions.push({
+        category: 'settings',
+        attempted: 1,
+        deleted: 0,
+        failed: 1,
+        errors: [{ recordId: 'appSettings', error: error instanceof Error ? error.message : 'Unknown' }]
+      });
+      totalFailed++;
     }
+
+    logger.info(`[clearUserData] Completed: ${totalDeleted} deleted, ${totalFailed} failed`);
+
+    return {
+      success: totalFailed === 0,
+      deletions,
+      totalDeleted,
+      totalFailed
+    };
   },
 
   /**
@@ -1828,15 +1279,4 @@ export const dataExport = {
   async exportData(userId: string): Promise<string> {
     return this.exportAllData(userId);
   },
-
-  async importData(
-    userId: string,
-    jsonData: string
-  ): Promise<{ imported: number; errors: string[] }> {
-    const result = await this.importAllData(userId, jsonData, 'merge');
-    return {
-      imported: result.imported,
-      errors: result.errors.map((e) => e.message),
-    };
-  },
 };
\ No newline at end of file
@@ -3,6 +3,7 @@ import { logger } from '@/utils/logger';
 import { Workout } from '@/types/workout';
 import { Exercise, ExerciseTrackingType } from '@/types/exercise';
 import { MuscleStatus, MuscleGroup } from '@/types/muscle';
+import { EquipmentInventory } from '@/types/equipment';
 import { SyncableTable } from '@/types/sync';
 import { transactionManager } from './transactionManager';
 import { versionManager } from './versionManager';
@@ -14,6 +15,7 @@ import { validateWeight, validateDuration, validateCalories, validateRPE, normal
 import { sanitizeWorkout } from '@/utils/workoutSanitizer';
 import { calculateVolume, convertWeight } from '@/utils/calculations';
 import { generateWorkoutId } from '@/utils/idGenerator';
+import { getBodyweightAt } from '@/utils/measurementHelpers';
 
 // UserProfile type - matches userStore definition
 type ExperienceLevel = 'beginner' | 'intermediate' | 'advanced';
@@ -27,6 +29,7 @@ interface UserProfile {
   experienceLevel: ExperienceLevel;
   goals: Goal[];
   equipment: string[];
+  equipmentInventory?: EquipmentInventory;
   workoutFrequency: number;
   preferredUnit: 'kg' | 'lbs';
   defaultRestTime: number;
@@ -34,13 +37,17 @@ interface UserProfile {
   gender?: Gender;
   weight?: number;
   height?: number;
+  maxHeartRate?: number;
+  restingHeartRate?: number;
+  lactateThresholdHeartRate?: number;
+  heartRateZoneMethod?: 'age' | 'max_hr' | 'lactate_threshold';
   profilePicture?: string;
   hasCompletedOnboarding?: boolean;
   version?: number;
   deletedAt?: Date | null;
 }
 
-type EventType = 'workout' | 'user' | 'settings' | 'muscle' | 'exercise' | 'sleep' | 'recovery';
+type EventType = 'workout' | 'user' | 'settings' | 'muscle' | 'exercise' | 'sleep' | 'recovery' | 'program' | 'measurement' | 'nutrition';
 type EventCallback = () => void;
 
 class DataService {
@@ -100,6 +107,18 @@ class DataService {
     this.emit('recovery');
   }
 
+  public notifyProgramUpdate(): void {
+    this.emit('program');
+  }
+
+  public notifyMeasurementUpdate(): void {
+    this.emit('measurement');
+  }
+
+  public notifyNutritionUpdate(): void {
+    this.emit('nutrition');
+  }
+
   private emit(event: EventType): void {
     this.listeners.get(event)?.forEach(callback => callback());
     this.queueSyncForEvent(event);
@@ -118,6 +137,9 @@ class DataService {
       muscle: 'muscle_statuses',
       sleep: 'sleep_logs',
       recovery: 'recovery_logs',
+      program: 'training_programs',
+      measurement: 'body_measurements',
+      nutrition: 'nutrition_logs',
     };
 
     const table = tableMap[event];
@@ -685,6 +707,12 @@ class DataService {
       ...current,
       ...updates,
     } as Workout;
+
+    // Workouts logged before any weigh-in pick up the bodyweight in effect on their date
+    if (mergedWorkout.bodyweight === undefined) {
+      const measurements = await dbHelpers.getAllBodyMeasurements(mergedWorkout.userId);
+      mergedWorkout.bodyweight = getBodyweightAt(measurements, new Date(mergedWorkout.date));
+    }
     
     // Recalculate metrics if exercises, sets, or times changed
     const recalculatedWorkout = this.recalculateWorkoutMetrics(mergedWorkout);
@@ -705,25 +733,28 @@ class DataService {
    */
   private recalculateWorkoutMetrics(workout: Workout): Workout {
     // FIX: Get user bodyweight for accurate bodyweight exercise volume calculation
-    let userBodyweight: number | undefined;
-    try {
-      const userProfile = this.getUserProfile(workout.userId);
-      if (userProfile && (userProfile as Promise<unknown>) instanceof Promise) {
-        // If getUserProfile returns a promise, we can't wait for it in this sync function
-        // Use undefined and volume will be calculated without bodyweight
-        userBodyweight = undefined;
-      } else {
-        const profile = userProfile as UserProfile | null;
-        if (profile?.weight) {
-          // Convert to kg if user uses lbs
-          userBodyweight = profile.preferredUnit === 'lbs'
-            ? convertWeight(profile.weight, 'lbs', 'kg')
-            : profile.weight;
+    // The bodyweight logged for the workout takes precedence over the profile weight
+    let userBodyweight: number | undefined = workout.bodyweight;
+    if (userBodyweight === undefined) {
+      try {
+        const userProfile = this.getUserProfile(workout.userId);
+        if (userProfile && (userProfile as Promise<unknown>) instanceof Promise) {
+          // If getUserProfile returns a promise, we can't wait for it in this sync function
+          // Use undefined and volume will be calculated without bodyweight
+          userBodyweight = undefined;
+        } else {
+          const profile = userProfile as UserProfile | null;
+          if (profile?.weight) {
+            // Convert to kg if user uses lbs
+            userBodyweight = profile.preferredUnit === 'lbs'
+              ? convertWeight(profile.weight, 'lbs', 'kg')
+              : profile.weight;
+          }
         }
+      } catch (error) {
+        // Fail silently - volume will be calculated without bodyweight
+        userBodyweight = undefined;
       }
-    } catch (error) {
-      // Fail silently - volume will be calculated without bodyweight
-      userBodyweight = undefined;
     }
 
     // Recalculate exercise volumes and total volume
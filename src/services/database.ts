@@ -3,10 +3,15 @@ import { Workout, WorkoutTemplate, PlannedWorkout, PlannedExercise } from '@/typ
 import { Exercise, ExerciseAdvancedDetails } from '@/types/exercise';
 import { MuscleStatus } from '@/types/muscle';
 import { MuscleImageCache } from './muscleImageCache';
-import { SyncableTable } from '@/types/sync';
+import { SyncableTable, SyncConflict, ConflictTable } from '@/types/sync';
 import { SleepLog, RecoveryLog } from '@/types/sleep';
 import type { Notification } from '@/types/notification';
 import type { ErrorLog } from '@/types/error';
+import { TrainingProgram } from '@/types/program';
+import { BodyMeasurement } from '@/types/measurement';
+import { NutritionLog } from '@/types/nutrition';
+import { ProgressPhoto } from '@/types/progressPhoto';
+import { CoachMessage } from '@/types/ai';
 import { logger } from '@/utils/logger';
 
 export type InsightType = 'insights' | 'recommendations' | 'progress' | 'smart-coach';
@@ -87,6 +92,12 @@ class FitTrackAIDB extends Dexie {
   pendingSyncQueue!: Table<PendingSyncItem, number>;
   exerciseFavorites!: Table<ExerciseFavorite, string>;
   exerciseUsageHistory!: Table<ExerciseUsageHistory, string>;
+  trainingPrograms!: Table<TrainingProgram, string>;
+  bodyMeasurements!: Table<BodyMeasurement, string>;
+  progressPhotos!: Table<ProgressPhoto, string>;
+  syncConflicts!: Table<SyncConflict, string>;
+  coachMessages!: Table<CoachMessage, string>;
+  nutritionLogs!: Table<NutritionLog, string>;
 
   constructor() {
     super('FitTrackAIDB');
@@ -658,6 +669,153 @@ class FitTrackAIDB extends Dexie {
       exerciseFavorites: 'id, userId, exerciseId, [userId+exerciseId], favoritedAt',
       exerciseUsageHistory: 'id, userId, exerciseId, [userId+exerciseId], [userId+lastUsedAt], lastUsedAt, useCount',
     });
+
+    // Version 18: Add training programs and link planned workouts to them
+    this.version(18).stores({
+      workouts: 'id, userId, date, deletedAt, version, [userId+date], [userId+deletedAt], [userId+updatedAt], *musclesTargeted',
+      exercises: 'id, name, category, userId, version, [name+category], [userId+isCustom], [userId+updatedAt], *primaryMuscles, *secondaryMuscles, *equipment',
+      muscleStatuses: '++id, muscle, userId, version, [userId+muscle], [userId+updatedAt], lastWorked',
+      settings: 'key, userId, version, [userId+key]',
+      workoutTemplates: 'id, userId, category, name, version, [userId+category], [name+userId], [userId+updatedAt], *musclesTargeted',
+      aiCacheMetadata: '++id, insightType, userId, [insightType+userId], lastFetchTimestamp',
+      plannedWorkouts: 'id, userId, scheduledDate, isCompleted, programId, version, [userId+scheduledDate], [userId+isCompleted], [userId+updatedAt]',
+      exerciseDetailsCache: '++id, exerciseSlug, cachedAt',
+      muscleImageCache: '++id, muscle, cachedAt',
+      syncMetadata: '++id, tableName, userId, [userId+tableName], syncStatus, lastSyncAt',
+      sleepLogs: '++id, userId, date, version, [userId+date], [userId+updatedAt]',
+      recoveryLogs: '++id, userId, date, version, [userId+date], [userId+updatedAt]',
+      notifications: 'id, userId, isRead, createdAt, [userId+isRead], [userId+createdAt], type',
+      errorLogs: '++id, userId, errorType, severity, resolved, [userId+resolved], [userId+createdAt], tableName',
+      pendingSyncQueue: '++id, tableName, queuedAt, userId',
+      exerciseFavorites: 'id, userId, exerciseId, [userId+exerciseId], favoritedAt',
+      exerciseUsageHistory: 'id, userId, exerciseId, [userId+exerciseId], [userId+lastUsedAt], lastUsedAt, useCount',
+      trainingPrograms: 'id, userId, status, version, [userId+status], [userId+updatedAt]',
+    });
+
+    // Version 19: Add body measurement log
+    this.version(19).stores({
+      workouts: 'id, userId, date, deletedAt, version, [userId+date], [userId+deletedAt], [userId+updatedAt], *musclesTargeted',
+      exercises: 'id, name, category, userId, version, [name+category], [userId+isCustom], [userId+updatedAt], *primaryMuscles, *secondaryMuscles, *equipment',
+      muscleStatuses: '++id, muscle, userId, version, [userId+muscle], [userId+updatedAt], lastWorked',
+      settings: 'key, userId, version, [userId+key]',
+      workoutTemplates: 'id, userId, category, name, version, [userId+category], [name+userId], [userId+updatedAt], *musclesTargeted',
+      aiCacheMetadata: '++id, insightType, userId, [insightType+userId], lastFetchTimestamp',
+      plannedWorkouts: 'id, userId, scheduledDate, isCompleted, programId, version, [userId+scheduledDate], [userId+isCompleted], [userId+updatedAt]',
+      exerciseDetailsCache: '++id, exerciseSlug, cachedAt',
+      muscleImageCache: '++id, muscle, cachedAt',
+      syncMetadata: '++id, tableName, userId, [userId+tableName], syncStatus, lastSyncAt',
+      sleepLogs: '++id, userId, date, version, [userId+date], [userId+updatedAt]',
+      recoveryLogs: '++id, userId, date, version, [userId+date], [userId+updatedAt]',
+      notifications: 'id, userId, isRead, createdAt, [userId+isRead], [userId+createdAt], type',
+      errorLogs: '++id, userId, errorType, severity, resolved, [userId+resolved], [userId+createdAt], tableName',
+      pendingSyncQueue: '++id, tableName, queuedAt, userId',
+      exerciseFavorites: 'id, userId, exerciseId, [userId+exerciseId], favoritedAt',
+      exerciseUsageHistory: 'id, userId, exerciseId, [userId+exerciseId], [userId+lastUsedAt], lastUsedAt, useCount',
+      trainingPrograms: 'id, userId, status, version, [userId+status], [userId+updatedAt]',
+      bodyMeasurements: 'id, userId, date, version, [userId+date], [userId+updatedAt]',
+    });
+
+    // Version 20: Add progress photos (kept on the device, not synced through Firestore)
+    this.version(20).stores({
+      workouts: 'id, userId, date, deletedAt, version, [userId+date], [userId+deletedAt], [userId+updatedAt], *musclesTargeted',
+      exercises: 'id, name, category, userId, version, [name+category], [userId+isCustom], [userId+updatedAt], *primaryMuscles, *secondaryMuscles, *equipment',
+      muscleStatuses: '++id, muscle, userId, version, [userId+muscle], [userId+updatedAt], lastWorked',
+      settings: 'key, userId, version, [userId+key]',
+      workoutTemplates: 'id, userId, category, name, version, [userId+category], [name+userId], [userId+updatedAt], *musclesTargeted',
+      aiCacheMetadata: '++id, insightType, userId, [insightType+userId], lastFetchTimestamp',
+      plannedWorkouts: 'id, userId, scheduledDate, isCompleted, programId, version, [userId+scheduledDate], [userId+isCompleted], [userId+updatedAt]',
+      exerciseDetailsCache: '++id, exerciseSlug, cachedAt',
+      muscleImageCache: '++id, muscle, cachedAt',
+      syncMetadata: '++id, tableName, userId, [userId+tableName], syncStatus, lastSyncAt',
+      sleepLogs: '++id, userId, date, version, [userId+date], [userId+updatedAt]',
+      recoveryLogs: '++id, userId, date, version, [userId+date], [userId+updatedAt]',
+      notifications: 'id, userId, isRead, createdAt, [userId+isRead], [userId+createdAt], type',
+      errorLogs: '++id, userId, errorType, severity, resolved, [userId+resolved], [userId+createdAt], tableName',
+      pendingSyncQueue: '++id, tableName, queuedAt, userId',
+      exerciseFavorites: 'id, userId, exerciseId, [userId+exerciseId], favoritedAt',
+      exerciseUsageHistory: 'id, userId, exerciseId, [userId+exerciseId], [userId+lastUsedAt], lastUsedAt, useCount',
+      trainingPrograms: 'id, userId, status, version, [userId+status], [userId+updatedAt]',
+      bodyMeasurements: 'id, userId, date, version, [userId+date], [userId+updatedAt]',
+      progressPhotos: 'id, userId, date, pose, [userId+date]',
+    });
+
+    // Version 21: Add sync conflict review queue
+    this.version(21).stores({
+      workouts: 'id, userId, date, deletedAt, version, [userId+date], [userId+deletedAt], [userId+updatedAt], *musclesTargeted',
+      exercises: 'id, name, category, userId, version, [name+category], [userId+isCustom], [userId+updatedAt], *primaryMuscles, *secondaryMuscles, *equipment',
+      muscleStatuses: '++id, muscle, userId, version, [userId+muscle], [userId+updatedAt], lastWorked',
+      settings: 'key, userId, version, [userId+key]',
+      workoutTemplates: 'id, userId, category, name, version, [userId+category], [name+userId], [userId+updatedAt], *musclesTargeted',
+      aiCacheMetadata: '++id, insightType, userId, [insightType+userId], lastFetchTimestamp',
+      plannedWorkouts: 'id, userId, scheduledDate, isCompleted, programId, version, [userId+scheduledDate], [userId+isCompleted], [userId+updatedAt]',
+      exerciseDetailsCache: '++id, exerciseSlug, cachedAt',
+      muscleImageCache: '++id, muscle, cachedAt',
+      syncMetadata: '++id, tableName, userId, [userId+tableName], syncStatus, lastSyncAt',
+      sleepLogs: '++id, userId, date, version, [userId+date], [userId+updatedAt]',
+      recoveryLogs: '++id, userId, date, version, [userId+date], [userId+updatedAt]',
+      notifications: 'id, userId, isRead, createdAt, [userId+isRead], [userId+createdAt], type',
+      errorLogs: '++id, userId, errorType, severity, resolved, [userId+resolved], [userId+createdAt], tableName',
+      pendingSyncQueue: '++id, tableName, queuedAt, userId',
+      exerciseFavorites: 'id, userId, exerciseId, [userId+exerciseId], favoritedAt',
+      exerciseUsageHistory: 'id, userId, exerciseId, [userId+exerciseId], [userId+lastUsedAt], lastUsedAt, useCount',
+      trainingPrograms: 'id, userId, status, version, [userId+status], [userId+updatedAt]',
+      bodyMeasurements: 'id, userId, date, version, [userId+date], [userId+updatedAt]',
+      progressPhotos: 'id, userId, date, pose, [userId+date]',
+      syncConflicts: 'id, userId, tableName, [userId+tableName], detectedAt',
+    });
+
+    // Version 22: Add AI coach conversation history
+    this.version(22).stores({
+      workouts: 'id, userId, date, deletedAt, version, [userId+date], [userId+deletedAt], [userId+updatedAt], *musclesTargeted',
+      exercises: 'id, name, category, userId, version, [name+category], [userId+isCustom], [userId+updatedAt], *primaryMuscles, *secondaryMuscles, *equipment',
+      muscleStatuses: '++id, muscle, userId, version, [userId+muscle], [userId+updatedAt], lastWorked',
+      settings: 'key, userId, version, [userId+key]',
+      workoutTemplates: 'id, userId, category, name, version, [userId+category], [name+userId], [userId+updatedAt], *musclesTargeted',
+      aiCacheMetadata: '++id, insightType, userId, [insightType+userId], lastFetchTimestamp',
+      plannedWorkouts: 'id, userId, scheduledDate, isCompleted, programId, version, [userId+scheduledDate], [userId+isCompleted], [userId+updatedAt]',
+      exerciseDetailsCache: '++id, exerciseSlug, cachedAt',
+      muscleImageCache: '++id, muscle, cachedAt',
+      syncMetadata: '++id, tableName, userId, [userId+tableName], syncStatus, lastSyncAt',
+      sleepLogs: '++id, userId, date, version, [userId+date], [userId+updatedAt]',
+      recoveryLogs: '++id, userId, date, version, [userId+date], [userId+updatedAt]',
+      notifications: 'id, userId, isRead, createdAt, [userId+isRead], [userId+createdAt], type',
+      errorLogs: '++id, userId, errorType, severity, resolved, [userId+resolved], [userId+createdAt], tableName',
+      pendingSyncQueue: '++id, tableName, queuedAt, userId',
+      exerciseFavorites: 'id, userId, exerciseId, [userId+exerciseId], favoritedAt',
+      exerciseUsageHistory: 'id, userId, exerciseId, [userId+exerciseId], [userId+lastUsedAt], lastUsedAt, useCount',
+      trainingPrograms: 'id, userId, status, version, [userId+status], [userId+updatedAt]',
+      bodyMeasurements: 'id, userId, date, version, [userId+date], [userId+updatedAt]',
+      progressPhotos: 'id, userId, date, pose, [userId+date]',
+      syncConflicts: 'id, userId, tableName, [userId+tableName], detectedAt',
+      coachMessages: 'id, userId, createdAt, [userId+createdAt]',
+    });
+
+    // Version 23: Add nutrition and hydration log
+    this.version(23).stores({
+      workouts: 'id, userId, date, deletedAt, version, [userId+date], [userId+deletedAt], [userId+updatedAt], *musclesTargeted',
+      exercises: 'id, name, category, userId, version, [name+category], [userId+isCustom], [userId+updatedAt], *primaryMuscles, *secondaryMuscles, *equipment',
+      muscleStatuses: '++id, muscle, userId, version, [userId+muscle], [userId+updatedAt], lastWorked',
+      settings: 'key, userId, version, [userId+key]',
+      workoutTemplates: 'id, userId, category, name, version, [userId+category], [name+userId], [userId+updatedAt], *musclesTargeted',
+      aiCacheMetadata: '++id, insightType, userId, [insightType+userId], lastFetchTimestamp',
+      plannedWorkouts: 'id, userId, scheduledDate, isCompleted, programId, version, [userId+scheduledDate], [userId+isCompleted], [userId+updatedAt]',
+      exerciseDetailsCache: '++id, exerciseSlug, cachedAt',
+      muscleImageCache: '++id, muscle, cachedAt',
+      syncMetadata: '++id, tableName, userId, [userId+tableName], syncStatus, lastSyncAt',
+      sleepLogs: '++id, userId, date, version, [userId+date], [userId+updatedAt]',
+      recoveryLogs: '++id, userId, date, version, [userId+date], [userId+updatedAt]',
+      notifications: 'id, userId, isRead, createdAt, [userId+isRead], [userId+createdAt], type',
+      errorLogs: '++id, userId, errorType, severity, resolved, [userId+resolved], [userId+createdAt], tableName',
+      pendingSyncQueue: '++id, tableName, queuedAt, userId',
+      exerciseFavorites: 'id, userId, exerciseId, [userId+exerciseId], favoritedAt',
+      exerciseUsageHistory: 'id, userId, exerciseId, [userId+exerciseId], [userId+lastUsedAt], lastUsedAt, useCount',
+      trainingPrograms: 'id, userId, status, version, [userId+status], [userId+updatedAt]',
+      bodyMeasurements: 'id, userId, date, version, [userId+date], [userId+updatedAt]',
+      progressPhotos: 'id, userId, date, pose, [userId+date]',
+      syncConflicts: 'id, userId, tableName, [userId+tableName], detectedAt',
+      coachMessages: 'id, userId, createdAt, [userId+createdAt]',
+      nutritionLogs: 'id, userId, date, type, version, [userId+date], [userId+updatedAt]',
+    });
   }
 }
 
@@ -1136,6 +1294,151 @@ export const dbHelpers = {
     return id;
   },
 
+  async getPlannedWorkoutsByProgram(programId: string): Promise<PlannedWorkout[]> {
+    const plannedWorkouts = await db.plannedWorkouts
+      .where('programId')
+      .equals(programId)
+      .toArray();
+
+    return plannedWorkouts.sort(
+      (a, b) => new Date(a.scheduledDate).getTime() - new Date(b.scheduledDate).getTime()
+    );
+  },
+
+  // Training program operations
+  async saveTrainingProgram(program: TrainingProgram): Promise<string> {
+    return await db.trainingPrograms.put(program);
+  },
+
+  async getTrainingProgram(id: string): Promise<TrainingProgram | undefined> {
+    return await db.trainingPrograms.get(id);
+  },
+
+  async getAllTrainingPrograms(userId: string): Promise<TrainingProgram[]> {
+    const programs = await db.trainingPrograms
+      .where('userId')
+      .equals(userId)
+      .toArray();
+
+    return programs
+      .filter(p => !p.deletedAt)
+      .sort((a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime());
+  },
+
+  async updateTrainingProgram(
+    id: string,
+    updates: Partial<TrainingProgram>
+  ): Promise<string> {
+    await db.trainingPrograms.update(id, updates);
+    return id;
+  },
+
+  async deleteTrainingProgram(id: string): Promise<void> {
+    await db.trainingPrograms.delete(id);
+  },
+
+  // Body measurement operations
+  async saveBodyMeasurement(measurement: BodyMeasurement): Promise<string> {
+    return await db.bodyMeasurements.put(measurement);
+  },
+
+  async getBodyMeasurement(id: string): Promise<BodyMeasurement | undefined> {
+    return await db.bodyMeasurements.get(id);
+  },
+
+  async getAllBodyMeasurements(userId: string): Promise<BodyMeasurement[]> {
+    const measurements = await db.bodyMeasurements
+      .where('userId')
+      .equals(userId)
+      .toArray();
+
+    return measurements
+      .filter(m => !m.deletedAt)
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  },
+
+  async updateBodyMeasurement(
+    id: string,
+    updates: Partial<BodyMeasurement>
+  ): Promise<string> {
+    await db.bodyMeasurements.update(id, updates);
+    return id;
+  },
+
+  async deleteBodyMeasurement(id: string): Promise<void> {
+    await db.bodyMeasurements.delete(id);
+  },
+
+  // Progress photo operations
+  async saveProgressPhoto(photo: ProgressPhoto): Promise<string> {
+    return await db.progressPhotos.put(photo);
+  },
+
+  async getProgressPhoto(id: string): Promise<ProgressPhoto | undefined> {
+    return await db.progressPhotos.get(id);
+  },
+
+  async getAllProgressPhotos(userId: string): Promise<ProgressPhoto[]> {
+    const photos = await db.progressPhotos
+      .where('userId')
+      .equals(userId)
+      .toArray();
+
+    return photos.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  },
+
+  async updateProgressPhoto(
+    id: string,
+    updates: Partial<ProgressPhoto>
+  ): Promise<string> {
+    await db.progressPhotos.update(id, updates);
+    return id;
+  },
+
+  async deleteProgressPhoto(id: string): Promise<void> {
+    await db.progressPhotos.delete(id);
+  },
+
+  // Nutrition log operations
+  async saveNutritionLog(log: NutritionLog): Promise<string> {
+    return await db.nutritionLogs.put(log);
+  },
+
+  async getNutritionLog(id: string): Promise<NutritionLog | undefined> {
+    return await db.nutritionLogs.get(id);
+  },
+
+  async getAllNutritionLogs(userId: string): Promise<NutritionLog[]> {
+    const logs = await db.nutritionLogs
+      .where('userId')
+      .equals(userId)
+      .toArray();
+
+    return logs
+      .filter(log => !log.deletedAt)
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  },
+
+  async getNutritionLogsByDateRange(userId: string, startDate: Date, endDate: Date): Promise<NutritionLog[]> {
+    const logs = await db.nutritionLogs
+      .where('[userId+date]')
+      .between([userId, startDate], [userId, endDate], true, true)
+      .toArray();
+
+    return logs
+      .filter(log => !log.deletedAt)
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  },
+
+  async updateNutritionLog(id: string, updates: Partial<NutritionLog>): Promise<string> {
+    await db.nutritionLogs.update(id, updates);
+    return id;
+  },
+
+  async deleteNutritionLog(id: string): Promise<void> {
+    await db.nutritionLogs.delete(id);
+  },
+
   // Exercise details cache operations
   async saveExerciseDetails(
     exerciseSlug: string,
@@ -1240,6 +1543,27 @@ export const dbHelpers = {
     }
   },
 
+  // Sync conflict queue operations
+  async saveSyncConflict(conflict: SyncConflict): Promise<string> {
+    return await db.syncConflicts.put(conflict);
+  },
+
+  async getSyncConflict(id: string): Promise<SyncConflict | undefined> {
+    return await db.syncConflicts.get(id);
+  },
+
+  async getPendingSyncConflicts(userId: string, tableName?: ConflictTable): Promise<SyncConflict[]> {
+    const conflicts = tableName
+      ? await db.syncConflicts.where('[userId+tableName]').equals([userId, tableName]).toArray()
+      : await db.syncConflicts.where('userId').equals(userId).toArray();
+
+    return conflicts.sort((a, b) => new Date(a.detectedAt).getTime() - new Date(b.detectedAt).getTime());
+  },
+
+  async deleteSyncConflict(id: string): Promise<void> {
+    await db.syncConflicts.delete(id);
+  },
+
   // Notification operations
   async saveNotification(notification: Notification): Promise<string> {
     return await db.notifications.put(notification);
@@ -1624,6 +1948,12 @@ export const dbHelpers = {
         return (await this.getAllNotifications(userId)) as unknown as Record<string, unknown>[];
       case 'error_logs':
         return (await this.getAllErrorLogs(userId)) as unknown as Record<string, unknown>[];
+      case 'training_programs':
+        return (await this.getAllTrainingPrograms(userId)) as unknown as Record<string, unknown>[];
+      case 'body_measurements':
+        return (await this.getAllBodyMeasurements(userId)) as unknown as Record<string, unknown>[];
+      case 'nutrition_logs':
+        return (await this.getAllNutritionLogs(userId)) as unknown as Record<string, unknown>[];
       default:
         logger.error(`[database] Unknown table name: ${tableName}`);
         return [];
@@ -1666,6 +1996,12 @@ export const dbHelpers = {
         return (await this.getNotification(recordId as string)) as unknown as Record<string, unknown> | undefined;
       case 'error_logs':
         return (await this.getErrorLog(recordId as number)) as unknown as Record<string, unknown> | undefined;
+      case 'training_programs':
+        return (await this.getTrainingProgram(recordId as string)) as unknown as Record<string, unknown> | undefined;
+      case 'body_measurements':
+        return (await this.getBodyMeasurement(recordId as string)) as unknown as Record<string, unknown> | undefined;
+      case 'nutrition_logs':
+        return (await this.getNutritionLog(recordId as string)) as unknown as Record<string, unknown> | undefined;
       default:
         logger.error(`[database] Unknown table name for getRecordById: ${tableName}`);
         return undefined;
@@ -1719,6 +2055,12 @@ export const dbHelpers = {
         } else {
           return await this.saveErrorLog(record as unknown as Omit<ErrorLog, 'id'>);
         }
+      case 'training_programs':
+        return await this.saveTrainingProgram(record as unknown as TrainingProgram);
+      case 'body_measurements':
+        return await this.saveBodyMeasurement(record as unknown as BodyMeasurement);
+      case 'nutrition_logs':
+        return await this.saveNutritionLog(record as unknown as NutritionLog);
       default:
         logger.error(`[database] Unknown table name for upsertRecord: ${tableName}`);
         throw new Error(`Cannot upsert record for unknown table: ${tableName}`);
@@ -0,0 +1,53 @@
+import { Exercise, SubstitutionReason } from '@/types/exercise';
+import { logger } from '@/utils/logger';
+import { countSubstitutions, rankSubstitutes, SubstituteSuggestion } from '@/utils/exerciseSubstitution';
+import { dbHelpers } from './database';
+import { exerciseHistoryService } from './exerciseHistory';
+import { exerciseLibrary } from './exerciseLibrary';
+
+const USAGE_HISTORY_LIMIT = 200;
+
+/**
+ * Replacements for an exercise mid-workout, unlike exerciseSuggestions which
+ * suggests exercises to add alongside it
+ */
+export const exerciseSubstitutionService = {
+  /**
+   * Library exercises ranked as stand-ins for `exercise`, using the user's
+   * equipment, how often they log each exercise and what they swapped it for
+   * before. `excludeIds` leaves out exercises already in the workout.
+   */
+  async getSubstitutes(
+    userId: string,
+    exercise: Exercise,
+    options: {
+      reason: SubstitutionReason;
+      equipment: string[];
+      excludeIds?: string[];
+      limit?: number;
+    }
+  ): Promise<SubstituteSuggestion[]> {
+    const [allExercises, usage, workouts] = await Promise.all([
+      exerciseLibrary.getAllExercises(),
+      exerciseHistoryService.getMostUsed(userId, USAGE_HISTORY_LIMIT),
+      dbHelpers.getAllWorkouts(userId).catch((error) => {
+        logger.warn('[ExerciseSubstitution] Failed to load substitution history:', error);
+        return [];
+      }),
+    ]);
+
+    const excluded = new Set(options.excludeIds ?? []);
+    const usageCounts = Object.fromEntries(usage.map(entry => [entry.exerciseId, entry.useCount]));
+    return rankSubstitutes(
+      exercise,
+      allExercises.filter(candidate => !excluded.has(candidate.id)),
+      {
+        reason: options.reason,
+        equipment: options.equipment,
+        usageCounts,
+        previousSwaps: countSubstitutions(workouts)[exercise.id],
+      },
+      options.limit
+    );
+  },
+};
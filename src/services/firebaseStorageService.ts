@@ -5,6 +5,8 @@ import {
   getDownloadURL,
   deleteObject,
   listAll,
+  getBlob,
+  getMetadata,
   StorageReference,
 } from 'firebase/storage';
 import { getFirebaseApp, getFirebaseAuth } from './firebaseConfig';
@@ -16,6 +18,13 @@ export interface UploadResult {
   path: string;
 }
 
+export interface StoredProgressPhoto {
+  path: string;
+  customMetadata: Record<string, string>;
+}
+
+const PROGRESS_PHOTO_MAX_SIZE = 10 * 1024 * 1024; // 10MB
+
 export class FirebaseStorageService {
   private storage;
 
@@ -252,6 +261,108 @@ export class FirebaseStorageService {
     }
   }
 
+  /**
+   * Upload a progress photo. Progress photos are private to their owner.
+   * @param userId - The user's Firebase UID
+   * @param photoId - Local photo ID, used as the file name so uploads are idempotent
+   * @param image - The compressed image
+   * @param metadata - Date, pose and notes stored alongside the file for restores
+   * @returns The storage path
+   */
+  async uploadProgressPhoto(
+    userId: string,
+    photoId: string,
+    image: Blob,
+    metadata: Record<string, string>
+  ): Promise<string> {
+    const currentUser = getFirebaseAuth().currentUser;
+    if (!currentUser) {
+      throw new Error('You must be signed in to back up progress photos.');
+    }
+    if (currentUser.uid !== userId) {
+      throw new Error('User ID mismatch. Please sign out and sign in again.');
+    }
+    if (!image.type.startsWith('image/')) {
+      throw new Error('File must be an image');
+    }
+    if (image.size > PROGRESS_PHOTO_MAX_SIZE) {
+      throw new Error('Image size must be less than 10MB');
+    }
+
+    const extension = image.type === 'image/webp' ? 'webp' : 'jpg';
+    const storagePath = `progress-photos/${userId}/${photoId}.${extension}`;
+    const storageRef = ref(this.storage, storagePath);
+
+    return await errorRecovery.withRetry(
+      async () => {
+        await uploadBytes(storageRef, image, {
+          contentType: image.type,
+          customMetadata: { ...metadata, photoId, userId },
+        });
+        logger.log('[FirebaseStorage] Progress photo uploaded:', storagePath);
+        return storagePath;
+      },
+      {
+        maxRetries: 3,
+        baseDelay: 1000,
+        maxDelay: 5000,
+        exponentialBackoff: true,
+      }
+    ).catch((error) => {
+      logger.error('[FirebaseStorage] Progress photo upload error after retries:', error);
+      throw this.handleStorageError(error);
+    });
+  }
+
+  /**
+   * Download a progress photo
+   * @param storagePath - The path to the file in storage
+   */
+  async downloadProgressPhoto(storagePath: string): Promise<Blob> {
+    try {
+      return await getBlob(ref(this.storage, storagePath));
+    } catch (error) {
+      logger.error('[FirebaseStorage] Progress photo download error:', error);
+      throw this.handleStorageError(error);
+    }
+  }
+
+  /**
+   * List a user's progress photos with the metadata saved at upload
+   * @param userId - The user's Firebase UID
+   */
+  async listProgressPhotos(userId: string): Promise<StoredProgressPhoto[]> {
+    try {
+      const listResult = await listAll(ref(this.storage, `progress-photos/${userId}`));
+      return await Promise.all(
+        listResult.items.map(async (itemRef) => {
+          const metadata = await getMetadata(itemRef);
+          return { path: itemRef.fullPath, customMetadata: metadata.customMetadata ?? {} };
+        })
+      );
+    } catch (error) {
+      logger.error('[FirebaseStorage] List progress photos error:', error);
+      throw this.handleStorageError(error);
+    }
+  }
+
+  /**
+   * Delete a progress photo
+   * @param storagePath - The path to the file in storage
+   */
+  async deleteProgressPhoto(storagePath: string): Promise<void> {
+    try {
+      await deleteObject(ref(this.storage, storagePath));
+    } catch (error) {
+      // Already gone is as good as deleted
+      if (error && typeof error === 'object' && 'code' in error && error.code === 'storage/object-not-found') {
+        return;
+      }
+      logger.error('[FirebaseStorage] Delete progress photo error:', error);
+      throw this.handleStorageError(error);
+    }
+  }
+
   /**
    * Compress and resize image before upload (client-side)
    * @param file - The original image file
@@ -13,7 +13,7 @@ import {
   Firestore,
 } from 'firebase/firestore';
 import { getFirestoreDb, getFirebaseAuth, forceFirestoreOnline } from './firebaseConfig';
-import { dbHelpers } from './database';
+import { dbHelpers, LocalSyncMetadata } from './database';
 import { requireUserId } from '@/utils/userIdValidation';
 import { syncMetadataService } from './syncMetadataService';
 import { errorRecovery } from './errorRecovery';
@@ -21,7 +21,9 @@ import { userContextManager } from './userContextManager';
 import { errorLogService } from './errorLogService';
 import { firestoreDiagnostics } from './firestoreDiagnostics';
 import { logger } from '@/utils/logger';
+import { diffRecords, getConflictId, hasUnpushedChanges, isConflictTable, isRemoteAhead } from '@/utils/syncConflictHelpers';
 import {
+  ConflictTable,
   SyncOptions,
   SyncResult,
   SyncableTable,
@@ -238,6 +240,9 @@ class FirestoreSyncService {
       'sleep_logs': 'sleepLogs',
       'recovery_logs': 'recoveryLogs',
       'error_logs': 'errorLogs',
+      'training_programs': 'trainingPrograms',
+      'body_measurements': 'bodyMeasurements',
+      'nutrition_logs': 'nutritionLogs',
     };
     return mapping[tableName] || tableName;
   }
@@ -296,6 +301,9 @@ class FirestoreSyncService {
       'sleep_logs',
       'recovery_logs',
       'error_logs',
+      'training_programs',
+      'body_measurements',
+      'nutrition_logs',
     ];
 
     this.currentProgress = {
@@ -603,10 +611,13 @@ class FirestoreSyncService {
         duration: Date.now() - startTime,
       };
 
+      const hasPendingConflicts = isConflictTable(tableName) &&
+        (await dbHelpers.getPendingSyncConflicts(validatedUserId, tableName)).length > 0;
+
       await syncMetadataService.updateSyncStatus(
         tableName,
         validatedUserId,
-        result.status === 'error' ? 'error' : 'success'
+        result.status === 'error' ? 'error' : hasPendingConflicts ? 'conflict' : 'success'
       );
 
       if (result.status === 'success') {
@@ -669,7 +680,30 @@ class FirestoreSyncService {
 
       for (const remoteRecord of remoteRecords) {
         try {
-          const conflict = await this.resolveConflict(validatedUserId, tableName, remoteRecord, 'pull');
+          if (isConflictTable(tableName)) {
+            const outcome = await this.checkPullConflict(
+              validatedUserId,
+              tableName,
+              remoteRecord as Record<string, unknown>,
+              metadata
+            );
+
+            if (outcome !== 'apply') {
+              if (outcome === 'queued') {
+                result.conflicts++;
+                await syncMetadataService.incrementConflictCount(tableName, validatedUserId);
+              }
+              result.recordsProcessed++;
+              this.updateProgress({
+                recordsProcessed: result.recordsProcessed,
+              });
+              continue;
+            }
+          }
+
+          // Reviewed tables were checked above; a version change there is just a newer remote edit
+          const conflict = !isConflictTable(tableName) &&
+            await this.resolveConflict(validatedUserId, tableName, remoteRecord, 'pull');
 
           if (conflict) {
             result.conflicts++;
@@ -805,6 +839,14 @@ class FirestoreSyncService {
 
         for (const localRecord of batch) {
           try {
+            // Records waiting in the conflict queue are held back until the user resolves them
+            if (
+              isConflictTable(tableName) &&
+              await dbHelpers.getSyncConflict(getConflictId(tableName, this.getRecordId(localRecord, tableName)))
+            ) {
+              continue;
+            }
+
             const convertedRecord = this.convertToFirestoreFormat(tableName, localRecord);
             const docRef = this.getDocumentReference(db, tableName, validatedUserId, convertedRecord);
 
@@ -812,9 +854,16 @@ class FirestoreSyncService {
             const docSnap = await this.getDocWithRetry(docRef);
             if (docSnap.exists()) {
               const remoteData = docSnap.data();
-              const conflict = this.detectVersionConflict(localRecord, remoteData);
 
-              if (conflict) {
+              if (isConflictTable(tableName)) {
+                const remoteRecord = this.convertFromFirestoreFormat(tableName, remoteData);
+                if (isRemoteAhead(localRecord, remoteRecord, metadata?.lastPushAt, metadata?.lastPullAt)) {
+                  await this.queueConflict(validatedUserId, tableName, localRecord, remoteRecord);
+                  result.conflicts++;
+                  await syncMetadataService.incrementConflictCount(tableName, validatedUserId);
+                  continue;
+                }
+              } else if (this.detectVersionConflict(localRecord, remoteData)) {
                 result.conflicts++;
                 await syncMetadataService.incrementConflictCount(tableName, validatedUserId);
                 logger.warn(`[FirestoreSyncService.syncPush] Conflict detected for ${tableName} record:`, this.getRecordId(localRecord, tableName));
@@ -1154,6 +1203,73 @@ class FirestoreSyncService {
     return this.detectVersionConflict(localRecord, remoteRecord as Record<string, unknown>);
   }
 
+  /**
+   * Decide how a pulled workout, template or planned workout meets its local copy.
+   * A record edited on both devices since the last sync is queued for review
+   * instead of being overwritten.
+   */
+  private async checkPullConflict(
+    userId: string,
+    tableName: ConflictTable,
+    remoteRecord: Record<string, unknown>,
+    metadata: LocalSyncMetadata | null
+  ): Promise<'apply' | 'keep-local' | 'queued'> {
+    const remote = this.convertFromFirestoreFormat(tableName, remoteRecord);
+    const recordId = this.getRecordId(remote, tableName);
+    const localRecord = await dbHelpers.getRecordById(tableName, recordId);
+
+    if (!localRecord) {
+      return 'apply';
+    }
+
+    // Keep the queued copy of the remote side current until the user decides
+    const pending = await dbHelpers.getSyncConflict(getConflictId(tableName, recordId));
+    if (pending) {
+      await this.queueConflict(userId, tableName, localRecord, remote, pending.detectedAt);
+      return 'queued';
+    }
+
+    if (
+      !hasUnpushedChanges(localRecord, metadata?.lastPushAt, metadata?.lastPullAt) ||
+      diffRecords(localRecord, remote).length === 0
+    ) {
+      return 'apply';
+    }
+
+    // Nothing on the server is newer than the local edit; the push will overwrite it
+    if (!isRemoteAhead(localRecord, remote, metadata?.lastPushAt, metadata?.lastPullAt)) {
+      return 'keep-local';
+    }
+
+    await this.queueConflict(userId, tableName, localRecord, remote);
+    return 'queued';
+  }
+
+  private async queueConflict(
+    userId: string,
+    tableName: ConflictTable,
+    localRecord: Record<string, unknown>,
+    remoteRecord: Record<string, unknown>,
+    detectedAt: Date = new Date()
+  ): Promise<void> {
+    const recordId = this.getRecordId(localRecord, tableName);
+    logger.warn(`[FirestoreSyncService] Queued conflict for ${tableName} record:`, recordId);
+
+    await dbHelpers.saveSyncConflict({
+      id: getConflictId(tableName, recordId),
+      userId,
+      tableName,
+      recordId,
+      localRecord,
+      remoteRecord,
+      localVersion: (localRecord.version as number) || 0,
+      remoteVersion: (remoteRecord.version as number) || 0,
+      localUpdatedAt: timestampToLocalDate(localRecord.updatedAt as Date | undefined),
+      remoteUpdatedAt: timestampToLocalDate(remoteRecord.updatedAt as Date | undefined),
+      detectedAt,
+    });
+  }
+
   /**
    * Detect version conflict
    */
@@ -6,6 +6,7 @@ import { calculateWorkloadScore } from './recoveryCalculator';
 import { dataService } from './dataService';
 import { subDays } from 'date-fns';
 import { logger } from '@/utils/logger';
+import { getWorkingSets, getWorkloadMultiplier } from '@/utils/setTypes';
 
 /**
  * Service for calculating and updating muscle recovery statuses from workouts
@@ -30,15 +31,16 @@ class MuscleRecoveryService {
     const totalMuscles = mapping.primary.length + mapping.secondary.length;
     const muscleVolume = exercise.totalVolume / totalMuscles;
 
-    // Primary muscles get full intensity, secondary get 0.5x
+    // Primary muscles get full intensity, secondary get 0.5x. Drop sets and
+    // sets to failure cost more recovery than the same volume in straight sets.
     const intensityMultiplier = isPrimary ? 1.0 : 0.5;
-    const adjustedVolume = muscleVolume * intensityMultiplier;
+    const adjustedVolume = muscleVolume * intensityMultiplier * getWorkloadMultiplier(exercise.sets);
 
     // Calculate workload score using the recovery calculator
     const workloadScore = calculateWorkloadScore(
       adjustedVolume,
       mapping.intensity,
-      exercise.sets.find(s => s.completed)?.rpe
+      getWorkingSets(exercise.sets)[0]?.rpe
     );
 
     return workloadScore;
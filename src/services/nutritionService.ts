@@ -0,0 +1,187 @@
+import { endOfDay, startOfDay, subHours } from 'date-fns';
+import type { Goal } from '@/store/userStore';
+import {
+  FoodFavorite,
+  NutritionAdherence,
+  NutritionLog,
+  NutritionMacros,
+  NutritionTargets,
+} from '@/types/nutrition';
+import { dbHelpers } from './database';
+import { dataService } from './dataService';
+import { sanitizeString } from '@/utils/sanitize';
+import { calculateNutritionTargets, getRecentNutritionAdherence } from '@/utils/nutritionHelpers';
+
+export type NutritionLogInput = Omit<NutritionLog, 'id' | 'createdAt' | 'updatedAt' | 'version' | 'deletedAt'>;
+
+const FAVORITES_SETTING_PREFIX = 'food_favorites_'; // Per-user list, kept on this device only
+const MAX_FAVORITES = 30;
+const MAX_CALORIES = 10000;
+const MAX_MACRO_GRAMS = 1000;
+const MAX_WATER_ML = 5000;
+const MAX_DOSE_MG = 50000;
+
+class NutritionService {
+  private validateEntry(entry: Partial<NutritionLogInput>): void {
+    if (entry.calories !== undefined && (!Number.isFinite(entry.calories) || entry.calories < 0 || entry.calories > MAX_CALORIES)) {
+      throw new Error(`Calories must be between 0 and ${MAX_CALORIES}`);
+    }
+    for (const macro of ['protein', 'carbs', 'fat'] as const) {
+      const value = entry[macro];
+      if (value !== undefined && (!Number.isFinite(value) || value < 0 || value > MAX_MACRO_GRAMS)) {
+        throw new Error(`${macro.charAt(0).toUpperCase()}${macro.slice(1)} must be between 0 and ${MAX_MACRO_GRAMS} g`);
+      }
+    }
+    if (entry.waterMl !== undefined && (!Number.isFinite(entry.waterMl) || entry.waterMl < 0 || entry.waterMl > MAX_WATER_ML)) {
+      throw new Error(`Water must be between 0 and ${MAX_WATER_ML} ml`);
+    }
+    if (entry.doseMg !== undefined && (!Number.isFinite(entry.doseMg) || entry.doseMg <= 0 || entry.doseMg > MAX_DOSE_MG)) {
+      throw new Error(`Dose must be between 0 and ${MAX_DOSE_MG} mg`);
+    }
+  }
+
+  private validateType(entry: NutritionLogInput): void {
+    if (entry.type === 'water' && !entry.waterMl) {
+      throw new Error('Enter how much water you drank');
+    }
+    if (entry.type === 'supplement' && !entry.supplement) {
+      throw new Error('Choose a supplement');
+    }
+    if (entry.type === 'meal' && !entry.name?.trim() &&
+        [entry.calories, entry.protein, entry.carbs, entry.fat].every(value => !value)) {
+      throw new Error('Enter a name or at least one macro');
+    }
+  }
+
+  async logEntry(entry: NutritionLogInput): Promise<string> {
+    if (!entry.userId) {
+      throw new Error('Nutrition log must have a userId');
+    }
+    this.validateEntry(entry);
+    this.validateType(entry);
+
+    const now = new Date();
+    const log: NutritionLog = {
+      ...entry,
+      id: `nutrition-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      date: new Date(entry.date),
+      name: entry.name ? sanitizeString(entry.name.trim()) : undefined,
+      notes: entry.notes ? sanitizeString(entry.notes) : undefined,
+      createdAt: now,
+      updatedAt: now,
+      version: 1,
+    };
+
+    await dbHelpers.saveNutritionLog(log);
+    dataService.notifyNutritionUpdate();
+
+    return log.id;
+  }
+
+  async updateEntry(
+    id: string,
+    updates: Partial<Omit<NutritionLog, 'id' | 'userId' | 'createdAt'>>
+  ): Promise<void> {
+    const existing = await dbHelpers.getNutritionLog(id);
+    if (!existing) {
+      throw new Error('Nutrition log not found');
+    }
+    this.validateEntry(updates);
+    this.validateType({ ...existing, ...updates });
+
+    await dbHelpers.updateNutritionLog(id, {
+      ...updates,
+      name: updates.name ? sanitizeString(updates.name.trim()) : updates.name,
+      notes: updates.notes ? sanitizeString(updates.notes) : updates.notes,
+      updatedAt: new Date(),
+      version: (existing.version || 0) + 1,
+    });
+    dataService.notifyNutritionUpdate();
+  }
+
+  async deleteEntry(id: string): Promise<void> {
+    await dbHelpers.deleteNutritionLog(id);
+    dataService.notifyNutritionUpdate();
+  }
+
+  /**
+   * All logs for a user, newest first
+   */
+  async getLogs(userId: string): Promise<NutritionLog[]> {
+    return await dbHelpers.getAllNutritionLogs(userId);
+  }
+
+  async getLogsByRange(userId: string, startDate: Date, endDate: Date): Promise<NutritionLog[]> {
+    return await dbHelpers.getNutritionLogsByDateRange(userId, startDate, endDate);
+  }
+
+  async getLogsForDay(userId: string, date: Date): Promise<NutritionLog[]> {
+    return await this.getLogsByRange(userId, startOfDay(date), endOfDay(date));
+  }
+
+  getTargets(profile: { weight?: number; goals?: Goal[] } | null): NutritionTargets {
+    return calculateNutritionTargets(profile?.weight, profile?.goals ?? []);
+  }
+
+  /**
+   * How well the last 24 hours of eating met the targets, for the recovery
+   * calculation. Undefined when no meals were logged.
+   */
+  async getRecentAdherence(userId: string, targets: NutritionTargets, now: Date = new Date()): Promise<NutritionAdherence | undefined> {
+    const logs = await this.getLogsByRange(userId, subHours(now, 24), now);
+    return getRecentNutritionAdherence(logs, targets, now);
+  }
+
+  async getFavorites(userId: string): Promise<FoodFavorite[]> {
+    const favorites = await dbHelpers.getSetting(`${FAVORITES_SETTING_PREFIX}${userId}`);
+    return Array.isArray(favorites) ? (favorites as FoodFavorite[]) : [];
+  }
+
+  /**
+   * Save a meal as a favourite. A favourite with the same name is replaced.
+   */
+  async saveFavorite(userId: string, name: string, macros: NutritionMacros): Promise<FoodFavorite[]> {
+    const trimmed = sanitizeString(name.trim());
+    if (!trimmed) {
+      throw new Error('Favourites need a name');
+    }
+    this.validateEntry(macros);
+
+    const favorite: FoodFavorite = {
+      id: `food-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      name: trimmed,
+      calories: macros.calories,
+      protein: macros.protein,
+      carbs: macros.carbs,
+      fat: macros.fat,
+    };
+    const favorites = [
+      favorite,
+      ...(await this.getFavorites(userId)).filter(existing => existing.name.toLowerCase() !== trimmed.toLowerCase()),
+    ].slice(0, MAX_FAVORITES);
+
+    await dbHelpers.setSetting(`${FAVORITES_SETTING_PREFIX}${userId}`, favorites);
+    return favorites;
+  }
+
+  async removeFavorite(userId: string, favoriteId: string): Promise<FoodFavorite[]> {
+    const favorites = (await this.getFavorites(userId)).filter(favorite => favorite.id !== favoriteId);
+    await dbHelpers.setSetting(`${FAVORITES_SETTING_PREFIX}${userId}`, favorites);
+    return favorites;
+  }
+
+  async logFavorite(userId: string, favorite: FoodFavorite, date: Date = new Date()): Promise<string> {
+    return await this.logEntry({
+      userId,
+      date,
+      type: 'meal',
+      name: favorite.name,
+      calories: favorite.calories,
+      protein: favorite.protein,
+      carbs: favorite.carbs,
+      fat: favorite.fat,
+    });
+  }
+}
+
+export const nutritionService = new NutritionService();
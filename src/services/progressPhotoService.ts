@@ -0,0 +1,164 @@
+import { ProgressPhoto, ProgressPhotoPose, ProgressPhotoPrivacy } from '@/types/progressPhoto';
+import { dbHelpers } from './database';
+import { firebaseStorageService } from './firebaseStorageService';
+import { processImage } from '@/utils/imageProcessor';
+import { sanitizeString } from '@/utils/sanitize';
+import { logger } from '@/utils/logger';
+
+export interface AddProgressPhotoInput {
+  userId: string;
+  file: File;
+  date: Date;
+  pose: ProgressPhotoPose;
+  notes?: string;
+}
+
+const PROGRESS_PHOTO_POSES: ProgressPhotoPose[] = ['front', 'side', 'back'];
+const PROGRESS_PHOTO_MAX_DIMENSION = 1600; // Enough detail for side-by-side comparison
+const PROGRESS_PHOTO_MAX_SOURCE_SIZE = 25 * 1024 * 1024; // 25MB camera originals
+
+class ProgressPhotoService {
+  /**
+   * Compress and save a photo on the device. With cloud privacy the photo is
+   * also backed up to Storage; a failed upload leaves it local-only until the
+   * next uploadPendingPhotos() call.
+   */
+  async addPhoto(input: AddProgressPhotoInput, privacy: ProgressPhotoPrivacy): Promise<ProgressPhoto> {
+    if (!PROGRESS_PHOTO_POSES.includes(input.pose)) {
+      throw new Error('Choose front, side or back pose');
+    }
+    if (isNaN(new Date(input.date).getTime())) {
+      throw new Error('Photo must have a valid date');
+    }
+
+    const processed = await processImage(input.file, {
+      maxDimension: PROGRESS_PHOTO_MAX_DIMENSION,
+      maxFileSize: PROGRESS_PHOTO_MAX_SOURCE_SIZE,
+    });
+
+    const now = new Date();
+    const photo: ProgressPhoto = {
+      id: `photo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      userId: input.userId,
+      date: new Date(input.date),
+      pose: input.pose,
+      image: processed.file,
+      width: processed.width,
+      height: processed.height,
+      notes: input.notes ? sanitizeString(input.notes) : undefined,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await dbHelpers.saveProgressPhoto(photo);
+
+    if (privacy === 'cloud') {
+      try {
+        return await this.uploadPhoto(photo);
+      } catch (error) {
+        logger.warn('[ProgressPhotoService] Cloud backup failed, photo kept on device:', error);
+      }
+    }
+
+    return photo;
+  }
+
+  /**
+   * All photos for a user, newest first
+   */
+  async getPhotos(userId: string): Promise<ProgressPhoto[]> {
+    return await dbHelpers.getAllProgressPhotos(userId);
+  }
+
+  async deletePhoto(id: string): Promise<void> {
+    const photo = await dbHelpers.getProgressPhoto(id);
+    if (!photo) {
+      return;
+    }
+    if (photo.storagePath) {
+      await firebaseStorageService.deleteProgressPhoto(photo.storagePath);
+    }
+    await dbHelpers.deleteProgressPhoto(id);
+  }
+
+  /**
+   * Back up every photo that has no cloud copy yet
+   * @returns Number of photos uploaded
+   */
+  async uploadPendingPhotos(userId: string): Promise<number> {
+    const pending = (await this.getPhotos(userId)).filter(photo => !photo.storagePath);
+    let uploaded = 0;
+    for (const photo of pending) {
+      await this.uploadPhoto(photo);
+      uploaded++;
+    }
+    return uploaded;
+  }
+
+  /**
+   * Delete every cloud copy while keeping the photos on this device.
+   * Used when the user switches to device-only privacy.
+   */
+  async removeCloudCopies(userId: string): Promise<void> {
+    const stored = await firebaseStorageService.listProgressPhotos(userId);
+    await Promise.all(stored.map(item => firebaseStorageService.deleteProgressPhoto(item.path)));
+
+    const photos = await this.getPhotos(userId);
+    await Promise.all(
+      photos
+        .filter(photo => photo.storagePath)
+        .map(photo => dbHelpers.updateProgressPhoto(photo.id, { storagePath: undefined, updatedAt: new Date() }))
+    );
+  }
+
+  /**
+   * Download cloud copies that are missing on this device (e.g. after a reinstall)
+   * @returns Number of photos restored
+   */
+  async restoreFromCloud(userId: string): Promise<number> {
+    const localIds = new Set((await this.getPhotos(userId)).map(photo => photo.id));
+    const stored = await firebaseStorageService.listProgressPhotos(userId);
+    let restored = 0;
+
+    for (const item of stored) {
+      const { photoId, date, pose, width, height, notes } = item.customMetadata;
+      if (!photoId || localIds.has(photoId) || !PROGRESS_PHOTO_POSES.includes(pose as ProgressPhotoPose)) {
+        continue;
+      }
+
+      const image = await firebaseStorageService.downloadProgressPhoto(item.path);
+      const now = new Date();
+      await dbHelpers.saveProgressPhoto({
+        id: photoId,
+        userId,
+        date: new Date(date),
+        pose: pose as ProgressPhotoPose,
+        image,
+        width: Number(width) || 0,
+        height: Number(height) || 0,
+        storagePath: item.path,
+        notes: notes || undefined,
+        createdAt: now,
+        updatedAt: now,
+      });
+      restored++;
+    }
+
+    return restored;
+  }
+
+  private async uploadPhoto(photo: ProgressPhoto): Promise<ProgressPhoto> {
+    const storagePath = await firebaseStorageService.uploadProgressPhoto(photo.userId, photo.id, photo.image, {
+      date: new Date(photo.date).toISOString(),
+      pose: photo.pose,
+      width: String(photo.width),
+      height: String(photo.height),
+      ...(photo.notes ? { notes: photo.notes } : {}),
+    });
+    const updatedAt = new Date();
+    await dbHelpers.updateProgressPhoto(photo.id, { storagePath, updatedAt });
+    return { ...photo, storagePath, updatedAt };
+  }
+}
+
+export const progressPhotoService = new ProgressPhotoService();
@@ -0,0 +1,50 @@
+import { Exercise, WeightUnit } from '@/types/exercise';
+import { EquipmentInventory } from '@/types/equipment';
+import { workoutHistoryService } from './workoutHistoryService';
+import {
+  calculateProgressionTarget,
+  ProgressionRuleType,
+  ProgressionTarget,
+} from '@/utils/progressionEngine';
+import { snapToAvailableLoad } from '@/utils/plateCalculator';
+import { logger } from '@/utils/logger';
+
+const HISTORY_SESSIONS = 3;
+
+export const progressionService = {
+  /**
+   * Get the suggested target for the next session of an exercise.
+   * Returns null when there is no usable history for weight/reps exercises.
+   */
+  async getNextTarget(
+    userId: string,
+    exercise: Exercise,
+    unit: WeightUnit,
+    rule?: ProgressionRuleType,
+    inventory?: EquipmentInventory
+  ): Promise<ProgressionTarget | null> {
+    if (exercise.trackingType && exercise.trackingType !== 'weight_reps') {
+      return null;
+    }
+
+    try {
+      const sessions = await workoutHistoryService.getRecentSessionsForExercise(
+        userId,
+        exercise.id,
+        HISTORY_SESSIONS
+      );
+      return calculateProgressionTarget(
+        exercise,
+        sessions.map((session) => ({ date: new Date(session.date), sets: session.sets })),
+        {
+          unit,
+          rule,
+          snapLoad: (weight) => snapToAvailableLoad(weight, unit, exercise.equipment, inventory),
+        }
+      );
+    } catch (error) {
+      logger.error('[progressionService] Failed to calculate next target:', error);
+      return null;
+    }
+  },
+};
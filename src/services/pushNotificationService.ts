@@ -0,0 +1,95 @@
+import { getMessaging, getToken, deleteToken, isSupported } from 'firebase/messaging';
+import { getFirebaseApp } from './firebaseConfig';
+import { useUserStore } from '@/store/userStore';
+import { useSettingsStore, getDeviceTimeZone } from '@/store/settingsStore';
+import { logger } from '@/utils/logger';
+
+const TOKEN_STORAGE_KEY = 'fcm_token';
+
+/**
+ * Registers this device with Firebase Cloud Messaging so the notification
+ * Cloud Function can reach it. Tokens are kept on the user profile, which
+ * syncs to users/{uid} in Firestore.
+ */
+class PushNotificationService {
+  async isAvailable(): Promise<boolean> {
+    if (!import.meta.env.VITE_FIREBASE_VAPID_KEY || !('serviceWorker' in navigator) || !('Notification' in window)) {
+      return false;
+    }
+    try {
+      return await isSupported();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Get this device's push token and add it to the profile, replacing the
+   * token it had before. Also records the device time zone, which the
+   * Cloud Function uses to deliver notifications at local times.
+   * Returns null when push is unavailable or permission isn't granted.
+   */
+  async registerDevice(): Promise<string | null> {
+    if (!(await this.isAvailable()) || Notification.permission !== 'granted') {
+      return null;
+    }
+
+    const registration = await navigator.serviceWorker.ready;
+    const token = await getToken(getMessaging(getFirebaseApp()), {
+      vapidKey: import.meta.env.VITE_FIREBASE_VAPID_KEY,
+      serviceWorkerRegistration: registration,
+    });
+    if (!token) {
+      return null;
+    }
+
+    const previousToken = localStorage.getItem(TOKEN_STORAGE_KEY);
+    const { profile, updateProfile } = useUserStore.getState();
+    if (profile) {
+      const tokens = profile.fcmTokens ?? [];
+      if (!tokens.includes(token) || (previousToken && previousToken !== token && tokens.includes(previousToken))) {
+        await updateProfile({
+          fcmTokens: [...tokens.filter(existing => existing !== token && existing !== previousToken), token],
+        });
+      }
+    }
+    localStorage.setItem(TOKEN_STORAGE_KEY, token);
+
+    await this.syncTimeZone();
+    logger.log('[PushNotificationService] Device registered for push notifications');
+    return token;
+  }
+
+  /**
+   * Stop push notifications to this device and drop its token from the profile
+   */
+  async unregisterDevice(): Promise<void> {
+    const token = localStorage.getItem(TOKEN_STORAGE_KEY);
+    if (!token) {
+      return;
+    }
+
+    try {
+      await deleteToken(getMessaging(getFirebaseApp()));
+    } catch (error) {
+      logger.warn('[PushNotificationService] Failed to delete push token:', error);
+    }
+
+    const { profile, updateProfile } = useUserStore.getState();
+    if (profile?.fcmTokens?.includes(token)) {
+      await updateProfile({ fcmTokens: profile.fcmTokens.filter(existing => existing !== token) });
+    }
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+  }
+
+  private async syncTimeZone(): Promise<void> {
+    const settingsStore = useSettingsStore.getState();
+    await settingsStore.loadSettings();
+    const timeZone = getDeviceTimeZone();
+    if (useSettingsStore.getState().settings.timeZone !== timeZone) {
+      await settingsStore.updateSettings({ timeZone });
+    }
+  }
+}
+
+export const pushNotificationService = new PushNotificationService();
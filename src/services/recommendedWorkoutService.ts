@@ -0,0 +1,136 @@
+import { WorkoutExercise, WorkoutSet, WeightUnit } from '@/types/exercise';
+import { MuscleStatus } from '@/types/muscle';
+import { PlannedExercise, TemplateCategory } from '@/types/workout';
+import { EquipmentInventory } from '@/types/equipment';
+import { RecommendedExercise, WorkoutRecommendation, WorkoutRecommendationConstraints } from '@/types/insights';
+import type { ProgressionRuleType } from '@/utils/progressionEngine';
+import { convertWeight, calculateVolume } from '@/utils/calculations';
+import { hasEquipmentFor, isRecoveredFor, selectExercisesForWorkout } from '@/utils/recommendedWorkoutHelpers';
+import { exerciseLibrary } from './exerciseLibrary';
+import { progressionService } from './progressionService';
+import { logger } from '@/utils/logger';
+
+export interface LoadTargetOptions {
+  userId: string;
+  unit: WeightUnit;
+  rules?: Record<string, ProgressionRuleType>;
+  inventory?: EquipmentInventory;
+}
+
+export const recommendedWorkoutService = {
+  /**
+   * Library exercises the user has the equipment for and whose primary
+   * muscles have recovered, plus the time they have to train
+   */
+  async getConstraints(
+    equipment: string[],
+    muscleStatuses: MuscleStatus[],
+    availableMinutes: number
+  ): Promise<WorkoutRecommendationConstraints> {
+    const exercises = await exerciseLibrary.getAllExercises();
+    return {
+      availableExercises: (exercises ?? []).filter(exercise =>
+        hasEquipmentFor(exercise, equipment) && isRecoveredFor(exercise, muscleStatuses)
+      ),
+      availableMinutes,
+    };
+  },
+
+  /**
+   * The recommendation's exercises, selected from the constraints when it has
+   * none (recommendations cached before exercises were generated)
+   */
+  getExercises(
+    recommendation: WorkoutRecommendation,
+    constraints: WorkoutRecommendationConstraints
+  ): RecommendedExercise[] {
+    if (recommendation.exercises && recommendation.exercises.length > 0) {
+      return recommendation.exercises;
+    }
+    return selectExercisesForWorkout(
+      constraints.availableExercises,
+      recommendation.muscleGroups ?? [],
+      recommendation.intensity,
+      constraints.availableMinutes
+    );
+  },
+
+  /**
+   * Fill in target loads and reps from each exercise's progression history
+   */
+  async withLoadTargets(exercises: RecommendedExercise[], options: LoadTargetOptions): Promise<RecommendedExercise[]> {
+    return Promise.all(
+      exercises.map(async (recommended) => {
+        if (recommended.trackingType !== 'weight_reps') {
+          return recommended;
+        }
+        try {
+          const exercise = await exerciseLibrary.getExerciseById(recommended.exerciseId);
+          if (!exercise) {
+            return recommended;
+          }
+          const target = await progressionService.getNextTarget(
+            options.userId,
+            exercise,
+            options.unit,
+            options.rules?.[exercise.id],
+            options.inventory
+          );
+          return target
+            ? { ...recommended, weight: target.weight, reps: target.reps, unit: target.unit }
+            : recommended;
+        } catch (error) {
+          logger.warn('[recommendedWorkoutService] Failed to load target for exercise:', error);
+          return recommended;
+        }
+      })
+    );
+  },
+
+  toWorkoutExercises(exercises: RecommendedExercise[], unit: WeightUnit): WorkoutExercise[] {
+    const now = new Date();
+    return exercises.map((exercise, index) => {
+      const sets: WorkoutSet[] = Array.from({ length: exercise.sets }, (_, i) => {
+        switch (exercise.trackingType) {
+          case 'weight_reps':
+            return { setNumber: i + 1, reps: exercise.reps, weight: exercise.weight ?? 0, unit: exercise.unit ?? unit, completed: false };
+          case 'reps_only':
+            return { setNumber: i + 1, reps: exercise.reps, completed: false };
+          case 'cardio':
+            return { setNumber: i + 1, distance: 0, distanceUnit: 'km', time: 0, completed: false };
+          case 'duration':
+            return { setNumber: i + 1, duration: 0, completed: false };
+        }
+      });
+      return {
+        id: `exercise-${now.getTime()}-${index}`,
+        exerciseId: exercise.exerciseId,
+        exerciseName: exercise.exerciseName,
+        sets,
+        totalVolume: calculateVolume(sets, exercise.trackingType),
+        musclesWorked: exercise.muscles,
+        timestamp: now,
+      };
+    });
+  },
+
+  /**
+   * Template and planned workout exercises store loads in kg
+   */
+  toPlannedExercises(exercises: RecommendedExercise[]): PlannedExercise[] {
+    return exercises.map(exercise => ({
+      exerciseId: exercise.exerciseId,
+      exerciseName: exercise.exerciseName,
+      sets: exercise.sets,
+      reps: exercise.reps,
+      weight: exercise.weight
+        ? Math.round(convertWeight(exercise.weight, exercise.unit ?? 'kg', 'kg') * 10) / 10
+        : undefined,
+      restTime: exercise.restTime,
+    }));
+  },
+
+  getCategory(recommendation: WorkoutRecommendation): TemplateCategory {
+    return recommendation.intensity === 'high' ? 'strength' : 'hypertrophy';
+  },
+};
@@ -1,6 +1,7 @@
 import { differenceInHours } from 'date-fns';
 import { MuscleGroup, MuscleStatus, RecoveryStatus, DEFAULT_RECOVERY_SETTINGS } from '@/types/muscle';
 import { SleepLog } from '@/types/sleep';
+import { NutritionAdherence } from '@/types/nutrition';
 
 export type ExperienceLevel = 'beginner' | 'intermediate' | 'advanced';
 
@@ -13,6 +14,7 @@ interface RecoveryCalculationParams {
   trainingFrequency: number;
   baseRestInterval?: number; // Base rest interval in hours from settings (12-72)
   recentSleep?: SleepLog; // Optional recent sleep log to adjust recovery
+  recentNutrition?: NutritionAdherence; // Optional last-24h nutrition vs targets
 }
 
 export function calculateRecoveryStatus(params: RecoveryCalculationParams): MuscleStatus {
@@ -24,7 +26,8 @@ export function calculateRecoveryStatus(params: RecoveryCalculationParams): Musc
     totalVolumeLast7Days, 
     trainingFrequency, 
     baseRestInterval,
-    recentSleep
+    recentSleep,
+    recentNutrition
   } = params;
 
   if (!lastWorkout) {
@@ -50,7 +53,8 @@ export function calculateRecoveryStatus(params: RecoveryCalculationParams): Musc
     workloadScore,
     userLevel,
     baseRestInterval,
-    recentSleep
+    recentSleep,
+    recentNutrition
   );
 
   // Calculate recovery percentage
@@ -102,7 +106,8 @@ export function calculateAdjustedRecoveryHours(
   workloadScore: number,
   userLevel: ExperienceLevel,
   baseRestInterval?: number,
-  sleepLog?: SleepLog
+  sleepLog?: SleepLog,
+  nutrition?: NutritionAdherence
 ): number {
   const recoverySettings = DEFAULT_RECOVERY_SETTINGS;
   let baseRecoveryHours = 48;
@@ -148,6 +153,32 @@ export function calculateAdjustedRecoveryHours(
     adjustedRecoveryHours = adjustedRecoveryHours * sleepMultiplier;
   }
 
+  if (nutrition) {
+    let nutritionMultiplier = 1.0;
+
+    // Protein adjustment
+    if (nutrition.protein < 0.6) {
+      nutritionMultiplier += 0.1;
+    } else if (nutrition.protein < 0.8) {
+      nutritionMultiplier += 0.05;
+    } else if (nutrition.protein >= 1) {
+      nutritionMultiplier -= 0.05;
+    }
+
+    // Energy deficit adjustment
+    if (nutrition.calories < 0.7) {
+      nutritionMultiplier += 0.05;
+    }
+
+    // Hydration adjustment, only when water is being tracked
+    if (nutrition.water !== undefined && nutrition.water < 0.5) {
+      nutritionMultiplier += 0.05;
+    }
+
+    nutritionMultiplier = Math.max(0.9, Math.min(1.2, nutritionMultiplier));
+    adjustedRecoveryHours = adjustedRecoveryHours * nutritionMultiplier;
+  }
+
   return adjustedRecoveryHours;
 }
 
@@ -0,0 +1,181 @@
+import { format } from 'date-fns';
+import { Workout, PlannedWorkout } from '@/types/workout';
+import { MuscleGroup } from '@/types/muscle';
+import { SleepLog, RecoveryLog } from '@/types/sleep';
+import { ReportPeriod, ReportRange, TrainingReport } from '@/types/report';
+import {
+  calculateAdherence,
+  countTrainingDays,
+  formatReportSummary,
+  formatReportTitle,
+  getLastCompletedRange,
+  getPersonalRecordsInRange,
+  isInRange,
+  shiftReportRange,
+} from '@/utils/reportHelpers';
+import { renderReportHtml } from '@/utils/reportHtml';
+import { analyticsService } from './analyticsService';
+import { sleepRecoveryService } from './sleepRecoveryService';
+import { plannedWorkoutService } from './plannedWorkoutService';
+import { dataService } from './dataService';
+import { dbHelpers } from './database';
+import { notificationGenerator } from './notificationGenerator';
+import { triggerDownload } from './dataExport';
+import { logger } from '@/utils/logger';
+
+const NOTIFIED_SETTING_PREFIX = 'report_notified_'; // Start date of the last period a notification was sent for
+
+export interface ReportInputs {
+  workouts: Workout[]; // All of the user's workouts, for PR and previous-period comparison
+  plannedWorkouts: PlannedWorkout[];
+  sleepLogs: SleepLog[];
+  recoveryLogs: RecoveryLog[];
+}
+
+export const reportService = {
+  /**
+   * Roll up a week or month from data already loaded
+   */
+  buildReport(userId: string, range: ReportRange, inputs: ReportInputs): TrainingReport {
+    const byDate = [...inputs.workouts]
+      .filter(workout => !workout.deletedAt)
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    const inPeriod = byDate.filter(workout => isInRange(workout.date, range));
+    const previousRange = shiftReportRange(range, -1);
+    const inPreviousPeriod = byDate.filter(workout => isInRange(workout.date, previousRange));
+
+    const muscleVolume = analyticsService.calculateMuscleVolume(inPeriod);
+    const totalMuscleVolume = Array.from(muscleVolume.values()).reduce((sum, volume) => sum + volume, 0);
+    const volumeByMuscle = Array.from(muscleVolume.entries())
+      .map(([muscle, volume]) => ({
+        muscle: muscle as MuscleGroup,
+        volume,
+        percentage: totalMuscleVolume > 0 ? (volume / totalMuscleVolume) * 100 : 0,
+      }))
+      .sort((a, b) => b.volume - a.volume);
+
+    const personalRecords = getPersonalRecordsInRange(
+      analyticsService.getPersonalRecords(byDate.filter(workout => new Date(workout.date) < range.start)),
+      analyticsService.getPersonalRecords(byDate.filter(workout => new Date(workout.date) <= range.end)),
+      range
+    );
+
+    const sleepLogs = inputs.sleepLogs.filter(log => isInRange(log.date, range));
+    const recoveryLogs = inputs.recoveryLogs.filter(log => isInRange(log.date, range));
+    const sleepMetrics = sleepRecoveryService.calculateSleepMetrics(sleepLogs);
+    const recoveryMetrics = sleepRecoveryService.calculateRecoveryMetrics(recoveryLogs);
+
+    return {
+      userId,
+      range,
+      generatedAt: new Date(),
+      sessions: inPeriod.length,
+      trainingDays: countTrainingDays(inPeriod),
+      totalVolume: analyticsService.calculateTotalVolume(inPeriod),
+      totalDuration: inPeriod.reduce((sum, workout) => sum + (workout.totalDuration || 0), 0),
+      previous: {
+        sessions: inPreviousPeriod.length,
+        totalVolume: analyticsService.calculateTotalVolume(inPreviousPeriod),
+      },
+      volumeByMuscle,
+      personalRecords,
+      adherence: calculateAdherence(inputs.plannedWorkouts, range),
+      sleep: sleepLogs.length > 0
+        ? {
+            nights: sleepLogs.length,
+            averageHours: sleepMetrics.averageDuration / 60,
+            averageQuality: sleepMetrics.averageQuality,
+          }
+        : null,
+      recovery: recoveryLogs.length > 0
+        ? {
+            days: recoveryLogs.length,
+            averageRecovery: recoveryMetrics.averageRecovery,
+            averageEnergy: recoveryMetrics.averageEnergy,
+            averageSoreness: recoveryMetrics.averageSoreness,
+          }
+        : null,
+    };
+  },
+
+  async generateReport(userId: string, range: ReportRange): Promise<TrainingReport> {
+    const [workouts, plannedWorkouts, sleepLogs, recoveryLogs] = await Promise.all([
+      dataService.getAllWorkouts(userId),
+      plannedWorkoutService.getPlannedWorkoutsByDateRange(userId, range.start, range.end),
+      sleepRecoveryService.getSleepLogsByRange(userId, range.start, range.end),
+      sleepRecoveryService.getRecoveryLogsByRange(userId, range.start, range.end),
+    ]);
+    return this.buildReport(userId, range, { workouts, plannedWorkouts, sleepLogs, recoveryLogs });
+  },
+
+  /**
+   * Add an in-app notification for each week or month that has ended since
+   * the last one, when there was anything to report
+   */
+  async notifyCompletedReports(userId: string, unit: string, now: Date = new Date()): Promise<void> {
+    const periods: ReportPeriod[] = ['week', 'month'];
+    for (const period of periods) {
+      const range = getLastCompletedRange(period, now);
+      const key = `${NOTIFIED_SETTING_PREFIX}${period}`;
+      const startKey = range.start.toISOString();
+      try {
+        if ((await dbHelpers.getSetting(key)) === startKey) {
+          continue;
+        }
+        const report = await this.generateReport(userId, range);
+        if (report.sessions > 0 || report.adherence) {
+          await notificationGenerator.createSystemNotification(
+            userId,
+            `Your ${period === 'week' ? 'weekly' : 'monthly'} report is ready`,
+            formatReportSummary(report, unit).split('\n').slice(1, 3).join(' · '),
+            this.getReportUrl(range),
+            'View report'
+          );
+        }
+        await dbHelpers.setSetting(key, startKey);
+      } catch (error) {
+        logger.warn(`[ReportService] Failed to create ${period} report notification:`, error);
+      }
+    }
+  },
+
+  getReportUrl(range: ReportRange): string {
+    return `/reports?period=${range.period}&date=${format(range.start, 'yyyy-MM-dd')}`;
+  },
+
+  downloadHtml(report: TrainingReport, unit: string): void {
+    const html = renderReportHtml(report, unit);
+    const filename = `fittrack-${report.range.period}-report-${format(report.range.start, 'yyyy-MM-dd')}.html`;
+    triggerDownload(new Blob([html], { type: 'text/html;charset=utf-8' }), filename);
+  },
+
+  /**
+   * Open the report in a new window and bring up the print dialog, where it
+   * can be saved as a PDF. Returns false when the window was blocked.
+   */
+  printReport(report: TrainingReport, unit: string): boolean {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      return false;
+    }
+    printWindow.document.write(renderReportHtml(report, unit));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+    return true;
+  },
+
+  /**
+   * Share the plain-text summary, or copy it when the Web Share API isn't
+   * available. Returns how it was shared.
+   */
+  async shareReport(report: TrainingReport, unit: string): Promise<'shared' | 'copied'> {
+    const text = formatReportSummary(report, unit);
+    if (navigator.share) {
+      await navigator.share({ title: formatReportTitle(report.range), text });
+      return 'shared';
+    }
+    await navigator.clipboard.writeText(text);
+    return 'copied';
+  },
+};
@@ -1,6 +1,7 @@
 import { Workout } from '@/types/workout';
 import { WorkoutSet } from '@/types/exercise';
 import { DateRange, filterWorkoutsByDateRange } from '@/utils/analyticsHelpers';
+import { isWarmupSet } from '@/utils/setTypes';
 
 export interface RPETrendData {
   date: string;
@@ -33,7 +34,7 @@ export const rpeService = {
     workouts.forEach((workout) => {
       workout.exercises.forEach((exercise) => {
         exercise.sets.forEach((set) => {
-          if (set.completed && set.rpe !== undefined) {
+          if (set.completed && set.rpe !== undefined && !isWarmupSet(set)) {
             allSets.push(set);
           }
         });
@@ -70,7 +71,7 @@ export const rpeService = {
 
       workout.exercises.forEach((exercise) => {
         exercise.sets.forEach((set) => {
-          if (set.completed && set.rpe !== undefined) {
+          if (set.completed && set.rpe !== undefined && !isWarmupSet(set)) {
             totalRPE += set.rpe;
             setCount++;
           }
@@ -113,7 +114,7 @@ export const rpeService = {
     workouts.forEach((workout) => {
       workout.exercises.forEach((exercise) => {
         exercise.sets.forEach((set) => {
-          if (set.completed && set.rpe !== undefined) {
+          if (set.completed && set.rpe !== undefined && !isWarmupSet(set)) {
             const existing = exerciseMap.get(exercise.exerciseId);
             if (existing) {
               exerciseMap.set(exercise.exerciseId, {
@@ -169,7 +170,7 @@ export const rpeService = {
 
       workout.exercises.forEach((exercise) => {
         exercise.sets.forEach((set) => {
-          if (set.completed && set.rpe !== undefined) {
+          if (set.completed && set.rpe !== undefined && !isWarmupSet(set)) {
             totalRPE += set.rpe;
             setCount++;
           }
@@ -0,0 +1,470 @@
+import { Workout } from '@/types/workout';
+import { MuscleStatus } from '@/types/muscle';
+import {
+  ProgressAnalysis,
+  SmartAlerts,
+  WorkoutRecommendations,
+  BreakthroughInsight,
+  Alert,
+  WorkoutRecommendation,
+  WorkoutRecommendationConstraints,
+} from '@/types/insights';
+import { PersonalRecord } from '@/types/analytics';
+import { HeartRateSettings } from '@/types/cardio';
+import {
+  AIAnalysisContext,
+  AIGenerateRequest,
+  AIProvider,
+  CoachContext,
+  CoachMessage,
+  CoachToolName,
+  EmptyStateScreen,
+} from '@/types/ai';
+import { calculateMuscleImbalances } from '@/utils/analyticsHelpers';
+import { estimateWorkoutMinutes, selectExercisesForWorkout } from '@/utils/recommendedWorkoutHelpers';
+import { workoutAnalysisService, WorkoutRecommendation as PatternRecommendation } from './workoutAnalysisService';
+import { calculateRecoveryPredictions } from './advancedRecoveryModeling';
+
+/**
+ * Deterministic AI provider built on workoutAnalysisService and
+ * advancedRecoveryModeling. It answers every task from the structured input
+ * rather than the prompt, so results are reproducible and work offline. The
+ * same builders back aiService when a remote provider fails.
+ */
+class RuleBasedAIProvider implements AIProvider {
+  readonly type = 'rule-based' as const;
+  readonly isRemote = false;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generate(request: AIGenerateRequest): Promise<string> {
+    switch (request.task) {
+      case 'workout-insights':
+        return JSON.stringify(buildWorkoutInsights(request.context));
+      case 'progress-insight':
+        return buildProgressInsightText(
+          request.totalVolume,
+          request.workoutCount,
+          request.trendPercentage,
+          request.topMuscle,
+          request.unit,
+          request.comparisonPeriodLabel
+        );
+      case 'muscle-balance':
+        return buildMuscleBalanceText(request.focusDistribution, request.symmetryScore, request.topMuscles);
+      case 'progress-analysis':
+        return JSON.stringify(buildProgressAnalysis(
+          request.workouts,
+          request.personalRecords,
+          request.volumeTrend,
+          request.consistencyScore,
+          request.previousConsistencyScore,
+          request.workoutCount,
+          request.previousWorkoutCount
+        ));
+      case 'smart-alerts':
+        return JSON.stringify(buildSmartAlerts(request.workouts, request.muscleStatuses, request.readinessScore));
+      case 'workout-recommendations':
+        return JSON.stringify(buildWorkoutRecommendations(
+          request.workouts,
+          request.muscleStatuses,
+          request.readinessScore,
+          request.symmetryScore,
+          request.focusDistribution,
+          request.userLevel,
+          request.baseRestInterval,
+          request.constraints,
+          request.heartRateSettings
+        ));
+      case 'empty-state':
+        return buildEmptyStateText(request.userName, request.screenName, request.timeOfDay);
+      case 'coach-chat':
+        return JSON.stringify(buildCoachResponse(request.messages, request.context));
+    }
+  }
+}
+
+const RECOMMENDATION_ACTIONS: Record<PatternRecommendation['type'], string> = {
+  rest: 'Take a full rest day and prioritise sleep',
+  light_activity: 'Keep today light: a walk, mobility work or easy cycling',
+  cardio: 'Fit in a moderate cardio session to balance your training',
+  strength: 'Train your most recovered muscle groups with progressive overload',
+};
+
+function buildRecommendationContext(context: AIAnalysisContext): PatternRecommendation {
+  if (context.recommendationContext) {
+    return context.recommendationContext;
+  }
+
+  const patternAnalysis = context.patternAnalysis ?? workoutAnalysisService.analyzeWorkoutPatterns(context.recentWorkouts);
+  const muscleStatuses = context.muscleStatuses ?? [];
+  const readinessScore = context.readinessScore ?? (muscleStatuses.length > 0
+    ? Math.round(muscleStatuses.reduce((sum, m) => sum + m.recoveryPercentage, 0) / muscleStatuses.length)
+    : 85);
+  const userLevel = context.userLevel === 'beginner' || context.userLevel === 'advanced' ? context.userLevel : 'intermediate';
+
+  return workoutAnalysisService.calculateWorkoutRecommendation({
+    hasWorkoutToday: patternAnalysis.hasWorkoutToday,
+    todayWorkout: patternAnalysis.todayWorkout,
+    patternAnalysis,
+    readinessScore,
+    muscleRecoveryPercentages: muscleStatuses.map(m => m.recoveryPercentage),
+    overworkedMuscles: muscleStatuses.filter(m => m.recoveryStatus === 'overworked').map(m => m.muscle),
+    userWorkoutFrequencyGoal: context.workoutFrequency ?? 3,
+    userExperienceLevel: userLevel,
+  });
+}
+
+/**
+ * Insights in the JSON shape the workout-insights prompt asks for
+ */
+export function buildWorkoutInsights(context: AIAnalysisContext): {
+  analysis: string;
+  recommendations: string[];
+  warnings?: string[];
+  motivation: string;
+  tip: string;
+} {
+  if ((context.recentWorkouts ?? []).length === 0) {
+    return {
+      analysis: 'Start logging workouts to get personalized insights.',
+      recommendations: ['Log your first workout to build a training baseline'],
+      motivation: 'Every streak starts with a single session.',
+      tip: 'Record weight and reps for every set so progress can be tracked.',
+    };
+  }
+
+  const recommendation = buildRecommendationContext(context);
+  const patternAnalysis = context.patternAnalysis ?? workoutAnalysisService.analyzeWorkoutPatterns(context.recentWorkouts);
+  const { volumeTrends, workoutFrequency } = patternAnalysis;
+
+  const trendSentence = volumeTrends.trend === 'stable'
+    ? 'Your weekly volume has been stable over the last month.'
+    : `Your weekly volume is ${volumeTrends.trend} (${volumeTrends.trendPercentage > 0 ? '+' : ''}${volumeTrends.trendPercentage}%) over the last month.`;
+
+  const recommendations = [RECOMMENDATION_ACTIONS[recommendation.type]];
+  (context.weakPoints ?? []).slice(0, 2).forEach((weakPoint) => {
+    recommendations.push(`Add targeted work for ${weakPoint}`);
+  });
+  if (context.workoutFrequency && workoutFrequency.workoutsPerWeek < context.workoutFrequency * 0.8) {
+    recommendations.push(`Aim for ${context.workoutFrequency} sessions per week to reach your frequency goal`);
+  }
+
+  const overworked = (context.muscleStatuses ?? []).filter(m => m.recoveryStatus === 'overworked').map(m => m.muscle);
+  const streak = context.currentStreak ?? workoutFrequency.consecutiveDays;
+
+  return {
+    analysis: `${recommendation.reasoning} ${trendSentence}`,
+    recommendations,
+    warnings: overworked.length > 0 ? [`Overworked: ${overworked.join(', ')}. Give them extra recovery time.`] : undefined,
+    motivation: streak > 1
+      ? `${streak} days of consistent training. Keep the momentum going!`
+      : 'Consistency beats intensity. Show up for the next session.',
+    tip: patternAnalysis.restDayPatterns.restDaysLastWeek === 0
+      ? 'You had no rest days last week. Schedule at least one to let muscles rebuild.'
+      : 'Small, regular increases in weight or reps add up to big gains over time.',
+  };
+}
+
+export function buildProgressInsightText(
+  totalVolume: number,
+  workoutCount: number,
+  trendPercentage: number,
+  topMuscle: string | undefined,
+  unit: 'kg' | 'lbs',
+  comparisonPeriodLabel: string
+): string {
+  const displayVolume = unit === 'lbs' ? totalVolume * 2.20462 : totalVolume;
+  const formattedVolume = Math.round(displayVolume).toLocaleString();
+  const trend = trendPercentage === 0
+    ? `level with ${comparisonPeriodLabel}`
+    : `${trendPercentage > 0 ? 'up' : 'down'} ${Math.abs(trendPercentage)}% vs ${comparisonPeriodLabel}`;
+  const muscle = topMuscle ? ` ${topMuscle.charAt(0).toUpperCase()}${topMuscle.slice(1)} led the way.` : '';
+  return `You moved ${formattedVolume} ${unit} across ${workoutCount} workout${workoutCount === 1 ? '' : 's'}, ${trend}.${muscle}`;
+}
+
+const GREETINGS: Record<'morning' | 'afternoon' | 'evening', string> = {
+  morning: 'Good morning',
+  afternoon: 'Good afternoon',
+  evening: 'Good evening',
+};
+
+/**
+ * Welcome text for a screen the user has no data on yet
+ */
+export function buildEmptyStateText(
+  userName: string,
+  screenName: EmptyStateScreen,
+  timeOfDay: 'morning' | 'afternoon' | 'evening'
+): string {
+  switch (screenName) {
+    case 'Home':
+      return `${GREETINGS[timeOfDay]}, ${userName}! Ready to start your fitness journey? Log your first workout to get started.`;
+    case 'Analytics':
+      return `Hey ${userName}, your analytics will appear here once you complete your first workout. Consistency is key!`;
+    case 'Insights':
+      return `Welcome, ${userName}! AI insights need a little data to work with. Log a workout and check back here.`;
+    case 'History':
+      return `Your workout history is a blank canvas, ${userName}. Let's paint it with some PRs!`;
+    case 'Templates':
+      return `Time to plan for success, ${userName}. Create your first workout template here.`;
+  }
+}
+
+const BALANCE_SUGGESTIONS: Record<'legs' | 'push' | 'pull', string> = {
+  legs: 'Add squats or Romanian deadlifts to bring your leg work up.',
+  push: 'Add presses or dips to bring your pushing work up.',
+  pull: 'Add rows or pull-ups to bring your pulling work up.',
+};
+
+export function buildMuscleBalanceText(
+  focusDistribution: { legs: number; push: number; pull: number },
+  symmetryScore: number,
+  topMuscles: string[]
+): string {
+  const groups = (['legs', 'push', 'pull'] as const).map(group => ({ group, share: focusDistribution[group] }));
+  const lowest = groups.reduce((min, current) => (current.share < min.share ? current : min));
+  const highest = groups.reduce((max, current) => (current.share > max.share ? current : max));
+
+  if (highest.share - lowest.share < 10) {
+    return `Your legs, push and pull volume are well balanced with ${symmetryScore}% symmetry. Keep rotating all three.`;
+  }
+
+  const focus = topMuscles.length > 0 ? ` with ${topMuscles.slice(0, 2).join(' and ')} doing most of the work` : '';
+  return `${lowest.group.charAt(0).toUpperCase()}${lowest.group.slice(1)} is only ${lowest.share}% of your volume${focus}. ${BALANCE_SUGGESTIONS[lowest.group]}`;
+}
+
+const RECOVERY_PATTERN = /recover|sore|fatigue|tired|ready|rest\b/;
+const PLAN_PATTERN = /plan|schedul|swap|replace|tomorrow|monday|tuesday|wednesday|thursday|friday|saturday|sunday|session/;
+const EDIT_PATTERN = /swap|replace|change|switch|easier|lighter|friendly/;
+const RECENT_PATTERN = /last|recent|week|workouts/;
+
+/**
+ * Most often logged exercise the question names, matching on whole words so
+ * "bench" finds "Bench Press"
+ */
+function findMentionedExercise(question: string, workouts: Workout[]): string | null {
+  const words = new Set(question.split(/[^a-z0-9]+/).filter(word => word.length >= 4));
+  const counts = new Map<string, number>();
+  workouts.forEach((workout) => {
+    (workout.exercises ?? []).forEach((exercise) => {
+      const name = exercise.exerciseName.toLowerCase();
+      const nameWords = name.split(/[^a-z0-9]+/).filter(word => word.length >= 4);
+      if (question.includes(name) || nameWords.some(word => words.has(word))) {
+        counts.set(exercise.exerciseName, (counts.get(exercise.exerciseName) ?? 0) + 1);
+      }
+    });
+  });
+  const [top] = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  return top ? top[0] : null;
+}
+
+/**
+ * Coach turn in the same JSON protocol the coach prompt asks remote models
+ * for: look up one relevant tool by keyword, then answer with its output.
+ * The rule-based coach never proposes plan edits.
+ */
+export function buildCoachResponse(
+  messages: CoachMessage[],
+  context: CoachContext
+): { tool: CoachToolName; arguments: Record<string, unknown> } | { reply: string } {
+  let lastUserIndex = -1;
+  messages.forEach((message, index) => {
+    if (message.role === 'user') {
+      lastUserIndex = index;
+    }
+  });
+  const question = lastUserIndex >= 0 ? messages[lastUserIndex].content.toLowerCase() : '';
+  const toolResults = messages.slice(lastUserIndex + 1).filter(message => message.role === 'tool');
+
+  if (toolResults.length === 0) {
+    const exercise = findMentionedExercise(question, context.recentWorkouts);
+    if (exercise) {
+      return { tool: 'get_exercise_history', arguments: { exercise } };
+    }
+    if (RECOVERY_PATTERN.test(question)) {
+      return { tool: 'get_recovery_status', arguments: {} };
+    }
+    if (PLAN_PATTERN.test(question)) {
+      return { tool: 'get_planned_workouts', arguments: { days: 14 } };
+    }
+    if (RECENT_PATTERN.test(question)) {
+      return { tool: 'get_recent_workouts', arguments: { limit: 5 } };
+    }
+    const [firstLine] = context.workoutSummary.split('\n');
+    return {
+      reply: `Your readiness is ${context.readinessScore}%. ${firstLine} Ask me about a specific lift, your recovery or your upcoming plan.`,
+    };
+  }
+
+  const lastResult = toolResults[toolResults.length - 1];
+  const editNote = lastResult.toolCall?.name === 'get_planned_workouts' && EDIT_PATTERN.test(question)
+    ? '\n\nThe on-device coach can\'t rewrite sessions. Choose Gemini or a custom endpoint under Profile > AI Insights to get edit suggestions.'
+    : '';
+  return { reply: `Here's what your data shows:\n\n${lastResult.content}${editNote}` };
+}
+
+export function buildProgressAnalysis(
+  workouts: Workout[],
+  personalRecords: PersonalRecord[],
+  volumeTrend: Array<{ date: string; totalVolume: number }>,
+  consistencyScore: number,
+  previousConsistencyScore: number,
+  workoutCount: number,
+  previousWorkoutCount: number
+): ProgressAnalysis {
+  if (workouts.length === 0) {
+    return {
+      breakthrough: undefined,
+      consistencyScore: 0,
+      consistencyChange: 0,
+      workoutCount: 0,
+      workoutCountChange: 0,
+      volumeTrend: {
+        current: 0,
+        previous: 0,
+        changePercent: 0,
+        weeklyData: [],
+      },
+      plateaus: [],
+      formChecks: [],
+      trainingPatterns: [],
+    };
+  }
+
+  const latestPR = personalRecords.length > 0
+    ? personalRecords.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())[0]
+    : undefined;
+  const breakthrough: BreakthroughInsight | undefined = latestPR ? {
+    exercise: latestPR.exerciseName,
+    projectedWeight: latestPR.maxWeight + (latestPR.maxWeight * 0.05),
+    improvementPercent: 5,
+    reason: 'Based on your recent progress, you may be ready for a slight increase.',
+  } : undefined;
+
+  return {
+    breakthrough,
+    consistencyScore,
+    consistencyChange: consistencyScore - previousConsistencyScore,
+    workoutCount,
+    workoutCountChange: workoutCount - previousWorkoutCount,
+    volumeTrend: {
+      current: volumeTrend[volumeTrend.length - 1]?.totalVolume || 0,
+      previous: volumeTrend[0]?.totalVolume || 0,
+      changePercent: volumeTrend.length > 1 && volumeTrend[0].totalVolume > 0
+        ? ((volumeTrend[volumeTrend.length - 1].totalVolume - volumeTrend[0].totalVolume) / volumeTrend[0].totalVolume) * 100
+        : 0,
+      weeklyData: volumeTrend.map((v, i) => ({ week: `WEEK ${i + 1}`, volume: v.totalVolume })),
+    },
+    plateaus: [],
+    formChecks: [],
+    trainingPatterns: [],
+  };
+}
+
+export function buildSmartAlerts(
+  workouts: Workout[],
+  muscleStatuses: MuscleStatus[],
+  readinessScore: number
+): SmartAlerts {
+  if (workouts.length === 0) {
+    return {
+      readinessScore: 0,
+      readinessStatus: 'low',
+      readinessMessage: 'Log workouts to get readiness insights.',
+      criticalAlerts: [],
+      suggestions: [],
+      nutritionEvents: [],
+    };
+  }
+
+  const overworkedMuscles = muscleStatuses.filter(m => m.recoveryStatus === 'overworked');
+  const criticalAlerts: Alert[] = overworkedMuscles.length > 0 ? [{
+    id: 'alert-1',
+    type: 'critical',
+    title: 'High Fatigue Detected',
+    message: `${overworkedMuscles[0].muscle} are showing signs of overtraining. Consider additional rest.`,
+    muscleGroup: overworkedMuscles[0].muscle,
+  }] : [];
+
+  return {
+    readinessScore,
+    readinessStatus: readinessScore >= 80 ? 'optimal' : readinessScore >= 60 ? 'good' : readinessScore >= 40 ? 'moderate' : 'low',
+    readinessMessage: readinessScore >= 80
+      ? 'Readiness is high. Push for PRs today.'
+      : readinessScore >= 60
+        ? 'Readiness is good. You can train with moderate intensity.'
+        : readinessScore >= 40
+          ? 'Readiness is moderate. Consider lighter training or rest.'
+          : 'Readiness is low. Rest is recommended.',
+    criticalAlerts,
+    suggestions: [],
+    nutritionEvents: [],
+  };
+}
+
+export function buildWorkoutRecommendations(
+  workouts: Workout[],
+  muscleStatuses: MuscleStatus[],
+  readinessScore: number,
+  symmetryScore: number,
+  _focusDistribution: { legs: number; push: number; pull: number },
+  userLevel: 'beginner' | 'intermediate' | 'advanced' = 'intermediate',
+  baseRestInterval: number = 48,
+  constraints?: WorkoutRecommendationConstraints,
+  heartRateSettings?: HeartRateSettings
+): WorkoutRecommendations {
+  // Calculate imbalances from actual workout data (data-driven)
+  const calculatedImbalances = calculateMuscleImbalances(workouts);
+  
+  if (workouts.length === 0) {
+    return {
+      readinessScore: 0,
+      readinessStatus: 'Rest',
+      recommendedWorkout: undefined,
+      progressionPlan: undefined,
+      muscleBalance: {
+        imbalances: [],
+        overallScore: 0,
+      },
+      correctiveExercises: [],
+      recoveryPredictions: calculateRecoveryPredictions(muscleStatuses, userLevel, baseRestInterval, undefined, heartRateSettings),
+    };
+  }
+
+  const recoveredMuscles = muscleStatuses.filter(m => m.recoveryPercentage >= 90);
+  const recommendedMuscle = recoveredMuscles.length > 0 ? recoveredMuscles[0].muscle : undefined;
+
+  const intensity = readinessScore >= 80 ? 'high' : readinessScore >= 60 ? 'medium' : 'low';
+  const exercises = recommendedMuscle && constraints
+    ? selectExercisesForWorkout(constraints.availableExercises, [recommendedMuscle], intensity, constraints.availableMinutes)
+    : undefined;
+
+  const recommendedWorkout: WorkoutRecommendation | undefined = recommendedMuscle ? {
+    id: 'rec-1',
+    name: `${recommendedMuscle} Focus`,
+    description: `${recommendedMuscle} is fully recovered and ready for training.`,
+    duration: exercises && exercises.length > 0 ? estimateWorkoutMinutes(exercises) : 45,
+    intensity,
+    muscleGroups: [recommendedMuscle],
+    reason: 'Optimal recovery window',
+    exercises,
+  } : undefined;
+
+  return {
+    readinessScore,
+    readinessStatus: readinessScore >= 80 ? 'Go Heavy' : readinessScore >= 60 ? 'Moderate' : 'Rest',
+    recommendedWorkout,
+    progressionPlan: undefined,
+    muscleBalance: {
+      imbalances: calculatedImbalances,
+      overallScore: symmetryScore,
+    },
+    correctiveExercises: [],
+    recoveryPredictions: calculateRecoveryPredictions(muscleStatuses, userLevel, baseRestInterval, workouts, heartRateSettings),
+  };
+}
+
+export const ruleBasedAIProvider = new RuleBasedAIProvider();
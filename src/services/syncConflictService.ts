@@ -0,0 +1,93 @@
+import { ConflictFieldDiff, ConflictResolution, ConflictResolutionChoice, SyncConflict } from '@/types/sync';
+import { dbHelpers } from './database';
+import { dataService } from './dataService';
+import { firestoreSyncService } from './firestoreSyncService';
+import { syncMetadataService } from './syncMetadataService';
+import { versionManager } from './versionManager';
+import { diffRecords, mergeConflictRecords } from '@/utils/syncConflictHelpers';
+import { logger } from '@/utils/logger';
+
+class SyncConflictService {
+  /**
+   * Conflicts waiting for review, oldest first
+   */
+  async getPendingConflicts(userId: string): Promise<SyncConflict[]> {
+    return await dbHelpers.getPendingSyncConflicts(userId);
+  }
+
+  async getPendingCount(userId: string): Promise<number> {
+    return (await this.getPendingConflicts(userId)).length;
+  }
+
+  getFieldDiff(conflict: SyncConflict): ConflictFieldDiff[] {
+    return diffRecords(conflict.localRecord, conflict.remoteRecord);
+  }
+
+  /**
+   * Record that would be saved for a choice, without saving it
+   */
+  previewResolution(conflict: SyncConflict, choice: ConflictResolutionChoice): Record<string, unknown> {
+    switch (choice) {
+      case 'local':
+        return conflict.localRecord;
+      case 'remote':
+        return conflict.remoteRecord;
+      case 'merge':
+        return mergeConflictRecords(conflict.localRecord, conflict.remoteRecord);
+    }
+  }
+
+  /**
+   * Apply the chosen version locally, drop the conflict from the queue and push
+   * the result. The saved record is versioned above both sides so the push
+   * replaces the remote copy instead of raising the same conflict again.
+   */
+  async resolveConflict(conflictId: string, choice: ConflictResolutionChoice): Promise<ConflictResolution> {
+    const conflict = await dbHelpers.getSyncConflict(conflictId);
+    if (!conflict) {
+      throw new Error('Conflict not found or already resolved');
+    }
+
+    const baseVersion = Math.max(conflict.localVersion, conflict.remoteVersion);
+    const record = { ...this.previewResolution(conflict, choice), version: baseVersion };
+
+    if (conflict.tableName === 'workouts') {
+      // Save the chosen version, then let dataService recalculate volume and
+      // duration from the (possibly merged) sets and bump the version
+      await dbHelpers.upsertRecord(conflict.tableName, record);
+      await dataService.updateWorkout(conflict.recordId, {});
+    } else {
+      await dbHelpers.upsertRecord(conflict.tableName, versionManager.incrementVersion(record));
+    }
+
+    await dbHelpers.deleteSyncConflict(conflict.id);
+
+    const remaining = await dbHelpers.getPendingSyncConflicts(conflict.userId, conflict.tableName);
+    if (remaining.length === 0) {
+      await syncMetadataService.updateSyncStatus(conflict.tableName, conflict.userId, 'success');
+    }
+
+    try {
+      await firestoreSyncService.sync(conflict.userId, {
+        tables: [conflict.tableName],
+        direction: 'push',
+      });
+    } catch (error) {
+      // The resolved record is newer than the last push, so the next sync picks it up
+      logger.warn('[SyncConflictService] Push after resolving conflict failed:', error);
+    }
+
+    return {
+      tableName: conflict.tableName,
+      recordId: conflict.recordId,
+      localVersion: conflict.localVersion,
+      remoteVersion: conflict.remoteVersion,
+      localUpdatedAt: conflict.localUpdatedAt ?? conflict.detectedAt,
+      remoteUpdatedAt: conflict.remoteUpdatedAt ?? conflict.detectedAt,
+      resolution: choice,
+      resolvedAt: new Date(),
+    };
+  }
+}
+
+export const syncConflictService = new SyncConflictService();
@@ -17,7 +17,7 @@ type TemplateSeedData = Omit<WorkoutTemplate, 'id' | 'userId' | 'createdAt' | 'u
 
 // Default template seed data
 // Note: Exercise IDs will be resolved during initialization
-const DEFAULT_TEMPLATES: TemplateSeedData[] = [
+export const DEFAULT_TEMPLATES: TemplateSeedData[] = [
     // STRENGTH TEMPLATES
     {
         name: 'Upper/Lower Split',
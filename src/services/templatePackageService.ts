@@ -0,0 +1,253 @@
+import { Exercise } from '@/types/exercise';
+import { WorkoutTemplate } from '@/types/workout';
+import {
+  ExerciseResolution,
+  PackagedExercise,
+  PackagedTemplate,
+  TemplatePackage,
+  TemplatePackageImportResult,
+} from '@/types/templatePackage';
+import {
+  applyExerciseResolutions,
+  buildTemplatePackage,
+  decodeTemplatePackage,
+  encodeTemplatePackage,
+  getShareCode,
+  MAX_SHARE_LINK_LENGTH,
+  parseTemplatePackage,
+  SHARE_LINK_PARAM,
+  toPackagedTemplate,
+} from '@/utils/templatePackage';
+import { logger } from '@/utils/logger';
+import { exerciseLibrary } from './exerciseLibrary';
+import { templateService } from './templateService';
+import { trainingProgramService } from './trainingProgramService';
+import { triggerDownload } from './dataExport';
+
+const normalizeName = (name: string): string => name.trim().toLowerCase();
+
+function toPackagedExercise(exercise: Exercise): PackagedExercise {
+  return {
+    id: exercise.id,
+    name: exercise.name,
+    category: exercise.category,
+    primaryMuscles: exercise.primaryMuscles,
+    secondaryMuscles: exercise.secondaryMuscles,
+    equipment: exercise.equipment,
+    difficulty: exercise.difficulty,
+    instructions: exercise.instructions,
+    trackingType: exercise.trackingType,
+    videoUrl: exercise.videoUrl,
+    muscleCategory: exercise.muscleCategory,
+  };
+}
+
+/**
+ * Custom exercises the templates use. Library exercises are referenced by id
+ * only, since every install ships them.
+ */
+async function collectCustomExercises(templates: PackagedTemplate[]): Promise<PackagedExercise[]> {
+  const exerciseIds = [...new Set(templates.flatMap(template => template.exercises.map(exercise => exercise.exerciseId)))];
+  const exercises = await Promise.all(exerciseIds.map(id => exerciseLibrary.getExerciseById(id)));
+  return exercises
+    .filter((exercise): exercise is Exercise => Boolean(exercise?.isCustom))
+    .map(toPackagedExercise);
+}
+
+async function loadTemplates(templateIds: string[]): Promise<WorkoutTemplate[]> {
+  const templates = await Promise.all(templateIds.map(id => templateService.getTemplate(id)));
+  const missing = templateIds.filter((_, index) => !templates[index]);
+  if (missing.length > 0) {
+    throw new Error(`Template not found: ${missing.join(', ')}`);
+  }
+  return templates as WorkoutTemplate[];
+}
+
+export const templatePackageService = {
+  /**
+   * Package one or more templates with the custom exercises they use
+   */
+  async exportTemplates(templateIds: string[], name?: string): Promise<TemplatePackage> {
+    if (templateIds.length === 0) {
+      throw new Error('Choose at least one template to export');
+    }
+    const templates = (await loadTemplates(templateIds)).map(toPackagedTemplate);
+    return buildTemplatePackage({
+      name: name ?? templates[0].name,
+      templates,
+      exercises: await collectCustomExercises(templates),
+    });
+  },
+
+  /**
+   * Package a training program with its templates. Start date, status and
+   * schedule stay behind; the importer starts the program fresh.
+   */
+  async exportProgram(programId: string): Promise<TemplatePackage> {
+    const program = await trainingProgramService.getProgram(programId);
+    if (!program) {
+      throw new Error('Program not found');
+    }
+    const templateIds = [...new Set(program.days.map(day => day.templateId))];
+    const templates = (await loadTemplates(templateIds)).map(toPackagedTemplate);
+    return buildTemplatePackage({
+      name: program.name,
+      templates,
+      program: {
+        name: program.name,
+        description: program.description,
+        durationWeeks: program.durationWeeks,
+        days: program.days.map(day => ({ dayOfWeek: day.dayOfWeek, templateKey: day.templateId, label: day.label })),
+        progression: program.progression,
+      },
+      exercises: await collectCustomExercises(templates),
+    });
+  },
+
+  downloadPackage(pkg: TemplatePackage): void {
+    const slug = pkg.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'templates';
+    const blob = new Blob([JSON.stringify(pkg, null, 2)], { type: 'application/json' });
+    triggerDownload(blob, `fittrackai-${slug}.json`);
+  },
+
+  /**
+   * Link that opens the template library with the package ready to import
+   */
+  async createShareLink(pkg: TemplatePackage): Promise<string> {
+    const link = `${window.location.origin}/workout-templates#${SHARE_LINK_PARAM}=${await encodeTemplatePackage(pkg)}`;
+    if (link.length > MAX_SHARE_LINK_LENGTH) {
+      throw new Error('This package is too large for a link. Export it as a file instead.');
+    }
+    return link;
+  },
+
+  /**
+   * Share the link, or copy it when the Web Share API isn't available.
+   * Returns how it was shared.
+   */
+  async sharePackage(pkg: TemplatePackage): Promise<'shared' | 'copied'> {
+    const url = await this.createShareLink(pkg);
+    if (navigator.share) {
+      await navigator.share({ title: pkg.name, url });
+      return 'shared';
+    }
+    await navigator.clipboard.writeText(url);
+    return 'copied';
+  },
+
+  async readShareLink(input: string): Promise<TemplatePackage> {
+    const code = getShareCode(input);
+    if (!code) {
+      throw new Error('That does not look like a template share link');
+    }
+    return await decodeTemplatePackage(code);
+  },
+
+  async readFile(file: File): Promise<TemplatePackage> {
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+    return parseTemplatePackage(data);
+  },
+
+  /**
+   * Match every exercise in the package against the user's library: by id,
+   * then by name, then by a custom definition shipped in the package
+   */
+  async resolveExercises(pkg: TemplatePackage): Promise<ExerciseResolution[]> {
+    const library = await exerciseLibrary.getAllExercises();
+    const byId = new Map(library.map(exercise => [exercise.id, exercise]));
+    const byName = new Map(library.map(exercise => [normalizeName(exercise.name), exercise]));
+    const shipped = new Map(pkg.exercises.map(exercise => [exercise.id, exercise]));
+
+    const seen = new Map<string, string>();
+    pkg.templates.forEach((template) => {
+      template.exercises.forEach((exercise) => {
+        if (!seen.has(exercise.exerciseId)) {
+          seen.set(exercise.exerciseId, shipped.get(exercise.exerciseId)?.name ?? exercise.exerciseName);
+        }
+      });
+    });
+
+    return [...seen].map(([exerciseId, exerciseName]): ExerciseResolution => {
+      const sameId = byId.get(exerciseId);
+      if (sameId && !shipped.has(exerciseId)) {
+        return { exerciseId, exerciseName, status: 'library', resolvedId: sameId.id };
+      }
+      // Custom ids are per-user, so a shipped exercise is matched by name first
+      const sameName = byName.get(normalizeName(exerciseName));
+      if (sameName) {
+        return { exerciseId, exerciseName, status: sameName.id === exerciseId ? 'library' : 'matched', resolvedId: sameName.id };
+      }
+      if (shipped.has(exerciseId)) {
+        return { exerciseId, exerciseName, status: 'custom' };
+      }
+      return { exerciseId, exerciseName, status: 'unknown' };
+    });
+  },
+
+  /**
+   * Add the package to the user's account: create any custom exercises it
+   * needs, then its templates, then its program. Unknown exercises are left
+   * out and reported.
+   */
+  async importPackage(pkg: TemplatePackage, userId: string): Promise<TemplatePackageImportResult> {
+    const resolutions = await this.resolveExercises(pkg);
+    const shipped = new Map(pkg.exercises.map(exercise => [exercise.id, exercise]));
+
+    let createdExercises = 0;
+    for (const resolution of resolutions) {
+      const definition = shipped.get(resolution.exerciseId);
+      if (resolution.status === 'custom' && definition) {
+        const { id: _id, ...exercise } = definition;
+        resolution.resolvedId = await exerciseLibrary.createCustomExercise(exercise);
+        createdExercises++;
+      }
+    }
+
+    const resolutionMap = new Map(resolutions.map(resolution => [resolution.exerciseId, resolution]));
+    const templateIds = new Map<string, string>();
+    const skippedTemplates: string[] = [];
+    for (const { key, exercises, ...template } of pkg.templates) {
+      const remapped = applyExerciseResolutions(exercises, resolutionMap);
+      if (remapped.length === 0) {
+        skippedTemplates.push(template.name);
+        continue;
+      }
+      templateIds.set(key, await templateService.createTemplate({ ...template, userId, exercises: remapped }));
+    }
+
+    let programId: string | undefined;
+    const programDays = pkg.program?.days.filter(day => templateIds.has(day.templateKey)) ?? [];
+    if (pkg.program && programDays.length > 0) {
+      programId = await trainingProgramService.createProgram({
+        userId,
+        name: pkg.program.name,
+        description: pkg.program.description,
+        durationWeeks: pkg.program.durationWeeks,
+        days: programDays.map(day => ({
+          dayOfWeek: day.dayOfWeek,
+          templateId: templateIds.get(day.templateKey) as string,
+          label: day.label,
+        })),
+        progression: pkg.program.progression,
+        startDate: new Date(),
+      });
+    }
+
+    const unresolved = resolutions.filter(resolution => resolution.status === 'unknown');
+    if (unresolved.length > 0) {
+      logger.warn('Imported template package with unknown exercises', unresolved.map(resolution => resolution.exerciseId));
+    }
+    return {
+      templateIds: [...templateIds.values()],
+      programId,
+      createdExercises,
+      unresolved,
+      skippedTemplates,
+    };
+  },
+};
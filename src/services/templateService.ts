@@ -1,6 +1,9 @@
 import { dbHelpers } from './database';
 import { WorkoutTemplate, TemplateCategory, Workout } from '@/types/workout';
 import { WorkoutExercise, WorkoutSet } from '@/types/exercise';
+import { supersetService } from './supersetService';
+import { getSetPrescriptions, resolvePrescribedWeight, toTemplateExercise } from '@/utils/templatePrescriptions';
+import { convertWeight } from '@/utils/calculations';
 
 class TemplateService {
     // Validation
@@ -123,31 +126,8 @@ class TemplateService {
             throw new Error('Workout must have at least one exercise to create a template');
         }
 
-        const exercises = workout.exercises.map((exercise: WorkoutExercise) => {
-            // Preserve all set data by storing the full set array
-            // This allows templates to maintain different reps/weight per set
-            const setData = exercise.sets.map((set) => ({
-                reps: set.reps,
-                weight: set.weight,
-                unit: set.unit,
-                distance: set.distance,
-                distanceUnit: set.distanceUnit,
-                time: set.time,
-                calories: set.calories,
-                duration: set.duration,
-                rpe: set.rpe, // Preserve RPE in template
-            }));
-
-            return {
-                exerciseId: exercise.exerciseId,
-                exerciseName: exercise.exerciseName,
-                sets: exercise.sets.length,
-                reps: exercise.sets[0]?.reps || 10, // Keep for backward compatibility
-                weight: exercise.sets[0]?.weight, // Keep for backward compatibility
-                restTime: undefined, // Can be added later
-                setData, // Store full set data array
-            };
-        });
+        // Keeps per-set data, set types, template targets, notes and superset grouping
+        const exercises = workout.exercises.map(toTemplateExercise);
 
         const estimatedDuration = workout.totalDuration || 60; // Default to 60 minutes if not set
 
@@ -162,39 +142,46 @@ class TemplateService {
         });
     }
 
-    // Convert template to workout exercises
-    convertTemplateToWorkoutExercises(template: WorkoutTemplate): WorkoutExercise[] {
-        return template.exercises.map((templateExercise, index) => {
-            // Check if template has setData (preserved from workout)
-            const hasSetData = templateExercise.setData && Array.isArray(templateExercise.setData);
-
-            let sets: WorkoutSet[];
-            
-            if (hasSetData && templateExercise.setData && templateExercise.setData.length === templateExercise.sets) {
-                // Use preserved set data from original workout
-                sets = templateExercise.setData.map((setData, i) => ({
-                    setNumber: i + 1,
-                    reps: setData.reps ?? templateExercise.reps ?? 10,
-                    weight: setData.weight ?? templateExercise.weight ?? 0,
-                    unit: setData.unit ?? 'kg',
-                    distance: setData.distance,
-                    distanceUnit: setData.distanceUnit,
-                    time: setData.time,
-                    calories: setData.calories,
-                    duration: setData.duration,
-                    rpe: setData.rpe, // Preserve RPE if present
-                    completed: false,
-                }));
-            } else {
-                // Fallback to legacy behavior (all sets same reps/weight)
-                sets = Array.from({ length: templateExercise.sets }, (_, i) => ({
-                    setNumber: i + 1,
-                    reps: templateExercise.reps,
-                    weight: templateExercise.weight || 0,
-                    unit: 'kg', // Default unit, can be overridden
-                    completed: false,
-                }));
+    // Convert template to workout exercises. Percentage targets are resolved
+    // against the exercise's training max, or its best estimated 1RM; both are
+    // in kg and converted to the unit the set is prescribed in.
+    convertTemplateToWorkoutExercises(
+        template: WorkoutTemplate,
+        oneRepMaxes: Record<string, number> = {}
+    ): WorkoutExercise[] {
+        // Fresh group ids so workouts started from the same template don't share groups
+        const groupIds = new Map<string, string>();
+        const getGroupId = (templateGroupId: string) => {
+            if (!groupIds.has(templateGroupId)) {
+                groupIds.set(templateGroupId, supersetService.generateGroupId());
             }
+            return groupIds.get(templateGroupId) as string;
+        };
+
+        return template.exercises.map((templateExercise, index) => {
+            const trainingMax = templateExercise.trainingMax ?? oneRepMaxes[templateExercise.exerciseId];
+
+            const sets: WorkoutSet[] = getSetPrescriptions(templateExercise).map((prescription, i) => ({
+                setNumber: i + 1,
+                reps: prescription.reps ?? 10,
+                weight: resolvePrescribedWeight(
+                    prescription,
+                    trainingMax && convertWeight(trainingMax, 'kg', prescription.unit ?? 'kg')
+                ) ?? 0,
+                unit: prescription.unit ?? 'kg',
+                distance: prescription.distance,
+                distanceUnit: prescription.distanceUnit,
+                time: prescription.time,
+                calories: prescription.calories,
+                duration: prescription.duration,
+                rpe: prescription.rpe, // Start the RPE slider at the target
+                setType: prescription.setType,
+                targetRepsMin: prescription.repsMax !== undefined ? prescription.reps : undefined,
+                targetRepsMax: prescription.repsMax,
+                targetRpe: prescription.rpe,
+                targetPercent: prescription.percentOneRepMax,
+                completed: false,
+            }));
 
             return {
                 id: `exercise-${Date.now()}-${index}`,
@@ -204,6 +191,11 @@ class TemplateService {
                 totalVolume: sets.reduce((sum, set) => sum + ((set.reps || 0) * (set.weight || 0)), 0),
                 musclesWorked: template.musclesTargeted,
                 timestamp: new Date(),
+                notes: templateExercise.notes,
+                trainingMax: templateExercise.trainingMax,
+                groupType: templateExercise.groupId ? templateExercise.groupType : undefined,
+                groupId: templateExercise.groupId ? getGroupId(templateExercise.groupId) : undefined,
+                groupOrder: templateExercise.groupId ? templateExercise.groupOrder : undefined,
             };
         });
     }
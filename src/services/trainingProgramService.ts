@@ -0,0 +1,374 @@
+import { addDays, startOfDay } from 'date-fns';
+import { PlannedWorkout, PlannedExercise } from '@/types/workout';
+import {
+  TrainingProgram,
+  ProgramAdherence,
+  ProgramWeekAdherence,
+} from '@/types/program';
+import { dbHelpers } from './database';
+import { dataService } from './dataService';
+import { templateService } from './templateService';
+import { plannedWorkoutService } from './plannedWorkoutService';
+import { logger } from '@/utils/logger';
+import {
+  buildProgramWeeks,
+  getProgramSessionDate,
+  applyProgramWeek,
+  getElapsedDays,
+  DEFAULT_PROGRESSION_RULE,
+} from '@/utils/programHelpers';
+
+export type CreateTrainingProgramInput = Omit<
+  TrainingProgram,
+  'id' | 'createdAt' | 'updatedAt' | 'status' | 'weeks' | 'progression' | 'runId'
+> & {
+  weeks?: TrainingProgram['weeks'];
+  progression?: Partial<TrainingProgram['progression']>;
+};
+
+const MAX_PROGRAM_WEEKS = 52;
+
+function createRunId(): string {
+  return `run-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+class TrainingProgramService {
+  private validateProgram(program: CreateTrainingProgramInput): void {
+    if (!program.userId) {
+      throw new Error('Program must have a userId');
+    }
+    if (!program.name || program.name.trim() === '') {
+      throw new Error('Program must have a name');
+    }
+    if (!Number.isInteger(program.durationWeeks) || program.durationWeeks < 1 || program.durationWeeks > MAX_PROGRAM_WEEKS) {
+      throw new Error(`Program duration must be between 1 and ${MAX_PROGRAM_WEEKS} weeks`);
+    }
+    if (!Array.isArray(program.days) || program.days.length === 0) {
+      throw new Error('Program must have at least one training day');
+    }
+    const seenDays = new Set<number>();
+    for (const day of program.days) {
+      if (day.dayOfWeek < 0 || day.dayOfWeek > 6) {
+        throw new Error('Training day must be between Sunday (0) and Saturday (6)');
+      }
+      if (seenDays.has(day.dayOfWeek)) {
+        throw new Error('Each weekday can only be used once per program');
+      }
+      if (!day.templateId) {
+        throw new Error('Each training day must reference a template');
+      }
+      seenDays.add(day.dayOfWeek);
+    }
+  }
+
+  async createProgram(program: CreateTrainingProgramInput): Promise<string> {
+    this.validateProgram(program);
+
+    const progression = { ...DEFAULT_PROGRESSION_RULE, ...program.progression };
+    const weeks = program.weeks?.length === program.durationWeeks
+      ? program.weeks
+      : buildProgramWeeks(program.durationWeeks, progression);
+
+    const now = new Date();
+    const fullProgram: TrainingProgram = {
+      ...program,
+      id: `program-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      startDate: startOfDay(new Date(program.startDate)),
+      progression,
+      weeks,
+      runId: createRunId(),
+      status: 'active',
+      pausedAt: null,
+      createdAt: now,
+      updatedAt: now,
+      version: 1,
+    };
+
+    await dbHelpers.saveTrainingProgram(fullProgram);
+    await this.scheduleSessions(fullProgram);
+    dataService.notifyProgramUpdate();
+
+    return fullProgram.id;
+  }
+
+  async getProgram(id: string): Promise<TrainingProgram | undefined> {
+    return await dbHelpers.getTrainingProgram(id);
+  }
+
+  async getAllPrograms(userId: string): Promise<TrainingProgram[]> {
+    return await dbHelpers.getAllTrainingPrograms(userId);
+  }
+
+  async getActiveProgram(userId: string): Promise<TrainingProgram | undefined> {
+    const programs = await this.getAllPrograms(userId);
+    return programs.find(p => p.status === 'active');
+  }
+
+  async getProgramSessions(programId: string): Promise<PlannedWorkout[]> {
+    return await dbHelpers.getPlannedWorkoutsByProgram(programId);
+  }
+
+  async updateProgram(
+    id: string,
+    updates: Partial<Omit<TrainingProgram, 'id' | 'createdAt'>>
+  ): Promise<void> {
+    const existing = await this.requireProgram(id);
+    await dbHelpers.updateTrainingProgram(id, {
+      ...updates,
+      updatedAt: new Date(),
+      version: (existing.version || 0) + 1,
+    });
+    dataService.notifyProgramUpdate();
+  }
+
+  /**
+   * Delete a program and its not-yet-completed sessions.
+   * Completed sessions are kept so workout history stays linked.
+   */
+  async deleteProgram(id: string): Promise<void> {
+    await this.removeIncompleteSessions(id);
+    await dbHelpers.deleteTrainingProgram(id);
+    dataService.notifyProgramUpdate();
+  }
+
+  /**
+   * Pause a program. Sessions stay on the calendar until the program is
+   * resumed, at which point they are shifted by the time spent paused.
+   */
+  async pauseProgram(id: string): Promise<void> {
+    const program = await this.requireProgram(id);
+    if (program.status !== 'active') {
+      throw new Error('Only active programs can be paused');
+    }
+    await this.updateProgram(id, { status: 'paused', pausedAt: new Date() });
+  }
+
+  async resumeProgram(id: string): Promise<void> {
+    const program = await this.requireProgram(id);
+    if (program.status !== 'paused' || !program.pausedAt) {
+      throw new Error('Only paused programs can be resumed');
+    }
+
+    const pausedAt = new Date(program.pausedAt);
+    const pausedDays = getElapsedDays(pausedAt, new Date());
+    if (pausedDays > 0) {
+      await this.shiftSessions(program, pausedDays, startOfDay(pausedAt));
+    }
+
+    await this.updateProgram(id, {
+      status: 'active',
+      pausedAt: null,
+      startDate: addDays(new Date(program.startDate), pausedDays),
+    });
+  }
+
+  /**
+   * Move every remaining (incomplete) session by a number of days.
+   * Negative values pull the schedule earlier.
+   */
+  async shiftProgram(id: string, days: number): Promise<void> {
+    if (!Number.isInteger(days) || days === 0) {
+      return;
+    }
+    const program = await this.requireProgram(id);
+    await this.shiftSessions(program, days);
+    await this.updateProgram(id, {
+      startDate: addDays(new Date(program.startDate), days),
+    });
+  }
+
+  /**
+   * Start the program over from week 1 on a new date. Incomplete sessions from
+   * the previous run are removed; completed ones remain in history.
+   */
+  async restartProgram(id: string, startDate: Date = new Date()): Promise<void> {
+    const program = await this.requireProgram(id);
+    await this.removeIncompleteSessions(id);
+
+    const restarted: TrainingProgram = {
+      ...program,
+      startDate: startOfDay(new Date(startDate)),
+      runId: createRunId(),
+      status: 'active',
+      pausedAt: null,
+    };
+
+    await this.updateProgram(id, {
+      startDate: restarted.startDate,
+      runId: restarted.runId,
+      status: 'active',
+      pausedAt: null,
+    });
+    await this.scheduleSessions(restarted);
+  }
+
+  /**
+   * Mark programs whose final session date has passed as completed
+   */
+  async completeFinishedPrograms(userId: string, now: Date = new Date()): Promise<number> {
+    const programs = await this.getAllPrograms(userId);
+    let completed = 0;
+
+    for (const program of programs) {
+      if (program.status !== 'active') {
+        continue;
+      }
+      // Sessions carry the pauses and shifts, so the last one marks the end of the run
+      const sessionDates = (await this.getRunSessions(program)).map(s => startOfDay(new Date(s.scheduledDate)).getTime());
+      const endDate = sessionDates.length > 0
+        ? addDays(new Date(Math.max(...sessionDates)), 1)
+        : addDays(new Date(program.startDate), program.durationWeeks * 7);
+      if (startOfDay(now) >= endDate) {
+        await this.updateProgram(program.id, { status: 'completed' });
+        completed++;
+      }
+    }
+
+    return completed;
+  }
+
+  /**
+   * Adherence for the current run of a program, based on completedWorkoutId
+   * links on its generated planned workouts
+   */
+  async getAdherence(id: string, now: Date = new Date()): Promise<ProgramAdherence> {
+    const program = await this.requireProgram(id);
+    const today = startOfDay(now);
+    const sessions = await this.getRunSessions(program);
+
+    const byWeek = new Map<number, ProgramWeekAdherence>();
+    let completedSessions = 0;
+    let missedSessions = 0;
+    let upcomingSessions = 0;
+
+    for (const session of sessions) {
+      const weekNumber = session.programWeek ?? 1;
+      const week = byWeek.get(weekNumber) ?? { weekNumber, planned: 0, completed: 0, missed: 0 };
+      week.planned++;
+
+      const isCompleted = session.isCompleted && !!session.completedWorkoutId;
+      if (isCompleted) {
+        completedSessions++;
+        week.completed++;
+      } else if (startOfDay(new Date(session.scheduledDate)) < today) {
+        missedSessions++;
+        week.missed++;
+      } else {
+        upcomingSessions++;
+      }
+
+      byWeek.set(weekNumber, week);
+    }
+
+    const due = completedSessions + missedSessions;
+
+    return {
+      programId: id,
+      totalSessions: sessions.length,
+      completedSessions,
+      missedSessions,
+      upcomingSessions,
+      adherencePercentage: due > 0 ? Math.round((completedSessions / due) * 100) : 100,
+      byWeek: Array.from(byWeek.values()).sort((a, b) => a.weekNumber - b.weekNumber),
+    };
+  }
+
+  /**
+   * Expand a program into PlannedWorkout records, one per training day per week
+   */
+  private async scheduleSessions(program: TrainingProgram): Promise<number> {
+    const templates = new Map<string, Awaited<ReturnType<typeof templateService.getTemplate>>>();
+    for (const day of program.days) {
+      if (!templates.has(day.templateId)) {
+        templates.set(day.templateId, await templateService.getTemplate(day.templateId));
+      }
+    }
+
+    let created = 0;
+    for (const week of program.weeks) {
+      for (const day of program.days) {
+        const template = templates.get(day.templateId);
+        if (!template) {
+          logger.warn(`[trainingProgramService] Template ${day.templateId} not found, skipping session`);
+          continue;
+        }
+
+        const baseExercises: PlannedExercise[] = template.exercises.map(ex => ({
+          exerciseId: ex.exerciseId,
+          exerciseName: ex.exerciseName,
+          sets: ex.sets,
+          reps: ex.reps,
+          weight: ex.weight,
+          restTime: ex.restTime,
+        }));
+
+        const label = day.label || template.name;
+        await plannedWorkoutService.createPlannedWorkout(program.userId, {
+          userId: program.userId,
+          scheduledDate: getProgramSessionDate(program.startDate, week.weekNumber, day),
+          templateId: template.id,
+          workoutName: `${label} · W${week.weekNumber}${week.isDeload ? ' (Deload)' : ''}`,
+          category: template.category,
+          estimatedDuration: template.estimatedDuration,
+          exercises: applyProgramWeek(baseExercises, week),
+          musclesTargeted: template.musclesTargeted,
+          notes: week.notes,
+          isCompleted: false,
+          programId: program.id,
+          programWeek: week.weekNumber,
+          programRunId: program.runId,
+        });
+        created++;
+      }
+    }
+
+    logger.info(`[trainingProgramService] Scheduled ${created} sessions for program ${program.id}`);
+    return created;
+  }
+
+  /**
+   * Sessions generated by the program's current run
+   */
+  private async getRunSessions(program: TrainingProgram): Promise<PlannedWorkout[]> {
+    const sessions = await this.getProgramSessions(program.id);
+    if (program.runId) {
+      return sessions.filter(s => s.programRunId === program.runId);
+    }
+    // Programs saved before runs were tracked only have their start date to go on
+    const programStart = startOfDay(new Date(program.startDate));
+    return sessions.filter(s => new Date(s.scheduledDate) >= programStart);
+  }
+
+  private async shiftSessions(program: TrainingProgram, days: number, from?: Date): Promise<void> {
+    const sessions = await this.getProgramSessions(program.id);
+    for (const session of sessions) {
+      const scheduledDate = new Date(session.scheduledDate);
+      if (session.isCompleted || (from && scheduledDate < from)) {
+        continue;
+      }
+      await plannedWorkoutService.updatePlannedWorkout(session.id, {
+        scheduledDate: addDays(scheduledDate, days),
+        scheduledTime: session.scheduledTime ? addDays(new Date(session.scheduledTime), days) : undefined,
+      });
+    }
+  }
+
+  private async removeIncompleteSessions(programId: string): Promise<void> {
+    const sessions = await this.getProgramSessions(programId);
+    for (const session of sessions) {
+      if (!session.isCompleted) {
+        await plannedWorkoutService.deletePlannedWorkout(session.id);
+      }
+    }
+  }
+
+  private async requireProgram(id: string): Promise<TrainingProgram> {
+    const program = await this.getProgram(id);
+    if (!program) {
+      throw new Error('Program not found');
+    }
+    return program;
+  }
+}
+
+export const trainingProgramService = new TrainingProgramService();
@@ -0,0 +1,490 @@
+import { isSameDay } from 'date-fns';
+import { Workout } from '@/types/workout';
+import { DistanceUnit, Exercise, WorkoutExercise, WorkoutSet } from '@/types/exercise';
+import { MuscleGroup } from '@/types/muscle';
+import { SleepLog } from '@/types/sleep';
+import { ProgressCallback } from '@/types/export';
+import {
+  HeartRateSample,
+  ParsedActivity,
+  ParsedWearableData,
+  StepSample,
+  WearableActivityType,
+  WearableImportResult,
+} from '@/types/wearable';
+import { exerciseLibrary } from './exerciseLibrary';
+import { dataService } from './dataService';
+import { sleepRecoveryService } from './sleepRecoveryService';
+import { createEmptyImportResult, createImportError } from './dataExport';
+import {
+  createAppleHealthParser,
+  createEmptyWearableData,
+  detectWearableSource,
+  mergeWearableData,
+  parseFitbitCsv,
+  parseFitbitJson,
+  parseGarminCsv,
+  parseGoogleFitJson,
+  parseGpx,
+  parseTcx,
+} from '@/utils/wearableParsers';
+import { parseFitFile } from '@/utils/fitFileParser';
+import {
+  WEARABLE_SOURCE_LABELS,
+  downsampleHeartRate,
+  isOverlapping,
+  sliceHeartRate,
+  sumSteps,
+  summarizeHeartRate,
+  toSleepLog,
+} from '@/utils/wearableHelpers';
+import { toCardioTrack } from '@/utils/cardioTrack';
+import { normalizeExerciseName } from '@/utils/exerciseSearch';
+import { calculateVolume } from '@/utils/calculations';
+import { logger } from '@/utils/logger';
+
+const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB
+const MAX_APPLE_HEALTH_SIZE = 4 * 1024 * 1024 * 1024; // export.xml is streamed, so it may be much larger
+const CHUNK_SIZE = 8 * 1024 * 1024;
+const HEAD_SIZE = 4096;
+const MIN_STANDALONE_HEART_RATE_SAMPLES = 5;
+const METERS_PER_MILE = 1609.344;
+
+interface CardioExerciseSpec {
+  names: string[]; // Library names to look for, first is used for a new custom exercise
+  primaryMuscles: MuscleGroup[];
+  secondaryMuscles: MuscleGroup[];
+}
+
+const LEG_CARDIO = {
+  primaryMuscles: [MuscleGroup.QUADS, MuscleGroup.CALVES],
+  secondaryMuscles: [MuscleGroup.HAMSTRINGS, MuscleGroup.GLUTES],
+};
+
+const CARDIO_EXERCISES: Record<WearableActivityType, CardioExerciseSpec> = {
+  running: { names: ['Running', 'Treadmill Running'], ...LEG_CARDIO },
+  cycling: { names: ['Cycling', 'Stationary Bike'], ...LEG_CARDIO },
+  walking: { names: ['Walking', 'Treadmill Walking'], ...LEG_CARDIO },
+  hiking: { names: ['Hiking'], ...LEG_CARDIO },
+  swimming: {
+    names: ['Swimming'],
+    primaryMuscles: [MuscleGroup.LATS, MuscleGroup.SHOULDERS],
+    secondaryMuscles: [MuscleGroup.BACK, MuscleGroup.TRICEPS],
+  },
+  rowing: {
+    names: ['Rowing Machine', 'Rowing Machine (Erg)', 'Rowing'],
+    primaryMuscles: [MuscleGroup.BACK, MuscleGroup.LATS],
+    secondaryMuscles: [MuscleGroup.QUADS, MuscleGroup.HAMSTRINGS, MuscleGroup.BICEPS],
+  },
+  elliptical: { names: ['Elliptical'], ...LEG_CARDIO },
+  other: { names: ['Other Cardio'], ...LEG_CARDIO },
+};
+
+function getWorkoutRange(workout: Workout): { start: Date; end: Date } {
+  const start = new Date(workout.startTime ?? workout.date);
+  const end = workout.endTime
+    ? new Date(workout.endTime)
+    : new Date(start.getTime() + (workout.totalDuration || 0) * 60000);
+  return { start, end };
+}
+
+function toDistanceUnit(meters: number | undefined, unit: DistanceUnit): number | undefined {
+  if (!meters) {
+    return undefined;
+  }
+  const distance = unit === 'miles' ? meters / METERS_PER_MILE : meters / 1000;
+  return Math.round(distance * 100) / 100;
+}
+
+function toCardioSet(activity: ParsedActivity, distanceUnit: DistanceUnit): WorkoutSet {
+  const seconds = Math.max(0, Math.round((activity.end.getTime() - activity.start.getTime()) / 1000));
+  const distance = toDistanceUnit(activity.distanceMeters, distanceUnit);
+  const series = downsampleHeartRate(activity.heartRate, activity.start);
+  return {
+    setNumber: 1,
+    distance,
+    distanceUnit: distance ? distanceUnit : undefined,
+    time: seconds,
+    calories: activity.calories ? Math.round(activity.calories) : undefined,
+    steps: activity.steps ? Math.round(activity.steps) : undefined,
+    heartRate: activity.averageHeartRate,
+    maxHeartRate: activity.maxHeartRate,
+    heartRateSeries: series.length > 0 ? series : undefined,
+    track: activity.track ? toCardioTrack(activity.track, activity.start) : undefined,
+    pace: distance ? Math.round(seconds / distance) : undefined,
+    completed: true,
+    setDuration: seconds,
+    setStartTime: activity.start,
+    setEndTime: activity.end,
+  };
+}
+
+/**
+ * Fill in wearable data the user did not enter by hand on the cardio sets of
+ * an existing workout. Returns the updated exercises, or null when nothing
+ * was added.
+ */
+function enrichWorkoutExercises(
+  workout: Workout,
+  heartRate: HeartRateSample[],
+  steps: StepSample[],
+  activity?: ParsedActivity
+): WorkoutExercise[] | null {
+  const range = getWorkoutRange(workout);
+  let changed = false;
+
+  const exercises = workout.exercises.map((exercise) => {
+    if (exercise.trackingType !== 'cardio') {
+      return exercise;
+    }
+    const cardioSets = exercise.sets.filter(set => set.completed);
+    const sets = exercise.sets.map((set) => {
+      if (!set.completed || (set.heartRateSeries?.length && set.track)) {
+        return set;
+      }
+      // Sets with their own timestamps get their own slice; otherwise the whole workout
+      const start = set.setStartTime && set.setEndTime ? new Date(set.setStartTime) : range.start;
+      const end = set.setStartTime && set.setEndTime ? new Date(set.setEndTime) : range.end;
+      const samples = sliceHeartRate(heartRate, start, end);
+      const summary = summarizeHeartRate(samples);
+      const series = downsampleHeartRate(samples, start);
+      const isOnlySet = cardioSets.length === 1;
+      const setSteps = steps.length > 0 ? sumSteps(steps, start, end) : 0;
+
+      const updated: WorkoutSet = {
+        ...set,
+        heartRate: set.heartRate ?? summary?.average ?? (isOnlySet ? activity?.averageHeartRate : undefined),
+        maxHeartRate: set.maxHeartRate ?? summary?.max ?? (isOnlySet ? activity?.maxHeartRate : undefined),
+        heartRateSeries: set.heartRateSeries?.length ? set.heartRateSeries : series.length > 0 ? series : undefined,
+        steps: set.steps ?? (setSteps || (isOnlySet ? activity?.steps : undefined)),
+        calories: set.calories ?? (isOnlySet ? activity?.calories : undefined),
+        track: set.track ?? (isOnlySet && activity?.track ? toCardioTrack(activity.track, start) : undefined),
+      };
+      if (
+        updated.heartRate !== set.heartRate ||
+        updated.maxHeartRate !== set.maxHeartRate ||
+        updated.heartRateSeries !== set.heartRateSeries ||
+        updated.steps !== set.steps ||
+        updated.calories !== set.calories ||
+        updated.track !== set.track
+      ) {
+        changed = true;
+        return updated;
+      }
+      return set;
+    });
+    return { ...exercise, sets };
+  });
+
+  return changed ? exercises : null;
+}
+
+/**
+ * Read a file as text in chunks, so large exports never have to fit in one string
+ */
+async function streamText(file: File, onChunk: (text: string) => void, onProgress?: (fraction: number) => void): Promise<void> {
+  const decoder = new TextDecoder();
+  for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+    const buffer = await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+    onChunk(decoder.decode(buffer, { stream: true }));
+    onProgress?.(Math.min(1, (offset + CHUNK_SIZE) / file.size));
+  }
+  onChunk(decoder.decode());
+}
+
+export const wearableImport = {
+  /**
+   * Read and parse wearable exports: Apple Health export.xml, Google Fit or
+   * Fitbit JSON, Fitbit or Garmin CSV, and TCX, GPX or FIT activity files.
+   * Files that cannot be read are reported as warnings.
+   */
+  async parseFiles(files: File[], distanceUnit: DistanceUnit, onProgress?: ProgressCallback): Promise<ParsedWearableData> {
+    const results: ParsedWearableData[] = [];
+    const warnings: string[] = [];
+
+    for (let index = 0; index < files.length; index++) {
+      const file = files[index];
+      const report = (fraction: number) => onProgress?.({
+        percentage: ((index + fraction) / files.length) * 100,
+        currentOperation: `Reading ${file.name}...`,
+        completedItems: index,
+        totalItems: files.length,
+      });
+      report(0);
+
+      try {
+        results.push(await this.parseFile(file, distanceUnit, report));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Could not read file';
+        warnings.push(`${file.name}: ${message}`);
+        logger.error('[wearableImport] Failed to parse file', { error, name: file.name });
+      }
+    }
+
+    const merged = mergeWearableData(results);
+    merged.warnings.unshift(...warnings);
+    if (results.length === 0) {
+      throw new Error(warnings[0] ?? 'No files selected');
+    }
+    return merged;
+  },
+
+  async parseFile(file: File, distanceUnit: DistanceUnit, onProgress?: (fraction: number) => void): Promise<ParsedWearableData> {
+    const head = await file.slice(0, HEAD_SIZE).text();
+    const source = detectWearableSource(file.name, head);
+    if (!source) {
+      if (file.name.toLowerCase().endsWith('.zip')) {
+        throw new Error('Unzip the export first and choose the files inside');
+      }
+      throw new Error('Unrecognised file format');
+    }
+
+    if (source === 'apple_health') {
+      if (file.size > MAX_APPLE_HEALTH_SIZE) {
+        throw new Error('File is too large. Maximum size is 4GB.');
+      }
+      const parser = createAppleHealthParser();
+      await streamText(file, chunk => parser.push(chunk), onProgress);
+      return parser.finish();
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      throw new Error('File is too large. Maximum size is 100MB.');
+    }
+
+    if (source === 'fit') {
+      const data = createEmptyWearableData();
+      data.sources.push('fit');
+      data.activities = parseFitFile(await file.arrayBuffer());
+      return data;
+    }
+
+    const text = await file.text();
+    switch (source) {
+      case 'tcx':
+        return parseTcx(text);
+      case 'gpx':
+        return parseGpx(text);
+      case 'garmin':
+        return parseGarminCsv(text, distanceUnit);
+      case 'google_fit':
+        return parseGoogleFitJson(JSON.parse(text));
+      case 'fitbit':
+        return file.name.toLowerCase().endsWith('.csv') || !/^\s*[[{]/.test(text)
+          ? parseFitbitCsv(text)
+          : parseFitbitJson(JSON.parse(text));
+    }
+  },
+
+  /**
+   * Find the library exercise for an activity type, creating a custom cardio
+   * exercise the first time one is missing
+   */
+  async resolveExercise(activityType: WearableActivityType, cache: Map<WearableActivityType, Exercise>): Promise<Exercise> {
+    const cached = cache.get(activityType);
+    if (cached) {
+      return cached;
+    }
+
+    const spec = CARDIO_EXERCISES[activityType];
+    const wanted = spec.names.map(normalizeExerciseName);
+    const exercises = await exerciseLibrary.getAllExercises();
+    let exercise = wanted
+      .map(name => exercises.find(candidate => normalizeExerciseName(candidate.name) === name))
+      .find((candidate): candidate is Exercise => !!candidate);
+
+    if (!exercise) {
+      const newExercise: Omit<Exercise, 'id' | 'isCustom'> = {
+        name: spec.names[0],
+        category: 'cardio',
+        primaryMuscles: spec.primaryMuscles,
+        secondaryMuscles: spec.secondaryMuscles,
+        equipment: [],
+        difficulty: 'beginner',
+        instructions: [],
+        trackingType: 'cardio',
+      };
+      const id = await exerciseLibrary.createCustomExercise(newExercise);
+      exercise = { ...newExercise, id, isCustom: true };
+    }
+
+    cache.set(activityType, exercise);
+    return exercise;
+  },
+
+  buildWorkout(userId: string, activity: ParsedActivity, exercise: Exercise, distanceUnit: DistanceUnit): Omit<Workout, 'id'> {
+    const sets = [toCardioSet(activity, distanceUnit)];
+    const totalVolume = calculateVolume(sets, exercise.trackingType, { exerciseName: exercise.name });
+    const label = WEARABLE_SOURCE_LABELS[activity.source];
+
+    return {
+      userId,
+      date: activity.start,
+      startTime: activity.start,
+      endTime: activity.end,
+      exercises: [{
+        id: `exercise-${activity.start.getTime()}-0`,
+        exerciseId: exercise.id,
+        exerciseName: exercise.name,
+        sets,
+        totalVolume,
+        musclesWorked: [...exercise.primaryMuscles, ...exercise.secondaryMuscles],
+        timestamp: activity.start,
+        trackingType: exercise.trackingType,
+      }],
+      totalDuration: Math.round((activity.end.getTime() - activity.start.getTime()) / 60000),
+      totalVolume,
+      musclesTargeted: exercise.primaryMuscles,
+      workoutType: 'cardio',
+      notes: activity.name && activity.name !== label
+        ? `${activity.name} - imported from ${label}`
+        : `Imported from ${label}`,
+    };
+  },
+
+  /**
+   * Save parsed wearable data. Sleep sessions overlapping an existing sleep
+   * log (or on the same night) are skipped. Activities overlapping an
+   * existing workout add heart rate, steps and calories to its cardio sets
+   * instead of creating a duplicate; the rest become cardio workouts.
+   * Heart-rate samples outside any activity are attached to overlapping
+   * cardio workouts already in the history.
+   */
+  async importData(
+    userId: string,
+    parsed: ParsedWearableData,
+    distanceUnit: DistanceUnit,
+    onProgress?: ProgressCallback
+  ): Promise<WearableImportResult> {
+    const result: WearableImportResult = { ...createEmptyImportResult(), enrichedWorkouts: 0 };
+    const total = parsed.sleep.length + parsed.activities.length + 1;
+    let completed = 0;
+    const report = (operation: string) => {
+      if (completed % 10 === 0) {
+        onProgress?.({
+          percentage: (completed / total) * 100,
+          currentOperation: operation,
+          completedItems: completed,
+          totalItems: total,
+        });
+      }
+    };
+
+    parsed.warnings.forEach((warning) => {
+      result.errors.push(createImportError('validation', 'wearableFile', warning));
+    });
+
+    // Sleep
+    const existingSleep: SleepLog[] = await sleepRecoveryService.getAllSleepLogs(userId);
+    for (const session of parsed.sleep) {
+      report(`Importing sleep ${completed + 1} of ${parsed.sleep.length}...`);
+      completed++;
+      const log = toSleepLog(userId, session, `Imported from ${parsed.sources.map(source => WEARABLE_SOURCE_LABELS[source]).join(', ')}`);
+      const isDuplicate = existingSleep.some(existing =>
+        isSameDay(new Date(existing.date), log.date) ||
+        isOverlapping(new Date(existing.bedtime), new Date(existing.wakeTime), session.start, session.end)
+      );
+      if (isDuplicate) {
+        result.details.sleepLogs.skipped++;
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        await sleepRecoveryService.saveSleepLog(log);
+        existingSleep.push(log);
+        result.details.sleepLogs.imported++;
+        result.imported++;
+      } catch (error) {
+        result.errors.push(createImportError('data', 'sleepLog', error, { recordName: log.date.toLocaleDateString() }));
+        result.details.sleepLogs.errors++;
+        logger.error('[wearableImport] Failed to import sleep log', { error, date: log.date });
+      }
+    }
+
+    // Activities
+    const workouts = await dataService.getAllWorkouts(userId);
+    const enrichedIds = new Set<string>();
+    const exerciseCache = new Map<WearableActivityType, Exercise>();
+
+    for (const activity of parsed.activities) {
+      report(`Importing activity ${completed - parsed.sleep.length + 1} of ${parsed.activities.length}...`);
+      completed++;
+      const recordName = activity.start.toLocaleString();
+
+      try {
+        const existing = workouts.find((workout) => {
+          const range = getWorkoutRange(workout);
+          return isOverlapping(range.start, range.end, activity.start, activity.end);
+        });
+
+        if (existing) {
+          const heartRate = activity.heartRate.length > 0 ? activity.heartRate : parsed.heartRate;
+          const exercises = existing.id && !enrichedIds.has(existing.id)
+            ? enrichWorkoutExercises(existing, heartRate, parsed.steps, activity)
+            : null;
+          if (existing.id && exercises) {
+            await dataService.updateWorkout(existing.id, { exercises });
+            existing.exercises = exercises;
+            enrichedIds.add(existing.id);
+            result.enrichedWorkouts++;
+          }
+          result.details.workouts.skipped++;
+          result.skipped++;
+          continue;
+        }
+
+        const exercise = await this.resolveExercise(activity.activityType, exerciseCache);
+        const workout = this.buildWorkout(userId, activity, exercise, distanceUnit);
+        const id = await dataService.createWorkout(workout);
+        workouts.push({ ...workout, id });
+        enrichedIds.add(id);
+        result.details.workouts.imported++;
+        result.imported++;
+      } catch (error) {
+        result.errors.push(createImportError('data', 'workout', error, { recordName }));
+        result.details.workouts.errors++;
+        logger.error('[wearableImport] Failed to import activity', { error, start: activity.start });
+      }
+    }
+
+    // Heart rate recorded outside any activity in the files
+    if (parsed.heartRate.length >= MIN_STANDALONE_HEART_RATE_SAMPLES) {
+      report('Attaching heart rate to cardio workouts...');
+      const first = parsed.heartRate[0].time;
+      const last = parsed.heartRate[parsed.heartRate.length - 1].time;
+
+      for (const workout of workouts) {
+        const range = getWorkoutRange(workout);
+        if (!workout.id || enrichedIds.has(workout.id) || range.end < first || range.start > last) {
+          continue;
+        }
+        if (sliceHeartRate(parsed.heartRate, range.start, range.end).length < MIN_STANDALONE_HEART_RATE_SAMPLES) {
+          continue;
+        }
+        try {
+          const exercises = enrichWorkoutExercises(workout, parsed.heartRate, parsed.steps);
+          if (exercises) {
+            await dataService.updateWorkout(workout.id, { exercises });
+            enrichedIds.add(workout.id);
+            result.enrichedWorkouts++;
+          }
+        } catch (error) {
+          result.errors.push(createImportError('data', 'workout', error, {
+            recordName: range.start.toLocaleString(),
+          }));
+          logger.error('[wearableImport] Failed to attach heart rate', { error, workoutId: workout.id });
+        }
+      }
+    }
+
+    onProgress?.({
+      percentage: 100,
+      currentOperation: 'Import complete',
+      completedItems: total,
+      totalItems: total,
+    });
+
+    return result;
+  },
+};
@@ -56,6 +56,38 @@ export const workoutHistoryService = {
     return null;
   },
 
+  /**
+   * Get the most recent workouts containing an exercise, newest first
+   */
+  async getRecentSessionsForExercise(
+    userId: string,
+    exerciseId: string,
+    limit: number = 3
+  ): Promise<PreviousWorkoutData[]> {
+    const workouts = await dataService.getAllWorkouts(userId);
+    const sessions: PreviousWorkoutData[] = [];
+
+    for (const workout of workouts) {
+      if (sessions.length >= limit) {
+        break;
+      }
+      const exercise = workout.exercises.find(
+        (ex) => ex.exerciseId === exerciseId
+      );
+      if (exercise && exercise.sets.length > 0) {
+        sessions.push({
+          workoutId: String(workout.id || ''),
+          date: workout.date,
+          sets: exercise.sets,
+          totalVolume: exercise.totalVolume,
+          exerciseName: exercise.exerciseName,
+        });
+      }
+    }
+
+    return sessions;
+  },
+
   /**
    * Get best performance for an exercise
    */
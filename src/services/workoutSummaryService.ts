@@ -16,13 +16,26 @@ import { rpeService } from './rpeService';
 import { workoutHistoryService } from './workoutHistoryService';
 import { dataService } from './dataService';
 import { aggregateVolumeByMuscleGroup } from '@/utils/analyticsHelpers';
-import { calculateEstimatedOneRepMax } from '@/utils/calculations';
+import { findBestEfforts } from '@/utils/cardioTrack';
+import { countsForRecords, getWorkingSets } from '@/utils/setTypes';
+import {
+  convertWeight,
+  estimateOneRepMax,
+  DEFAULT_ONE_REP_MAX_FORMULA,
+  OneRepMaxFormula,
+  REP_MAX_TARGETS,
+} from '@/utils/calculations';
+import { WorkoutSet } from '@/types/exercise';
 
 export const workoutSummaryService = {
   /**
    * Generate complete workout summary data
    */
-  async generateSummary(workoutId: string, userId: string): Promise<WorkoutSummaryData> {
+  async generateSummary(
+    workoutId: string,
+    userId: string,
+    oneRepMaxFormula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA
+  ): Promise<WorkoutSummaryData> {
     const workout = await dataService.getWorkout(workoutId);
     if (!workout) {
       throw new Error('Workout not found');
@@ -65,7 +78,7 @@ export const workoutSummaryService = {
     const muscleDistribution = this.calculateMuscleDistribution(workout, previousWorkout);
     const exerciseComparisons = await this.calculateExerciseComparisons(workout, userId);
     const exerciseTrends = this.calculateExerciseTrends(workout, allWorkouts);
-    const personalRecords = this.calculatePersonalRecords(workout, allWorkouts);
+    const personalRecords = this.calculatePersonalRecords(workout, allWorkouts, oneRepMaxFormula);
     const workoutRating = this.calculateWorkoutRating(
       workout,
       previousWorkout,
@@ -361,7 +374,7 @@ export const workoutSummaryService = {
       // Calculate estimated 1RM from best set
       const estimated1RM =
         bestSet?.weight && bestSet?.reps
-          ? calculateEstimatedOneRepMax(bestSet.weight, bestSet.reps)
+          ? estimateOneRepMax(bestSet.weight, bestSet.reps)
           : undefined;
 
       const previousVolume = previousData?.totalVolume ?? 0;
@@ -412,7 +425,7 @@ export const workoutSummaryService = {
         if (!ex) {
     return null;
   }
-        const completedSets = (ex.sets ?? []).filter((s) => s.completed);
+        const completedSets = getWorkingSets(ex.sets ?? []);
         const maxWeight = completedSets.length > 0 ? Math.max(
           ...completedSets.map((s) => s.weight ?? 0),
           0
@@ -428,7 +441,7 @@ export const workoutSummaryService = {
       }).filter((dp): dp is NonNullable<typeof dp> => dp !== null);
 
       // Add current workout
-      const completedSets = (exercise.sets ?? []).filter((s) => s.completed);
+      const completedSets = getWorkingSets(exercise.sets ?? []);
       const maxWeight = completedSets.length > 0 ? Math.max(...completedSets.map((s) => s.weight ?? 0), 0) : 0;
       const maxReps = completedSets.length > 0 ? Math.max(...completedSets.map((s) => s.reps ?? 0), 0) : 0;
       dataPoints.push({
@@ -487,7 +500,11 @@ export const workoutSummaryService = {
   /**
    * Calculate personal records achieved in this workout
    */
-  calculatePersonalRecords(workout: Workout, allWorkouts: Workout[]): PersonalRecord[] {
+  calculatePersonalRecords(
+    workout: Workout,
+    allWorkouts: Workout[],
+    oneRepMaxFormula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA
+  ): PersonalRecord[] {
     const records: PersonalRecord[] = [];
     const previousWorkouts = (allWorkouts ?? []).filter((w) => {
       const wDate = new Date(w.date);
@@ -495,42 +512,109 @@ export const workoutSummaryService = {
       return wDate < currentDate && w.id !== workout.id;
     });
 
+    // Loaded sets in kg so sessions logged in different units compare fairly
+    const getLoadedSets = (sets: WorkoutSet[] | undefined) =>
+      (sets ?? []).flatMap((s) =>
+        s.completed && s.weight && s.reps && countsForRecords(s)
+          ? [{ weight: convertWeight(s.weight, s.unit ?? 'kg', 'kg'), reps: s.reps, rpe: s.rpe }]
+          : []
+      );
+
     (workout.exercises ?? []).forEach((exercise) => {
-      const completedSets = (exercise.sets ?? []).filter((s) => s.completed);
+      const currentSets = getLoadedSets(exercise.sets);
+      const previousSets = previousWorkouts.flatMap((w) =>
+        getLoadedSets((w.exercises ?? []).find((e) => e.exerciseId === exercise.exerciseId)?.sets)
+      );
 
-      // Check for 1RM PR
-      completedSets.forEach((set) => {
-        if (set.weight && set.reps) {
-          const estimated1RM = calculateEstimatedOneRepMax(set.weight, set.reps);
+      // Check for estimated 1RM PR (best set of the session)
+      const bestEstimate = (sets: typeof currentSets) =>
+        Math.max(0, ...sets.map((s) => estimateOneRepMax(s.weight, s.reps, oneRepMaxFormula, s.rpe)));
+      const estimated1RM = bestEstimate(currentSets);
+      const previousMax1RM = bestEstimate(previousSets);
 
-          // Find previous max 1RM for this exercise
-          let previousMax1RM = 0;
-          previousWorkouts.forEach((w) => {
-            const prevEx = (w.exercises ?? []).find((e) => e.exerciseId === exercise.exerciseId);
-            if (prevEx) {
-              (prevEx.sets ?? [])
-                .filter((s) => s.completed && s.weight && s.reps)
-                .forEach((s) => {
-                  const prev1RM = calculateEstimatedOneRepMax(s.weight!, s.reps!);
-                  if (prev1RM > previousMax1RM) {previousMax1RM = prev1RM;}
-                });
-            }
+      if (estimated1RM > previousMax1RM && previousMax1RM > 0) {
+        records.push({
+          type: '1rm',
+          exerciseId: exercise.exerciseId,
+          exerciseName: exercise.exerciseName,
+          value: estimated1RM,
+          unit: 'kg',
+          previousValue: previousMax1RM,
+          workoutId: workout.id!,
+          date: new Date(workout.date),
+        });
+      }
+
+      // Check for rep-max PRs: heaviest weight moved for at least N reps
+      const heaviestFor = (sets: typeof currentSets, reps: number) =>
+        Math.max(0, ...sets.filter((s) => s.reps >= reps).map((s) => s.weight));
+      const repMaxRecords: PersonalRecord[] = [];
+      REP_MAX_TARGETS.forEach((reps) => {
+        const best = heaviestFor(currentSets, reps);
+        const previousBest = heaviestFor(previousSets, reps);
+        if (best > previousBest && previousBest > 0) {
+          repMaxRecords.push({
+            type: 'rep_max',
+            reps,
+            exerciseId: exercise.exerciseId,
+            exerciseName: exercise.exerciseName,
+            value: best,
+            unit: 'kg',
+            previousValue: previousBest,
+            workoutId: workout.id!,
+            date: new Date(workout.date),
           });
+        }
+      });
+      // A single heavy set can beat several lower rep targets at the same load;
+      // only report the highest rep count it achieved
+      records.push(
+        ...repMaxRecords.filter(
+          (record) => !repMaxRecords.some((other) => (other.reps ?? 0) > (record.reps ?? 0) && other.value === record.value)
+        )
+      );
 
-          if (estimated1RM > previousMax1RM && previousMax1RM > 0) {
+      // Check for best-effort PRs: fastest 1K, mile, 5K... within any tracked cardio set
+      if (exercise.trackingType === 'cardio') {
+        const fastestEfforts = (sets: WorkoutSet[] | undefined) => {
+          const fastest = new Map<number, { time: number; label: string }>();
+          (sets ?? []).forEach((s) => {
+            if (!s.completed || !s.track) {
+              return;
+            }
+            findBestEfforts(s.track).forEach((effort) => {
+              const current = fastest.get(effort.distance);
+              if (!current || effort.time < current.time) {
+                fastest.set(effort.distance, { time: effort.time, label: effort.label });
+              }
+            });
+          });
+          return fastest;
+        };
+        const currentEfforts = fastestEfforts(exercise.sets);
+        const previousEfforts = fastestEfforts(
+          previousWorkouts.flatMap((w) =>
+            (w.exercises ?? []).filter((e) => e.exerciseId === exercise.exerciseId).flatMap((e) => e.sets ?? [])
+          )
+        );
+        currentEfforts.forEach((effort, distance) => {
+          const previous = previousEfforts.get(distance);
+          if (previous && effort.time < previous.time) {
             records.push({
-              type: '1rm',
+              type: 'best_effort',
+              distance,
+              label: effort.label,
               exerciseId: exercise.exerciseId,
               exerciseName: exercise.exerciseName,
-              value: estimated1RM,
-              unit: 'kg',
-              previousValue: previousMax1RM,
+              value: effort.time,
+              unit: 's',
+              previousValue: previous.time,
               workoutId: workout.id!,
               date: new Date(workout.date),
             });
           }
-        }
-      });
+        });
+      }
 
       // Check for volume PR
       const previousMaxVolume = previousWorkouts.length > 0 ? Math.max(
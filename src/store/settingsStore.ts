@@ -1,5 +1,16 @@
 import { create } from 'zustand';
 import { dataService } from '@/services/dataService';
+import type { ProgressionRuleType } from '@/utils/progressionEngine';
+import { DEFAULT_ONE_REP_MAX_FORMULA, OneRepMaxFormula } from '@/utils/calculations';
+import type { ProgressPhotoPrivacy } from '@/types/progressPhoto';
+import type { AIProviderSettings } from '@/types/ai';
+import type { WarmupScheme } from '@/utils/warmupGenerator';
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // 'HH:mm', local time
+  end: string; // 'HH:mm', local time; earlier than start when quiet hours span midnight
+}
 
 interface AppSettings {
   theme: 'light' | 'dark' | 'system';
@@ -14,7 +25,22 @@ interface AppSettings {
   workoutReminderEnabled: boolean;
   workoutReminderMinutes: number; // 15, 30, 60, or custom
   muscleRecoveryAlertsEnabled: boolean;
+  inactivityNudgesEnabled: boolean; // Nudge after a few days without a logged workout
   notificationPermission: NotificationPermission;
+  quietHours: QuietHours; // Server-sent notifications are held back during these hours
+  timeZone: string; // IANA zone of the user's device, used to schedule server-sent notifications
+  // Progression preferences
+  progressionEnabled: boolean;
+  progressionRules: Record<string, ProgressionRuleType>; // Per-exercise rule overrides, keyed by exerciseId
+  oneRepMaxFormula: OneRepMaxFormula; // Formula used for e1RM charts and PRs
+  // Warm-ups
+  autoWarmupSets: boolean; // Insert a warm-up ramp before the first working set
+  warmupSchemes: Record<string, WarmupScheme | 'off'>; // Per-exercise overrides, keyed by exerciseId
+  // Privacy
+  progressPhotoPrivacy: ProgressPhotoPrivacy; // 'device' keeps progress photos off the cloud
+  // AI
+  aiProvider: AIProviderSettings; // Backend for insights; API keys stay in the environment
+  availableWorkoutMinutes: number; // Time budget for recommended workouts, rest included
 }
 
 interface SettingsState {
@@ -36,7 +62,26 @@ interface SettingsState {
   setWorkoutReminderEnabled: (enabled: boolean) => Promise<void>;
   setWorkoutReminderMinutes: (minutes: number) => Promise<void>;
   setMuscleRecoveryAlertsEnabled: (enabled: boolean) => Promise<void>;
+  setInactivityNudgesEnabled: (enabled: boolean) => Promise<void>;
+  setQuietHours: (quietHours: Partial<QuietHours>) => Promise<void>;
   setNotificationPermission: (permission: NotificationPermission) => Promise<void>;
+  // Progression settings
+  setProgressionEnabled: (enabled: boolean) => Promise<void>;
+  setExerciseProgressionRule: (exerciseId: string, rule: ProgressionRuleType | null) => Promise<void>;
+  setOneRepMaxFormula: (formula: OneRepMaxFormula) => Promise<void>;
+  setAutoWarmupSets: (enabled: boolean) => Promise<void>;
+  setExerciseWarmupScheme: (exerciseId: string, scheme: WarmupScheme | 'off' | null) => Promise<void>;
+  setProgressPhotoPrivacy: (privacy: ProgressPhotoPrivacy) => Promise<void>;
+  setAIProvider: (aiProvider: AIProviderSettings) => Promise<void>;
+  setAvailableWorkoutMinutes: (minutes: number) => Promise<void>;
+}
+
+export function getDeviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
 }
 
 const DEFAULT_SETTINGS: AppSettings = {
@@ -51,7 +96,18 @@ const DEFAULT_SETTINGS: AppSettings = {
   workoutReminderEnabled: true,
   workoutReminderMinutes: 30,
   muscleRecoveryAlertsEnabled: true,
+  inactivityNudgesEnabled: true,
   notificationPermission: 'default',
+  quietHours: { enabled: false, start: '22:00', end: '07:00' },
+  timeZone: getDeviceTimeZone(),
+  progressionEnabled: true,
+  progressionRules: {},
+  oneRepMaxFormula: DEFAULT_ONE_REP_MAX_FORMULA,
+  autoWarmupSets: true,
+  warmupSchemes: {},
+  progressPhotoPrivacy: 'device',
+  aiProvider: { type: 'gemini' },
+  availableWorkoutMinutes: 60,
 };
 
 export const useSettingsStore = create<SettingsState>((set, get) => ({
@@ -151,8 +207,60 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
     await get().updateSettings({ muscleRecoveryAlertsEnabled: enabled });
   },
 
+  setInactivityNudgesEnabled: async (enabled: boolean) => {
+    await get().updateSettings({ inactivityNudgesEnabled: enabled });
+  },
+
+  setQuietHours: async (quietHours: Partial<QuietHours>) => {
+    await get().updateSettings({ quietHours: { ...get().settings.quietHours, ...quietHours } });
+  },
+
   setNotificationPermission: async (permission: NotificationPermission) => {
     await get().updateSettings({ notificationPermission: permission });
   },
+
+  setProgressionEnabled: async (enabled: boolean) => {
+    await get().updateSettings({ progressionEnabled: enabled });
+  },
+
+  setExerciseProgressionRule: async (exerciseId: string, rule: ProgressionRuleType | null) => {
+    const progressionRules = { ...get().settings.progressionRules };
+    if (rule) {
+      progressionRules[exerciseId] = rule;
+    } else {
+      delete progressionRules[exerciseId];
+    }
+    await get().updateSettings({ progressionRules });
+  },
+
+  setOneRepMaxFormula: async (formula: OneRepMaxFormula) => {
+    await get().updateSettings({ oneRepMaxFormula: formula });
+  },
+
+  setAutoWarmupSets: async (enabled: boolean) => {
+    await get().updateSettings({ autoWarmupSets: enabled });
+  },
+
+  setExerciseWarmupScheme: async (exerciseId: string, scheme: WarmupScheme | 'off' | null) => {
+    const warmupSchemes = { ...get().settings.warmupSchemes };
+    if (scheme) {
+      warmupSchemes[exerciseId] = scheme;
+    } else {
+      delete warmupSchemes[exerciseId];
+    }
+    await get().updateSettings({ warmupSchemes });
+  },
+
+  setProgressPhotoPrivacy: async (privacy: ProgressPhotoPrivacy) => {
+    await get().updateSettings({ progressPhotoPrivacy: privacy });
+  },
+
+  setAIProvider: async (aiProvider: AIProviderSettings) => {
+    await get().updateSettings({ aiProvider });
+  },
+
+  setAvailableWorkoutMinutes: async (minutes: number) => {
+    await get().updateSettings({ availableWorkoutMinutes: Math.max(15, Math.min(180, minutes)) });
+  },
 }));
 
@@ -3,11 +3,13 @@ import { dataService } from '@/services/dataService';
 import { userContextManager } from '@/services/userContextManager';
 import { logger } from '@/utils/logger';
 import { notificationService } from '@/services/notificationService';
+import { EquipmentInventory } from '@/types/equipment';
 
 export type ExperienceLevel = 'beginner' | 'intermediate' | 'advanced';
 export type Goal = 'build_muscle' | 'gain_strength' | 'lose_fat' | 'improve_endurance' | 'general_fitness';
 export type Gender = 'male' | 'female' | 'other';
 export type UnitSystem = 'metric' | 'imperial';
+export type HeartRateZoneMethod = 'age' | 'max_hr' | 'lactate_threshold';
 
 export interface UserProfile {
   id: string;
@@ -16,6 +18,7 @@ export interface UserProfile {
   experienceLevel: ExperienceLevel;
   goals: Goal[];
   equipment: string[];
+  equipmentInventory?: EquipmentInventory; // Bars, plates, dumbbells and machine stacks the user can load
   workoutFrequency: number; // days per week
   preferredUnit: 'kg' | 'lbs';
   defaultRestTime: number; // seconds
@@ -23,8 +26,13 @@ export interface UserProfile {
   gender?: Gender;
   weight?: number; // stored in kg
   height?: number; // stored in cm
+  maxHeartRate?: number; // Measured max HR in BPM, overrides the age estimate
+  restingHeartRate?: number; // BPM, used for TRIMP
+  lactateThresholdHeartRate?: number; // BPM, for lactate threshold zones
+  heartRateZoneMethod?: HeartRateZoneMethod; // Defaults to the most specific value entered
   profilePicture?: string; // Supabase Storage URL or base64 data URL (for backward compatibility)
   hasCompletedOnboarding?: boolean; // Track if user has completed onboarding flow
+  fcmTokens?: string[]; // Push tokens for the user's devices, read by the notification Cloud Function
   version?: number; // For optimistic locking
   deletedAt?: Date | null; // Soft delete timestamp
 }
@@ -41,6 +49,7 @@ interface UserState {
   setExperienceLevel: (level: ExperienceLevel) => Promise<void>;
   setGoals: (goals: Goal[]) => Promise<void>;
   setEquipment: (equipment: string[]) => Promise<void>;
+  setEquipmentInventory: (inventory: EquipmentInventory) => Promise<void>;
   setWorkoutFrequency: (frequency: number) => Promise<void>;
   setPreferredUnit: (unit: 'kg' | 'lbs') => Promise<void>;
   setDefaultRestTime: (seconds: number) => Promise<void>;
@@ -247,6 +256,10 @@ export const useUserStore = create<UserState>((set, get) => ({
     await get().updateProfile({ equipment });
   },
 
+  setEquipmentInventory: async (inventory: EquipmentInventory) => {
+    await get().updateProfile({ equipmentInventory: inventory });
+  },
+
   setWorkoutFrequency: async (frequency: number) => {
     await get().updateProfile({ workoutFrequency: frequency });
   },
@@ -1,10 +1,11 @@
 import { create } from 'zustand';
-import { Workout } from '@/types/workout';
+import { Workout, WorkoutTemplate } from '@/types/workout';
 import { WorkoutExercise, WorkoutSet } from '@/types/exercise';
 import { dataService } from '@/services/dataService';
 import { templateService } from '@/services/templateService';
 import { muscleRecoveryService } from '@/services/muscleRecoveryService';
 import { plannedWorkoutService } from '@/services/plannedWorkoutService';
+import { bodyMeasurementService } from '@/services/bodyMeasurementService';
 import { saveWorkoutState, loadWorkoutState, clearWorkoutState } from '@/utils/workoutStatePersistence';
 import { saveFailedWorkout } from '@/utils/workoutErrorRecovery';
 import { calculateVolume, convertWeight } from '@/utils/calculations';
@@ -12,6 +13,58 @@ import { userContextManager } from '@/services/userContextManager';
 import { normalizeWorkoutTimes } from '@/utils/validators';
 import { logger } from '@/utils/logger';
 import { notificationService } from '@/services/notificationService';
+import { snapToAvailableLoad } from '@/utils/plateCalculator';
+import { getBestOneRepMaxes } from '@/utils/templatePrescriptions';
+
+/**
+ * Snap template target weights to loads the user can build with their equipment
+ */
+async function snapExerciseLoads(exercises: WorkoutExercise[]): Promise<WorkoutExercise[]> {
+  const { useUserStore } = await import('./userStore');
+  const { exerciseLibrary } = await import('@/services/exerciseLibrary');
+  const inventory = useUserStore.getState().profile?.equipmentInventory;
+
+  return Promise.all(
+    exercises.map(async (exercise) => {
+      const details = await exerciseLibrary.getExerciseById(exercise.exerciseId).catch(() => undefined);
+      if (!details || details.trackingType !== 'weight_reps') {
+        return exercise;
+      }
+      const sets = exercise.sets.map((set) =>
+        set.weight
+          ? { ...set, weight: snapToAvailableLoad(set.weight, set.unit ?? 'kg', details.equipment, inventory) }
+          : set
+      );
+      return {
+        ...exercise,
+        sets,
+        totalVolume: calculateVolume(sets, details.trackingType),
+      };
+    })
+  );
+}
+
+/**
+ * Best estimated 1RM for each template exercise that has percentage targets
+ * but no training max, from the loaded workout history. In kg, the unit
+ * templates and their training maxes are written in.
+ */
+async function getOneRepMaxesForTemplate(template: WorkoutTemplate): Promise<Record<string, number>> {
+  const needsOneRepMax = template.exercises.some((exercise) =>
+    exercise.trainingMax === undefined &&
+    (exercise.percentOneRepMax !== undefined || exercise.setData?.some((set) => set.percentOneRepMax !== undefined))
+  );
+  if (!needsOneRepMax) {
+    return {};
+  }
+
+  const { useSettingsStore } = await import('./settingsStore');
+  return getBestOneRepMaxes(
+    useWorkoutStore.getState().workouts,
+    'kg',
+    useSettingsStore.getState().settings.oneRepMaxFormula
+  );
+}
 
 interface RemoveExerciseResult {
   dissolved: boolean;
@@ -31,6 +84,7 @@ interface WorkoutState {
   startWorkout: (userId: string) => Promise<void>;
   startWorkoutFromTemplate: (templateId: string) => Promise<void>;
   startWorkoutFromPlanned: (plannedWorkoutId: string) => Promise<void>;
+  startWorkoutFromExercises: (userId: string, exercises: WorkoutExercise[], workoutType: string) => Promise<void>;
   addExercise: (exercise: WorkoutExercise) => void;
   updateExercise: (exerciseId: string, updates: Partial<WorkoutExercise>) => void;
   removeExercise: (exerciseId: string) => RemoveExerciseResult;
@@ -45,12 +99,30 @@ interface WorkoutState {
   setWorkoutTimerStartTime: (startTime: Date | null) => void;
 }
 
+/**
+ * Latest logged bodyweight (kg) for a workout starting now.
+ * Lookup failures just fall back to the profile weight.
+ */
+const getLoggedBodyweight = async (userId: string, date: Date): Promise<number | undefined> => {
+  try {
+    return await bodyMeasurementService.getBodyweightAt(userId, date);
+  } catch (error) {
+    logger.warn('[workoutStore] Failed to load logged bodyweight:', error);
+    return undefined;
+  }
+};
+
 /**
  * Helper function to get user bodyweight in kg for volume calculations
+ * Prefers the bodyweight logged for the workout, then falls back to the profile weight
  * Returns bodyweight in kg, converting from lbs if necessary
  * Returns undefined if user weight is not available
  */
-const getUserBodyweightInKg = (): number | undefined => {
+const getUserBodyweightInKg = (workout?: Workout | null): number | undefined => {
+  if (workout?.bodyweight) {
+    return workout.bodyweight;
+  }
+
   try {
     // Dynamic import is needed since userStore and workoutStore import each other
     // Using require to avoid circular dependency issues
@@ -104,6 +176,7 @@ export const useWorkoutStore = create<WorkoutState>((set, get) => ({
       totalVolume: 0,
       musclesTargeted: [],
       workoutType: 'custom',
+      bodyweight: await getLoggedBodyweight(userId, now),
     };
     set({ currentWorkout: workout, error: null, templateId: null });
     saveWorkoutState({ version: 1, currentWorkout: workout, templateId: null, plannedWorkoutId: null });
@@ -117,7 +190,9 @@ export const useWorkoutStore = create<WorkoutState>((set, get) => ({
       }
 
       const now = new Date();
-      const exercises = templateService.convertTemplateToWorkoutExercises(template);
+      const exercises = await snapExerciseLoads(
+        templateService.convertTemplateToWorkoutExercises(template, await getOneRepMaxesForTemplate(template))
+      );
       const totalVolume = exercises.reduce((sum, ex) => sum + (ex.totalVolume ?? 0), 0);
 
       const workout: Workout = {
@@ -129,6 +204,7 @@ export const useWorkoutStore = create<WorkoutState>((set, get) => ({
         totalVolume,
         musclesTargeted: template.musclesTargeted ?? [],
         workoutType: template.category,
+        bodyweight: await getLoggedBodyweight(template.userId, now),
       };
 
       set({ currentWorkout: workout, error: null, templateId: templateId, plannedWorkoutId: null });
@@ -213,6 +289,7 @@ export const useWorkoutStore = create<WorkoutState>((set, get) => ({
           totalVolume,
           musclesTargeted: allMuscles,
           workoutType: plannedWorkout.category ?? 'custom',
+          bodyweight: await getLoggedBodyweight(plannedWorkout.userId, now),
         };
 
         set({ currentWorkout: workout, error: null, templateId: null, plannedWorkoutId: plannedWorkoutId });
@@ -226,6 +303,24 @@ export const useWorkoutStore = create<WorkoutState>((set, get) => ({
     }
   },
 
+  startWorkoutFromExercises: async (userId: string, exercises: WorkoutExercise[], workoutType: string) => {
+    const now = new Date();
+    const snapped = await snapExerciseLoads(exercises);
+    const workout: Workout = {
+      userId,
+      date: now,
+      startTime: now,
+      exercises: snapped,
+      totalDuration: 0,
+      totalVolume: snapped.reduce((sum, ex) => sum + (ex.totalVolume ?? 0), 0),
+      musclesTargeted: Array.from(new Set(snapped.flatMap((ex) => ex.musclesWorked ?? []))),
+      workoutType,
+      bodyweight: await getLoggedBodyweight(userId, now),
+    };
+    set({ currentWorkout: workout, error: null, templateId: null, plannedWorkoutId: null });
+    saveWorkoutState({ version: 1, currentWorkout: workout, templateId: null, plannedWorkoutId: null });
+  },
+
   addExercise: (exercise: WorkoutExercise) => {
     const { currentWorkout } = get();
     if (!currentWorkout) {
@@ -347,7 +442,7 @@ export const useWorkoutStore = create<WorkoutState>((set, get) => ({
   }
 
     // FIX: Get user bodyweight for accurate bodyweight exercise volume calculation
-    const userBodyweight = getUserBodyweightInKg();
+    const userBodyweight = getUserBodyweightInKg(currentWorkout);
 
     const exercises = (currentWorkout.exercises ?? []).map((ex) => {
       if (ex.id === exerciseId) {
@@ -384,7 +479,7 @@ export const useWorkoutStore = create<WorkoutState>((set, get) => ({
   }
 
     // FIX: Get user bodyweight for accurate bodyweight exercise volume calculation
-    const userBodyweight = getUserBodyweightInKg();
+    const userBodyweight = getUserBodyweightInKg(currentWorkout);
 
     const exercises = (currentWorkout.exercises ?? []).map((ex) => {
       if (ex.id === exerciseId) {
@@ -423,7 +518,7 @@ export const useWorkoutStore = create<WorkoutState>((set, get) => ({
   }
 
     // FIX: Get user bodyweight for accurate bodyweight exercise volume calculation
-    const userBodyweight = getUserBodyweightInKg();
+    const userBodyweight = getUserBodyweightInKg(currentWorkout);
 
     const exercises = (currentWorkout.exercises ?? []).map((ex) => {
       if (ex.id === exerciseId) {
@@ -295,6 +295,40 @@ async function showMuscleRecoveryNotification(notification: any): Promise<void>
     }
 }
 
+// Push handler for notifications sent by the notification Cloud Function.
+// Messages are data-only so they are shown the same way as local ones.
+self.addEventListener('push', (event: PushEvent) => {
+    let payload: { data?: Record<string, string>; notification?: Record<string, string> } | null = null;
+    try {
+        payload = event.data?.json() ?? null;
+    } catch {
+        return;
+    }
+
+    const message = payload?.data ?? payload?.notification;
+    if (!message?.title) {
+        return;
+    }
+
+    const options: NotificationOptions = {
+        body: message.body,
+        icon: '/assets/img/FitTrackAI_Iconv2.jpg',
+        badge: '/assets/img/FitTrackAI_Iconv2.jpg',
+        tag: message.tag,
+        requireInteraction: false,
+        data: {
+            type: message.type,
+            url: message.url || '/',
+        },
+    };
+
+    event.waitUntil(
+        self.registration.showNotification(message.title, options).catch((error) => {
+            console.error('[SW] Failed to show push notification:', error);
+        })
+    );
+});
+
 // Notification click handler
 self.addEventListener('notificationclick', (event: NotificationEvent) => {
     event.notification.close();
@@ -819,7 +853,7 @@ function categorizeMuscleGroupSW(muscle: MuscleGroup): 'legs' | 'push' | 'pull'
     return 'legs';
 }
 
-// Calculate recovery predictions for the next 7 days (duplicated from aiService.ts for SW context)
+// Calculate recovery predictions for the next 7 days (duplicated from advancedRecoveryModeling.ts for SW context)
 function calculateRecoveryPredictionsSW(
     muscleStatuses: MuscleStatus[],
     userLevel: 'beginner' | 'intermediate' | 'advanced',
@@ -0,0 +1,191 @@
+import { PlannedExercise, Workout } from './workout';
+import { MuscleStatus } from './muscle';
+import { PersonalRecord } from './analytics';
+import { WorkoutRecommendationConstraints } from './insights';
+import { HeartRateSettings } from './cardio';
+import type { WorkoutPatternAnalysis, WorkoutRecommendation as PatternRecommendation } from '@/services/workoutAnalysisService';
+
+/**
+ * Backends that can answer AI requests. 'rule-based' runs entirely on the
+ * device and never needs a network connection or API key.
+ */
+export type AIProviderType = 'gemini' | 'openai-compatible' | 'rule-based';
+
+export interface AIProviderSettings {
+  type: AIProviderType;
+  baseUrl?: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for Ollama
+  model?: string; // Overrides the provider's default model
+}
+
+export interface AIAnalysisContext {
+  recentWorkouts: Workout[];
+  muscleStatuses: MuscleStatus[];
+  userGoals: string[];
+  userLevel: string;
+  weakPoints: string[];
+  progressTrends: Record<string, unknown>;
+  personalRecords?: PersonalRecord[];
+  consistencyScore?: number;
+  volumeTrend?: Array<{ date: string; totalVolume: number }>;
+  readinessScore?: number;
+  symmetryScore?: number;
+  focusDistribution?: { legs: number; push: number; pull: number };
+  workoutCount?: number;
+  currentStreak?: number;
+  equipment?: string[];
+  workoutFrequency?: number;
+  patternAnalysis?: WorkoutPatternAnalysis;
+  recommendationContext?: PatternRecommendation;
+}
+
+export type EmptyStateScreen = 'Home' | 'Analytics' | 'Insights' | 'History' | 'Templates';
+
+/**
+ * The data behind each AI task. Remote providers only read the prompt built
+ * from it; the rule-based provider computes its answer from the data directly.
+ */
+export type AITaskInput =
+  | { task: 'workout-insights'; context: AIAnalysisContext }
+  | {
+      task: 'progress-insight';
+      totalVolume: number;
+      workoutCount: number;
+      trendPercentage: number;
+      topMuscle?: string;
+      unit: 'kg' | 'lbs';
+      comparisonPeriodLabel: string;
+    }
+  | {
+      task: 'muscle-balance';
+      focusDistribution: { legs: number; push: number; pull: number };
+      symmetryScore: number;
+      topMuscles: string[];
+    }
+  | {
+      task: 'progress-analysis';
+      workouts: Workout[];
+      personalRecords: PersonalRecord[];
+      volumeTrend: Array<{ date: string; totalVolume: number }>;
+      consistencyScore: number;
+      previousConsistencyScore: number;
+      workoutCount: number;
+      previousWorkoutCount: number;
+    }
+  | {
+      task: 'smart-alerts';
+      workouts: Workout[];
+      muscleStatuses: MuscleStatus[];
+      readinessScore: number;
+    }
+  | {
+      task: 'workout-recommendations';
+      workouts: Workout[];
+      muscleStatuses: MuscleStatus[];
+      readinessScore: number;
+      symmetryScore: number;
+      focusDistribution: { legs: number; push: number; pull: number };
+      userLevel: 'beginner' | 'intermediate' | 'advanced';
+      baseRestInterval: number;
+      constraints?: WorkoutRecommendationConstraints;
+      heartRateSettings?: HeartRateSettings;
+    }
+  | {
+      task: 'empty-state';
+      userName: string;
+      screenName: EmptyStateScreen;
+      timeOfDay: 'morning' | 'afternoon' | 'evening';
+    }
+  | {
+      task: 'coach-chat';
+      messages: CoachMessage[]; // Conversation so far, oldest first, ending with the user's question
+      context: CoachContext;
+    };
+
+export type AITask = AITaskInput['task'];
+
+export type AIGenerateRequest = AITaskInput & {
+  prompt: string;
+  responseFormat: 'json' | 'text'; // What the prompt asks for
+  responseSchema?: Record<string, unknown>; // JSON Schema for providers that support structured output
+};
+
+/**
+ * How often each task's responses failed schema validation, so unreliable
+ * prompts show up before users notice generic fallback insights
+ */
+export interface AIResponseMetrics {
+  task: AITask;
+  responses: number; // Responses received from the provider, repairs included
+  validationFailures: number;
+  repairSuccesses: number;
+  fallbacks: number; // Gave up and used the rule-based answer
+  lastIssue?: string;
+  lastFailureAt?: string; // ISO timestamp
+}
+
+export interface AIProvider {
+  readonly type: AIProviderType;
+  readonly isRemote: boolean; // Remote providers are rate limited and retried by aiCallManager
+  isConfigured(): boolean;
+  /**
+   * Raw response text: a JSON object for 'json' requests, plain text otherwise
+   */
+  generate(request: AIGenerateRequest): Promise<string>;
+}
+
+/**
+ * Snapshot of the user's training that grounds every coach conversation
+ */
+export interface CoachContext {
+  fingerprint: string; // aiChangeDetector fingerprint of the data it was built from
+  workoutSummary: string;
+  muscleSummary: string;
+  readinessScore: number;
+  userLevel: 'beginner' | 'intermediate' | 'advanced';
+  goals: string[];
+  unit: 'kg' | 'lbs';
+  recentWorkouts: Workout[];
+  muscleStatuses: MuscleStatus[];
+}
+
+export type CoachToolName =
+  | 'get_recent_workouts'
+  | 'get_exercise_history'
+  | 'get_recovery_status'
+  | 'get_planned_workouts'
+  | 'search_exercises'
+  | 'propose_planned_workout_edit';
+
+export interface CoachToolCall {
+  name: CoachToolName;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * A change to a planned workout suggested by the coach. Nothing is saved
+ * until the user applies it.
+ */
+export interface PlannedWorkoutEditProposal {
+  plannedWorkoutId: string;
+  workoutName: string; // Name of the planned workout when the edit was proposed
+  scheduledDate: Date;
+  summary: string;
+  changes: {
+    workoutName?: string;
+    exercises?: PlannedExercise[];
+    notes?: string;
+  };
+  status: 'pending' | 'applied' | 'dismissed';
+}
+
+export type CoachMessageRole = 'user' | 'assistant' | 'tool';
+
+export interface CoachMessage {
+  id: string;
+  userId: string;
+  role: CoachMessageRole;
+  content: string; // Text for user/assistant messages, tool output for tool messages
+  toolCall?: CoachToolCall; // Set on tool messages
+  proposal?: PlannedWorkoutEditProposal; // Set on assistant messages that suggest a plan edit
+  createdAt: Date;
+}
@@ -24,6 +24,7 @@ export interface StrengthProgression {
     maxWeight: number;
     maxReps: number;
     totalVolume: number;
+    estimatedOneRepMax: number; // best e1RM of the session using the selected formula
   }>;
 }
 
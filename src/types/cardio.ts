@@ -0,0 +1,59 @@
+import type { HeartRateZoneMethod } from '@/store/userStore';
+
+export interface CardioSplit {
+  index: number; // 1-based
+  distance: number; // in the split unit; 1 except for a partial final split
+  time: number; // seconds
+  pace: number; // minutes per unit, as returned by calculatePace
+  elevationGain: number; // m
+  averageHeartRate?: number;
+}
+
+export interface BestEffort {
+  distance: number; // m
+  label: string; // e.g. "5K"
+  time: number; // seconds
+  startOffset: number; // seconds from the start of the set
+}
+
+export interface HeartRateZoneBounds {
+  zone: number; // 1-5
+  label: string;
+  minBpm: number;
+  maxBpm: number;
+}
+
+export interface HeartRateSettings {
+  method: HeartRateZoneMethod;
+  maxHeartRate: number;
+  restingHeartRate: number;
+  zones: HeartRateZoneBounds[];
+  trimpFactor: { a: number; b: number }; // Banister weighting, differs by sex
+}
+
+export interface HeartRateZoneTime {
+  zone: number; // 1-5
+  label: string;
+  minBpm: number;
+  maxBpm: number;
+  seconds: number;
+}
+
+export interface CardioTrackAnalysis {
+  distance: number; // m
+  duration: number; // seconds
+  elevationGain: number; // m
+  elevationLoss: number; // m
+  splits: CardioSplit[];
+  bestEfforts: BestEffort[];
+  heartRateZones: HeartRateZoneTime[]; // Empty when the track has no heart rate
+  hasRoute: boolean; // Track has coordinates to draw
+}
+
+export interface TrainingLoadPoint {
+  date: Date; // Start of day
+  load: number; // TRIMP for the day
+  acute: number; // 7-day average daily load
+  chronic: number; // 28-day average daily load
+  ratio: number | null; // Acute:chronic, null until there is chronic load
+}
@@ -0,0 +1,55 @@
+import { WeightUnit, DistanceUnit, SetType } from './exercise';
+
+export type CsvImportSource = 'strong' | 'hevy' | 'fitnotes' | 'fittrackai';
+
+export interface ParsedCsvSet {
+  setNumber: number;
+  weight?: number;
+  unit: WeightUnit;
+  reps?: number;
+  distance?: number;
+  distanceUnit?: DistanceUnit;
+  duration?: number; // seconds
+  rpe?: number;
+  setType?: SetType;
+  notes?: string;
+}
+
+export interface ParsedCsvExercise {
+  name: string; // Exercise name exactly as written in the source app
+  sets: ParsedCsvSet[];
+  notes?: string;
+}
+
+export interface ParsedCsvWorkout {
+  name?: string;
+  date: Date;
+  endTime?: Date;
+  durationMinutes?: number;
+  notes?: string;
+  exercises: ParsedCsvExercise[];
+}
+
+export interface ParsedCsvRowError {
+  row: number; // 1-based line number in the file, header is row 1
+  message: string;
+}
+
+export interface ParsedCsvFile {
+  source: CsvImportSource;
+  workouts: ParsedCsvWorkout[];
+  rowErrors: ParsedCsvRowError[];
+  totalRows: number;
+}
+
+export interface ExerciseNameMatch {
+  sourceName: string;
+  exerciseId: string | null; // null when no confident match was found
+  exerciseName?: string;
+  confidence: number; // 0-100 relevance score of the chosen match
+  candidates: Array<{ exerciseId: string; exerciseName: string; confidence: number }>;
+  occurrences: number; // number of workouts the name appears in
+}
+
+// Source exercise name -> library exercise ID (null = skip this exercise)
+export type ExerciseNameMapping = Record<string, string | null>;
@@ -0,0 +1,41 @@
+import { WeightUnit } from './exercise';
+
+export interface BarbellSpec {
+  id: string;
+  name: string; // e.g. "Olympic bar", "EZ bar"
+  weight: number;
+  unit: WeightUnit;
+}
+
+export interface PlatePair {
+  weight: number; // weight of a single plate
+  unit: WeightUnit;
+  pairs: number; // number of matching pairs available
+}
+
+export interface DumbbellSet {
+  unit: WeightUnit;
+  weights: number[]; // weight of a single dumbbell, one entry per available pair
+}
+
+export interface MachineStack {
+  increment: number; // pin step on the weight stack
+  unit: WeightUnit;
+}
+
+export interface EquipmentInventory {
+  barbells: BarbellSpec[];
+  defaultBarbellId?: string;
+  plates: PlatePair[];
+  dumbbells: DumbbellSet[];
+  machines: MachineStack[];
+}
+
+export interface PlateBreakdown {
+  barbell: BarbellSpec;
+  unit: WeightUnit;
+  platesPerSide: Array<{ weight: number; count: number }>; // heaviest first
+  achievedWeight: number; // total load including the bar, in `unit`
+  targetWeight: number;
+  exact: boolean;
+}
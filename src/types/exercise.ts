@@ -5,6 +5,16 @@ export type Difficulty = 'beginner' | 'intermediate' | 'advanced';
 export type WeightUnit = 'kg' | 'lbs';
 export type ExerciseTrackingType = 'weight_reps' | 'reps_only' | 'cardio' | 'duration';
 export type DistanceUnit = 'km' | 'miles';
+export type SetType =
+  | 'warmup'
+  | 'working'
+  | 'drop'
+  | 'rest_pause'
+  | 'myo_rep'
+  | 'cluster'
+  | 'amrap'
+  | 'failure'
+  | 'backoff';
 
 export interface ExerciseAdvancedDetails {
   description?: string;
@@ -38,6 +48,20 @@ export interface Exercise {
   deletedAt?: Date | null; // Soft delete timestamp
 }
 
+export interface HeartRatePoint {
+  offset: number; // seconds from the start of the set
+  bpm: number;
+}
+
+export interface CardioTrackPoint {
+  t: number; // seconds from the start of the set
+  lat?: number;
+  lon?: number;
+  ele?: number; // elevation in m
+  d?: number; // distance in m from the start of the set
+  hr?: number; // bpm
+}
+
 export interface WorkoutSet {
   setNumber: number;
   // For weight_reps tracking
@@ -57,12 +81,22 @@ export interface WorkoutSet {
   restTime?: number; // seconds - actual rest time taken
   completed: boolean;
   notes?: string;
+  setType?: SetType; // Defaults to 'working'. Drop sets belong to the set before them.
+  miniSetReps?: number[]; // Reps per mini-set for rest-pause, myo-rep and cluster sets; reps holds the total
+  // Template prescription, kept so a workout saved as a template keeps its targets
+  targetRepsMin?: number; // Prescribed rep range; reps starts at the lower end
+  targetRepsMax?: number;
+  targetRpe?: number;
+  targetPercent?: number; // % of the exercise's training max
   // Set duration tracking
   setDuration?: number; // Duration of the set in seconds
   setStartTime?: Date; // When the set started
   setEndTime?: Date; // When the set completed
   // For cardio/HIIT tracking
   heartRate?: number; // Heart rate in BPM
+  maxHeartRate?: number; // Peak heart rate in BPM, from wearable imports
+  heartRateSeries?: HeartRatePoint[]; // Heart-rate samples from a wearable import, downsampled
+  track?: CardioTrackPoint[]; // Route and sensor samples from a GPX, TCX or FIT import, downsampled
   pace?: number; // Calculated pace (seconds per km/mile)
   // For HIIT tracking
   workDuration?: number; // Work duration in seconds (for HIIT)
@@ -85,6 +119,15 @@ export interface WorkoutSet {
 
 export type ExerciseGroupType = 'single' | 'superset' | 'circuit';
 
+export type SubstitutionReason = 'equipment_busy' | 'equipment_unavailable' | 'injury' | 'preference';
+
+// The exercise a logged exercise was swapped in for, and why
+export interface ExerciseSubstitution {
+  exerciseId: string;
+  exerciseName: string;
+  reason: SubstitutionReason;
+}
+
 export interface WorkoutExercise {
   id: string;
   exerciseId: string;
@@ -100,5 +143,7 @@ export interface WorkoutExercise {
   groupType?: ExerciseGroupType; // Type of grouping (single, superset, circuit)
   groupId?: string; // ID to group exercises together (exercises with same groupId are grouped)
   groupOrder?: number; // Order within the group (0 = first exercise in group)
+  trainingMax?: number; // Base for percentage targets from a template
+  substitutedFor?: ExerciseSubstitution;
 }
 
@@ -2,6 +2,9 @@ import { Workout, WorkoutTemplate, PlannedWorkout } from './workout';
 import { Exercise } from './exercise';
 import { MuscleStatus } from './muscle';
 import { SleepLog, RecoveryLog } from './sleep';
+import { TrainingProgram } from './program';
+import { BodyMeasurement } from './measurement';
+import { NutritionLog } from './nutrition';
 import { UserProfile } from '@/store/userStore';
 
 export interface ExportData {
@@ -16,6 +19,9 @@ export interface ExportData {
     muscleStatuses: number;
     sleepLogs: number;
     recoveryLogs: number;
+    trainingPrograms?: number; // Absent in exports created before programs existed
+    bodyMeasurements?: number; // Absent in exports created before measurements existed
+    nutritionLogs?: number; // Absent in exports created before nutrition logging existed
     settings: number;
   };
   workouts: Workout[];
@@ -25,6 +31,9 @@ export interface ExportData {
     muscleStatuses: MuscleStatus[];
     sleepLogs: SleepLog[];
     recoveryLogs: RecoveryLog[];
+    trainingPrograms?: TrainingProgram[];
+    bodyMeasurements?: BodyMeasurement[];
+    nutritionLogs?: NutritionLog[];
     settings: Record<string, unknown>;
     userProfile: UserProfile | null;
 }
@@ -42,6 +51,9 @@ export interface ImportPreview {
         muscleStatuses: number;
         sleepLogs: number;
         recoveryLogs: number;
+        trainingPrograms?: number;
+        bodyMeasurements?: number;
+        nutritionLogs?: number;
         settings: number;
     };
     userProfile: {
@@ -58,6 +70,9 @@ export interface ExportStats {
     muscleStatuses: number;
     sleepLogs: number;
     recoveryLogs: number;
+    trainingPrograms: number;
+    bodyMeasurements: number;
+    nutritionLogs: number;
     settings: number;
     estimatedSize: string; // Human-readable file size estimate
 }
@@ -77,6 +92,7 @@ export interface ImportResult {
     imported: number;
     skipped: number;
     errors: ImportError[];
+    cancelled?: boolean; // Import was stopped by the user before reaching the end of the file
     details: {
         workouts: { imported: number; skipped: number; errors: number };
         templates: { imported: number; skipped: number; errors: number };
@@ -85,15 +101,27 @@ export interface ImportResult {
         muscleStatuses: { imported: number; skipped: number; errors: number };
         sleepLogs: { imported: number; skipped: number; errors: number };
         recoveryLogs: { imported: number; skipped: number; errors: number };
+        trainingPrograms: { imported: number; skipped: number; errors: number };
+        bodyMeasurements: { imported: number; skipped: number; errors: number };
+        nutritionLogs: { imported: number; skipped: number; errors: number };
         settings: { imported: number; skipped: number; errors: number };
         userProfile: { imported: boolean; error?: string };
     };
 }
 
-export interface ValidationResult {
-    errors: ImportError[];
-    warnings: ImportError[];
-    isValid: boolean;
+/**
+ * Persisted progress of a chunked import so an interrupted run can resume
+ */
+export interface ImportCheckpoint {
+    fileKey: string; // Name, size and last-modified time of the source file
+    userId: string;
+    strategy: ImportStrategy;
+    dataCleared: boolean; // Replace strategy has already cleared existing data
+    completedSections: string[];
+    sectionProgress: Record<string, number>; // Next unprocessed record index per array section
+    result: ImportResult;
+    startedAt: string;
+    updatedAt: string;
 }
 
 export interface ProgressCallback {
@@ -120,3 +148,20 @@ export interface ClearDataResult {
   totalFailed: number;
 }
 
+
+export type CsvExportDataset = 'sets' | 'sleepLogs' | 'recoveryLogs' | 'plannedWorkouts';
+
+export interface CsvExportOptions {
+  datasets?: CsvExportDataset[]; // Defaults to every dataset
+  startDate?: Date; // Inclusive, compared by calendar day
+  endDate?: Date; // Inclusive, compared by calendar day
+  exerciseIds?: string[]; // Only applies to set rows and planned workouts
+  bundle?: boolean; // Download all files as a single .zip
+}
+
+export interface CsvExportFile {
+  dataset: CsvExportDataset;
+  filename: string;
+  content: string;
+  rowCount: number;
+}
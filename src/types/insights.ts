@@ -1,4 +1,5 @@
 import { MuscleGroup } from './muscle';
+import { Exercise, ExerciseTrackingType, WeightUnit } from './exercise';
 
 export interface BreakthroughInsight {
   exercise: string;
@@ -77,6 +78,21 @@ export interface RecoveryPrediction {
   volumePrediction?: number;
 }
 
+/**
+ * One exercise of a recommended workout, always mapped to an exerciseLibrary ID
+ */
+export interface RecommendedExercise {
+  exerciseId: string;
+  exerciseName: string;
+  trackingType: ExerciseTrackingType;
+  sets: number;
+  reps: number;
+  weight?: number; // Target load in `unit`, from the user's progression history
+  unit?: WeightUnit;
+  restTime: number; // seconds
+  muscles: MuscleGroup[];
+}
+
 export interface WorkoutRecommendation {
   id: string;
   name: string;
@@ -86,6 +102,16 @@ export interface WorkoutRecommendation {
   muscleGroups: MuscleGroup[];
   reason: string;
   imageUrl?: string;
+  exercises?: RecommendedExercise[]; // Missing on recommendations cached before exercises were generated
+}
+
+/**
+ * What a recommended workout has to fit: exercises the user has the
+ * equipment for and whose main muscles have recovered, and the time available
+ */
+export interface WorkoutRecommendationConstraints {
+  availableExercises: Exercise[];
+  availableMinutes: number;
 }
 
 export interface CorrectiveExercise {
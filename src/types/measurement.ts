@@ -0,0 +1,32 @@
+export type BodyMeasurementSite =
+  | 'neck'
+  | 'shoulders'
+  | 'chest'
+  | 'waist'
+  | 'hips'
+  | 'arms'
+  | 'forearms'
+  | 'thighs'
+  | 'calves';
+
+export type LengthUnit = 'cm' | 'in';
+
+export interface BodyMeasurement {
+  id: string;
+  userId: string;
+  date: Date; // When the measurement was taken
+  weight?: number; // stored in kg
+  bodyFatPercent?: number; // 0-100
+  circumferences?: Partial<Record<BodyMeasurementSite, number>>; // stored in cm
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  version?: number; // For optimistic locking
+  deletedAt?: Date | null; // Soft delete timestamp
+}
+
+export interface BodyweightTrendPoint {
+  date: Date;
+  weight: number; // kg, as logged
+  trend: number; // kg, exponentially smoothed
+}
@@ -0,0 +1,58 @@
+export type NutritionEntryType = 'meal' | 'water' | 'supplement';
+
+export type SupplementKind = 'creatine' | 'caffeine' | 'protein_powder' | 'electrolytes' | 'other';
+
+export interface NutritionMacros {
+  calories: number; // kcal
+  protein: number; // g
+  carbs: number; // g
+  fat: number; // g
+}
+
+export interface NutritionLog extends Partial<NutritionMacros> {
+  id: string;
+  userId: string;
+  date: Date; // When it was eaten or drunk
+  type: NutritionEntryType;
+  name?: string; // Meal or supplement name
+  waterMl?: number; // Water entries, or fluid taken with a meal
+  supplement?: SupplementKind;
+  doseMg?: number; // Supplement dose, e.g. 5000 for 5 g creatine
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  version?: number; // For optimistic locking
+  deletedAt?: Date | null; // Soft delete timestamp
+}
+
+/**
+ * A saved meal that can be logged again in one tap. Favourites stay on the
+ * device and aren't synced.
+ */
+export interface FoodFavorite extends NutritionMacros {
+  id: string;
+  name: string;
+}
+
+export interface NutritionTargets extends NutritionMacros {
+  waterMl: number;
+}
+
+export interface NutritionTotals extends NutritionMacros {
+  waterMl: number;
+  meals: number;
+  waterEntries: number;
+  creatineMg: number;
+  caffeineMg: number;
+}
+
+/**
+ * How much of each target was reached, as a fraction (1 = on target). Water
+ * is undefined when none was logged, so people who don't track it aren't
+ * penalised.
+ */
+export interface NutritionAdherence {
+  calories: number;
+  protein: number;
+  water?: number;
+}
@@ -0,0 +1,59 @@
+export type ProgramStatus = 'active' | 'paused' | 'completed' | 'archived';
+
+export interface ProgramDay {
+  dayOfWeek: number; // 0 = Sunday ... 6 = Saturday
+  templateId: string;
+  label?: string; // e.g. "Upper A"
+}
+
+export interface ProgramWeek {
+  weekNumber: number; // 1-based
+  isDeload: boolean;
+  intensityMultiplier: number; // applied to template weights (1 = template load)
+  volumeMultiplier: number; // applied to template set counts (1 = template sets)
+  notes?: string;
+}
+
+export interface ProgramProgressionRule {
+  loadIncreasePerWeek: number; // percent added to working loads each non-deload week
+  volumeIncreasePerWeek: number; // percent added to set counts each non-deload week
+  deloadEvery?: number; // every Nth week is a deload (e.g. 4 => weeks 4, 8, 12)
+  deloadIntensity: number; // load multiplier used on deload weeks
+  deloadVolume: number; // set multiplier used on deload weeks
+}
+
+export interface TrainingProgram {
+  id: string;
+  userId: string;
+  name: string;
+  description?: string;
+  durationWeeks: number;
+  days: ProgramDay[];
+  weeks: ProgramWeek[];
+  progression: ProgramProgressionRule;
+  startDate: Date; // Moves with pauses and shifts
+  runId?: string; // Identifies the current run; only a restart changes it
+  status: ProgramStatus;
+  pausedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  version?: number; // For optimistic locking
+  deletedAt?: Date | null; // Soft delete timestamp
+}
+
+export interface ProgramWeekAdherence {
+  weekNumber: number;
+  planned: number;
+  completed: number;
+  missed: number;
+}
+
+export interface ProgramAdherence {
+  programId: string;
+  totalSessions: number;
+  completedSessions: number;
+  missedSessions: number;
+  upcomingSessions: number;
+  adherencePercentage: number; // completed / (completed + missed), 0-100
+  byWeek: ProgramWeekAdherence[];
+}
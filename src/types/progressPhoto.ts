@@ -0,0 +1,20 @@
+export type ProgressPhotoPose = 'front' | 'side' | 'back';
+
+/**
+ * Where progress photos may be kept. 'device' never uploads them.
+ */
+export type ProgressPhotoPrivacy = 'device' | 'cloud';
+
+export interface ProgressPhoto {
+  id: string;
+  userId: string;
+  date: Date; // When the photo was taken
+  pose: ProgressPhotoPose;
+  image: Blob; // Compressed image, always kept on the device
+  width: number;
+  height: number;
+  storagePath?: string; // Set once a cloud copy exists
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,64 @@
+import { MuscleGroup } from './muscle';
+
+export type ReportPeriod = 'week' | 'month';
+
+export interface ReportRange {
+  period: ReportPeriod;
+  start: Date; // Start of the first day
+  end: Date; // End of the last day
+}
+
+export interface ReportMuscleVolume {
+  muscle: MuscleGroup;
+  volume: number;
+  percentage: number; // Share of the period's muscle volume, 0-100
+}
+
+export interface ReportPersonalRecord {
+  exerciseName: string;
+  weight: number;
+  reps: number;
+  date: Date;
+  previousWeight: number; // Best weight before the period
+}
+
+export interface ReportAdherence {
+  planned: number;
+  completed: number;
+  percentage: number; // 0-100
+}
+
+export interface ReportSleepSummary {
+  nights: number;
+  averageHours: number;
+  averageQuality: number; // 1-10
+}
+
+export interface ReportRecoverySummary {
+  days: number;
+  averageRecovery: number; // 0-100
+  averageEnergy: number; // 1-10
+  averageSoreness: number; // 1-10
+}
+
+/**
+ * Roll-up of a week or month of training, generated on demand from local data
+ */
+export interface TrainingReport {
+  userId: string;
+  range: ReportRange;
+  generatedAt: Date;
+  sessions: number;
+  trainingDays: number;
+  totalVolume: number;
+  totalDuration: number; // minutes
+  previous: {
+    sessions: number;
+    totalVolume: number;
+  };
+  volumeByMuscle: ReportMuscleVolume[];
+  personalRecords: ReportPersonalRecord[];
+  adherence: ReportAdherence | null; // null when nothing was planned
+  sleep: ReportSleepSummary | null; // null when no sleep was logged
+  recovery: ReportRecoverySummary | null; // null when no recovery was logged
+}
@@ -13,7 +13,10 @@ export type SyncableTable =
     | 'notifications'
     | 'sleep_logs'
     | 'recovery_logs'
-    | 'error_logs';
+    | 'error_logs'
+    | 'training_programs'
+    | 'body_measurements'
+    | 'nutrition_logs';
 
 export interface SyncMetadata {
     id?: number;
@@ -73,6 +76,38 @@ export interface ConflictResolution {
     resolvedAt: Date;
 }
 
+/**
+ * Tables whose records can be reviewed and merged by the user when both
+ * devices changed the same record between syncs
+ */
+export type ConflictTable = Extract<SyncableTable, 'workouts' | 'workout_templates' | 'planned_workouts'>;
+
+export type ConflictResolutionChoice = ConflictResolution['resolution'];
+
+/**
+ * Queued conflict holding both versions of a record until the user picks a resolution
+ */
+export interface SyncConflict {
+    id: string; // "tableName:recordId" - at most one pending conflict per record
+    userId: string;
+    tableName: ConflictTable;
+    recordId: string;
+    localRecord: Record<string, unknown>;
+    remoteRecord: Record<string, unknown>;
+    localVersion: number;
+    remoteVersion: number;
+    localUpdatedAt: Date | null;
+    remoteUpdatedAt: Date | null;
+    detectedAt: Date;
+}
+
+export interface ConflictFieldDiff {
+    path: string; // Stable key, e.g. "exercises.ex-1.sets.2.weight"
+    label: string; // Human readable, e.g. "Bench Press › Set 3 › weight"
+    local: unknown;
+    remote: unknown;
+}
+
 export interface SyncQueueItem {
     id: string;
     userId: string;
@@ -0,0 +1,81 @@
+import { Exercise } from './exercise';
+import { ProgramProgressionRule } from './program';
+import { TemplateExercise, WorkoutTemplate } from './workout';
+
+/**
+ * A template as it travels in a package: no owner, dates or sync metadata.
+ * `key` is the template's id in the exporting account, used only to link
+ * program days to templates within the package.
+ */
+export type PackagedTemplate = Pick<
+  WorkoutTemplate,
+  'name' | 'category' | 'description' | 'difficulty' | 'daysPerWeek' | 'estimatedDuration' | 'musclesTargeted'
+> & {
+  key: string;
+  exercises: TemplateExercise[];
+};
+
+export interface PackagedProgramDay {
+  dayOfWeek: number; // 0 = Sunday ... 6 = Saturday
+  templateKey: string;
+  label?: string;
+}
+
+export interface PackagedProgram {
+  name: string;
+  description?: string;
+  durationWeeks: number;
+  days: PackagedProgramDay[];
+  progression: ProgramProgressionRule;
+}
+
+// Custom exercise definition shipped with the templates that use it
+export type PackagedExercise = Pick<
+  Exercise,
+  | 'id'
+  | 'name'
+  | 'category'
+  | 'primaryMuscles'
+  | 'secondaryMuscles'
+  | 'equipment'
+  | 'difficulty'
+  | 'instructions'
+  | 'trackingType'
+  | 'videoUrl'
+  | 'muscleCategory'
+>;
+
+export interface TemplatePackage {
+  format: 'fittrackai-template-package';
+  version: number;
+  name: string;
+  exportedAt: string; // ISO timestamp
+  templates: PackagedTemplate[];
+  program?: PackagedProgram;
+  exercises: PackagedExercise[];
+  checksum: string; // Over every other field, see computePackageChecksum
+}
+
+/**
+ * How an exercise in a package maps onto the importing user's library:
+ * - library: the same id exists
+ * - matched: an exercise with the same name exists under another id
+ * - custom: created from the definition shipped in the package
+ * - unknown: none of the above; it is left out of the imported templates
+ */
+export type ExerciseResolutionStatus = 'library' | 'matched' | 'custom' | 'unknown';
+
+export interface ExerciseResolution {
+  exerciseId: string; // Id in the package
+  exerciseName: string;
+  status: ExerciseResolutionStatus;
+  resolvedId?: string; // Id in the importing library; unset for custom until created, and for unknown
+}
+
+export interface TemplatePackageImportResult {
+  templateIds: string[];
+  programId?: string;
+  createdExercises: number;
+  unresolved: ExerciseResolution[];
+  skippedTemplates: string[]; // Names of templates left with no known exercises
+}
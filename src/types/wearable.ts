@@ -0,0 +1,70 @@
+import { ImportResult } from './export';
+
+export type WearableSource = 'apple_health' | 'google_fit' | 'fitbit' | 'garmin' | 'tcx' | 'gpx' | 'fit';
+
+export type WearableActivityType =
+  | 'running'
+  | 'cycling'
+  | 'walking'
+  | 'hiking'
+  | 'swimming'
+  | 'rowing'
+  | 'elliptical'
+  | 'other';
+
+export interface HeartRateSample {
+  time: Date;
+  bpm: number;
+}
+
+export interface StepSample {
+  start: Date;
+  end: Date;
+  steps: number;
+}
+
+export interface TrackPoint {
+  time: Date;
+  lat?: number;
+  lon?: number;
+  elevation?: number; // m
+  distance?: number; // m from the start of the activity
+  heartRate?: number; // bpm
+}
+
+export interface ParsedSleepSession {
+  start: Date; // Into bed, or first asleep sample
+  end: Date; // Out of bed, or last asleep sample
+  asleepMinutes: number;
+  inBedMinutes: number;
+  deepRemMinutes?: number; // Deep plus REM sleep, when the device reports stages
+  score?: number; // 0-100 sleep score from the device
+}
+
+export interface ParsedActivity {
+  source: WearableSource;
+  activityType: WearableActivityType;
+  name?: string; // Title given by the source app
+  start: Date;
+  end: Date;
+  distanceMeters?: number;
+  calories?: number; // kcal
+  steps?: number;
+  averageHeartRate?: number;
+  maxHeartRate?: number;
+  heartRate: HeartRateSample[];
+  track?: TrackPoint[];
+}
+
+export interface ParsedWearableData {
+  sources: WearableSource[];
+  sleep: ParsedSleepSession[];
+  activities: ParsedActivity[];
+  heartRate: HeartRateSample[]; // Samples not tied to an activity in the file
+  steps: StepSample[];
+  warnings: string[];
+}
+
+export interface WearableImportResult extends ImportResult {
+  enrichedWorkouts: number; // Existing workouts given heart-rate, step or calorie data
+}
@@ -1,5 +1,5 @@
 import { MuscleGroup } from './muscle';
-import { WorkoutExercise } from './exercise';
+import { DistanceUnit, ExerciseGroupType, SetType, WeightUnit, WorkoutExercise } from './exercise';
 
 export type WorkoutMood = 'great' | 'good' | 'okay' | 'tired' | 'exhausted';
 
@@ -17,6 +17,7 @@ export interface Workout {
   musclesTargeted: MuscleGroup[];
   workoutType: string;
   mood?: WorkoutMood;
+  bodyweight?: number; // kg, latest logged bodyweight on the workout date (used for bodyweight exercise volume)
   version?: number; // For optimistic locking
   deletedAt?: Date | null; // Soft delete timestamp
 }
@@ -24,6 +25,45 @@ export interface Workout {
 export type TemplateCategory = 'strength' | 'hypertrophy' | 'cardio' | 'home' | 'flexibility';
 export type TemplateDifficulty = 'beginner' | 'intermediate' | 'advanced';
 
+/**
+ * One prescribed set. Reps run from `reps` to `repsMax` for a range; the load
+ * is a fixed weight, a target RPE, or a percentage of the training max.
+ */
+export interface TemplateSetPrescription {
+  reps?: number;
+  repsMax?: number;
+  weight?: number;
+  unit?: WeightUnit;
+  distance?: number;
+  distanceUnit?: DistanceUnit;
+  time?: number;
+  calories?: number;
+  duration?: number;
+  rpe?: number; // Target Rate of Perceived Exertion (1-10)
+  percentOneRepMax?: number; // Load as % of the training max, e.g. 65 for 5/3/1
+  setType?: SetType;
+  restTime?: number; // seconds
+}
+
+export interface TemplateExercise {
+  exerciseId: string;
+  exerciseName: string;
+  sets: number;
+  reps: number; // Lower end when repsMax is set
+  repsMax?: number;
+  weight?: number;
+  rpe?: number;
+  percentOneRepMax?: number;
+  trainingMax?: number; // Base for percentages; the estimated 1RM from history when unset
+  restTime?: number;
+  setData?: TemplateSetPrescription[]; // Per-set prescriptions, overriding the exercise-level target
+  notes?: string;
+  // Superset/circuit grouping, as on WorkoutExercise
+  groupType?: ExerciseGroupType;
+  groupId?: string;
+  groupOrder?: number;
+}
+
 export interface WorkoutTemplate {
   id: string;
   userId: string;
@@ -33,25 +73,7 @@ export interface WorkoutTemplate {
   imageUrl?: string;
   difficulty?: TemplateDifficulty;
   daysPerWeek?: number;
-  exercises: Array<{
-    exerciseId: string;
-    exerciseName: string;
-    sets: number;
-    reps: number;
-    weight?: number;
-    restTime?: number;
-    setData?: Array<{
-      reps?: number;
-      weight?: number;
-      unit?: 'kg' | 'lbs';
-      distance?: number;
-      distanceUnit?: 'km' | 'miles';
-      time?: number;
-      calories?: number;
-      duration?: number;
-      rpe?: number; // Rate of Perceived Exertion (1-10)
-    }>;
-  }>;
+  exercises: TemplateExercise[];
   estimatedDuration: number;
   musclesTargeted: MuscleGroup[];
   isFeatured?: boolean;
@@ -86,6 +108,9 @@ export interface PlannedWorkout {
   notes?: string;
   isCompleted: boolean;
   completedWorkoutId?: string;
+  programId?: string; // Set when generated from a TrainingProgram
+  programWeek?: number; // 1-based week within the program
+  programRunId?: string; // Run of the program that generated this session
   createdAt: Date;
   updatedAt: Date;
   version?: number; // For optimistic locking
@@ -96,7 +96,10 @@ export interface ExerciseComparison {
 }
 
 export interface PersonalRecord {
-  type: '1rm' | 'volume' | 'reps' | 'weight' | 'time' | 'rest';
+  type: '1rm' | 'rep_max' | 'volume' | 'reps' | 'weight' | 'time' | 'rest' | 'best_effort';
+  reps?: number; // rep count for 'rep_max' records (1, 3, 5 or 10)
+  distance?: number; // metres for 'best_effort' records, whose value is the time in seconds
+  label?: string; // distance name for 'best_effort' records, e.g. "5K"
   exerciseId?: string;
   exerciseName?: string;
   value: number;
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { calculateStreak, estimateEnergy, formatWeight, calculateVolume } from '@/utils/calculations';
+import { calculateStreak, estimateEnergy, formatWeight, calculateVolume, estimateOneRepMax } from '@/utils/calculations';
 
 describe('calculations', () => {
   describe('calculateStreak', () => {
@@ -100,4 +100,32 @@ describe('calculations', () => {
       expect(typeof volume).toBe('number');
     });
   });
+
+  describe('estimateOneRepMax', () => {
+    it('should return the lifted weight for a single rep', () => {
+      expect(estimateOneRepMax(100, 1, 'epley')).toBe(100);
+      expect(estimateOneRepMax(100, 1, 'brzycki')).toBe(100);
+      expect(estimateOneRepMax(100, 1, 'lombardi')).toBe(100);
+    });
+
+    it('should apply the selected formula', () => {
+      expect(estimateOneRepMax(100, 5, 'epley')).toBeCloseTo(116.67, 1);
+      expect(estimateOneRepMax(100, 5, 'brzycki')).toBeCloseTo(112.5, 1);
+      expect(estimateOneRepMax(100, 5, 'lombardi')).toBeCloseTo(117.46, 1);
+    });
+
+    it('should use reps in reserve for the RPE formula', () => {
+      // 5 reps at RPE 10 is 86.3% of max
+      expect(estimateOneRepMax(100, 5, 'rpe', 10)).toBeCloseTo(115.87, 1);
+      // 5 reps at RPE 8 is treated like 7 reps to failure
+      expect(estimateOneRepMax(100, 5, 'rpe', 8)).toBeCloseTo(123.3, 1);
+      // Without a logged RPE the formula falls back to Brzycki
+      expect(estimateOneRepMax(100, 5, 'rpe')).toBeCloseTo(112.5, 1);
+    });
+
+    it('should return 0 for empty sets', () => {
+      expect(estimateOneRepMax(0, 5)).toBe(0);
+      expect(estimateOneRepMax(100, 0)).toBe(0);
+    });
+  });
 });
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { CardioTrackPoint } from '@/types/exercise';
+import {
+  calculateElevationChange,
+  calculateSplits,
+  calculateTrackZoneTime,
+  findBestEfforts,
+  formatElapsedTime,
+  projectRoute,
+  toCardioTrack,
+} from '../cardioTrack';
+import { getHeartRateSettings, getHeartRateZone } from '../heartRateZones';
+
+/**
+ * 2.5 km at 5:00/km for the first km and 4:00/km after, one point per 100 m
+ */
+function buildTrack(): CardioTrackPoint[] {
+  return Array.from({ length: 26 }, (_, index) => {
+    const d = index * 100;
+    const t = d <= 1000 ? d * 0.3 : 300 + (d - 1000) * 0.24;
+    return { t, d, hr: d <= 1000 ? 130 : 170 };
+  });
+}
+
+describe('cardioTrack', () => {
+  it('should split the track per km with a shorter final split', () => {
+    const splits = calculateSplits(buildTrack(), 'km');
+    expect(splits).toHaveLength(3);
+    expect(splits.map(split => split.time)).toEqual([300, 240, 120]);
+    expect(splits[0].pace).toBe(5);
+    expect(splits[2].distance).toBe(0.5);
+    expect(splits[2].averageHeartRate).toBe(170);
+  });
+
+  it('should find the fastest window for each distance covered', () => {
+    const efforts = findBestEfforts(buildTrack());
+    expect(efforts.map(effort => effort.label)).toEqual(['1K', '1 mile']);
+    expect(efforts[0]).toMatchObject({ time: 240, startOffset: 300 });
+  });
+
+  it('should ignore elevation changes below the GPS noise', () => {
+    const elevations = [100, 102, 100, 105, 110, 109, 111, 104, 100];
+    const track = elevations.map((ele, t) => ({ t, ele }));
+    expect(calculateElevationChange(track)).toEqual({ gain: 10, loss: 10 });
+  });
+
+  it('should count time in heart-rate zones and skip pauses', () => {
+    const { maxHeartRate, zones } = getHeartRateSettings({ age: 40 });
+    expect(maxHeartRate).toBe(180);
+    expect(getHeartRateZone(100, zones)).toBe(1);
+    expect(getHeartRateZone(80, zones)).toBe(0);
+
+    const zoneTime = calculateTrackZoneTime(
+      [{ t: 0, hr: 120 }, { t: 10, hr: 165 }, { t: 20, hr: 165 }, { t: 300, hr: 120 }],
+      zones
+    );
+    expect(zoneTime.map(zone => zone.seconds)).toEqual([0, 10, 0, 0, 10]);
+    expect(calculateTrackZoneTime([{ t: 0 }, { t: 10 }], zones)).toEqual([]);
+  });
+
+  it('should convert parsed points, filling distance from coordinates and thinning', () => {
+    const start = new Date('2026-10-19T07:00:00Z');
+    const points = Array.from({ length: 50 }, (_, index) => ({
+      time: new Date(start.getTime() + index * 1000),
+      lat: 51.5 + index * 0.0001,
+      lon: -0.1,
+    }));
+    const track = toCardioTrack(points, start, 10);
+    expect(track).toHaveLength(10);
+    expect(track[0]).toMatchObject({ t: 0, d: 0 });
+    expect(track[9].t).toBe(49);
+    expect(track[9].d).toBeCloseTo(544.9, 0);
+    expect(projectRoute(track, 100, 100).startsWith('M')).toBe(true);
+  });
+
+  it('should format elapsed time with hours only when needed', () => {
+    expect(formatElapsedTime(245)).toBe('4:05');
+    expect(formatElapsedTime(3725)).toBe('1:02:05');
+  });
+});
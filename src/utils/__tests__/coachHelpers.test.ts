@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { parseCoachAction, summarizeExerciseHistory } from '@/utils/coachHelpers';
+import { Workout } from '@/types/workout';
+
+const benchWorkout = (date: string, weight: number, reps: number): Workout => ({
+  id: `workout-${date}`,
+  userId: 'user-1',
+  date: new Date(date),
+  startTime: new Date(date),
+  totalDuration: 60,
+  totalVolume: weight * reps,
+  musclesTargeted: [],
+  workoutType: 'strength',
+  exercises: [{
+    id: `ex-${date}`,
+    exerciseId: 'bench',
+    exerciseName: 'Bench Press',
+    totalVolume: weight * reps,
+    musclesWorked: [],
+    timestamp: new Date(date),
+    sets: [{ setNumber: 1, weight, reps, unit: 'kg', completed: true }],
+  }],
+});
+
+describe('coachHelpers', () => {
+  describe('parseCoachAction', () => {
+    it('should read tool calls and replies', () => {
+      expect(parseCoachAction('{"tool": "get_recovery_status", "arguments": {}}')).toEqual({
+        type: 'tool',
+        call: { name: 'get_recovery_status', arguments: {} },
+      });
+      expect(parseCoachAction('```json\n{"reply": "Rest today."}\n```')).toEqual({ type: 'reply', text: 'Rest today.' });
+    });
+
+    it('should treat unknown tools and plain text as a reply', () => {
+      expect(parseCoachAction('{"tool": "delete_everything"}').type).toBe('reply');
+      expect(parseCoachAction('Just keep going.')).toEqual({ type: 'reply', text: 'Just keep going.' });
+    });
+  });
+
+  describe('summarizeExerciseHistory', () => {
+    it('should flag a lift with no e1RM improvement for weeks', () => {
+      const workouts = [
+        benchWorkout('2024-03-01', 100, 5),
+        benchWorkout('2024-03-08', 95, 5),
+        benchWorkout('2024-03-15', 95, 5),
+        benchWorkout('2024-03-22', 97.5, 4),
+      ];
+      const summary = summarizeExerciseHistory(workouts, 'bench', 'kg', 'epley', new Date('2024-03-29'));
+      expect(summary).toContain('Bench Press (4 sessions)');
+      expect(summary).toContain('Stalled: best e1RM 117 kg was 4 weeks ago (Mar 1)');
+    });
+  });
+});
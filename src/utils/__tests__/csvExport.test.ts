@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import { Workout, PlannedWorkout } from '@/types/workout';
+import { SleepLog, RecoveryLog } from '@/types/sleep';
+import {
+  buildPlannedWorkoutRows,
+  buildRecoveryLogRows,
+  buildSetRows,
+  buildSleepLogRows,
+  SET_CSV_HEADERS,
+  toCsv,
+} from '../csvExport';
+
+const workout = (date: Date, overrides: Partial<Workout> = {}): Workout => ({
+  userId: 'user-1',
+  date,
+  startTime: date,
+  totalDuration: 60,
+  totalVolume: 0,
+  musclesTargeted: [],
+  workoutType: 'strength',
+  exercises: [{
+    id: `ex-${date.getTime()}`,
+    exerciseId: 'bench',
+    exerciseName: 'Bench Press',
+    sets: [{ setNumber: 1, weight: 100, reps: 5, unit: 'kg', completed: true }],
+    totalVolume: 500,
+    musclesWorked: [],
+    timestamp: date,
+  }],
+  ...overrides,
+});
+
+describe('csvExport', () => {
+  it('should quote fields with commas, quotes and line breaks', () => {
+    const csv = toCsv({
+      headers: ['A', 'B', 'C', 'D'],
+      rows: [['plain', 'one, two', 'say "hi"', 'line\nbreak']],
+    });
+    expect(csv).toBe('A,B,C,D\r\nplain,"one, two","say ""hi""","line\nbreak"');
+  });
+
+  it('should neutralise text that a spreadsheet would run as a formula', () => {
+    const csv = toCsv({
+      headers: ['Notes'],
+      rows: [['=SUM(A1:A9)'], ['+1'], ['-drop set'], ['@cmd'], ['\tindented'], ['=A1,B1'], [-2.5]],
+    });
+    expect(csv.split('\r\n').slice(1)).toEqual([
+      "'=SUM(A1:A9)",
+      "'+1",
+      "'-drop set",
+      "'@cmd",
+      "'\tindented",
+      `"'=A1,B1"`,
+      // Numbers are written as numbers
+      '-2.5',
+    ]);
+  });
+
+  it('should write empty cells for missing values and format dates and booleans', () => {
+    const csv = toCsv({
+      headers: ['Empty', 'Missing', 'Date', 'Done', 'Count'],
+      rows: [[null, undefined, new Date(2026, 0, 5, 7, 3), false, 0]],
+    });
+    expect(csv.split('\r\n')[1]).toBe(',,2026-01-05 07:03,false,0');
+  });
+
+  it('should write one row per set in the header column order', () => {
+    const table = buildSetRows([workout(new Date(2026, 0, 5, 18, 30), {
+      exercises: [{
+        id: 'ex-1',
+        exerciseId: 'row',
+        exerciseName: 'Single-Arm Row',
+        sets: [
+          { setNumber: 1, weight: 30, reps: 10, unit: 'kg', rpe: 8, restTime: 90, sides: 'left', setType: 'warmup', completed: true, notes: 'Slow' },
+          { setNumber: 2, reps: 12, unit: 'kg', completed: false },
+        ],
+        totalVolume: 300,
+        musclesWorked: [],
+        timestamp: new Date(2026, 0, 5, 18, 30),
+      }, {
+        id: 'ex-2',
+        exerciseId: 'run',
+        exerciseName: 'Treadmill Run',
+        sets: [{ setNumber: 1, distance: 5, distanceUnit: 'km', time: 1500, completed: true }],
+        totalVolume: 0,
+        musclesWorked: [],
+        timestamp: new Date(2026, 0, 5, 18, 30),
+      }],
+    })]);
+
+    expect(table.headers).toBe(SET_CSV_HEADERS);
+    const byHeader = table.rows.map(row => Object.fromEntries(SET_CSV_HEADERS.map((header, index) => [header, row[index]])));
+    expect(byHeader[0]).toEqual({
+      Date: '2026-01-05 18:30',
+      Workout: 'Strength',
+      Exercise: 'Single-Arm Row',
+      'Set Number': 1,
+      'Set Type': 'warmup',
+      Weight: 30,
+      Unit: 'kg',
+      Reps: 10,
+      RPE: 8,
+      'Rest (s)': 90,
+      Side: 'left',
+      Distance: undefined,
+      'Distance Unit': undefined,
+      'Duration (s)': undefined,
+      Completed: true,
+      Notes: 'Slow',
+    });
+    // Units are only written next to a value they describe
+    expect(byHeader[1]).toMatchObject({ 'Set Type': 'working', Weight: undefined, Unit: undefined, Completed: false });
+    expect(byHeader[2]).toMatchObject({ Distance: 5, 'Distance Unit': 'km', 'Duration (s)': 1500 });
+  });
+
+  it('should filter set rows by date range, exercise and deletion, oldest first', () => {
+    const workouts = [
+      workout(new Date(2026, 0, 20, 9, 0)),
+      workout(new Date(2026, 0, 10, 23, 59)),
+      workout(new Date(2026, 0, 1, 9, 0)),
+      workout(new Date(2026, 0, 12, 9, 0), { deletedAt: new Date(2026, 0, 13) }),
+    ];
+
+    const ranged = buildSetRows(workouts, { startDate: new Date(2026, 0, 10, 12, 0), endDate: new Date(2026, 0, 20) });
+    expect(ranged.rows.map(row => row[0])).toEqual(['2026-01-10 23:59', '2026-01-20 09:00']);
+    expect(buildSetRows(workouts, { exerciseIds: ['squat'] }).rows).toEqual([]);
+    expect(buildSetRows(workouts, { exerciseIds: ['bench'] }).rows).toHaveLength(3);
+  });
+
+  it('should build sleep, recovery and planned workout tables', () => {
+    const sleep: SleepLog = {
+      userId: 'user-1',
+      date: new Date(2026, 0, 4),
+      bedtime: new Date(2026, 0, 4, 23, 15),
+      wakeTime: new Date(2026, 0, 5, 7, 0),
+      duration: 465,
+      quality: 8,
+    };
+    expect(toCsv(buildSleepLogRows([sleep]))).toBe(
+      'Date,Bedtime,Wake Time,Duration (min),Quality,Notes\r\n2026-01-04,2026-01-04 23:15,2026-01-05 07:00,465,8,'
+    );
+
+    const recovery: RecoveryLog = {
+      userId: 'user-1',
+      date: new Date(2026, 0, 5),
+      overallRecovery: 80,
+      stressLevel: 3,
+      energyLevel: 7,
+      soreness: 4,
+      readinessToTrain: 'full-power',
+      notes: 'Legs, a bit tight',
+    };
+    expect(toCsv(buildRecoveryLogRows([recovery])).split('\r\n')[1]).toBe('2026-01-05,80,3,7,4,full-power,"Legs, a bit tight"');
+
+    const planned: PlannedWorkout = {
+      id: 'planned-1',
+      userId: 'user-1',
+      scheduledDate: new Date(2026, 0, 7),
+      workoutName: 'Push',
+      category: 'strength',
+      estimatedDuration: 60,
+      exercises: [
+        { exerciseId: 'bench', exerciseName: 'Bench Press', sets: 3, reps: 5, weight: 100, restTime: 180 },
+        { exerciseId: 'dips', exerciseName: 'Dips', sets: 3, reps: 10 },
+      ],
+      musclesTargeted: [],
+      isCompleted: false,
+      createdAt: new Date(2026, 0, 1),
+      updatedAt: new Date(2026, 0, 1),
+    };
+    const plannedTable = buildPlannedWorkoutRows([planned], { exerciseIds: ['dips'] });
+    expect(plannedTable.headers).toEqual(['Date', 'Workout', 'Category', 'Exercise', 'Sets', 'Reps', 'Weight', 'Rest (s)', 'Completed', 'Notes']);
+    expect(toCsv(plannedTable).split('\r\n').slice(1)).toEqual(['2026-01-07,Push,strength,Dips,3,10,,,false,']);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { Exercise, WorkoutSet } from '@/types/exercise';
+import { MuscleGroup } from '@/types/muscle';
+import { carryOverSets, getMovementPattern, rankSubstitutes } from '../exerciseSubstitution';
+
+const exercise = (id: string, name: string, equipment: string[], primaryMuscles: MuscleGroup[], secondaryMuscles: MuscleGroup[] = []): Exercise => ({
+  id,
+  name,
+  category: 'strength',
+  primaryMuscles,
+  secondaryMuscles,
+  equipment,
+  difficulty: 'intermediate',
+  instructions: [],
+  isCustom: false,
+  trackingType: 'weight_reps',
+});
+
+const bench = exercise('bench', 'Barbell Bench Press', ['Barbell', 'Bench'], [MuscleGroup.CHEST, MuscleGroup.FRONT_DELTS], [MuscleGroup.TRICEPS]);
+const dumbbellBench = exercise('db-bench', 'Dumbbell Bench Press', ['Dumbbells', 'Bench'], [MuscleGroup.CHEST, MuscleGroup.FRONT_DELTS], [MuscleGroup.TRICEPS]);
+const machinePress = exercise('machine-press', 'Machine Chest Press', ['Chest Press Machine'], [MuscleGroup.CHEST], [MuscleGroup.TRICEPS]);
+const pushUp = exercise('push-up', 'Push-ups', [], [MuscleGroup.CHEST], [MuscleGroup.TRICEPS]);
+const squat = exercise('squat', 'Barbell Back Squat', ['Barbell', 'Squat Rack'], [MuscleGroup.QUADS, MuscleGroup.GLUTES]);
+
+describe('exerciseSubstitution', () => {
+  it('should classify movement patterns from exercise names', () => {
+    expect(getMovementPattern(bench)).toBe('horizontal_push');
+    expect(getMovementPattern({ name: 'Lying Leg Curl' })).toBe('knee_flexion');
+    expect(getMovementPattern({ name: 'EZ Bar Curl' })).toBe('elbow_flexion');
+    expect(getMovementPattern({ name: 'Lat Pulldown' })).toBe('vertical_pull');
+  });
+
+  it('should rank same-movement, same-muscle lifts first and leave out unrelated or unavailable ones', () => {
+    const ranked = rankSubstitutes(bench, [squat, pushUp, machinePress, dumbbellBench], {
+      reason: 'equipment_busy',
+      equipment: ['Dumbbells', 'Bench', 'Barbell'],
+    });
+    expect(ranked.map(suggestion => suggestion.exercise.id)).toEqual(['db-bench', 'push-up']);
+    expect(ranked[0].reasons).toContain('Same movement');
+  });
+
+  it('should favour what the user swapped to before among close matches', () => {
+    const context = { reason: 'preference' as const, equipment: ['Full Gym'] };
+    expect(rankSubstitutes(bench, [pushUp, machinePress], context)[0].exercise.id).toBe('machine-press');
+
+    const ranked = rankSubstitutes(bench, [pushUp, machinePress], { ...context, previousSwaps: { 'push-up': 1 } });
+    expect(ranked[0].exercise.id).toBe('push-up');
+    expect(ranked[0].reasons).toContain('Your usual swap');
+  });
+
+  it('should carry pending sets over, clearing loads that do not transfer', () => {
+    const sets: WorkoutSet[] = [
+      { setNumber: 1, weight: 40, reps: 5, unit: 'kg', setType: 'warmup', completed: false },
+      { setNumber: 2, weight: 100, reps: 5, unit: 'kg', completed: true },
+      { setNumber: 3, weight: 100, reps: 5, unit: 'kg', targetRepsMin: 5, targetRpe: 8, completed: false },
+    ];
+    expect(carryOverSets(sets, bench, dumbbellBench)).toEqual([
+      { setNumber: 1, weight: 0, reps: 5, unit: 'kg', targetRepsMin: 5, targetRpe: 8, completed: false },
+    ]);
+    expect(carryOverSets(sets.slice(0, 2), bench, squat)).toMatchObject([{ setNumber: 1, weight: 100, reps: 5, completed: false }]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { Blob as NodeBlob } from 'node:buffer';
+import { streamJsonObject, JsonStreamEvent } from '@/utils/jsonStreamReader';
+
+// jsdom's Blob has no arrayBuffer(); Node's implementation matches the browser API
+const toBlob = (text: string) => new NodeBlob([text]) as unknown as Blob;
+
+async function collect(text: string, chunkSize?: number): Promise<JsonStreamEvent[]> {
+  const events: JsonStreamEvent[] = [];
+  for await (const event of streamJsonObject(toBlob(text), chunkSize)) {
+    if (event.type !== 'progress') {
+      events.push(event);
+    }
+  }
+  return events;
+}
+
+describe('streamJsonObject', () => {
+  const data = {
+    version: '2.0.0',
+    dataCounts: { workouts: 2 },
+    workouts: [{ notes: 'Fèrst, "quoted" ]}', sets: [1, [2, {}]] }, { notes: null }],
+    templates: [],
+    settings: { appSettings: { units: 'kg' } },
+  };
+
+  it('should emit top-level values and array items in order', async () => {
+    const events = await collect(JSON.stringify(data, null, 2));
+    expect(events.map(e => e.type)).toEqual([
+      'value', 'value', 'arrayStart', 'item', 'item', 'arrayEnd', 'arrayStart', 'arrayEnd', 'value',
+    ]);
+    expect(events[1]).toEqual({ type: 'value', key: 'dataCounts', value: { workouts: 2 } });
+    expect(events[5]).toEqual({ type: 'arrayEnd', key: 'workouts', count: 2 });
+  });
+
+  it('should produce identical records regardless of chunk boundaries', async () => {
+    const text = JSON.stringify(data);
+    for (const chunkSize of [1, 3, 7]) {
+      const items = (await collect(text, chunkSize))
+        .filter((e): e is Extract<JsonStreamEvent, { type: 'item' }> => e.type === 'item')
+        .map(e => JSON.parse(e.raw));
+      expect(items).toEqual(data.workouts);
+    }
+  });
+
+  it('should reject truncated files', async () => {
+    await expect(collect('{"workouts": [{"a": 1}, ')).rejects.toThrow(/truncated/);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { calculateBodyweightTrend, convertLength, getBodyweightAt } from '@/utils/measurementHelpers';
+import { BodyMeasurement } from '@/types/measurement';
+
+const entry = (date: string, weight?: number): BodyMeasurement => ({
+  id: `m-${date}`,
+  userId: 'user-1',
+  date: new Date(`${date}T07:00:00`),
+  weight,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+describe('measurementHelpers', () => {
+  describe('calculateBodyweightTrend', () => {
+    it('should start at the first weigh-in and smooth later ones', () => {
+      const points = calculateBodyweightTrend([entry('2024-01-02', 82), entry('2024-01-01', 80)], 0.1);
+      expect(points.map(p => p.trend)).toEqual([80, 80.2]);
+    });
+
+    it('should weight gaps by the number of days skipped', () => {
+      const points = calculateBodyweightTrend([entry('2024-01-01', 80), entry('2024-01-08', 90)], 0.1);
+      expect(points[1].trend).toBeCloseTo(80 + (1 - Math.pow(0.9, 7)) * 10, 2);
+    });
+
+    it('should ignore entries without a weight', () => {
+      expect(calculateBodyweightTrend([entry('2024-01-01'), entry('2024-01-02', 80)])).toHaveLength(1);
+    });
+  });
+
+  describe('getBodyweightAt', () => {
+    const log = [entry('2024-01-01', 80), entry('2024-01-10', 78), entry('2024-01-20', 77)];
+
+    it('should use the latest weigh-in on or before the day', () => {
+      expect(getBodyweightAt(log, new Date('2024-01-15T18:00:00'))).toBe(78);
+      expect(getBodyweightAt(log, new Date('2024-01-10T06:00:00'))).toBe(78);
+    });
+
+    it('should return undefined before the first weigh-in', () => {
+      expect(getBodyweightAt(log, new Date('2023-12-31T12:00:00'))).toBeUndefined();
+    });
+  });
+
+  it('should convert between centimetres and inches', () => {
+    expect(convertLength(10, 'in', 'cm')).toBeCloseTo(25.4);
+    expect(convertLength(25.4, 'cm', 'in')).toBeCloseTo(10);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { NutritionLog } from '@/types/nutrition';
+import {
+  buildNutritionEvents,
+  calculateNutritionTargets,
+  getRecentNutritionAdherence,
+} from '../nutritionHelpers';
+
+function log(date: Date, entry: Partial<NutritionLog>): NutritionLog {
+  return {
+    id: `log-${date.getTime()}`,
+    userId: 'user-1',
+    date,
+    type: 'meal',
+    createdAt: date,
+    updatedAt: date,
+    ...entry,
+  };
+}
+
+describe('nutritionHelpers', () => {
+  it('should derive targets from bodyweight and goals', () => {
+    const cut = calculateNutritionTargets(80, ['lose_fat', 'build_muscle']);
+    expect(cut.protein).toBe(176); // 2.2 g/kg
+    expect(cut.calories).toBe(2112); // 80 * 33 * 0.8
+    expect(cut.fat).toBe(59);
+    expect(cut.carbs).toBe(219);
+    expect(cut.waterMl).toBe(2750);
+
+    const defaults = calculateNutritionTargets(undefined, []);
+    expect(defaults.protein).toBe(120); // 75 kg at 1.6 g/kg
+  });
+
+  it('should only judge the last 24 hours and ignore water when none was logged', () => {
+    const now = new Date(2026, 9, 19, 20, 0);
+    const targets = calculateNutritionTargets(80, ['build_muscle']);
+
+    expect(getRecentNutritionAdherence([log(new Date(2026, 9, 18, 12, 0), { protein: 100 })], targets, now)).toBeUndefined();
+
+    const adherence = getRecentNutritionAdherence([
+      log(new Date(2026, 9, 19, 8, 0), { protein: 40, calories: 600 }),
+      log(new Date(2026, 9, 19, 13, 0), { protein: 40, calories: 900 }),
+      log(new Date(2026, 9, 19, 14, 0), { type: 'supplement', supplement: 'creatine', doseMg: 5000 }),
+    ], targets, now);
+
+    expect(adherence?.protein).toBeCloseTo(0.5);
+    expect(adherence?.water).toBeUndefined();
+  });
+
+  it('should build today\'s timeline relative to today\'s workout', () => {
+    const now = new Date(2026, 9, 19, 20, 0);
+    const events = buildNutritionEvents([
+      log(new Date(2026, 9, 19, 16, 0), { name: 'Oats', carbs: 60, protein: 10 }),
+      log(new Date(2026, 9, 19, 18, 45), { name: 'Shake', protein: 30 }),
+      log(new Date(2026, 9, 19, 17, 0), { type: 'water', waterMl: 500 }),
+      log(new Date(2026, 9, 18, 18, 0), { name: 'Yesterday', protein: 50 }),
+    ], { startTime: new Date(2026, 9, 19, 17, 0), endTime: new Date(2026, 9, 19, 18, 15) }, now);
+
+    expect(events).toEqual([
+      expect.objectContaining({ title: 'Shake', type: 'protein', relativeTime: '18:45 · 30 min post-workout' }),
+      expect.objectContaining({ title: 'Oats', type: 'carb', relativeTime: '16:00 · 60 min pre-workout' }),
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { EquipmentInventory } from '@/types/equipment';
+import {
+  calculatePlateBreakdown,
+  DEFAULT_EQUIPMENT_INVENTORY,
+  formatPlateBreakdown,
+  getAchievableBarbellLoads,
+  getLoadEquipmentKind,
+  snapToAvailableLoad,
+} from '../plateCalculator';
+
+const homeGym: EquipmentInventory = {
+  barbells: [
+    { id: 'olympic', name: 'Olympic bar', weight: 20, unit: 'kg' },
+    { id: 'ez', name: 'EZ bar', weight: 10, unit: 'kg' },
+  ],
+  plates: [
+    { weight: 10, unit: 'kg', pairs: 1 },
+    { weight: 5, unit: 'kg', pairs: 1 },
+    { weight: 1.25, unit: 'kg', pairs: 2 },
+  ],
+  dumbbells: [{ unit: 'kg', weights: [5, 7.5, 10] }],
+  machines: [{ increment: 2.5, unit: 'kg' }],
+};
+
+describe('plateCalculator', () => {
+  it('should classify equipment by how its load is built', () => {
+    expect(getLoadEquipmentKind(['Barbell', 'Bench'])).toBe('barbell');
+    expect(getLoadEquipmentKind(['EZ Bar'])).toBe('barbell');
+    expect(getLoadEquipmentKind(['Kettlebell'])).toBe('dumbbell');
+    expect(getLoadEquipmentKind(['Cable Machine'])).toBe('machine');
+    expect(getLoadEquipmentKind(['Bodyweight'])).toBe('other');
+  });
+
+  it('should load each side with the fewest plates', () => {
+    const breakdown = calculatePlateBreakdown(100, 'kg', DEFAULT_EQUIPMENT_INVENTORY);
+    expect(breakdown).toMatchObject({
+      barbell: { id: 'olympic-20kg' },
+      platesPerSide: [{ weight: 20, count: 2 }],
+      achievedWeight: 100,
+      exact: true,
+    });
+    expect(breakdown && formatPlateBreakdown(breakdown)).toBe('20kg bar + 2×20 per side');
+
+    const odd = calculatePlateBreakdown(142.5, 'kg', DEFAULT_EQUIPMENT_INVENTORY);
+    expect(odd?.platesPerSide).toEqual([
+      { weight: 25, count: 1 },
+      { weight: 20, count: 1 },
+      { weight: 15, count: 1 },
+      { weight: 1.25, count: 1 },
+    ]);
+  });
+
+  it('should pick a bar in the requested unit unless one is set as default', () => {
+    const lbs = calculatePlateBreakdown(225, 'lbs', DEFAULT_EQUIPMENT_INVENTORY);
+    expect(lbs).toMatchObject({ barbell: { id: 'olympic-45lb' }, platesPerSide: [{ weight: 45, count: 2 }], exact: true });
+
+    const ezDefault = { ...homeGym, defaultBarbellId: 'ez' };
+    expect(calculatePlateBreakdown(40, 'kg', ezDefault)).toMatchObject({
+      barbell: { id: 'ez' },
+      platesPerSide: [{ weight: 10, count: 1 }, { weight: 5, count: 1 }],
+    });
+    expect(calculatePlateBreakdown(40, 'kg', ezDefault, 'olympic')?.platesPerSide).toEqual([{ weight: 10, count: 1 }]);
+    expect(calculatePlateBreakdown(40, 'kg', ezDefault, 'missing')).toBeNull();
+  });
+
+  it('should fall back to the closest buildable load without overshooting on ties', () => {
+    // 47.5 needs 13.75 per side; 12.5 and 15 are equally close
+    expect(calculatePlateBreakdown(47.5, 'kg', homeGym)).toMatchObject({ achievedWeight: 45, exact: false });
+    expect(calculatePlateBreakdown(200, 'kg', homeGym)).toMatchObject({ achievedWeight: 55, exact: false });
+    expect(calculatePlateBreakdown(10, 'kg', homeGym)).toMatchObject({ achievedWeight: 20, platesPerSide: [] });
+    const barOnly = calculatePlateBreakdown(20, 'kg', homeGym);
+    expect(barOnly && formatPlateBreakdown(barOnly)).toBe('20kg bar only');
+  });
+
+  it('should list every buildable barbell load', () => {
+    expect(getAchievableBarbellLoads(homeGym, 'kg')).toEqual([
+      20, 22.5, 25, 30, 32.5, 35, 40, 42.5, 45, 50, 52.5, 55,
+    ]);
+    expect(getAchievableBarbellLoads({ ...homeGym, barbells: [] }, 'kg')).toEqual([]);
+  });
+
+  it('should convert plates and bars when the inventory has none in the requested unit', () => {
+    const breakdown = calculatePlateBreakdown(100, 'lbs', homeGym);
+    expect(breakdown?.barbell.id).toBe('olympic');
+    expect(breakdown?.achievedWeight).toBeCloseTo(99.2, 1);
+  });
+
+  it('should snap targets to loads the equipment can build', () => {
+    expect(snapToAvailableLoad(101, 'kg', ['Barbell'])).toBe(100);
+    expect(snapToAvailableLoad(47, 'kg', ['Barbell'], homeGym)).toBe(45);
+    // Dumbbell loads are the pair's combined weight
+    expect(snapToAvailableLoad(43, 'kg', ['Dumbbells'])).toBe(44);
+    expect(snapToAvailableLoad(16, 'kg', ['Dumbbells'], homeGym)).toBe(15);
+    expect(snapToAvailableLoad(23, 'kg', ['Cable Machine'])).toBe(25);
+    expect(snapToAvailableLoad(1, 'kg', ['Cable Machine'])).toBe(5);
+    expect(snapToAvailableLoad(57, 'lbs', ['Cable Machine'])).toBe(60);
+    expect(snapToAvailableLoad(23.3, 'kg', ['Bodyweight'])).toBe(23.3);
+    expect(snapToAvailableLoad(0, 'kg', ['Barbell'])).toBe(0);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { buildProgramWeeks, getProgramSessionDate, applyProgramWeek } from '@/utils/programHelpers';
+
+describe('programHelpers', () => {
+  describe('buildProgramWeeks', () => {
+    it('should create one entry per week', () => {
+      const weeks = buildProgramWeeks(8);
+      expect(weeks).toHaveLength(8);
+      expect(weeks[0].weekNumber).toBe(1);
+      expect(weeks[7].weekNumber).toBe(8);
+    });
+
+    it('should mark every Nth week as deload', () => {
+      const weeks = buildProgramWeeks(8, {
+        loadIncreasePerWeek: 5,
+        volumeIncreasePerWeek: 0,
+        deloadEvery: 4,
+        deloadIntensity: 0.5,
+        deloadVolume: 0.5,
+      });
+      expect(weeks.filter(w => w.isDeload).map(w => w.weekNumber)).toEqual([4, 8]);
+    });
+
+    it('should progress load across training weeks only', () => {
+      const weeks = buildProgramWeeks(5, {
+        loadIncreasePerWeek: 10,
+        volumeIncreasePerWeek: 0,
+        deloadEvery: 3,
+        deloadIntensity: 0.5,
+        deloadVolume: 1,
+      });
+      expect(weeks[0].intensityMultiplier).toBe(1);
+      expect(weeks[1].intensityMultiplier).toBe(1.1);
+      expect(weeks[2].intensityMultiplier).toBe(0.55);
+      expect(weeks[3].intensityMultiplier).toBe(1.21);
+    });
+  });
+
+  describe('getProgramSessionDate', () => {
+    it('should place sessions on the next matching weekday', () => {
+      // 2024-01-01 is a Monday
+      const start = new Date(2024, 0, 1);
+      const wednesday = getProgramSessionDate(start, 1, { dayOfWeek: 3, templateId: 't' });
+      expect(wednesday.getDate()).toBe(3);
+
+      const sundayWeek2 = getProgramSessionDate(start, 2, { dayOfWeek: 0, templateId: 't' });
+      expect(sundayWeek2.getDate()).toBe(14);
+    });
+  });
+
+  describe('applyProgramWeek', () => {
+    it('should scale sets and round loads', () => {
+      const [exercise] = applyProgramWeek(
+        [{ exerciseId: 'e', exerciseName: 'Squat', sets: 4, reps: 5, weight: 100 }],
+        { weekNumber: 2, isDeload: false, intensityMultiplier: 1.03, volumeMultiplier: 0.5 }
+      );
+      expect(exercise.sets).toBe(2);
+      expect(exercise.weight).toBe(102.5);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { WorkoutSet } from '@/types/exercise';
+import {
+  calculateProgressionTarget,
+  getLoadIncrement,
+  ProgressionSession,
+  selectProgressionRule,
+} from '../progressionEngine';
+
+const barbell = { equipment: ['Barbell', 'Bench'], category: 'strength' as const };
+const dumbbell = { equipment: ['Dumbbells'], category: 'strength' as const };
+
+const session = (date: string, sets: Array<[number, number, number?]>, unit: 'kg' | 'lbs' = 'kg'): ProgressionSession => ({
+  date: new Date(date),
+  sets: sets.map(([weight, reps, rpe], index): WorkoutSet => ({
+    setNumber: index + 1,
+    weight,
+    reps,
+    rpe,
+    unit,
+    completed: true,
+  })),
+});
+
+describe('progressionEngine', () => {
+  it('should size load jumps by equipment and unit', () => {
+    expect(getLoadIncrement(['Barbell'], 'kg')).toBe(2.5);
+    expect(getLoadIncrement(['Dumbbells'], 'kg')).toBe(2);
+    expect(getLoadIncrement(['Cable Machine'], 'lbs')).toBe(10);
+  });
+
+  it('should pick a rule from the equipment and whether sets were rated', () => {
+    expect(selectProgressionRule(barbell, [session('2026-01-05', [[100, 5], [100, 5]])])).toBe('linear_load');
+    expect(selectProgressionRule(dumbbell, [session('2026-01-05', [[20, 10], [20, 10]])])).toBe('double_progression');
+    expect(selectProgressionRule(dumbbell, [session('2026-01-05', [[20, 10, 8], [20, 10, 9]])])).toBe('rpe_autoregulation');
+    // The RPE LogExercise prefills doesn't count as a rating
+    expect(selectProgressionRule(barbell, [session('2026-01-05', [[100, 5, 7.5], [100, 5, 7.5]])])).toBe('linear_load');
+  });
+
+  it('should add load after a clean linear session, repeat after missed reps and deload after a stall', () => {
+    const clean = calculateProgressionTarget(barbell, [session('2026-01-05', [[100, 5], [100, 5], [100, 5]])], { unit: 'kg' });
+    expect(clean).toMatchObject({ weight: 102.5, reps: 5, rule: 'linear_load' });
+
+    const missed = [session('2026-01-08', [[100, 5], [100, 4]]), session('2026-01-05', [[97.5, 5], [97.5, 5]])];
+    expect(calculateProgressionTarget(barbell, missed, { unit: 'kg' })).toMatchObject({ weight: 100, reps: 5 });
+
+    const stalled = [session('2026-01-08', [[100, 5], [100, 4]]), session('2026-01-05', [[100, 5], [100, 3]])];
+    expect(calculateProgressionTarget(barbell, stalled, { unit: 'kg' })).toMatchObject({ weight: 90, reps: 5 });
+  });
+
+  it('should climb the rep range before adding load with double progression', () => {
+    expect(calculateProgressionTarget(dumbbell, [session('2026-01-05', [[20, 10], [20, 9]])], { unit: 'kg' }))
+      .toMatchObject({ weight: 20, reps: 10, rule: 'double_progression' });
+    expect(calculateProgressionTarget(dumbbell, [session('2026-01-05', [[20, 12], [20, 12]])], { unit: 'kg' }))
+      .toMatchObject({ weight: 22, reps: 8 });
+  });
+
+  it('should autoregulate from the last RPE and honour a forced rule', () => {
+    const rated = [session('2026-01-05', [[100, 5, 7], [100, 5, 7]])];
+    expect(calculateProgressionTarget(barbell, rated, { unit: 'kg', targetRpe: 8 }))
+      .toMatchObject({ weight: 102.5, reps: 5, rpe: 8, rule: 'rpe_autoregulation' });
+    expect(calculateProgressionTarget(barbell, rated, { unit: 'kg', rule: 'linear_load' }))
+      .toMatchObject({ weight: 102.5, rule: 'linear_load' });
+  });
+
+  it('should leave warm-up sets out of rule selection and targets', () => {
+    const warmedUp = session('2026-01-05', [[60, 8], [100, 5, 7], [100, 5, 7]]);
+    warmedUp.sets[0].setType = 'warmup';
+    expect(selectProgressionRule(barbell, [warmedUp])).toBe('rpe_autoregulation');
+    expect(calculateProgressionTarget(barbell, [warmedUp], { unit: 'kg', targetRpe: 8 }))
+      .toMatchObject({ weight: 102.5, reps: 5, rule: 'rpe_autoregulation' });
+
+    const warmupsOnly = session('2026-01-05', [[60, 8], [80, 3]]);
+    warmupsOnly.sets.forEach(set => { set.setType = 'warmup'; });
+    expect(calculateProgressionTarget(barbell, [warmupsOnly], { unit: 'kg' })).toBeNull();
+  });
+
+  it('should convert logged units, snap to buildable loads and need a completed set', () => {
+    const inLbs = [session('2026-01-05', [[225, 5], [225, 5]], 'lbs')];
+    expect(calculateProgressionTarget(barbell, inLbs, { unit: 'kg' })?.weight).toBe(105);
+    expect(calculateProgressionTarget(barbell, inLbs, { unit: 'kg', snapLoad: weight => Math.floor(weight / 10) * 10 })?.weight).toBe(100);
+
+    const unfinished = { date: new Date('2026-01-05'), sets: [{ setNumber: 1, weight: 100, reps: 5, unit: 'kg' as const, completed: false }] };
+    expect(calculateProgressionTarget(barbell, [unfinished], { unit: 'kg' })).toBeNull();
+  });
+});
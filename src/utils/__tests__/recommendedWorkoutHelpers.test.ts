@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { Exercise } from '@/types/exercise';
+import { MuscleGroup, MuscleStatus } from '@/types/muscle';
+import {
+  estimateWorkoutMinutes,
+  fitExercisesToTime,
+  hasEquipmentFor,
+  isRecoveredFor,
+  resolveExercisePicks,
+  selectExercisesForWorkout,
+} from '../recommendedWorkoutHelpers';
+
+function exercise(id: string, name: string, equipment: string[], primaryMuscles: MuscleGroup[], secondaryMuscles: MuscleGroup[] = []): Exercise {
+  return {
+    id,
+    name,
+    category: 'strength',
+    primaryMuscles,
+    secondaryMuscles,
+    equipment,
+    difficulty: 'intermediate',
+    instructions: [],
+    isCustom: false,
+    trackingType: 'weight_reps',
+  };
+}
+
+const benchPress = exercise('bench', 'Barbell Bench Press', ['Barbell', 'Bench'], [MuscleGroup.CHEST], [MuscleGroup.TRICEPS, MuscleGroup.FRONT_DELTS]);
+const dumbbellFly = exercise('fly', 'Dumbbell Fly', ['Dumbbells', 'Bench'], [MuscleGroup.CHEST]);
+const pushUp = exercise('pushup', 'Push-up', [], [MuscleGroup.CHEST], [MuscleGroup.TRICEPS]);
+const squat = exercise('squat', 'Barbell Squat', ['Barbell', 'Squat Rack'], [MuscleGroup.QUADS], [MuscleGroup.GLUTES]);
+
+function status(muscle: MuscleGroup, recoveryPercentage: number): MuscleStatus {
+  return {
+    muscle,
+    lastWorked: new Date(),
+    recoveryStatus: 'recovering',
+    recoveryPercentage,
+    workloadScore: 0,
+    recommendedRestDays: 1,
+    totalVolumeLast7Days: 0,
+    trainingFrequency: 1,
+  };
+}
+
+describe('recommendedWorkoutHelpers', () => {
+  it('should only allow exercises the listed equipment covers', () => {
+    expect(hasEquipmentFor(benchPress, ['Full Gym'])).toBe(true);
+    expect(hasEquipmentFor(benchPress, ['Dumbbells', 'Bench'])).toBe(false);
+    expect(hasEquipmentFor(dumbbellFly, ['Dumbbells', 'Bench'])).toBe(true);
+    expect(hasEquipmentFor(benchPress, ['Free Weights'])).toBe(true);
+    expect(hasEquipmentFor(pushUp, ['Dumbbells'])).toBe(true);
+  });
+
+  it('should leave out exercises whose primary muscles are still recovering', () => {
+    const statuses = [status(MuscleGroup.CHEST, 40), status(MuscleGroup.TRICEPS, 20)];
+    expect(isRecoveredFor(benchPress, statuses)).toBe(false);
+    expect(isRecoveredFor(squat, statuses)).toBe(true);
+  });
+
+  it('should pick exercises for the target muscles within the time available', () => {
+    const selected = selectExercisesForWorkout([squat, dumbbellFly, benchPress, pushUp], [MuscleGroup.CHEST], 'medium', 30);
+    expect(selected[0].exerciseId).toBe('bench');
+    expect(selected.map(e => e.exerciseId)).not.toContain('squat');
+    expect(estimateWorkoutMinutes(selected)).toBeLessThanOrEqual(30);
+  });
+
+  it('should trim sets before dropping exercises', () => {
+    const selected = resolveExercisePicks(
+      [{ exerciseId: 'bench', sets: 5, reps: 5, restSeconds: 180 }, { exerciseId: 'fly', sets: 3, reps: 12 }],
+      [benchPress, dumbbellFly],
+      'medium'
+    );
+    const fitted = fitExercisesToTime(selected, 22);
+    expect(fitted.map(e => [e.exerciseId, e.sets])).toEqual([['bench', 3], ['fly', 3]]);
+  });
+
+  it('should map AI picks by ID, then by name, and drop unknown exercises', () => {
+    const resolved = resolveExercisePicks(
+      [
+        { exerciseId: 'made-up-id', exerciseName: 'dumbbell fly', sets: 3, reps: 12 },
+        { exerciseId: 'bench', sets: 4, reps: 6 },
+        { exerciseId: 'cable-crossover', exerciseName: 'Cable Crossover', sets: 3, reps: 15 },
+      ],
+      [benchPress, dumbbellFly],
+      'high'
+    );
+    expect(resolved.map(e => e.exerciseId)).toEqual(['fly', 'bench']);
+    expect(resolved[1]).toMatchObject({ sets: 4, reps: 6, restTime: 150 });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { PlannedWorkout } from '@/types/workout';
+import { PersonalRecord } from '@/types/analytics';
+import {
+  calculateAdherence,
+  getLastCompletedRange,
+  getPersonalRecordsInRange,
+  getReportRange,
+  shiftReportRange,
+} from '../reportHelpers';
+
+function record(exerciseName: string, maxWeight: number, date: Date): PersonalRecord {
+  return { exerciseId: exerciseName, exerciseName, maxWeight, maxReps: 5, date, workoutId: 'w' };
+}
+
+function planned(scheduledDate: Date, isCompleted: boolean, deletedAt: Date | null = null): PlannedWorkout {
+  return {
+    id: `planned-${scheduledDate.getTime()}`,
+    userId: 'user-1',
+    scheduledDate,
+    workoutName: 'Workout',
+    category: 'strength',
+    estimatedDuration: 60,
+    exercises: [],
+    musclesTargeted: [],
+    isCompleted,
+    createdAt: scheduledDate,
+    updatedAt: scheduledDate,
+    deletedAt,
+  };
+}
+
+describe('reportHelpers', () => {
+  it('should use Monday-Sunday weeks and calendar months', () => {
+    const week = getReportRange('week', new Date(2026, 9, 15)); // Thursday
+    expect(week.start).toEqual(new Date(2026, 9, 12));
+    expect(week.end.getDate()).toBe(18);
+
+    const lastMonth = getLastCompletedRange('month', new Date(2026, 2, 10));
+    expect(lastMonth.start).toEqual(new Date(2026, 1, 1));
+    expect(lastMonth.end.getDate()).toBe(28);
+    expect(shiftReportRange(lastMonth, 1).start).toEqual(new Date(2026, 2, 1));
+  });
+
+  it('should count completed planned workouts in the range and ignore deleted ones', () => {
+    const range = getReportRange('week', new Date(2026, 9, 15));
+    const adherence = calculateAdherence([
+      planned(new Date(2026, 9, 12), true),
+      planned(new Date(2026, 9, 14), false),
+      planned(new Date(2026, 9, 16), true),
+      planned(new Date(2026, 9, 17), false, new Date()),
+      planned(new Date(2026, 9, 20), false),
+    ], range);
+
+    expect(adherence).toEqual({ planned: 3, completed: 2, percentage: 67 });
+    expect(calculateAdherence([], range)).toBeNull();
+  });
+
+  it('should only report weight PRs set in the range on exercises done before it', () => {
+    const range = getReportRange('week', new Date(2026, 9, 15));
+    const prs = getPersonalRecordsInRange(
+      [record('Squat', 100, new Date(2026, 9, 1)), record('Bench', 80, new Date(2026, 9, 2))],
+      [
+        record('Squat', 105, new Date(2026, 9, 14)),
+        record('Bench', 80, new Date(2026, 9, 2)),
+        record('Deadlift', 140, new Date(2026, 9, 13)),
+      ],
+      range
+    );
+
+    expect(prs).toEqual([
+      expect.objectContaining({ exerciseName: 'Squat', weight: 105, previousWeight: 100 }),
+    ]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { WorkoutSet } from '@/types/exercise';
+import { calculateVolume } from '../calculations';
+import {
+  countsForRecords,
+  getDropSetParent,
+  getSetTypeUpdates,
+  getWorkloadMultiplier,
+} from '../setTypes';
+
+const set = (setNumber: number, weight: number, reps: number, setType?: WorkoutSet['setType']): WorkoutSet => ({
+  setNumber,
+  weight,
+  reps,
+  unit: 'kg',
+  completed: true,
+  setType,
+});
+
+describe('setTypes', () => {
+  const sets = [
+    set(1, 40, 10, 'warmup'),
+    set(2, 100, 5),
+    set(3, 80, 8, 'drop'),
+    set(4, 60, 10, 'drop'),
+  ];
+
+  it('should leave warm-ups out of volume unless asked to include them', () => {
+    expect(calculateVolume(sets)).toBe(500 + 640 + 600);
+    expect(calculateVolume(sets, 'weight_reps', { includeWarmups: true })).toBe(400 + 500 + 640 + 600);
+  });
+
+  it('should only count straight sets towards records', () => {
+    expect(sets.map(countsForRecords)).toEqual([false, true, false, false]);
+    expect(countsForRecords(set(5, 100, 8, 'amrap'))).toBe(true);
+  });
+
+  it('should link drop sets to the set they continue', () => {
+    expect(getDropSetParent(sets, 1)).toBeUndefined();
+    expect(getDropSetParent(sets, 2)).toBe(2);
+    expect(getDropSetParent(sets, 3)).toBe(2);
+  });
+
+  it('should weight workload by how hard the working sets were', () => {
+    expect(getWorkloadMultiplier([set(1, 40, 10, 'warmup')])).toBe(0);
+    expect(getWorkloadMultiplier([set(1, 100, 5), set(2, 100, 5)])).toBe(1);
+    expect(getWorkloadMultiplier(sets)).toBeCloseTo((1 + 1.2 + 1.2) / 3);
+  });
+
+  it('should set up fields when a set changes type', () => {
+    expect(getSetTypeUpdates(set(1, 100, 5), 'failure')).toMatchObject({ setType: 'failure', rpe: 10 });
+    expect(getSetTypeUpdates(set(1, 100, 5), 'rest_pause')).toEqual({ setType: 'rest_pause', miniSetReps: [5] });
+    expect(getSetTypeUpdates({ ...set(1, 100, 9, 'cluster'), miniSetReps: [3, 3, 3] }, 'working'))
+      .toEqual({ setType: undefined, miniSetReps: undefined });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { diffRecords, hasUnpushedChanges, mergeConflictRecords } from '@/utils/syncConflictHelpers';
+
+const set = (setNumber: number, weight: number, completed: boolean) => ({
+  setNumber,
+  reps: 5,
+  weight,
+  unit: 'kg',
+  completed,
+});
+
+const workout = (overrides: Record<string, unknown> = {}) => ({
+  id: 'workout-1',
+  userId: 'user-1',
+  workoutType: 'strength',
+  notes: 'Felt good',
+  version: 3,
+  updatedAt: new Date('2024-05-01T10:00:00Z'),
+  exercises: [
+    { id: 'ex-1', exerciseId: 'bench', exerciseName: 'Bench Press', sets: [set(1, 80, true), set(2, 80, false)] },
+  ],
+  ...overrides,
+});
+
+describe('syncConflictHelpers', () => {
+  describe('diffRecords', () => {
+    it('should report changed set fields under the exercise name', () => {
+      const remote = workout({
+        exercises: [
+          { id: 'ex-1', exerciseId: 'bench', exerciseName: 'Bench Press', sets: [set(1, 80, true), set(2, 85, false)] },
+        ],
+      });
+      const diffs = diffRecords(workout(), remote);
+      expect(diffs).toEqual([
+        { path: 'exercises.ex-1.sets.1.weight', label: 'Bench Press › Set 2 › weight', local: 80, remote: 85 },
+      ]);
+    });
+
+    it('should ignore version bookkeeping and equal dates', () => {
+      const remote = workout({ version: 4, updatedAt: new Date('2024-05-02T10:00:00Z') });
+      expect(diffRecords(workout({ date: new Date('2024-05-01') }), { ...remote, date: new Date('2024-05-01') })).toEqual([]);
+    });
+
+    it('should treat Firestore timestamps as the dates they hold', () => {
+      const date = new Date('2024-05-01T08:00:00Z');
+      const stored = { seconds: date.getTime() / 1000, nanoseconds: 0 };
+      expect(diffRecords(workout({ startTime: date }), workout({ startTime: stored }))).toEqual([]);
+    });
+  });
+
+  describe('mergeConflictRecords', () => {
+    it('should keep exercises from both sides and prefer completed sets', () => {
+      const local = workout({
+        updatedAt: new Date('2024-05-01T12:00:00Z'),
+        notes: 'Local notes',
+      });
+      const remote = workout({
+        notes: 'Remote notes',
+        version: 4,
+        exercises: [
+          { id: 'ex-1', exerciseId: 'bench', exerciseName: 'Bench Press', sets: [set(1, 80, true), set(2, 82.5, true), set(3, 82.5, true)] },
+          { id: 'ex-2', exerciseId: 'row', exerciseName: 'Barbell Row', sets: [set(1, 60, true)] },
+        ],
+      });
+
+      const merged = mergeConflictRecords(local, remote);
+      const exercises = merged.exercises as Array<{ id: string; sets: Array<{ weight: number; setNumber: number }> }>;
+
+      expect(merged.notes).toBe('Local notes');
+      expect(merged.version).toBe(5);
+      expect(exercises.map(e => e.id)).toEqual(['ex-1', 'ex-2']);
+      expect(exercises[0].sets.map(s => s.weight)).toEqual([80, 82.5, 82.5]);
+      expect(exercises[0].sets.map(s => s.setNumber)).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('hasUnpushedChanges', () => {
+    it('should compare against the later of the last push and pull', () => {
+      const record = { updatedAt: new Date(2000) };
+      expect(hasUnpushedChanges(record, null, null)).toBe(true);
+      expect(hasUnpushedChanges(record, 1000, null)).toBe(true);
+      expect(hasUnpushedChanges(record, 1000, 3000)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { MuscleGroup } from '@/types/muscle';
+import { ExerciseResolution } from '@/types/templatePackage';
+import { TemplateExercise, WorkoutTemplate } from '@/types/workout';
+import { DEFAULT_TEMPLATES } from '@/services/templateLibrary';
+import {
+  applyExerciseResolutions,
+  buildTemplatePackage,
+  computePackageChecksum,
+  decodeTemplatePackage,
+  encodeTemplatePackage,
+  getShareCode,
+  parseTemplatePackage,
+  toPackagedTemplate,
+} from '../templatePackage';
+
+const exercises: TemplateExercise[] = [
+  { exerciseId: 'bench', exerciseName: 'Bench Press', sets: 3, reps: 5, percentOneRepMax: 75 },
+  { exerciseId: 'custom-row', exerciseName: 'Seal Row', sets: 3, reps: 8, repsMax: 12, groupType: 'superset', groupId: 'g1', groupOrder: 0 },
+  { exerciseId: 'mystery', exerciseName: 'Mystery Lift', sets: 3, reps: 10, groupType: 'superset', groupId: 'g1', groupOrder: 1 },
+];
+
+const pkg = buildTemplatePackage({
+  name: 'Upper Day',
+  exportedAt: new Date('2026-01-05T10:00:00Z'),
+  templates: [{
+    key: 'template-1',
+    name: 'Upper Day',
+    category: 'strength',
+    exercises,
+    estimatedDuration: 60,
+    musclesTargeted: [MuscleGroup.CHEST],
+  }],
+  exercises: [{
+    id: 'custom-row',
+    name: 'Seal Row',
+    category: 'strength',
+    primaryMuscles: [MuscleGroup.LATS],
+    secondaryMuscles: [],
+    equipment: ['Barbell'],
+    difficulty: 'intermediate',
+    instructions: ['Lie face down on a raised bench'],
+    trackingType: 'weight_reps',
+  }],
+});
+
+describe('templatePackage', () => {
+  it('should survive a round trip through a file and a share link', async () => {
+    expect(parseTemplatePackage(JSON.parse(JSON.stringify(pkg)))).toEqual(JSON.parse(JSON.stringify(pkg)));
+
+    const code = await encodeTemplatePackage(pkg);
+    expect(code).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(getShareCode(`https://example.com/workout-templates#package=${code}`)).toBe(code);
+    expect((await decodeTemplatePackage(code)).templates[0].exercises).toHaveLength(3);
+  });
+
+  it('should round-trip a default template whose loads are left at 0', () => {
+    const seed = DEFAULT_TEMPLATES[0];
+    const template: WorkoutTemplate = {
+      ...seed,
+      id: 'template-default',
+      userId: 'user-1',
+      exercises: seed.exercises.map(exercise => ({ ...exercise, exerciseId: exercise.exerciseName.toLowerCase() })),
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+      updatedAt: new Date('2026-01-01T00:00:00Z'),
+    };
+    expect(template.exercises[0].weight).toBe(0);
+
+    const defaultPkg = buildTemplatePackage({ name: template.name, templates: [toPackagedTemplate(template)] });
+    const parsed = parseTemplatePackage(JSON.parse(JSON.stringify(defaultPkg)));
+    expect(parsed.templates[0].exercises).toHaveLength(seed.exercises.length);
+    expect(parsed.templates[0].exercises[0].weight).toBeUndefined();
+  });
+
+  it('should reject packages that were edited or truncated', async () => {
+    const tampered = JSON.parse(JSON.stringify(pkg));
+    tampered.templates[0].exercises[0].sets = 10;
+    expect(() => parseTemplatePackage(tampered)).toThrow('changed or damaged');
+    expect(() => parseTemplatePackage({ ...pkg, version: 99 })).toThrow('newer version');
+    expect(() => parseTemplatePackage({ hello: 'world' })).toThrow('not a workout template package');
+
+    const code = await encodeTemplatePackage(pkg);
+    await expect(decodeTemplatePackage(code.slice(0, code.length / 2))).rejects.toThrow();
+  });
+
+  it('should checksum the same content the same way whatever the key order', () => {
+    const { checksum, ...content } = pkg;
+    const reordered = Object.fromEntries(Object.entries(content).reverse()) as typeof content;
+    expect(computePackageChecksum(reordered)).toBe(checksum);
+  });
+
+  it('should remap exercises, leaving out unknown ones and ungrouping what is left alone', () => {
+    const resolutions = new Map<string, ExerciseResolution>([
+      ['bench', { exerciseId: 'bench', exerciseName: 'Bench Press', status: 'library', resolvedId: 'bench' }],
+      ['custom-row', { exerciseId: 'custom-row', exerciseName: 'Seal Row', status: 'custom', resolvedId: 'user-row' }],
+      ['mystery', { exerciseId: 'mystery', exerciseName: 'Mystery Lift', status: 'unknown' }],
+    ]);
+    const remapped = applyExerciseResolutions(exercises, resolutions);
+    expect(remapped.map(exercise => exercise.exerciseId)).toEqual(['bench', 'user-row']);
+    expect(remapped[1].groupId).toBeUndefined();
+  });
+});
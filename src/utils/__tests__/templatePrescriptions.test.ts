@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { WorkoutExercise } from '@/types/exercise';
+import { TemplateExercise, Workout, WorkoutTemplate } from '@/types/workout';
+import { templateService } from '@/services/templateService';
+import {
+  getBestOneRepMaxes,
+  getSetPrescriptions,
+  resolvePrescribedWeight,
+  summarizeTemplateExercise,
+  toTemplateExercise,
+} from '../templatePrescriptions';
+
+describe('templatePrescriptions', () => {
+  it('should summarise a rep range with an RPE target', () => {
+    const exercise: TemplateExercise = { exerciseId: 'curl', exerciseName: 'Curl', sets: 3, reps: 8, repsMax: 12, rpe: 8 };
+    expect(summarizeTemplateExercise(exercise)).toBe('3 × 8–12 @ RPE 8');
+    expect(getSetPrescriptions(exercise)).toHaveLength(3);
+  });
+
+  it('should resolve 5/3/1 percentages against the training max', () => {
+    const exercise: TemplateExercise = {
+      exerciseId: 'squat',
+      exerciseName: 'Squat',
+      sets: 3,
+      reps: 5,
+      trainingMax: 140,
+      setData: [
+        { reps: 5, percentOneRepMax: 65 },
+        { reps: 5, percentOneRepMax: 75 },
+        { reps: 5, percentOneRepMax: 85, setType: 'amrap' },
+      ],
+    };
+    const weights = getSetPrescriptions(exercise).map(set => resolvePrescribedWeight(set, exercise.trainingMax));
+    expect(weights).toEqual([91, 105, 119]);
+    expect(summarizeTemplateExercise(exercise)).toBe('5 @ 65% / 5 @ 75% / A 5+ @ 85%');
+  });
+
+  it('should resolve percentages from a lbs history into the template unit', () => {
+    const history: Workout[] = [{
+      userId: 'user-1',
+      date: new Date('2026-01-01'),
+      startTime: new Date('2026-01-01'),
+      workoutType: 'strength',
+      musclesTargeted: [],
+      totalDuration: 60,
+      totalVolume: 0,
+      exercises: [{
+        id: 'ex-1',
+        exerciseId: 'bench',
+        exerciseName: 'Bench',
+        sets: [{ setNumber: 1, reps: 1, weight: 220.462, unit: 'lbs', completed: true }],
+        totalVolume: 0,
+        musclesWorked: [],
+        timestamp: new Date('2026-01-01'),
+      }],
+    }];
+    const oneRepMaxes = getBestOneRepMaxes(history, 'kg');
+    expect(oneRepMaxes.bench).toBe(100);
+
+    const template = {
+      exercises: [
+        { exerciseId: 'bench', exerciseName: 'Bench', sets: 1, reps: 5, percentOneRepMax: 65 },
+        { exerciseId: 'bench', exerciseName: 'Bench', sets: 1, reps: 5, setData: [{ reps: 5, percentOneRepMax: 65, unit: 'lbs' }] },
+      ],
+      musclesTargeted: [],
+    } as unknown as WorkoutTemplate;
+    const [kgSet, lbsSet] = templateService.convertTemplateToWorkoutExercises(template, oneRepMaxes).map(exercise => exercise.sets[0]);
+    expect(kgSet).toMatchObject({ weight: 65, unit: 'kg' });
+    expect(lbsSet).toMatchObject({ weight: 143.3, unit: 'lbs' });
+  });
+
+  it('should fall back to exercise-level targets for fields a set leaves out', () => {
+    const [set] = getSetPrescriptions({
+      exerciseId: 'bench',
+      exerciseName: 'Bench',
+      sets: 1,
+      reps: 8,
+      repsMax: 10,
+      weight: 80,
+      setData: [{ rpe: 9 }],
+    });
+    expect(set).toMatchObject({ reps: 8, repsMax: 10, weight: 80, rpe: 9 });
+  });
+
+  it('should keep targets, set types, notes and grouping when saving a workout as a template', () => {
+    const exercise: WorkoutExercise = {
+      id: 'ex-1',
+      exerciseId: 'squat',
+      exerciseName: 'Squat',
+      sets: [
+        { setNumber: 1, reps: 5, weight: 60, unit: 'kg', setType: 'warmup', completed: true },
+        { setNumber: 2, reps: 11, weight: 100, unit: 'kg', targetRepsMin: 8, targetRepsMax: 12, targetRpe: 8, rpe: 9, completed: true },
+        { setNumber: 3, reps: 6, weight: 119, unit: 'kg', targetPercent: 85, completed: true },
+      ],
+      totalVolume: 0,
+      musclesWorked: [],
+      timestamp: new Date(),
+      notes: 'Belt on top set',
+      trainingMax: 140,
+      groupType: 'superset',
+      groupId: 'group-1',
+      groupOrder: 0,
+    };
+
+    const template = toTemplateExercise(exercise);
+    expect(template.setData).toEqual([
+      expect.objectContaining({ reps: 5, weight: 60, setType: 'warmup' }),
+      expect.objectContaining({ reps: 8, repsMax: 12, rpe: 8, weight: 100 }),
+      expect.objectContaining({ reps: 6, percentOneRepMax: 85, weight: undefined }),
+    ]);
+    expect(template).toMatchObject({ notes: 'Belt on top set', trainingMax: 140, groupType: 'superset', groupId: 'group-1', groupOrder: 0 });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { Workout } from '@/types/workout';
+import { WorkoutSet } from '@/types/exercise';
+import { getHeartRateSettings } from '../heartRateZones';
+import { calculateSetTrimp, calculateSetZoneTime, calculateWorkloadTrend } from '../trainingLoad';
+
+function buildWorkout(date: Date, set: Partial<WorkoutSet>): Workout {
+  return {
+    userId: 'user-1',
+    date,
+    startTime: date,
+    exercises: [{
+      id: 'ex-1',
+      exerciseId: 'running',
+      exerciseName: 'Running',
+      sets: [{ setNumber: 1, completed: true, ...set }],
+      totalVolume: 0,
+      musclesWorked: [],
+      timestamp: date,
+      trackingType: 'cardio',
+    }],
+    totalDuration: 30,
+    totalVolume: 0,
+    musclesTargeted: [],
+    workoutType: 'cardio',
+  };
+}
+
+describe('heartRateZones settings', () => {
+  it('should prefer lactate threshold, then a measured max, then age', () => {
+    expect(getHeartRateSettings({ age: 40 }).method).toBe('age');
+    expect(getHeartRateSettings({ age: 40, maxHeartRate: 195 })).toMatchObject({ method: 'max_hr', maxHeartRate: 195 });
+
+    const threshold = getHeartRateSettings({ maxHeartRate: 195, lactateThresholdHeartRate: 170 });
+    expect(threshold.method).toBe('lactate_threshold');
+    expect(threshold.zones[3]).toMatchObject({ minBpm: 162, maxBpm: 170 });
+    expect(threshold.zones[4].maxBpm).toBe(195);
+
+    // A method without its value falls back to age
+    expect(getHeartRateSettings({ heartRateZoneMethod: 'lactate_threshold' }).method).toBe('age');
+  });
+});
+
+describe('trainingLoad', () => {
+  const settings = getHeartRateSettings({ maxHeartRate: 200, restingHeartRate: 50 });
+
+  it('should hold a single average heart rate for the whole set', () => {
+    const set: WorkoutSet = { setNumber: 1, completed: true, time: 1800, heartRate: 150 };
+    const zones = calculateSetZoneTime(set, settings);
+    expect(zones.map(zone => zone.seconds)).toEqual([0, 0, 1800, 0, 0]);
+
+    // 30 min at 2/3 heart-rate reserve: 30 x 0.667 x 0.64 x e^(1.92 x 0.667)
+    expect(calculateSetTrimp(set, settings)).toBeCloseTo(46.0, 1);
+    expect(calculateSetTrimp({ ...set, completed: false }, settings)).toBe(0);
+    expect(calculateSetTrimp({ setNumber: 1, completed: true, time: 1800 }, settings)).toBe(0);
+  });
+
+  it('should weight harder efforts more and use the detailed series over the average', () => {
+    const easy: WorkoutSet = { setNumber: 1, completed: true, time: 600, heartRate: 120 };
+    const hard: WorkoutSet = { ...easy, heartRate: 180 };
+    expect(calculateSetTrimp(hard, settings)).toBeGreaterThan(calculateSetTrimp(easy, settings) * 2);
+
+    const series: WorkoutSet = {
+      ...easy,
+      heartRateSeries: [{ offset: 0, bpm: 180 }, { offset: 300, bpm: 180 }],
+    };
+    expect(calculateSetTrimp(series, settings)).toBeCloseTo(calculateSetTrimp(hard, settings), 5);
+  });
+
+  it('should compare the last week against the last four weeks', () => {
+    const end = new Date(2026, 9, 28);
+    const workouts = [0, 7, 14, 21, 22, 24, 26].map((offset) =>
+      buildWorkout(new Date(2026, 9, 1 + offset, 8), { time: 1800, heartRate: 150 })
+    );
+    const trend = calculateWorkloadTrend(workouts, settings, end, 14);
+
+    expect(trend).toHaveLength(14);
+    const last = trend[trend.length - 1];
+    expect(last.date).toEqual(new Date(2026, 9, 28));
+    expect(last.acute).toBeCloseTo((4 * 46) / 7, 1);
+    expect(last.chronic).toBeCloseTo((7 * 46) / 28, 1);
+    expect(last.ratio).toBeCloseTo(2.29, 2);
+    expect(calculateWorkloadTrend([], settings, end, 14)[0].ratio).toBeNull();
+  });
+});
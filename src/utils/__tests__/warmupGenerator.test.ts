@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { WorkoutSet } from '@/types/exercise';
+import {
+  generateWarmupSets,
+  getDefaultWarmupScheme,
+  insertWarmupSets,
+  resolveWarmupScheme,
+} from '../warmupGenerator';
+
+describe('warmupGenerator', () => {
+  it('should pick a default ramp from category and equipment', () => {
+    expect(getDefaultWarmupScheme({ category: 'strength', equipment: ['Barbell'], trackingType: 'weight_reps' })).toBe('standard');
+    expect(getDefaultWarmupScheme({ category: 'olympic', equipment: ['Barbell'], trackingType: 'weight_reps' })).toBe('olympic');
+    expect(getDefaultWarmupScheme({ category: 'strength', equipment: ['Dumbbell'], trackingType: 'weight_reps' })).toBe('light');
+    expect(getDefaultWarmupScheme({ category: 'strength', equipment: [], trackingType: 'reps_only' })).toBeNull();
+
+    const squat = { id: 'squat', category: 'strength' as const, equipment: ['Barbell'], trackingType: 'weight_reps' as const };
+    expect(resolveWarmupScheme(squat, { squat: 'heavy' })).toBe('heavy');
+    expect(resolveWarmupScheme(squat, { squat: 'off' })).toBeNull();
+  });
+
+  it('should ramp from the empty bar to loadable plate weights below the working set', () => {
+    const warmups = generateWarmupSets(100, 'kg', ['Barbell'], 'standard');
+    expect(warmups.map(set => [set.weight, set.reps])).toEqual([[20, 10], [40, 5], [60, 3], [80, 2]]);
+    expect(warmups.every(set => set.setType === 'warmup' && !set.completed)).toBe(true);
+
+    // 40% of 45kg is below the bar, so that step is skipped
+    expect(generateWarmupSets(45, 'kg', ['Barbell'], 'standard').map(set => set.weight)).toEqual([20, 27.5, 35]);
+    expect(generateWarmupSets(20, 'kg', ['Barbell'], 'standard')).toEqual([]);
+  });
+
+  it('should replace pending warm-ups before the first working set', () => {
+    const working: WorkoutSet = { setNumber: 1, weight: 100, reps: 5, unit: 'kg', completed: false };
+    const withWarmups = insertWarmupSets([working], generateWarmupSets(100, 'kg', ['Barbell'], 'standard'));
+    expect(withWarmups).toHaveLength(5);
+    expect(withWarmups[4]).toMatchObject({ weight: 100, setNumber: 5 });
+
+    const rebuilt = insertWarmupSets(withWarmups, generateWarmupSets(100, 'kg', ['Dumbbell'], 'light'));
+    expect(rebuilt.map(set => set.setNumber)).toEqual([1, 2, 3]);
+    expect(insertWarmupSets(rebuilt, [])).toEqual([working]);
+  });
+});
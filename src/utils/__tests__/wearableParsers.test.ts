@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createAppleHealthParser,
+  detectWearableSource,
+  parseGarminCsv,
+  parseTcx,
+} from '../wearableParsers';
+import { parseFitFile } from '../fitFileParser';
+import { downsampleHeartRate, getOverlapRatio, toSleepLog } from '../wearableHelpers';
+
+const FIT_EPOCH_OFFSET_S = 631065600;
+
+/**
+ * Build a FIT file with one session and two records, little-endian
+ */
+function buildFitFile(start: Date): ArrayBuffer {
+  const bytes: number[] = [];
+  const u8 = (value: number) => bytes.push(value & 0xff);
+  const u16 = (value: number) => { u8(value); u8(value >> 8); };
+  const u32 = (value: number) => { u16(value); u16(value >>> 16); };
+  const fitTime = Math.floor(start.getTime() / 1000) - FIT_EPOCH_OFFSET_S;
+
+  // Record definition (local 0): timestamp, heart_rate, distance
+  u8(0x40); u8(0); u8(0); u16(20); u8(3);
+  u8(253); u8(4); u8(0x86);
+  u8(3); u8(1); u8(0x02);
+  u8(5); u8(4); u8(0x86);
+  // Records
+  u8(0x00); u32(fitTime); u8(120); u32(0);
+  u8(0x00); u32(fitTime + 60); u8(0xff); u32(25000); // Invalid heart rate is skipped
+  u8(0x00); u32(fitTime + 120); u8(150); u32(50000);
+
+  // Session definition (local 1): start_time, total_elapsed_time, total_distance, calories, avg/max hr, sport
+  u8(0x41); u8(0); u8(0); u16(18); u8(7);
+  u8(2); u8(4); u8(0x86);
+  u8(7); u8(4); u8(0x86);
+  u8(9); u8(4); u8(0x86);
+  u8(11); u8(2); u8(0x84);
+  u8(16); u8(1); u8(0x02);
+  u8(17); u8(1); u8(0x02);
+  u8(5); u8(1); u8(0x00);
+  u8(0x01); u32(fitTime); u32(120000); u32(50000); u16(45); u8(135); u8(150); u8(1);
+
+  const header = [14, 0x20, 0, 0, ...[0, 0, 0, 0], 0x2e, 0x46, 0x49, 0x54, 0, 0];
+  const buffer = new ArrayBuffer(header.length + bytes.length + 2);
+  const view = new DataView(buffer);
+  header.forEach((value, index) => view.setUint8(index, value));
+  view.setUint32(4, bytes.length, true);
+  bytes.forEach((value, index) => view.setUint8(header.length + index, value));
+  return buffer;
+}
+
+describe('wearableParsers', () => {
+  it('should detect export formats from the file name and contents', () => {
+    expect(detectWearableSource('export.xml', '<?xml version="1.0"?>\n<HealthData locale="en_GB">')).toBe('apple_health');
+    expect(detectWearableSource('run.tcx', '<TrainingCenterDatabase xmlns="http://www.garmin.com">')).toBe('tcx');
+    expect(detectWearableSource('Activities.csv', 'Activity Type,Date,Favorite,Title,Distance,Avg HR,Max HR')).toBe('garmin');
+    expect(detectWearableSource('sleep.json', '[{"logId":1,"dateOfSleep":"2026-10-18"}]')).toBe('fitbit');
+    expect(detectWearableSource('Running.json', '{"fitnessActivity":"running","startTime":"..."}')).toBe('google_fit');
+    expect(detectWearableSource('notes.txt', 'hello')).toBeNull();
+  });
+
+  it('should stream Apple Health records split across chunks into sleep, heart rate and workouts', () => {
+    const xml = `<HealthData>
+      <Record type="HKCategoryTypeIdentifierSleepAnalysis" startDate="2026-10-18 23:00:00 +0000" endDate="2026-10-19 07:00:00 +0000" value="HKCategoryValueSleepAnalysisInBed"/>
+      <Record type="HKCategoryTypeIdentifierSleepAnalysis" startDate="2026-10-18 23:15:00 +0000" endDate="2026-10-19 03:00:00 +0000" value="HKCategoryValueSleepAnalysisAsleepCore"/>
+      <Record type="HKCategoryTypeIdentifierSleepAnalysis" startDate="2026-10-19 03:00:00 +0000" endDate="2026-10-19 05:00:00 +0000" value="HKCategoryValueSleepAnalysisAsleepDeep"/>
+      <Record type="HKCategoryTypeIdentifierSleepAnalysis" startDate="2026-10-19 05:00:00 +0000" endDate="2026-10-19 06:45:00 +0000" value="HKCategoryValueSleepAnalysisAsleepREM"/>
+      <Record type="HKQuantityTypeIdentifierHeartRate" startDate="2026-10-19 17:05:00 +0000" endDate="2026-10-19 17:05:00 +0000" value="140"/>
+      <Record type="HKQuantityTypeIdentifierHeartRate" startDate="2026-10-19 17:20:00 +0000" endDate="2026-10-19 17:20:00 +0000" value="160"/>
+      <Workout workoutActivityType="HKWorkoutActivityTypeRunning" duration="30" durationUnit="min" sourceName="Watch" startDate="2026-10-19 17:00:00 +0000" endDate="2026-10-19 17:30:00 +0000">
+        <WorkoutStatistics type="HKQuantityTypeIdentifierDistanceWalkingRunning" startDate="2026-10-19 17:00:00 +0000" endDate="2026-10-19 17:30:00 +0000" sum="5.2" unit="km"/>
+        <WorkoutStatistics type="HKQuantityTypeIdentifierActiveEnergyBurned" startDate="2026-10-19 17:00:00 +0000" endDate="2026-10-19 17:30:00 +0000" sum="1255" unit="kJ"/>
+      </Workout>
+      <Workout workoutActivityType="HKWorkoutActivityTypeTraditionalStrengthTraining" startDate="2026-10-19 18:00:00 +0000" endDate="2026-10-19 19:00:00 +0000"/>
+    </HealthData>`;
+
+    const parser = createAppleHealthParser();
+    for (let i = 0; i < xml.length; i += 97) {
+      parser.push(xml.slice(i, i + 97));
+    }
+    const data = parser.finish();
+
+    expect(data.sleep).toHaveLength(1);
+    expect(data.sleep[0].inBedMinutes).toBe(480);
+    expect(data.sleep[0].asleepMinutes).toBe(450);
+    expect(data.sleep[0].deepRemMinutes).toBe(225);
+
+    expect(data.activities).toHaveLength(1);
+    expect(data.activities[0]).toMatchObject({
+      activityType: 'running',
+      distanceMeters: 5200,
+      calories: 300,
+      averageHeartRate: 150,
+      maxHeartRate: 160,
+    });
+    expect(data.activities[0].heartRate).toHaveLength(2);
+    expect(data.warnings).toHaveLength(1);
+  });
+
+  it('should read TCX laps and trackpoints', () => {
+    const data = parseTcx(`<?xml version="1.0"?>
+      <TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">
+        <Activities><Activity Sport="Biking"><Id>2026-10-19T07:00:00Z</Id>
+          <Lap StartTime="2026-10-19T07:00:00Z">
+            <TotalTimeSeconds>1800</TotalTimeSeconds><DistanceMeters>12000</DistanceMeters><Calories>400</Calories>
+            <MaximumHeartRateBpm><Value>171</Value></MaximumHeartRateBpm>
+            <Track>
+              <Trackpoint><Time>2026-10-19T07:00:00Z</Time><DistanceMeters>0</DistanceMeters><HeartRateBpm><Value>110</Value></HeartRateBpm></Trackpoint>
+              <Trackpoint><Time>2026-10-19T07:29:00Z</Time><DistanceMeters>11900</DistanceMeters><HeartRateBpm><Value>150</Value></HeartRateBpm></Trackpoint>
+            </Track>
+          </Lap>
+        </Activity></Activities>
+      </TrainingCenterDatabase>`);
+
+    expect(data.activities).toHaveLength(1);
+    expect(data.activities[0]).toMatchObject({
+      activityType: 'cycling',
+      distanceMeters: 12000,
+      calories: 400,
+      averageHeartRate: 130,
+      maxHeartRate: 171,
+    });
+    expect(data.activities[0].end.toISOString()).toBe('2026-10-19T07:30:00.000Z');
+  });
+
+  it('should convert Garmin CSV distances from the account unit and skip strength activities', () => {
+    const data = parseGarminCsv(
+      'Activity Type,Date,Title,Distance,Calories,Time,Avg HR,Max HR,Steps\n' +
+      'Running,2026-10-19 07:00:00,Morning Run,"3.10","1,050",00:28:30,152,171,"4,812"\n' +
+      'Strength Training,2026-10-19 18:00:00,Gym,0.00,300,01:00:00,110,140,--\n',
+      'miles'
+    );
+
+    expect(data.activities).toHaveLength(1);
+    expect(data.activities[0].distanceMeters).toBeCloseTo(4989, 0);
+    expect(data.activities[0]).toMatchObject({ name: 'Morning Run', calories: 1050, steps: 4812, averageHeartRate: 152 });
+    expect((data.activities[0].end.getTime() - data.activities[0].start.getTime()) / 1000).toBe(1710);
+    expect(data.warnings).toHaveLength(1);
+  });
+
+  it('should decode FIT sessions and records', () => {
+    const start = new Date('2026-10-19T07:00:00Z');
+    const [activity] = parseFitFile(buildFitFile(start));
+
+    expect(activity).toMatchObject({ source: 'fit', activityType: 'running', distanceMeters: 500, calories: 45, averageHeartRate: 135 });
+    expect(activity.end.toISOString()).toBe('2026-10-19T07:02:00.000Z');
+    expect(activity.heartRate.map(sample => sample.bpm)).toEqual([120, 150]);
+    expect(activity.track).toHaveLength(3);
+    expect(() => parseFitFile(new ArrayBuffer(8))).toThrow('Not a FIT file');
+  });
+});
+
+describe('wearableHelpers', () => {
+  it('should measure overlap against the shorter interval', () => {
+    const at = (hour: number, minute = 0) => new Date(2026, 9, 19, hour, minute);
+    expect(getOverlapRatio(at(7), at(8), at(7, 30), at(7, 45))).toBe(1);
+    expect(getOverlapRatio(at(7), at(8), at(7, 30), at(8, 30))).toBe(0.5);
+    expect(getOverlapRatio(at(7), at(8), at(9), at(10))).toBe(0);
+  });
+
+  it('should downsample heart rate into evenly spaced averages', () => {
+    const start = new Date(2026, 9, 19, 7, 0);
+    const samples = Array.from({ length: 600 }, (_, index) => ({
+      time: new Date(start.getTime() + index * 1000),
+      bpm: index < 300 ? 100 : 160,
+    }));
+    const points = downsampleHeartRate(samples, start, 10);
+    expect(points).toHaveLength(10);
+    expect(points[0].bpm).toBe(100);
+    expect(points[9].bpm).toBe(160);
+    expect(points[9].offset).toBeGreaterThan(points[0].offset);
+  });
+
+  it('should file sleep under the night it started and estimate quality', () => {
+    const log = toSleepLog('user-1', {
+      start: new Date(2026, 9, 19, 0, 30),
+      end: new Date(2026, 9, 19, 8, 30),
+      asleepMinutes: 450,
+      inBedMinutes: 480,
+      deepRemMinutes: 180,
+    });
+    expect(log.date).toEqual(new Date(2026, 9, 18));
+    expect(log.duration).toBe(450);
+    expect(log.quality).toBe(10);
+  });
+});
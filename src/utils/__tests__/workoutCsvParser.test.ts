@@ -0,0 +1,197 @@
+import { describe, it, expect } from 'vitest';
+import { Workout } from '@/types/workout';
+import { buildSetRows, toCsv } from '../csvExport';
+import { detectCsvSource, parseCsv, parseWorkoutCsv } from '../workoutCsvParser';
+
+const STRONG_CSV = [
+  'Date,Workout Name,Duration,Exercise Name,Set Order,Weight,Weight Unit,Reps,RPE,Distance,Distance Unit,Seconds,Notes,Workout Notes',
+  '2026-01-05 18:00:00,"Push, Heavy",1h 5m,Bench Press (Barbell),W,60,kg,5,,0,,0,,Felt strong',
+  '2026-01-05 18:00:00,"Push, Heavy",1h 5m,Bench Press (Barbell),1,100,kg,5,8,0,,0,"Paused, ""tight"" arch",Felt strong',
+  '2026-01-05 18:00:00,"Push, Heavy",1h 5m,Bench Press (Barbell),Rest Timer,0,kg,0,,0,,90,,Felt strong',
+  '2026-01-05 18:00:00,"Push, Heavy",1h 5m,Bench Press (Barbell),D,80,kg,8,,0,,0,,Felt strong',
+  '2026-01-05 18:00:00,"Push, Heavy",1h 5m,Bench Press (Barbell),F,80,kg,4,,0,,0,,Felt strong',
+  '2026-01-05 18:00:00,"Push, Heavy",1h 5m,Running (Treadmill),1,0,kg,0,,2.5,km,900,,Felt strong',
+  '2026-01-03 09:30:00,Legs,45m,Squat (Barbell),1,140,kg,3,,0,,0,,',
+].join('\r\n');
+
+// Newer Strong exports are semicolon-delimited, leave out the unit columns and may use decimal commas
+const STRONG_SEMICOLON_CSV = [
+  '\uFEFFDate;Workout Name;Duration;Exercise Name;Set Order;Weight;Reps;Distance;Seconds;Notes;Workout Notes;RPE',
+  '2026-01-05 18:00:00;Pull;3600;Deadlift (Barbell);1;315,5;5;0;0;;;',
+].join('\n');
+
+const HEVY_CSV = [
+  '"title","start_time","end_time","description","exercise_title","superset_id","exercise_notes","set_index","set_type","weight_kg","reps","distance_km","duration_seconds","rpe"',
+  '"Upper A","5 Jan 2026, 18:00","5 Jan 2026, 19:10","","Bench Press (Barbell)","","Elbows in","0","warmup","60","5","","",""',
+  '"Upper A","5 Jan 2026, 18:00","5 Jan 2026, 19:10","","Bench Press (Barbell)","","Elbows in","1","normal","100","5","","","8.5"',
+  '"Upper A","5 Jan 2026, 18:00","5 Jan 2026, 19:10","","Bench Press (Barbell)","","Elbows in","2","dropset","80","8","","",""',
+  '"Upper A","5 Jan 2026, 18:00","5 Jan 2026, 19:10","","Bench Press (Barbell)","","Elbows in","3","failure","80","3","","",""',
+  '"Upper A","5 Jan 2026, 18:00","5 Jan 2026, 19:10","","Rowing Machine","","","0","normal","","","2","480",""',
+].join('\n');
+
+const HEVY_LBS_CSV = [
+  'title,start_time,end_time,description,exercise_title,superset_id,exercise_notes,set_index,set_type,weight_lbs,reps,distance_miles,duration_seconds,rpe',
+  'Legs,2026-01-07 07:15:00,,,Squat (Barbell),,,0,normal,225,5,,,',
+  'Legs,2026-01-07 07:15:00,,,Walking,,,0,normal,,,1.5,1200,',
+].join('\n');
+
+const FITNOTES_CSV = [
+  'Date,Exercise,Category,Weight (lbs),Reps,Distance,Distance Unit,Time,Comment',
+  '2026-01-05,Flat Barbell Bench Press,Chest,225.0,5,,,,Top set',
+  '2026-01-05,Flat Barbell Bench Press,Chest,225.0,4,,,,',
+  '2026-01-05,Cycling,Cardio,,,10.0,km,0:30:15,',
+  '2026-01-06,Barbell Squat,Legs,315.0,3,,,,',
+].join('\n');
+
+describe('workoutCsvParser', () => {
+  it('should split quoted fields, escaped quotes, line breaks in quotes and blank lines', () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n\r\n1,"two\nlines",3')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['1', 'two\nlines', '3'],
+    ]);
+    expect(parseCsv('a;"b;c";d')).toEqual([['a', 'b;c', 'd']]);
+  });
+
+  it('should detect the source app from the header row', () => {
+    const headers = (csv: string) => parseCsv(csv)[0];
+    expect(detectCsvSource(headers(STRONG_CSV))).toBe('strong');
+    expect(detectCsvSource(headers(STRONG_SEMICOLON_CSV))).toBe('strong');
+    expect(detectCsvSource(headers(HEVY_CSV))).toBe('hevy');
+    expect(detectCsvSource(headers(FITNOTES_CSV))).toBe('fitnotes');
+    expect(detectCsvSource(['Date', 'Exercise', 'Sets'])).toBeNull();
+    expect(() => parseWorkoutCsv('Date,Exercise,Sets\n2026-01-05,Bench,3')).toThrow('unrecognised format');
+  });
+
+  it('should map Strong columns, set order markers and durations', () => {
+    const parsed = parseWorkoutCsv(STRONG_CSV);
+
+    expect(parsed.source).toBe('strong');
+    expect(parsed.totalRows).toBe(7);
+    expect(parsed.rowErrors).toEqual([]);
+    // Sorted oldest first
+    expect(parsed.workouts.map(w => w.name)).toEqual(['Legs', 'Push, Heavy']);
+    expect(parsed.workouts[0].durationMinutes).toBe(45);
+
+    const push = parsed.workouts[1];
+    expect(push.date).toEqual(new Date(2026, 0, 5, 18, 0, 0));
+    expect(push.durationMinutes).toBe(65);
+    expect(push.notes).toBe('Felt strong');
+    expect(push.exercises.map(e => e.name)).toEqual(['Bench Press (Barbell)', 'Running (Treadmill)']);
+
+    // The rest timer row is not a set
+    const [bench, treadmill] = push.exercises;
+    expect(bench.sets.map(set => [set.setNumber, set.weight, set.unit, set.reps, set.setType])).toEqual([
+      [1, 60, 'kg', 5, 'warmup'],
+      [2, 100, 'kg', 5, undefined],
+      [3, 80, 'kg', 8, 'drop'],
+      [4, 80, 'kg', 4, 'failure'],
+    ]);
+    expect(bench.sets[1]).toMatchObject({ rpe: 8, notes: 'Paused, "tight" arch' });
+    expect(treadmill.sets[0]).toMatchObject({ distance: 2.5, distanceUnit: 'km', duration: 900 });
+  });
+
+  it('should fall back to the given unit for Strong files without unit columns', () => {
+    const [workout] = parseWorkoutCsv(STRONG_SEMICOLON_CSV, 'lbs').workouts;
+
+    expect(workout.durationMinutes).toBe(60);
+    expect(workout.exercises[0].sets[0]).toMatchObject({ weight: 315.5, unit: 'lbs', reps: 5 });
+    // Strong fills unused distance and time columns with 0
+    expect(workout.exercises[0].sets[0].distance).toBeUndefined();
+    expect(workout.exercises[0].sets[0].duration).toBeUndefined();
+  });
+
+  it('should map Hevy columns, set types and units', () => {
+    const parsed = parseWorkoutCsv(HEVY_CSV);
+
+    expect(parsed.source).toBe('hevy');
+    expect(parsed.workouts).toHaveLength(1);
+    const [workout] = parsed.workouts;
+    expect(workout).toMatchObject({ name: 'Upper A', durationMinutes: 70, notes: undefined });
+    expect(workout.date).toEqual(new Date(2026, 0, 5, 18, 0));
+    expect(workout.endTime).toEqual(new Date(2026, 0, 5, 19, 10));
+
+    const [bench, rower] = workout.exercises;
+    expect(bench.notes).toBe('Elbows in');
+    expect(bench.sets.map(set => [set.weight, set.reps, set.setType])).toEqual([
+      [60, 5, 'warmup'],
+      [100, 5, undefined],
+      [80, 8, 'drop'],
+      [80, 3, 'failure'],
+    ]);
+    expect(bench.sets[1]).toMatchObject({ unit: 'kg', rpe: 8.5 });
+    expect(rower.sets[0]).toMatchObject({ distance: 2, distanceUnit: 'km', duration: 480 });
+
+    const inLbs = parseWorkoutCsv(HEVY_LBS_CSV).workouts[0];
+    expect(inLbs.date).toEqual(new Date(2026, 0, 7, 7, 15));
+    expect(inLbs.durationMinutes).toBeUndefined();
+    expect(inLbs.exercises[0].sets[0]).toMatchObject({ weight: 225, unit: 'lbs', reps: 5 });
+    expect(inLbs.exercises[1].sets[0]).toMatchObject({ distance: 1.5, distanceUnit: 'miles', duration: 1200 });
+  });
+
+  it('should map FitNotes columns, the unit in the weight header and clock times', () => {
+    const parsed = parseWorkoutCsv(FITNOTES_CSV);
+
+    expect(parsed.source).toBe('fitnotes');
+    // FitNotes has no workouts, so sets are grouped by day
+    expect(parsed.workouts.map(w => w.date)).toEqual([new Date(2026, 0, 5), new Date(2026, 0, 6)]);
+
+    const [bench, cycling] = parsed.workouts[0].exercises;
+    expect(bench.sets).toEqual([
+      expect.objectContaining({ setNumber: 1, weight: 225, unit: 'lbs', reps: 5, notes: 'Top set' }),
+      expect.objectContaining({ setNumber: 2, weight: 225, unit: 'lbs', reps: 4, notes: undefined }),
+    ]);
+    expect(bench.sets[0].setType).toBeUndefined();
+    expect(cycling.sets[0]).toMatchObject({ distance: 10, distanceUnit: 'km', duration: 1815 });
+  });
+
+  it('should report unreadable rows and keep parsing the rest', () => {
+    const parsed = parseWorkoutCsv([
+      FITNOTES_CSV,
+      'someday,Barbell Squat,Legs,315.0,3,,,,',
+      '2026-01-06,,Legs,315.0,3,,,,',
+    ].join('\n'));
+
+    expect(parsed.totalRows).toBe(6);
+    expect(parsed.rowErrors).toEqual([
+      { row: 6, message: 'Unrecognised date "someday"' },
+      { row: 7, message: 'Missing Exercise' },
+    ]);
+    expect(parsed.workouts.flatMap(w => w.exercises)).toHaveLength(3);
+  });
+
+  it('should keep set types through an export and re-import', () => {
+    const workout: Workout = {
+      userId: 'user-1',
+      date: new Date(2026, 0, 5, 18, 30),
+      startTime: new Date(2026, 0, 5, 18, 30),
+      totalDuration: 60,
+      totalVolume: 0,
+      musclesTargeted: [],
+      workoutType: 'strength',
+      exercises: [{
+        id: 'ex-1',
+        exerciseId: 'bench',
+        exerciseName: 'Bench Press',
+        sets: [
+          { setNumber: 1, weight: 60, reps: 5, unit: 'kg', setType: 'warmup', completed: true },
+          { setNumber: 2, weight: 100, reps: 5, unit: 'kg', completed: true },
+          { setNumber: 3, weight: 80, reps: 8, unit: 'kg', setType: 'drop', completed: true, notes: '=grip' },
+          { setNumber: 4, weight: 100, reps: 5, unit: 'kg', completed: false },
+        ],
+        totalVolume: 0,
+        musclesWorked: [],
+        timestamp: new Date(2026, 0, 5, 18, 30),
+      }],
+    };
+
+    const parsed = parseWorkoutCsv(toCsv(buildSetRows([workout])));
+    expect(parsed.source).toBe('fittrackai');
+    expect(parsed.workouts).toHaveLength(1);
+    expect(parsed.workouts[0].date).toEqual(workout.startTime);
+    expect(parsed.workouts[0].exercises[0].sets).toEqual([
+      expect.objectContaining({ weight: 60, reps: 5, unit: 'kg', setType: 'warmup' }),
+      expect.objectContaining({ weight: 100, reps: 5, setType: undefined }),
+      expect.objectContaining({ weight: 80, reps: 8, setType: 'drop', notes: '=grip' }),
+    ]);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { createZipArchive, crc32 } from '../zipArchive';
+
+interface ReadEntry {
+  name: string;
+  content: string;
+  crc: number;
+  method: number;
+  flags: number;
+  dosTime: number;
+  dosDate: number;
+}
+
+/**
+ * Read a stored (uncompressed) archive back through its central directory,
+ * checking each local header agrees with it
+ */
+function readZip(archive: Uint8Array): ReadEntry[] {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const decoder = new TextDecoder();
+  const endOffset = archive.length - 22;
+  expect(view.getUint32(endOffset, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(endOffset + 10, true);
+  const centralSize = view.getUint32(endOffset + 12, true);
+  let position = view.getUint32(endOffset + 16, true);
+  expect(position + centralSize).toBe(endOffset);
+
+  const entries: ReadEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(position + 28, true);
+    const size = view.getUint32(position + 24, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(archive.subarray(position + 46, position + 46 + nameLength));
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    expect(view.getUint32(localOffset + 14, true)).toBe(view.getUint32(position + 16, true));
+    expect(view.getUint32(localOffset + 22, true)).toBe(size);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true);
+    const data = archive.subarray(dataStart, dataStart + size);
+
+    entries.push({
+      name,
+      content: decoder.decode(data),
+      crc: view.getUint32(position + 16, true),
+      method: view.getUint16(position + 10, true),
+      flags: view.getUint16(position + 8, true),
+      dosTime: view.getUint16(position + 12, true),
+      dosDate: view.getUint16(position + 14, true),
+    });
+    expect(crc32(data)).toBe(entries[i].crc);
+    position += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('zipArchive', () => {
+  it('should compute the standard CRC-32', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+
+  it('should store every entry so it can be read back through the central directory', () => {
+    const date = new Date(2026, 0, 5, 18, 30, 44);
+    const archive = createZipArchive([
+      { name: 'sets.csv', content: 'Date,Exercise\r\n2026-01-05,Bench Press', date },
+      { name: 'notes/søvn.csv', content: 'Ünïcode, ✓', date },
+      { name: 'raw.bin', content: new Uint8Array([104, 105]), date },
+    ]);
+
+    const entries = readZip(archive);
+    expect(entries.map(entry => [entry.name, entry.content])).toEqual([
+      ['sets.csv', 'Date,Exercise\r\n2026-01-05,Bench Press'],
+      ['notes/søvn.csv', 'Ünïcode, ✓'],
+      ['raw.bin', 'hi'],
+    ]);
+    // Stored, with the UTF-8 file name flag
+    expect(entries.every(entry => entry.method === 0 && entry.flags === 0x0800)).toBe(true);
+    // DOS timestamps have two-second resolution
+    expect(entries[0].dosTime).toBe((18 << 11) | (30 << 5) | 22);
+    expect(entries[0].dosDate).toBe(((2026 - 1980) << 9) | (1 << 5) | 5);
+  });
+
+  it('should write a valid empty archive', () => {
+    const archive = createZipArchive([]);
+    expect(archive).toHaveLength(22);
+    expect(readZip(archive)).toEqual([]);
+  });
+});
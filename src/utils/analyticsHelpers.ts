@@ -3,6 +3,7 @@ import { PersonalRecord } from '@/types/analytics';
 import { MuscleGroup, isBilateralMuscle } from '@/types/muscle';
 import { exerciseMuscleMap } from '@/services/muscleMapping';
 import { calculateVolumeBySide } from '@/utils/calculations';
+import { countsForRecords } from '@/utils/setTypes';
 
 export type DateRange = '7d' | '30d' | '90d' | '180d' | '1y' | 'all';
 
@@ -56,7 +57,7 @@ export function calculatePersonalRecords(workouts: Workout[]): PersonalRecord[]
       const existingRecord = records.get(exerciseName);
 
       (exercise.sets ?? []).forEach((set) => {
-        if (!set.completed) {
+        if (!set.completed || !countsForRecords(set)) {
     return;
   }
         
@@ -1,5 +1,6 @@
 import { WorkoutSet, ExerciseTrackingType } from '@/types/exercise';
 import { calculateEffectiveBodyweight } from './bodyweightMultipliers';
+import { countsTowardsVolume } from './setTypes';
 
 /**
  * Infer tracking type from set data
@@ -36,10 +37,11 @@ export function calculateVolumeBySide(
   options?: {
     userBodyweight?: number;
     exerciseName?: string;
+    includeWarmups?: boolean; // Warm-up sets are left out of volume unless set
   }
 ): { left: number; right: number } {
   return sets.reduce((acc, set) => {
-    if (!set.completed) {
+    if (!set.completed || !countsTowardsVolume(set, options?.includeWarmups)) {
       return acc;
     }
 
@@ -194,10 +196,11 @@ export function calculateVolume(
   options?: {
     userBodyweight?: number;
     exerciseName?: string;
+    includeWarmups?: boolean; // Warm-up sets are left out of volume unless set
   }
 ): number {
   return sets.reduce((total, set) => {
-    if (!set.completed) {
+    if (!set.completed || !countsTowardsVolume(set, options?.includeWarmups)) {
       return total;
     }
 
@@ -247,6 +250,76 @@ export function calculateEstimatedOneRepMax(weight: number, reps: number): numbe
   return weight / (1.0278 - 0.0278 * reps);
 }
 
+export type OneRepMaxFormula = 'epley' | 'brzycki' | 'lombardi' | 'rpe';
+
+export const DEFAULT_ONE_REP_MAX_FORMULA: OneRepMaxFormula = 'brzycki';
+
+// Rep-max targets tracked as separate personal records
+export const REP_MAX_TARGETS = [1, 3, 5, 10] as const;
+
+// Percentage of 1RM for 1-12 reps taken to failure (RPE 10), following the
+// common RPE chart. Each 0.5 RPE below 10 counts as half a rep in reserve.
+const RPE_10_PERCENTAGES = [100, 95.5, 92.2, 89.2, 86.3, 83.7, 81.1, 78.6, 76.2, 73.9, 70.7, 68.0];
+
+export function calculateLombardiOneRepMax(weight: number, reps: number): number {
+  // Lombardi formula: 1RM = weight × reps^0.10
+  return weight * Math.pow(reps, 0.1);
+}
+
+/**
+ * Estimate 1RM from an RPE chart: reps done plus reps in reserve give the
+ * percentage of max the set represented
+ */
+export function calculateRpeOneRepMax(weight: number, reps: number, rpe: number): number {
+  const clampedRpe = Math.min(10, Math.max(6, rpe));
+  const effectiveReps = reps + (10 - clampedRpe);
+  const lowerIndex = Math.floor(effectiveReps) - 1;
+  const fraction = effectiveReps - Math.floor(effectiveReps);
+
+  if (lowerIndex >= RPE_10_PERCENTAGES.length - 1) {
+    // Beyond the chart, fall back to Epley on the effective reps
+    return calculateOneRepMax(weight, effectiveReps);
+  }
+
+  const lower = RPE_10_PERCENTAGES[Math.max(0, lowerIndex)];
+  const upper = RPE_10_PERCENTAGES[Math.max(0, lowerIndex + 1)];
+  const percentage = lower - (lower - upper) * fraction;
+  return weight / (percentage / 100);
+}
+
+/**
+ * Estimate 1RM with a selectable formula. The RPE formula needs a logged RPE
+ * and falls back to Brzycki when the set has none.
+ */
+export function estimateOneRepMax(
+  weight: number,
+  reps: number,
+  formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA,
+  rpe?: number
+): number {
+  if (weight <= 0 || reps <= 0) {
+    return 0;
+  }
+  if (reps === 1 && (formula !== 'rpe' || rpe === undefined || rpe >= 10)) {
+    return weight;
+  }
+
+  switch (formula) {
+    case 'epley':
+      return calculateOneRepMax(weight, reps);
+    case 'lombardi':
+      return calculateLombardiOneRepMax(weight, reps);
+    case 'rpe':
+      return rpe !== undefined
+        ? calculateRpeOneRepMax(weight, reps, rpe)
+        : estimateOneRepMax(weight, reps, 'brzycki');
+    case 'brzycki':
+    default:
+      // Brzycki is undefined from 37 reps; use Epley for very high rep sets
+      return reps < 37 ? calculateEstimatedOneRepMax(weight, reps) : calculateOneRepMax(weight, reps);
+  }
+}
+
 export function formatDuration(minutes: number): string {
   if (minutes < 60) {
     return `${minutes}m`;
@@ -394,6 +467,7 @@ export function calculateVolumeByType(
   options?: {
     userBodyweight?: number;
     exerciseName?: string;
+    includeWarmups?: boolean; // Warm-up sets are left out of volume unless set
   }
 ): VolumeMetrics {
   const metrics: VolumeMetrics = {
@@ -405,7 +479,7 @@ export function calculateVolumeByType(
   };
 
   sets.forEach((set) => {
-    if (!set.completed) {
+    if (!set.completed || !countsTowardsVolume(set, options?.includeWarmups)) {
       return;
     }
 
@@ -0,0 +1,267 @@
+import { CardioTrackPoint, DistanceUnit } from '@/types/exercise';
+import { BestEffort, CardioSplit, CardioTrackAnalysis, HeartRateZoneBounds, HeartRateZoneTime } from '@/types/cardio';
+import { TrackPoint } from '@/types/wearable';
+import { calculatePace } from './calculations';
+import { haversineDistance } from './wearableHelpers';
+import { calculateZoneTime } from './heartRateZones';
+
+// Enough for smooth splits and a route outline without bloating the synced workout document
+export const MAX_TRACK_POINTS = 600;
+
+const METERS_PER_MILE = 1609.344;
+const ELEVATION_NOISE_M = 3; // GPS altitude jitter below this is ignored
+export const MAX_SAMPLE_GAP_S = 30; // Longer gaps are pauses and do not count towards zone time
+
+export const BEST_EFFORT_DISTANCES: Array<{ distance: number; label: string }> = [
+  { distance: 1000, label: '1K' },
+  { distance: METERS_PER_MILE, label: '1 mile' },
+  { distance: 5000, label: '5K' },
+  { distance: 10000, label: '10K' },
+  { distance: 21097.5, label: 'Half marathon' },
+];
+
+function round(value: number | undefined, decimals: number): number | undefined {
+  if (value === undefined || !Number.isFinite(value)) {
+    return undefined;
+  }
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Convert parsed GPX/TCX/FIT points into the stored track: offsets from
+ * `start`, cumulative distance filled in from coordinates when the file has
+ * none, and evenly thinned to at most `maxPoints` (first and last kept).
+ */
+export function toCardioTrack(points: TrackPoint[], start: Date, maxPoints: number = MAX_TRACK_POINTS): CardioTrackPoint[] {
+  const sorted = [...points].sort((a, b) => a.time.getTime() - b.time.getTime());
+  const hasDistance = sorted.some(point => point.distance !== undefined);
+
+  let distance = 0;
+  let previous: TrackPoint | null = null;
+  const track = sorted.map((point): CardioTrackPoint => {
+    if (!hasDistance && previous?.lat !== undefined && previous.lon !== undefined &&
+        point.lat !== undefined && point.lon !== undefined) {
+      distance += haversineDistance(previous.lat, previous.lon, point.lat, point.lon);
+    }
+    previous = point;
+    return {
+      t: Math.max(0, Math.round((point.time.getTime() - start.getTime()) / 1000)),
+      lat: round(point.lat, 6),
+      lon: round(point.lon, 6),
+      ele: round(point.elevation, 1),
+      d: round(hasDistance ? point.distance : distance, 1),
+      hr: point.heartRate !== undefined ? Math.round(point.heartRate) : undefined,
+    };
+  });
+
+  if (track.length <= maxPoints) {
+    return track;
+  }
+  const step = (track.length - 1) / (maxPoints - 1);
+  return Array.from({ length: maxPoints }, (_, index) => track[Math.round(index * step)]);
+}
+
+/**
+ * Points with a known distance, with gaps in the distance carried forward
+ */
+function withDistance(track: CardioTrackPoint[]): Array<{ t: number; d: number; ele?: number; hr?: number }> {
+  let last = 0;
+  return track.map((point) => {
+    last = point.d !== undefined ? Math.max(last, point.d) : last;
+    return { t: point.t, d: last, ele: point.ele, hr: point.hr };
+  });
+}
+
+export function getTrackDistance(track: CardioTrackPoint[]): number {
+  const points = withDistance(track);
+  return points.length > 0 ? points[points.length - 1].d : 0;
+}
+
+/**
+ * Total climb and descent, ignoring changes smaller than the GPS noise
+ */
+export function calculateElevationChange(track: CardioTrackPoint[]): { gain: number; loss: number } {
+  let gain = 0;
+  let loss = 0;
+  let reference: number | undefined;
+  for (const point of track) {
+    if (point.ele === undefined) {
+      continue;
+    }
+    if (reference === undefined) {
+      reference = point.ele;
+      continue;
+    }
+    const change = point.ele - reference;
+    if (change >= ELEVATION_NOISE_M) {
+      gain += change;
+      reference = point.ele;
+    } else if (change <= -ELEVATION_NOISE_M) {
+      loss -= change;
+      reference = point.ele;
+    }
+  }
+  return { gain: Math.round(gain), loss: Math.round(loss) };
+}
+
+/**
+ * Time at which the track reached `target` metres, interpolated between points
+ */
+function timeAtDistance(points: Array<{ t: number; d: number }>, target: number, from = 0): number {
+  for (let i = Math.max(1, from); i < points.length; i++) {
+    if (points[i].d >= target) {
+      const previous = points[i - 1];
+      const span = points[i].d - previous.d;
+      const ratio = span > 0 ? (target - previous.d) / span : 1;
+      return previous.t + (points[i].t - previous.t) * ratio;
+    }
+  }
+  return points[points.length - 1]?.t ?? 0;
+}
+
+/**
+ * Per-km or per-mile splits. The last split covers the remaining distance.
+ */
+export function calculateSplits(track: CardioTrackPoint[], unit: DistanceUnit): CardioSplit[] {
+  const points = withDistance(track);
+  const total = points.length > 0 ? points[points.length - 1].d : 0;
+  const splitLength = unit === 'miles' ? METERS_PER_MILE : 1000;
+  if (total <= 0) {
+    return [];
+  }
+
+  const splits: CardioSplit[] = [];
+  let startTime = points[0].t;
+  for (let index = 1; (index - 1) * splitLength < total; index++) {
+    const startDistance = (index - 1) * splitLength;
+    const endDistance = Math.min(index * splitLength, total);
+    const endTime = timeAtDistance(points, endDistance);
+    const inSplit = points.filter(point => point.d >= startDistance && point.d <= endDistance);
+    const heartRates = inSplit.map(point => point.hr).filter((hr): hr is number => hr !== undefined);
+    const distance = (endDistance - startDistance) / splitLength;
+    // Skip a final sliver too short to give a meaningful pace
+    if (distance < 0.05 && splits.length > 0) {
+      break;
+    }
+
+    splits.push({
+      index,
+      distance: Math.round(distance * 100) / 100,
+      time: Math.round(endTime - startTime),
+      pace: calculatePace(endTime - startTime, distance, unit),
+      elevationGain: calculateElevationChange(inSplit).gain,
+      averageHeartRate: heartRates.length > 0
+        ? Math.round(heartRates.reduce((sum, hr) => sum + hr, 0) / heartRates.length)
+        : undefined,
+    });
+    startTime = endTime;
+  }
+  return splits;
+}
+
+/**
+ * Fastest time over each standard distance the track covers, using a
+ * sliding window over the cumulative distance
+ */
+export function findBestEfforts(
+  track: CardioTrackPoint[],
+  distances: Array<{ distance: number; label: string }> = BEST_EFFORT_DISTANCES
+): BestEffort[] {
+  const points = withDistance(track);
+  const total = points.length > 0 ? points[points.length - 1].d : 0;
+
+  return distances
+    .filter(({ distance }) => distance <= total)
+    .map(({ distance, label }) => {
+      let best: BestEffort | null = null;
+      let end = 1;
+      for (let start = 0; start < points.length; start++) {
+        const target = points[start].d + distance;
+        if (target > total) {
+          break;
+        }
+        while (end < points.length - 1 && points[end].d < target) {
+          end++;
+        }
+        const time = timeAtDistance(points, target, end) - points[start].t;
+        if (time > 0 && (!best || time < best.time)) {
+          best = { distance, label, time: Math.round(time), startOffset: points[start].t };
+        }
+      }
+      return best;
+    })
+    .filter((effort): effort is BestEffort => effort !== null);
+}
+
+/**
+ * Seconds spent in each heart-rate zone, or empty when the track has no heart rate
+ */
+export function calculateTrackZoneTime(track: CardioTrackPoint[], zones: HeartRateZoneBounds[]): HeartRateZoneTime[] {
+  const samples = track
+    .filter((point): point is CardioTrackPoint & { hr: number } => point.hr !== undefined)
+    .map(point => ({ offset: point.t, bpm: point.hr }));
+  return samples.length > 1 ? calculateZoneTime(samples, zones, MAX_SAMPLE_GAP_S) : [];
+}
+
+export function analyzeCardioTrack(track: CardioTrackPoint[], unit: DistanceUnit, zones: HeartRateZoneBounds[]): CardioTrackAnalysis {
+  const elevation = calculateElevationChange(track);
+  return {
+    distance: Math.round(getTrackDistance(track)),
+    duration: track.length > 1 ? track[track.length - 1].t - track[0].t : 0,
+    elevationGain: elevation.gain,
+    elevationLoss: elevation.loss,
+    splits: calculateSplits(track, unit),
+    bestEfforts: findBestEfforts(track),
+    heartRateZones: calculateTrackZoneTime(track, zones),
+    hasRoute: track.filter(point => point.lat !== undefined && point.lon !== undefined).length > 1,
+  };
+}
+
+/**
+ * Project the route onto a width x height box (equirectangular, scaled by
+ * latitude so the shape is not stretched) and return SVG path data
+ */
+export function projectRoute(track: CardioTrackPoint[], width: number, height: number, padding = 8): string {
+  const points = track.filter(
+    (point): point is CardioTrackPoint & { lat: number; lon: number } => point.lat !== undefined && point.lon !== undefined
+  );
+  if (points.length < 2) {
+    return '';
+  }
+
+  const midLat = (Math.min(...points.map(p => p.lat)) + Math.max(...points.map(p => p.lat))) / 2;
+  const xScale = Math.cos((midLat * Math.PI) / 180);
+  const xs = points.map(point => point.lon * xScale);
+  const ys = points.map(point => point.lat);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const spanX = Math.max(...xs) - minX || 1e-9;
+  const spanY = Math.max(...ys) - minY || 1e-9;
+  const scale = Math.min((width - padding * 2) / spanX, (height - padding * 2) / spanY);
+  const offsetX = (width - spanX * scale) / 2;
+  const offsetY = (height - spanY * scale) / 2;
+
+  return xs
+    .map((x, index) => {
+      const px = offsetX + (x - minX) * scale;
+      const py = height - (offsetY + (ys[index] - minY) * scale); // North up
+      return `${index === 0 ? 'M' : 'L'}${px.toFixed(1)} ${py.toFixed(1)}`;
+    })
+    .join(' ');
+}
+
+export function toDistanceInUnit(meters: number, unit: DistanceUnit): number {
+  return unit === 'miles' ? meters / METERS_PER_MILE : meters / 1000;
+}
+
+/**
+ * "m:ss", or "h:mm:ss" from an hour
+ */
+export function formatElapsedTime(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = (total % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
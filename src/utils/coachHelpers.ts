@@ -0,0 +1,186 @@
+import { format, differenceInCalendarWeeks } from 'date-fns';
+import { Workout } from '@/types/workout';
+import { CoachToolCall, CoachToolName } from '@/types/ai';
+import { convertWeight, estimateOneRepMax, OneRepMaxFormula, DEFAULT_ONE_REP_MAX_FORMULA } from './calculations';
+import { parseAIJSON, cleanPlainTextResponse } from './aiResponseCleaner';
+
+export const COACH_TOOL_NAMES: CoachToolName[] = [
+  'get_recent_workouts',
+  'get_exercise_history',
+  'get_recovery_status',
+  'get_planned_workouts',
+  'search_exercises',
+  'propose_planned_workout_edit',
+];
+
+export type CoachAction =
+  | { type: 'tool'; call: CoachToolCall }
+  | { type: 'reply'; text: string };
+
+function isCoachToolName(value: unknown): value is CoachToolName {
+  return typeof value === 'string' && (COACH_TOOL_NAMES as string[]).includes(value);
+}
+
+/**
+ * Read a coach model response: either a tool call or the final reply.
+ * Anything that isn't the expected JSON is treated as the reply text.
+ */
+export function parseCoachAction(text: string): CoachAction {
+  const parsed = parseAIJSON<Record<string, unknown>>(text);
+  if (parsed) {
+    if (isCoachToolName(parsed.tool)) {
+      const args = parsed.arguments;
+      return {
+        type: 'tool',
+        call: {
+          name: parsed.tool,
+          arguments: typeof args === 'object' && args !== null && !Array.isArray(args) ? args as Record<string, unknown> : {},
+        },
+      };
+    }
+    if (typeof parsed.reply === 'string') {
+      return { type: 'reply', text: parsed.reply.trim() };
+    }
+  }
+  return { type: 'reply', text: cleanPlainTextResponse(text) };
+}
+
+/**
+ * Short label for a tool call, shown in the chat instead of the raw output
+ */
+export function describeCoachToolCall(call: CoachToolCall): string {
+  switch (call.name) {
+    case 'get_recent_workouts':
+      return 'Checked your recent workouts';
+    case 'get_exercise_history':
+      return typeof call.arguments.exercise === 'string'
+        ? `Checked your ${call.arguments.exercise} history`
+        : 'Checked your exercise history';
+    case 'get_recovery_status':
+      return 'Checked your muscle recovery';
+    case 'get_planned_workouts':
+      return 'Checked your planned workouts';
+    case 'search_exercises':
+      return 'Searched the exercise library';
+    case 'propose_planned_workout_edit':
+      return 'Drafted a change to your plan';
+  }
+}
+
+function setWeight(weight: number | undefined, setUnit: 'kg' | 'lbs' | undefined, unit: 'kg' | 'lbs'): number {
+  return Math.round(convertWeight(weight ?? 0, setUnit ?? 'kg', unit) * 10) / 10;
+}
+
+/**
+ * One line per workout: date, type and each exercise's best set
+ */
+export function describeWorkoutSession(workout: Workout, unit: 'kg' | 'lbs'): string {
+  const exercises = (workout.exercises ?? []).map((exercise) => {
+    const completed = exercise.sets.filter(set => set.completed);
+    const sets = completed.length > 0 ? completed : exercise.sets;
+    const weighted = sets.filter(set => (set.weight ?? 0) > 0 && (set.reps ?? 0) > 0);
+    if (weighted.length > 0) {
+      const best = weighted.reduce((top, set) =>
+        setWeight(set.weight, set.unit, unit) > setWeight(top.weight, top.unit, unit) ? set : top
+      );
+      return `${exercise.exerciseName} ${sets.length}x (top ${setWeight(best.weight, best.unit, unit)} ${unit} x ${best.reps})`;
+    }
+    const distance = sets.reduce((sum, set) => sum + (set.distance ?? 0), 0);
+    if (distance > 0) {
+      return `${exercise.exerciseName} ${Math.round(distance * 10) / 10}${sets[0].distanceUnit ?? 'km'}`;
+    }
+    const reps = sets.reduce((sum, set) => sum + (set.reps ?? 0), 0);
+    return reps > 0 ? `${exercise.exerciseName} ${sets.length}x, ${reps} reps` : exercise.exerciseName;
+  });
+  const mood = workout.mood ? `, felt ${workout.mood}` : '';
+  return `${format(new Date(workout.date), 'EEE MMM d')} (${workout.workoutType}${mood}): ${exercises.join('; ') || 'no exercises'}`;
+}
+
+interface ExerciseSession {
+  date: Date;
+  bestOneRepMax: number;
+  bestSet: { weight: number; reps: number };
+  setCount: number;
+}
+
+/**
+ * Session-by-session history of one exercise with an e1RM trend, so the coach
+ * can tell whether a lift is progressing or has stalled
+ */
+export function summarizeExerciseHistory(
+  workouts: Workout[],
+  query: string,
+  unit: 'kg' | 'lbs',
+  formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA,
+  now: Date = new Date()
+): string {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return 'No exercise name given.';
+  }
+
+  // Several logged names can match ("bench" → "Bench Press", "Incline Bench Press"); use the most frequent
+  const counts = new Map<string, number>();
+  workouts.forEach((workout) => {
+    (workout.exercises ?? []).forEach((exercise) => {
+      const name = exercise.exerciseName.toLowerCase();
+      if (name.includes(needle) || needle.includes(name)) {
+        counts.set(exercise.exerciseName, (counts.get(exercise.exerciseName) ?? 0) + 1);
+      }
+    });
+  });
+  if (counts.size === 0) {
+    return `No logged sessions found for "${query}".`;
+  }
+  const [exerciseName] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+
+  const sessions: ExerciseSession[] = [];
+  workouts.forEach((workout) => {
+    (workout.exercises ?? [])
+      .filter(exercise => exercise.exerciseName === exerciseName)
+      .forEach((exercise) => {
+        const weighted = exercise.sets.filter(set => set.completed && (set.weight ?? 0) > 0 && (set.reps ?? 0) > 0);
+        if (weighted.length === 0) {
+          return;
+        }
+        let best = { weight: 0, reps: 0 };
+        let bestOneRepMax = 0;
+        weighted.forEach((set) => {
+          const weight = setWeight(set.weight, set.unit, unit);
+          const oneRepMax = estimateOneRepMax(weight, set.reps ?? 0, formula, set.rpe);
+          if (oneRepMax > bestOneRepMax) {
+            bestOneRepMax = oneRepMax;
+            best = { weight, reps: set.reps ?? 0 };
+          }
+        });
+        sessions.push({ date: new Date(workout.date), bestOneRepMax, bestSet: best, setCount: weighted.length });
+      });
+  });
+
+  if (sessions.length === 0) {
+    return `${exerciseName} has no completed weighted sets yet.`;
+  }
+
+  sessions.sort((a, b) => a.date.getTime() - b.date.getTime());
+  const recent = sessions.slice(-12);
+  const lines = recent.map(session =>
+    `${format(session.date, 'MMM d')}: ${session.setCount} sets, best ${session.bestSet.weight} ${unit} x ${session.bestSet.reps} (e1RM ${Math.round(session.bestOneRepMax)} ${unit})`
+  );
+
+  const peak = recent.reduce((top, session) => (session.bestOneRepMax > top.bestOneRepMax ? session : top));
+  const first = recent[0];
+  const weeksSincePeak = differenceInCalendarWeeks(now, peak.date);
+  let trend: string;
+  if (recent.length >= 4 && weeksSincePeak >= 3) {
+    trend = `Stalled: best e1RM ${Math.round(peak.bestOneRepMax)} ${unit} was ${weeksSincePeak} weeks ago (${format(peak.date, 'MMM d')}) and no session since has beaten it.`;
+  } else if (recent.length > 1 && first.bestOneRepMax > 0) {
+    const change = Math.round(((peak.bestOneRepMax - first.bestOneRepMax) / first.bestOneRepMax) * 100);
+    trend = `e1RM ${change >= 0 ? 'up' : 'down'} ${Math.abs(change)}% since ${format(first.date, 'MMM d')}.`;
+  } else {
+    trend = 'Not enough sessions to judge a trend yet.';
+  }
+
+  const others = [...counts.keys()].filter(name => name !== exerciseName);
+  const otherMatches = others.length > 0 ? `\nOther matching exercises: ${others.join(', ')}` : '';
+  return `${exerciseName} (${sessions.length} sessions)\n${lines.join('\n')}\n${trend}${otherMatches}`;
+}
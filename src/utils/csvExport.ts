@@ -0,0 +1,187 @@
+import { format, startOfDay, endOfDay } from 'date-fns';
+import { Workout, PlannedWorkout } from '@/types/workout';
+import { SleepLog, RecoveryLog } from '@/types/sleep';
+import { CsvExportOptions } from '@/types/export';
+import { getWorkoutName } from './workoutHelpers';
+
+type CsvValue = string | number | boolean | Date | null | undefined;
+
+export interface CsvTable {
+  headers: string[];
+  rows: CsvValue[][];
+}
+
+export const SET_CSV_HEADERS = [
+  'Date',
+  'Workout',
+  'Exercise',
+  'Set Number',
+  'Set Type',
+  'Weight',
+  'Unit',
+  'Reps',
+  'RPE',
+  'Rest (s)',
+  'Side',
+  'Distance',
+  'Distance Unit',
+  'Duration (s)',
+  'Completed',
+  'Notes',
+];
+
+function formatCsvDate(date: Date | string | undefined): string {
+  if (!date) {
+    return '';
+  }
+  const parsed = new Date(date);
+  return isNaN(parsed.getTime()) ? '' : format(parsed, 'yyyy-MM-dd HH:mm');
+}
+
+function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return formatCsvDate(value);
+  }
+  if (typeof value !== 'string') {
+    return String(value);
+  }
+
+  // Prevent spreadsheets from evaluating user-entered text as a formula
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Serialize a table to RFC 4180 CSV
+ */
+export function toCsv({ headers, rows }: CsvTable): string {
+  return [headers, ...rows].map((row) => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
+
+/**
+ * Check a date against the inclusive day range of the export options
+ */
+export function isWithinExportRange(date: Date | string, options: CsvExportOptions): boolean {
+  const value = new Date(date).getTime();
+  if (options.startDate && value < startOfDay(options.startDate).getTime()) {
+    return false;
+  }
+  if (options.endDate && value > endOfDay(options.endDate).getTime()) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * One row per logged set, oldest workout first
+ */
+export function buildSetRows(workouts: Workout[], options: CsvExportOptions = {}): CsvTable {
+  const exerciseFilter = options.exerciseIds?.length ? new Set(options.exerciseIds) : null;
+  const rows: CsvValue[][] = [];
+
+  [...workouts]
+    .filter((workout) => !workout.deletedAt && isWithinExportRange(workout.date, options))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .forEach((workout) => {
+      const workoutName = getWorkoutName(workout);
+      workout.exercises
+        .filter((exercise) => !exerciseFilter || exerciseFilter.has(exercise.exerciseId))
+        .forEach((exercise) => {
+          exercise.sets.forEach((set) => {
+            rows.push([
+              formatCsvDate(workout.startTime ?? workout.date),
+              workoutName,
+              exercise.exerciseName,
+              set.setNumber,
+              set.setType ?? 'working',
+              set.weight,
+              set.weight !== undefined ? set.unit : undefined,
+              set.reps,
+              set.rpe,
+              set.restTime,
+              set.sides,
+              set.distance,
+              set.distance !== undefined ? set.distanceUnit : undefined,
+              set.duration ?? set.time,
+              set.completed,
+              set.notes,
+            ]);
+          });
+        });
+    });
+
+  return { headers: SET_CSV_HEADERS, rows };
+}
+
+export function buildSleepLogRows(sleepLogs: SleepLog[], options: CsvExportOptions = {}): CsvTable {
+  return {
+    headers: ['Date', 'Bedtime', 'Wake Time', 'Duration (min)', 'Quality', 'Notes'],
+    rows: sleepLogs
+      .filter((log) => isWithinExportRange(log.date, options))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+      .map((log) => [
+        format(new Date(log.date), 'yyyy-MM-dd'),
+        formatCsvDate(log.bedtime),
+        formatCsvDate(log.wakeTime),
+        log.duration,
+        log.quality,
+        log.notes,
+      ]),
+  };
+}
+
+export function buildRecoveryLogRows(recoveryLogs: RecoveryLog[], options: CsvExportOptions = {}): CsvTable {
+  return {
+    headers: ['Date', 'Overall Recovery (%)', 'Stress', 'Energy', 'Soreness', 'Readiness', 'Notes'],
+    rows: recoveryLogs
+      .filter((log) => isWithinExportRange(log.date, options))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+      .map((log) => [
+        format(new Date(log.date), 'yyyy-MM-dd'),
+        log.overallRecovery,
+        log.stressLevel,
+        log.energyLevel,
+        log.soreness,
+        log.readinessToTrain,
+        log.notes,
+      ]),
+  };
+}
+
+/**
+ * One row per planned exercise so prescriptions can be compared against logged sets
+ */
+export function buildPlannedWorkoutRows(plannedWorkouts: PlannedWorkout[], options: CsvExportOptions = {}): CsvTable {
+  const exerciseFilter = options.exerciseIds?.length ? new Set(options.exerciseIds) : null;
+  const rows: CsvValue[][] = [];
+
+  plannedWorkouts
+    .filter((planned) => !planned.deletedAt && isWithinExportRange(planned.scheduledDate, options))
+    .sort((a, b) => new Date(a.scheduledDate).getTime() - new Date(b.scheduledDate).getTime())
+    .forEach((planned) => {
+      planned.exercises
+        .filter((exercise) => !exerciseFilter || exerciseFilter.has(exercise.exerciseId))
+        .forEach((exercise) => {
+          rows.push([
+            format(new Date(planned.scheduledDate), 'yyyy-MM-dd'),
+            planned.workoutName,
+            planned.category,
+            exercise.exerciseName,
+            exercise.sets,
+            exercise.reps,
+            exercise.weight,
+            exercise.restTime,
+            planned.isCompleted,
+            planned.notes,
+          ]);
+        });
+    });
+
+  return {
+    headers: ['Date', 'Workout', 'Category', 'Exercise', 'Sets', 'Reps', 'Weight', 'Rest (s)', 'Completed', 'Notes'],
+    rows,
+  };
+}
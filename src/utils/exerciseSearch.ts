@@ -108,6 +108,50 @@ function fuzzyMatchAdvanced(text: string, query: string): boolean {
   return false;
 }
 
+/**
+ * Normalize an exercise name from another app for comparison.
+ * Moves trailing equipment qualifiers to the front, e.g.
+ * "Bench Press (Barbell)" -> "barbell bench press".
+ */
+export function normalizeExerciseName(name: string): string {
+  const lower = name.toLowerCase().trim();
+  const qualifier = lower.match(/\(([^)]+)\)\s*$/);
+  const base = qualifier ? `${qualifier[1]} ${lower.slice(0, qualifier.index)}` : lower;
+  return base
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word))
+    .join(' ');
+}
+
+/**
+ * Word-overlap similarity between two exercise names (0-100).
+ * Words within one typo of each other count as matching.
+ */
+export function calculateNameSimilarity(a: string, b: string): number {
+  const wordsA = normalizeExerciseName(a).split(' ').filter(Boolean);
+  const wordsB = normalizeExerciseName(b).split(' ').filter(Boolean);
+  if (wordsA.length === 0 || wordsB.length === 0) {
+    return 0;
+  }
+
+  const remaining = [...wordsB];
+  let shared = 0;
+  for (const word of wordsA) {
+    const index = remaining.findIndex(other =>
+      other === word || (word.length >= 5 && other.length >= 5 && levenshteinDistance(word, other) <= 1)
+    );
+    if (index !== -1) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+
+  const union = wordsA.length + wordsB.length - shared;
+  return Math.round((shared / union) * 100);
+}
+
 /**
  * Check if exercise matches muscle group search
  */
@@ -0,0 +1,201 @@
+import { Exercise, SubstitutionReason, WorkoutSet } from '@/types/exercise';
+import { Workout } from '@/types/workout';
+import { getLoadEquipmentKind } from './plateCalculator';
+import { hasEquipmentFor } from './recommendedWorkoutHelpers';
+import { isWarmupSet } from './setTypes';
+
+export type MovementPattern =
+  | 'horizontal_push'
+  | 'vertical_push'
+  | 'horizontal_pull'
+  | 'vertical_pull'
+  | 'squat'
+  | 'lunge'
+  | 'hinge'
+  | 'fly'
+  | 'elbow_flexion'
+  | 'elbow_extension'
+  | 'knee_flexion'
+  | 'knee_extension'
+  | 'shoulder_raise'
+  | 'calf_raise'
+  | 'carry'
+  | 'core';
+
+// Checked in order, so the more specific names ("leg curl" before "curl") come first
+const MOVEMENT_PATTERNS: Array<[MovementPattern, RegExp]> = [
+  ['calf_raise', /\bcalf\b/],
+  ['knee_flexion', /\b(leg|hamstring|lying|seated) curl|nordic/],
+  ['knee_extension', /\bleg extension/],
+  ['hinge', /deadlift|\brdl\b|romanian|good morning|hip thrust|glute bridge|swing|hyperextension|back extension/],
+  ['core', /crunch|plank|sit-?up|leg raise|knee raise|ab wheel|rollout|twist|wood ?chop/],
+  ['vertical_pull', /pull-?ups?\b|chin-?ups?\b|pull-?down/],
+  ['horizontal_pull', /\brows?\b|face pull/],
+  ['lunge', /lunge|split squat|step-?up/],
+  ['squat', /squat|leg press|hack/],
+  ['vertical_push', /overhead|shoulder press|military|arnold|push press|landmine press/],
+  ['fly', /\bfly|\bflye|pec deck|crossover/],
+  ['horizontal_push', /bench|chest press|push-?ups?\b|\bdips?\b|floor press/],
+  ['elbow_flexion', /curl/],
+  ['elbow_extension', /tricep|pushdown|skull ?crusher|kickback|extension/],
+  ['shoulder_raise', /raise/],
+  ['carry', /carry|farmer/],
+];
+
+export const SUBSTITUTION_REASONS: Record<SubstitutionReason, { label: string; icon: string }> = {
+  equipment_busy: { label: 'Equipment taken', icon: 'groups' },
+  equipment_unavailable: { label: 'No equipment', icon: 'block' },
+  injury: { label: 'Pain or injury', icon: 'healing' },
+  preference: { label: 'Just swap', icon: 'swap_horiz' },
+};
+
+export function getMovementPattern(exercise: Pick<Exercise, 'name'>): MovementPattern | null {
+  const name = exercise.name.toLowerCase();
+  return MOVEMENT_PATTERNS.find(([, pattern]) => pattern.test(name))?.[0] ?? null;
+}
+
+export interface SubstitutionContext {
+  reason: SubstitutionReason;
+  equipment: string[]; // Profile equipment; "Full Gym" or empty means anything goes
+  usageCounts?: Record<string, number>; // How often the user has logged each exercise
+  previousSwaps?: Record<string, number>; // How often each exercise was picked for this one before
+}
+
+export interface SubstituteSuggestion {
+  exercise: Exercise;
+  score: number; // 0-100
+  reasons: string[]; // Most telling first
+}
+
+const formatMuscle = (muscle: string): string =>
+  muscle.replace(/_/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+
+/**
+ * How well `candidate` stands in for `original`, or null when it cannot:
+ * a different tracking type, equipment the user doesn't have, or neither a
+ * shared primary muscle nor the same movement.
+ */
+export function scoreSubstitute(
+  original: Exercise,
+  candidate: Exercise,
+  context: SubstitutionContext
+): SubstituteSuggestion | null {
+  if (candidate.id === original.id || candidate.trackingType !== original.trackingType) {
+    return null;
+  }
+  if (!hasEquipmentFor(candidate, context.equipment)) {
+    return null;
+  }
+
+  const originalPrimary = original.primaryMuscles ?? [];
+  const sharedPrimary = originalPrimary.filter(muscle => candidate.primaryMuscles?.includes(muscle));
+  const pattern = getMovementPattern(original);
+  const samePattern = pattern !== null && pattern === getMovementPattern(candidate);
+  if (sharedPrimary.length === 0 && !samePattern) {
+    return null;
+  }
+
+  const scored: Array<[number, string | null]> = [];
+  if (samePattern) {
+    scored.push([20, 'Same movement']);
+  } else if (pattern !== null && getMovementPattern(candidate) !== null) {
+    scored.push([-10, null]);
+  }
+  if (originalPrimary.length > 0) {
+    scored.push([
+      (sharedPrimary.length / originalPrimary.length) * 45,
+      sharedPrimary.length > 0 ? `Works ${sharedPrimary.slice(0, 2).map(formatMuscle).join(' & ')}` : null,
+    ]);
+  }
+  const originalAll = new Set([...originalPrimary, ...(original.secondaryMuscles ?? [])]);
+  const candidateAll = new Set([...(candidate.primaryMuscles ?? []), ...(candidate.secondaryMuscles ?? [])]);
+  const union = new Set([...originalAll, ...candidateAll]);
+  const sharedAll = [...originalAll].filter(muscle => candidateAll.has(muscle)).length;
+  scored.push([union.size > 0 ? (sharedAll / union.size) * 15 : 0, null]);
+
+  if (context.reason === 'equipment_busy' || context.reason === 'equipment_unavailable') {
+    // The original's equipment is what's missing, so lean away from it
+    const originalEquipment = new Set(original.equipment.map(item => item.toLowerCase()));
+    const shared = candidate.equipment.filter(item => originalEquipment.has(item.toLowerCase())).length;
+    const overlap = originalEquipment.size > 0 ? shared / originalEquipment.size : 0;
+    scored.push([-overlap * (context.reason === 'equipment_unavailable' ? 35 : 20), overlap === 0 ? 'Different equipment' : null]);
+  } else if (context.reason === 'injury') {
+    // Guided or unloaded variants and simpler lifts are easier to keep pain-free
+    const kind = getLoadEquipmentKind(candidate.equipment);
+    scored.push([kind === 'machine' ? 8 : kind === 'other' ? 4 : 0, kind === 'machine' ? 'Guided path' : null]);
+    scored.push([candidate.difficulty === 'beginner' ? 5 : candidate.difficulty === 'advanced' ? -10 : 0, null]);
+  }
+
+  const previousSwaps = context.previousSwaps?.[candidate.id] ?? 0;
+  if (previousSwaps > 0) {
+    scored.push([Math.min(previousSwaps * 5, 15), 'Your usual swap']);
+  }
+  const uses = context.usageCounts?.[candidate.id] ?? 0;
+  if (uses > 0) {
+    scored.push([Math.min(uses, 10), `Logged ${uses} time${uses === 1 ? '' : 's'}`]);
+  }
+
+  const score = scored.reduce((total, [points]) => total + points, 0);
+  const reasons = scored
+    .filter(([points, reason]) => reason !== null && points > 0)
+    .sort((a, b) => b[0] - a[0])
+    .map(([, reason]) => reason as string);
+  return { exercise: candidate, score: Math.round(Math.max(0, Math.min(100, score))), reasons };
+}
+
+export function rankSubstitutes(
+  original: Exercise,
+  candidates: Exercise[],
+  context: SubstitutionContext,
+  limit: number = 8
+): SubstituteSuggestion[] {
+  return candidates
+    .map(candidate => scoreSubstitute(original, candidate, context))
+    .filter((suggestion): suggestion is SubstituteSuggestion => suggestion !== null && suggestion.score > 0)
+    .sort((a, b) => b.score - a.score || a.exercise.name.localeCompare(b.exercise.name))
+    .slice(0, limit);
+}
+
+/**
+ * Substitutions recorded on logged exercises, as original id → substitute id → count
+ */
+export function countSubstitutions(workouts: Workout[]): Record<string, Record<string, number>> {
+  const counts: Record<string, Record<string, number>> = {};
+  workouts.forEach((workout) => {
+    workout.exercises.forEach((exercise) => {
+      const originalId = exercise.substitutedFor?.exerciseId;
+      if (originalId) {
+        counts[originalId] = counts[originalId] ?? {};
+        counts[originalId][exercise.exerciseId] = (counts[originalId][exercise.exerciseId] ?? 0) + 1;
+      }
+    });
+  });
+  return counts;
+}
+
+/**
+ * Sets still to do, moved onto the substitute with their targets. Loads carry
+ * over only between exercises loaded the same way; otherwise the weight is
+ * cleared for the user to pick. Pending warm-ups are dropped since they ramp
+ * to the original's load. When nothing is pending, one set is prescribed like
+ * the last working set.
+ */
+export function carryOverSets(sets: WorkoutSet[], original: Exercise, substitute: Exercise): WorkoutSet[] {
+  const keepLoad = getLoadEquipmentKind(original.equipment) === getLoadEquipmentKind(substitute.equipment);
+  let pending = sets.filter(set => !set.completed && !isWarmupSet(set));
+  if (pending.length === 0) {
+    const lastWorking = [...sets].reverse().find(set => !isWarmupSet(set));
+    pending = lastWorking ? [lastWorking] : [];
+  }
+
+  return pending.map((set, index) => ({
+    ...set,
+    setNumber: index + 1,
+    completed: false,
+    setStartTime: undefined,
+    setEndTime: undefined,
+    restTime: undefined,
+    weight: set.weight === undefined ? undefined : keepLoad ? set.weight : 0,
+    targetPercent: keepLoad ? set.targetPercent : undefined,
+  }));
+}
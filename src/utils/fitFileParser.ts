@@ -0,0 +1,237 @@
+import { ParsedActivity, TrackPoint, WearableActivityType } from '@/types/wearable';
+
+/**
+ * Minimal decoder for Garmin FIT activity files. Only session and record
+ * messages are read: enough for the activity summary, the heart-rate series
+ * and the GPS track. Developer fields and unknown messages are skipped.
+ */
+
+const FIT_EPOCH_OFFSET_S = 631065600; // 1989-12-31T00:00:00Z in Unix seconds
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+const MESG_SESSION = 18;
+const MESG_RECORD = 20;
+const FIELD_TIMESTAMP = 253;
+
+// FIT sport enum -> activity type
+const SPORTS: Record<number, WearableActivityType> = {
+  1: 'running',
+  2: 'cycling',
+  5: 'swimming',
+  11: 'walking',
+  15: 'rowing',
+  17: 'hiking',
+};
+
+interface FieldDefinition {
+  number: number;
+  size: number;
+  baseType: number;
+}
+
+interface MessageDefinition {
+  globalNumber: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  developerDataSize: number;
+}
+
+type FitMessage = Map<number, number>;
+
+// Base type number -> value size in bytes, reader and "invalid" sentinel
+const BASE_TYPES: Record<number, { size: number; read: (view: DataView, offset: number, littleEndian: boolean) => number; invalid?: number }> = {
+  0: { size: 1, read: (view, offset) => view.getUint8(offset), invalid: 0xff }, // enum
+  1: { size: 1, read: (view, offset) => view.getInt8(offset), invalid: 0x7f }, // sint8
+  2: { size: 1, read: (view, offset) => view.getUint8(offset), invalid: 0xff }, // uint8
+  3: { size: 2, read: (view, offset, le) => view.getInt16(offset, le), invalid: 0x7fff }, // sint16
+  4: { size: 2, read: (view, offset, le) => view.getUint16(offset, le), invalid: 0xffff }, // uint16
+  5: { size: 4, read: (view, offset, le) => view.getInt32(offset, le), invalid: 0x7fffffff }, // sint32
+  6: { size: 4, read: (view, offset, le) => view.getUint32(offset, le), invalid: 0xffffffff }, // uint32
+  8: { size: 4, read: (view, offset, le) => view.getFloat32(offset, le) }, // float32
+  9: { size: 8, read: (view, offset, le) => view.getFloat64(offset, le) }, // float64
+  10: { size: 1, read: (view, offset) => view.getUint8(offset), invalid: 0 }, // uint8z
+  11: { size: 2, read: (view, offset, le) => view.getUint16(offset, le), invalid: 0 }, // uint16z
+  12: { size: 4, read: (view, offset, le) => view.getUint32(offset, le), invalid: 0 }, // uint32z
+  13: { size: 1, read: (view, offset) => view.getUint8(offset), invalid: 0xff }, // byte
+};
+
+/**
+ * Read a single numeric value, or undefined for arrays, strings, 64-bit
+ * integers and the base type's "invalid" sentinel
+ */
+function readValue(view: DataView, offset: number, field: FieldDefinition, littleEndian: boolean): number | undefined {
+  const baseType = BASE_TYPES[field.baseType & 0x1f];
+  if (!baseType || baseType.size !== field.size) {
+    return undefined;
+  }
+  const value = baseType.read(view, offset, littleEndian);
+  return value === baseType.invalid || !Number.isFinite(value) ? undefined : value;
+}
+
+function fitTimeToDate(timestamp: number): Date {
+  return new Date((timestamp + FIT_EPOCH_OFFSET_S) * 1000);
+}
+
+/**
+ * Decode the session and record messages of a FIT file
+ */
+function decodeMessages(buffer: ArrayBuffer): { sessions: FitMessage[]; records: FitMessage[] } {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 12) {
+    throw new Error('Not a FIT file');
+  }
+  const headerSize = view.getUint8(0);
+  const dataSize = view.getUint32(4, true);
+  const signature = String.fromCharCode(view.getUint8(8), view.getUint8(9), view.getUint8(10), view.getUint8(11));
+  if (signature !== '.FIT' || headerSize < 12) {
+    throw new Error('Not a FIT file');
+  }
+
+  const end = Math.min(headerSize + dataSize, buffer.byteLength);
+  const definitions = new Map<number, MessageDefinition>();
+  const sessions: FitMessage[] = [];
+  const records: FitMessage[] = [];
+  let lastTimestamp = 0;
+  let offset = headerSize;
+
+  while (offset < end) {
+    const header = view.getUint8(offset++);
+    const isCompressedTimestamp = (header & 0x80) !== 0;
+
+    if (!isCompressedTimestamp && (header & 0x40) !== 0) {
+      // Definition message
+      const localType = header & 0x0f;
+      const hasDeveloperData = (header & 0x20) !== 0;
+      const littleEndian = view.getUint8(offset + 1) === 0;
+      const globalNumber = view.getUint16(offset + 2, littleEndian);
+      const fieldCount = view.getUint8(offset + 4);
+      offset += 5;
+
+      const fields: FieldDefinition[] = [];
+      for (let i = 0; i < fieldCount; i++) {
+        fields.push({
+          number: view.getUint8(offset),
+          size: view.getUint8(offset + 1),
+          baseType: view.getUint8(offset + 2),
+        });
+        offset += 3;
+      }
+
+      let developerDataSize = 0;
+      if (hasDeveloperData) {
+        const developerFieldCount = view.getUint8(offset++);
+        for (let i = 0; i < developerFieldCount; i++) {
+          developerDataSize += view.getUint8(offset + 1);
+          offset += 3;
+        }
+      }
+
+      definitions.set(localType, { globalNumber, littleEndian, fields, developerDataSize });
+      continue;
+    }
+
+    // Data message
+    const localType = isCompressedTimestamp ? (header >> 5) & 0x03 : header & 0x0f;
+    const definition = definitions.get(localType);
+    if (!definition) {
+      throw new Error('FIT file is corrupt: data message without a definition');
+    }
+
+    const message: FitMessage = new Map();
+    for (const field of definition.fields) {
+      if (offset + field.size > end) {
+        throw new Error('FIT file is truncated');
+      }
+      const value = readValue(view, offset, field, definition.littleEndian);
+      if (value !== undefined) {
+        message.set(field.number, value);
+      }
+      offset += field.size;
+    }
+    offset += definition.developerDataSize;
+
+    if (isCompressedTimestamp) {
+      const timeOffset = header & 0x1f;
+      lastTimestamp += (timeOffset - (lastTimestamp & 0x1f)) & 0x1f;
+      message.set(FIELD_TIMESTAMP, lastTimestamp);
+    } else {
+      const timestamp = message.get(FIELD_TIMESTAMP);
+      if (timestamp !== undefined) {
+        lastTimestamp = timestamp;
+      }
+    }
+
+    if (definition.globalNumber === MESG_SESSION) {
+      sessions.push(message);
+    } else if (definition.globalNumber === MESG_RECORD) {
+      records.push(message);
+    }
+  }
+
+  return { sessions, records };
+}
+
+function toTrackPoint(record: FitMessage): TrackPoint | null {
+  const timestamp = record.get(FIELD_TIMESTAMP);
+  if (timestamp === undefined) {
+    return null;
+  }
+  const lat = record.get(0);
+  const lon = record.get(1);
+  const altitude = record.get(78) ?? record.get(2); // enhanced_altitude, then altitude
+  const distance = record.get(5);
+  return {
+    time: fitTimeToDate(timestamp),
+    lat: lat !== undefined ? lat * SEMICIRCLES_TO_DEGREES : undefined,
+    lon: lon !== undefined ? lon * SEMICIRCLES_TO_DEGREES : undefined,
+    elevation: altitude !== undefined ? altitude / 5 - 500 : undefined,
+    distance: distance !== undefined ? distance / 100 : undefined,
+    heartRate: record.get(3),
+  };
+}
+
+/**
+ * Parse a FIT activity file into one activity per session
+ */
+export function parseFitFile(buffer: ArrayBuffer): ParsedActivity[] {
+  const { sessions, records } = decodeMessages(buffer);
+  const track = records
+    .map(toTrackPoint)
+    .filter((point): point is TrackPoint => point !== null)
+    .sort((a, b) => a.time.getTime() - b.time.getTime());
+
+  const summaries = sessions.length > 0
+    ? sessions
+    : track.length > 0
+      ? [new Map<number, number>()] // No session message: describe the whole file from its records
+      : [];
+
+  return summaries.map((session): ParsedActivity => {
+    const startTime = session.get(2);
+    const elapsed = session.get(7) ?? session.get(8); // total_elapsed_time, then total_timer_time, in ms
+    const start = startTime !== undefined ? fitTimeToDate(startTime) : track[0]?.time ?? new Date(NaN);
+    const end = elapsed !== undefined
+      ? new Date(start.getTime() + elapsed)
+      : track[track.length - 1]?.time ?? start;
+
+    const points = track.filter(point => point.time >= start && point.time <= end);
+    const heartRate = points
+      .filter(point => point.heartRate !== undefined)
+      .map(point => ({ time: point.time, bpm: point.heartRate as number }));
+    const distance = session.get(9);
+    const lastDistance = [...points].reverse().find(point => point.distance !== undefined)?.distance;
+
+    return {
+      source: 'fit',
+      activityType: SPORTS[session.get(5) ?? -1] ?? 'other',
+      start,
+      end,
+      distanceMeters: distance !== undefined ? distance / 100 : lastDistance,
+      calories: session.get(11),
+      averageHeartRate: session.get(16),
+      maxHeartRate: session.get(17),
+      heartRate,
+      track: points.length > 0 ? points : undefined,
+    };
+  }).filter(activity => !Number.isNaN(activity.start.getTime()));
+}
@@ -0,0 +1,121 @@
+import type { UserProfile } from '@/store/userStore';
+import { HeartRatePoint } from '@/types/exercise';
+import { HeartRateSettings, HeartRateZoneBounds, HeartRateZoneTime } from '@/types/cardio';
+
+// Five-zone model as a share of max heart rate
+export const HEART_RATE_ZONES = [
+  { zone: 1, label: 'Recovery', min: 0.5, max: 0.6 },
+  { zone: 2, label: 'Endurance', min: 0.6, max: 0.7 },
+  { zone: 3, label: 'Tempo', min: 0.7, max: 0.8 },
+  { zone: 4, label: 'Threshold', min: 0.8, max: 0.9 },
+  { zone: 5, label: 'VO2 max', min: 0.9, max: 1 },
+] as const;
+
+// Friel zones as a share of lactate threshold heart rate; zone 5 runs up to max HR
+export const LACTATE_THRESHOLD_ZONES = [
+  { zone: 1, label: 'Recovery', min: 0.7, max: 0.85 },
+  { zone: 2, label: 'Endurance', min: 0.85, max: 0.9 },
+  { zone: 3, label: 'Tempo', min: 0.9, max: 0.95 },
+  { zone: 4, label: 'Threshold', min: 0.95, max: 1 },
+  { zone: 5, label: 'VO2 max', min: 1, max: Infinity },
+] as const;
+
+// Used for max heart rate until the user enters their age
+export const DEFAULT_HEART_RATE_AGE = 30;
+export const DEFAULT_RESTING_HEART_RATE = 60;
+
+// Banister TRIMP weighting
+const TRIMP_FACTOR_MALE = { a: 0.64, b: 1.92 };
+const TRIMP_FACTOR_FEMALE = { a: 0.86, b: 1.67 };
+
+/**
+ * Age-predicted max heart rate (Tanaka: 208 - 0.7 x age)
+ */
+export function estimateMaxHeartRate(age?: number): number {
+  const years = age && age > 0 ? age : DEFAULT_HEART_RATE_AGE;
+  return Math.round(208 - 0.7 * years);
+}
+
+type HeartRateProfile = Pick<
+  UserProfile,
+  'age' | 'gender' | 'maxHeartRate' | 'restingHeartRate' | 'lactateThresholdHeartRate' | 'heartRateZoneMethod'
+>;
+
+/**
+ * Max HR, resting HR and zone boundaries for a profile. Without an explicit
+ * method, lactate threshold wins over a measured max HR, which wins over age.
+ */
+export function getHeartRateSettings(profile?: HeartRateProfile | null): HeartRateSettings {
+  const measuredMax = profile?.maxHeartRate && profile.maxHeartRate > 0 ? profile.maxHeartRate : undefined;
+  const threshold = profile?.lactateThresholdHeartRate && profile.lactateThresholdHeartRate > 0
+    ? profile.lactateThresholdHeartRate
+    : undefined;
+
+  let method = profile?.heartRateZoneMethod ?? (threshold ? 'lactate_threshold' : measuredMax ? 'max_hr' : 'age');
+  if ((method === 'lactate_threshold' && !threshold) || (method === 'max_hr' && !measuredMax)) {
+    method = 'age';
+  }
+
+  const maxHeartRate = method === 'age'
+    ? estimateMaxHeartRate(profile?.age)
+    : measuredMax ?? estimateMaxHeartRate(profile?.age);
+
+  const zones: HeartRateZoneBounds[] = method === 'lactate_threshold' && threshold
+    ? LACTATE_THRESHOLD_ZONES.map(zone => ({
+        zone: zone.zone,
+        label: zone.label,
+        minBpm: Math.round(zone.min * threshold),
+        maxBpm: Number.isFinite(zone.max) ? Math.round(zone.max * threshold) : Math.max(maxHeartRate, threshold),
+      }))
+    : HEART_RATE_ZONES.map(zone => ({
+        zone: zone.zone,
+        label: zone.label,
+        minBpm: Math.round(zone.min * maxHeartRate),
+        maxBpm: Math.round(zone.max * maxHeartRate),
+      }));
+
+  return {
+    method,
+    maxHeartRate,
+    restingHeartRate: profile?.restingHeartRate && profile.restingHeartRate > 0
+      ? profile.restingHeartRate
+      : DEFAULT_RESTING_HEART_RATE,
+    zones,
+    trimpFactor: profile?.gender === 'female' ? TRIMP_FACTOR_FEMALE : TRIMP_FACTOR_MALE,
+  };
+}
+
+/**
+ * Zone (1-5) for a heart rate, or 0 below zone 1
+ */
+export function getHeartRateZone(bpm: number, zones: HeartRateZoneBounds[]): number {
+  for (let i = zones.length - 1; i >= 0; i--) {
+    if (bpm >= zones[i].minBpm) {
+      return zones[i].zone;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Seconds spent in each zone. Each sample counts until the next one; gaps
+ * longer than `maxGap` are pauses and do not count.
+ */
+export function calculateZoneTime(
+  samples: HeartRatePoint[],
+  zones: HeartRateZoneBounds[],
+  maxGap: number = Infinity
+): HeartRateZoneTime[] {
+  const seconds = zones.map(() => 0);
+  for (let i = 0; i < samples.length - 1; i++) {
+    const gap = samples[i + 1].offset - samples[i].offset;
+    if (gap <= 0 || gap > maxGap) {
+      continue;
+    }
+    const zone = getHeartRateZone(samples[i].bpm, zones);
+    if (zone > 0) {
+      seconds[zone - 1] += gap;
+    }
+  }
+  return zones.map((zone, index) => ({ ...zone, seconds: seconds[index] }));
+}
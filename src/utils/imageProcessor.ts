@@ -1,5 +1,5 @@
 /**
- * Image processing utility for profile photo uploads
+ * Image processing utility for profile and progress photo uploads
  * Compresses and resizes images before uploading to Supabase Storage
  * Supports HEIC format conversion
  */
@@ -13,6 +13,12 @@ export interface ProcessedImage {
     height: number;
 }
 
+export interface ProcessImageOptions {
+    maxDimension?: number; // Longest edge in pixels
+    maxFileSize?: number; // Largest accepted source file in bytes
+    quality?: number; // 0-1
+}
+
 const MAX_FILE_SIZE = 2 * 1024 * 1024; // 2MB
 const MAX_DIMENSION = 512; // 512x512px
 const QUALITY = 0.85; // 85% quality for WebP/JPEG
@@ -64,7 +70,10 @@ async function convertHeicToImage(file: File): Promise<File> {
 /**
  * Validates if the file is a valid image
  */
-export function validateImageFile(file: File): { valid: boolean; error?: string } {
+export function validateImageFile(
+    file: File,
+    maxFileSize: number = MAX_FILE_SIZE * 2
+): { valid: boolean; error?: string } {
     // Check if it's an image or HEIC file
     const isImage = file.type.startsWith('image/');
     const isHeic = isHeicFile(file);
@@ -80,8 +89,8 @@ export function validateImageFile(file: File): { valid: boolean; error?: string
         return { valid: false, error: 'Image must be JPEG, PNG, WebP, GIF, or HEIC' };
     }
 
-    if (file.size > MAX_FILE_SIZE * 2) {
-        return { valid: false, error: 'Image is too large. Maximum size is 4MB' };
+    if (file.size > maxFileSize) {
+        return { valid: false, error: `Image is too large. Maximum size is ${Math.round(maxFileSize / (1024 * 1024))}MB` };
     }
 
     return { valid: true };
@@ -187,9 +196,12 @@ function convertToJPEG(
  * Processes an image file: validates, resizes, and compresses
  * Returns a processed File and data URL for preview
  */
-export async function processImage(file: File): Promise<ProcessedImage> {
+export async function processImage(file: File, options: ProcessImageOptions = {}): Promise<ProcessedImage> {
+    const maxDimension = options.maxDimension ?? MAX_DIMENSION;
+    const quality = options.quality ?? QUALITY;
+
     // Validate file
-    const validation = validateImageFile(file);
+    const validation = validateImageFile(file, options.maxFileSize);
     if (!validation.valid) {
         throw new Error(validation.error || 'Invalid image file');
     }
@@ -204,7 +216,7 @@ export async function processImage(file: File): Promise<ProcessedImage> {
     const img = await loadImage(imageFile);
 
     // Calculate new dimensions
-    const { width, height } = resizeImage(img, MAX_DIMENSION, MAX_DIMENSION);
+    const { width, height } = resizeImage(img, maxDimension, maxDimension);
 
     // Create canvas
     const canvas = document.createElement('canvas');
@@ -224,11 +236,11 @@ export async function processImage(file: File): Promise<ProcessedImage> {
     let mimeType = 'image/jpeg';
 
     try {
-        processedBlob = await convertToWebP(canvas, QUALITY);
+        processedBlob = await convertToWebP(canvas, quality);
         mimeType = 'image/webp';
     } catch {
         // Fallback to JPEG if WebP conversion fails
-        processedBlob = await convertToJPEG(canvas, QUALITY);
+        processedBlob = await convertToJPEG(canvas, quality);
         mimeType = 'image/jpeg';
     }
 
@@ -241,7 +253,7 @@ export async function processImage(file: File): Promise<ProcessedImage> {
     });
 
     // Generate data URL for preview
-    const dataUrl = canvas.toDataURL(mimeType, QUALITY);
+    const dataUrl = canvas.toDataURL(mimeType, quality);
 
     return {
         file: processedFile,
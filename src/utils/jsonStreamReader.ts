@@ -0,0 +1,185 @@
+/**
+ * Incremental reader for large JSON export files.
+ *
+ * Walks the top-level object of a JSON document chunk by chunk without holding
+ * the whole file (or its parsed form) in memory. Array members of the root
+ * object are emitted one element at a time as raw JSON text so callers can
+ * skip or parse them individually; other members are parsed and emitted whole.
+ */
+
+export const DEFAULT_JSON_CHUNK_SIZE = 1024 * 1024; // 1MB
+
+export type JsonStreamEvent =
+  | { type: 'value'; key: string; value: unknown }
+  | { type: 'arrayStart'; key: string }
+  | { type: 'item'; key: string; index: number; raw: string }
+  | { type: 'arrayEnd'; key: string; count: number }
+  | { type: 'progress'; bytesRead: number; totalBytes: number };
+
+type ReaderState = 'start' | 'expectKey' | 'expectColon' | 'awaitValue' | 'awaitItem' | 'capturing' | 'afterValue' | 'done';
+
+const WHITESPACE = new Set([' ', '\n', '\r', '\t']);
+
+/**
+ * Stream the members of the root object of a JSON blob
+ */
+export async function* streamJsonObject(
+  blob: Blob,
+  chunkSize: number = DEFAULT_JSON_CHUNK_SIZE
+): AsyncGenerator<JsonStreamEvent> {
+  const decoder = new TextDecoder('utf-8');
+  let depth = 0;
+  let state: ReaderState = 'start';
+  let inString = false;
+  let escaped = false;
+
+  let currentKey = '';
+  let arrayKey: string | null = null;
+  let arrayIndex = 0;
+
+  // Captured text for the key, value or item currently being read
+  let captureKind: 'key' | 'value' | 'item' | null = null;
+  let captureDepth = 0;
+  let captureParts: string[] = [];
+  let captureStart = -1;
+
+  for (let offset = 0; offset < blob.size; offset += chunkSize) {
+    const buffer = await blob.slice(offset, offset + chunkSize).arrayBuffer();
+    const text = decoder.decode(buffer, { stream: offset + chunkSize < blob.size });
+    const events: JsonStreamEvent[] = [];
+
+    const finishCapture = (end: number) => {
+      captureParts.push(text.slice(captureStart, end));
+      const raw = captureParts.join('');
+      captureParts = [];
+      captureStart = -1;
+
+      if (captureKind === 'key') {
+        currentKey = JSON.parse(raw) as string;
+        state = 'expectColon';
+      } else if (captureKind === 'value') {
+        events.push({ type: 'value', key: currentKey, value: JSON.parse(raw) });
+        state = 'afterValue';
+      } else if (captureKind === 'item' && arrayKey !== null) {
+        events.push({ type: 'item', key: arrayKey, index: arrayIndex++, raw });
+        state = 'afterValue';
+      }
+      captureKind = null;
+    };
+
+    const startCapture = (kind: 'key' | 'value' | 'item', start: number) => {
+      captureKind = kind;
+      captureDepth = depth;
+      captureStart = start;
+      state = 'capturing';
+    };
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+          if (captureKind === 'key') {
+            finishCapture(i + 1);
+          }
+        }
+        continue;
+      }
+
+      if (WHITESPACE.has(char)) {
+        continue;
+      }
+
+      if (state === 'start') {
+        if (char !== '{') {
+          throw new Error('Invalid export file: expected a JSON object');
+        }
+        depth = 1;
+        state = 'expectKey';
+        continue;
+      }
+
+      if (state === 'done') {
+        throw new Error('Invalid export file: unexpected content after the end of the data');
+      }
+
+      // Start of a member value or array element
+      if (state === 'awaitValue' && depth === 1) {
+        if (char === '[') {
+          arrayKey = currentKey;
+          arrayIndex = 0;
+          depth = 2;
+          state = 'awaitItem';
+          events.push({ type: 'arrayStart', key: currentKey });
+          continue;
+        }
+        startCapture('value', i);
+      } else if (state === 'awaitItem' && depth === 2 && char !== ']') {
+        startCapture('item', i);
+      }
+
+      // Re-read state: startCapture() may have changed it, which control flow analysis can't see
+      const current = state as ReaderState;
+      switch (char) {
+        case '"':
+          inString = true;
+          if (current === 'expectKey' && depth === 1) {
+            startCapture('key', i);
+          }
+          break;
+        case ':':
+          if (current === 'expectColon') {
+            state = 'awaitValue';
+          }
+          break;
+        case ',':
+          if (current === 'capturing' && depth === captureDepth) {
+            finishCapture(i);
+          }
+          if (depth === 1) {
+            state = 'expectKey';
+          } else if (depth === 2 && arrayKey !== null) {
+            state = 'awaitItem';
+          }
+          break;
+        case '{':
+        case '[':
+          depth++;
+          break;
+        case '}':
+        case ']':
+          if (current === 'capturing' && depth === captureDepth) {
+            finishCapture(i);
+          }
+          depth--;
+          if (depth === 1 && arrayKey !== null && char === ']') {
+            events.push({ type: 'arrayEnd', key: arrayKey, count: arrayIndex });
+            arrayKey = null;
+            state = 'afterValue';
+          } else if (depth === 0) {
+            state = 'done';
+          }
+          break;
+      }
+    }
+
+    if (captureStart >= 0) {
+      captureParts.push(text.slice(captureStart));
+      captureStart = 0;
+    }
+
+    for (const event of events) {
+      yield event;
+    }
+    yield { type: 'progress', bytesRead: Math.min(offset + chunkSize, blob.size), totalBytes: blob.size };
+  }
+
+  if (state !== 'done') {
+    throw new Error('Invalid export file: the file ends unexpectedly and may be truncated');
+  }
+}
@@ -0,0 +1,89 @@
+import { differenceInCalendarDays, endOfDay } from 'date-fns';
+import { BodyMeasurement, BodyMeasurementSite, BodyweightTrendPoint, LengthUnit } from '@/types/measurement';
+
+export const BODY_MEASUREMENT_SITES: BodyMeasurementSite[] = [
+  'neck',
+  'shoulders',
+  'chest',
+  'waist',
+  'hips',
+  'arms',
+  'forearms',
+  'thighs',
+  'calves',
+];
+
+/**
+ * Share of each new weigh-in carried into the trend (the remainder comes from
+ * the previous trend value). 0.1 smooths out day-to-day water swings while
+ * still following a real change within a couple of weeks.
+ */
+export const DEFAULT_TREND_SMOOTHING = 0.1;
+
+const CM_PER_INCH = 2.54;
+
+export function convertLength(value: number, from: LengthUnit, to: LengthUnit): number {
+  if (from === to) {
+    return value;
+  }
+  return from === 'in' ? value * CM_PER_INCH : value / CM_PER_INCH;
+}
+
+function sortByDate(measurements: BodyMeasurement[]): BodyMeasurement[] {
+  return [...measurements].sort(
+    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+}
+
+/**
+ * Exponentially smoothed bodyweight trend.
+ * Gaps between weigh-ins are weighted by the number of days skipped, so a
+ * reading after a week away moves the trend as much as seven daily readings
+ * would have.
+ */
+export function calculateBodyweightTrend(
+  measurements: BodyMeasurement[],
+  smoothing: number = DEFAULT_TREND_SMOOTHING
+): BodyweightTrendPoint[] {
+  const points: BodyweightTrendPoint[] = [];
+  let previous: BodyweightTrendPoint | null = null;
+
+  for (const measurement of sortByDate(measurements)) {
+    if (measurement.weight === undefined || measurement.weight <= 0) {
+      continue;
+    }
+
+    const date = new Date(measurement.date);
+    let trend = measurement.weight;
+    if (previous) {
+      const days = Math.max(1, differenceInCalendarDays(date, previous.date));
+      const alpha = 1 - Math.pow(1 - smoothing, days);
+      trend = previous.trend + alpha * (measurement.weight - previous.trend);
+    }
+
+    previous = { date, weight: measurement.weight, trend: Math.round(trend * 100) / 100 };
+    points.push(previous);
+  }
+
+  return points;
+}
+
+/**
+ * Most recent logged bodyweight (kg) on or before the given day
+ */
+export function getBodyweightAt(measurements: BodyMeasurement[], date: Date): number | undefined {
+  const cutoff = endOfDay(date).getTime();
+  let latest: BodyMeasurement | undefined;
+
+  for (const measurement of measurements) {
+    if (measurement.weight === undefined || measurement.deletedAt) {
+      continue;
+    }
+    const time = new Date(measurement.date).getTime();
+    if (time <= cutoff && (!latest || time > new Date(latest.date).getTime())) {
+      latest = measurement;
+    }
+  }
+
+  return latest?.weight;
+}
@@ -0,0 +1,218 @@
+import { differenceInMinutes, format, isSameDay, subHours } from 'date-fns';
+import type { Goal } from '@/store/userStore';
+import { NutritionEvent } from '@/types/insights';
+import {
+  NutritionAdherence,
+  NutritionLog,
+  NutritionTargets,
+  NutritionTotals,
+  SupplementKind,
+} from '@/types/nutrition';
+
+export const SUPPLEMENT_LABELS: Record<SupplementKind, string> = {
+  creatine: 'Creatine',
+  caffeine: 'Caffeine',
+  protein_powder: 'Protein powder',
+  electrolytes: 'Electrolytes',
+  other: 'Supplement',
+};
+
+// Used for targets until the user enters their weight
+export const DEFAULT_TARGET_WEIGHT_KG = 75;
+
+// Protein (g per kg bodyweight) by goal; the highest applicable goal wins
+const PROTEIN_PER_KG: Record<Goal, number> = {
+  build_muscle: 2.0,
+  gain_strength: 1.8,
+  lose_fat: 2.2,
+  improve_endurance: 1.6,
+  general_fitness: 1.6,
+};
+
+const MAINTENANCE_KCAL_PER_KG = 33; // Rough maintenance for an active adult
+const FAT_CALORIE_SHARE = 0.25;
+const WATER_ML_PER_KG = 35;
+
+function getCalorieMultiplier(goals: Goal[]): number {
+  if (goals.includes('lose_fat')) {
+    return 0.8;
+  }
+  if (goals.includes('build_muscle') || goals.includes('gain_strength')) {
+    return 1.1;
+  }
+  if (goals.includes('improve_endurance')) {
+    return 1.05;
+  }
+  return 1;
+}
+
+/**
+ * Daily targets from bodyweight (kg) and goals: protein by goal, calories from
+ * maintenance with a deficit or surplus, a quarter of calories from fat and
+ * the rest from carbs.
+ */
+export function calculateNutritionTargets(weightKg: number | undefined, goals: Goal[]): NutritionTargets {
+  const weight = weightKg && weightKg > 0 ? weightKg : DEFAULT_TARGET_WEIGHT_KG;
+  const proteinPerKg = goals.length > 0
+    ? Math.max(...goals.map(goal => PROTEIN_PER_KG[goal] ?? PROTEIN_PER_KG.general_fitness))
+    : PROTEIN_PER_KG.general_fitness;
+
+  const calories = Math.round(weight * MAINTENANCE_KCAL_PER_KG * getCalorieMultiplier(goals));
+  const protein = Math.round(weight * proteinPerKg);
+  const fat = Math.round((calories * FAT_CALORIE_SHARE) / 9);
+  const carbs = Math.max(0, Math.round((calories - protein * 4 - fat * 9) / 4));
+
+  return {
+    calories,
+    protein,
+    carbs,
+    fat,
+    waterMl: Math.round((weight * WATER_ML_PER_KG) / 250) * 250,
+  };
+}
+
+/**
+ * Totals for the logs between start and end (inclusive)
+ */
+export function sumNutrition(logs: NutritionLog[], start: Date, end: Date): NutritionTotals {
+  const totals: NutritionTotals = {
+    calories: 0,
+    protein: 0,
+    carbs: 0,
+    fat: 0,
+    waterMl: 0,
+    meals: 0,
+    waterEntries: 0,
+    creatineMg: 0,
+    caffeineMg: 0,
+  };
+
+  for (const log of logs) {
+    const time = new Date(log.date).getTime();
+    if (log.deletedAt || time < start.getTime() || time > end.getTime()) {
+      continue;
+    }
+    totals.calories += log.calories ?? 0;
+    totals.protein += log.protein ?? 0;
+    totals.carbs += log.carbs ?? 0;
+    totals.fat += log.fat ?? 0;
+    if (log.waterMl) {
+      totals.waterMl += log.waterMl;
+      totals.waterEntries++;
+    }
+    if (log.type === 'meal') {
+      totals.meals++;
+    }
+    if (log.supplement === 'creatine') {
+      totals.creatineMg += log.doseMg ?? 0;
+    } else if (log.supplement === 'caffeine') {
+      totals.caffeineMg += log.doseMg ?? 0;
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Share of the targets reached over the last 24 hours, or undefined when no
+ * meals were logged in that time (nothing to judge recovery on)
+ */
+export function getRecentNutritionAdherence(
+  logs: NutritionLog[],
+  targets: NutritionTargets,
+  now: Date = new Date()
+): NutritionAdherence | undefined {
+  const totals = sumNutrition(logs, subHours(now, 24), now);
+  if (totals.meals === 0) {
+    return undefined;
+  }
+  return {
+    calories: targets.calories > 0 ? totals.calories / targets.calories : 1,
+    protein: targets.protein > 0 ? totals.protein / targets.protein : 1,
+    water: totals.waterEntries > 0 && targets.waterMl > 0 ? totals.waterMl / targets.waterMl : undefined,
+  };
+}
+
+function formatGrams(value: number): string {
+  return `${Math.round(value)} g`;
+}
+
+function formatDose(doseMg: number): string {
+  return doseMg >= 1000 ? `${+(doseMg / 1000).toFixed(1)} g` : `${Math.round(doseMg)} mg`;
+}
+
+function getEventType(log: NutritionLog): NutritionEvent['type'] {
+  if (log.type === 'supplement') {
+    return 'supplement';
+  }
+  const protein = log.protein ?? 0;
+  const carbs = log.carbs ?? 0;
+  if (protein >= 20 && protein >= carbs) {
+    return 'protein';
+  }
+  if (carbs >= 30 && carbs > protein * 2) {
+    return 'carb';
+  }
+  return 'meal';
+}
+
+function formatRelativeToWorkout(time: Date, workoutStart: Date, workoutEnd: Date): string | null {
+  if (time < workoutStart) {
+    const minutes = differenceInMinutes(workoutStart, time);
+    return minutes < 90 ? `${minutes} min pre-workout` : `${Math.round(minutes / 60)}h pre-workout`;
+  }
+  if (time <= workoutEnd) {
+    return 'During workout';
+  }
+  const minutes = differenceInMinutes(time, workoutEnd);
+  return minutes < 90 ? `${minutes} min post-workout` : `${Math.round(minutes / 60)}h post-workout`;
+}
+
+export function describeNutritionLog(log: NutritionLog): string {
+  if (log.type === 'supplement') {
+    const label = SUPPLEMENT_LABELS[log.supplement ?? 'other'];
+    return log.doseMg ? `${formatDose(log.doseMg)} ${label.toLowerCase()}` : label;
+  }
+  if (log.type === 'water') {
+    return `${log.waterMl ?? 0} ml water`;
+  }
+  const parts = [
+    log.protein ? `${formatGrams(log.protein)} protein` : null,
+    log.carbs ? `${formatGrams(log.carbs)} carbs` : null,
+    log.fat ? `${formatGrams(log.fat)} fat` : null,
+    log.calories ? `${Math.round(log.calories)} kcal` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'No macros logged';
+}
+
+/**
+ * Timeline of today's meals and supplements, newest first. Times are shown
+ * relative to today's workout when there was one.
+ */
+export function buildNutritionEvents(
+  logs: NutritionLog[],
+  workout: { startTime: Date; endTime?: Date } | null,
+  now: Date = new Date()
+): NutritionEvent[] {
+  const workoutStart = workout ? new Date(workout.startTime) : null;
+  const workoutEnd = workout?.endTime ? new Date(workout.endTime) : workoutStart;
+  const hasWorkoutToday = !!workoutStart && isSameDay(workoutStart, now);
+
+  return logs
+    .filter(log => !log.deletedAt && log.type !== 'water' && isSameDay(new Date(log.date), now))
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+    .map((log) => {
+      const time = new Date(log.date);
+      const relative = hasWorkoutToday && workoutStart && workoutEnd
+        ? formatRelativeToWorkout(time, workoutStart, workoutEnd)
+        : null;
+      return {
+        id: log.id,
+        time: format(time, 'HH:mm'),
+        relativeTime: relative ? `${format(time, 'HH:mm')} · ${relative}` : format(time, 'HH:mm'),
+        title: log.name || (log.type === 'supplement' ? SUPPLEMENT_LABELS[log.supplement ?? 'other'] : 'Meal'),
+        description: describeNutritionLog(log),
+        type: getEventType(log),
+      };
+    });
+}
@@ -0,0 +1,250 @@
+import { WeightUnit } from '@/types/exercise';
+import { BarbellSpec, EquipmentInventory, PlateBreakdown } from '@/types/equipment';
+import { convertWeight, roundToNearest } from './calculations';
+
+export type LoadEquipmentKind = 'barbell' | 'dumbbell' | 'machine' | 'other';
+
+export const DEFAULT_EQUIPMENT_INVENTORY: EquipmentInventory = {
+  barbells: [
+    { id: 'olympic-20kg', name: 'Olympic bar', weight: 20, unit: 'kg' },
+    { id: 'olympic-45lb', name: 'Olympic bar', weight: 45, unit: 'lbs' },
+  ],
+  plates: [
+    { weight: 25, unit: 'kg', pairs: 4 },
+    { weight: 20, unit: 'kg', pairs: 2 },
+    { weight: 15, unit: 'kg', pairs: 1 },
+    { weight: 10, unit: 'kg', pairs: 2 },
+    { weight: 5, unit: 'kg', pairs: 2 },
+    { weight: 2.5, unit: 'kg', pairs: 2 },
+    { weight: 1.25, unit: 'kg', pairs: 1 },
+    { weight: 45, unit: 'lbs', pairs: 4 },
+    { weight: 35, unit: 'lbs', pairs: 1 },
+    { weight: 25, unit: 'lbs', pairs: 2 },
+    { weight: 10, unit: 'lbs', pairs: 2 },
+    { weight: 5, unit: 'lbs', pairs: 2 },
+    { weight: 2.5, unit: 'lbs', pairs: 1 },
+  ],
+  dumbbells: [
+    { unit: 'kg', weights: [2, 4, 6, 8, 10, 12, 14, 16, 18, 20, 22, 24, 26, 28, 30, 32, 34, 36, 38, 40] },
+    { unit: 'lbs', weights: [5, 10, 15, 20, 25, 30, 35, 40, 45, 50, 55, 60, 65, 70, 75, 80, 85, 90, 95, 100] },
+  ],
+  machines: [
+    { increment: 5, unit: 'kg' },
+    { increment: 10, unit: 'lbs' },
+  ],
+};
+
+// Plate math is done in hundredths to avoid floating point drift (1.25 + 2.5 ...)
+const SCALE = 100;
+
+/**
+ * Classify an exercise's equipment list by how its load is built
+ */
+export function getLoadEquipmentKind(equipment: string[]): LoadEquipmentKind {
+  const names = equipment.map(eq => eq.toLowerCase());
+  const has = (term: string) => names.some(eq => eq.includes(term));
+
+  if (has('barbell') || has('ez bar') || has('trap bar')) {
+    return 'barbell';
+  }
+  if (has('dumbbell') || has('kettlebell')) {
+    return 'dumbbell';
+  }
+  if (has('machine') || has('cable') || has('smith')) {
+    return 'machine';
+  }
+  return 'other';
+}
+
+/**
+ * Barbell to load for a given unit: the inventory default, then a bar in the
+ * same unit, then any bar
+ */
+export function getDefaultBarbell(
+  inventory: EquipmentInventory,
+  unit: WeightUnit
+): BarbellSpec | undefined {
+  const preferred = inventory.barbells.find(bar => bar.id === inventory.defaultBarbellId);
+  if (preferred) {
+    return preferred;
+  }
+  return inventory.barbells.find(bar => bar.unit === unit) ?? inventory.barbells[0];
+}
+
+/**
+ * Every total barbell load that can be built from the inventory, ascending
+ */
+export function getAchievableBarbellLoads(
+  inventory: EquipmentInventory,
+  unit: WeightUnit,
+  barbell: BarbellSpec | undefined = getDefaultBarbell(inventory, unit)
+): number[] {
+  if (!barbell) {
+    return [];
+  }
+  const barWeight = toScaled(convertWeight(barbell.weight, barbell.unit, unit));
+  return Array.from(buildPerSideCombinations(inventory, unit).keys())
+    .map(perSide => (barWeight + perSide * 2) / SCALE)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Work out which plates go on each side of the bar for a target load.
+ * When the exact load can't be built, the closest achievable load is used.
+ */
+export function calculatePlateBreakdown(
+  targetWeight: number,
+  unit: WeightUnit,
+  inventory: EquipmentInventory,
+  barbellId?: string
+): PlateBreakdown | null {
+  const barbell = barbellId
+    ? inventory.barbells.find(bar => bar.id === barbellId)
+    : getDefaultBarbell(inventory, unit);
+  if (!barbell) {
+    return null;
+  }
+
+  const barWeight = toScaled(convertWeight(barbell.weight, barbell.unit, unit));
+  const combinations = buildPerSideCombinations(inventory, unit);
+  const targetPerSide = (toScaled(targetWeight) - barWeight) / 2;
+
+  let bestPerSide = 0;
+  for (const perSide of combinations.keys()) {
+    const distance = Math.abs(perSide - targetPerSide);
+    const bestDistance = Math.abs(bestPerSide - targetPerSide);
+    // Prefer the lighter load on ties so suggestions never overshoot
+    if (distance < bestDistance || (distance === bestDistance && perSide < bestPerSide)) {
+      bestPerSide = perSide;
+    }
+  }
+
+  const achievedWeight = (barWeight + bestPerSide * 2) / SCALE;
+  const platesPerSide = (combinations.get(bestPerSide) ?? [])
+    .filter(plate => plate.count > 0)
+    .map(plate => ({ weight: plate.weight / SCALE, count: plate.count }));
+
+  return {
+    barbell,
+    unit,
+    platesPerSide,
+    achievedWeight,
+    targetWeight,
+    exact: Math.abs(achievedWeight - targetWeight) < 0.01,
+  };
+}
+
+/**
+ * Snap a target load to the nearest weight the user can actually build with
+ * their equipment. Loads for bodyweight/other equipment are returned unchanged.
+ */
+export function snapToAvailableLoad(
+  targetWeight: number,
+  unit: WeightUnit,
+  exerciseEquipment: string[],
+  inventory: EquipmentInventory = DEFAULT_EQUIPMENT_INVENTORY
+): number {
+  if (targetWeight <= 0) {
+    return targetWeight;
+  }
+
+  switch (getLoadEquipmentKind(exerciseEquipment)) {
+    case 'barbell': {
+      const breakdown = calculatePlateBreakdown(targetWeight, unit, inventory);
+      return breakdown ? breakdown.achievedWeight : targetWeight;
+    }
+    case 'dumbbell': {
+      // Dumbbell loads are logged as the combined weight of both dumbbells
+      const loads = getUnitValues(inventory.dumbbells.map(set => ({
+        unit: set.unit,
+        values: set.weights.map(weight => weight * 2),
+      })), unit);
+      return loads.length > 0 ? findClosest(loads, targetWeight) : targetWeight;
+    }
+    case 'machine': {
+      const increments = getUnitValues(inventory.machines.map(stack => ({
+        unit: stack.unit,
+        values: [stack.increment],
+      })), unit);
+      const increment = increments.length > 0 ? Math.min(...increments) : 0;
+      return increment > 0 ? Math.max(increment, roundToNearest(targetWeight, increment)) : targetWeight;
+    }
+    default:
+      return targetWeight;
+  }
+}
+
+/**
+ * Format a breakdown for display, e.g. "20kg bar + 25, 10, 2.5 per side"
+ */
+export function formatPlateBreakdown(breakdown: PlateBreakdown): string {
+  const barLabel = `${formatNumber(convertWeight(breakdown.barbell.weight, breakdown.barbell.unit, breakdown.unit))}${breakdown.unit} bar`;
+  if (breakdown.platesPerSide.length === 0) {
+    return `${barLabel} only`;
+  }
+  const plates = breakdown.platesPerSide
+    .map(plate => (plate.count > 1 ? `${plate.count}×${formatNumber(plate.weight)}` : formatNumber(plate.weight)))
+    .join(', ');
+  return `${barLabel} + ${plates} per side`;
+}
+
+/**
+ * Map of achievable per-side loads (scaled) to the plates that make them,
+ * using the fewest plates for each load
+ */
+function buildPerSideCombinations(
+  inventory: EquipmentInventory,
+  unit: WeightUnit
+): Map<number, Array<{ weight: number; count: number }>> {
+  const sameUnit = inventory.plates.filter(plate => plate.unit === unit);
+  const plates = (sameUnit.length > 0 ? sameUnit : inventory.plates)
+    .filter(plate => plate.weight > 0 && plate.pairs > 0)
+    .map(plate => ({ weight: toScaled(convertWeight(plate.weight, plate.unit, unit)), pairs: plate.pairs }))
+    .sort((a, b) => b.weight - a.weight);
+
+  let combinations = new Map<number, Array<{ weight: number; count: number }>>([[0, []]]);
+
+  for (const plate of plates) {
+    const next = new Map(combinations);
+    for (const [sum, used] of combinations) {
+      for (let count = 1; count <= plate.pairs; count++) {
+        const total = sum + plate.weight * count;
+        const candidate = [...used, { weight: plate.weight, count }];
+        const existing = next.get(total);
+        if (!existing || countPlates(candidate) < countPlates(existing)) {
+          next.set(total, candidate);
+        }
+      }
+    }
+    combinations = next;
+  }
+
+  return combinations;
+}
+
+function getUnitValues(sources: Array<{ unit: WeightUnit; values: number[] }>, unit: WeightUnit): number[] {
+  const sameUnit = sources.filter(source => source.unit === unit);
+  return (sameUnit.length > 0 ? sameUnit : sources).flatMap(source =>
+    source.values.map(value => convertWeight(value, source.unit, unit))
+  );
+}
+
+function findClosest(values: number[], target: number): number {
+  return values.reduce((best, value) => {
+    const distance = Math.abs(value - target);
+    const bestDistance = Math.abs(best - target);
+    return distance < bestDistance || (distance === bestDistance && value < best) ? value : best;
+  }, values[0]);
+}
+
+function countPlates(plates: Array<{ count: number }>): number {
+  return plates.reduce((sum, plate) => sum + plate.count, 0);
+}
+
+function toScaled(value: number): number {
+  return Math.round(value * SCALE);
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? value.toString() : value.toFixed(2).replace(/0$/, '');
+}
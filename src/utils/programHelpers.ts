@@ -0,0 +1,93 @@
+import { addDays, differenceInCalendarDays, startOfDay } from 'date-fns';
+import { PlannedExercise } from '@/types/workout';
+import { ProgramDay, ProgramProgressionRule, ProgramWeek } from '@/types/program';
+import { roundToNearest } from './calculations';
+
+export const DEFAULT_PROGRESSION_RULE: ProgramProgressionRule = {
+  loadIncreasePerWeek: 2.5,
+  volumeIncreasePerWeek: 0,
+  deloadEvery: 4,
+  deloadIntensity: 0.6,
+  deloadVolume: 0.5,
+};
+
+const LOAD_ROUNDING_INCREMENT = 2.5;
+
+/**
+ * Build the per-week intensity/volume table for a program.
+ * Progression compounds only across training weeks; deload weeks drop back
+ * to a fraction of the current training level without resetting it.
+ */
+export function buildProgramWeeks(
+  durationWeeks: number,
+  rule: ProgramProgressionRule = DEFAULT_PROGRESSION_RULE
+): ProgramWeek[] {
+  const weeks: ProgramWeek[] = [];
+  let intensity = 1;
+  let volume = 1;
+  let trainingWeeks = 0;
+
+  for (let weekNumber = 1; weekNumber <= durationWeeks; weekNumber++) {
+    const isDeload = !!rule.deloadEvery && rule.deloadEvery > 1 && weekNumber % rule.deloadEvery === 0;
+
+    if (isDeload) {
+      weeks.push({
+        weekNumber,
+        isDeload: true,
+        intensityMultiplier: round2(intensity * rule.deloadIntensity),
+        volumeMultiplier: round2(volume * rule.deloadVolume),
+      });
+      continue;
+    }
+
+    if (trainingWeeks > 0) {
+      intensity *= 1 + rule.loadIncreasePerWeek / 100;
+      volume *= 1 + rule.volumeIncreasePerWeek / 100;
+    }
+    trainingWeeks++;
+
+    weeks.push({
+      weekNumber,
+      isDeload: false,
+      intensityMultiplier: round2(intensity),
+      volumeMultiplier: round2(volume),
+    });
+  }
+
+  return weeks;
+}
+
+/**
+ * Date of a program session. Week 1 starts on the program start date and each
+ * day is placed on the next matching weekday (inclusive).
+ */
+export function getProgramSessionDate(startDate: Date, weekNumber: number, day: ProgramDay): Date {
+  const start = startOfDay(new Date(startDate));
+  const offset = (day.dayOfWeek - start.getDay() + 7) % 7;
+  return addDays(start, (weekNumber - 1) * 7 + offset);
+}
+
+/**
+ * Apply a week's intensity/volume multipliers to template exercises
+ */
+export function applyProgramWeek(exercises: PlannedExercise[], week: ProgramWeek): PlannedExercise[] {
+  return exercises.map((exercise) => ({
+    ...exercise,
+    sets: Math.max(1, Math.round(exercise.sets * week.volumeMultiplier)),
+    weight:
+      exercise.weight !== undefined && exercise.weight > 0
+        ? roundToNearest(exercise.weight * week.intensityMultiplier, LOAD_ROUNDING_INCREMENT)
+        : exercise.weight,
+  }));
+}
+
+/**
+ * Whole days elapsed between two dates, never negative
+ */
+export function getElapsedDays(from: Date, to: Date): number {
+  return Math.max(0, differenceInCalendarDays(startOfDay(to), startOfDay(from)));
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,45 @@
+import { format } from 'date-fns';
+import { ProgressPhoto, ProgressPhotoPose } from '@/types/progressPhoto';
+
+export interface ProgressPhotoDay {
+  day: string; // yyyy-MM-dd
+  date: Date;
+  photos: ProgressPhoto[];
+}
+
+export const PROGRESS_PHOTO_POSE_LABELS: Record<ProgressPhotoPose, string> = {
+  front: 'Front',
+  side: 'Side',
+  back: 'Back',
+};
+
+/**
+ * Group photos into one entry per calendar day, newest day first
+ */
+export function groupPhotosByDay(photos: ProgressPhoto[]): ProgressPhotoDay[] {
+  const days = new Map<string, ProgressPhotoDay>();
+
+  photos.forEach((photo) => {
+    const date = new Date(photo.date);
+    const day = format(date, 'yyyy-MM-dd');
+    const entry = days.get(day) ?? { day, date, photos: [] };
+    entry.photos.push(photo);
+    days.set(day, entry);
+  });
+
+  return Array.from(days.values()).sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+/**
+ * Latest photo of a pose taken on the given day
+ */
+export function findPhotoForDay(
+  days: ProgressPhotoDay[],
+  day: string,
+  pose: ProgressPhotoPose
+): ProgressPhoto | undefined {
+  return days
+    .find((entry) => entry.day === day)
+    ?.photos.filter((photo) => photo.pose === pose)
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())[0];
+}
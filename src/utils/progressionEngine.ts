@@ -0,0 +1,214 @@
+import { Exercise, WorkoutSet, WeightUnit } from '@/types/exercise';
+import { convertWeight, roundToNearest } from './calculations';
+import { getWorkingSets } from './setTypes';
+
+export type ProgressionRuleType = 'linear_load' | 'double_progression' | 'rpe_autoregulation';
+
+export interface ProgressionSession {
+  date: Date;
+  sets: WorkoutSet[];
+}
+
+export interface ProgressionOptions {
+  unit: WeightUnit;
+  rule?: ProgressionRuleType; // Overrides automatic rule selection
+  repRange?: { min: number; max: number }; // Used by double progression
+  targetRpe?: number; // Used by RPE autoregulation
+  increment?: number; // Overrides equipment-based increment (in `unit`)
+  snapLoad?: (weight: number) => number; // Snaps a load to what the user can actually build
+}
+
+export interface ProgressionTarget {
+  weight: number;
+  reps: number;
+  unit: WeightUnit;
+  rpe?: number;
+  rule: ProgressionRuleType;
+  reason: string;
+}
+
+export const PROGRESSION_RULES: Record<ProgressionRuleType, { label: string }> = {
+  linear_load: { label: 'Linear load' },
+  double_progression: { label: 'Double progression' },
+  rpe_autoregulation: { label: 'RPE autoregulation' },
+};
+
+export const PROGRESSION_RULE_OPTIONS = Object.keys(PROGRESSION_RULES) as ProgressionRuleType[];
+
+const DEFAULT_REP_RANGE = { min: 8, max: 12 };
+const DEFAULT_TARGET_RPE = 8;
+const STALL_DELOAD_FACTOR = 0.9;
+// LogExercise prefills new sets with this RPE, so it alone doesn't mean the user rated the set
+const PREFILLED_RPE = 7.5;
+
+/**
+ * Smallest realistic load jump for an exercise's equipment
+ */
+export function getLoadIncrement(equipment: string[], unit: WeightUnit): number {
+  const names = equipment.map(eq => eq.toLowerCase());
+  const has = (term: string) => names.some(eq => eq.includes(term));
+
+  if (has('dumbbell') || has('kettlebell')) {
+    return unit === 'kg' ? 2 : 5;
+  }
+  if (has('machine') || has('cable') || has('smith')) {
+    return unit === 'kg' ? 5 : 10;
+  }
+  // Barbell and plate-loaded movements: smallest plate pair
+  return unit === 'kg' ? 2.5 : 5;
+}
+
+/**
+ * Pick a progression rule from the exercise and the data we have.
+ * Heavy barbell lifts progress linearly, accessories use rep ranges, and
+ * anything consistently logged with RPE is autoregulated.
+ */
+export function selectProgressionRule(
+  exercise: Pick<Exercise, 'equipment' | 'category'>,
+  sessions: ProgressionSession[]
+): ProgressionRuleType {
+  const lastSets = getSessionWorkingSets(sessions[0]);
+  const ratedSets = lastSets.filter(set => typeof set.rpe === 'number');
+  if (
+    ratedSets.length > 0 &&
+    ratedSets.length === lastSets.length &&
+    ratedSets.some(set => set.rpe !== PREFILLED_RPE)
+  ) {
+    return 'rpe_autoregulation';
+  }
+
+  const isBarbell = exercise.equipment.some(eq => eq.toLowerCase().includes('barbell'));
+  if (isBarbell && exercise.category !== 'cardio') {
+    return 'linear_load';
+  }
+
+  return 'double_progression';
+}
+
+/**
+ * Propose the next session's working weight and reps for an exercise
+ */
+export function calculateProgressionTarget(
+  exercise: Pick<Exercise, 'equipment' | 'category'>,
+  sessions: ProgressionSession[],
+  options: ProgressionOptions
+): ProgressionTarget | null {
+  const lastSets = getSessionWorkingSets(sessions[0]);
+  if (lastSets.length === 0) {
+    return null;
+  }
+
+  const { unit } = options;
+  const increment = options.increment ?? getLoadIncrement(exercise.equipment, unit);
+  const rule = options.rule ?? selectProgressionRule(exercise, sessions);
+  const normalized = lastSets.map(set => ({
+    ...set,
+    weight: set.weight !== undefined ? convertWeight(set.weight, set.unit ?? unit, unit) : 0,
+  }));
+  const topWeight = Math.max(...normalized.map(set => set.weight ?? 0));
+  const topSets = normalized.filter(set => set.weight === topWeight);
+  const snap = (value: number) => {
+    const rounded = Math.max(0, roundToNearest(value, increment));
+    return options.snapLoad ? options.snapLoad(rounded) : rounded;
+  };
+
+  switch (rule) {
+    case 'linear_load': {
+      const targetReps = Math.max(...topSets.map(set => set.reps ?? 0));
+      const hitAllReps = topSets.every(set => (set.reps ?? 0) >= targetReps);
+      const previousSets = getSessionWorkingSets(sessions[1]);
+      const previousTop = previousSets.length > 0
+        ? Math.max(...previousSets.map(set => convertWeight(set.weight ?? 0, set.unit ?? unit, unit)))
+        : null;
+      const stalled = !hitAllReps && previousTop !== null && Math.abs(previousTop - topWeight) < increment / 2;
+
+      if (stalled) {
+        return {
+          weight: snap(topWeight * STALL_DELOAD_FACTOR),
+          reps: targetReps,
+          unit,
+          rule,
+          reason: `Missed reps at ${formatLoad(topWeight, unit)} two sessions running, so the load drops 10% to rebuild momentum.`,
+        };
+      }
+      if (!hitAllReps || topSets.some(set => (set.rpe ?? 0) >= 10)) {
+        return {
+          weight: snap(topWeight),
+          reps: targetReps,
+          unit,
+          rule,
+          reason: `Not every set reached ${targetReps} reps last time, so repeat ${formatLoad(topWeight, unit)} before adding load.`,
+        };
+      }
+      return {
+        weight: snap(topWeight + increment),
+        reps: targetReps,
+        unit,
+        rule,
+        reason: `All sets hit ${targetReps} reps at ${formatLoad(topWeight, unit)}, so add ${formatLoad(increment, unit)}.`,
+      };
+    }
+
+    case 'double_progression': {
+      const range = options.repRange ?? DEFAULT_REP_RANGE;
+      const lowestReps = Math.min(...topSets.map(set => set.reps ?? 0));
+      if (lowestReps >= range.max) {
+        return {
+          weight: snap(topWeight + increment),
+          reps: range.min,
+          unit,
+          rule,
+          reason: `Every set reached the top of the ${range.min}-${range.max} range, so add ${formatLoad(increment, unit)} and restart at ${range.min} reps.`,
+        };
+      }
+      const reps = Math.min(range.max, Math.max(range.min, lowestReps + 1));
+      return {
+        weight: snap(topWeight),
+        reps,
+        unit,
+        rule,
+        reason: `Stay at ${formatLoad(topWeight, unit)} and aim for ${reps} reps per set until all sets reach ${range.max}.`,
+      };
+    }
+
+    case 'rpe_autoregulation': {
+      const targetRpe = options.targetRpe ?? DEFAULT_TARGET_RPE;
+      // Best estimated max from the last session, counting reps in reserve
+      const e1rm = Math.max(
+        ...normalized.map(set => estimateMaxFromRpe(set.weight ?? 0, set.reps ?? 0, set.rpe ?? 10))
+      );
+      const reps = Math.max(...topSets.map(set => set.reps ?? 0));
+      const weight = snap(e1rm / (1 + (reps + (10 - targetRpe)) / 30));
+      return {
+        weight,
+        reps,
+        unit,
+        rpe: targetRpe,
+        rule,
+        reason: `Last session puts your estimated max near ${formatLoad(Math.round(e1rm), unit)}; ${formatLoad(weight, unit)} for ${reps} should land around RPE ${targetRpe}.`,
+      };
+    }
+  }
+}
+
+/**
+ * Epley estimate using total reps possible (reps done + reps in reserve)
+ */
+function estimateMaxFromRpe(weight: number, reps: number, rpe: number): number {
+  const repsInReserve = Math.max(0, 10 - rpe);
+  return weight * (1 + (reps + repsInReserve) / 30);
+}
+
+/**
+ * Working sets of a session with reps logged; warm-ups never drive progression
+ */
+function getSessionWorkingSets(session: ProgressionSession | undefined): WorkoutSet[] {
+  if (!session) {
+    return [];
+  }
+  return getWorkingSets(session.sets).filter(set => (set.reps ?? 0) > 0);
+}
+
+function formatLoad(weight: number, unit: WeightUnit): string {
+  return `${Number.isInteger(weight) ? weight : weight.toFixed(1)}${unit}`;
+}
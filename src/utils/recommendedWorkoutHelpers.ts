@@ -0,0 +1,179 @@
+import { Exercise } from '@/types/exercise';
+import { MuscleGroup, MuscleStatus } from '@/types/muscle';
+import { RecommendedExercise, WorkoutRecommendation } from '@/types/insights';
+import { getEquipmentCategories } from '@/services/exerciseLibrary';
+
+const FULL_GYM = 'Full Gym';
+export const MIN_TRAINABLE_RECOVERY = 60; // Exercises whose main muscles are below this are left out
+const WORK_SECONDS_PER_SET = 45;
+const SETUP_SECONDS_PER_EXERCISE = 90;
+const MAX_EXERCISES = 8;
+const MIN_SETS = 2;
+const MAX_EXERCISES_PER_PRIMARY_MUSCLE = 2;
+
+type Intensity = WorkoutRecommendation['intensity'];
+
+export interface ExercisePrescription {
+  sets: number;
+  reps: number;
+  restTime: number; // seconds
+}
+
+const PRESCRIPTIONS: Record<Intensity, ExercisePrescription> = {
+  high: { sets: 4, reps: 6, restTime: 150 },
+  medium: { sets: 3, reps: 10, restTime: 90 },
+  low: { sets: 2, reps: 12, restTime: 60 },
+};
+
+export function getPrescription(intensity: Intensity): ExercisePrescription {
+  return PRESCRIPTIONS[intensity];
+}
+
+/**
+ * Whether the user's equipment covers everything the exercise needs. Profile
+ * equipment holds item names ("Dumbbells") or categories ("Free Weights");
+ * "Full Gym" or an empty list means no restriction.
+ */
+export function hasEquipmentFor(exercise: Exercise, equipment: string[]): boolean {
+  if (equipment.length === 0 || equipment.includes(FULL_GYM)) {
+    return true;
+  }
+  const owned = new Set(equipment.map(item => item.toLowerCase()));
+  return (exercise.equipment ?? []).every(item =>
+    owned.has(item.toLowerCase()) ||
+    getEquipmentCategories([item]).some(category => owned.has(String(category).toLowerCase()))
+  );
+}
+
+/**
+ * Whether every primary muscle of the exercise has recovered enough to train.
+ * Muscles without a status have not been trained recently and count as recovered.
+ */
+export function isRecoveredFor(exercise: Exercise, muscleStatuses: MuscleStatus[]): boolean {
+  const recovery = new Map(muscleStatuses.map(status => [status.muscle, status.recoveryPercentage]));
+  return (exercise.primaryMuscles ?? []).every(muscle => (recovery.get(muscle) ?? 100) >= MIN_TRAINABLE_RECOVERY);
+}
+
+export function toRecommendedExercise(
+  exercise: Exercise,
+  prescription: ExercisePrescription
+): RecommendedExercise {
+  return {
+    exerciseId: exercise.id,
+    exerciseName: exercise.name,
+    trackingType: exercise.trackingType,
+    sets: prescription.sets,
+    reps: prescription.reps,
+    restTime: prescription.restTime,
+    muscles: [...(exercise.primaryMuscles ?? []), ...(exercise.secondaryMuscles ?? [])],
+  };
+}
+
+export function estimateWorkoutMinutes(exercises: RecommendedExercise[]): number {
+  const seconds = exercises.reduce(
+    (sum, exercise) => sum + SETUP_SECONDS_PER_EXERCISE + exercise.sets * (WORK_SECONDS_PER_SET + exercise.restTime),
+    0
+  );
+  return Math.round(seconds / 60);
+}
+
+/**
+ * Trim a workout to the available time: first take sets off the exercises
+ * with the most sets (keeping at least two), then drop exercises from the end
+ */
+export function fitExercisesToTime(exercises: RecommendedExercise[], availableMinutes: number): RecommendedExercise[] {
+  const fitted = exercises.map(exercise => ({ ...exercise }));
+  while (fitted.length > 1 && estimateWorkoutMinutes(fitted) > availableMinutes) {
+    const mostSets = fitted.reduce((top, exercise) => (exercise.sets > top.sets ? exercise : top), fitted[fitted.length - 1]);
+    if (mostSets.sets > MIN_SETS) {
+      mostSets.sets -= 1;
+    } else {
+      fitted.pop();
+    }
+  }
+  return fitted;
+}
+
+/**
+ * Deterministic exercise list for a recommended workout: the available
+ * exercises that hit its muscle groups hardest, compound lifts first
+ */
+export function selectExercisesForWorkout(
+  availableExercises: Exercise[],
+  muscleGroups: MuscleGroup[],
+  intensity: Intensity,
+  availableMinutes: number
+): RecommendedExercise[] {
+  const targets = new Set<string>(muscleGroups);
+  const scored = availableExercises
+    .filter(exercise => exercise.trackingType === 'weight_reps' || exercise.trackingType === 'reps_only')
+    .map((exercise) => {
+      const primaryHits = (exercise.primaryMuscles ?? []).filter(muscle => targets.has(muscle)).length;
+      const secondaryHits = (exercise.secondaryMuscles ?? []).filter(muscle => targets.has(muscle)).length;
+      const isCompound = (exercise.primaryMuscles ?? []).length + (exercise.secondaryMuscles ?? []).length >= 3;
+      return { exercise, primaryHits, score: primaryHits * 2 + secondaryHits + (isCompound ? 1 : 0) };
+    })
+    .filter(({ primaryHits }) => targets.size === 0 || primaryHits > 0)
+    .sort((a, b) => b.score - a.score || a.exercise.name.localeCompare(b.exercise.name));
+
+  const prescription = getPrescription(intensity);
+  const perMuscle = new Map<string, number>();
+  const selected: RecommendedExercise[] = [];
+  for (const { exercise } of scored) {
+    if (selected.length >= MAX_EXERCISES) {
+      break;
+    }
+    const mainMuscle = exercise.primaryMuscles?.[0];
+    if (mainMuscle && (perMuscle.get(mainMuscle) ?? 0) >= MAX_EXERCISES_PER_PRIMARY_MUSCLE) {
+      continue;
+    }
+    const candidate = toRecommendedExercise(exercise, prescription);
+    if (selected.length > 0 && estimateWorkoutMinutes([...selected, candidate]) > availableMinutes) {
+      break;
+    }
+    selected.push(candidate);
+    if (mainMuscle) {
+      perMuscle.set(mainMuscle, (perMuscle.get(mainMuscle) ?? 0) + 1);
+    }
+  }
+  return fitExercisesToTime(selected, availableMinutes);
+}
+
+export interface ExercisePick {
+  exerciseId?: string;
+  exerciseName?: string;
+  sets: number;
+  reps: number;
+  restSeconds?: number;
+}
+
+/**
+ * Map exercises picked by the AI onto the available library exercises, by ID
+ * and then by exact name. Anything that can't be matched is dropped rather
+ * than logged against an exercise the user can't do.
+ */
+export function resolveExercisePicks(
+  picks: ExercisePick[],
+  availableExercises: Exercise[],
+  intensity: Intensity
+): RecommendedExercise[] {
+  const byId = new Map(availableExercises.map(exercise => [exercise.id, exercise]));
+  const byName = new Map(availableExercises.map(exercise => [exercise.name.trim().toLowerCase(), exercise]));
+  const defaults = getPrescription(intensity);
+  const seen = new Set<string>();
+
+  return picks.reduce<RecommendedExercise[]>((resolved, pick) => {
+    const exercise = (pick.exerciseId ? byId.get(pick.exerciseId) : undefined)
+      ?? (pick.exerciseName ? byName.get(pick.exerciseName.trim().toLowerCase()) : undefined);
+    if (!exercise || seen.has(exercise.id)) {
+      return resolved;
+    }
+    seen.add(exercise.id);
+    resolved.push(toRecommendedExercise(exercise, {
+      sets: pick.sets,
+      reps: pick.reps,
+      restTime: pick.restSeconds ?? defaults.restTime,
+    }));
+    return resolved;
+  }, []);
+}
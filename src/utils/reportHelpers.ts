@@ -0,0 +1,133 @@
+import {
+  addMonths,
+  addWeeks,
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { Workout, PlannedWorkout } from '@/types/workout';
+import { PersonalRecord } from '@/types/analytics';
+import { ReportAdherence, ReportPeriod, ReportPersonalRecord, ReportRange, TrainingReport } from '@/types/report';
+
+const WEEK_OPTIONS = { weekStartsOn: 1 as const }; // Reports run Monday to Sunday
+
+/**
+ * The week (Monday-Sunday) or calendar month containing the date
+ */
+export function getReportRange(period: ReportPeriod, date: Date): ReportRange {
+  return period === 'week'
+    ? { period, start: startOfWeek(date, WEEK_OPTIONS), end: endOfWeek(date, WEEK_OPTIONS) }
+    : { period, start: startOfMonth(date), end: endOfMonth(date) };
+}
+
+/**
+ * The range `offset` weeks or months before (negative) or after the given one
+ */
+export function shiftReportRange(range: ReportRange, offset: number): ReportRange {
+  const date = range.period === 'week' ? addWeeks(range.start, offset) : addMonths(range.start, offset);
+  return getReportRange(range.period, date);
+}
+
+/**
+ * The most recent week or month that has fully ended
+ */
+export function getLastCompletedRange(period: ReportPeriod, now: Date = new Date()): ReportRange {
+  return shiftReportRange(getReportRange(period, now), -1);
+}
+
+export function isInRange(date: Date | string, range: ReportRange): boolean {
+  const time = new Date(date).getTime();
+  return time >= range.start.getTime() && time <= range.end.getTime();
+}
+
+export function formatReportTitle(range: ReportRange): string {
+  if (range.period === 'month') {
+    return `${format(range.start, 'MMMM yyyy')} Training Report`;
+  }
+  return `Weekly Training Report: ${format(range.start, 'MMM d')} - ${format(range.end, 'MMM d, yyyy')}`;
+}
+
+export function formatMuscleLabel(muscle: string): string {
+  return muscle.replace(/_/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+}
+
+/**
+ * Planned workouts in the range that were completed. Missed sessions that were
+ * deleted from the planner don't count against adherence.
+ */
+export function calculateAdherence(plannedWorkouts: PlannedWorkout[], range: ReportRange): ReportAdherence | null {
+  const planned = plannedWorkouts.filter(workout => !workout.deletedAt && isInRange(workout.scheduledDate, range));
+  if (planned.length === 0) {
+    return null;
+  }
+  const completed = planned.filter(workout => workout.isCompleted).length;
+  return {
+    planned: planned.length,
+    completed,
+    percentage: Math.round((completed / planned.length) * 100),
+  };
+}
+
+/**
+ * Exercises whose best weight went up during the range. `recordsBefore` and
+ * `recordsThrough` are the personal records from workouts before the range
+ * and through its end; exercises first done in the range don't count.
+ */
+export function getPersonalRecordsInRange(
+  recordsBefore: PersonalRecord[],
+  recordsThrough: PersonalRecord[],
+  range: ReportRange
+): ReportPersonalRecord[] {
+  const previous = new Map(recordsBefore.map(record => [record.exerciseName, record]));
+  return recordsThrough
+    .filter((record) => {
+      const before = previous.get(record.exerciseName);
+      return before !== undefined && isInRange(record.date, range) && record.maxWeight > before.maxWeight;
+    })
+    .map(record => ({
+      exerciseName: record.exerciseName,
+      weight: record.maxWeight,
+      reps: record.maxReps,
+      date: new Date(record.date),
+      previousWeight: previous.get(record.exerciseName)?.maxWeight ?? 0,
+    }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+export function countTrainingDays(workouts: Workout[]): number {
+  return new Set(workouts.map(workout => format(new Date(workout.date), 'yyyy-MM-dd'))).size;
+}
+
+function formatChange(current: number, previous: number, period: ReportPeriod): string {
+  if (previous === 0) {
+    return '';
+  }
+  const change = Math.round(((current - previous) / previous) * 100);
+  return ` (${change >= 0 ? '+' : ''}${change}% vs previous ${period})`;
+}
+
+/**
+ * Plain-text version of the report for sharing and notifications
+ */
+export function formatReportSummary(report: TrainingReport, unit: string): string {
+  const lines = [
+    formatReportTitle(report.range),
+    `${report.sessions} session${report.sessions === 1 ? '' : 's'} over ${report.trainingDays} day${report.trainingDays === 1 ? '' : 's'}${formatChange(report.sessions, report.previous.sessions, report.range.period)}`,
+    `${Math.round(report.totalVolume).toLocaleString()} ${unit} total volume${formatChange(report.totalVolume, report.previous.totalVolume, report.range.period)}`,
+  ];
+  if (report.volumeByMuscle.length > 0) {
+    lines.push(`Top muscles: ${report.volumeByMuscle.slice(0, 3).map(entry => formatMuscleLabel(entry.muscle)).join(', ')}`);
+  }
+  if (report.personalRecords.length > 0) {
+    lines.push(`PRs: ${report.personalRecords.map(record => `${record.exerciseName} ${record.weight} ${unit}`).join(', ')}`);
+  }
+  if (report.adherence) {
+    lines.push(`Plan adherence: ${report.adherence.completed}/${report.adherence.planned} (${report.adherence.percentage}%)`);
+  }
+  if (report.sleep) {
+    lines.push(`Sleep: ${report.sleep.averageHours.toFixed(1)} h average`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,106 @@
+import { format } from 'date-fns';
+import { TrainingReport } from '@/types/report';
+import { formatMuscleLabel, formatReportTitle } from './reportHelpers';
+
+const STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #0f172a; max-width: 720px; margin: 0 auto; padding: 32px 24px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 15px; text-transform: uppercase; letter-spacing: 0.05em; color: #64748b; margin: 28px 0 10px; }
+  .meta { color: #64748b; font-size: 13px; }
+  .stats { display: grid; grid-template-columns: repeat(4, 1fr); gap: 12px; margin-top: 20px; }
+  .stat { border: 1px solid #e2e8f0; border-radius: 10px; padding: 12px; }
+  .stat .value { font-size: 20px; font-weight: 700; }
+  .stat .label { font-size: 12px; color: #64748b; }
+  table { width: 100%; border-collapse: collapse; font-size: 14px; }
+  td, th { text-align: left; padding: 6px 0; border-bottom: 1px solid #f1f5f9; }
+  td.number, th.number { text-align: right; }
+  .bar { height: 6px; background: #FF9933; border-radius: 3px; }
+  .empty { color: #94a3b8; font-size: 14px; }
+  @media print { body { padding: 0; } .stat { break-inside: avoid; } }
+`;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatNumber(value: number): string {
+  return Math.round(value).toLocaleString();
+}
+
+function stat(value: string, label: string): string {
+  return `<div class="stat"><div class="value">${escapeHtml(value)}</div><div class="label">${escapeHtml(label)}</div></div>`;
+}
+
+function section(title: string, body: string): string {
+  return `<h2>${escapeHtml(title)}</h2>${body}`;
+}
+
+/**
+ * Standalone HTML document for a report, styled for printing so the browser's
+ * "Save as PDF" gives a clean PDF
+ */
+export function renderReportHtml(report: TrainingReport, unit: string): string {
+  const title = formatReportTitle(report.range);
+  const maxMuscleVolume = Math.max(...report.volumeByMuscle.map(entry => entry.volume), 1);
+
+  const muscles = report.volumeByMuscle.length > 0
+    ? `<table>${report.volumeByMuscle.map(entry => `
+        <tr>
+          <td style="width: 35%">${escapeHtml(formatMuscleLabel(entry.muscle))}</td>
+          <td><div class="bar" style="width: ${Math.round((entry.volume / maxMuscleVolume) * 100)}%"></div></td>
+          <td class="number" style="width: 25%">${formatNumber(entry.volume)} ${escapeHtml(unit)} (${Math.round(entry.percentage)}%)</td>
+        </tr>`).join('')}</table>`
+    : '<p class="empty">No volume logged.</p>';
+
+  const records = report.personalRecords.length > 0
+    ? `<table><tr><th>Exercise</th><th>Date</th><th class="number">New best</th><th class="number">Previous</th></tr>${report.personalRecords.map(record => `
+        <tr>
+          <td>${escapeHtml(record.exerciseName)}</td>
+          <td>${format(record.date, 'MMM d')}</td>
+          <td class="number">${record.weight} ${escapeHtml(unit)} x ${record.reps}</td>
+          <td class="number">${record.previousWeight} ${escapeHtml(unit)}</td>
+        </tr>`).join('')}</table>`
+    : '<p class="empty">No new personal records.</p>';
+
+  const adherence = report.adherence
+    ? `<p>${report.adherence.completed} of ${report.adherence.planned} planned workouts completed (${report.adherence.percentage}%).</p>`
+    : '<p class="empty">No workouts were planned.</p>';
+
+  const sleepAndRecovery = [
+    report.sleep
+      ? `<p>Sleep: ${report.sleep.averageHours.toFixed(1)} h average, quality ${report.sleep.averageQuality.toFixed(1)}/10 over ${report.sleep.nights} night${report.sleep.nights === 1 ? '' : 's'}.</p>`
+      : '<p class="empty">No sleep logged.</p>',
+    report.recovery
+      ? `<p>Recovery: ${Math.round(report.recovery.averageRecovery)}% average, energy ${report.recovery.averageEnergy.toFixed(1)}/10, soreness ${report.recovery.averageSoreness.toFixed(1)}/10 over ${report.recovery.days} day${report.recovery.days === 1 ? '' : 's'}.</p>`
+      : '<p class="empty">No recovery check-ins logged.</p>',
+  ].join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<div class="meta">${format(report.range.start, 'MMM d, yyyy')} - ${format(report.range.end, 'MMM d, yyyy')} · Generated ${format(report.generatedAt, 'MMM d, yyyy HH:mm')} by FitTrackAI</div>
+<div class="stats">
+  ${stat(String(report.sessions), 'Sessions')}
+  ${stat(String(report.trainingDays), 'Training days')}
+  ${stat(`${formatNumber(report.totalVolume)} ${unit}`, 'Total volume')}
+  ${stat(`${formatNumber(report.totalDuration)} min`, 'Time trained')}
+</div>
+${section('Volume by muscle', muscles)}
+${section('Personal records', records)}
+${section('Plan adherence', adherence)}
+${section('Sleep & recovery', sleepAndRecovery)}
+</body>
+</html>`;
+}
@@ -0,0 +1,165 @@
+import { SetType, WorkoutSet } from '@/types/exercise';
+
+interface SetTypeConfig {
+  label: string;
+  shortLabel: string; // Badge shown in place of the set number
+  description: string;
+  countsTowardsVolume: boolean;
+  countsForRecords: boolean; // Cumulative or fatigued reps would inflate rep and 1RM records
+  hasMiniSets: boolean;
+  workloadMultiplier: number; // Extra recovery cost of sets taken close to or past failure
+}
+
+export const SET_TYPE_CONFIG: Record<SetType, SetTypeConfig> = {
+  warmup: {
+    label: 'Warm-up',
+    shortLabel: 'W',
+    description: 'Light ramp-up set, left out of volume, records and recovery',
+    countsTowardsVolume: false,
+    countsForRecords: false,
+    hasMiniSets: false,
+    workloadMultiplier: 0,
+  },
+  working: {
+    label: 'Working',
+    shortLabel: '',
+    description: 'Regular set',
+    countsTowardsVolume: true,
+    countsForRecords: true,
+    hasMiniSets: false,
+    workloadMultiplier: 1,
+  },
+  drop: {
+    label: 'Drop set',
+    shortLabel: 'D',
+    description: 'Reduced weight straight after the previous set',
+    countsTowardsVolume: true,
+    countsForRecords: false,
+    hasMiniSets: false,
+    workloadMultiplier: 1.2,
+  },
+  rest_pause: {
+    label: 'Rest-pause',
+    shortLabel: 'RP',
+    description: 'Mini-sets with 10-20 s breaks at the same weight',
+    countsTowardsVolume: true,
+    countsForRecords: false,
+    hasMiniSets: true,
+    workloadMultiplier: 1.15,
+  },
+  myo_rep: {
+    label: 'Myo-reps',
+    shortLabel: 'M',
+    description: 'Activation set followed by short mini-sets',
+    countsTowardsVolume: true,
+    countsForRecords: false,
+    hasMiniSets: true,
+    workloadMultiplier: 1.15,
+  },
+  cluster: {
+    label: 'Cluster',
+    shortLabel: 'C',
+    description: 'Heavy mini-sets with short intra-set rest',
+    countsTowardsVolume: true,
+    countsForRecords: false,
+    hasMiniSets: true,
+    workloadMultiplier: 1,
+  },
+  amrap: {
+    label: 'AMRAP',
+    shortLabel: 'A',
+    description: 'As many reps as possible',
+    countsTowardsVolume: true,
+    countsForRecords: true,
+    hasMiniSets: false,
+    workloadMultiplier: 1.1,
+  },
+  failure: {
+    label: 'To failure',
+    shortLabel: 'F',
+    description: 'Taken to muscular failure',
+    countsTowardsVolume: true,
+    countsForRecords: true,
+    hasMiniSets: false,
+    workloadMultiplier: 1.15,
+  },
+  backoff: {
+    label: 'Back-off',
+    shortLabel: 'B',
+    description: 'Lighter set after the top set',
+    countsTowardsVolume: true,
+    countsForRecords: true,
+    hasMiniSets: false,
+    workloadMultiplier: 1,
+  },
+};
+
+export const SET_TYPES = Object.keys(SET_TYPE_CONFIG) as SetType[];
+
+export function getSetType(set: Pick<WorkoutSet, 'setType'>): SetType {
+  return set.setType ?? 'working';
+}
+
+export function isWarmupSet(set: Pick<WorkoutSet, 'setType'>): boolean {
+  return set.setType === 'warmup';
+}
+
+export function countsTowardsVolume(set: Pick<WorkoutSet, 'setType'>, includeWarmups = false): boolean {
+  return includeWarmups || SET_TYPE_CONFIG[getSetType(set)].countsTowardsVolume;
+}
+
+export function countsForRecords(set: Pick<WorkoutSet, 'setType'>): boolean {
+  return SET_TYPE_CONFIG[getSetType(set)].countsForRecords;
+}
+
+/**
+ * Completed sets that count as training: everything but warm-ups
+ */
+export function getWorkingSets<T extends Pick<WorkoutSet, 'setType' | 'completed'>>(sets: T[]): T[] {
+  return sets.filter(set => set.completed && !isWarmupSet(set));
+}
+
+/**
+ * Average workload multiplier across completed working sets, so an exercise
+ * done with drop sets or to failure costs more recovery than straight sets
+ */
+export function getWorkloadMultiplier(sets: WorkoutSet[]): number {
+  const working = getWorkingSets(sets);
+  if (working.length === 0) {
+    return 0;
+  }
+  return working.reduce((sum, set) => sum + SET_TYPE_CONFIG[getSetType(set)].workloadMultiplier, 0) / working.length;
+}
+
+/**
+ * Number of the set a drop set belongs to: the nearest earlier set that is
+ * not itself a drop set
+ */
+export function getDropSetParent(sets: WorkoutSet[], index: number): number | undefined {
+  if (sets[index]?.setType !== 'drop') {
+    return undefined;
+  }
+  for (let i = index - 1; i >= 0; i--) {
+    if (sets[i].setType !== 'drop') {
+      return sets[i].setNumber;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Changes to apply when a set switches type: failure sets are RPE 10 and
+ * mini-set types start from the reps already entered
+ */
+export function getSetTypeUpdates(set: WorkoutSet, setType: SetType): Partial<WorkoutSet> {
+  const updates: Partial<WorkoutSet> = { setType: setType === 'working' ? undefined : setType };
+  if (setType === 'failure') {
+    updates.rpe = 10;
+  }
+  if (SET_TYPE_CONFIG[setType].hasMiniSets) {
+    updates.miniSetReps = set.miniSetReps ?? (set.reps ? [set.reps] : []);
+  } else if (set.miniSetReps) {
+    updates.miniSetReps = undefined;
+  }
+  return updates;
+}
@@ -0,0 +1,300 @@
+import { ConflictFieldDiff, ConflictTable, SyncableTable } from '@/types/sync';
+
+export const CONFLICT_TABLES: ConflictTable[] = ['workouts', 'workout_templates', 'planned_workouts'];
+
+/**
+ * Bookkeeping fields that change on every write and say nothing about the content
+ */
+const IGNORED_FIELDS = new Set(['version', 'updatedAt', 'createdAt', 'syncedAt']);
+
+type PlainRecord = Record<string, unknown>;
+
+export function getConflictId(tableName: ConflictTable, recordId: string): string {
+  return `${tableName}:${recordId}`;
+}
+
+export function isConflictTable(tableName: SyncableTable): tableName is ConflictTable {
+  return (CONFLICT_TABLES as SyncableTable[]).includes(tableName);
+}
+
+/**
+ * Milliseconds for Dates and for Firestore Timestamps, which come back from
+ * nested fields either as Timestamp instances or, once stored in IndexedDB, as
+ * plain { seconds, nanoseconds } objects
+ */
+function dateLikeToTime(value: unknown): number | null {
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  if (typeof value === 'object' && value !== null) {
+    const candidate = value as { toDate?: unknown; seconds?: unknown; nanoseconds?: unknown };
+    if (typeof candidate.toDate === 'function') {
+      return (candidate.toDate as () => Date).call(value).getTime();
+    }
+    if (typeof candidate.seconds === 'number' && typeof candidate.nanoseconds === 'number') {
+      return candidate.seconds * 1000 + Math.floor(candidate.nanoseconds / 1e6);
+    }
+  }
+  return null;
+}
+
+function isPlainObject(value: unknown): value is PlainRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && dateLikeToTime(value) === null;
+}
+
+function toTime(value: unknown): number {
+  const dateTime = dateLikeToTime(value);
+  if (dateTime !== null) {
+    return dateTime;
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    const time = new Date(value).getTime();
+    return isNaN(time) ? 0 : time;
+  }
+  return 0;
+}
+
+function normalizeLeaf(value: unknown): unknown {
+  // Missing and null both mean "not set"
+  return dateLikeToTime(value) ?? value ?? null;
+}
+
+function humanizeKey(key: string): string {
+  return key.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+}
+
+function itemLabel(item: unknown, index: number): string {
+  if (isPlainObject(item)) {
+    if (typeof item.exerciseName === 'string') {
+      return item.exerciseName;
+    }
+    if (typeof item.name === 'string') {
+      return item.name;
+    }
+    if (typeof item.setNumber === 'number') {
+      return `Set ${item.setNumber}`;
+    }
+  }
+  return `#${index + 1}`;
+}
+
+/**
+ * Arrays of objects that all carry an id (workout exercises) are matched by id
+ * so a reordered or inserted exercise doesn't show up as every field changing.
+ * Everything else is matched by position.
+ */
+function keyItems(items: unknown[]): Map<string, { item: unknown; index: number }> {
+  const byId = items.every((item) => isPlainObject(item) && typeof item.id === 'string');
+  return new Map(
+    items.map((item, index) => [byId ? (item as PlainRecord).id as string : String(index), { item, index }])
+  );
+}
+
+function diffValue(
+  local: unknown,
+  remote: unknown,
+  path: string[],
+  labels: string[],
+  diffs: ConflictFieldDiff[]
+): void {
+  if (Array.isArray(local) && Array.isArray(remote)) {
+    const localItems = keyItems(local);
+    const remoteItems = keyItems(remote);
+    const keys = [...localItems.keys(), ...[...remoteItems.keys()].filter((key) => !localItems.has(key))];
+
+    keys.forEach((key) => {
+      const localEntry = localItems.get(key);
+      const remoteEntry = remoteItems.get(key);
+      const entry = localEntry ?? remoteEntry;
+      const label = entry ? itemLabel(entry.item, entry.index) : key;
+      diffValue(localEntry?.item, remoteEntry?.item, [...path, key], [...labels, label], diffs);
+    });
+    return;
+  }
+
+  if (isPlainObject(local) && isPlainObject(remote)) {
+    const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+    keys.forEach((key) => {
+      if (IGNORED_FIELDS.has(key)) {
+        return;
+      }
+      // Lists of exercises or sets are labelled by their items ("Bench Press › Set 2"), not the field name
+      const isObjectList = [local[key], remote[key]].some(
+        (value) => Array.isArray(value) && value.length > 0 && value.every(isPlainObject)
+      );
+      diffValue(local[key], remote[key], [...path, key], isObjectList ? labels : [...labels, humanizeKey(key)], diffs);
+    });
+    return;
+  }
+
+  if (JSON.stringify(normalizeLeaf(local)) !== JSON.stringify(normalizeLeaf(remote))) {
+    diffs.push({
+      path: path.join('.'),
+      label: labels.join(' › '),
+      local,
+      remote,
+    });
+  }
+}
+
+/**
+ * Field-level differences between two versions of the same record.
+ * Exercises are matched by id and sets by position, so an edited set is
+ * reported as e.g. "Bench Press › Set 3 › weight".
+ */
+export function diffRecords(local: PlainRecord, remote: PlainRecord): ConflictFieldDiff[] {
+  const diffs: ConflictFieldDiff[] = [];
+  diffValue(local, remote, [], [], diffs);
+  return diffs;
+}
+
+/**
+ * Short display text for one side of a field diff
+ */
+export function formatConflictValue(value: unknown): string {
+  const time = dateLikeToTime(value);
+  if (time !== null) {
+    return new Date(time).toLocaleString();
+  }
+  if (value === undefined || value === null || value === '') {
+    return '—';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  if (Array.isArray(value)) {
+    return value.length === 0 ? '—' : value.map(formatConflictValue).join(', ');
+  }
+  if (isPlainObject(value)) {
+    // Whole exercises or sets that exist on one side only
+    if (typeof value.exerciseName === 'string') {
+      const sets = Array.isArray(value.sets) ? value.sets.length : value.sets;
+      return typeof sets === 'number' ? `${value.exerciseName} (${sets} sets)` : value.exerciseName;
+    }
+    if (typeof value.setNumber === 'number') {
+      const parts = [
+        typeof value.weight === 'number' ? `${value.weight}${typeof value.unit === 'string' ? ` ${value.unit}` : ''}` : null,
+        typeof value.reps === 'number' ? `× ${value.reps}` : null,
+        value.completed === true ? '✓' : null,
+      ].filter(Boolean);
+      return `Set ${value.setNumber}${parts.length > 0 ? `: ${parts.join(' ')}` : ''}`;
+    }
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function mergeSets(preferred: unknown[], other: unknown[]): unknown[] {
+  const length = Math.max(preferred.length, other.length);
+  const merged: unknown[] = [];
+
+  for (let i = 0; i < length; i++) {
+    const a = preferred[i];
+    const b = other[i];
+    // A set completed on either device is kept over an unfinished one
+    const set = a === undefined || (isPlainObject(b) && b.completed === true && isPlainObject(a) && a.completed !== true)
+      ? b
+      : a;
+    merged.push(isPlainObject(set) && typeof set.setNumber === 'number' ? { ...set, setNumber: i + 1 } : set);
+  }
+
+  return merged;
+}
+
+function exerciseKey(exercise: unknown, index: number): string {
+  if (isPlainObject(exercise)) {
+    if (typeof exercise.id === 'string') {
+      return exercise.id;
+    }
+    if (typeof exercise.exerciseId === 'string') {
+      return exercise.exerciseId;
+    }
+  }
+  return String(index);
+}
+
+function mergeExercises(preferred: unknown[], other: unknown[]): unknown[] {
+  const otherByKey = new Map(other.map((exercise, index) => [exerciseKey(exercise, index), exercise]));
+  const preferredKeys = new Set(preferred.map(exerciseKey));
+
+  const merged = preferred.map((exercise, index) => {
+    const counterpart = otherByKey.get(exerciseKey(exercise, index));
+    if (!isPlainObject(exercise) || !isPlainObject(counterpart)) {
+      return exercise;
+    }
+    if (Array.isArray(exercise.sets) && Array.isArray(counterpart.sets)) {
+      return { ...counterpart, ...exercise, sets: mergeSets(exercise.sets, counterpart.sets) };
+    }
+    return { ...counterpart, ...exercise };
+  });
+
+  // Exercises added only on the other device go after the ones both devices know about
+  other.forEach((exercise, index) => {
+    if (!preferredKeys.has(exerciseKey(exercise, index))) {
+      merged.push(exercise);
+    }
+  });
+
+  return merged;
+}
+
+/**
+ * Merge two conflicting versions of a workout, template or planned workout.
+ * Top-level fields come from the most recently edited side; exercises from
+ * both sides are kept, and within an exercise the sets are merged position by
+ * position, preferring completed sets. The result is versioned above both
+ * inputs so it wins the next push.
+ */
+export function mergeConflictRecords(local: PlainRecord, remote: PlainRecord): PlainRecord {
+  const localIsNewer = toTime(local.updatedAt) >= toTime(remote.updatedAt);
+  const preferred = localIsNewer ? local : remote;
+  const other = localIsNewer ? remote : local;
+
+  const merged: PlainRecord = { ...other, ...preferred };
+  if (Array.isArray(preferred.exercises) && Array.isArray(other.exercises)) {
+    merged.exercises = mergeExercises(preferred.exercises, other.exercises);
+  }
+
+  merged.version = Math.max(Number(local.version) || 0, Number(remote.version) || 0) + 1;
+  merged.updatedAt = new Date();
+  return merged;
+}
+
+/**
+ * Whether a local record was edited on this device since it last synced.
+ * Records written by a pull carry the remote updatedAt, which is never later
+ * than the pull itself, so both sync timestamps bound "already synced".
+ */
+export function hasUnpushedChanges(
+  record: PlainRecord,
+  lastPushAt: number | null | undefined,
+  lastPullAt: number | null | undefined
+): boolean {
+  if (!lastPushAt) {
+    return true;
+  }
+  return toTime(record.updatedAt) > Math.max(lastPushAt, lastPullAt ?? 0);
+}
+
+/**
+ * Whether the server copy holds changes this device hasn't seen, so writing
+ * the local copy over it would lose them. Local edits keep the version they
+ * were pulled with, so at equal versions the remote only counts as ahead when
+ * it was written after this device last synced.
+ */
+export function isRemoteAhead(
+  local: PlainRecord,
+  remote: PlainRecord,
+  lastPushAt: number | null | undefined,
+  lastPullAt: number | null | undefined
+): boolean {
+  if (diffRecords(local, remote).length === 0) {
+    return false;
+  }
+  const localVersion = Number(local.version) || 0;
+  const remoteVersion = Number(remote.version) || 0;
+  if (remoteVersion !== localVersion) {
+    return remoteVersion > localVersion;
+  }
+  return hasUnpushedChanges(remote, lastPushAt, lastPullAt);
+}
@@ -0,0 +1,292 @@
+import { z } from 'zod';
+import { TemplateExercise, WorkoutTemplate } from '@/types/workout';
+import {
+  ExerciseResolution,
+  PackagedExercise,
+  PackagedProgram,
+  PackagedTemplate,
+  TemplatePackage,
+} from '@/types/templatePackage';
+import { exerciseSchema, nameSchema, workoutTemplateSchema } from './validationSchemas';
+
+export const TEMPLATE_PACKAGE_FORMAT = 'fittrackai-template-package';
+export const TEMPLATE_PACKAGE_VERSION = 1;
+
+// Share links carry the encoded package in the URL fragment, which never reaches a server
+export const SHARE_LINK_PARAM = 'package';
+export const MAX_SHARE_LINK_LENGTH = 8000;
+
+const DEFLATE_PREFIX = 'z';
+const PLAIN_PREFIX = 'j';
+
+const packagedExerciseSchema = exerciseSchema
+  .pick({
+    name: true,
+    category: true,
+    primaryMuscles: true,
+    secondaryMuscles: true,
+    equipment: true,
+    difficulty: true,
+    instructions: true,
+    trackingType: true,
+    videoUrl: true,
+    muscleCategory: true,
+  })
+  .extend({ id: z.string().min(1, 'Exercise ID is required') });
+
+const packagedTemplateSchema = workoutTemplateSchema
+  .pick({
+    name: true,
+    category: true,
+    description: true,
+    difficulty: true,
+    daysPerWeek: true,
+    exercises: true,
+    estimatedDuration: true,
+    musclesTargeted: true,
+  })
+  .extend({ key: z.string().min(1, 'Template key is required') });
+
+const packagedProgramSchema = z.object({
+  name: nameSchema,
+  description: z.string().max(500, 'Description cannot exceed 500 characters').optional(),
+  durationWeeks: z.number().int().min(1).max(52),
+  days: z.array(z.object({
+    dayOfWeek: z.number().int().min(0).max(6),
+    templateKey: z.string().min(1),
+    label: z.string().max(50).optional(),
+  })).min(1, 'Program must have at least one training day'),
+  progression: z.object({
+    loadIncreasePerWeek: z.number(),
+    volumeIncreasePerWeek: z.number(),
+    deloadEvery: z.number().int().positive().optional(),
+    deloadIntensity: z.number().positive(),
+    deloadVolume: z.number().positive(),
+  }),
+});
+
+const templatePackageSchema = z.object({
+  format: z.literal(TEMPLATE_PACKAGE_FORMAT),
+  version: z.number().int().positive(),
+  name: nameSchema,
+  exportedAt: z.string(),
+  templates: z.array(packagedTemplateSchema).min(1, 'Package has no templates'),
+  program: packagedProgramSchema.optional(),
+  exercises: z.array(packagedExerciseSchema),
+  checksum: z.string(),
+});
+
+/**
+ * JSON with object keys sorted at every level, so the same package always
+ * serialises to the same string whatever order its fields were built in
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? 'null' : canonicalJson(item))).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * FNV-1a (32-bit) over the canonical JSON of every field but the checksum.
+ * It catches truncated links and hand edits; it is not a signature.
+ */
+export function computePackageChecksum(pkg: Omit<TemplatePackage, 'checksum'> & { checksum?: string }): string {
+  const { checksum: _checksum, ...content } = pkg;
+  const bytes = new TextEncoder().encode(canonicalJson(content));
+  let hash = 0x811c9dc5;
+  for (const byte of bytes) {
+    hash ^= byte;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// A load of 0 means none was set (the default templates and the editor start there)
+const positiveLoad = (weight: number | undefined): number | undefined =>
+  weight !== undefined && weight > 0 ? weight : undefined;
+
+export function toPackagedTemplate(template: WorkoutTemplate): PackagedTemplate {
+  return {
+    key: template.id,
+    name: template.name,
+    category: template.category,
+    description: template.description,
+    difficulty: template.difficulty,
+    daysPerWeek: template.daysPerWeek,
+    exercises: template.exercises.map(exercise => ({
+      ...exercise,
+      weight: positiveLoad(exercise.weight),
+      setData: exercise.setData?.map(set => ({ ...set, weight: positiveLoad(set.weight) })),
+    })),
+    estimatedDuration: template.estimatedDuration,
+    musclesTargeted: template.musclesTargeted,
+  };
+}
+
+export function buildTemplatePackage(content: {
+  name: string;
+  templates: PackagedTemplate[];
+  program?: PackagedProgram;
+  exercises?: PackagedExercise[];
+  exportedAt?: Date;
+}): TemplatePackage {
+  const pkg: Omit<TemplatePackage, 'checksum'> = {
+    format: TEMPLATE_PACKAGE_FORMAT,
+    version: TEMPLATE_PACKAGE_VERSION,
+    name: content.name,
+    exportedAt: (content.exportedAt ?? new Date()).toISOString(),
+    templates: content.templates,
+    program: content.program,
+    exercises: content.exercises ?? [],
+  };
+  return { ...pkg, checksum: computePackageChecksum(pkg) };
+}
+
+/**
+ * Validate an untrusted package (a parsed file or decoded link). Throws with
+ * a message fit for the user when it is not a package, comes from a newer
+ * app, is malformed, or fails its checksum.
+ */
+export function parseTemplatePackage(data: unknown): TemplatePackage {
+  if (!data || typeof data !== 'object' || (data as { format?: unknown }).format !== TEMPLATE_PACKAGE_FORMAT) {
+    throw new Error('This is not a workout template package');
+  }
+  const version = (data as { version?: unknown }).version;
+  if (typeof version === 'number' && version > TEMPLATE_PACKAGE_VERSION) {
+    throw new Error('This package was made with a newer version of the app. Update the app to import it.');
+  }
+
+  const result = templatePackageSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length > 0 ? ` (${issue.path.join('.')})` : '';
+    throw new Error(`Invalid template package: ${issue.message}${path}`);
+  }
+  // The checksum covers the package as sent, including any fields this version does not know
+  if (computePackageChecksum(data as TemplatePackage) !== result.data.checksum) {
+    throw new Error('This package was changed or damaged after it was exported');
+  }
+
+  const pkg = result.data as TemplatePackage;
+  const templateKeys = new Set(pkg.templates.map(template => template.key));
+  if (pkg.program?.days.some(day => !templateKeys.has(day.templateKey))) {
+    throw new Error('Invalid template package: a program day refers to a template that is not included');
+  }
+  return pkg;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): Uint8Array<ArrayBuffer> {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function pipeBytes(bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream): Promise<Uint8Array<ArrayBuffer>> {
+  const writer = stream.writable.getWriter();
+  // Not awaited: the readable side has to be drained for the writes to finish
+  writer.write(bytes).catch(() => undefined);
+  writer.close().catch(() => undefined);
+
+  const chunks: Uint8Array[] = [];
+  const reader = stream.readable.getReader();
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    chunks.push(chunk.value);
+  }
+  const output = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return output;
+}
+
+/**
+ * Compact URL-safe form of a package: deflated where the browser supports
+ * it, plain JSON otherwise, with a one-letter prefix saying which
+ */
+export async function encodeTemplatePackage(pkg: TemplatePackage): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify(pkg));
+  if (typeof CompressionStream === 'undefined') {
+    return PLAIN_PREFIX + toBase64Url(bytes);
+  }
+  return DEFLATE_PREFIX + toBase64Url(await pipeBytes(bytes, new CompressionStream('deflate-raw')));
+}
+
+export async function decodeTemplatePackage(encoded: string): Promise<TemplatePackage> {
+  const prefix = encoded.charAt(0);
+  if (prefix === DEFLATE_PREFIX && typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot open compressed share links. Ask for the package file instead.');
+  }
+
+  let data: unknown;
+  try {
+    let bytes = fromBase64Url(encoded.slice(1));
+    if (prefix === DEFLATE_PREFIX) {
+      bytes = await pipeBytes(bytes, new DecompressionStream('deflate-raw'));
+    } else if (prefix !== PLAIN_PREFIX) {
+      throw new Error('Unknown encoding');
+    }
+    data = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error('This share link is incomplete or damaged');
+  }
+  return parseTemplatePackage(data);
+}
+
+/**
+ * Encoded package from a share link, its fragment, or the bare code
+ */
+export function getShareCode(input: string): string | null {
+  const trimmed = input.trim();
+  const match = trimmed.match(new RegExp(`[#&?]${SHARE_LINK_PARAM}=([A-Za-z0-9_-]+)`));
+  if (match) {
+    return match[1];
+  }
+  return /^[A-Za-z0-9_-]+$/.test(trimmed) && trimmed.length > 1 ? trimmed : null;
+}
+
+/**
+ * Template exercises pointed at the importing user's exercise ids. Unknown
+ * exercises are left out, and a superset or circuit left with one exercise
+ * is ungrouped.
+ */
+export function applyExerciseResolutions(
+  exercises: TemplateExercise[],
+  resolutions: Map<string, ExerciseResolution>
+): TemplateExercise[] {
+  const remapped = exercises.flatMap((exercise) => {
+    const resolvedId = resolutions.get(exercise.exerciseId)?.resolvedId;
+    return resolvedId ? [{ ...exercise, exerciseId: resolvedId }] : [];
+  });
+
+  const groupSizes = new Map<string, number>();
+  remapped.forEach((exercise) => {
+    if (exercise.groupId) {
+      groupSizes.set(exercise.groupId, (groupSizes.get(exercise.groupId) ?? 0) + 1);
+    }
+  });
+  return remapped.map((exercise) => {
+    if (!exercise.groupId || (groupSizes.get(exercise.groupId) ?? 0) > 1) {
+      return exercise;
+    }
+    const { groupId: _groupId, groupType: _groupType, groupOrder: _groupOrder, ...ungrouped } = exercise;
+    return ungrouped;
+  });
+}
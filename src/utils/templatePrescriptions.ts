@@ -0,0 +1,151 @@
+import { WeightUnit, WorkoutExercise } from '@/types/exercise';
+import { TemplateExercise, TemplateSetPrescription, Workout } from '@/types/workout';
+import { convertWeight, estimateOneRepMax, OneRepMaxFormula } from './calculations';
+import { countsForRecords, SET_TYPE_CONFIG } from './setTypes';
+
+/**
+ * One prescription per set. Per-set entries win over the exercise-level
+ * target field by field; a per-set rep count or load replaces the whole
+ * range or load rather than mixing with it.
+ */
+export function getSetPrescriptions(exercise: TemplateExercise): TemplateSetPrescription[] {
+  const base: TemplateSetPrescription = {
+    reps: exercise.reps,
+    repsMax: exercise.repsMax,
+    weight: exercise.weight,
+    rpe: exercise.rpe,
+    percentOneRepMax: exercise.percentOneRepMax,
+    restTime: exercise.restTime,
+  };
+  if (!exercise.setData || exercise.setData.length !== exercise.sets) {
+    return Array.from({ length: exercise.sets }, () => ({ ...base }));
+  }
+
+  return exercise.setData.map((entry) => {
+    const hasOwnLoad = entry.weight !== undefined || entry.percentOneRepMax !== undefined;
+    return {
+      ...entry,
+      reps: entry.reps ?? base.reps,
+      repsMax: entry.reps !== undefined ? entry.repsMax : base.repsMax,
+      weight: hasOwnLoad ? entry.weight : base.weight,
+      percentOneRepMax: hasOwnLoad ? entry.percentOneRepMax : base.percentOneRepMax,
+      rpe: entry.rpe ?? base.rpe,
+      restTime: entry.restTime ?? base.restTime,
+    };
+  });
+}
+
+/**
+ * Load for a prescription: a percentage of the training max when one is
+ * known, otherwise the fixed weight
+ */
+export function resolvePrescribedWeight(prescription: TemplateSetPrescription, trainingMax?: number): number | undefined {
+  if (prescription.percentOneRepMax !== undefined && trainingMax && trainingMax > 0) {
+    return Math.round(trainingMax * prescription.percentOneRepMax) / 100;
+  }
+  return prescription.weight;
+}
+
+export function formatRepTarget(reps?: number, repsMax?: number): string {
+  if (reps === undefined) {
+    return '';
+  }
+  return repsMax !== undefined && repsMax > reps ? `${reps}–${repsMax}` : `${reps}`;
+}
+
+/**
+ * Short label for a prescribed set, e.g. "8–12 @ RPE 8", "5 @ 65%" or "5 × 100kg"
+ */
+export function formatPrescription(prescription: TemplateSetPrescription, unit: WeightUnit = 'kg'): string {
+  let label = formatRepTarget(prescription.reps, prescription.repsMax);
+  if (prescription.setType === 'amrap') {
+    label = `${label}+`;
+  }
+  if (prescription.percentOneRepMax !== undefined) {
+    label += ` @ ${prescription.percentOneRepMax}%`;
+  } else if (prescription.weight) {
+    label += ` × ${prescription.weight}${prescription.unit ?? unit}`;
+  }
+  if (prescription.rpe !== undefined) {
+    label += ` @ RPE ${prescription.rpe}`;
+  }
+  if (prescription.setType && prescription.setType !== 'working') {
+    label = `${SET_TYPE_CONFIG[prescription.setType].shortLabel} ${label}`;
+  }
+  return label;
+}
+
+/**
+ * "3 × 8–12 @ RPE 8" when every set is prescribed the same, otherwise each
+ * set in turn, e.g. "5 @ 65% / 5 @ 75% / 5+ @ 85%"
+ */
+export function summarizeTemplateExercise(exercise: TemplateExercise, unit: WeightUnit = 'kg'): string {
+  const labels = getSetPrescriptions(exercise).map(prescription => formatPrescription(prescription, unit));
+  if (labels.length === 0) {
+    return '';
+  }
+  return labels.every(label => label === labels[0])
+    ? `${labels.length} × ${labels[0]}`
+    : labels.join(' / ');
+}
+
+/**
+ * Best estimated 1RM per exercise from completed record-eligible sets, in `unit`
+ */
+export function getBestOneRepMaxes(
+  workouts: Workout[],
+  unit: WeightUnit,
+  formula?: OneRepMaxFormula
+): Record<string, number> {
+  const best: Record<string, number> = {};
+  workouts.forEach((workout) => {
+    workout.exercises.forEach((exercise) => {
+      exercise.sets.forEach((set) => {
+        if (!set.completed || !set.weight || !set.reps || !countsForRecords(set)) {
+          return;
+        }
+        const weight = convertWeight(set.weight, set.unit ?? 'kg', unit);
+        const estimated = estimateOneRepMax(weight, set.reps, formula, set.rpe);
+        if (estimated > (best[exercise.exerciseId] ?? 0)) {
+          best[exercise.exerciseId] = Math.round(estimated * 10) / 10;
+        }
+      });
+    });
+  });
+  return best;
+}
+
+/**
+ * Template entry for a logged exercise, keeping each set's type and any
+ * targets it was started with
+ */
+export function toTemplateExercise(exercise: WorkoutExercise): TemplateExercise {
+  const setData: TemplateSetPrescription[] = exercise.sets.map((set) => ({
+    reps: set.targetRepsMin ?? set.reps,
+    repsMax: set.targetRepsMax,
+    weight: set.targetPercent !== undefined ? undefined : set.weight,
+    unit: set.unit,
+    distance: set.distance,
+    distanceUnit: set.distanceUnit,
+    time: set.time,
+    calories: set.calories,
+    duration: set.duration,
+    rpe: set.targetRpe ?? set.rpe,
+    percentOneRepMax: set.targetPercent,
+    setType: set.setType,
+  }));
+
+  return {
+    exerciseId: exercise.exerciseId,
+    exerciseName: exercise.exerciseName,
+    sets: exercise.sets.length,
+    reps: exercise.sets[0]?.reps || 10, // Keep for backward compatibility
+    weight: exercise.sets[0]?.weight, // Keep for backward compatibility
+    trainingMax: exercise.trainingMax,
+    setData,
+    notes: exercise.notes,
+    groupType: exercise.groupType,
+    groupId: exercise.groupId,
+    groupOrder: exercise.groupOrder,
+  };
+}
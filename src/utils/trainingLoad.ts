@@ -0,0 +1,149 @@
+import { addDays, differenceInCalendarDays, startOfDay } from 'date-fns';
+import { HeartRatePoint, WorkoutSet } from '@/types/exercise';
+import { Workout } from '@/types/workout';
+import { HeartRateSettings, HeartRateZoneTime, TrainingLoadPoint } from '@/types/cardio';
+import { calculateZoneTime } from './heartRateZones';
+import { MAX_SAMPLE_GAP_S } from './cardioTrack';
+
+export const ACUTE_LOAD_DAYS = 7;
+export const CHRONIC_LOAD_DAYS = 28;
+
+// Acute:chronic ratios commonly treated as well-loaded and as a spike
+export const ACWR_SWEET_SPOT = { min: 0.8, max: 1.3 };
+export const ACWR_HIGH_RISK = 1.5;
+
+/**
+ * Length of a set in seconds from whichever field its tracking type fills
+ */
+export function getSetDuration(set: WorkoutSet): number {
+  if (set.time) {
+    return set.time;
+  }
+  if (set.duration) {
+    return set.duration;
+  }
+  if (set.setDuration) {
+    return set.setDuration;
+  }
+  if (set.workDuration && set.rounds) {
+    return set.workDuration * set.rounds;
+  }
+  return 0;
+}
+
+/**
+ * Heart-rate samples for a set, preferring the most detailed source: the
+ * imported track, then the heart-rate series, then a single average reading
+ * held for the whole set. `maxGap` marks where a pause breaks the samples.
+ */
+export function getSetHeartRateSamples(set: WorkoutSet): { samples: HeartRatePoint[]; maxGap: number } | null {
+  const trackSamples = (set.track ?? [])
+    .filter(point => point.hr !== undefined)
+    .map(point => ({ offset: point.t, bpm: point.hr as number }));
+  if (trackSamples.length > 1) {
+    return { samples: trackSamples, maxGap: MAX_SAMPLE_GAP_S };
+  }
+
+  // Series points are downsampled averages, so each one covers until the next
+  if (set.heartRateSeries && set.heartRateSeries.length > 1) {
+    const duration = getSetDuration(set);
+    const last = set.heartRateSeries[set.heartRateSeries.length - 1];
+    const samples = duration > last.offset
+      ? [...set.heartRateSeries, { offset: duration, bpm: last.bpm }]
+      : set.heartRateSeries;
+    return { samples, maxGap: Infinity };
+  }
+
+  const duration = getSetDuration(set);
+  if (set.heartRate && set.heartRate > 0 && duration > 0) {
+    return {
+      samples: [{ offset: 0, bpm: set.heartRate }, { offset: duration, bpm: set.heartRate }],
+      maxGap: Infinity,
+    };
+  }
+  return null;
+}
+
+/**
+ * Seconds in each zone for a completed set, or empty without heart-rate data
+ */
+export function calculateSetZoneTime(set: WorkoutSet, settings: HeartRateSettings): HeartRateZoneTime[] {
+  const heartRate = set.completed ? getSetHeartRateSamples(set) : null;
+  return heartRate ? calculateZoneTime(heartRate.samples, settings.zones, heartRate.maxGap) : [];
+}
+
+/**
+ * Banister TRIMP for a set: minutes weighted by heart-rate reserve,
+ * exponentially so that time near max counts for much more than easy time
+ */
+export function calculateSetTrimp(set: WorkoutSet, settings: HeartRateSettings): number {
+  const heartRate = set.completed ? getSetHeartRateSamples(set) : null;
+  const reserve = settings.maxHeartRate - settings.restingHeartRate;
+  if (!heartRate || reserve <= 0) {
+    return 0;
+  }
+
+  const { samples, maxGap } = heartRate;
+  const { a, b } = settings.trimpFactor;
+  let trimp = 0;
+  for (let i = 0; i < samples.length - 1; i++) {
+    const gap = samples[i + 1].offset - samples[i].offset;
+    if (gap <= 0 || gap > maxGap) {
+      continue;
+    }
+    const fraction = Math.min(1, Math.max(0, (samples[i].bpm - settings.restingHeartRate) / reserve));
+    trimp += (gap / 60) * fraction * a * Math.exp(b * fraction);
+  }
+  return trimp;
+}
+
+/**
+ * Session training load: TRIMP summed over every set with heart-rate data
+ */
+export function calculateWorkoutTrimp(workout: Workout, settings: HeartRateSettings): number {
+  const trimp = workout.exercises.reduce(
+    (sum, exercise) => sum + exercise.sets.reduce((setSum, set) => setSum + calculateSetTrimp(set, settings), 0),
+    0
+  );
+  return Math.round(trimp);
+}
+
+/**
+ * Daily load with rolling acute (7-day) and chronic (28-day) averages for the
+ * `days` ending on `endDate`. Workouts before the window still count towards
+ * the chronic average of its first days.
+ */
+export function calculateWorkloadTrend(
+  workouts: Workout[],
+  settings: HeartRateSettings,
+  endDate: Date = new Date(),
+  days: number = 42
+): TrainingLoadPoint[] {
+  const end = startOfDay(endDate);
+  const firstDay = addDays(end, -(days - 1 + CHRONIC_LOAD_DAYS - 1));
+  const totalDays = days + CHRONIC_LOAD_DAYS - 1;
+  const dailyLoad = new Array<number>(totalDays).fill(0);
+
+  workouts.forEach((workout) => {
+    const index = differenceInCalendarDays(new Date(workout.date), firstDay);
+    if (index >= 0 && index < totalDays) {
+      dailyLoad[index] += calculateWorkoutTrimp(workout, settings);
+    }
+  });
+
+  const average = (index: number, window: number) =>
+    dailyLoad.slice(index - window + 1, index + 1).reduce((sum, load) => sum + load, 0) / window;
+
+  return Array.from({ length: days }, (_, offset) => {
+    const index = CHRONIC_LOAD_DAYS - 1 + offset;
+    const acute = average(index, ACUTE_LOAD_DAYS);
+    const chronic = average(index, CHRONIC_LOAD_DAYS);
+    return {
+      date: addDays(firstDay, index),
+      load: dailyLoad[index],
+      acute: Math.round(acute * 10) / 10,
+      chronic: Math.round(chronic * 10) / 10,
+      ratio: chronic > 0 ? Math.round((acute / chronic) * 100) / 100 : null,
+    };
+  });
+}
@@ -317,6 +317,8 @@ export const profileUpdateSchema = z.object({
 // WORKOUT SET SCHEMAS
 // ============================================================================
 
+export const setTypeSchema = z.enum(['warmup', 'working', 'drop', 'rest_pause', 'myo_rep', 'cluster', 'amrap', 'failure', 'backoff']);
+
 /**
  * Base workout set schema (common fields)
  */
@@ -326,10 +328,29 @@ const baseSetSchema = z.object({
   rpe: rpeSchema,
   restTime: restTimeSchema,
   notes: notesSchema,
+  setType: setTypeSchema.optional(),
+  miniSetReps: z.array(z.number().int().nonnegative()).optional(),
+  targetRepsMin: repsSchema.optional(),
+  targetRepsMax: repsSchema.optional(),
+  targetRpe: rpeSchema,
+  targetPercent: z.number().positive().max(150).optional(),
   setDuration: durationSecondsSchema.optional(),
   setStartTime: z.date().optional(),
   setEndTime: z.date().optional(),
   heartRate: heartRateSchema,
+  maxHeartRate: heartRateSchema,
+  heartRateSeries: z.array(z.object({
+    offset: z.number().nonnegative(),
+    bpm: z.number().positive(),
+  })).optional(),
+  track: z.array(z.object({
+    t: z.number().nonnegative(),
+    lat: z.number().min(-90).max(90).optional(),
+    lon: z.number().min(-180).max(180).optional(),
+    ele: z.number().optional(),
+    d: z.number().nonnegative().optional(),
+    hr: z.number().positive().optional(),
+  })).optional(),
   // Side tracking fields
   leftReps: repsSchema.optional(),
   rightReps: repsSchema.optional(),
@@ -441,6 +462,12 @@ export const workoutExerciseSchema = z.object({
   groupType: z.enum(['single', 'superset', 'circuit']).optional(),
   groupId: z.string().optional(),
   groupOrder: z.number().int().nonnegative().optional(),
+  trainingMax: z.number().positive().optional(),
+  substitutedFor: z.object({
+    exerciseId: z.string().min(1),
+    exerciseName: nameSchema,
+    reason: z.enum(['equipment_busy', 'equipment_unavailable', 'injury', 'preference']),
+  }).optional(),
 });
 
 // ============================================================================
@@ -588,10 +615,19 @@ export const templateExerciseSchema = z.object({
   exerciseName: nameSchema,
   sets: z.number().int().positive('Sets must be at least 1').max(20, 'Sets cannot exceed 20'),
   reps: z.number().int().positive('Reps must be at least 1').max(500, 'Reps cannot exceed 500'),
+  repsMax: z.number().int().positive().max(500, 'Reps cannot exceed 500').optional(),
   weight: z.number().positive().optional(),
+  rpe: rpeSchema,
+  percentOneRepMax: z.number().positive().max(150, 'Percentage cannot exceed 150%').optional(),
+  trainingMax: z.number().positive().optional(),
   restTime: restTimeSchema,
+  notes: notesSchema,
+  groupType: z.enum(['single', 'superset', 'circuit']).optional(),
+  groupId: z.string().optional(),
+  groupOrder: z.number().int().nonnegative().optional(),
   setData: z.array(z.object({
     reps: repsSchema.optional(),
+    repsMax: repsSchema.optional(),
     weight: z.number().positive().optional(),
     unit: z.enum(['kg', 'lbs']).optional(),
     distance: z.number().nonnegative().optional(),
@@ -600,6 +636,9 @@ export const templateExerciseSchema = z.object({
     calories: caloriesSchema,
     duration: durationSecondsSchema.optional(),
     rpe: rpeSchema,
+    percentOneRepMax: z.number().positive().max(150, 'Percentage cannot exceed 150%').optional(),
+    setType: setTypeSchema.optional(),
+    restTime: restTimeSchema,
   })).optional(),
 });
 
@@ -693,6 +732,173 @@ export type WorkoutSetData = z.infer<typeof workoutSetSchema>;
 export type WorkoutExerciseData = z.infer<typeof workoutExerciseSchema>;
 export type WorkoutData = z.infer<typeof workoutSchema>;
 
+// ============================================================================
+// AI RESPONSE SCHEMAS
+// ============================================================================
+
+/**
+ * Plain-text insight returned by the AI (progress and muscle balance cards)
+ */
+export const aiInsightTextSchema = z
+  .string()
+  .trim()
+  .min(20, 'Insight is too short')
+  .max(600, 'Insight must be 1-2 sentences');
+
+const aiTextField = z.string().trim().min(1, 'Text cannot be empty');
+
+/**
+ * Today's focus insights
+ */
+export const workoutInsightsResponseSchema = z.object({
+  analysis: aiTextField,
+  recommendations: z.array(aiTextField).min(1, 'At least one recommendation is required').max(5),
+  warnings: z.array(aiTextField).optional(),
+  motivation: aiTextField.optional(),
+  tip: aiTextField.optional(),
+});
+
+/**
+ * Progress analysis: breakthroughs, plateaus, form checks and training patterns
+ */
+export const progressAnalysisResponseSchema = z.object({
+  breakthrough: z
+    .object({
+      exercise: aiTextField.nullish(),
+      projectedWeight: z.number().nonnegative().nullish(),
+      improvementPercent: z.number().nullish(),
+      reason: z.string().nullish(),
+    })
+    .nullish(),
+  plateaus: z.array(
+    z.object({
+      exercise: aiTextField,
+      weight: z.number().nonnegative(),
+      weeksStuck: z.number().nonnegative(),
+      suggestion: aiTextField,
+    })
+  ),
+  formChecks: z.array(
+    z.object({
+      exercise: aiTextField,
+      issue: aiTextField,
+      muscleGroup: z.string(),
+    })
+  ),
+  trainingPatterns: z.array(
+    z.object({
+      type: z.enum(['sleep', 'caffeine', 'timing', 'other']),
+      title: aiTextField,
+      description: aiTextField,
+      impact: z.string(),
+    })
+  ),
+});
+
+/**
+ * Readiness status, recovery alerts, suggestions and nutrition timing
+ */
+export const smartAlertsResponseSchema = z.object({
+  readinessStatus: z.enum(['optimal', 'good', 'moderate', 'low']),
+  readinessMessage: aiTextField,
+  criticalAlerts: z.array(
+    z.object({
+      type: z.enum(['critical', 'warning', 'info']),
+      title: aiTextField,
+      message: aiTextField,
+      muscleGroup: z.string().optional(),
+    })
+  ),
+  suggestions: z.array(
+    z.object({
+      type: z.enum(['deload', 'sleep', 'nutrition', 'workout']),
+      title: aiTextField,
+      description: aiTextField,
+    })
+  ),
+  nutritionEvents: z.array(
+    z.object({
+      time: z.string(),
+      relativeTime: z.string(),
+      title: aiTextField,
+      description: z.string(),
+      type: z.enum(['protein', 'carb', 'meal', 'supplement']),
+    })
+  ),
+});
+
+const aiIntensitySchema = z.enum(['low', 'medium', 'high']);
+
+/**
+ * Recommended workout, 7-day progression plan and corrective exercises
+ */
+export const workoutRecommendationsResponseSchema = z.object({
+  readinessStatus: aiTextField,
+  recommendedWorkout: z
+    .object({
+      name: aiTextField,
+      description: aiTextField,
+      duration: z.number().positive().max(240),
+      intensity: aiIntensitySchema,
+      muscleGroups: z.array(z.string()),
+      reason: aiTextField,
+      exercises: z
+        .array(
+          z.object({
+            exerciseId: z.string(),
+            exerciseName: z.string().optional(),
+            sets: z.number().int().min(1).max(10),
+            reps: z.number().int().min(1).max(50),
+            restSeconds: z.number().int().min(0).max(600).optional(),
+          })
+        )
+        .max(10)
+        .optional(),
+    })
+    .optional(),
+  progressionPlan: z
+    .object({
+      duration: z.number().int().positive(),
+      periodization: z.enum(['linear', 'undulating', 'block']),
+      phases: z.array(
+        z.object({
+          day: z.number().int().positive(),
+          workoutType: z.enum(['push', 'pull', 'legs', 'cardio', 'rest']),
+          intensity: aiIntensitySchema,
+          volumeTarget: z.number().nonnegative(),
+          exercises: z.array(z.string()),
+          recoveryTarget: z.number().min(0).max(100),
+        })
+      ),
+    })
+    .optional(),
+  correctiveExercises: z
+    .array(
+      z.object({
+        name: aiTextField,
+        description: aiTextField,
+        targetMuscle: z.string(),
+        category: z.enum(['imbalance', 'posture', 'weakness', 'mobility']),
+        reason: z.string().optional(),
+      })
+    )
+    .optional(),
+  recoveryPredictions: z
+    .array(
+      z.object({
+        workoutType: z.enum(['push', 'pull', 'legs', 'rest']),
+        prPotential: z.array(z.string()).optional(),
+        fatigueWarnings: z.array(z.string()).optional(),
+      })
+    )
+    .optional(),
+});
+
+export type WorkoutInsightsResponse = z.infer<typeof workoutInsightsResponseSchema>;
+export type ProgressAnalysisResponse = z.infer<typeof progressAnalysisResponseSchema>;
+export type SmartAlertsResponse = z.infer<typeof smartAlertsResponseSchema>;
+export type WorkoutRecommendationsResponse = z.infer<typeof workoutRecommendationsResponseSchema>;
+
 // ============================================================================
 // VALIDATION HELPER FUNCTIONS
 // ============================================================================
@@ -0,0 +1,143 @@
+import { Exercise, WeightUnit, WorkoutSet } from '@/types/exercise';
+import { EquipmentInventory } from '@/types/equipment';
+import { convertWeight } from './calculations';
+import { DEFAULT_EQUIPMENT_INVENTORY, getDefaultBarbell, getLoadEquipmentKind, snapToAvailableLoad } from './plateCalculator';
+import { isWarmupSet } from './setTypes';
+
+export type WarmupScheme = 'standard' | 'heavy' | 'olympic' | 'light';
+
+export interface WarmupStep {
+  percent: number; // Share of the first working weight; 0 means the empty bar
+  reps: number;
+}
+
+export const WARMUP_SCHEMES: Record<WarmupScheme, { label: string; steps: WarmupStep[] }> = {
+  standard: {
+    label: 'Standard',
+    steps: [
+      { percent: 0, reps: 10 },
+      { percent: 0.4, reps: 5 },
+      { percent: 0.6, reps: 3 },
+      { percent: 0.8, reps: 2 },
+    ],
+  },
+  heavy: {
+    label: 'Heavy day',
+    steps: [
+      { percent: 0, reps: 10 },
+      { percent: 0.4, reps: 5 },
+      { percent: 0.55, reps: 4 },
+      { percent: 0.7, reps: 3 },
+      { percent: 0.8, reps: 2 },
+      { percent: 0.9, reps: 1 },
+    ],
+  },
+  olympic: {
+    label: 'Olympic lift',
+    steps: [
+      { percent: 0, reps: 5 },
+      { percent: 0.4, reps: 3 },
+      { percent: 0.6, reps: 2 },
+      { percent: 0.75, reps: 2 },
+      { percent: 0.85, reps: 1 },
+    ],
+  },
+  light: {
+    label: 'Light',
+    steps: [
+      { percent: 0.5, reps: 10 },
+      { percent: 0.75, reps: 5 },
+    ],
+  },
+};
+
+export const WARMUP_SCHEME_OPTIONS = Object.keys(WARMUP_SCHEMES) as WarmupScheme[];
+
+/**
+ * Ramp a lift gets unless the user picks another: full ramps for barbell
+ * lifts, a short one for dumbbells and machines, none for everything else
+ */
+export function getDefaultWarmupScheme(
+  exercise: Pick<Exercise, 'category' | 'equipment' | 'trackingType'>
+): WarmupScheme | null {
+  if (exercise.trackingType !== 'weight_reps' || (exercise.category !== 'strength' && exercise.category !== 'olympic')) {
+    return null;
+  }
+  switch (getLoadEquipmentKind(exercise.equipment)) {
+    case 'barbell':
+      return exercise.category === 'olympic' ? 'olympic' : 'standard';
+    case 'dumbbell':
+    case 'machine':
+      return 'light';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Scheme for an exercise after the user's per-exercise preference, or null
+ * when warm-ups are off for it
+ */
+export function resolveWarmupScheme(
+  exercise: Pick<Exercise, 'id' | 'category' | 'equipment' | 'trackingType'>,
+  preferences: Record<string, WarmupScheme | 'off'> = {}
+): WarmupScheme | null {
+  const preference = preferences[exercise.id];
+  if (preference === 'off') {
+    return null;
+  }
+  return preference ?? getDefaultWarmupScheme(exercise);
+}
+
+/**
+ * Warm-up sets ramping up to `workingWeight`, rounded to loads the user can
+ * build. Steps that round to the same load, or up to the working weight, are
+ * dropped; barbell steps never go below the empty bar.
+ */
+export function generateWarmupSets(
+  workingWeight: number,
+  unit: WeightUnit,
+  equipment: string[],
+  scheme: WarmupScheme,
+  inventory: EquipmentInventory = DEFAULT_EQUIPMENT_INVENTORY
+): WorkoutSet[] {
+  const barbell = getLoadEquipmentKind(equipment) === 'barbell' ? getDefaultBarbell(inventory, unit) : undefined;
+  const barWeight = barbell ? convertWeight(barbell.weight, barbell.unit, unit) : 0;
+  if (workingWeight <= 0 || workingWeight <= barWeight) {
+    return [];
+  }
+
+  const warmups: WorkoutSet[] = [];
+  for (const step of WARMUP_SCHEMES[scheme].steps) {
+    if (step.percent === 0 && !barbell) {
+      continue;
+    }
+    const target = Math.max(barWeight, workingWeight * step.percent);
+    const weight = step.percent === 0 ? barWeight : snapToAvailableLoad(target, unit, equipment, inventory);
+    const previous = warmups[warmups.length - 1];
+    if (weight <= 0 || weight >= workingWeight || (previous && weight <= (previous.weight ?? 0))) {
+      continue;
+    }
+    warmups.push({
+      setNumber: warmups.length + 1,
+      weight,
+      reps: step.reps,
+      unit,
+      setType: 'warmup',
+      completed: false,
+    });
+  }
+  return warmups;
+}
+
+/**
+ * Replace any pending warm-ups in `sets` with `warmups`, placed before the
+ * first working set, and renumber. Completed warm-ups are kept as logged.
+ */
+export function insertWarmupSets(sets: WorkoutSet[], warmups: WorkoutSet[]): WorkoutSet[] {
+  const remaining = sets.filter(set => set.completed || !isWarmupSet(set));
+  const firstWorking = remaining.findIndex(set => !set.completed && !isWarmupSet(set));
+  const index = firstWorking === -1 ? remaining.length : firstWorking;
+  return [...remaining.slice(0, index), ...warmups, ...remaining.slice(index)]
+    .map((set, position) => ({ ...set, setNumber: position + 1 }));
+}
@@ -0,0 +1,208 @@
+import { HeartRatePoint } from '@/types/exercise';
+import { SleepLog } from '@/types/sleep';
+import { HeartRateSample, ParsedSleepSession, StepSample, WearableSource } from '@/types/wearable';
+
+export const WEARABLE_SOURCE_LABELS: Record<WearableSource, string> = {
+  apple_health: 'Apple Health',
+  google_fit: 'Google Fit',
+  fitbit: 'Fitbit',
+  garmin: 'Garmin Connect',
+  tcx: 'TCX file',
+  gpx: 'GPX file',
+  fit: 'FIT file',
+};
+
+// Two records are the same event when they share at least half of the shorter one
+export const OVERLAP_THRESHOLD = 0.5;
+
+// Enough points for a chart without bloating the synced workout document
+export const MAX_HEART_RATE_POINTS = 120;
+
+const EARTH_RADIUS_M = 6371000;
+
+/**
+ * Share (0-1) of the shorter interval covered by the other one. Zero-length
+ * intervals count as fully covered when they fall inside the other interval.
+ */
+export function getOverlapRatio(aStart: Date, aEnd: Date, bStart: Date, bEnd: Date): number {
+  const a0 = aStart.getTime();
+  const a1 = Math.max(aEnd.getTime(), a0);
+  const b0 = bStart.getTime();
+  const b1 = Math.max(bEnd.getTime(), b0);
+
+  const overlap = Math.min(a1, b1) - Math.max(a0, b0);
+  if (overlap < 0) {
+    return 0;
+  }
+  const shorter = Math.min(a1 - a0, b1 - b0);
+  return shorter === 0 ? 1 : overlap / shorter;
+}
+
+export function isOverlapping(aStart: Date, aEnd: Date, bStart: Date, bEnd: Date): boolean {
+  return getOverlapRatio(aStart, aEnd, bStart, bEnd) >= OVERLAP_THRESHOLD;
+}
+
+function lowerBound<T>(items: T[], time: number, getTime: (item: T) => number): number {
+  let low = 0;
+  let high = items.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (getTime(items[mid]) < time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Samples between start and end (inclusive). Samples must be sorted by time.
+ */
+export function sliceHeartRate(samples: HeartRateSample[], start: Date, end: Date): HeartRateSample[] {
+  const from = lowerBound(samples, start.getTime(), sample => sample.time.getTime());
+  const to = lowerBound(samples, end.getTime() + 1, sample => sample.time.getTime());
+  return samples.slice(from, to);
+}
+
+/**
+ * Total steps recorded between start and end. Samples must be sorted by start.
+ */
+export function sumSteps(samples: StepSample[], start: Date, end: Date): number {
+  const from = lowerBound(samples, start.getTime(), sample => sample.start.getTime());
+  let total = 0;
+  for (let i = from; i < samples.length && samples[i].start <= end; i++) {
+    total += samples[i].steps;
+  }
+  return total;
+}
+
+export function summarizeHeartRate(samples: HeartRateSample[]): { average: number; max: number } | null {
+  if (samples.length === 0) {
+    return null;
+  }
+  let sum = 0;
+  let max = 0;
+  for (const sample of samples) {
+    sum += sample.bpm;
+    max = Math.max(max, sample.bpm);
+  }
+  return { average: Math.round(sum / samples.length), max: Math.round(max) };
+}
+
+/**
+ * Average the samples into at most `maxPoints` evenly spaced buckets, with
+ * offsets in seconds from `start`
+ */
+export function downsampleHeartRate(
+  samples: HeartRateSample[],
+  start: Date,
+  maxPoints: number = MAX_HEART_RATE_POINTS
+): HeartRatePoint[] {
+  if (samples.length === 0) {
+    return [];
+  }
+  const startMs = start.getTime();
+  const toPoint = (time: number, bpm: number): HeartRatePoint => ({
+    offset: Math.max(0, Math.round((time - startMs) / 1000)),
+    bpm: Math.round(bpm),
+  });
+
+  if (samples.length <= maxPoints) {
+    return samples.map(sample => toPoint(sample.time.getTime(), sample.bpm));
+  }
+
+  const first = samples[0].time.getTime();
+  const span = Math.max(samples[samples.length - 1].time.getTime() - first, 1);
+  const buckets = Array.from({ length: maxPoints }, () => ({ time: 0, bpm: 0, count: 0 }));
+  for (const sample of samples) {
+    const time = sample.time.getTime();
+    const bucket = buckets[Math.min(maxPoints - 1, Math.floor(((time - first) / span) * maxPoints))];
+    bucket.time += time;
+    bucket.bpm += sample.bpm;
+    bucket.count++;
+  }
+
+  return buckets
+    .filter(bucket => bucket.count > 0)
+    .map(bucket => toPoint(bucket.time / bucket.count, bucket.bpm / bucket.count));
+}
+
+/**
+ * Great-circle distance in metres between two coordinates
+ */
+export function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Map a device sleep session to the 1-10 quality scale used for manual
+ * entries. Uses the device score when there is one, otherwise efficiency,
+ * duration and the share of deep and REM sleep.
+ */
+export function estimateSleepQuality(session: ParsedSleepSession): number {
+  if (session.score !== undefined && session.score > 0) {
+    return Math.min(10, Math.max(1, Math.round(session.score / 10)));
+  }
+
+  const efficiency = session.inBedMinutes > 0 ? session.asleepMinutes / session.inBedMinutes : 1;
+  const hours = session.asleepMinutes / 60;
+
+  let quality = 5;
+  if (hours >= 7 && hours <= 9) {
+    quality += 2;
+  } else if (hours >= 6) {
+    quality += 1;
+  } else if (hours < 5) {
+    quality -= 2;
+  }
+
+  if (efficiency >= 0.9) {
+    quality += 2;
+  } else if (efficiency >= 0.85) {
+    quality += 1;
+  } else if (efficiency < 0.75) {
+    quality -= 1;
+  }
+
+  if (session.deepRemMinutes !== undefined && session.asleepMinutes > 0) {
+    const restorative = session.deepRemMinutes / session.asleepMinutes;
+    if (restorative >= 0.35) {
+      quality += 1;
+    } else if (restorative < 0.2) {
+      quality -= 1;
+    }
+  }
+
+  return Math.min(10, Math.max(1, quality));
+}
+
+/**
+ * The night a sleep session belongs to, using the same 7 AM cut-off as the
+ * manual sleep form
+ */
+export function getSleepNight(bedtime: Date): Date {
+  const night = new Date(bedtime);
+  if (night.getHours() < 7) {
+    night.setDate(night.getDate() - 1);
+  }
+  night.setHours(0, 0, 0, 0);
+  return night;
+}
+
+export function toSleepLog(userId: string, session: ParsedSleepSession, notes?: string): SleepLog {
+  return {
+    userId,
+    date: getSleepNight(session.start),
+    bedtime: session.start,
+    wakeTime: session.end,
+    duration: Math.round(session.asleepMinutes > 0 ? session.asleepMinutes : session.inBedMinutes),
+    quality: estimateSleepQuality(session),
+    notes,
+  };
+}
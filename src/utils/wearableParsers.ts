@@ -0,0 +1,1002 @@
+import { parse, isValid } from 'date-fns';
+import { DistanceUnit } from '@/types/exercise';
+import {
+  HeartRateSample,
+  ParsedActivity,
+  ParsedSleepSession,
+  ParsedWearableData,
+  TrackPoint,
+  WearableActivityType,
+  WearableSource,
+} from '@/types/wearable';
+import { parseCsv } from './workoutCsvParser';
+import { haversineDistance, sliceHeartRate, sumSteps, summarizeHeartRate } from './wearableHelpers';
+
+type SleepStage = 'in_bed' | 'asleep' | 'deep_rem' | 'awake';
+
+interface SleepSegment {
+  start: Date;
+  end: Date;
+  stage: SleepStage;
+}
+
+// Segments further apart than this belong to different nights
+const SLEEP_SESSION_GAP_MS = 2 * 60 * 60 * 1000;
+const MIN_SLEEP_SESSION_MINUTES = 60; // Naps and stray samples are not imported
+const METERS_PER_MILE = 1609.344;
+const METERS_PER_YARD = 0.9144;
+
+const FITBIT_DATE_FORMATS = [
+  'yyyy-MM-dd h:mma',
+  'yyyy-MM-dd hh:mma',
+  'yyyy-MM-dd HH:mm',
+  'dd-MM-yyyy h:mma',
+  'dd-MM-yyyy HH:mm',
+  'MM/dd/yy HH:mm:ss',
+  "yyyy-MM-dd'T'HH:mm:ss.SSS",
+  "yyyy-MM-dd'T'HH:mm:ss",
+];
+const GARMIN_DATE_FORMATS = ['yyyy-MM-dd HH:mm:ss', 'yyyy-MM-dd HH:mm', 'MM/dd/yyyy HH:mm:ss', 'dd/MM/yyyy HH:mm:ss'];
+
+// Google Fit activity type codes for the sports we import
+const GOOGLE_FIT_ACTIVITY_TYPES: Record<number, WearableActivityType> = {
+  1: 'cycling',
+  7: 'walking',
+  8: 'running',
+  9: 'other', // aerobics
+  25: 'elliptical',
+  35: 'hiking',
+  56: 'running', // jogging
+  57: 'running', // sand running
+  58: 'running', // treadmill
+  82: 'swimming',
+  103: 'rowing',
+};
+const GOOGLE_FIT_SLEEP_TYPES = new Set([72, 109, 110, 111, 112]);
+
+// com.google.sleep.segment stage values
+const GOOGLE_FIT_SLEEP_STAGES: Record<number, SleepStage> = {
+  1: 'awake',
+  2: 'asleep',
+  3: 'awake', // out of bed
+  4: 'asleep', // light
+  5: 'deep_rem', // deep
+  6: 'deep_rem', // REM
+};
+
+export function createEmptyWearableData(): ParsedWearableData {
+  return { sources: [], sleep: [], activities: [], heartRate: [], steps: [], warnings: [] };
+}
+
+/**
+ * Combine the results of several files. Samples are re-sorted and samples
+ * reported by more than one file are kept once.
+ */
+export function mergeWearableData(results: ParsedWearableData[]): ParsedWearableData {
+  const merged = createEmptyWearableData();
+  for (const result of results) {
+    result.sources.forEach(source => {
+      if (!merged.sources.includes(source)) {
+        merged.sources.push(source);
+      }
+    });
+    merged.sleep.push(...result.sleep);
+    merged.activities.push(...result.activities);
+    merged.warnings.push(...result.warnings);
+    for (const sample of result.heartRate) {
+      merged.heartRate.push(sample);
+    }
+    for (const sample of result.steps) {
+      merged.steps.push(sample);
+    }
+  }
+
+  merged.sleep.sort((a, b) => a.start.getTime() - b.start.getTime());
+  merged.activities.sort((a, b) => a.start.getTime() - b.start.getTime());
+  merged.heartRate.sort((a, b) => a.time.getTime() - b.time.getTime());
+  merged.heartRate = merged.heartRate.filter((sample, index, samples) =>
+    index === 0 || sample.time.getTime() !== samples[index - 1].time.getTime()
+  );
+  merged.steps.sort((a, b) => a.start.getTime() - b.start.getTime());
+  return merged;
+}
+
+/**
+ * Map a sport name from any source ("HKWorkoutActivityTypeRunning",
+ * "Treadmill Running", "biking", "Pool Swim") to an activity type.
+ * Returns null for activities that are not cardio, e.g. strength training.
+ */
+export function mapActivityType(name: string): WearableActivityType | null {
+  const value = name.toLowerCase();
+  if (/strength|weight|yoga|pilates|sleep|meditation|mindful/.test(value)) {
+    return null;
+  }
+  if (/run|jog/.test(value)) {
+    return 'running';
+  }
+  if (/cycl|bik|ride|spin/.test(value)) {
+    return 'cycling';
+  }
+  if (/hik/.test(value)) {
+    return 'hiking';
+  }
+  if (/walk/.test(value)) {
+    return 'walking';
+  }
+  if (/swim/.test(value)) {
+    return 'swimming';
+  }
+  if (/row/.test(value)) {
+    return 'rowing';
+  }
+  if (/ellip|cross.?train/.test(value)) {
+    return 'elliptical';
+  }
+  if (/cardio|hiit|interval|stair|step|ski|skat|danc|jump|aerobic|box|kickbox/.test(value)) {
+    return 'other';
+  }
+  return null;
+}
+
+/**
+ * Identify the export format from the file name and the first few KB of text
+ */
+export function detectWearableSource(fileName: string, head: string): WearableSource | null {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.fit')) {
+    return 'fit';
+  }
+  if (/<HealthData[\s>]/.test(head)) {
+    return 'apple_health';
+  }
+  if (/<TrainingCenterDatabase[\s>]/.test(head)) {
+    return 'tcx';
+  }
+  if (/<gpx[\s>]/.test(head)) {
+    return 'gpx';
+  }
+
+  const trimmed = head.replace(/^\uFEFF/, '').trimStart();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    if (/"(logId|dateOfSleep|activityName|minutesAsleep)"/.test(head) ||
+        /"dateTime"\s*:\s*"\d{2}\/\d{2}\/\d{2}/.test(head)) {
+      return 'fitbit';
+    }
+    if (/"(fitnessActivity|Data Points|dataTypeName|startTimeMillis|session|point)"/.test(head)) {
+      return 'google_fit';
+    }
+    return null;
+  }
+
+  if (name.endsWith('.csv') || trimmed.includes(',')) {
+    if (/activity type/i.test(head) && /avg hr|max hr|title/i.test(head)) {
+      return 'garmin';
+    }
+    if (/minutes asleep/i.test(head)) {
+      return 'fitbit';
+    }
+  }
+  return null;
+}
+
+function toDate(value: string | number | undefined | null): Date | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  const date = new Date(value);
+  return isValid(date) ? date : null;
+}
+
+function parseWithFormats(value: string, formats: string[]): Date | null {
+  const trimmed = value.trim();
+  for (const format of formats) {
+    const date = parse(trimmed, format, new Date());
+    if (isValid(date)) {
+      return date;
+    }
+  }
+  return toDate(trimmed);
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const cleaned = value.trim().replace(/,(?=\d{3}(\D|$))/g, '').replace(',', '.');
+  if (cleaned === '' || cleaned === '--') {
+    return undefined;
+  }
+  const number = parseFloat(cleaned);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * "hh:mm:ss", "mm:ss" or plain seconds
+ */
+function parseDurationSeconds(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const parts = value.trim().split(':').map(part => parseFloat(part));
+  if (parts.some(part => !Number.isFinite(part))) {
+    return undefined;
+  }
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+function distanceToMeters(distance: number | undefined, unit: DistanceUnit): number | undefined {
+  if (distance === undefined) {
+    return undefined;
+  }
+  return unit === 'miles' ? distance * METERS_PER_MILE : distance * 1000;
+}
+
+/**
+ * Total minutes covered by the intervals, counting overlaps once
+ */
+function sumIntervalMinutes(intervals: Array<{ start: Date; end: Date }>): number {
+  const sorted = [...intervals].sort((a, b) => a.start.getTime() - b.start.getTime());
+  let total = 0;
+  let currentStart = -1;
+  let currentEnd = -1;
+  for (const interval of sorted) {
+    const start = interval.start.getTime();
+    const end = interval.end.getTime();
+    if (start > currentEnd) {
+      total += currentEnd - currentStart;
+      currentStart = start;
+      currentEnd = end;
+    } else {
+      currentEnd = Math.max(currentEnd, end);
+    }
+  }
+  total += currentEnd - currentStart;
+  return total / 60000;
+}
+
+/**
+ * Group sleep stage segments into nights
+ */
+function buildSleepSessions(segments: SleepSegment[]): ParsedSleepSession[] {
+  const sorted = segments
+    .filter(segment => segment.end > segment.start)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const groups: SleepSegment[][] = [];
+  let groupEnd = 0;
+  for (const segment of sorted) {
+    if (groups.length === 0 || segment.start.getTime() - groupEnd > SLEEP_SESSION_GAP_MS) {
+      groups.push([]);
+    }
+    groups[groups.length - 1].push(segment);
+    groupEnd = Math.max(groupEnd, segment.end.getTime());
+  }
+
+  return groups
+    .map((group): ParsedSleepSession => {
+      const asleep = group.filter(segment => segment.stage === 'asleep' || segment.stage === 'deep_rem');
+      const deepRem = group.filter(segment => segment.stage === 'deep_rem');
+      const start = new Date(Math.min(...group.map(segment => segment.start.getTime())));
+      const end = new Date(Math.max(...group.map(segment => segment.end.getTime())));
+      const hasStages = deepRem.length > 0;
+      return {
+        start,
+        end,
+        asleepMinutes: Math.round(sumIntervalMinutes(asleep)),
+        inBedMinutes: Math.round((end.getTime() - start.getTime()) / 60000),
+        deepRemMinutes: hasStages ? Math.round(sumIntervalMinutes(deepRem)) : undefined,
+      };
+    })
+    .filter(session => Math.max(session.asleepMinutes, session.inBedMinutes) >= MIN_SLEEP_SESSION_MINUTES);
+}
+
+/**
+ * Give each activity the heart-rate samples and steps recorded during it,
+ * unless the file already had them per activity
+ */
+function attachSamples(data: ParsedWearableData): ParsedWearableData {
+  data.heartRate.sort((a, b) => a.time.getTime() - b.time.getTime());
+  data.steps.sort((a, b) => a.start.getTime() - b.start.getTime());
+  for (const activity of data.activities) {
+    if (activity.heartRate.length === 0) {
+      activity.heartRate = sliceHeartRate(data.heartRate, activity.start, activity.end);
+    }
+    const summary = summarizeHeartRate(activity.heartRate);
+    activity.averageHeartRate = activity.averageHeartRate ?? summary?.average;
+    activity.maxHeartRate = activity.maxHeartRate ?? summary?.max;
+    if (activity.steps === undefined && data.steps.length > 0) {
+      activity.steps = sumSteps(data.steps, activity.start, activity.end) || undefined;
+    }
+  }
+  return data;
+}
+
+// ---------------------------------------------------------------------------
+// Apple Health
+// ---------------------------------------------------------------------------
+
+const APPLE_TAG_PATTERN = /<(Record|Workout|WorkoutStatistics)\s([^>]*?)\/?>|<\/Workout>/g;
+const ATTRIBUTE_PATTERN = /([\w:]+)="([^"]*)"/g;
+
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ATTRIBUTE_PATTERN.exec(text)) !== null) {
+    attributes[match[1]] = match[2];
+  }
+  return attributes;
+}
+
+/**
+ * Apple Health dates look like "2024-01-15 07:30:00 +0100"
+ */
+function parseAppleDate(value: string | undefined): Date | null {
+  if (!value) {
+    return null;
+  }
+  const match = value.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-])(\d{2})(\d{2})$/);
+  return match
+    ? toDate(`${match[1]}T${match[2]}${match[3]}${match[4]}:${match[5]}`)
+    : toDate(value);
+}
+
+function appleSleepStage(value: string): SleepStage | null {
+  if (value.endsWith('InBed')) {
+    return 'in_bed';
+  }
+  if (value.endsWith('Awake')) {
+    return 'awake';
+  }
+  if (value.endsWith('Deep') || value.endsWith('REM')) {
+    return 'deep_rem';
+  }
+  if (value.includes('Asleep')) {
+    return 'asleep';
+  }
+  return null;
+}
+
+function appleDistanceToMeters(value: number, unit: string | undefined): number {
+  switch (unit) {
+    case 'mi':
+      return value * METERS_PER_MILE;
+    case 'm':
+      return value;
+    case 'yd':
+      return value * METERS_PER_YARD;
+    default:
+      return value * 1000; // km
+  }
+}
+
+function appleEnergyToKcal(value: number, unit: string | undefined): number {
+  return unit === 'kJ' ? value / 4.184 : value;
+}
+
+export interface AppleHealthParser {
+  push(chunk: string): void;
+  finish(): ParsedWearableData;
+}
+
+/**
+ * Streaming parser for Apple Health `export.xml`. The export can be several
+ * GB, so text is fed in chunks and only the records we import are kept.
+ */
+export function createAppleHealthParser(): AppleHealthParser {
+  const data = createEmptyWearableData();
+  data.sources.push('apple_health');
+  const sleepSegments: SleepSegment[] = [];
+  let buffer = '';
+  let currentWorkout: ParsedActivity | null = null;
+  let skippedWorkouts = 0;
+
+  const handleTag = (tag: string | undefined, attributeText: string | undefined, selfClosing: boolean) => {
+    if (!tag) {
+      // </Workout>
+      if (currentWorkout) {
+        data.activities.push(currentWorkout);
+        currentWorkout = null;
+      }
+      return;
+    }
+    const attributes = parseAttributes(attributeText ?? '');
+
+    if (tag === 'Record') {
+      const start = parseAppleDate(attributes.startDate);
+      const end = parseAppleDate(attributes.endDate) ?? start;
+      if (!start || !end) {
+        return;
+      }
+      const type = attributes.type ?? '';
+      if (type === 'HKQuantityTypeIdentifierHeartRate') {
+        const bpm = parseFloat(attributes.value);
+        if (bpm > 0) {
+          data.heartRate.push({ time: start, bpm });
+        }
+      } else if (type === 'HKQuantityTypeIdentifierStepCount') {
+        const steps = parseFloat(attributes.value);
+        if (steps > 0) {
+          data.steps.push({ start, end, steps });
+        }
+      } else if (type === 'HKCategoryTypeIdentifierSleepAnalysis') {
+        const stage = appleSleepStage(attributes.value ?? '');
+        if (stage) {
+          sleepSegments.push({ start, end, stage });
+        }
+      }
+      return;
+    }
+
+    if (tag === 'Workout') {
+      const start = parseAppleDate(attributes.startDate);
+      const end = parseAppleDate(attributes.endDate);
+      const activityType = mapActivityType(attributes.workoutActivityType ?? '');
+      if (!start || !end || !activityType) {
+        skippedWorkouts++;
+        currentWorkout = null;
+        return;
+      }
+      const distance = parseFloat(attributes.totalDistance);
+      const energy = parseFloat(attributes.totalEnergyBurned);
+      currentWorkout = {
+        source: 'apple_health',
+        activityType,
+        name: attributes.sourceName,
+        start,
+        end,
+        distanceMeters: distance > 0 ? appleDistanceToMeters(distance, attributes.totalDistanceUnit) : undefined,
+        calories: energy > 0 ? Math.round(appleEnergyToKcal(energy, attributes.totalEnergyBurnedUnit)) : undefined,
+        heartRate: [],
+      };
+      if (!selfClosing) {
+        return;
+      }
+      // Workout without statistics or events
+      data.activities.push(currentWorkout);
+      currentWorkout = null;
+      return;
+    }
+
+    // WorkoutStatistics (newer exports put totals here instead of on <Workout>)
+    if (!currentWorkout) {
+      return;
+    }
+    const type = attributes.type ?? '';
+    const sum = parseFloat(attributes.sum);
+    if (type === 'HKQuantityTypeIdentifierHeartRate') {
+      const average = parseFloat(attributes.average);
+      const maximum = parseFloat(attributes.maximum);
+      currentWorkout.averageHeartRate = average > 0 ? Math.round(average) : undefined;
+      currentWorkout.maxHeartRate = maximum > 0 ? Math.round(maximum) : undefined;
+    } else if (type.startsWith('HKQuantityTypeIdentifierDistance') && sum > 0 && !currentWorkout.distanceMeters) {
+      currentWorkout.distanceMeters = appleDistanceToMeters(sum, attributes.unit);
+    } else if (type === 'HKQuantityTypeIdentifierActiveEnergyBurned' && sum > 0 && !currentWorkout.calories) {
+      currentWorkout.calories = Math.round(appleEnergyToKcal(sum, attributes.unit));
+    } else if (type === 'HKQuantityTypeIdentifierStepCount' && sum > 0) {
+      currentWorkout.steps = Math.round(sum);
+    }
+  };
+
+  const scan = (text: string) => {
+    APPLE_TAG_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = APPLE_TAG_PATTERN.exec(text)) !== null) {
+      handleTag(match[1], match[2], match[0].endsWith('/>'));
+    }
+  };
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+      // Only scan complete tags; keep the tail for the next chunk
+      const lastTagEnd = buffer.lastIndexOf('>');
+      if (lastTagEnd === -1) {
+        return;
+      }
+      scan(buffer.slice(0, lastTagEnd + 1));
+      buffer = buffer.slice(lastTagEnd + 1);
+    },
+    finish() {
+      scan(buffer);
+      buffer = '';
+      data.sleep = buildSleepSessions(sleepSegments);
+      if (skippedWorkouts > 0) {
+        data.warnings.push(`${skippedWorkouts} non-cardio Apple Health workout(s) were skipped`);
+      }
+      return attachSamples(data);
+    },
+  };
+}
+
+export function parseAppleHealthXml(text: string): ParsedWearableData {
+  const parser = createAppleHealthParser();
+  parser.push(text);
+  return parser.finish();
+}
+
+// ---------------------------------------------------------------------------
+// Google Fit (Takeout JSON and REST API responses)
+// ---------------------------------------------------------------------------
+
+interface GoogleFitPoint {
+  startTimeNanos?: string | number;
+  endTimeNanos?: string | number;
+  dataTypeName?: string;
+  value?: Array<{ fpVal?: number; intVal?: number }>;
+  fitValue?: Array<{ value?: { fpVal?: number; intVal?: number } }>;
+}
+
+interface GoogleFitSession {
+  name?: string;
+  fitnessActivity?: string;
+  activityType?: number;
+  startTime?: string;
+  endTime?: string;
+  startTimeMillis?: string | number;
+  endTimeMillis?: string | number;
+  aggregate?: Array<{ metricName?: string; floatValue?: number; intValue?: number }>;
+}
+
+function nanosToDate(value: string | number | undefined): Date | null {
+  if (value === undefined) {
+    return null;
+  }
+  return toDate(Math.round(Number(value) / 1e6));
+}
+
+function getPointValue(point: GoogleFitPoint): number | undefined {
+  const value = point.value?.[0] ?? point.fitValue?.[0]?.value;
+  return value?.fpVal ?? value?.intVal;
+}
+
+export function parseGoogleFitJson(json: unknown): ParsedWearableData {
+  const data = createEmptyWearableData();
+  data.sources.push('google_fit');
+  const sleepSegments: SleepSegment[] = [];
+
+  const record = (json ?? {}) as Record<string, unknown>;
+  const sessions: GoogleFitSession[] = Array.isArray(record.session)
+    ? record.session as GoogleFitSession[]
+    : record.fitnessActivity ? [record as GoogleFitSession] : [];
+  const points: GoogleFitPoint[] = Array.isArray(record.point)
+    ? record.point as GoogleFitPoint[]
+    : Array.isArray(record['Data Points']) ? record['Data Points'] as GoogleFitPoint[] : [];
+
+  for (const session of sessions) {
+    const start = toDate(session.startTime ?? (session.startTimeMillis !== undefined ? Number(session.startTimeMillis) : undefined));
+    const end = toDate(session.endTime ?? (session.endTimeMillis !== undefined ? Number(session.endTimeMillis) : undefined));
+    if (!start || !end) {
+      continue;
+    }
+
+    const isSleep = session.activityType !== undefined
+      ? GOOGLE_FIT_SLEEP_TYPES.has(session.activityType)
+      : session.fitnessActivity?.startsWith('sleep');
+    if (isSleep) {
+      sleepSegments.push({ start, end, stage: 'in_bed' });
+      continue;
+    }
+
+    const activityType = session.activityType !== undefined
+      ? GOOGLE_FIT_ACTIVITY_TYPES[session.activityType]
+      : mapActivityType(session.fitnessActivity ?? '');
+    if (!activityType) {
+      continue;
+    }
+
+    const metric = (name: string) => {
+      const aggregate = session.aggregate?.find(item => item.metricName === name);
+      return aggregate?.floatValue ?? aggregate?.intValue;
+    };
+    const distance = metric('com.google.distance.delta');
+    const calories = metric('com.google.calories.expended');
+    const steps = metric('com.google.step_count.delta');
+    const heartRate = metric('com.google.heart_rate.summary') ?? metric('com.google.heart_rate.bpm');
+
+    data.activities.push({
+      source: 'google_fit',
+      activityType,
+      name: session.name,
+      start,
+      end,
+      distanceMeters: distance,
+      calories: calories !== undefined ? Math.round(calories) : undefined,
+      steps: steps !== undefined ? Math.round(steps) : undefined,
+      averageHeartRate: heartRate !== undefined ? Math.round(heartRate) : undefined,
+      heartRate: [],
+    });
+  }
+
+  for (const point of points) {
+    const start = nanosToDate(point.startTimeNanos);
+    const end = nanosToDate(point.endTimeNanos) ?? start;
+    const value = getPointValue(point);
+    if (!start || !end || value === undefined) {
+      continue;
+    }
+    const type = point.dataTypeName ?? '';
+    if (type.startsWith('com.google.heart_rate.bpm') && value > 0) {
+      data.heartRate.push({ time: start, bpm: value });
+    } else if (type.startsWith('com.google.step_count.delta') && value > 0) {
+      data.steps.push({ start, end, steps: value });
+    } else if (type.startsWith('com.google.sleep.segment')) {
+      const stage = GOOGLE_FIT_SLEEP_STAGES[value];
+      if (stage) {
+        sleepSegments.push({ start, end, stage });
+      }
+    }
+  }
+
+  data.sleep = buildSleepSessions(sleepSegments);
+  return attachSamples(data);
+}
+
+// ---------------------------------------------------------------------------
+// Fitbit (account export CSV and Takeout JSON)
+// ---------------------------------------------------------------------------
+
+interface FitbitSleepLog {
+  startTime?: string;
+  endTime?: string;
+  minutesAsleep?: number;
+  timeInBed?: number;
+  efficiency?: number;
+  levels?: { summary?: Record<string, { minutes?: number }> };
+}
+
+interface FitbitExercise {
+  activityName?: string;
+  startTime?: string;
+  duration?: number; // ms
+  calories?: number;
+  steps?: number;
+  averageHeartRate?: number;
+  distance?: number;
+  distanceUnit?: string;
+}
+
+interface FitbitHeartRate {
+  dateTime?: string;
+  value?: { bpm?: number };
+}
+
+function parseFitbitDate(value: string | undefined): Date | null {
+  return value ? parseWithFormats(value, FITBIT_DATE_FORMATS) : null;
+}
+
+function fitbitDistanceToMeters(distance: number, unit: string | undefined): number {
+  const normalized = (unit ?? '').toLowerCase();
+  if (normalized.startsWith('mile')) {
+    return distance * METERS_PER_MILE;
+  }
+  if (normalized.startsWith('meter')) {
+    return distance;
+  }
+  return distance * 1000;
+}
+
+export function parseFitbitJson(json: unknown): ParsedWearableData {
+  const data = createEmptyWearableData();
+  data.sources.push('fitbit');
+  const entries = Array.isArray(json) ? json as Array<Record<string, unknown>> : [];
+
+  for (const entry of entries) {
+    if ('minutesAsleep' in entry) {
+      const log = entry as FitbitSleepLog;
+      const start = parseFitbitDate(log.startTime);
+      const end = parseFitbitDate(log.endTime);
+      if (!start || !end) {
+        continue;
+      }
+      const summary = log.levels?.summary;
+      const deepRem = summary?.deep || summary?.rem
+        ? (summary.deep?.minutes ?? 0) + (summary.rem?.minutes ?? 0)
+        : undefined;
+      data.sleep.push({
+        start,
+        end,
+        asleepMinutes: log.minutesAsleep ?? 0,
+        inBedMinutes: log.timeInBed ?? Math.round((end.getTime() - start.getTime()) / 60000),
+        deepRemMinutes: deepRem,
+      });
+    } else if ('activityName' in entry) {
+      const exercise = entry as FitbitExercise;
+      const start = parseFitbitDate(exercise.startTime);
+      const activityType = mapActivityType(exercise.activityName ?? '');
+      if (!start || !activityType || !exercise.duration) {
+        continue;
+      }
+      data.activities.push({
+        source: 'fitbit',
+        activityType,
+        name: exercise.activityName,
+        start,
+        end: new Date(start.getTime() + exercise.duration),
+        distanceMeters: exercise.distance ? fitbitDistanceToMeters(exercise.distance, exercise.distanceUnit) : undefined,
+        calories: exercise.calories,
+        steps: exercise.steps,
+        averageHeartRate: exercise.averageHeartRate,
+        heartRate: [],
+      });
+    } else if ('dateTime' in entry) {
+      const sample = entry as FitbitHeartRate;
+      const time = parseFitbitDate(sample.dateTime);
+      const bpm = sample.value?.bpm;
+      if (time && bpm) {
+        data.heartRate.push({ time, bpm });
+      }
+    }
+  }
+
+  data.sleep = data.sleep.filter(session => session.asleepMinutes >= MIN_SLEEP_SESSION_MINUTES);
+  return attachSamples(data);
+}
+
+/**
+ * Fitbit account exports are one CSV with titled sections ("Body",
+ * "Activities", "Sleep", ...). Only the sleep section is imported.
+ */
+export function parseFitbitCsv(text: string): ParsedWearableData {
+  const data = createEmptyWearableData();
+  data.sources.push('fitbit');
+  const rows = parseCsv(text);
+
+  let headers: string[] | null = null;
+  for (const row of rows) {
+    const first = row[0]?.trim().toLowerCase() ?? '';
+    if (first === 'start time' && row.some(cell => /minutes asleep/i.test(cell))) {
+      headers = row.map(cell => cell.trim().toLowerCase());
+      continue;
+    }
+    if (!headers) {
+      continue;
+    }
+    if (row.length === 1) {
+      headers = null; // Next section title
+      continue;
+    }
+
+    const value = (name: string) => row[(headers as string[]).indexOf(name)];
+    const start = parseFitbitDate(value('start time'));
+    const end = parseFitbitDate(value('end time'));
+    const asleep = parseNumber(value('minutes asleep'));
+    if (!start || !end || asleep === undefined) {
+      data.warnings.push(`Skipped a Fitbit sleep row with an unreadable date: ${row.join(', ')}`);
+      continue;
+    }
+    const rem = parseNumber(value('minutes rem sleep'));
+    const deep = parseNumber(value('minutes deep sleep'));
+    data.sleep.push({
+      start,
+      end,
+      asleepMinutes: asleep,
+      inBedMinutes: parseNumber(value('time in bed')) ?? Math.round((end.getTime() - start.getTime()) / 60000),
+      deepRemMinutes: rem !== undefined || deep !== undefined ? (rem ?? 0) + (deep ?? 0) : undefined,
+    });
+  }
+
+  if (data.sleep.length === 0) {
+    data.warnings.push('No sleep section found in the Fitbit export');
+  }
+  data.sleep = data.sleep.filter(session => session.asleepMinutes >= MIN_SLEEP_SESSION_MINUTES);
+  return data;
+}
+
+// ---------------------------------------------------------------------------
+// Garmin Connect activities CSV
+// ---------------------------------------------------------------------------
+
+/**
+ * Garmin Connect "Activities.csv". Distances are in the account's unit
+ * (km or miles), swims in metres or yards.
+ */
+export function parseGarminCsv(text: string, distanceUnit: DistanceUnit): ParsedWearableData {
+  const data = createEmptyWearableData();
+  data.sources.push('garmin');
+  const [headerRow, ...rows] = parseCsv(text);
+  if (!headerRow) {
+    return data;
+  }
+  const headers = headerRow.map(cell => cell.trim().toLowerCase());
+  let skipped = 0;
+
+  rows.forEach((row, index) => {
+    const value = (name: string) => {
+      const column = headers.indexOf(name);
+      return column === -1 ? undefined : row[column];
+    };
+    const typeName = value('activity type') ?? '';
+    const activityType = mapActivityType(typeName);
+    const start = parseWithFormats(value('date') ?? '', GARMIN_DATE_FORMATS);
+    const seconds = parseDurationSeconds(value('time') ?? value('elapsed time'));
+    if (!activityType) {
+      skipped++;
+      return;
+    }
+    if (!start || !seconds) {
+      data.warnings.push(`Row ${index + 2}: missing date or duration`);
+      return;
+    }
+
+    const distance = parseNumber(value('distance'));
+    const distanceMeters = activityType === 'swimming' && distance !== undefined
+      ? distance * (distanceUnit === 'miles' ? METERS_PER_YARD : 1)
+      : distanceToMeters(distance, distanceUnit);
+    const averageHeartRate = parseNumber(value('avg hr'));
+    const maxHeartRate = parseNumber(value('max hr'));
+    const calories = parseNumber(value('calories'));
+    const steps = parseNumber(value('steps'));
+
+    data.activities.push({
+      source: 'garmin',
+      activityType,
+      name: value('title')?.trim() || typeName,
+      start,
+      end: new Date(start.getTime() + seconds * 1000),
+      distanceMeters: distanceMeters || undefined,
+      calories: calories || undefined,
+      steps: steps || undefined,
+      averageHeartRate: averageHeartRate || undefined,
+      maxHeartRate: maxHeartRate || undefined,
+      heartRate: [],
+    });
+  });
+
+  if (skipped > 0) {
+    data.warnings.push(`${skipped} non-cardio Garmin activit${skipped === 1 ? 'y was' : 'ies were'} skipped`);
+  }
+  return data;
+}
+
+// ---------------------------------------------------------------------------
+// TCX and GPX activity files
+// ---------------------------------------------------------------------------
+
+function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('File is not valid XML');
+  }
+  return doc;
+}
+
+function childText(parent: Element, name: string): string | undefined {
+  return parent.getElementsByTagNameNS('*', name)[0]?.textContent?.trim() || undefined;
+}
+
+function finishTrackActivity(
+  source: WearableSource,
+  activityType: WearableActivityType,
+  track: TrackPoint[],
+  summary: Partial<ParsedActivity> = {}
+): ParsedActivity | null {
+  const points = track.sort((a, b) => a.time.getTime() - b.time.getTime());
+  const start = summary.start ?? points[0]?.time;
+  const end = summary.end ?? points[points.length - 1]?.time;
+  if (!start || !end) {
+    return null;
+  }
+  const heartRate: HeartRateSample[] = points
+    .filter(point => point.heartRate !== undefined)
+    .map(point => ({ time: point.time, bpm: point.heartRate as number }));
+  const hrSummary = summarizeHeartRate(heartRate);
+  return {
+    source,
+    activityType,
+    ...summary,
+    start,
+    end,
+    averageHeartRate: summary.averageHeartRate ?? hrSummary?.average,
+    maxHeartRate: summary.maxHeartRate ?? hrSummary?.max,
+    heartRate,
+    track: points.length > 0 ? points : undefined,
+  };
+}
+
+export function parseTcx(text: string): ParsedWearableData {
+  const data = createEmptyWearableData();
+  data.sources.push('tcx');
+  const doc = parseXml(text);
+
+  for (const activity of Array.from(doc.getElementsByTagNameNS('*', 'Activity'))) {
+    const activityType = mapActivityType(activity.getAttribute('Sport') ?? '') ?? 'other';
+    const laps = Array.from(activity.getElementsByTagNameNS('*', 'Lap'));
+    const track: TrackPoint[] = [];
+
+    for (const trackpoint of Array.from(activity.getElementsByTagNameNS('*', 'Trackpoint'))) {
+      const time = toDate(childText(trackpoint, 'Time'));
+      if (!time) {
+        continue;
+      }
+      const lat = parseNumber(childText(trackpoint, 'LatitudeDegrees'));
+      const lon = parseNumber(childText(trackpoint, 'LongitudeDegrees'));
+      const heartRateElement = trackpoint.getElementsByTagNameNS('*', 'HeartRateBpm')[0];
+      track.push({
+        time,
+        lat,
+        lon,
+        elevation: parseNumber(childText(trackpoint, 'AltitudeMeters')),
+        distance: parseNumber(childText(trackpoint, 'DistanceMeters')),
+        heartRate: heartRateElement ? parseNumber(childText(heartRateElement, 'Value')) : undefined,
+      });
+    }
+
+    // Lap totals are direct children of <Lap>; trackpoints also have DistanceMeters
+    const lapTotal = (name: string) => laps.reduce((total, lap) => {
+      const element = Array.from(lap.children).find(child => child.localName === name);
+      return total + (parseNumber(element?.textContent ?? undefined) ?? 0);
+    }, 0);
+    const maxLapValue = (name: string) => Math.max(0, ...laps.map(lap => {
+      const element = Array.from(lap.children).find(child => child.localName === name);
+      return element ? parseNumber(childText(element, 'Value')) ?? 0 : 0;
+    }));
+
+    const lapStart = toDate(laps[0]?.getAttribute('StartTime'));
+    const totalSeconds = lapTotal('TotalTimeSeconds');
+    const parsed = finishTrackActivity('tcx', activityType, track, {
+      name: childText(activity, 'Notes'),
+      start: lapStart ?? toDate(childText(activity, 'Id')) ?? undefined,
+      end: lapStart && totalSeconds > 0 ? new Date(lapStart.getTime() + totalSeconds * 1000) : undefined,
+      distanceMeters: lapTotal('DistanceMeters') || undefined,
+      calories: lapTotal('Calories') || undefined,
+      maxHeartRate: maxLapValue('MaximumHeartRateBpm') || undefined,
+    });
+    if (parsed) {
+      data.activities.push(parsed);
+    }
+  }
+
+  if (data.activities.length === 0) {
+    data.warnings.push('No activities found in the TCX file');
+  }
+  return data;
+}
+
+export function parseGpx(text: string): ParsedWearableData {
+  const data = createEmptyWearableData();
+  data.sources.push('gpx');
+  const doc = parseXml(text);
+
+  for (const trk of Array.from(doc.getElementsByTagNameNS('*', 'trk'))) {
+    const track: TrackPoint[] = [];
+    let distance = 0;
+    let previous: TrackPoint | null = null;
+
+    for (const trkpt of Array.from(trk.getElementsByTagNameNS('*', 'trkpt'))) {
+      const time = toDate(childText(trkpt, 'time'));
+      const lat = parseNumber(trkpt.getAttribute('lat') ?? undefined);
+      const lon = parseNumber(trkpt.getAttribute('lon') ?? undefined);
+      if (!time || lat === undefined || lon === undefined) {
+        continue;
+      }
+      if (previous?.lat !== undefined && previous.lon !== undefined) {
+        distance += haversineDistance(previous.lat, previous.lon, lat, lon);
+      }
+      const point: TrackPoint = {
+        time,
+        lat,
+        lon,
+        elevation: parseNumber(childText(trkpt, 'ele')),
+        distance,
+        heartRate: parseNumber(childText(trkpt, 'hr')),
+      };
+      track.push(point);
+      previous = point;
+    }
+
+    const typeName = childText(trk, 'type') ?? childText(trk, 'name') ?? '';
+    const parsed = finishTrackActivity('gpx', mapActivityType(typeName) ?? 'other', track, {
+      name: childText(trk, 'name'),
+      distanceMeters: distance > 0 ? Math.round(distance) : undefined,
+    });
+    if (parsed) {
+      data.activities.push(parsed);
+    }
+  }
+
+  if (data.activities.length === 0) {
+    data.warnings.push('No timed track found in the GPX file');
+  }
+  return data;
+}
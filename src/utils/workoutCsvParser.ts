@@ -0,0 +1,422 @@
+import { parse, isValid } from 'date-fns';
+import { WeightUnit, DistanceUnit, SetType } from '@/types/exercise';
+import {
+  CsvImportSource,
+  ParsedCsvExercise,
+  ParsedCsvFile,
+  ParsedCsvRowError,
+  ParsedCsvSet,
+  ParsedCsvWorkout,
+} from '@/types/csvImport';
+import { SET_TYPE_CONFIG } from './setTypes';
+
+type CsvRow = Record<string, string>;
+
+const HEVY_DATE_FORMATS = ['d MMM yyyy, HH:mm', 'd MMM yyyy HH:mm', 'yyyy-MM-dd HH:mm:ss', 'yyyy-MM-dd HH:mm'];
+const STRONG_DATE_FORMATS = ['yyyy-MM-dd HH:mm:ss', 'yyyy-MM-dd HH:mm', 'yyyy-MM-dd'];
+const FITNOTES_DATE_FORMATS = ['yyyy-MM-dd'];
+const FITTRACKAI_DATE_FORMATS = ['yyyy-MM-dd HH:mm'];
+
+// Strong marks special sets in the Set Order column, Hevy in set_type
+const STRONG_SET_TYPES: Record<string, SetType> = { w: 'warmup', d: 'drop', f: 'failure' };
+const HEVY_SET_TYPES: Record<string, SetType> = { warmup: 'warmup', dropset: 'drop', failure: 'failure' };
+
+/**
+ * Split CSV text into rows of fields. Handles quoted fields, escaped quotes,
+ * line breaks inside quotes, CRLF line endings and semicolon-delimited files.
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = countOutsideQuotes(firstLine, ';') > countOutsideQuotes(firstLine, ',') ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Identify which app produced a CSV export from its header row
+ */
+export function detectCsvSource(headers: string[]): CsvImportSource | null {
+  const normalized = headers.map(normalizeHeader);
+  const has = (header: string) => normalized.includes(header);
+
+  if (has('exercise_title') && has('start_time')) {
+    return 'hevy';
+  }
+  if (has('exercise name') && has('set order')) {
+    return 'strong';
+  }
+  if (has('exercise') && has('category') && normalized.some(h => h.startsWith('weight'))) {
+    return 'fitnotes';
+  }
+  if (has('exercise') && has('set number') && has('workout')) {
+    return 'fittrackai';
+  }
+  return null;
+}
+
+/**
+ * Parse a Strong, Hevy, FitNotes or FitTrackAI CSV export into workouts.
+ * Rows that can't be read are reported in `rowErrors` rather than aborting the parse.
+ *
+ * @param defaultUnit - Unit for files that don't state one (Strong uses the app's unit setting)
+ */
+export function parseWorkoutCsv(text: string, defaultUnit: WeightUnit = 'kg'): ParsedCsvFile {
+  const [headerRow, ...dataRows] = parseCsv(text);
+  if (!headerRow) {
+    throw new Error('Invalid CSV file: the file is empty');
+  }
+
+  const source = detectCsvSource(headerRow);
+  if (!source) {
+    throw new Error('Invalid CSV file: unrecognised format. Supported exports are Strong, Hevy, FitNotes and FitTrackAI.');
+  }
+
+  const headers = headerRow.map(normalizeHeader);
+  const rows: CsvRow[] = dataRows.map(values =>
+    Object.fromEntries(headers.map((header, index) => [header, (values[index] ?? '').trim()]))
+  );
+
+  const rowErrors: ParsedCsvRowError[] = [];
+  const workouts = new Map<string, ParsedCsvWorkout>();
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+    try {
+      const parsed = source === 'strong'
+        ? parseStrongRow(row, headers, defaultUnit)
+        : source === 'hevy'
+          ? parseHevyRow(row)
+          : source === 'fitnotes'
+            ? parseFitNotesRow(row, headers)
+            : parseFitTrackRow(row, defaultUnit);
+
+      if (!parsed) {
+        return;
+      }
+
+      const { key, workout, exerciseName, set, exerciseNotes } = parsed;
+      const existing = workouts.get(key) ?? workout;
+      workouts.set(key, existing);
+
+      let exercise: ParsedCsvExercise | undefined = existing.exercises.find(ex => ex.name === exerciseName);
+      if (!exercise) {
+        exercise = { name: exerciseName, sets: [] };
+        existing.exercises.push(exercise);
+      }
+      if (exerciseNotes && !exercise.notes) {
+        exercise.notes = exerciseNotes;
+      }
+      exercise.sets.push({ ...set, setNumber: exercise.sets.length + 1 });
+    } catch (error) {
+      rowErrors.push({
+        row: rowNumber,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  return {
+    source,
+    workouts: Array.from(workouts.values()).sort((a, b) => a.date.getTime() - b.date.getTime()),
+    rowErrors,
+    totalRows: rows.length,
+  };
+}
+
+interface ParsedRow {
+  key: string;
+  workout: ParsedCsvWorkout;
+  exerciseName: string;
+  exerciseNotes?: string;
+  set: Omit<ParsedCsvSet, 'setNumber'>;
+}
+
+function parseStrongRow(row: CsvRow, headers: string[], defaultUnit: WeightUnit): ParsedRow | null {
+  const setOrder = row['set order'];
+  // Strong writes rest timer and note rows alongside sets
+  if (!setOrder || !/^(\d+|w|d|f)$/i.test(setOrder)) {
+    return null;
+  }
+
+  const date = parseDate(row['date'], STRONG_DATE_FORMATS);
+  const exerciseName = requireValue(row['exercise name'], 'Exercise Name');
+  const unit = parseWeightUnit(row['weight unit']) ?? getUnitFromHeaders(headers, 'weight') ?? defaultUnit;
+  const distanceUnit = parseDistanceUnit(row['distance unit']);
+
+  return {
+    key: `${row['date']}|${row['workout name']}`,
+    workout: {
+      name: row['workout name'] || undefined,
+      date,
+      durationMinutes: parseDurationMinutes(row['duration']),
+      notes: row['workout notes'] || undefined,
+      exercises: [],
+    },
+    exerciseName,
+    set: {
+      weight: parseNumber(row['weight']),
+      unit,
+      reps: parseNumber(row['reps']),
+      // Strong fills unused columns with 0
+      distance: parseNumber(row['distance']) || undefined,
+      distanceUnit,
+      duration: parseNumber(row['seconds']) || undefined,
+      rpe: parseNumber(row['rpe']),
+      setType: STRONG_SET_TYPES[setOrder.toLowerCase()],
+      notes: row['notes'] || undefined,
+    },
+  };
+}
+
+function parseHevyRow(row: CsvRow): ParsedRow | null {
+  const date = parseDate(row['start_time'], HEVY_DATE_FORMATS);
+  const endTime = row['end_time'] ? parseDate(row['end_time'], HEVY_DATE_FORMATS) : undefined;
+  const exerciseName = requireValue(row['exercise_title'], 'exercise_title');
+
+  const weightKg = parseNumber(row['weight_kg']);
+  const weightLbs = parseNumber(row['weight_lbs']);
+  const distanceKm = parseNumber(row['distance_km']);
+  const distanceMiles = parseNumber(row['distance_miles']);
+
+  return {
+    key: `${row['start_time']}|${row['title']}`,
+    workout: {
+      name: row['title'] || undefined,
+      date,
+      endTime,
+      durationMinutes: endTime ? Math.max(0, Math.round((endTime.getTime() - date.getTime()) / 60000)) : undefined,
+      notes: row['description'] || undefined,
+      exercises: [],
+    },
+    exerciseName,
+    exerciseNotes: row['exercise_notes'] || undefined,
+    set: {
+      weight: weightKg ?? weightLbs,
+      unit: weightKg === undefined && weightLbs !== undefined ? 'lbs' : 'kg',
+      reps: parseNumber(row['reps']),
+      distance: distanceKm ?? distanceMiles,
+      distanceUnit: distanceKm === undefined && distanceMiles !== undefined ? 'miles' : distanceKm !== undefined ? 'km' : undefined,
+      duration: parseNumber(row['duration_seconds']),
+      rpe: parseNumber(row['rpe']),
+      setType: HEVY_SET_TYPES[row['set_type']?.toLowerCase() ?? ''],
+    },
+  };
+}
+
+function parseFitNotesRow(row: CsvRow, headers: string[]): ParsedRow | null {
+  const date = parseDate(row['date'], FITNOTES_DATE_FORMATS);
+  const exerciseName = requireValue(row['exercise'], 'Exercise');
+  const weightHeader = headers.find(h => h.startsWith('weight')) ?? 'weight';
+  const unit = getUnitFromHeaders(headers, 'weight') ?? 'kg';
+
+  return {
+    key: row['date'],
+    workout: { date, exercises: [] },
+    exerciseName,
+    set: {
+      weight: parseNumber(row[weightHeader]),
+      unit,
+      reps: parseNumber(row['reps']),
+      distance: parseNumber(row['distance']),
+      distanceUnit: parseDistanceUnit(row['distance unit']),
+      duration: parseClockSeconds(row['time']),
+      notes: row['comment'] || undefined,
+    },
+  };
+}
+
+/**
+ * This app's own set export (see csvExport). Sets left unfinished are skipped.
+ */
+function parseFitTrackRow(row: CsvRow, defaultUnit: WeightUnit): ParsedRow | null {
+  if (row['completed']?.toLowerCase() === 'false') {
+    return null;
+  }
+
+  const date = parseDate(row['date'], FITTRACKAI_DATE_FORMATS);
+  const exerciseName = requireValue(unescapeFormula(row['exercise']), 'Exercise');
+  const setType = row['set type']?.toLowerCase();
+
+  return {
+    key: `${row['date']}|${row['workout']}`,
+    workout: { name: unescapeFormula(row['workout']) || undefined, date, exercises: [] },
+    exerciseName,
+    set: {
+      weight: parseNumber(row['weight']),
+      unit: parseWeightUnit(row['unit']) ?? defaultUnit,
+      reps: parseNumber(row['reps']),
+      distance: parseNumber(row['distance']),
+      distanceUnit: parseDistanceUnit(row['distance unit']),
+      duration: parseNumber(row['duration (s)']),
+      rpe: parseNumber(row['rpe']),
+      setType: setType && setType !== 'working' && setType in SET_TYPE_CONFIG ? setType as SetType : undefined,
+      notes: unescapeFormula(row['notes']) || undefined,
+    },
+  };
+}
+
+/**
+ * Undo the quote csvExport puts in front of text that looks like a formula
+ */
+function unescapeFormula(value: string | undefined): string | undefined {
+  return value && /^'[=+\-@]/.test(value) ? value.slice(1) : value;
+}
+
+function normalizeHeader(header: string): string {
+  return header.replace(/^\uFEFF/, '').trim().toLowerCase();
+}
+
+function countOutsideQuotes(line: string, char: string): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const c of line) {
+    if (c === '"') {
+      inQuotes = !inQuotes;
+    } else if (c === char && !inQuotes) {
+      count++;
+    }
+  }
+  return count;
+}
+
+function requireValue(value: string | undefined, column: string): string {
+  if (!value) {
+    throw new Error(`Missing ${column}`);
+  }
+  return value;
+}
+
+function parseDate(value: string | undefined, formats: string[]): Date {
+  if (!value) {
+    throw new Error('Missing date');
+  }
+  for (const format of formats) {
+    const date = parse(value, format, new Date());
+    if (isValid(date)) {
+      return date;
+    }
+  }
+  const fallback = new Date(value);
+  if (isValid(fallback)) {
+    return fallback;
+  }
+  throw new Error(`Unrecognised date "${value}"`);
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  // Some locales export decimals with a comma
+  const parsed = parseFloat(value.replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Strong durations look like "1h 5m", "45m" or "30s"; newer exports use plain seconds
+ */
+function parseDurationMinutes(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d+$/.test(value)) {
+    return Math.round(parseInt(value, 10) / 60);
+  }
+  const hours = parseInt(value.match(/(\d+)\s*h/)?.[1] ?? '0', 10);
+  const minutes = parseInt(value.match(/(\d+)\s*m/)?.[1] ?? '0', 10);
+  const seconds = parseInt(value.match(/(\d+)\s*s/)?.[1] ?? '0', 10);
+  const total = hours * 60 + minutes + Math.round(seconds / 60);
+  return total > 0 ? total : undefined;
+}
+
+/**
+ * FitNotes times are "h:mm:ss" or "mm:ss"
+ */
+function parseClockSeconds(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const parts = value.split(':').map(part => parseInt(part, 10));
+  if (parts.some(part => Number.isNaN(part))) {
+    return undefined;
+  }
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return seconds > 0 ? seconds : undefined;
+}
+
+function parseWeightUnit(value: string | undefined): WeightUnit | undefined {
+  const unit = value?.toLowerCase();
+  if (unit === 'kg' || unit === 'kgs') {
+    return 'kg';
+  }
+  if (unit === 'lb' || unit === 'lbs') {
+    return 'lbs';
+  }
+  return undefined;
+}
+
+function parseDistanceUnit(value: string | undefined): DistanceUnit | undefined {
+  const unit = value?.toLowerCase();
+  if (unit === 'km' || unit === 'kms') {
+    return 'km';
+  }
+  if (unit === 'mi' || unit === 'mile' || unit === 'miles') {
+    return 'miles';
+  }
+  return undefined;
+}
+
+/**
+ * Read a unit from headers such as "Weight (kgs)" or "Weight (lbs)"
+ */
+function getUnitFromHeaders(headers: string[], column: string): WeightUnit | undefined {
+  const header = headers.find(h => h.startsWith(column) && h.includes('('));
+  return parseWeightUnit(header?.match(/\(([^)]+)\)/)?.[1]);
+}
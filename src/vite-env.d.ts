@@ -20,6 +20,12 @@ interface ImportMetaEnv {
   // Google Gemini AI API Key (Optional - for AI insights)
   readonly VITE_GEMINI_API_KEY?: string;
   
+  // Bearer token for an OpenAI-compatible AI endpoint (Optional - local servers usually need none)
+  readonly VITE_AI_API_KEY?: string;
+  
+  // Web push certificate key from Firebase Cloud Messaging (Optional - for server-sent notifications)
+  readonly VITE_FIREBASE_VAPID_KEY?: string;
+  
   // Supabase Sync Webhook (Optional - for client-triggered syncs)
   readonly VITE_SUPABASE_SYNC_WEBHOOK_SECRET?: string;
 }